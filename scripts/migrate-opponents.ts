@@ -0,0 +1,33 @@
+/**
+ * Link existing matches to the opponent registry
+ *
+ * Usage: npm run db:migrate-opponents
+ *
+ * Matches created before the registry only have a free-text opponent name. Names that
+ * differ only in spacing, case or full-width characters become one opponent; safe to rerun,
+ * as matches that already have an opponent are left alone.
+ */
+import { prisma } from '../src/lib/prisma';
+import { opponentService } from '../src/lib/services/opponentService';
+
+async function migrateOpponents() {
+  try {
+    const { linkedMatches, createdOpponents } = await opponentService.linkUnassignedMatches();
+
+    console.log(`✅ Linked ${linkedMatches} match(es) to opponents`);
+    console.log(`🆕 Registered ${createdOpponents} new opponent(s)`);
+
+    const opponents = await opponentService.getOpponents();
+    for (const opponent of opponents) {
+      console.log(`   ${opponent.name}: ${opponent.matchCount} match(es), aliases ${opponent.aliases.join(', ')}`);
+    }
+    console.log('ℹ️  Merge opponents entered under different names via POST /api/admin/opponents/merge');
+  } catch (error) {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateOpponents();
@@ -0,0 +1,57 @@
+/**
+ * Rebuild an empty database from a club data backup (管理后台 → 数据备份)
+ *
+ * Usage: npm run db:restore -- <backup.zip> [--admin-password <password>]
+ *
+ * Backups carry no password hashes. Pass --admin-password to give every restored
+ * admin a password; other accounts have none until one is set for them.
+ */
+import { readFileSync } from 'fs';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../src/lib/prisma';
+import { backupService } from '../src/lib/services/backupService';
+
+async function restoreBackup() {
+  const args = process.argv.slice(2);
+  const passwordFlag = args.indexOf('--admin-password');
+  const adminPassword = passwordFlag !== -1 ? args[passwordFlag + 1] : undefined;
+  const file = args.find((arg, index) => !arg.startsWith('--') && index !== passwordFlag + 1);
+
+  if (!file || (passwordFlag !== -1 && !adminPassword)) {
+    console.error('Usage: npm run db:restore -- <backup.zip> [--admin-password <password>]');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const summary = await backupService.restoreBackup(readFileSync(file));
+
+    console.log(`✅ Restored ${file}`);
+    for (const table of summary.tables) {
+      console.log(`   ${table.name}: ${table.rows}`);
+    }
+    if (summary.skippedTables.length > 0) {
+      console.log('⚠️  Tables not restored (unknown to this version):', summary.skippedTables.join(', '));
+    }
+    if (summary.skippedColumns.length > 0) {
+      console.log('⚠️  Columns not restored (no longer in the schema):', summary.skippedColumns.join(', '));
+    }
+
+    if (adminPassword) {
+      const { count } = await prisma.user.updateMany({
+        where: { userType: 'ADMIN' },
+        data: { passwordHash: await bcrypt.hash(adminPassword, 10) }
+      });
+      console.log(`🔑 Password set for ${count} admin(s)`);
+    } else {
+      console.log('🔑 No passwords were restored; rerun with --admin-password on a fresh database or set them manually');
+    }
+  } catch (error) {
+    console.error('❌ Restore failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+restoreBackup();
@@ -23,7 +23,8 @@ import {
   Eye,
   XCircle,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Shield
 } from "lucide-react";
 import { toast } from "sonner";
 import GuestSignupBanner from "@/components/custom/GuestSignupBanner";
@@ -40,6 +41,11 @@ interface Player {
   penaltyMisses: number;
   ownGoals: number;
   saves: number;
+  partsInGoal?: number;
+  goalsConceded?: number;
+  savePercentage?: number | null;
+  cleanSheets?: number;
+  cleanSheetSections?: number;
   appearances?: number;
   matchesPlayed?: number;
   position?: Position;
@@ -48,6 +54,12 @@ interface Player {
   totalTime?: number;
 }
 
+interface Season {
+  id: string;
+  name: string;
+  isCurrent: boolean;
+}
+
 interface ApiResponse {
   success: boolean;
   data: {
@@ -58,6 +70,9 @@ interface ApiResponse {
   error?: any;
 }
 
+// Select sentinel for "filter by calendar year" instead of a season
+const YEAR_MODE = "YEAR";
+
 const PODIUM_COUNT = 3;
 const ITEMS_PER_PAGE = 10;
 
@@ -77,9 +92,19 @@ export default function Leaderboard() {
   const currentYear = new Date().getFullYear();
   const [selectedYear, setSelectedYear] = useState(currentYear);
 
+  // Season archive state
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(null);
+  const selectedSeason = seasons.find(season => season.id === selectedSeasonId);
+  const periodLabel = selectedSeason ? selectedSeason.name : `${selectedYear}年`;
+
+  useEffect(() => {
+    fetchSeasons();
+  }, []);
+
   useEffect(() => {
-    fetchLeaderboard(activeTab as 'goals' | 'assists' | 'yellow_cards' | 'red_cards' | 'penalty_goals' | 'penalty_misses' | 'own_goals' | 'saves');
-  }, [activeTab, selectedYear]);
+    fetchLeaderboard(activeTab as 'goals' | 'assists' | 'yellow_cards' | 'red_cards' | 'penalty_goals' | 'penalty_misses' | 'own_goals' | 'saves' | 'goalkeepers');
+  }, [activeTab, selectedYear, selectedSeasonId]);
 
   useEffect(() => {
     if (showAllTime) {
@@ -87,10 +112,11 @@ export default function Leaderboard() {
     }
   }, [showAllTime]);
 
-  const fetchLeaderboard = async (type: 'goals' | 'assists' | 'yellow_cards' | 'red_cards' | 'penalty_goals' | 'penalty_misses' | 'own_goals' | 'saves') => {
+  const fetchLeaderboard = async (type: 'goals' | 'assists' | 'yellow_cards' | 'red_cards' | 'penalty_goals' | 'penalty_misses' | 'own_goals' | 'saves' | 'goalkeepers') => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/leaderboard?type=${type}&year=${selectedYear}`);
+      const period = selectedSeasonId ? `season=${selectedSeasonId}` : `year=${selectedYear}`;
+      const response = await fetch(`/api/leaderboard?type=${type}&${period}`);
       const data: ApiResponse = await response.json();
 
       if (data.success) {
@@ -111,6 +137,18 @@ export default function Leaderboard() {
     }
   };
 
+  const fetchSeasons = async () => {
+    try {
+      const response = await fetch('/api/seasons');
+      const data = await response.json();
+      if (data.success) {
+        setSeasons(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching seasons:', error);
+    }
+  };
+
   const fetchAllTimeStats = async () => {
     try {
       setAllTimeLoading(true);
@@ -159,10 +197,22 @@ export default function Leaderboard() {
     router.push(`/player/${player.id}`);
   };
 
+  // Goalkeeping needs attendance per match, which the all-time player totals don't carry
+  const handleAllTimeToggle = () => {
+    if (!showAllTime && activeTab === 'goalkeepers') {
+      setActiveTab('goals');
+    }
+    setShowAllTime(!showAllTime);
+  };
+
   const handleYearChange = (year: string) => {
     setSelectedYear(parseInt(year));
   };
 
+  const handleSeasonChange = (seasonId: string) => {
+    setSelectedSeasonId(seasonId === YEAR_MODE ? null : seasonId);
+  };
+
   const getRankIcon = (rank: number) => {
     switch (rank) {
       case 1:
@@ -212,6 +262,7 @@ export default function Leaderboard() {
       case 'penalty_misses': return player.penaltyMisses;
       case 'own_goals': return player.ownGoals;
       case 'saves': return player.saves;
+      case 'goalkeepers': return player.cleanSheetSections ?? 0;
       default: return 0;
     }
   };
@@ -226,10 +277,17 @@ export default function Leaderboard() {
       case 'penalty_misses': return '点球罚失';
       case 'own_goals': return '乌龙球';
       case 'saves': return '扑救';
+      case 'goalkeepers': return '零封节数';
       default: return '';
     }
   };
 
+  const isGoalkeeperTab = activeTab === 'goalkeepers';
+
+  const formatSavePercentage = (player: Player) => {
+    return player.savePercentage == null ? '-' : `${player.savePercentage}%`;
+  };
+
   const getAppearances = (player: Player) => {
     return player.appearances ?? player.matchesPlayed ?? 0;
   };
@@ -252,13 +310,29 @@ export default function Leaderboard() {
         <div className="flex items-center gap-4">
           <Button
             variant={showAllTime ? "default" : "outline"}
-            onClick={() => setShowAllTime(!showAllTime)}
+            onClick={handleAllTimeToggle}
           >
             <Clock className="mr-2 h-4 w-4" />
             {showAllTime ? "显示本赛季" : "历史统计"}
           </Button>
 
-          {!showAllTime && (
+          {!showAllTime && seasons.length > 0 && (
+            <Select value={selectedSeasonId ?? YEAR_MODE} onValueChange={handleSeasonChange}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="赛季归档" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={YEAR_MODE}>按年份</SelectItem>
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={season.id}>
+                    {season.name}{season.isCurrent ? "（当前）" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {!showAllTime && !selectedSeason && (
             <Select value={selectedYear.toString()} onValueChange={handleYearChange}>
               <SelectTrigger className="w-32">
                 <SelectValue />
@@ -278,7 +352,7 @@ export default function Leaderboard() {
       {/* Title */}
       <div className="text-center space-y-2">
         <h1 className="text-4xl font-bold">
-          {showAllTime ? "历史" : `${selectedYear}年`}排行榜
+          {showAllTime ? "历史" : periodLabel}排行榜
         </h1>
         {/* <p className="text-muted-foreground">
           {showAllTime ? "球员职业生涯统计数据" : `${selectedYear}赛季统计数据`}
@@ -323,6 +397,12 @@ export default function Leaderboard() {
                 <div className="h-3 w-3 bg-purple-500 rounded-full" />
                 扑救榜
               </TabsTrigger>
+              {!showAllTime && (
+                <TabsTrigger value="goalkeepers" className="flex items-center gap-1.5 px-3 py-2 text-xs sm:text-sm">
+                  <Shield className="h-4 w-4 text-purple-500" />
+                  门将榜
+                </TabsTrigger>
+              )}
             </TabsList>
           </div>
         </div>
@@ -399,7 +479,7 @@ export default function Leaderboard() {
                     <div>
                       <CardTitle>完整排行榜</CardTitle>
                       <CardDescription>
-                        {showAllTime ? "历史" : `${selectedYear}年`}{getStatLabel()}榜单
+                        {showAllTime ? "历史" : periodLabel}{getStatLabel()}榜单
                         ({currentPlayers.length} 名球员)
                       </CardDescription>
                     </div>
@@ -538,6 +618,26 @@ export default function Leaderboard() {
                                   <div className="text-[10px] text-muted-foreground">扑救</div>
                                   <div className="text-sm font-semibold">{player.saves || 0}</div>
                                 </div>
+                                {isGoalkeeperTab && (
+                                  <>
+                                    <div className="rounded-md bg-muted/20 py-2">
+                                      <div className="text-[10px] text-muted-foreground">门将节数</div>
+                                      <div className="text-sm font-semibold">{player.partsInGoal || 0}</div>
+                                    </div>
+                                    <div className="rounded-md bg-muted/20 py-2">
+                                      <div className="text-[10px] text-muted-foreground">失球</div>
+                                      <div className="text-sm font-semibold">{player.goalsConceded || 0}</div>
+                                    </div>
+                                    <div className="rounded-md bg-muted/20 py-2">
+                                      <div className="text-[10px] text-muted-foreground">扑救率</div>
+                                      <div className="text-sm font-semibold">{formatSavePercentage(player)}</div>
+                                    </div>
+                                    <div className="rounded-md bg-muted/20 py-2">
+                                      <div className="text-[10px] text-muted-foreground">零封场次</div>
+                                      <div className="text-sm font-semibold">{player.cleanSheets || 0}</div>
+                                    </div>
+                                  </>
+                                )}
                               </div>
                             )}
                           </div>
@@ -564,12 +664,20 @@ export default function Leaderboard() {
                           <TableHead className="text-center">点球失</TableHead>
                           <TableHead className="text-center">乌龙</TableHead>
                           <TableHead className="text-center">扑救</TableHead>
+                          {isGoalkeeperTab && (
+                            <>
+                              <TableHead className="text-center">门将节数</TableHead>
+                              <TableHead className="text-center">失球</TableHead>
+                              <TableHead className="text-center">扑救率</TableHead>
+                              <TableHead className="text-center">零封场次</TableHead>
+                            </>
+                          )}
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {paginatedPlayers.length === 0 ? (
                           <TableRow>
-                            <TableCell colSpan={13} className="text-center text-muted-foreground py-8">
+                            <TableCell colSpan={isGoalkeeperTab ? 17 : 13} className="text-center text-muted-foreground py-8">
                               暂无数据
                             </TableCell>
                           </TableRow>
@@ -642,6 +750,22 @@ export default function Leaderboard() {
                               <TableCell className="text-center">
                                 {player.saves || 0}
                               </TableCell>
+                              {isGoalkeeperTab && (
+                                <>
+                                  <TableCell className="text-center">
+                                    {player.partsInGoal || 0}
+                                  </TableCell>
+                                  <TableCell className="text-center">
+                                    {player.goalsConceded || 0}
+                                  </TableCell>
+                                  <TableCell className="text-center">
+                                    {formatSavePercentage(player)}
+                                  </TableCell>
+                                  <TableCell className="text-center">
+                                    {player.cleanSheets || 0}
+                                  </TableCell>
+                                </>
+                              )}
                             </TableRow>
                           ))
                         )}
@@ -0,0 +1,369 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, ChevronDown, ChevronRight, History, RefreshCcw, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { toast } from 'sonner'
+
+interface AuditLogRow {
+    id: string
+    tableName: string
+    recordId: string
+    actionType: 'CREATE' | 'UPDATE' | 'DELETE'
+    oldValues: unknown
+    newValues: unknown
+    ipAddress: string | null
+    userAgent: string | null
+    createdAt: string
+    user: {
+        id: string
+        name: string
+    }
+}
+
+interface Pagination {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+}
+
+interface Filters {
+    tableName: string
+    recordId: string
+    userId: string
+    from: string
+    to: string
+}
+
+const ALL = 'ALL'
+
+const EMPTY_FILTERS: Filters = {
+    tableName: ALL,
+    recordId: '',
+    userId: ALL,
+    from: '',
+    to: ''
+}
+
+const TABLE_LABELS: Record<string, string> = {
+    'users': '用户',
+    'matches': '比赛',
+    'match_players': '比赛球员',
+    'match_participations': '出勤记录',
+    'fee_overrides': '费用调整',
+    'payments': '缴费记录',
+    'videos': '比赛视频',
+    'system_config': '系统设置',
+    'claim_requests': '认领申请',
+    'seasons': '赛季',
+    'fee_policies': '收费规则',
+    'treasury_entries': '财务流水',
+    'player_aliases': '球员别名',
+    'opponents': '对手',
+    'lineup_players': '阵容',
+    'conceded_goals': '失球'
+}
+
+const ACTION_LABELS: Record<AuditLogRow['actionType'], { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+    CREATE: { label: '新增', variant: 'default' },
+    UPDATE: { label: '修改', variant: 'secondary' },
+    DELETE: { label: '删除', variant: 'destructive' }
+}
+
+const formatSnapshot = (value: unknown) =>
+    value === null || value === undefined ? '—' : JSON.stringify(value, null, 2)
+
+export default function AuditLogPage() {
+    const [logs, setLogs] = useState<AuditLogRow[]>([])
+    const [tables, setTables] = useState<string[]>([])
+    const [actors, setActors] = useState<{ id: string; name: string }[]>([])
+    const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 20, total: 0, totalPages: 0 })
+    const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+    const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS)
+    const [page, setPage] = useState(1)
+    const [expanded, setExpanded] = useState<string | null>(null)
+    const [loading, setLoading] = useState(true)
+    const router = useRouter()
+
+    const fetchLogs = useCallback(async () => {
+        setLoading(true)
+        try {
+            const params = new URLSearchParams({ page: String(page), limit: '20' })
+            if (appliedFilters.tableName !== ALL) params.set('tableName', appliedFilters.tableName)
+            if (appliedFilters.recordId.trim()) params.set('recordId', appliedFilters.recordId.trim())
+            if (appliedFilters.userId !== ALL) params.set('userId', appliedFilters.userId)
+            // Date inputs are local days; send the whole day range
+            if (appliedFilters.from) params.set('from', new Date(`${appliedFilters.from}T00:00:00`).toISOString())
+            if (appliedFilters.to) params.set('to', new Date(`${appliedFilters.to}T23:59:59.999`).toISOString())
+
+            const response = await fetch(`/api/admin/audit?${params}`)
+            const data = await response.json()
+            if (data.success) {
+                setLogs(data.data.logs)
+                setTables(data.data.tables)
+                setActors(data.data.actors)
+                setPagination(data.pagination)
+            } else {
+                toast.error('获取操作日志失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error fetching audit logs:', error)
+            toast.error('获取操作日志时发生错误')
+        } finally {
+            setLoading(false)
+        }
+    }, [page, appliedFilters])
+
+    useEffect(() => {
+        fetchLogs()
+    }, [fetchLogs])
+
+    const applyFilters = () => {
+        setPage(1)
+        setAppliedFilters(filters)
+    }
+
+    const resetFilters = () => {
+        setPage(1)
+        setFilters(EMPTY_FILTERS)
+        setAppliedFilters(EMPTY_FILTERS)
+    }
+
+    const filterByRecord = (tableName: string, recordId: string) => {
+        const next = { ...filters, tableName, recordId }
+        setPage(1)
+        setFilters(next)
+        setAppliedFilters(next)
+    }
+
+    return (
+        <div className="container mx-auto py-8 space-y-8 font-geist">
+
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <Button variant="outline" size="icon" onClick={() => router.back()}>
+                        <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div>
+                        <h1 className="text-3xl font-bold flex items-center gap-2">
+                            <History className="h-8 w-8 text-primary" />
+                            操作日志
+                        </h1>
+                        <p className="text-muted-foreground">所有管理操作的修改前后记录</p>
+                    </div>
+                </div>
+
+                <Button variant="outline" onClick={fetchLogs} disabled={loading}>
+                    <RefreshCcw className="h-4 w-4 mr-2" />
+                    刷新
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="text-lg">筛选</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                        <div className="space-y-2">
+                            <Label>数据表</Label>
+                            <Select
+                                value={filters.tableName}
+                                onValueChange={(value) => setFilters(prev => ({ ...prev, tableName: value }))}
+                            >
+                                <SelectTrigger className="w-full">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>全部</SelectItem>
+                                    {tables.map(table => (
+                                        <SelectItem key={table} value={table}>
+                                            {TABLE_LABELS[table] || table}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="audit-record">记录ID</Label>
+                            <Input
+                                id="audit-record"
+                                value={filters.recordId}
+                                onChange={(e) => setFilters(prev => ({ ...prev, recordId: e.target.value }))}
+                                placeholder="比赛/用户ID"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>操作人</Label>
+                            <Select
+                                value={filters.userId}
+                                onValueChange={(value) => setFilters(prev => ({ ...prev, userId: value }))}
+                            >
+                                <SelectTrigger className="w-full">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>全部</SelectItem>
+                                    {actors.map(actor => (
+                                        <SelectItem key={actor.id} value={actor.id}>{actor.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="audit-from">开始日期</Label>
+                            <Input
+                                id="audit-from"
+                                type="date"
+                                value={filters.from}
+                                onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="audit-to">结束日期</Label>
+                            <Input
+                                id="audit-to"
+                                type="date"
+                                value={filters.to}
+                                onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+                            />
+                        </div>
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <Button variant="outline" onClick={resetFilters}>重置</Button>
+                        <Button onClick={applyFilters}>
+                            <Search className="h-4 w-4 mr-2" />
+                            查询
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardContent className="pt-6">
+                    {loading ? (
+                        <div className="flex items-center justify-center py-12">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                        </div>
+                    ) : logs.length === 0 ? (
+                        <div className="py-12 text-center bg-muted/30 rounded-lg border-2 border-dashed">
+                            <p className="text-muted-foreground">暂无操作记录</p>
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-8" />
+                                    <TableHead>时间</TableHead>
+                                    <TableHead>操作人</TableHead>
+                                    <TableHead>操作</TableHead>
+                                    <TableHead>数据表</TableHead>
+                                    <TableHead>记录ID</TableHead>
+                                    <TableHead>IP</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {logs.map(log => (
+                                    <Fragment key={log.id}>
+                                        <TableRow
+                                            className="cursor-pointer"
+                                            onClick={() => setExpanded(expanded === log.id ? null : log.id)}
+                                        >
+                                            <TableCell>
+                                                {expanded === log.id
+                                                    ? <ChevronDown className="h-4 w-4" />
+                                                    : <ChevronRight className="h-4 w-4" />}
+                                            </TableCell>
+                                            <TableCell className="whitespace-nowrap">
+                                                {new Date(log.createdAt).toLocaleString('zh-CN')}
+                                            </TableCell>
+                                            <TableCell>{log.user.name}</TableCell>
+                                            <TableCell>
+                                                <Badge variant={ACTION_LABELS[log.actionType].variant}>
+                                                    {ACTION_LABELS[log.actionType].label}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell>{TABLE_LABELS[log.tableName] || log.tableName}</TableCell>
+                                            <TableCell>
+                                                <button
+                                                    type="button"
+                                                    className="font-mono text-xs text-primary hover:underline"
+                                                    onClick={(e) => {
+                                                        e.stopPropagation()
+                                                        filterByRecord(log.tableName, log.recordId)
+                                                    }}
+                                                >
+                                                    {log.recordId}
+                                                </button>
+                                            </TableCell>
+                                            <TableCell className="font-mono text-xs text-muted-foreground">
+                                                {log.ipAddress || '—'}
+                                            </TableCell>
+                                        </TableRow>
+                                        {expanded === log.id && (
+                                            <TableRow className="hover:bg-transparent">
+                                                <TableCell colSpan={7}>
+                                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                                        <div>
+                                                            <p className="text-sm font-semibold mb-1">修改前</p>
+                                                            <pre className="text-xs bg-muted p-3 rounded max-h-96 overflow-auto whitespace-pre-wrap break-all">
+                                                                {formatSnapshot(log.oldValues)}
+                                                            </pre>
+                                                        </div>
+                                                        <div>
+                                                            <p className="text-sm font-semibold mb-1">修改后</p>
+                                                            <pre className="text-xs bg-muted p-3 rounded max-h-96 overflow-auto whitespace-pre-wrap break-all">
+                                                                {formatSnapshot(log.newValues)}
+                                                            </pre>
+                                                        </div>
+                                                    </div>
+                                                    {log.userAgent && (
+                                                        <p className="text-xs text-muted-foreground mt-2 break-all">{log.userAgent}</p>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        )}
+                                    </Fragment>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+
+                    {pagination.totalPages > 1 && (
+                        <div className="flex items-center justify-between mt-4">
+                            <p className="text-sm text-muted-foreground">
+                                共 {pagination.total} 条，第 {pagination.page} / {pagination.totalPages} 页
+                            </p>
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={page <= 1 || loading}
+                                    onClick={() => setPage(p => p - 1)}
+                                >
+                                    上一页
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={page >= pagination.totalPages || loading}
+                                    onClick={() => setPage(p => p + 1)}
+                                >
+                                    下一页
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -0,0 +1,359 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Plus, RefreshCcw, Scale, Trash2 } from 'lucide-react'
+import type { FeeRoundingMode } from '@prisma/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FEE_ROUNDING_LABELS } from '@/lib/utils/feePolicy'
+import { toast } from 'sonner'
+
+interface FeePolicy {
+    id: string
+    version: number
+    name: string
+    effectiveFrom: string
+    goalkeeperDiscountPercent: number
+    trialDiscountPercent: number
+    minimumCharge: number | null
+    maximumCharge: number | null
+    roundingMode: FeeRoundingMode
+    notes: string | null
+    matchCount: number
+}
+
+interface FeePolicyForm {
+    name: string
+    effectiveFrom: string
+    goalkeeperDiscountPercent: string
+    trialDiscountPercent: string
+    minimumCharge: string
+    maximumCharge: string
+    roundingMode: FeeRoundingMode
+    notes: string
+}
+
+// Defaults reproduce the original rules: free goalkeeper time, no discounts, no floor/cap
+const EMPTY_FORM: FeePolicyForm = {
+    name: '',
+    effectiveFrom: '',
+    goalkeeperDiscountPercent: '100',
+    trialDiscountPercent: '0',
+    minimumCharge: '',
+    maximumCharge: '',
+    roundingMode: 'ROUND',
+    notes: ''
+}
+
+const NUMBER_FIELDS: { key: keyof FeePolicyForm; label: string; placeholder?: string }[] = [
+    { key: 'goalkeeperDiscountPercent', label: '守门员折扣 (%)' },
+    { key: 'trialDiscountPercent', label: '试训球员折扣 (%)' },
+    { key: 'minimumCharge', label: '最低收费', placeholder: '不限' },
+    { key: 'maximumCharge', label: '最高收费', placeholder: '不限' }
+]
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('zh-CN')
+
+const formatCharge = (value: number | null) => value === null ? '不限' : `¥${value}`
+
+// Empty charge inputs mean no floor/cap
+const toCharge = (value: string) => value.trim() === '' ? null : Number(value)
+
+export default function FeePoliciesPage() {
+    const [policies, setPolicies] = useState<FeePolicy[]>([])
+    const [loading, setLoading] = useState(true)
+    const [saving, setSaving] = useState(false)
+    const [dialogOpen, setDialogOpen] = useState(false)
+    const [form, setForm] = useState<FeePolicyForm>(EMPTY_FORM)
+    const router = useRouter()
+
+    useEffect(() => {
+        fetchPolicies()
+    }, [])
+
+    const fetchPolicies = async () => {
+        setLoading(true)
+        try {
+            const response = await fetch('/api/admin/fee-policies')
+            const data = await response.json()
+            if (data.success) {
+                setPolicies(data.data)
+            } else {
+                toast.error('获取收费规则失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error fetching fee policies:', error)
+            toast.error('获取收费规则时发生错误')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const openCreate = () => {
+        // Start from the latest version so a rule change only touches what differs
+        const latest = policies[0]
+        setForm(latest ? {
+            name: '',
+            effectiveFrom: '',
+            goalkeeperDiscountPercent: latest.goalkeeperDiscountPercent.toString(),
+            trialDiscountPercent: latest.trialDiscountPercent.toString(),
+            minimumCharge: latest.minimumCharge?.toString() ?? '',
+            maximumCharge: latest.maximumCharge?.toString() ?? '',
+            roundingMode: latest.roundingMode,
+            notes: ''
+        } : EMPTY_FORM)
+        setDialogOpen(true)
+    }
+
+    const savePolicy = async () => {
+        if (!form.name.trim() || !form.effectiveFrom) {
+            toast.error('请填写规则名称和生效日期')
+            return
+        }
+
+        setSaving(true)
+        try {
+            const response = await fetch('/api/admin/fee-policies', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: form.name,
+                    effectiveFrom: new Date(`${form.effectiveFrom}T00:00:00`).toISOString(),
+                    goalkeeperDiscountPercent: Number(form.goalkeeperDiscountPercent),
+                    trialDiscountPercent: Number(form.trialDiscountPercent),
+                    minimumCharge: toCharge(form.minimumCharge),
+                    maximumCharge: toCharge(form.maximumCharge),
+                    roundingMode: form.roundingMode,
+                    notes: form.notes.trim() || null
+                })
+            })
+            const data = await response.json()
+            if (data.success) {
+                toast.success(`收费规则 v${data.data.version} 已发布`)
+                setDialogOpen(false)
+                fetchPolicies()
+            } else {
+                toast.error('发布收费规则失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error saving fee policy:', error)
+            toast.error('发布收费规则时发生错误')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const deletePolicy = async (policy: FeePolicy) => {
+        if (!confirm(`确定删除收费规则 v${policy.version}「${policy.name}」吗？`)) return
+
+        try {
+            const response = await fetch(`/api/admin/fee-policies/${policy.id}`, { method: 'DELETE' })
+            const data = await response.json()
+            if (data.success) {
+                toast.success('收费规则已删除')
+                fetchPolicies()
+            } else {
+                toast.error('删除收费规则失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error deleting fee policy:', error)
+            toast.error('删除收费规则时发生错误')
+        }
+    }
+
+    return (
+        <div className="container mx-auto py-8 space-y-8 font-geist">
+
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <Button variant="outline" size="icon" onClick={() => router.back()}>
+                        <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div>
+                        <h1 className="text-3xl font-bold flex items-center gap-2">
+                            <Scale className="h-8 w-8 text-primary" />
+                            收费规则
+                        </h1>
+                        <p className="text-muted-foreground">按版本管理守门员折扣、试训折扣、最低/最高收费和取整方式</p>
+                    </div>
+                </div>
+
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={fetchPolicies} disabled={loading}>
+                        <RefreshCcw className="h-4 w-4 mr-2" />
+                        刷新
+                    </Button>
+                    <Button onClick={openCreate}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        发布新版本
+                    </Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>全部版本</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <div className="flex items-center justify-center py-12">
+                            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+                        </div>
+                    ) : policies.length === 0 ? (
+                        <div className="py-12 text-center bg-muted/30 rounded-lg border-2 border-dashed">
+                            <p className="text-muted-foreground">暂无收费规则，比赛按默认规则收费</p>
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>版本</TableHead>
+                                    <TableHead>名称</TableHead>
+                                    <TableHead>生效日期</TableHead>
+                                    <TableHead>比赛数</TableHead>
+                                    {NUMBER_FIELDS.map(field => (
+                                        <TableHead key={field.key}>{field.label}</TableHead>
+                                    ))}
+                                    <TableHead>取整方式</TableHead>
+                                    <TableHead className="text-right">操作</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {policies.map(policy => (
+                                    <TableRow key={policy.id}>
+                                        <TableCell>
+                                            <Badge variant="outline">v{policy.version}</Badge>
+                                        </TableCell>
+                                        <TableCell className="font-medium">
+                                            {policy.name}
+                                            {policy.notes && (
+                                                <p className="text-xs text-muted-foreground">{policy.notes}</p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="whitespace-nowrap">{formatDate(policy.effectiveFrom)}</TableCell>
+                                        <TableCell>{policy.matchCount}</TableCell>
+                                        <TableCell>{policy.goalkeeperDiscountPercent}%</TableCell>
+                                        <TableCell>{policy.trialDiscountPercent}%</TableCell>
+                                        <TableCell>{formatCharge(policy.minimumCharge)}</TableCell>
+                                        <TableCell>{formatCharge(policy.maximumCharge)}</TableCell>
+                                        <TableCell>{FEE_ROUNDING_LABELS[policy.roundingMode]}</TableCell>
+                                        <TableCell className="text-right">
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => deletePolicy(policy)}
+                                                disabled={policy.matchCount > 0}
+                                            >
+                                                <Trash2 className="h-4 w-4 text-destructive" />
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <div className="bg-blue-50 border border-blue-200 p-4 rounded-lg flex gap-3 text-blue-800">
+                <div className="text-sm">
+                    <p className="font-semibold">使用提示</p>
+                    <ul className="list-disc list-inside mt-1 space-y-1">
+                        <li>新建比赛时使用比赛日期当天已生效的最新版本。</li>
+                        <li>规则发布后不可修改；调整规则请发布新版本，已有比赛仍按原版本计费。</li>
+                        <li>最低/最高收费只作用于场地费和视频费，迟到费另计。</li>
+                        <li>未关联规则的历史比赛按默认规则（守门员免费、四舍五入）计费。</li>
+                    </ul>
+                </div>
+            </div>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>发布收费规则</DialogTitle>
+                        <DialogDescription>新版本只影响生效日期之后新建的比赛</DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="policy-name">名称</Label>
+                                <Input
+                                    id="policy-name"
+                                    value={form.name}
+                                    onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                                    placeholder="例如 2026 春季规则"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="policy-effective">生效日期</Label>
+                                <Input
+                                    id="policy-effective"
+                                    type="date"
+                                    value={form.effectiveFrom}
+                                    onChange={(e) => setForm(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+                                />
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            {NUMBER_FIELDS.map(field => (
+                                <div key={field.key} className="space-y-2">
+                                    <Label htmlFor={`policy-${field.key}`}>{field.label}</Label>
+                                    <Input
+                                        id={`policy-${field.key}`}
+                                        type="number"
+                                        min={0}
+                                        value={form[field.key]}
+                                        onChange={(e) => setForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                        placeholder={field.placeholder}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>取整方式</Label>
+                            <Select
+                                value={form.roundingMode}
+                                onValueChange={(value) => setForm(prev => ({ ...prev, roundingMode: value as FeeRoundingMode }))}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(FEE_ROUNDING_LABELS) as FeeRoundingMode[]).map(mode => (
+                                        <SelectItem key={mode} value={mode}>{FEE_ROUNDING_LABELS[mode]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="policy-notes">备注</Label>
+                            <Input
+                                id="policy-notes"
+                                value={form.notes}
+                                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                                placeholder="可选"
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                            取消
+                        </Button>
+                        <Button onClick={savePolicy} disabled={saving}>
+                            {saving ? '发布中...' : '发布'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -9,6 +9,8 @@ import { Badge } from '@/components/ui/badge'
 import TabContainer from '@/components/shared/TabContainer'
 import MatchInfoTab from '@/components/admin/MatchInfoTab'
 import AttendanceTab from '@/components/admin/AttendanceTab'
+import LineupTab from '@/components/admin/LineupTab'
+import TeamsTab from '@/components/admin/TeamsTab'
 import StatisticsTab from '@/components/admin/StatisticsTab'
 import FinancialTab from '@/components/admin/FinancialTab'
 import { 
@@ -34,6 +36,7 @@ import {
 } from '@/stores/useMatchStore'
 import AssistantWidget from '@/components/ai/AssistantWidget'
 import { type PatchEnvelope } from '@/lib/ai/schema'
+import { isGoalEvent } from '@/lib/utils/assistLinks'
 import styles from './match-detail.module.css'
 
 export default function MatchDetailPage() {
@@ -356,11 +359,21 @@ export default function MatchDetailPage() {
       if (change.type === 'events') {
         change.data.updates.forEach(update => {
           if (update.eventType) {
+            const eventId = crypto.randomUUID()
             addEvent({
+              id: eventId,
               playerId: update.playerId,
               eventType: update.eventType,
               minute: update.minute,
             })
+            if (update.assistPlayerId && isGoalEvent(update.eventType)) {
+              addEvent({
+                playerId: update.assistPlayerId,
+                eventType: 'ASSIST',
+                minute: update.minute,
+                goalEventId: eventId,
+              })
+            }
           }
         })
         return
@@ -445,6 +458,26 @@ export default function MatchDetailPage() {
         />
       )
     },
+    {
+      id: 'lineup',
+      label: '阵容',
+      content: (
+        <LineupTab
+          match={matchInfo}
+          users={selectedPlayers}
+        />
+      )
+    },
+    {
+      id: 'teams',
+      label: '分队',
+      content: (
+        <TeamsTab
+          match={matchInfo}
+          users={selectedPlayers}
+        />
+      )
+    },
     {
       id: 'statistics',
       label: '比赛统计',
@@ -15,7 +15,8 @@ import {
   Medal,
   Minus,
   Trash2,
-  Upload
+  Upload,
+  CalendarCheck
 } from 'lucide-react'
 import {
   Dialog,
@@ -29,10 +30,13 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
 import { toast } from 'sonner'
 import ExcelImportSection from '@/components/admin/ExcelImport/ExcelImportSection'
 import AssistantWidget from '@/components/ai/AssistantWidget'
 import { type PatchEnvelope } from '@/lib/ai/schema'
+import { RSVP_LABELS, type MatchRsvpSummary } from '@/components/custom/MatchRsvp'
+import { DEFAULT_MATCH_FORMAT, MATCH_FORMAT_LIMITS } from '@/lib/utils/matchFormat'
 import styles from './matches.module.css'
 
 interface Match {
@@ -70,6 +74,8 @@ export default function MatchesAdminPage() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [matchToDelete, setMatchToDelete] = useState<{ id: string; team: string } | null>(null)
   const [globalSettings, setGlobalSettings] = useState<{ key: string; value: string }[]>([])
+  const [rsvps, setRsvps] = useState<Record<string, MatchRsvpSummary>>({})
+  const [rsvpMatch, setRsvpMatch] = useState<Match | null>(null)
   const [formData, setFormData] = useState({
     matchDate: '',
     matchTime: '',
@@ -78,6 +84,9 @@ export default function MatchesAdminPage() {
     opponentScore: '',
     fieldFeeTotal: '1100',
     waterFeeTotal: '50',
+    sectionCount: String(DEFAULT_MATCH_FORMAT.sectionCount),
+    partsPerSection: String(DEFAULT_MATCH_FORMAT.partsPerSection),
+    partMinutes: String(DEFAULT_MATCH_FORMAT.partMinutes),
     notes: ''
   })
 
@@ -130,6 +139,7 @@ export default function MatchesAdminPage() {
     fetchMatches()
     fetchUsers()
     fetchSettings()
+    fetchRsvps()
   }, [])
 
   useEffect(() => {
@@ -150,6 +160,19 @@ export default function MatchesAdminPage() {
     }
   }
 
+  const fetchRsvps = async () => {
+    try {
+      const response = await fetch('/api/admin/rsvps')
+      const data = await response.json()
+      if (data.success) {
+        const summaries = data.data as MatchRsvpSummary[]
+        setRsvps(Object.fromEntries(summaries.map(summary => [summary.matchId, summary])))
+      }
+    } catch (error) {
+      console.error('Error fetching RSVPs:', error)
+    }
+  }
+
   const fetchSettings = async () => {
     try {
       const response = await fetch('/api/admin/settings')
@@ -159,14 +182,18 @@ export default function MatchesAdminPage() {
         setGlobalSettings(settings)
         const fieldFee = settings.find(s => s.key === 'DEFAULT_FIELD_FEE')?.value
         const waterFee = settings.find(s => s.key === 'DEFAULT_WATER_FEE')?.value
-
-        if (fieldFee || waterFee) {
-          setFormData(prev => ({
-            ...prev,
-            fieldFeeTotal: fieldFee ?? prev.fieldFeeTotal,
-            waterFeeTotal: waterFee ?? prev.waterFeeTotal
-          }))
-        }
+        const sectionCount = settings.find(s => s.key === 'MATCH_SECTION_COUNT')?.value
+        const partsPerSection = settings.find(s => s.key === 'MATCH_PARTS_PER_SECTION')?.value
+        const partMinutes = settings.find(s => s.key === 'MATCH_PART_MINUTES')?.value
+
+        setFormData(prev => ({
+          ...prev,
+          fieldFeeTotal: fieldFee ?? prev.fieldFeeTotal,
+          waterFeeTotal: waterFee ?? prev.waterFeeTotal,
+          sectionCount: sectionCount ?? prev.sectionCount,
+          partsPerSection: partsPerSection ?? prev.partsPerSection,
+          partMinutes: partMinutes ?? prev.partMinutes
+        }))
       }
     } catch (error) {
       console.error('Error fetching settings:', error)
@@ -204,7 +231,10 @@ export default function MatchesAdminPage() {
       ourScore: data.ourScore ? parseInt(data.ourScore) : undefined,
       opponentScore: data.opponentScore ? parseInt(data.opponentScore) : undefined,
       fieldFeeTotal: Math.round(parseFloat(data.fieldFeeTotal)),
-      waterFeeTotal: Math.round(parseFloat(data.waterFeeTotal))
+      waterFeeTotal: Math.round(parseFloat(data.waterFeeTotal)),
+      sectionCount: parseInt(data.sectionCount),
+      partsPerSection: parseInt(data.partsPerSection),
+      partMinutes: parseInt(data.partMinutes)
     }
 
     // Only add notes if it's not empty
@@ -227,6 +257,8 @@ export default function MatchesAdminPage() {
         await fetchMatches() // Refresh the list
         const fieldFee = globalSettings.find(s => s.key === 'DEFAULT_FIELD_FEE')?.value || '1100'
         const waterFee = globalSettings.find(s => s.key === 'DEFAULT_WATER_FEE')?.value || '50'
+        const settingOrDefault = (key: string, fallback: number) =>
+          globalSettings.find(s => s.key === key)?.value || String(fallback)
 
         setFormData({
           matchDate: '',
@@ -236,6 +268,9 @@ export default function MatchesAdminPage() {
           opponentScore: '',
           fieldFeeTotal: fieldFee,
           waterFeeTotal: waterFee,
+          sectionCount: settingOrDefault('MATCH_SECTION_COUNT', DEFAULT_MATCH_FORMAT.sectionCount),
+          partsPerSection: settingOrDefault('MATCH_PARTS_PER_SECTION', DEFAULT_MATCH_FORMAT.partsPerSection),
+          partMinutes: settingOrDefault('MATCH_PART_MINUTES', DEFAULT_MATCH_FORMAT.partMinutes),
           notes: ''
         })
         setShowCreateForm(false)
@@ -493,6 +528,47 @@ export default function MatchesAdminPage() {
               </div>
             </div>
 
+            <div className={styles.formRow}>
+              <div className={styles.formGroup}>
+                <Label>节数</Label>
+                <Input
+                  type="number"
+                  step="1"
+                  min={MATCH_FORMAT_LIMITS.sectionCount.min}
+                  max={MATCH_FORMAT_LIMITS.sectionCount.max}
+                  value={formData.sectionCount}
+                  onChange={(e) => setFormData({ ...formData, sectionCount: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className={styles.formGroup}>
+                <Label>每节段数</Label>
+                <Input
+                  type="number"
+                  step="1"
+                  min={MATCH_FORMAT_LIMITS.partsPerSection.min}
+                  max={MATCH_FORMAT_LIMITS.partsPerSection.max}
+                  value={formData.partsPerSection}
+                  onChange={(e) => setFormData({ ...formData, partsPerSection: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className={styles.formGroup}>
+                <Label>每段时长 (分钟)</Label>
+                <Input
+                  type="number"
+                  step="1"
+                  min={MATCH_FORMAT_LIMITS.partMinutes.min}
+                  max={MATCH_FORMAT_LIMITS.partMinutes.max}
+                  value={formData.partMinutes}
+                  onChange={(e) => setFormData({ ...formData, partMinutes: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
             <div className={styles.formGroup}>
               <Label>备注</Label>
               <Textarea
@@ -593,6 +669,21 @@ export default function MatchesAdminPage() {
                   </div>
                 </div>
 
+                {rsvps[match.id] && (
+                  <button
+                    type="button"
+                    className={styles.rsvpSummary}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setRsvpMatch(match)
+                    }}
+                    title="查看报名名单"
+                  >
+                    <CalendarCheck size={16} />
+                    报名: 来 {rsvps[match.id].counts.yes} · 待定 {rsvps[match.id].counts.maybe} · 不来 {rsvps[match.id].counts.no}
+                  </button>
+                )}
+
                 <div className={styles.matchFooter}>
                   <span className={styles.createDate}>
                     创建于 {new Date(match.createdAt).toLocaleDateString('zh-CN')}
@@ -604,6 +695,39 @@ export default function MatchesAdminPage() {
         )}
       </div>
 
+      {/* RSVP List Dialog */}
+      <Dialog open={rsvpMatch !== null} onOpenChange={(open) => !open && setRsvpMatch(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CalendarCheck size={20} />
+              报名名单
+            </DialogTitle>
+            <DialogDescription>
+              {rsvpMatch && `${new Date(rsvpMatch.matchDate).toLocaleDateString('zh-CN')} vs ${rsvpMatch.opponentTeam}`}
+            </DialogDescription>
+          </DialogHeader>
+          {rsvpMatch && (rsvps[rsvpMatch.id]?.responses.length ?? 0) === 0 ? (
+            <p className="text-sm text-muted-foreground">暂无球员报名</p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {rsvpMatch && rsvps[rsvpMatch.id]?.responses.map(entry => (
+                <div key={entry.playerId} className="flex items-center justify-between text-sm">
+                  <span>
+                    {entry.player.name}
+                    {entry.player.jerseyNumber ? ` #${entry.player.jerseyNumber}` : ''}
+                    {entry.note && <span className="text-muted-foreground"> · {entry.note}</span>}
+                  </span>
+                  <Badge variant={entry.response === 'YES' ? 'default' : entry.response === 'MAYBE' ? 'secondary' : 'outline'}>
+                    {RSVP_LABELS[entry.response]}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="sm:max-w-md">
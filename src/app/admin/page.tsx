@@ -31,6 +31,46 @@ export default function AdminPage() {
           </Button>
         </div>
 
+        <div className="bg-card p-6 rounded-lg border">
+          <h3 className="text-lg font-semibold mb-2">赛季管理</h3>
+          <p className="text-muted-foreground mb-4">设置赛季起止日期和默认费用，按赛季归档统计</p>
+          <Button asChild className="w-full">
+            <a href="/admin/seasons">进入赛季管理</a>
+          </Button>
+        </div>
+
+        <div className="bg-card p-6 rounded-lg border">
+          <h3 className="text-lg font-semibold mb-2">收费规则</h3>
+          <p className="text-muted-foreground mb-4">按版本设置守门员折扣、试训折扣、收费上下限和取整方式</p>
+          <Button asChild className="w-full">
+            <a href="/admin/fee-policies">进入收费规则</a>
+          </Button>
+        </div>
+
+        <div className="bg-card p-6 rounded-lg border">
+          <h3 className="text-lg font-semibold mb-2">月度账单</h3>
+          <p className="text-muted-foreground mb-4">按月汇总每位球员的最终费用和缴费情况，支持打印和Excel导出</p>
+          <Button asChild className="w-full">
+            <a href="/admin/statements">查看月度账单</a>
+          </Button>
+        </div>
+
+        <div className="bg-card p-6 rounded-lg border">
+          <h3 className="text-lg font-semibold mb-2">球队财务</h3>
+          <p className="text-muted-foreground mb-4">记录视频剪辑、装备等收支，对比已收球费查看球队余额</p>
+          <Button asChild className="w-full">
+            <a href="/admin/treasury">进入球队财务</a>
+          </Button>
+        </div>
+
+        <div className="bg-card p-6 rounded-lg border">
+          <h3 className="text-lg font-semibold mb-2">数据备份</h3>
+          <p className="text-muted-foreground mb-4">下载球员、比赛、费用和设置的完整备份（CSV 压缩包），可用 npm run db:restore 恢复到新数据库</p>
+          <Button asChild className="w-full">
+            <a href="/api/admin/backup">下载数据备份</a>
+          </Button>
+        </div>
+
         <div className="bg-card p-6 rounded-lg border">
           <h3 className="text-lg font-semibold mb-2">系统设置</h3>
           <p className="text-muted-foreground mb-4">配置系统参数和其他设置</p>
@@ -38,6 +78,14 @@ export default function AdminPage() {
             <a href="/admin/settings">进入系统设置</a>
           </Button>
         </div>
+
+        <div className="bg-card p-6 rounded-lg border">
+          <h3 className="text-lg font-semibold mb-2">操作日志</h3>
+          <p className="text-muted-foreground mb-4">查看管理员的所有修改记录，按表、记录、用户和日期筛选</p>
+          <Button asChild className="w-full">
+            <a href="/admin/audit">查看操作日志</a>
+          </Button>
+        </div>
       </div>
     </div>
   )
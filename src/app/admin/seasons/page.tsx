@@ -0,0 +1,337 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, CalendarRange, Pencil, Plus, RefreshCcw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+
+interface Season {
+    id: string
+    name: string
+    startDate: string
+    endDate: string
+    fieldFeeTotal: number | null
+    waterFeeTotal: number | null
+    lateFeeRate: number | null
+    videoFeePerUnit: number | null
+    matchCount: number
+    isCurrent: boolean
+}
+
+interface SeasonForm {
+    name: string
+    startDate: string
+    endDate: string
+    fieldFeeTotal: string
+    waterFeeTotal: string
+    lateFeeRate: string
+    videoFeePerUnit: string
+}
+
+const EMPTY_FORM: SeasonForm = {
+    name: '',
+    startDate: '',
+    endDate: '',
+    fieldFeeTotal: '',
+    waterFeeTotal: '',
+    lateFeeRate: '',
+    videoFeePerUnit: ''
+}
+
+const RATE_FIELDS: { key: keyof SeasonForm; label: string }[] = [
+    { key: 'fieldFeeTotal', label: '默认场地费' },
+    { key: 'waterFeeTotal', label: '默认水费/杂费' },
+    { key: 'lateFeeRate', label: '迟到费率' },
+    { key: 'videoFeePerUnit', label: '视频费率 (每节)' }
+]
+
+const toDateInput = (value: string) => value.slice(0, 10)
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('zh-CN')
+
+const formatRate = (value: number | null) => value === null ? '系统默认' : `¥${value}`
+
+// Empty rate inputs fall back to the system settings
+const toRate = (value: string) => value.trim() === '' ? null : Number(value)
+
+export default function SeasonsPage() {
+    const [seasons, setSeasons] = useState<Season[]>([])
+    const [loading, setLoading] = useState(true)
+    const [saving, setSaving] = useState(false)
+    const [dialogOpen, setDialogOpen] = useState(false)
+    const [editingSeason, setEditingSeason] = useState<Season | null>(null)
+    const [form, setForm] = useState<SeasonForm>(EMPTY_FORM)
+    const router = useRouter()
+
+    useEffect(() => {
+        fetchSeasons()
+    }, [])
+
+    const fetchSeasons = async () => {
+        setLoading(true)
+        try {
+            const response = await fetch('/api/seasons')
+            const data = await response.json()
+            if (data.success) {
+                setSeasons(data.data)
+            } else {
+                toast.error('获取赛季失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error fetching seasons:', error)
+            toast.error('获取赛季时发生错误')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const openCreate = () => {
+        setEditingSeason(null)
+        setForm(EMPTY_FORM)
+        setDialogOpen(true)
+    }
+
+    const openEdit = (season: Season) => {
+        setEditingSeason(season)
+        setForm({
+            name: season.name,
+            startDate: toDateInput(season.startDate),
+            endDate: toDateInput(season.endDate),
+            fieldFeeTotal: season.fieldFeeTotal?.toString() ?? '',
+            waterFeeTotal: season.waterFeeTotal?.toString() ?? '',
+            lateFeeRate: season.lateFeeRate?.toString() ?? '',
+            videoFeePerUnit: season.videoFeePerUnit?.toString() ?? ''
+        })
+        setDialogOpen(true)
+    }
+
+    const saveSeason = async () => {
+        if (!form.name.trim() || !form.startDate || !form.endDate) {
+            toast.error('请填写赛季名称和起止日期')
+            return
+        }
+
+        setSaving(true)
+        try {
+            const response = await fetch(
+                editingSeason ? `/api/admin/seasons/${editingSeason.id}` : '/api/admin/seasons',
+                {
+                    method: editingSeason ? 'PUT' : 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        name: form.name,
+                        // Whole days: the season covers its end date entirely
+                        startDate: new Date(`${form.startDate}T00:00:00`).toISOString(),
+                        endDate: new Date(`${form.endDate}T23:59:59.999`).toISOString(),
+                        fieldFeeTotal: toRate(form.fieldFeeTotal),
+                        waterFeeTotal: toRate(form.waterFeeTotal),
+                        lateFeeRate: toRate(form.lateFeeRate),
+                        videoFeePerUnit: toRate(form.videoFeePerUnit)
+                    })
+                }
+            )
+            const data = await response.json()
+            if (data.success) {
+                toast.success(editingSeason ? '赛季已更新' : '赛季已创建')
+                setDialogOpen(false)
+                fetchSeasons()
+            } else {
+                toast.error('保存赛季失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error saving season:', error)
+            toast.error('保存赛季时发生错误')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const deleteSeason = async (season: Season) => {
+        if (!confirm(`确定删除赛季「${season.name}」吗？比赛数据不会被删除。`)) return
+
+        try {
+            const response = await fetch(`/api/admin/seasons/${season.id}`, { method: 'DELETE' })
+            const data = await response.json()
+            if (data.success) {
+                toast.success('赛季已删除')
+                fetchSeasons()
+            } else {
+                toast.error('删除赛季失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error deleting season:', error)
+            toast.error('删除赛季时发生错误')
+        }
+    }
+
+    return (
+        <div className="container mx-auto py-8 space-y-8 font-geist">
+
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <Button variant="outline" size="icon" onClick={() => router.back()}>
+                        <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div>
+                        <h1 className="text-3xl font-bold flex items-center gap-2">
+                            <CalendarRange className="h-8 w-8 text-primary" />
+                            赛季管理
+                        </h1>
+                        <p className="text-muted-foreground">按赛季归档比赛，并设置新比赛的默认费用</p>
+                    </div>
+                </div>
+
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={fetchSeasons} disabled={loading}>
+                        <RefreshCcw className="h-4 w-4 mr-2" />
+                        刷新
+                    </Button>
+                    <Button onClick={openCreate}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        新建赛季
+                    </Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>全部赛季</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <div className="flex items-center justify-center py-12">
+                            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+                        </div>
+                    ) : seasons.length === 0 ? (
+                        <div className="py-12 text-center bg-muted/30 rounded-lg border-2 border-dashed">
+                            <p className="text-muted-foreground">暂无赛季</p>
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>名称</TableHead>
+                                    <TableHead>起止日期</TableHead>
+                                    <TableHead>比赛数</TableHead>
+                                    {RATE_FIELDS.map(field => (
+                                        <TableHead key={field.key}>{field.label}</TableHead>
+                                    ))}
+                                    <TableHead className="text-right">操作</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {seasons.map(season => (
+                                    <TableRow key={season.id}>
+                                        <TableCell className="font-medium">
+                                            {season.name}
+                                            {season.isCurrent && <Badge className="ml-2">当前</Badge>}
+                                        </TableCell>
+                                        <TableCell className="whitespace-nowrap">
+                                            {formatDate(season.startDate)} - {formatDate(season.endDate)}
+                                        </TableCell>
+                                        <TableCell>{season.matchCount}</TableCell>
+                                        <TableCell>{formatRate(season.fieldFeeTotal)}</TableCell>
+                                        <TableCell>{formatRate(season.waterFeeTotal)}</TableCell>
+                                        <TableCell>{formatRate(season.lateFeeRate)}</TableCell>
+                                        <TableCell>{formatRate(season.videoFeePerUnit)}</TableCell>
+                                        <TableCell className="text-right whitespace-nowrap">
+                                            <Button variant="ghost" size="icon" onClick={() => openEdit(season)}>
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" onClick={() => deleteSeason(season)}>
+                                                <Trash2 className="h-4 w-4 text-destructive" />
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <div className="bg-blue-50 border border-blue-200 p-4 rounded-lg flex gap-3 text-blue-800">
+                <div className="text-sm">
+                    <p className="font-semibold">使用提示</p>
+                    <ul className="list-disc list-inside mt-1 space-y-1">
+                        <li>赛季日期不能重叠，日期范围内的比赛会自动归入该赛季。</li>
+                        <li>赛季费用留空时，新比赛使用系统设置中的默认费用。</li>
+                        <li>修改赛季费用不会自动更新已存在的比赛数据。</li>
+                    </ul>
+                </div>
+            </div>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{editingSeason ? '编辑赛季' : '新建赛季'}</DialogTitle>
+                        <DialogDescription>保存后会按日期范围重新归档比赛</DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="season-name">名称</Label>
+                            <Input
+                                id="season-name"
+                                value={form.name}
+                                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                                placeholder="例如 2025-26 赛季"
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="season-start">开始日期</Label>
+                                <Input
+                                    id="season-start"
+                                    type="date"
+                                    value={form.startDate}
+                                    onChange={(e) => setForm(prev => ({ ...prev, startDate: e.target.value }))}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="season-end">结束日期</Label>
+                                <Input
+                                    id="season-end"
+                                    type="date"
+                                    value={form.endDate}
+                                    onChange={(e) => setForm(prev => ({ ...prev, endDate: e.target.value }))}
+                                />
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            {RATE_FIELDS.map(field => (
+                                <div key={field.key} className="space-y-2">
+                                    <Label htmlFor={`season-${field.key}`}>{field.label}</Label>
+                                    <Input
+                                        id={`season-${field.key}`}
+                                        type="number"
+                                        min={0}
+                                        value={form[field.key]}
+                                        onChange={(e) => setForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                        placeholder="系统默认"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                            取消
+                        </Button>
+                        <Button onClick={saveSeason} disabled={saving}>
+                            {saving ? '保存中...' : '保存'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
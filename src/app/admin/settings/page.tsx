@@ -20,7 +20,10 @@ const KEY_LABELS: Record<string, string> = {
     'DEFAULT_FIELD_FEE': '默认场地费',
     'DEFAULT_WATER_FEE': '默认水费/杂费',
     'LATE_FEE_RATE': '迟到费率',
-    'VIDEO_FEE_RATE': '视频费率 (每节)'
+    'VIDEO_FEE_RATE': '视频费率 (每节)',
+    'MATCH_SECTION_COUNT': '默认节数',
+    'MATCH_PARTS_PER_SECTION': '每节时段数',
+    'MATCH_PART_MINUTES': '每时段分钟数'
 }
 
 export default function SystemSettingsPage() {
@@ -176,7 +179,8 @@ export default function SystemSettingsPage() {
                     <ul className="list-disc list-inside mt-1 space-y-1">
                         <li>费用设置会作为新比赛创建时的默认值。</li>
                         <li>修改这些设置不会自动更新已存在的比赛数据。</li>
-                        <li>视频费用率通常是指每3时段的基础单位费用。</li>
+                        <li>视频费用率是指每节（默认3个时段）的基础单位费用。</li>
+                        <li>比赛赛制（节数、每节时段数、每时段分钟数）作为新比赛的默认值，单场比赛可在创建时单独设置。</li>
                     </ul>
                 </div>
             </div>
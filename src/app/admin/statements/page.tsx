@@ -0,0 +1,223 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Download, FileText, Printer, RefreshCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+
+interface StatementLine {
+    matchId: string
+    matchDate: string
+    opponentTeam: string
+    fieldFee: number
+    videoFee: number
+    lateFee: number
+    totalFee: number
+    amountPaid: number
+    outstanding: number
+}
+
+interface PlayerStatement {
+    playerId: string
+    playerName: string
+    lines: StatementLine[]
+    totalDue: number
+    totalPaid: number
+    outstanding: number
+}
+
+interface MonthlyStatement {
+    month: string
+    players: PlayerStatement[]
+    totalDue: number
+    totalPaid: number
+    outstanding: number
+}
+
+// Select value for "every player"; Radix selects cannot use an empty string
+const ALL_PLAYERS = 'all'
+
+const formatAmount = (value: number) => `¥${value.toFixed(2)}`
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('zh-CN')
+
+export default function StatementsPage() {
+    const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7))
+    const [playerId, setPlayerId] = useState(ALL_PLAYERS)
+    const [statement, setStatement] = useState<MonthlyStatement | null>(null)
+    const [loading, setLoading] = useState(true)
+    const router = useRouter()
+
+    useEffect(() => {
+        if (month) {
+            fetchStatement(month)
+        }
+    }, [month])
+
+    // Always fetch the whole month so the player list covers everyone who played
+    const fetchStatement = async (selectedMonth: string) => {
+        setLoading(true)
+        try {
+            const response = await fetch(`/api/admin/statements?month=${selectedMonth}`)
+            const data = await response.json()
+            if (data.success) {
+                setStatement(data.data)
+            } else {
+                toast.error('获取月度账单失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error fetching statements:', error)
+            toast.error('获取月度账单时发生错误')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const exportUrl = (format: 'html' | 'xlsx') => {
+        const params = new URLSearchParams({ month, format })
+        if (playerId !== ALL_PLAYERS) {
+            params.set('playerId', playerId)
+        }
+        return `/api/admin/statements?${params}`
+    }
+
+    const players = statement?.players ?? []
+    const visiblePlayers = playerId === ALL_PLAYERS
+        ? players
+        : players.filter(player => player.playerId === playerId)
+
+    return (
+        <div className="container mx-auto py-8 space-y-8 font-geist">
+
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <Button variant="outline" size="icon" onClick={() => router.back()}>
+                        <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div>
+                        <h1 className="text-3xl font-bold flex items-center gap-2">
+                            <FileText className="h-8 w-8 text-primary" />
+                            月度账单
+                        </h1>
+                        <p className="text-muted-foreground">按月汇总每位球员的最终费用（含手动调整）和缴费情况</p>
+                    </div>
+                </div>
+
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => fetchStatement(month)} disabled={loading || !month}>
+                        <RefreshCcw className="h-4 w-4 mr-2" />
+                        刷新
+                    </Button>
+                    <Button variant="outline" disabled={!month} onClick={() => window.open(exportUrl('html'), '_blank')}>
+                        <Printer className="h-4 w-4 mr-2" />
+                        打印
+                    </Button>
+                    <Button disabled={!month} onClick={() => { window.location.href = exportUrl('xlsx') }}>
+                        <Download className="h-4 w-4 mr-2" />
+                        导出Excel
+                    </Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>筛选</CardTitle>
+                    {statement && (
+                        <CardDescription>
+                            应缴 {formatAmount(statement.totalDue)} · 已缴 {formatAmount(statement.totalPaid)} · 未缴 {formatAmount(statement.outstanding)}
+                        </CardDescription>
+                    )}
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="month">月份</Label>
+                        <Input
+                            id="month"
+                            type="month"
+                            value={month}
+                            onChange={(e) => {
+                                setMonth(e.target.value)
+                                setPlayerId(ALL_PLAYERS)
+                            }}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>球员</Label>
+                        <Select value={playerId} onValueChange={setPlayerId}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_PLAYERS}>全部球员</SelectItem>
+                                {players.map(player => (
+                                    <SelectItem key={player.playerId} value={player.playerId}>
+                                        {player.playerName}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {loading ? (
+                <div className="flex items-center justify-center py-12">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+                </div>
+            ) : visiblePlayers.length === 0 ? (
+                <div className="py-12 text-center bg-muted/30 rounded-lg border-2 border-dashed">
+                    <p className="text-muted-foreground">本月没有比赛费用</p>
+                </div>
+            ) : (
+                visiblePlayers.map(player => (
+                    <Card key={player.playerId}>
+                        <CardHeader>
+                            <CardTitle>{player.playerName}</CardTitle>
+                            <CardDescription>
+                                {player.lines.length} 场 · 应缴 {formatAmount(player.totalDue)} · 已缴 {formatAmount(player.totalPaid)} · 未缴 {formatAmount(player.outstanding)}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>日期</TableHead>
+                                        <TableHead>对手</TableHead>
+                                        <TableHead className="text-right">场地费</TableHead>
+                                        <TableHead className="text-right">视频费</TableHead>
+                                        <TableHead className="text-right">迟到费</TableHead>
+                                        <TableHead className="text-right">应缴</TableHead>
+                                        <TableHead className="text-right">已缴</TableHead>
+                                        <TableHead className="text-right">未缴</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {player.lines.map(line => (
+                                        <TableRow key={line.matchId}>
+                                            <TableCell className="whitespace-nowrap">{formatDate(line.matchDate)}</TableCell>
+                                            <TableCell>{line.opponentTeam}</TableCell>
+                                            <TableCell className="text-right">{formatAmount(line.fieldFee)}</TableCell>
+                                            <TableCell className="text-right">{formatAmount(line.videoFee)}</TableCell>
+                                            <TableCell className="text-right">{formatAmount(line.lateFee)}</TableCell>
+                                            <TableCell className="text-right font-medium">{formatAmount(line.totalFee)}</TableCell>
+                                            <TableCell className="text-right">{formatAmount(line.amountPaid)}</TableCell>
+                                            <TableCell className={`text-right ${line.outstanding > 0 ? 'text-red-600' : ''}`}>
+                                                {formatAmount(line.outstanding)}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </CardContent>
+                    </Card>
+                ))
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,534 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Plus, RefreshCcw, Trash2, Wallet } from 'lucide-react'
+import type { TreasuryCategory, TreasuryDirection } from '@prisma/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+
+interface TreasuryEntry {
+    id: string
+    direction: TreasuryDirection
+    category: TreasuryCategory
+    amount: number
+    occurredAt: string
+    matchId: string | null
+    matchLabel: string | null
+    description: string | null
+}
+
+interface TreasuryMatchLine {
+    matchId: string
+    matchDate: string
+    opponentTeam: string
+    fieldFee: number
+    waterFee: number
+    otherExpenses: number
+    otherIncome: number
+    feesDue: number
+    feesCollected: number
+    net: number
+}
+
+interface TreasuryPeriod {
+    month: string
+    expenses: number
+    income: number
+    feesCollected: number
+    net: number
+    balance: number
+}
+
+interface TreasuryReport {
+    openingBalance: number
+    closingBalance: number
+    totalExpenses: number
+    totalIncome: number
+    feesDue: number
+    feesCollected: number
+    feesOutstanding: number
+    expensesByCategory: Record<TreasuryCategory, number>
+    incomeByCategory: Record<TreasuryCategory, number>
+    periods: TreasuryPeriod[]
+    matches: TreasuryMatchLine[]
+}
+
+interface EntryForm {
+    direction: TreasuryDirection
+    category: TreasuryCategory
+    amount: string
+    occurredAt: string
+    matchId: string
+    description: string
+}
+
+const CATEGORY_LABELS: Record<TreasuryCategory, string> = {
+    FIELD: '场地',
+    WATER: '饮水',
+    VIDEO_EDITING: '视频剪辑',
+    EQUIPMENT: '装备',
+    SPONSORSHIP: '赞助',
+    OTHER: '其他'
+}
+
+const DIRECTION_LABELS: Record<TreasuryDirection, string> = {
+    INCOME: '收入',
+    EXPENSE: '支出'
+}
+
+// Select value for entries not linked to a match; Radix selects cannot use an empty string
+const NO_MATCH = 'none'
+
+const EMPTY_FORM: EntryForm = {
+    direction: 'EXPENSE',
+    category: 'VIDEO_EDITING',
+    amount: '',
+    occurredAt: '',
+    matchId: NO_MATCH,
+    description: ''
+}
+
+const formatAmount = (value: number) => `¥${value.toFixed(2)}`
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('zh-CN')
+
+const amountClass = (value: number) => value < 0 ? 'text-red-600' : 'text-green-600'
+
+export default function TreasuryPage() {
+    const [report, setReport] = useState<TreasuryReport | null>(null)
+    const [entries, setEntries] = useState<TreasuryEntry[]>([])
+    const [range, setRange] = useState({ from: '', to: '' })
+    const [appliedRange, setAppliedRange] = useState({ from: '', to: '' })
+    const [loading, setLoading] = useState(true)
+    const [saving, setSaving] = useState(false)
+    const [dialogOpen, setDialogOpen] = useState(false)
+    const [form, setForm] = useState<EntryForm>(EMPTY_FORM)
+    const router = useRouter()
+
+    const fetchTreasury = useCallback(async () => {
+        setLoading(true)
+        try {
+            const params = new URLSearchParams()
+            if (appliedRange.from) params.set('from', appliedRange.from)
+            if (appliedRange.to) params.set('to', appliedRange.to)
+
+            const [reportResponse, entriesResponse] = await Promise.all([
+                fetch(`/api/admin/treasury/report?${params}`),
+                fetch(`/api/admin/treasury/entries?${params}`)
+            ])
+            const [reportData, entriesData] = await Promise.all([reportResponse.json(), entriesResponse.json()])
+
+            if (reportData.success && entriesData.success) {
+                setReport(reportData.data)
+                setEntries(entriesData.data)
+            } else {
+                toast.error('获取财务数据失败: ' + (reportData.error?.message ?? entriesData.error?.message))
+            }
+        } catch (error) {
+            console.error('Error fetching treasury:', error)
+            toast.error('获取财务数据时发生错误')
+        } finally {
+            setLoading(false)
+        }
+    }, [appliedRange])
+
+    useEffect(() => {
+        fetchTreasury()
+    }, [fetchTreasury])
+
+    const saveEntry = async () => {
+        if (!form.amount || Number(form.amount) <= 0 || !form.occurredAt) {
+            toast.error('请填写金额和日期')
+            return
+        }
+
+        setSaving(true)
+        try {
+            const response = await fetch('/api/admin/treasury/entries', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    direction: form.direction,
+                    category: form.category,
+                    amount: Number(form.amount),
+                    occurredAt: new Date(`${form.occurredAt}T00:00:00`).toISOString(),
+                    matchId: form.matchId === NO_MATCH ? null : form.matchId,
+                    description: form.description.trim() || null
+                })
+            })
+            const data = await response.json()
+            if (data.success) {
+                toast.success(`${DIRECTION_LABELS[form.direction]}已记账`)
+                setDialogOpen(false)
+                setForm(EMPTY_FORM)
+                fetchTreasury()
+            } else {
+                toast.error('记账失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error saving treasury entry:', error)
+            toast.error('记账时发生错误')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const deleteEntry = async (entry: TreasuryEntry) => {
+        if (!confirm(`确定删除这笔${DIRECTION_LABELS[entry.direction]} ${formatAmount(entry.amount)} 吗？`)) return
+
+        try {
+            const response = await fetch(`/api/admin/treasury/entries/${entry.id}`, { method: 'DELETE' })
+            const data = await response.json()
+            if (data.success) {
+                toast.success('记录已删除')
+                fetchTreasury()
+            } else {
+                toast.error('删除记录失败: ' + data.error?.message)
+            }
+        } catch (error) {
+            console.error('Error deleting treasury entry:', error)
+            toast.error('删除记录时发生错误')
+        }
+    }
+
+    const summaryCards = report ? [
+        { label: '期初余额', value: report.openingBalance, className: amountClass(report.openingBalance) },
+        { label: '已收球费', value: report.feesCollected },
+        { label: '其他收入', value: report.totalIncome },
+        { label: '总支出', value: report.totalExpenses },
+        { label: '期末余额', value: report.closingBalance, className: amountClass(report.closingBalance) },
+        { label: '应收未收', value: report.feesOutstanding }
+    ] : []
+
+    const expenseCategories = report
+        ? (Object.keys(report.expensesByCategory) as TreasuryCategory[]).filter(category => report.expensesByCategory[category] > 0)
+        : []
+
+    return (
+        <div className="container mx-auto py-8 space-y-8 font-geist">
+
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <Button variant="outline" size="icon" onClick={() => router.back()}>
+                        <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div>
+                        <h1 className="text-3xl font-bold flex items-center gap-2">
+                            <Wallet className="h-8 w-8 text-primary" />
+                            球队财务
+                        </h1>
+                        <p className="text-muted-foreground">对比球队支出与已收球费，查看球队余额变化</p>
+                    </div>
+                </div>
+
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={fetchTreasury} disabled={loading}>
+                        <RefreshCcw className="h-4 w-4 mr-2" />
+                        刷新
+                    </Button>
+                    <Button onClick={() => setDialogOpen(true)}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        记一笔
+                    </Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>时间范围</CardTitle>
+                    <CardDescription>留空表示全部时间；设置开始日期后，之前的结余计入期初余额</CardDescription>
+                </CardHeader>
+                <CardContent className="flex flex-wrap items-end gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="treasury-from">开始日期</Label>
+                        <Input
+                            id="treasury-from"
+                            type="date"
+                            value={range.from}
+                            onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="treasury-to">结束日期</Label>
+                        <Input
+                            id="treasury-to"
+                            type="date"
+                            value={range.to}
+                            onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+                        />
+                    </div>
+                    <Button onClick={() => setAppliedRange(range)} disabled={loading}>查询</Button>
+                </CardContent>
+            </Card>
+
+            {loading || !report ? (
+                <div className="flex items-center justify-center py-12">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+                </div>
+            ) : (
+                <>
+                    <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-6">
+                        {summaryCards.map(card => (
+                            <div key={card.label} className="bg-card p-4 rounded-lg border">
+                                <p className="text-sm text-muted-foreground">{card.label}</p>
+                                <p className={`text-2xl font-bold ${card.className ?? ''}`}>{formatAmount(card.value)}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    {expenseCategories.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {expenseCategories.map(category => (
+                                <Badge key={category} variant="outline">
+                                    {CATEGORY_LABELS[category]}支出 {formatAmount(report.expensesByCategory[category])}
+                                </Badge>
+                            ))}
+                        </div>
+                    )}
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>月度余额</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {report.periods.length === 0 ? (
+                                <p className="py-6 text-center text-muted-foreground">该时间范围内没有收支</p>
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>月份</TableHead>
+                                            <TableHead className="text-right">已收球费</TableHead>
+                                            <TableHead className="text-right">其他收入</TableHead>
+                                            <TableHead className="text-right">支出</TableHead>
+                                            <TableHead className="text-right">盈亏</TableHead>
+                                            <TableHead className="text-right">余额</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {report.periods.map(period => (
+                                            <TableRow key={period.month}>
+                                                <TableCell className="font-medium">{period.month}</TableCell>
+                                                <TableCell className="text-right">{formatAmount(period.feesCollected)}</TableCell>
+                                                <TableCell className="text-right">{formatAmount(period.income)}</TableCell>
+                                                <TableCell className="text-right">{formatAmount(period.expenses)}</TableCell>
+                                                <TableCell className={`text-right ${amountClass(period.net)}`}>{formatAmount(period.net)}</TableCell>
+                                                <TableCell className={`text-right font-medium ${amountClass(period.balance)}`}>{formatAmount(period.balance)}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>比赛对账</CardTitle>
+                            <CardDescription>场地费和水费取自比赛记录，其他收支为关联到比赛的记账</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {report.matches.length === 0 ? (
+                                <p className="py-6 text-center text-muted-foreground">该时间范围内没有比赛</p>
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>日期</TableHead>
+                                            <TableHead>对手</TableHead>
+                                            <TableHead className="text-right">场地费</TableHead>
+                                            <TableHead className="text-right">水费</TableHead>
+                                            <TableHead className="text-right">其他支出</TableHead>
+                                            <TableHead className="text-right">其他收入</TableHead>
+                                            <TableHead className="text-right">应收球费</TableHead>
+                                            <TableHead className="text-right">已收球费</TableHead>
+                                            <TableHead className="text-right">盈亏</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {report.matches.map(match => (
+                                            <TableRow key={match.matchId}>
+                                                <TableCell className="whitespace-nowrap">{formatDate(match.matchDate)}</TableCell>
+                                                <TableCell>{match.opponentTeam}</TableCell>
+                                                <TableCell className="text-right">{formatAmount(match.fieldFee)}</TableCell>
+                                                <TableCell className="text-right">{formatAmount(match.waterFee)}</TableCell>
+                                                <TableCell className="text-right">{formatAmount(match.otherExpenses)}</TableCell>
+                                                <TableCell className="text-right">{formatAmount(match.otherIncome)}</TableCell>
+                                                <TableCell className="text-right">{formatAmount(match.feesDue)}</TableCell>
+                                                <TableCell className="text-right">{formatAmount(match.feesCollected)}</TableCell>
+                                                <TableCell className={`text-right font-medium ${amountClass(match.net)}`}>{formatAmount(match.net)}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>记账明细</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {entries.length === 0 ? (
+                                <div className="py-12 text-center bg-muted/30 rounded-lg border-2 border-dashed">
+                                    <p className="text-muted-foreground">暂无记账记录</p>
+                                </div>
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>日期</TableHead>
+                                            <TableHead>类型</TableHead>
+                                            <TableHead>分类</TableHead>
+                                            <TableHead>关联比赛</TableHead>
+                                            <TableHead>说明</TableHead>
+                                            <TableHead className="text-right">金额</TableHead>
+                                            <TableHead className="text-right">操作</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {entries.map(entry => (
+                                            <TableRow key={entry.id}>
+                                                <TableCell className="whitespace-nowrap">{formatDate(entry.occurredAt)}</TableCell>
+                                                <TableCell>
+                                                    <Badge variant={entry.direction === 'INCOME' ? 'default' : 'secondary'}>
+                                                        {DIRECTION_LABELS[entry.direction]}
+                                                    </Badge>
+                                                </TableCell>
+                                                <TableCell>{CATEGORY_LABELS[entry.category]}</TableCell>
+                                                <TableCell>{entry.matchLabel ?? '-'}</TableCell>
+                                                <TableCell className="text-muted-foreground">{entry.description ?? '-'}</TableCell>
+                                                <TableCell className={`text-right ${entry.direction === 'INCOME' ? 'text-green-600' : 'text-red-600'}`}>
+                                                    {entry.direction === 'INCOME' ? '+' : '-'}{formatAmount(entry.amount)}
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    <Button variant="ghost" size="icon" onClick={() => deleteEntry(entry)}>
+                                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                                    </Button>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>记一笔</DialogTitle>
+                        <DialogDescription>比赛的场地费和水费已在比赛中记录，无需重复记账</DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>类型</Label>
+                                <Select
+                                    value={form.direction}
+                                    onValueChange={(value) => setForm(prev => ({ ...prev, direction: value as TreasuryDirection }))}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(DIRECTION_LABELS) as TreasuryDirection[]).map(direction => (
+                                            <SelectItem key={direction} value={direction}>{DIRECTION_LABELS[direction]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>分类</Label>
+                                <Select
+                                    value={form.category}
+                                    onValueChange={(value) => setForm(prev => ({ ...prev, category: value as TreasuryCategory }))}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(CATEGORY_LABELS) as TreasuryCategory[]).map(category => (
+                                            <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="entry-amount">金额</Label>
+                                <Input
+                                    id="entry-amount"
+                                    type="number"
+                                    min={0}
+                                    step="0.01"
+                                    value={form.amount}
+                                    onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="entry-date">日期</Label>
+                                <Input
+                                    id="entry-date"
+                                    type="date"
+                                    value={form.occurredAt}
+                                    onChange={(e) => setForm(prev => ({ ...prev, occurredAt: e.target.value }))}
+                                />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>关联比赛</Label>
+                            <Select
+                                value={form.matchId}
+                                onValueChange={(value) => setForm(prev => ({ ...prev, matchId: value }))}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NO_MATCH}>不关联比赛</SelectItem>
+                                    {report?.matches.map(match => (
+                                        <SelectItem key={match.matchId} value={match.matchId}>
+                                            {formatDate(match.matchDate)} vs {match.opponentTeam}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="entry-description">说明</Label>
+                            <Input
+                                id="entry-description"
+                                value={form.description}
+                                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                                placeholder="可选"
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                            取消
+                        </Button>
+                        <Button onClick={saveEntry} disabled={saving}>
+                            {saving ? '保存中...' : '保存'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -13,11 +13,13 @@ import { PositionSelector } from "@/components/custom/PositionSelector";
 import { SetPasswordDialog } from "@/components/custom/SetPasswordDialog";
 import { EditUserDialog } from "@/components/custom/EditUserDialog";
 import { DeleteUserDialog } from "@/components/custom/DeleteUserDialog";
+import { ClaimRequestsCard } from "@/components/custom/ClaimRequestsCard";
+import { MergeUserDialog } from "@/components/custom/MergeUserDialog";
 import AssistantWidget from "@/components/ai/AssistantWidget";
 import { getPositionColor, getPositionLabel } from "@/lib/utils/position";
 import { type PatchEnvelope } from "@/lib/ai/schema";
 import { Position } from "@prisma/client";
-import { Plus, Key, Mail, Phone, Edit, Target, Award, BarChart3, Trash2, RotateCcw, Eye, EyeOff } from "lucide-react";
+import { Plus, Key, Mail, Phone, Edit, Target, Award, BarChart3, Trash2, RotateCcw, Eye, EyeOff, GitMerge } from "lucide-react";
 import { toast } from "sonner";
 
 interface User {
@@ -97,6 +99,7 @@ export default function UsersPage() {
   const [selectedUser, setSelectedUser] = useState<{ id: string; name: string } | null>(null);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [deletingUser, setDeletingUser] = useState<User | null>(null);
+  const [mergingUser, setMergingUser] = useState<User | null>(null);
   const [showDeleted, setShowDeleted] = useState(false);
 
   const [formData, setFormData] = useState<CreateUserForm>({
@@ -539,6 +542,8 @@ export default function UsersPage() {
         </div>
       </div>
 
+      <ClaimRequestsCard onReviewed={fetchUsers} />
+
       <Card>
         <CardHeader>
           <CardTitle>用户列表 ({users.length})</CardTitle>
@@ -671,6 +676,16 @@ export default function UsersPage() {
                               >
                                 <Edit className="h-3 w-3" />
                               </Button>
+                              {user.userType !== 'ADMIN' && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setMergingUser(user)}
+                                  title="合并重复用户"
+                                >
+                                  <GitMerge className="h-3 w-3" />
+                                </Button>
+                              )}
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -726,6 +741,14 @@ export default function UsersPage() {
         user={deletingUser}
         onConfirm={confirmDeleteUser}
       />
+
+      <MergeUserDialog
+        open={!!mergingUser}
+        onOpenChange={(open) => !open && setMergingUser(null)}
+        source={mergingUser}
+        users={users}
+        onSuccess={fetchUsers}
+      />
     </div >
   );
 }
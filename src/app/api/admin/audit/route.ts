@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, validationError } from '@/lib/apiResponse'
+import { AuditLogQuerySchema, validateRequest } from '@/lib/validationSchemas'
+import { AUDIT_TABLES, auditService } from '@/lib/services/auditService'
+
+// GET /api/admin/audit - Audit history filtered by table, record, user and date range
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryValidation = validateRequest(AuditLogQuerySchema, {
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+      tableName: searchParams.get('tableName') || undefined,
+      recordId: searchParams.get('recordId') || undefined,
+      userId: searchParams.get('userId') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined
+    })
+
+    if (!queryValidation.success) {
+      return validationError(queryValidation.error, queryValidation.details)
+    }
+
+    const [{ logs, pagination }, actors] = await Promise.all([
+      auditService.getLogs(queryValidation.data),
+      auditService.getActors()
+    ])
+
+    return successResponse({
+      logs,
+      tables: Object.values(AUDIT_TABLES),
+      actors
+    }, pagination)
+
+  } catch (error) {
+    console.error('Error fetching audit logs:', error)
+    return errorResponse('Failed to fetch audit logs')
+  }
+}
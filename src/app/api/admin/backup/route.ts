@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { backupService } from '@/lib/services/backupService'
+
+// GET /api/admin/backup - Download all club data as a zip of CSV files plus a JSON manifest
+export async function GET() {
+  try {
+    const { buffer, manifest } = await backupService.createBackup()
+    const filename = `club-backup_${manifest.createdAt.slice(0, 10)}.zip`
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}"`,
+        'Content-Length': buffer.length.toString()
+      }
+    })
+
+  } catch (error) {
+    console.error('Error creating backup:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create backup'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { ReviewClaimSchema } from '@/lib/validationSchemas'
+import { claimService } from '@/lib/services/claimService'
+import { notificationService } from '@/lib/services/notificationService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+
+// PATCH /api/admin/claims/[id] - Approve or reject a ghost account claim
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const { id: claimId } = await params
+    const body = await request.json()
+    const { action, reason } = ReviewClaimSchema.parse(body)
+
+    if (action === 'approve') {
+      const { claim, userBefore, userAfter } = await claimService.approveClaim(claimId, auditContext.userId)
+
+      await auditService.log(auditContext, [
+        {
+          tableName: AUDIT_TABLES.USERS,
+          recordId: userAfter.id,
+          actionType: 'UPDATE',
+          oldValues: userBefore,
+          newValues: userAfter
+        },
+        {
+          tableName: AUDIT_TABLES.CLAIM_REQUESTS,
+          recordId: claimId,
+          actionType: 'UPDATE',
+          newValues: claim
+        }
+      ])
+
+      await invalidateCacheTags([CACHE_TAGS.USERS, CACHE_TAGS.PLAYERS])
+      await notificationService.notifyClaimDecision(claim, true)
+
+      return NextResponse.json({
+        success: true,
+        data: claim
+      })
+    }
+
+    const claim = await claimService.rejectClaim(claimId, auditContext.userId, reason)
+
+    await auditService.log(auditContext, {
+      tableName: AUDIT_TABLES.CLAIM_REQUESTS,
+      recordId: claimId,
+      actionType: 'UPDATE',
+      newValues: claim
+    })
+
+    await notificationService.notifyClaimDecision(claim, false, reason)
+
+    return NextResponse.json({
+      success: true,
+      data: claim
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error reviewing claim:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to review claim'
+      }
+    }, { status: 500 })
+  }
+}
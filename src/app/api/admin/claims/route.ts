@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, validationError } from '@/lib/apiResponse'
+import { ClaimStatusQuerySchema, validateRequest } from '@/lib/validationSchemas'
+import { claimService } from '@/lib/services/claimService'
+
+// GET /api/admin/claims - Ghost account claims, optionally filtered by status
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryValidation = validateRequest(ClaimStatusQuerySchema, {
+      status: searchParams.get('status') || undefined
+    })
+
+    if (!queryValidation.success) {
+      return validationError(queryValidation.error, queryValidation.details)
+    }
+
+    const claims = await claimService.getClaims(queryValidation.data.status)
+
+    return successResponse(claims)
+
+  } catch (error) {
+    console.error('Error fetching claims:', error)
+    return errorResponse('Failed to fetch claims')
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApplicationError } from '@/lib/errors'
+import { parseExcelWorkbook } from '@/lib/excelParser'
+import { excelImportService } from '@/lib/services/excelImportService'
+import { playerAliasService } from '@/lib/services/playerAliasService'
+
+// POST /api/admin/excel/import/resolve - Unknown players of a workbook with suggested existing players
+// Nothing is imported; resolutions are saved through /api/admin/player-aliases before importing.
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file || (!file.name.endsWith('.xlsx') && !file.name.endsWith('.xls'))) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'File must be an Excel file (.xlsx or .xls)'
+        }
+      }, { status: 400 })
+    }
+
+    const sheets = parseExcelWorkbook(Buffer.from(await file.arrayBuffer()))
+    const unknownPlayers = await excelImportService.findUnknownPlayers(sheets)
+    const report = await playerAliasService.suggest(unknownPlayers)
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    })
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Unknown player lookup error:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to look up unknown players'
+      }
+    }, { status: 500 })
+  }
+}
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { PrismaClient } from '@prisma/client'
-import { parseExcelFile, ExcelPlayerData } from '@/lib/excelParser'
-import { calculateCoefficient } from '@/lib/utils/coefficient'
-import { calculatePlayerFees, type AttendanceData } from '@/lib/feeCalculation'
-import { globalSettingsService } from '@/lib/services/globalSettingsService'
+import { prisma } from '@/lib/prisma'
+import { parseExcelFile } from '@/lib/excelParser'
+import { parseMatchWorkbook } from '@/lib/matchWorkbook'
+import { ApplicationError } from '@/lib/errors'
+import { excelImportService, type ImportedMatch } from '@/lib/services/excelImportService'
+import { matchWorkbookService } from '@/lib/services/matchWorkbookService'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
-
-const prisma = new PrismaClient()
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,14 +30,6 @@ export async function POST(request: NextRequest) {
     // Convert file to buffer
     const buffer = Buffer.from(await file.arrayBuffer())
 
-    // Parse Excel file
-    const excelData = parseExcelFile(buffer)
-
-    // Get existing users and their short IDs
-    const existingUsers = await prisma.user.findMany({
-      select: { id: true, name: true, shortId: true }
-    })
-
     // Get first admin user for createdBy field
     const adminUser = await prisma.user.findFirst({
       where: { userType: 'ADMIN' },
@@ -51,205 +43,79 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Map Excel players to existing users and identify unknown players
-    const playerMappings: Array<{
-      excelPlayer: ExcelPlayerData
-      userId?: string
-      isUnknown: boolean
-    }> = []
-
-    const unmatchedPlayers: string[] = []
-
-    for (const excelPlayer of excelData.players) {
-      // Try to find existing user by shortId from Excel
-      const existingUser = existingUsers.find(u => u.shortId === excelPlayer.shortId)
-
-      if (existingUser) {
-        playerMappings.push({
-          excelPlayer,
-          userId: existingUser.id,
-          isUnknown: false
-        })
-      } else {
-        playerMappings.push({
-          excelPlayer,
-          isUnknown: true
-        })
-        unmatchedPlayers.push(excelPlayer.shortId || excelPlayer.姓名)
+    let imported: ImportedMatch
+    let totalPlayers: number
+    let unmatchedPlayers: string[]
+
+    // Workbooks written by the match export carry every field and are imported as-is
+    const workbook = parseMatchWorkbook(buffer)
+    if (workbook) {
+      const result = await matchWorkbookService.importWorkbook(workbook, adminUser.id)
+      imported = result.imported
+      totalPlayers = workbook.players.length
+      unmatchedPlayers = result.unknownPlayers
+    } else {
+      // Parse Excel file
+      const excelData = parseExcelFile(buffer)
+
+      // Map Excel players to existing users by shortId and identify unknown players
+      const { matched: matchedMappings, unknown } = await excelImportService.matchPlayers(excelData.players)
+
+      // Check if we have any matched players to proceed
+      if (matchedMappings.length === 0) {
+        return NextResponse.json({
+          success: false,
+          error: 'No players matched. Please ensure at least some players have correct shortIds.',
+          data: {
+            unknownPlayers: unknown,
+            totalPlayers: excelData.players.length,
+            matchedPlayers: 0
+          }
+        }, { status: 400 })
       }
-    }
-
-    // Check if we have any matched players to proceed
-    const matchedMappings = playerMappings.filter(p => !p.isUnknown)
-    if (matchedMappings.length === 0) {
-      return NextResponse.json({
-        success: false,
-        error: 'No players matched. Please ensure at least some players have correct shortIds.',
-        data: {
-          unknownPlayers: unmatchedPlayers,
-          totalPlayers: excelData.players.length,
-          matchedPlayers: 0
-        }
-      }, { status: 400 })
-    }
 
-    // Read global base fee rates before creating match
-    const { baseVideoFeeRate, baseLateFeeRate } = await globalSettingsService.getBaseFeeRates()
-
-    // Create match record
-    const match = await prisma.match.create({
-      data: {
+      imported = await excelImportService.importSheet(excelData, matchedMappings, {
         matchDate: new Date(), // Using current date as requested
         opponentTeam: excelData.matchTitle.replace(/^\d+月\d+日VS/, '') || 'Unknown Team',
-        ourScore: excelData.ourScore,
-        opponentScore: excelData.opponentScore,
-        fieldFeeTotal: Math.round(excelData.fieldFeeTotal),
-        waterFeeTotal: Math.round(excelData.waterFeeTotal),
-        lateFeeRate: Math.round(baseLateFeeRate),
-        videoFeePerUnit: Math.round(baseVideoFeeRate),
         notes: JSON.stringify({
           importedFrom: file.name,
           importedAt: new Date().toISOString(),
           originalSheetName: excelData.matchTitle
         }),
         createdBy: adminUser.id
-      }
-    })
-
-    // Auto-select all imported players by creating MatchPlayer records
-    const matchPlayerData = matchedMappings
-      .filter(mapping => mapping.userId)
-      .map(mapping => ({
-        matchId: match.id,
-        playerId: mapping.userId!
-      }))
-
-    if (matchPlayerData.length > 0) {
-      await prisma.matchPlayer.createMany({
-        data: matchPlayerData
       })
+      totalPlayers = excelData.players.length
+      unmatchedPlayers = unknown
     }
 
-    // Calculate coefficient for fee calculations
-    const coefficient = calculateCoefficient(
-      Math.round(Number(excelData.fieldFeeTotal)),
-      Math.round(Number(excelData.waterFeeTotal)),
-      90 // Fixed total time units
-    )
-
-    // Create participation records and events using new attendance structure
-    const participations = []
-    const events = []
-
-    for (const mapping of matchedMappings) {
-      if (!mapping.userId) continue; // Skip if no userId
-
-      const { excelPlayer } = mapping
-
-      // Build attendance data in the new format expected by state store
-      const attendanceData = {
-        attendance: {
-          "1": {
-            "1": excelPlayer.section1[0] === '守门' ? 1 : (excelPlayer.section1[0] || 0),
-            "2": excelPlayer.section1[1] === '守门' ? 1 : (excelPlayer.section1[1] || 0),
-            "3": excelPlayer.section1[2] === '守门' ? 1 : (excelPlayer.section1[2] || 0)
-          },
-          "2": {
-            "1": excelPlayer.section2[0] === '守门' ? 1 : (excelPlayer.section2[0] || 0),
-            "2": excelPlayer.section2[1] === '守门' ? 1 : (excelPlayer.section2[1] || 0),
-            "3": excelPlayer.section2[2] === '守门' ? 1 : (excelPlayer.section2[2] || 0)
-          },
-          "3": {
-            "1": excelPlayer.section3[0] === '守门' ? 1 : (excelPlayer.section3[0] || 0),
-            "2": excelPlayer.section3[1] === '守门' ? 1 : (excelPlayer.section3[1] || 0),
-            "3": excelPlayer.section3[2] === '守门' ? 1 : (excelPlayer.section3[2] || 0)
-          }
-        },
-        goalkeeper: {
-          "1": {
-            ...(excelPlayer.section1[0] === '守门' && { "1": true }),
-            ...(excelPlayer.section1[1] === '守门' && { "2": true }),
-            ...(excelPlayer.section1[2] === '守门' && { "3": true })
-          },
-          "2": {
-            ...(excelPlayer.section2[0] === '守门' && { "1": true }),
-            ...(excelPlayer.section2[1] === '守门' && { "2": true }),
-            ...(excelPlayer.section2[2] === '守门' && { "3": true })
-          },
-          "3": {
-            ...(excelPlayer.section3[0] === '守门' && { "1": true }),
-            ...(excelPlayer.section3[1] === '守门' && { "2": true }),
-            ...(excelPlayer.section3[2] === '守门' && { "3": true })
-          }
-        },
-        isLateArrival: !excelPlayer.onTime
-      }
-
-      // Calculate fees using the centralized fee calculation logic with base rates
-      const calculatedFees = calculatePlayerFees({
-        attendanceData: attendanceData as AttendanceData,
-        isLateArrival: !excelPlayer.onTime,
-        feeCoefficient: coefficient,
-        lateFeeRate: baseLateFeeRate,
-        videoFeeRate: baseVideoFeeRate
-      })
-
-      // Create participation record (without notes)
-      const participation = await prisma.matchParticipation.create({
-        data: {
-          userId: mapping.userId,
-          matchId: match.id,
-          attendanceData,
-          isLateArrival: !excelPlayer.onTime,
-          totalTime: calculatedFees.normalPlayerParts,
-          fieldFeeCalculated: calculatedFees.fieldFee,
-          lateFee: calculatedFees.lateFee,
-          videoFee: calculatedFees.videoFee,
-          totalFeeCalculated: calculatedFees.totalFee
-        }
-      })
+    const { match, selectedPlayerIds, participations, goals, assists, coefficient } = imported
 
-      // Create FeeOverride record ONLY if notes exist (as per business requirement)
-      if (excelPlayer.notes.trim()) {
-        await prisma.feeOverride.create({
-          data: {
-            matchId: match.id,
-            playerId: mapping.userId,
-            fieldFeeOverride: Math.round(Number(excelPlayer.实收费用 || 0)), // Use actual fee from Excel as override
-            notes: excelPlayer.notes.trim()
-          }
-        })
-      }
-
-      participations.push(participation)
-
-      // Create goal events
-      for (let i = 0; i < excelPlayer.goals; i++) {
-        events.push({
-          matchId: match.id,
-          playerId: mapping.userId,
-          eventType: 'GOAL' as const,
-          createdBy: adminUser.id
-        })
-      }
-
-      // Create assist events
-      for (let i = 0; i < excelPlayer.assists; i++) {
-        events.push({
-          matchId: match.id,
-          playerId: mapping.userId,
-          eventType: 'ASSIST' as const,
-          createdBy: adminUser.id
-        })
+    await auditService.log(await getAuditContext(request), [
+      {
+        tableName: AUDIT_TABLES.MATCHES,
+        recordId: match.id,
+        actionType: 'CREATE',
+        newValues: match
+      },
+      {
+        tableName: AUDIT_TABLES.MATCH_PLAYERS,
+        recordId: match.id,
+        actionType: 'CREATE',
+        newValues: selectedPlayerIds
+      },
+      {
+        tableName: AUDIT_TABLES.MATCH_PARTICIPATIONS,
+        recordId: match.id,
+        actionType: 'CREATE',
+        newValues: await auditService.snapshotAttendance(match.id)
+      },
+      {
+        tableName: AUDIT_TABLES.FEE_OVERRIDES,
+        recordId: match.id,
+        actionType: 'CREATE',
+        newValues: await auditService.snapshotFeeOverrides(match.id)
       }
-    }
-
-    // Bulk create events
-    if (events.length > 0) {
-      await prisma.matchEvent.createMany({
-        data: events
-      })
-    }
+    ])
 
     await invalidateCacheTags([
       CACHE_TAGS.MATCHES,
@@ -273,15 +139,15 @@ export async function POST(request: NextRequest) {
           ourScore: match.ourScore,
           opponentScore: match.opponentScore
         },
-        participations: participations.length,
-        events: events.length,
+        participations,
+        events: goals + assists,
         importSummary: {
-          totalPlayersInExcel: excelData.players.length,
-          matchedPlayers: matchedMappings.length,
+          totalPlayersInExcel: totalPlayers,
+          matchedPlayers: participations,
           unknownPlayers: unmatchedPlayers.length,
-          selectedPlayers: matchPlayerData.length,
-          goalsImported: events.filter(e => e.eventType === 'GOAL').length,
-          assistsImported: events.filter(e => e.eventType === 'ASSIST').length,
+          selectedPlayers: selectedPlayerIds.length,
+          goalsImported: goals,
+          assistsImported: assists,
           calculatedCoefficient: coefficient
         },
         warnings: unmatchedPlayers.length > 0 ? [
@@ -291,6 +157,13 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof ApplicationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Excel import error:', error)
     return NextResponse.json(
       {
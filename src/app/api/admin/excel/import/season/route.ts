@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { parseExcelWorkbook } from '@/lib/excelParser'
+import { SeasonImportSchema } from '@/lib/validationSchemas'
+import { excelImportService } from '@/lib/services/excelImportService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext, type AuditEntry } from '@/lib/services/auditService'
+
+// POST /api/admin/excel/import/season - Import a workbook with one match per sheet
+// Without commit=true this is a dry run: a per-sheet report of matched/unknown players and date conflicts.
+// With commit=true every sheet is imported in one transaction, or nothing is if any sheet has problems.
+export async function POST(request: NextRequest) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file || (!file.name.endsWith('.xlsx') && !file.name.endsWith('.xls'))) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'File must be an Excel file (.xlsx or .xls)'
+        }
+      }, { status: 400 })
+    }
+
+    const { year, commit } = SeasonImportSchema.parse({
+      year: formData.get('year') ?? undefined,
+      commit: formData.get('commit') ?? undefined
+    })
+
+    const sheets = parseExcelWorkbook(Buffer.from(await file.arrayBuffer()))
+
+    if (commit !== 'true') {
+      const plan = await excelImportService.planWorkbook(sheets, year)
+
+      return NextResponse.json({
+        success: true,
+        data: { committed: false, plan }
+      })
+    }
+
+    const { plan, imported } = await excelImportService.commitWorkbook(sheets, year, file.name, auditContext.userId)
+
+    const auditEntries: AuditEntry[] = []
+    for (const { match, selectedPlayerIds } of imported) {
+      auditEntries.push(
+        {
+          tableName: AUDIT_TABLES.MATCHES,
+          recordId: match.id,
+          actionType: 'CREATE',
+          newValues: match
+        },
+        {
+          tableName: AUDIT_TABLES.MATCH_PLAYERS,
+          recordId: match.id,
+          actionType: 'CREATE',
+          newValues: selectedPlayerIds
+        },
+        {
+          tableName: AUDIT_TABLES.MATCH_PARTICIPATIONS,
+          recordId: match.id,
+          actionType: 'CREATE',
+          newValues: await auditService.snapshotAttendance(match.id)
+        },
+        {
+          tableName: AUDIT_TABLES.FEE_OVERRIDES,
+          recordId: match.id,
+          actionType: 'CREATE',
+          newValues: await auditService.snapshotFeeOverrides(match.id)
+        }
+      )
+    }
+    await auditService.log(auditContext, auditEntries)
+
+    await invalidateCacheTags([
+      CACHE_TAGS.MATCHES,
+      CACHE_TAGS.GAMES,
+      CACHE_TAGS.PLAYERS,
+      CACHE_TAGS.USERS,
+      CACHE_TAGS.LEADERBOARD,
+      CACHE_TAGS.STATS,
+      CACHE_TAGS.STATISTICS
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        committed: true,
+        plan,
+        matches: imported.map(({ match, participations, goals, assists }) => ({
+          id: match.id,
+          matchDate: match.matchDate,
+          opponentTeam: match.opponentTeam,
+          participations,
+          goals,
+          assists
+        }))
+      }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Season workbook import error:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to import season workbook'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApplicationError } from '@/lib/errors'
+import { feePolicyService } from '@/lib/services/feePolicyService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+function handleError(error: unknown, action: string) {
+  if (error instanceof ApplicationError) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    }, { status: error.statusCode })
+  }
+
+  console.error(`Error ${action} fee policy:`, error)
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'SERVER_ERROR',
+      message: `Failed to ${action === 'fetching' ? 'fetch' : 'delete'} fee policy`
+    }
+  }, { status: 500 })
+}
+
+// GET /api/admin/fee-policies/[id] - A single fee policy version with its match count
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: policyId } = await params
+
+    const policy = await feePolicyService.getPolicy(policyId)
+
+    return NextResponse.json({
+      success: true,
+      data: policy
+    })
+
+  } catch (error) {
+    return handleError(error, 'fetching')
+  }
+}
+
+// DELETE /api/admin/fee-policies/[id] - Delete a version no match has been charged under
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: policyId } = await params
+
+    const policy = await feePolicyService.deletePolicy(policyId)
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.FEE_POLICIES,
+      recordId: policyId,
+      actionType: 'DELETE',
+      oldValues: policy
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: policy
+    })
+
+  } catch (error) {
+    return handleError(error, 'deleting')
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { FeePolicySchema } from '@/lib/validationSchemas'
+import { feePolicyService } from '@/lib/services/feePolicyService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// GET /api/admin/fee-policies - All fee policy versions, newest first
+export async function GET() {
+  try {
+    const policies = await feePolicyService.getPolicies()
+
+    return NextResponse.json({
+      success: true,
+      data: policies
+    })
+
+  } catch (error) {
+    console.error('Error fetching fee policies:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch fee policies'
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/admin/fee-policies - Publish a new fee policy version for matches from its effective date
+export async function POST(request: NextRequest) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const input = FeePolicySchema.parse(body)
+
+    const policy = await feePolicyService.createPolicy(input, auditContext.userId)
+
+    await auditService.log(auditContext, {
+      tableName: AUDIT_TABLES.FEE_POLICIES,
+      recordId: policy.id,
+      actionType: 'CREATE',
+      newValues: policy
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: policy
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error creating fee policy:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create fee policy'
+      }
+    }, { status: 500 })
+  }
+}
@@ -3,6 +3,10 @@ import { prisma } from '@/lib/prisma'
 import { AttendanceUpdateSchema } from '@/lib/validationSchemas'
 import { attendanceService } from '@/lib/services/attendanceService'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { toMatchFormat } from '@/lib/utils/matchFormat'
+import { toFeePolicyRules } from '@/lib/utils/feePolicy'
+import { feePolicyService } from '@/lib/services/feePolicyService'
 import { ZodError } from 'zod'
 
 // PUT /api/admin/matches/[id]/attendance - Update attendance grid data only
@@ -19,7 +23,8 @@ export async function PUT(
     
     // Check if match exists
     const match = await prisma.match.findUnique({
-      where: { id: matchId }
+      where: { id: matchId },
+      include: { feePolicy: true }
     })
     
     if (!match) {
@@ -43,13 +48,30 @@ export async function PUT(
       fieldFeeTotal: Math.ceil(validatedData.matchInfo?.fieldFeeTotal ?? match.fieldFeeTotal ?? 0),
       waterFeeTotal: Math.ceil(validatedData.matchInfo?.waterFeeTotal ?? match.waterFeeTotal ?? 0),
       lateFeeRate: Math.ceil(validatedData.matchInfo?.lateFeeRate ?? match.lateFeeRate ?? 10),
-      videoFeePerUnit: Math.ceil(validatedData.matchInfo?.videoFeePerUnit ?? match.videoFeePerUnit ?? 2)
+      videoFeePerUnit: Math.ceil(validatedData.matchInfo?.videoFeePerUnit ?? match.videoFeePerUnit ?? 2),
+      format: toMatchFormat(match),
+      feePolicy: toFeePolicyRules(match.feePolicy)
     }
 
     // Use selected player IDs from request to completely avoid database query
     const selectedPlayerIds = validatedData.selectedPlayerIds || []
+    const trialPlayerIds = await feePolicyService.findTrialPlayerIds(matchId, selectedPlayerIds)
+
+    const attendanceBefore = await auditService.snapshotAttendance(matchId)
+    const result = await attendanceService.updateAttendance(
+      matchId,
+      updateRequest,
+      { ...matchInfo, trialPlayerIds },
+      selectedPlayerIds
+    )
 
-    const result = await attendanceService.updateAttendance(matchId, updateRequest, matchInfo, selectedPlayerIds)
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCH_PARTICIPATIONS,
+      recordId: matchId,
+      actionType: 'UPDATE',
+      oldValues: attendanceBefore,
+      newValues: await auditService.snapshotAttendance(matchId)
+    })
 
     try {
       await invalidateCacheTags([
@@ -132,7 +154,8 @@ export async function GET(
         events: result.events, // Use the new events array
         totalParticipants: result.totalParticipants,
         totalEvents: result.totalEvents,
-        selectedPlayers: result.selectedPlayers
+        selectedPlayers: result.selectedPlayers,
+        format: toMatchFormat(match)
       }
     })
 
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { ConcededGoalsSchema } from '@/lib/validationSchemas'
+import { concededGoalService } from '@/lib/services/concededGoalService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// GET /api/admin/matches/[id]/conceded-goals - Get the timing of the opponent's goals
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+    const concededGoals = await concededGoalService.getConcededGoals(matchId)
+
+    return NextResponse.json({
+      success: true,
+      data: concededGoals
+    })
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error fetching conceded goals:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch conceded goals'
+      }
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/admin/matches/[id]/conceded-goals - Replace the timing of the opponent's goals
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const { id: matchId } = await params
+    const body = await request.json()
+    const { minutes } = ConcededGoalsSchema.parse(body)
+
+    const before = await concededGoalService.getConcededGoals(matchId)
+    const concededGoals = await concededGoalService.saveConcededGoals(matchId, minutes)
+
+    await auditService.log(auditContext, {
+      tableName: AUDIT_TABLES.CONCEDED_GOALS,
+      recordId: matchId,
+      actionType: 'UPDATE',
+      oldValues: { minutes: before.minutes },
+      newValues: { minutes: concededGoals.minutes }
+    })
+
+    await invalidateCacheTags([
+      CACHE_TAGS.PLAYERS,
+      CACHE_TAGS.LEADERBOARD,
+      CACHE_TAGS.STATS,
+      CACHE_TAGS.STATISTICS
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: concededGoals
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error saving conceded goals:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to save conceded goals'
+      }
+    }, { status: 500 })
+  }
+}
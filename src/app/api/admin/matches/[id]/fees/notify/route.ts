@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApplicationError } from '@/lib/errors'
+import { notificationService } from '@/lib/services/notificationService'
+
+// POST /api/admin/matches/[id]/fees/notify - Email each participant their final fee breakdown
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+
+    const result = await notificationService.sendFeeBreakdowns(matchId)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error sending fee breakdowns:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to send fee breakdowns'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { FeePreviewSchema } from '@/lib/validationSchemas'
+import { feeCalculationService } from '@/lib/services/feeCalculationService'
+import { ZodError } from 'zod'
+
+// POST /api/admin/matches/[id]/fees/preview - Dry-run fees for unsaved attendance/late/override changes
+// Nothing is written; the response diffs each player's fees against the stored ones
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+    const body = await request.json()
+
+    // Validate request body
+    const candidate = FeePreviewSchema.parse(body)
+
+    // Check if match exists
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { id: true }
+    })
+
+    if (!match) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'MATCH_NOT_FOUND',
+          message: 'Match not found'
+        }
+      }, { status: 404 })
+    }
+
+    const preview = await feeCalculationService.previewFees(matchId, candidate)
+
+    return NextResponse.json({
+      success: true,
+      data: preview
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    console.error('Error previewing fees:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to preview fees'
+      }
+    }, { status: 500 })
+  }
+}
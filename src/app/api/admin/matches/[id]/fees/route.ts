@@ -4,6 +4,7 @@ import { FeesUpdateSchema } from '@/lib/validationSchemas'
 import { feeCalculationService } from '@/lib/services/feeCalculationService'
 import { feeOverrideService } from '@/lib/services/feeOverrideService'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 import { ZodError } from 'zod'
 
 // Removed deprecated PATCH endpoint that directly modified match_participation table
@@ -45,8 +46,17 @@ export async function PUT(
       }))
     }
 
+    const overridesBefore = await auditService.snapshotFeeOverrides(matchId)
     const result = await feeOverrideService.applyBulkOverrides(matchId, overrideInput)
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.FEE_OVERRIDES,
+      recordId: matchId,
+      actionType: 'UPDATE',
+      oldValues: overridesBefore,
+      newValues: await auditService.snapshotFeeOverrides(matchId)
+    })
+
     if (!result.success && result.errors.length > 0) {
       return NextResponse.json({
         success: false,
@@ -3,6 +3,11 @@ import { prisma } from '@/lib/prisma'
 import { MatchInfoUpdateSchema } from '@/lib/validationSchemas'
 import { feeCalculationService } from '@/lib/services/feeCalculationService'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { seasonService } from '@/lib/services/seasonService'
+import { opponentService } from '@/lib/services/opponentService'
+import { notificationService } from '@/lib/services/notificationService'
+import { hasAttendanceOutsideFormat, toMatchFormat } from '@/lib/utils/matchFormat'
 import { ZodError } from 'zod'
 
 const roundFee = (value: number) => Math.ceil(value)
@@ -43,6 +48,35 @@ export async function PUT(
       }, { status: 404 })
     }
 
+    // A format change must not drop attendance already recorded in removed sections or parts
+    const currentFormat = toMatchFormat(existingMatch)
+    const nextFormat = toMatchFormat(validatedData, currentFormat)
+    const formatChanged = (Object.keys(currentFormat) as (keyof typeof currentFormat)[])
+      .some(key => currentFormat[key] !== nextFormat[key])
+
+    if (formatChanged) {
+      const participations = await prisma.matchParticipation.findMany({
+        where: { matchId },
+        select: { attendanceData: true }
+      })
+      const conflict = participations.some(p =>
+        hasAttendanceOutsideFormat(
+          (p.attendanceData as { attendance?: Record<string, Record<string, number>> } | null)?.attendance,
+          nextFormat
+        )
+      )
+
+      if (conflict) {
+        return NextResponse.json({
+          success: false,
+          error: {
+            code: 'FORMAT_CONFLICT',
+            message: 'Attendance is recorded in sections or parts the new format removes'
+          }
+        }, { status: 409 })
+      }
+    }
+
     // Calculate match result if both scores are provided
     let matchResult = existingMatch.matchResult
     if (validatedData.ourScore !== undefined && validatedData.opponentScore !== undefined) {
@@ -55,21 +89,38 @@ export async function PUT(
       }
     }
 
-    // Check if field or water fees are being updated (requires fee recalculation)
+    // Check if field or water fees or the format are being updated (requires fee recalculation)
     const needsFeeRecalculation = 
       roundedData.fieldFeeTotal !== undefined || 
-      roundedData.waterFeeTotal !== undefined
+      roundedData.waterFeeTotal !== undefined ||
+      formatChanged
 
     // Update match basic information
     const updatedMatch = await prisma.match.update({
       where: { id: matchId },
       data: {
         ...roundedData,
+        ...(roundedData.matchDate && {
+          seasonId: await seasonService.findSeasonIdForDate(new Date(roundedData.matchDate))
+        }),
+        ...(roundedData.opponentTeam && {
+          opponentId: await opponentService.resolveOpponentId(roundedData.opponentTeam)
+        }),
         matchResult,
         updatedAt: new Date()
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCHES,
+      recordId: matchId,
+      actionType: 'UPDATE',
+      oldValues: existingMatch,
+      newValues: updatedMatch
+    })
+
+    void notificationService.notifyMatchChanged(existingMatch, updatedMatch)
+
     // Auto-recalculate fees if field or water fees changed
     let feeRecalculationResult = null
     if (needsFeeRecalculation) {
@@ -155,6 +206,9 @@ export async function GET(
         matchResult: true,
         fieldFeeTotal: true,
         waterFeeTotal: true,
+        sectionCount: true,
+        partsPerSection: true,
+        partMinutes: true,
         notes: true,
         createdAt: true,
         updatedAt: true
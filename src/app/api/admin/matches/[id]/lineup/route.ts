@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { LineupSchema } from '@/lib/validationSchemas'
+import { lineupService } from '@/lib/services/lineupService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// PUT /api/admin/matches/[id]/lineup - Replace the line-up and rebuild attendance from it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const { id: matchId } = await params
+    const body = await request.json()
+    const input = LineupSchema.parse(body)
+
+    const lineupBefore = await lineupService.getLineup(matchId)
+    const attendanceBefore = await auditService.snapshotAttendance(matchId)
+    const result = await lineupService.saveLineup(matchId, input)
+
+    await auditService.log(auditContext, [
+      {
+        tableName: AUDIT_TABLES.LINEUP_PLAYERS,
+        recordId: matchId,
+        actionType: 'UPDATE',
+        oldValues: lineupBefore,
+        newValues: result.lineup
+      },
+      ...(result.attendanceUpdated ? [{
+        tableName: AUDIT_TABLES.MATCH_PARTICIPATIONS,
+        recordId: matchId,
+        actionType: 'UPDATE' as const,
+        oldValues: attendanceBefore,
+        newValues: await auditService.snapshotAttendance(matchId)
+      }] : [])
+    ])
+
+    await invalidateCacheTags([
+      CACHE_TAGS.MATCHES,
+      CACHE_TAGS.GAMES,
+      CACHE_TAGS.PLAYERS,
+      CACHE_TAGS.LEADERBOARD,
+      CACHE_TAGS.STATS,
+      CACHE_TAGS.STATISTICS
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error saving lineup:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to save lineup'
+      }
+    }, { status: 500 })
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 
 const updateNotesSchema = z.object({
   participationNotes: z.array(z.object({
@@ -57,6 +58,13 @@ export async function POST(
       return updates
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCH_PARTICIPATIONS,
+      recordId: matchId,
+      actionType: 'UPDATE',
+      newValues: { participationNotes: validatedData.participationNotes }
+    })
+
     try {
       await invalidateCacheTags([
         CACHE_TAGS.MATCHES,
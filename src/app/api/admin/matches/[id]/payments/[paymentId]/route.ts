@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { paymentService } from '@/lib/services/paymentService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// DELETE /api/admin/matches/[id]/payments/[paymentId] - Remove a payment recorded by mistake
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; paymentId: string }> }
+) {
+  try {
+    const { id: matchId, paymentId } = await params
+
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, matchId }
+    })
+
+    if (!payment) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'PAYMENT_NOT_FOUND',
+          message: 'Payment not found'
+        }
+      }, { status: 404 })
+    }
+
+    const deleted = await paymentService.deletePayment(matchId, paymentId)
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.PAYMENTS,
+      recordId: matchId,
+      actionType: 'DELETE',
+      oldValues: deleted
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: deleted
+    })
+
+  } catch (error) {
+    console.error('Error deleting payment:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to delete payment'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,164 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { RecordPaymentSchema } from '@/lib/validationSchemas'
+import { paymentService } from '@/lib/services/paymentService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { ZodError } from 'zod'
+
+// GET /api/admin/matches/[id]/payments - Get payment status for every participant
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+
+    // Check if match exists
+    const match = await prisma.match.findUnique({
+      where: { id: matchId }
+    })
+
+    if (!match) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'MATCH_NOT_FOUND',
+          message: 'Match not found'
+        }
+      }, { status: 404 })
+    }
+
+    const summary = await paymentService.getMatchPayments(matchId)
+
+    // Running debt across all matches for the players in this match
+    const balances = await paymentService.getPlayerBalances(
+      summary.players.map(player => player.playerId)
+    )
+    const balanceMap = new Map(balances.map(balance => [balance.playerId, balance]))
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...summary,
+        players: summary.players.map(player => ({
+          ...player,
+          totalOutstanding: balanceMap.get(player.playerId)?.outstanding ?? 0,
+          unpaidMatchCount: balanceMap.get(player.playerId)?.unpaidMatches.length ?? 0
+        }))
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching payments:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch payments'
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/admin/matches/[id]/payments - Record a (partial or full) payment
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized access'
+        }
+      }, { status: 401 })
+    }
+
+    const { id: matchId } = await params
+    const body = await request.json()
+
+    // Validate request body
+    const validatedData = RecordPaymentSchema.parse(body)
+
+    // Check if match exists
+    const match = await prisma.match.findUnique({
+      where: { id: matchId }
+    })
+
+    if (!match) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'MATCH_NOT_FOUND',
+          message: 'Match not found'
+        }
+      }, { status: 404 })
+    }
+
+    const participation = await prisma.matchParticipation.findUnique({
+      where: {
+        userId_matchId: {
+          userId: validatedData.playerId,
+          matchId
+        }
+      }
+    })
+
+    if (!participation) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'PARTICIPATION_NOT_FOUND',
+          message: 'Player did not participate in this match'
+        }
+      }, { status: 400 })
+    }
+
+    const payment = await paymentService.recordPayment(matchId, {
+      playerId: validatedData.playerId,
+      amount: validatedData.amount,
+      method: validatedData.method,
+      paidBy: validatedData.paidBy,
+      paidAt: validatedData.paidAt ? new Date(validatedData.paidAt) : undefined,
+      notes: validatedData.notes
+    }, session.user.id)
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.PAYMENTS,
+      recordId: matchId,
+      actionType: 'CREATE',
+      newValues: payment
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: payment
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    console.error('Error recording payment:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to record payment'
+      }
+    }, { status: 500 })
+  }
+}
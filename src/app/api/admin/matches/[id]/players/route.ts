@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { SelectedPlayersSchema } from '@/lib/validationSchemas'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 import { ZodError } from 'zod'
 
 // PUT /api/admin/matches/[id]/players - Update selected players for match
@@ -53,8 +54,17 @@ export async function PUT(
       }, { status: 400 })
     }
 
+    const playersBefore = await auditService.snapshotMatchPlayers(matchId)
+
     // Update selected players atomically
     const result = await prisma.$transaction(async (tx) => {
+      // Players who stay selected keep their side of an intra-squad split
+      const existing = await tx.matchPlayer.findMany({
+        where: { matchId },
+        select: { playerId: true, side: true }
+      })
+      const sides = new Map(existing.map(mp => [mp.playerId, mp.side]))
+
       // Remove existing selected players
       await tx.matchPlayer.deleteMany({
         where: { matchId }
@@ -65,7 +75,8 @@ export async function PUT(
         await tx.matchPlayer.createMany({
           data: validatedData.playerIds.map(playerId => ({
             matchId,
-            playerId
+            playerId,
+            side: sides.get(playerId) ?? null
           }))
         })
       }
@@ -87,6 +98,14 @@ export async function PUT(
       })
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCH_PLAYERS,
+      recordId: matchId,
+      actionType: 'UPDATE',
+      oldValues: playersBefore,
+      newValues: result.map(mp => mp.playerId)
+    })
+
     try {
       await invalidateCacheTags([
         CACHE_TAGS.MATCHES,
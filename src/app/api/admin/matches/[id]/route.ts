@@ -2,6 +2,10 @@ import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { seasonService } from '@/lib/services/seasonService'
+import { opponentService } from '@/lib/services/opponentService'
+import { notificationService } from '@/lib/services/notificationService'
 
 const roundFee = (value: number) => Math.ceil(value)
 
@@ -61,10 +65,26 @@ export async function PATCH(
       where: { id: matchId },
       data: {
         ...roundedData,
+        ...(roundedData.matchDate && {
+          seasonId: await seasonService.findSeasonIdForDate(new Date(roundedData.matchDate))
+        }),
+        ...(roundedData.opponentTeam && {
+          opponentId: await opponentService.resolveOpponentId(roundedData.opponentTeam)
+        }),
         updatedAt: new Date()
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCHES,
+      recordId: matchId,
+      actionType: 'UPDATE',
+      oldValues: existingMatch,
+      newValues: updatedMatch
+    })
+
+    void notificationService.notifyMatchChanged(existingMatch, updatedMatch)
+
     try {
       await invalidateCacheTags([
         CACHE_TAGS.MATCHES,
@@ -3,13 +3,17 @@ import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { calculatePlayerFees, type AttendanceData } from '@/lib/feeCalculation'
 import { calculateCoefficient } from '@/lib/utils/coefficient'
+import { createEmptyAttendance, getFormatSlots, MATCH_FORMAT_LIMITS, toMatchFormat } from '@/lib/utils/matchFormat'
+import { toFeePolicyRules } from '@/lib/utils/feePolicy'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { feePolicyService } from '@/lib/services/feePolicyService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 
 // Validation schemas for frontend data format
 const attendanceDataSchema = z.object({
   userId: z.string(),
-  section: z.number().min(1).max(3),
-  part: z.number().min(1).max(3),
+  section: z.number().min(1).max(MATCH_FORMAT_LIMITS.sectionCount.max),
+  part: z.number().min(1).max(MATCH_FORMAT_LIMITS.partsPerSection.max),
   value: z.number().min(0).max(1),
   isGoalkeeper: z.boolean().default(false),
   isLateArrival: z.boolean().default(false),
@@ -44,7 +48,8 @@ export async function POST(
     
     // Check if match exists
     const match = await prisma.match.findUnique({
-      where: { id: matchId }
+      where: { id: matchId },
+      include: { feePolicy: true }
     })
     
     if (!match) {
@@ -57,6 +62,21 @@ export async function POST(
       }, { status: 404 })
     }
 
+    const format = toMatchFormat(match)
+    const outOfFormat = validatedData.attendance.find(
+      item => item.section > format.sectionCount || item.part > format.partsPerSection
+    )
+
+    if (outOfFormat) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Section ${outOfFormat.section} part ${outOfFormat.part} is outside the match format`
+        }
+      }, { status: 400 })
+    }
+
     // Transform attendance data to aggregate by player
     const playerMap = new Map()
     
@@ -67,18 +87,7 @@ export async function POST(
       if (!playerMap.has(playerId)) {
         playerMap.set(playerId, {
           userId: playerId,
-          attendanceData: {
-            attendance: {
-              "1": {"1": 0, "2": 0, "3": 0},
-              "2": {"1": 0, "2": 0, "3": 0},
-              "3": {"1": 0, "2": 0, "3": 0}
-            },
-            goalkeeper: {
-              "1": {"1": false, "2": false, "3": false},
-              "2": {"1": false, "2": false, "3": false},
-              "3": {"1": false, "2": false, "3": false}
-            }
-          },
+          attendanceData: createEmptyAttendance(format),
           totalTime: 0,
           isLateArrival: false,
           goals: 0,
@@ -108,6 +117,11 @@ export async function POST(
       player.assists = Math.max(player.assists, attendance.assists)
     }
 
+    const feePolicy = toFeePolicyRules(match.feePolicy)
+    const trialPlayerIds = await feePolicyService.findTrialPlayerIds(matchId, Array.from(playerMap.keys()))
+
+    const attendanceBefore = await auditService.snapshotAttendance(matchId)
+
     // Start transaction to save all data atomically
     const result = await prisma.$transaction(async (tx) => {
       // 1. Clear existing participation and events for this match
@@ -126,7 +140,8 @@ export async function POST(
       const realTimeCoefficient = calculateCoefficient(
         Math.ceil(Number(match.fieldFeeTotal)),
         Math.ceil(Number(match.waterFeeTotal)),
-        totalPlayTime
+        totalPlayTime,
+        format
       )
 
       // 3. Save match participations
@@ -137,7 +152,10 @@ export async function POST(
           const fees = calculatePlayerFees({
             attendanceData: player.attendanceData,
             isLateArrival: player.isLateArrival,
-            feeCoefficient: realTimeCoefficient
+            feeCoefficient: realTimeCoefficient,
+            format,
+            policy: feePolicy,
+            isTrialPlayer: trialPlayerIds.includes(player.userId)
           })
           
           return {
@@ -149,7 +167,8 @@ export async function POST(
             fieldFeeCalculated: fees.fieldFee,
             lateFee: fees.lateFee,
             videoFee: fees.videoFee,
-            totalFeeCalculated: fees.totalFee
+            totalFeeCalculated: fees.totalFee,
+            isTrialPlayer: trialPlayerIds.includes(player.userId)
           }
         })
 
@@ -206,6 +225,14 @@ export async function POST(
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCH_PARTICIPATIONS,
+      recordId: matchId,
+      actionType: 'UPDATE',
+      oldValues: attendanceBefore,
+      newValues: await auditService.snapshotAttendance(matchId)
+    })
+
     // Calculate summary statistics from the input data
     const participantsCount = result?.participationsCount || 0
     const eventsCount = result?.eventsCount || 0
@@ -332,27 +359,25 @@ export async function GET(
       // Convert JSONb attendance data back to grid format
       const attendanceJson = p.attendanceData as AttendanceData | null
       
-      for (let section = 1; section <= 3; section++) {
-        for (let part = 1; part <= 3; part++) {
-          const sectionStr = section.toString()
-          const partStr = part.toString()
-          
-          const value = attendanceJson?.attendance?.[sectionStr]?.[partStr] || 0
-          const isGoalkeeper = attendanceJson?.goalkeeper?.[sectionStr]?.[partStr] || false
-          
-          if (value > 0) {
-            attendanceData.push({
-              userId: p.userId,
-              section,
-              part,
-              value,
-              isGoalkeeper,
-              isLateArrival: p.isLateArrival,
-              goals: section === 1 && part === 1 ? goals : 0, // Only show goals/assists on first cell
-              assists: section === 1 && part === 1 ? assists : 0,
-              notes: playerNotes // Include notes from fee override
-            })
-          }
+      for (const { section, part } of getFormatSlots(toMatchFormat(match))) {
+        const sectionStr = section.toString()
+        const partStr = part.toString()
+        
+        const value = attendanceJson?.attendance?.[sectionStr]?.[partStr] || 0
+        const isGoalkeeper = attendanceJson?.goalkeeper?.[sectionStr]?.[partStr] || false
+        
+        if (value > 0) {
+          attendanceData.push({
+            userId: p.userId,
+            section,
+            part,
+            value,
+            isGoalkeeper,
+            isLateArrival: p.isLateArrival,
+            goals: section === 1 && part === 1 ? goals : 0, // Only show goals/assists on first cell
+            assists: section === 1 && part === 1 ? assists : 0,
+            notes: playerNotes // Include notes from fee override
+          })
         }
       }
     }
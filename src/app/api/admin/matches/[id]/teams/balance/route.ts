@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { TeamBalanceSchema } from '@/lib/validationSchemas'
+import { teamBalancerService } from '@/lib/services/teamBalancerService'
+
+// POST /api/admin/matches/[id]/teams/balance - Suggest two balanced sides without saving them
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+    const body = await request.json()
+    const options = TeamBalanceSchema.parse(body)
+
+    const suggestion = await teamBalancerService.suggestTeams(matchId, options)
+
+    return NextResponse.json({
+      success: true,
+      data: suggestion
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error balancing teams:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to balance teams'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { TeamSplitSchema } from '@/lib/validationSchemas'
+import { teamBalancerService } from '@/lib/services/teamBalancerService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// PUT /api/admin/matches/[id]/teams - Save the split of an intra-squad game
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const { id: matchId } = await params
+    const body = await request.json()
+    const { sides } = TeamSplitSchema.parse(body)
+
+    const before = await teamBalancerService.getTeams(matchId)
+    const teams = await teamBalancerService.saveTeams(matchId, sides)
+
+    await auditService.log(auditContext, {
+      tableName: AUDIT_TABLES.MATCH_PLAYERS,
+      recordId: matchId,
+      actionType: 'UPDATE',
+      oldValues: before,
+      newValues: teams
+    })
+
+    await invalidateCacheTags([CACHE_TAGS.MATCHES, CACHE_TAGS.GAMES])
+
+    return NextResponse.json({
+      success: true,
+      data: teams
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error saving teams:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to save teams'
+      }
+    }, { status: 500 })
+  }
+}
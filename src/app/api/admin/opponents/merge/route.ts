@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { OpponentMergeSchema } from '@/lib/validationSchemas'
+import { opponentService } from '@/lib/services/opponentService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// POST /api/admin/opponents/merge - Merge a duplicate opponent, with its matches and aliases, into another
+export async function POST(request: NextRequest) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { sourceId, targetId } = OpponentMergeSchema.parse(body)
+
+    const result = await opponentService.mergeOpponents(sourceId, targetId)
+
+    await auditService.log(auditContext, [
+      {
+        tableName: AUDIT_TABLES.OPPONENTS,
+        recordId: result.source.id,
+        actionType: 'DELETE',
+        oldValues: result.source
+      },
+      {
+        tableName: AUDIT_TABLES.OPPONENTS,
+        recordId: result.target.id,
+        actionType: 'UPDATE',
+        newValues: result.target
+      }
+    ])
+
+    await invalidateCacheTags([CACHE_TAGS.MATCHES, CACHE_TAGS.GAMES])
+
+    return NextResponse.json({
+      success: true,
+      data: result.target
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error merging opponents:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to merge opponents'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { paymentService } from '@/lib/services/paymentService'
+
+// GET /api/admin/payments/balances - Outstanding balance per player across all matches
+// Optional ?playerId=a,b limits the rollup; ?outstandingOnly=true hides settled players
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const playerIds = searchParams.get('playerId')?.split(',').filter(Boolean)
+    const outstandingOnly = searchParams.get('outstandingOnly') === 'true'
+
+    const balances = await paymentService.getPlayerBalances(playerIds)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        balances: outstandingOnly ? balances.filter(b => b.outstanding > 0) : balances,
+        totalOutstanding: balances.reduce((sum, b) => sum + b.outstanding, 0)
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching player balances:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch player balances'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { BalanceReminderSchema } from '@/lib/validationSchemas'
+import { notificationService } from '@/lib/services/notificationService'
+
+// POST /api/admin/payments/reminders - Email players who still owe fees
+// Optional body { playerIds } limits the reminders to those players
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { playerIds } = BalanceReminderSchema.parse(body)
+
+    const result = await notificationService.sendBalanceReminders(playerIds)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    console.error('Error sending balance reminders:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to send balance reminders'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApplicationError } from '@/lib/errors'
+import { playerAliasService } from '@/lib/services/playerAliasService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// DELETE /api/admin/player-aliases/[id] - Forget a remembered import name
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: aliasId } = await params
+
+    const alias = await playerAliasService.deleteAlias(aliasId)
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.PLAYER_ALIASES,
+      recordId: aliasId,
+      actionType: 'DELETE',
+      oldValues: alias
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: alias
+    })
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error deleting player alias:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to delete player alias'
+      }
+    }, { status: 500 })
+  }
+}
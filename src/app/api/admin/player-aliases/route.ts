@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { PlayerAliasResolutionSchema } from '@/lib/validationSchemas'
+import { playerAliasService } from '@/lib/services/playerAliasService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext, type AuditEntry } from '@/lib/services/auditService'
+
+// GET /api/admin/player-aliases - Remembered import names and the players they map to
+export async function GET() {
+  try {
+    const aliases = await playerAliasService.getAliases()
+
+    return NextResponse.json({
+      success: true,
+      data: aliases
+    })
+
+  } catch (error) {
+    console.error('Error fetching player aliases:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch player aliases'
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/admin/player-aliases - Resolve unknown import names to existing or new GHOST players
+export async function POST(request: NextRequest) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { resolutions } = PlayerAliasResolutionSchema.parse(body)
+
+    const result = await playerAliasService.resolve(resolutions, auditContext.userId)
+
+    const auditEntries: AuditEntry[] = [
+      ...result.createdUsers.map((user): AuditEntry => ({
+        tableName: AUDIT_TABLES.USERS,
+        recordId: user.id,
+        actionType: 'CREATE',
+        newValues: { ...user, accountStatus: 'GHOST' }
+      })),
+      ...result.aliases.map((alias): AuditEntry => ({
+        tableName: AUDIT_TABLES.PLAYER_ALIASES,
+        recordId: alias.id,
+        actionType: 'CREATE',
+        newValues: alias
+      }))
+    ]
+    await auditService.log(auditContext, auditEntries)
+
+    if (result.createdUsers.length > 0) {
+      await invalidateCacheTags([CACHE_TAGS.PLAYERS, CACHE_TAGS.USERS])
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error resolving player aliases:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to resolve player aliases'
+      }
+    }, { status: 500 })
+  }
+}
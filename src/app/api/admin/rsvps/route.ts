@@ -0,0 +1,15 @@
+import { successResponse, errorResponse } from '@/lib/apiResponse'
+import { rsvpService } from '@/lib/services/rsvpService'
+
+// GET /api/admin/rsvps - Availability counts and answers for every upcoming match
+export async function GET() {
+  try {
+    const summaries = await rsvpService.getUpcomingRsvps()
+
+    return successResponse(summaries)
+
+  } catch (error) {
+    console.error('Error fetching RSVPs:', error)
+    return errorResponse('Failed to fetch RSVPs')
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { SeasonSchema } from '@/lib/validationSchemas'
+import { seasonService } from '@/lib/services/seasonService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+
+function handleError(error: unknown, action: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request data',
+        details: error.issues
+      }
+    }, { status: 400 })
+  }
+
+  if (error instanceof ApplicationError) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    }, { status: error.statusCode })
+  }
+
+  console.error(`Error ${action} season:`, error)
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'SERVER_ERROR',
+      message: `Failed to ${action === 'updating' ? 'update' : 'delete'} season`
+    }
+  }, { status: 500 })
+}
+
+const invalidateSeasonCaches = () => invalidateCacheTags([
+  CACHE_TAGS.MATCHES,
+  CACHE_TAGS.LEADERBOARD,
+  CACHE_TAGS.STATS,
+  CACHE_TAGS.STATISTICS
+])
+
+// PUT /api/admin/seasons/[id] - Replace a season's name, dates and default fee rates
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: seasonId } = await params
+    const body = await request.json()
+    const input = SeasonSchema.parse(body)
+
+    const before = await seasonService.getSeason(seasonId)
+    const season = await seasonService.updateSeason(seasonId, input)
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.SEASONS,
+      recordId: seasonId,
+      actionType: 'UPDATE',
+      oldValues: before,
+      newValues: season
+    })
+
+    await invalidateSeasonCaches()
+
+    return NextResponse.json({
+      success: true,
+      data: season
+    })
+
+  } catch (error) {
+    return handleError(error, 'updating')
+  }
+}
+
+// DELETE /api/admin/seasons/[id] - Delete a season; its matches keep their data but lose the season link
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: seasonId } = await params
+
+    const season = await seasonService.deleteSeason(seasonId)
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.SEASONS,
+      recordId: seasonId,
+      actionType: 'DELETE',
+      oldValues: season
+    })
+
+    await invalidateSeasonCaches()
+
+    return NextResponse.json({
+      success: true,
+      data: season
+    })
+
+  } catch (error) {
+    return handleError(error, 'deleting')
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { SeasonSchema } from '@/lib/validationSchemas'
+import { seasonService } from '@/lib/services/seasonService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+
+// POST /api/admin/seasons - Create a season and attach the matches in its date range
+export async function POST(request: NextRequest) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const input = SeasonSchema.parse(body)
+
+    const season = await seasonService.createSeason(input, auditContext.userId)
+
+    await auditService.log(auditContext, {
+      tableName: AUDIT_TABLES.SEASONS,
+      recordId: season.id,
+      actionType: 'CREATE',
+      newValues: season
+    })
+
+    await invalidateCacheTags([
+      CACHE_TAGS.MATCHES,
+      CACHE_TAGS.LEADERBOARD,
+      CACHE_TAGS.STATS,
+      CACHE_TAGS.STATISTICS
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: season
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error creating season:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create season'
+      }
+    }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { successResponse, errorResponse, unauthorizedError } from '@/lib/apiResponse'
+import { AUDIT_TABLES, auditService, getAuditContext, type AuditEntry } from '@/lib/services/auditService'
 
 const prisma = new PrismaClient()
 
@@ -12,6 +13,9 @@ const DEFAULT_SETTINGS = [
     { key: 'DEFAULT_WATER_FEE', value: '50', description: '默认单次比赛杂费（水费等）' },
     { key: 'LATE_FEE_RATE', value: '10', description: '默认迟到罚款金额' },
     { key: 'VIDEO_FEE_RATE', value: '2', description: '默认视频剪辑费用率（每时段）' },
+    { key: 'MATCH_SECTION_COUNT', value: '3', description: '新比赛默认节数' },
+    { key: 'MATCH_PARTS_PER_SECTION', value: '3', description: '新比赛每节默认时段数' },
+    { key: 'MATCH_PART_MINUTES', value: '10', description: '新比赛每个时段的分钟数' },
 ]
 
 export async function GET() {
@@ -25,9 +29,12 @@ export async function GET() {
             orderBy: { key: 'asc' }
         })
 
-        // If settings are empty, we might want to return defaults or empty list
-        // For now, return what's in the DB
-        return successResponse(settings)
+        // Show defaults that haven't been saved yet so admins can edit them;
+        // they are only written to the DB on the next PUT
+        const storedKeys = new Set(settings.map(setting => setting.key))
+        const unsavedDefaults = DEFAULT_SETTINGS.filter(setting => !storedKeys.has(setting.key))
+
+        return successResponse([...settings, ...unsavedDefaults])
     } catch (error) {
         console.error('Failed to fetch settings:', error)
         return errorResponse('Internal Server Error')
@@ -46,7 +53,13 @@ export async function PUT(request: NextRequest) {
             return errorResponse('Invalid settings data', 'INVALID_DATA', 400)
         }
 
+        const existingSettings = await prisma.systemConfig.findMany({
+            where: { key: { in: settings.map((setting: { key?: string }) => setting.key).filter((key): key is string => Boolean(key)) } }
+        })
+        const existingByKey = new Map(existingSettings.map(setting => [setting.key, setting]))
+
         const updatedSettings = []
+        const auditEntries: AuditEntry[] = []
 
         for (const setting of settings) {
             const { key, value, description } = setting
@@ -67,8 +80,21 @@ export async function PUT(request: NextRequest) {
                 }
             })
             updatedSettings.push(updated)
+
+            const previous = existingByKey.get(key)
+            if (!previous || previous.value !== updated.value || previous.description !== updated.description) {
+                auditEntries.push({
+                    tableName: AUDIT_TABLES.SYSTEM_CONFIG,
+                    recordId: key,
+                    actionType: previous ? 'UPDATE' : 'CREATE',
+                    oldValues: previous,
+                    newValues: updated
+                })
+            }
         }
 
+        await auditService.log(await getAuditContext(request), auditEntries)
+
         return successResponse(updatedSettings)
     } catch (error) {
         console.error('Failed to update settings:', error)
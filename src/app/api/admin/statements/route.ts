@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server'
+import { errorResponse, validationError } from '@/lib/apiResponse'
+import { StatementQuerySchema, validateRequest } from '@/lib/validationSchemas'
+import { statementService } from '@/lib/services/statementService'
+import { toStatementResponse } from '@/lib/statementExport'
+
+// GET /api/admin/statements - Monthly fee statements for every player (or one), as JSON, printable HTML or XLSX
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryValidation = validateRequest(StatementQuerySchema, {
+      month: searchParams.get('month') || undefined,
+      playerId: searchParams.get('playerId') || undefined,
+      format: searchParams.get('format') || undefined
+    })
+
+    if (!queryValidation.success) {
+      return validationError(queryValidation.error, queryValidation.details)
+    }
+
+    const { month, playerId, format } = queryValidation.data
+    const statement = await statementService.getMonthlyStatement(month, playerId)
+
+    return toStatementResponse(statement, format)
+
+  } catch (error) {
+    console.error('Error fetching statements:', error)
+    return errorResponse('Failed to fetch statements')
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApplicationError } from '@/lib/errors'
+import { treasuryService } from '@/lib/services/treasuryService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// DELETE /api/admin/treasury/entries/[id] - Remove a booked income or expense
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: entryId } = await params
+
+    const entry = await treasuryService.deleteEntry(entryId)
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.TREASURY_ENTRIES,
+      recordId: entryId,
+      actionType: 'DELETE',
+      oldValues: entry
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: entry
+    })
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error deleting treasury entry:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to delete treasury entry'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { validationError } from '@/lib/apiResponse'
+import { TreasuryEntrySchema, TreasuryRangeQuerySchema, validateRequest } from '@/lib/validationSchemas'
+import { treasuryService } from '@/lib/services/treasuryService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// GET /api/admin/treasury/entries - Booked income and expenses, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryValidation = validateRequest(TreasuryRangeQuerySchema, {
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined
+    })
+
+    if (!queryValidation.success) {
+      return validationError(queryValidation.error, queryValidation.details)
+    }
+
+    const entries = await treasuryService.getEntries(queryValidation.data)
+
+    return NextResponse.json({
+      success: true,
+      data: entries
+    })
+
+  } catch (error) {
+    console.error('Error fetching treasury entries:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch treasury entries'
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/admin/treasury/entries - Book an income or expense, optionally against a match
+export async function POST(request: NextRequest) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const input = TreasuryEntrySchema.parse(body)
+
+    const entry = await treasuryService.createEntry(input, auditContext.userId)
+
+    await auditService.log(auditContext, {
+      tableName: AUDIT_TABLES.TREASURY_ENTRIES,
+      recordId: entry.id,
+      actionType: 'CREATE',
+      newValues: entry
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: entry
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error creating treasury entry:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create treasury entry'
+      }
+    }, { status: 500 })
+  }
+}
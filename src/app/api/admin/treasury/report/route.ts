@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, validationError } from '@/lib/apiResponse'
+import { TreasuryRangeQuerySchema, validateRequest } from '@/lib/validationSchemas'
+import { treasuryService } from '@/lib/services/treasuryService'
+
+// GET /api/admin/treasury/report - Club balance: monthly cash flow, running balance and per-match reconciliation
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryValidation = validateRequest(TreasuryRangeQuerySchema, {
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined
+    })
+
+    if (!queryValidation.success) {
+      return validationError(queryValidation.error, queryValidation.details)
+    }
+
+    const report = await treasuryService.getReport(queryValidation.data)
+
+    return successResponse(report)
+
+  } catch (error) {
+    console.error('Error fetching treasury report:', error)
+    return errorResponse('Failed to fetch treasury report')
+  }
+}
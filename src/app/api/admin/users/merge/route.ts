@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { MergePlayersQuerySchema, MergePlayersSchema } from '@/lib/validationSchemas'
+import { playerMergeService } from '@/lib/services/playerMergeService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+
+function handleError(error: unknown, action: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request data',
+        details: error.issues
+      }
+    }, { status: 400 })
+  }
+
+  if (error instanceof ApplicationError) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    }, { status: error.statusCode })
+  }
+
+  console.error(`Error ${action} player merge:`, error)
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'SERVER_ERROR',
+      message: `Failed to ${action === 'previewing' ? 'preview' : 'perform'} merge`
+    }
+  }, { status: 500 })
+}
+
+// GET /api/admin/users/merge?sourceId=&targetId= - Preview moves and per-match conflicts
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { sourceId, targetId } = MergePlayersQuerySchema.parse({
+      sourceId: searchParams.get('sourceId'),
+      targetId: searchParams.get('targetId')
+    })
+
+    const preview = await playerMergeService.previewMerge(sourceId, targetId)
+
+    return NextResponse.json({
+      success: true,
+      data: preview
+    })
+
+  } catch (error) {
+    return handleError(error, 'previewing')
+  }
+}
+
+// POST /api/admin/users/merge - Move the source player's history into the target and soft-delete the source
+export async function POST(request: NextRequest) {
+  try {
+    const auditContext = await getAuditContext(request)
+    if (!auditContext) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Unauthorized'
+        }
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { sourceId, targetId, resolutions } = MergePlayersSchema.parse(body)
+
+    const preview = await playerMergeService.previewMerge(sourceId, targetId)
+    const result = await playerMergeService.mergePlayers(sourceId, targetId, resolutions, auditContext.userId)
+
+    await auditService.log(auditContext, [
+      {
+        tableName: AUDIT_TABLES.USERS,
+        recordId: sourceId,
+        actionType: 'DELETE',
+        oldValues: preview.source,
+        newValues: { mergedInto: targetId, moved: result.moved, discarded: result.discarded }
+      },
+      {
+        tableName: AUDIT_TABLES.USERS,
+        recordId: targetId,
+        actionType: 'UPDATE',
+        oldValues: preview,
+        newValues: { ...result, resolutions }
+      }
+    ])
+
+    await invalidateCacheTags([
+      CACHE_TAGS.USERS,
+      CACHE_TAGS.PLAYERS,
+      CACHE_TAGS.GAMES,
+      CACHE_TAGS.MATCHES,
+      CACHE_TAGS.LEADERBOARD,
+      CACHE_TAGS.STATS,
+      CACHE_TAGS.STATISTICS
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    return handleError(error, 'performing')
+  }
+}
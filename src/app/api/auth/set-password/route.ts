@@ -3,6 +3,7 @@ import bcrypt from "bcryptjs";
 import { PrismaClient } from "@prisma/client";
 import { adminSetPasswordSchema } from "@/lib/validations/auth";
 import { CACHE_TAGS, invalidateCacheTags } from "@/lib/cache";
+import { notificationService } from "@/lib/services/notificationService";
 
 const prisma = new PrismaClient();
 
@@ -53,6 +54,8 @@ export async function POST(request: NextRequest) {
       CACHE_TAGS.STATS,
       CACHE_TAGS.STATISTICS
     ]);
+
+    await notificationService.notifyPasswordSet(validatedData.userId);
     
     return NextResponse.json({ 
       message: "Password set successfully",
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApplicationError } from '@/lib/errors'
+import { claimRegistrationSchema } from '@/lib/validations/auth'
+import { claimService } from '@/lib/services/claimService'
+
+// POST /api/claims - Register and request ownership of a ghost account (public, admin approval required)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedData = claimRegistrationSchema.parse(body)
+
+    const claim = await claimService.submitClaim(validatedData)
+
+    return NextResponse.json({
+      success: true,
+      data: claim
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues[0]?.message || 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error submitting claim:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to submit claim'
+      }
+    }, { status: 500 })
+  }
+}
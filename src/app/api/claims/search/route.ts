@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { claimService } from '@/lib/services/claimService'
+
+// GET /api/claims/search?q= - Find unclaimed ghost accounts by name or short ID (public)
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get('q') || ''
+
+    if (query.trim().length > 50) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Search query is too long'
+        }
+      }, { status: 400 })
+    }
+
+    const accounts = await claimService.searchGhostAccounts(query)
+
+    return NextResponse.json({
+      success: true,
+      data: accounts
+    })
+
+  } catch (error) {
+    console.error('Error searching ghost accounts:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to search accounts'
+      }
+    }, { status: 500 })
+  }
+}
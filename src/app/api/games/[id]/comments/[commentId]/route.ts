@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ZodError } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { ApplicationError } from '@/lib/errors'
+import { UpdateCommentSchema } from '@/lib/validationSchemas'
+import { commentService } from '@/lib/services/commentService'
+
+function handleCommentError(error: unknown, fallbackMessage: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request data',
+        details: error.issues
+      }
+    }, { status: 400 })
+  }
+
+  if (error instanceof ApplicationError) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message
+      }
+    }, { status: error.statusCode })
+  }
+
+  console.error(`${fallbackMessage}:`, error)
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'SERVER_ERROR',
+      message: fallbackMessage
+    }
+  }, { status: 500 })
+}
+
+function unauthorized() {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'Please sign in first'
+    }
+  }, { status: 401 })
+}
+
+// PATCH /api/games/[id]/comments/[commentId] - Edit own comment
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return unauthorized()
+    }
+
+    const { id: matchId, commentId } = await params
+    const body = await request.json()
+    const validatedData = UpdateCommentSchema.parse(body)
+
+    const comment = await commentService.updateComment(
+      matchId,
+      commentId,
+      { id: session.user.id, isAdmin: session.user.userType === 'ADMIN' },
+      validatedData.content
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: comment
+    })
+
+  } catch (error) {
+    return handleCommentError(error, 'Failed to update comment')
+  }
+}
+
+// DELETE /api/games/[id]/comments/[commentId] - Soft-delete own comment (admins may delete any)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return unauthorized()
+    }
+
+    const { id: matchId, commentId } = await params
+
+    await commentService.deleteComment(
+      matchId,
+      commentId,
+      { id: session.user.id, isAdmin: session.user.userType === 'ADMIN' }
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: { id: commentId }
+    })
+
+  } catch (error) {
+    return handleCommentError(error, 'Failed to delete comment')
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ZodError } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { CreateCommentSchema } from '@/lib/validationSchemas'
+import { commentService } from '@/lib/services/commentService'
+
+// GET /api/games/[id]/comments - Threaded discussion for a match (public)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { id: true }
+    })
+
+    if (!match) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'MATCH_NOT_FOUND',
+          message: 'Match not found'
+        }
+      }, { status: 404 })
+    }
+
+    const comments = await commentService.getMatchComments(matchId)
+
+    return NextResponse.json({
+      success: true,
+      data: comments
+    })
+
+  } catch (error) {
+    console.error('Error fetching comments:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch comments'
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/games/[id]/comments - Post a comment or reply (signed-in players)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Please sign in to comment'
+        }
+      }, { status: 401 })
+    }
+
+    const { id: matchId } = await params
+    const body = await request.json()
+    const validatedData = CreateCommentSchema.parse(body)
+
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { id: true }
+    })
+
+    if (!match) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'MATCH_NOT_FOUND',
+          message: 'Match not found'
+        }
+      }, { status: 404 })
+    }
+
+    const comment = await commentService.createComment(matchId, session.user.id, validatedData)
+
+    return NextResponse.json({
+      success: true,
+      data: comment
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error creating comment:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to create comment'
+      }
+    }, { status: 500 })
+  }
+}
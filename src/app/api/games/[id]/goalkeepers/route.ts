@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse } from '@/lib/apiResponse'
+import { ApplicationError } from '@/lib/errors'
+import { playerMetricsService } from '@/lib/services/playerMetricsService'
+
+// GET /api/games/[id]/goalkeepers - Goalkeeping figures of everyone who kept goal in a match (public)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+    const goalkeepers = await playerMetricsService.getMatchGoalkeepers(matchId)
+
+    return successResponse(goalkeepers)
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return errorResponse(error.message, error.code, error.statusCode)
+    }
+
+    console.error('Error fetching goalkeepers:', error)
+    return errorResponse('Failed to fetch goalkeepers')
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse } from '@/lib/apiResponse'
+import { ApplicationError } from '@/lib/errors'
+import { lineupService } from '@/lib/services/lineupService'
+
+// GET /api/games/[id]/lineup - Formation, starting line-up and substitutions of a match (public)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+    const lineup = await lineupService.getLineup(matchId)
+
+    return successResponse(lineup)
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return errorResponse(error.message, error.code, error.statusCode)
+    }
+
+    console.error('Error fetching lineup:', error)
+    return errorResponse('Failed to fetch lineup')
+  }
+}
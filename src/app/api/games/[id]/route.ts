@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { calculateCoefficient } from '@/lib/utils/coefficient'
+import { toMatchFormat } from '@/lib/utils/matchFormat'
 import { ApiResponse } from '@/lib/apiResponse'
+import { commentService } from '@/lib/services/commentService'
+import { videoService } from '@/lib/services/videoService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { seasonService } from '@/lib/services/seasonService'
+import { opponentService } from '@/lib/services/opponentService'
+import { notificationService } from '@/lib/services/notificationService'
+import { treasuryService } from '@/lib/services/treasuryService'
 import { buildCacheKey, CACHE_TAGS, deleteCacheByPrefixes, deleteCacheKeys, getCachedJson, invalidateCacheTags, setCachedJson } from '@/lib/cache'
 
 const roundFee = (value: number) => Math.round(value)
@@ -76,7 +84,8 @@ export async function GET(
     const coefficient = calculateCoefficient(
       Number(match.fieldFeeTotal),
       Number(match.waterFeeTotal),
-      totalPlayTime
+      totalPlayTime,
+      toMatchFormat(match)
     )
 
     const totalCalculatedFees = roundFee(
@@ -133,12 +142,22 @@ export async function PUT(
         : body.waterFeeTotal
     }
 
+    const existingMatch = await prisma.match.findUnique({
+      where: { id }
+    })
+
     const updatedMatch = await prisma.match.update({
       where: {
         id,
       },
       data: {
         ...roundedBody,
+        ...(roundedBody.matchDate && {
+          seasonId: await seasonService.findSeasonIdForDate(new Date(roundedBody.matchDate))
+        }),
+        ...(roundedBody.opponentTeam && {
+          opponentId: await opponentService.resolveOpponentId(roundedBody.opponentTeam)
+        }),
         updatedAt: new Date(),
       },
       include: {
@@ -151,6 +170,18 @@ export async function PUT(
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCHES,
+      recordId: id,
+      actionType: 'UPDATE',
+      oldValues: existingMatch,
+      newValues: updatedMatch
+    })
+
+    if (existingMatch) {
+      void notificationService.notifyMatchChanged(existingMatch, updatedMatch)
+    }
+
     const cacheTasks = [
       invalidateCacheTags([
         CACHE_TAGS.MATCHES,
@@ -194,7 +225,18 @@ export async function DELETE(
   try {
     const { id } = await params
     matchId = id
+    const matchBefore = await prisma.match.findUnique({
+      where: { id }
+    })
+
+    // Collect comment images and video files before the rows go away so storage can be cleaned up
+    const commentImages = await commentService.getMatchCommentImages(id)
+    const videoFiles = await videoService.getMatchVideoFiles(id)
+
     await prisma.$transaction(async (tx) => {
+      // Payments are kept for the players' ledgers; the treasury keeps the match's money as entries
+      await treasuryService.bookDeletedMatch(id, tx)
+
       await tx.comment.deleteMany({
         where: { matchId: id, parentCommentId: { not: null } }
       })
@@ -228,6 +270,18 @@ export async function DELETE(
       })
     })
 
+    await commentService.removeImages(commentImages)
+    await videoService.removeFiles(videoFiles)
+
+    if (matchBefore) {
+      await auditService.log(await getAuditContext(request), {
+        tableName: AUDIT_TABLES.MATCHES,
+        recordId: id,
+        actionType: 'DELETE',
+        oldValues: matchBefore
+      })
+    }
+
     const cacheTasks = [
       invalidateCacheTags([
         CACHE_TAGS.MATCHES,
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ZodError } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { RsvpSchema } from '@/lib/validationSchemas'
+import { rsvpService } from '@/lib/services/rsvpService'
+
+// GET /api/games/[id]/rsvps - Availability counts and answers for a match (public)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { id: true }
+    })
+
+    if (!match) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'MATCH_NOT_FOUND',
+          message: 'Match not found'
+        }
+      }, { status: 404 })
+    }
+
+    const summary = await rsvpService.getMatchRsvps(matchId)
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    })
+
+  } catch (error) {
+    console.error('Error fetching RSVPs:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch RSVPs'
+      }
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/games/[id]/rsvps - Set the signed-in player's yes/no/maybe answer
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Please sign in to respond'
+        }
+      }, { status: 401 })
+    }
+
+    const { id: matchId } = await params
+    const body = await request.json()
+    const { response, note } = RsvpSchema.parse(body)
+
+    const rsvp = await rsvpService.respond(matchId, session.user.id, response, note)
+
+    return NextResponse.json({
+      success: true,
+      data: rsvp
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error saving RSVP:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to save RSVP'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse } from '@/lib/apiResponse'
+import { ApplicationError } from '@/lib/errors'
+import { teamBalancerService } from '@/lib/services/teamBalancerService'
+
+// GET /api/games/[id]/teams - Sides of an intra-squad game with goals and assists per side (public)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+    const teams = await teamBalancerService.getTeams(matchId)
+
+    return successResponse(teams)
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return errorResponse(error.message, error.code, error.statusCode)
+    }
+
+    console.error('Error fetching teams:', error)
+    return errorResponse('Failed to fetch teams')
+  }
+}
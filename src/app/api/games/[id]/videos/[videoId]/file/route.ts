@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Readable } from 'stream'
+import { ApplicationError } from '@/lib/errors'
+import { videoService } from '@/lib/services/videoService'
+import { openLocalVideo } from '@/lib/videoStorage'
+
+const CONTENT_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime'
+}
+
+// Parse "bytes=start-end"; suffix and multi-range requests fall back to the full file
+function parseRange(header: string | null): { start: number; end?: number } | undefined {
+  const match = header?.match(/^bytes=(\d+)-(\d*)$/)
+  if (!match) return undefined
+  return {
+    start: Number(match[1]),
+    end: match[2] ? Number(match[2]) : undefined
+  }
+}
+
+// GET /api/games/[id]/videos/[videoId]/file - Stream a locally stored video (public, supports Range)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; videoId: string }> }
+) {
+  try {
+    const { id: matchId, videoId } = await params
+    const video = await videoService.getVideo(matchId, videoId)
+
+    if (video.storageType === 'S3') {
+      if (!video.cdnUrl) {
+        return NextResponse.json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Video has no public URL'
+          }
+        }, { status: 404 })
+      }
+      return NextResponse.redirect(video.cdnUrl)
+    }
+
+    const range = parseRange(request.headers.get('range'))
+    const { stream, size, start, end } = await openLocalVideo(video.filePath, range)
+
+    if (!stream) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${size}` }
+      })
+    }
+
+    const extension = video.filePath.split('.').pop()?.toLowerCase() || 'mp4'
+    const headers: Record<string, string> = {
+      'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'public, max-age=3600'
+    }
+
+    if (range) {
+      headers['Content-Range'] = `bytes ${start}-${end}/${size}`
+    }
+
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+      status: range ? 206 : 200,
+      headers
+    })
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Video file is missing'
+        }
+      }, { status: 404 })
+    }
+
+    console.error('Error streaming video:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to stream video'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ApplicationError } from '@/lib/errors'
+import { videoService } from '@/lib/services/videoService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+// DELETE /api/games/[id]/videos/[videoId] - Remove a video and its stored file (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; videoId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || session.user.userType !== 'ADMIN') {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Only admins can manage match videos'
+        }
+      }, { status: 403 })
+    }
+
+    const { id: matchId, videoId } = await params
+
+    const deleted = await videoService.deleteVideo(matchId, videoId)
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.VIDEOS,
+      recordId: matchId,
+      actionType: 'DELETE',
+      oldValues: deleted
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Video deleted successfully'
+    })
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error deleting video:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to delete video'
+      }
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ZodError } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { RegisterVideoSchema, UploadVideoSchema } from '@/lib/validationSchemas'
+import { videoService } from '@/lib/services/videoService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+
+function matchNotFound() {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'MATCH_NOT_FOUND',
+      message: 'Match not found'
+    }
+  }, { status: 404 })
+}
+
+// GET /api/games/[id]/videos - Video library for a match (public)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: matchId } = await params
+
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { id: true }
+    })
+
+    if (!match) {
+      return matchNotFound()
+    }
+
+    const videos = await videoService.getMatchVideos(matchId)
+
+    return NextResponse.json({
+      success: true,
+      data: videos
+    })
+
+  } catch (error) {
+    console.error('Error fetching videos:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch videos'
+      }
+    }, { status: 500 })
+  }
+}
+
+// POST /api/games/[id]/videos - Upload a video (multipart) or register an existing one (JSON), admin only
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || session.user.userType !== 'ADMIN') {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Only admins can manage match videos'
+        }
+      }, { status: 403 })
+    }
+
+    const { id: matchId } = await params
+
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { id: true }
+    })
+
+    if (!match) {
+      return matchNotFound()
+    }
+
+    const contentType = request.headers.get('content-type') || ''
+    let video
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+
+      if (!(file instanceof File)) {
+        return NextResponse.json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'No file provided'
+          }
+        }, { status: 400 })
+      }
+
+      const metadata = UploadVideoSchema.parse({
+        title: formData.get('title'),
+        description: formData.get('description') || null,
+        storageType: formData.get('storageType') || undefined,
+        durationSeconds: formData.get('durationSeconds') || null,
+        thumbnailUrl: formData.get('thumbnailUrl') || null
+      })
+
+      try {
+        video = await videoService.uploadVideo(matchId, file, metadata, session.user.id)
+      } catch (error) {
+        if (error instanceof Error && (error.message.includes('视频大小') || error.message.includes('只支持'))) {
+          return NextResponse.json({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: error.message
+            }
+          }, { status: 400 })
+        }
+        throw error
+      }
+    } else {
+      const body = await request.json()
+      const validatedData = RegisterVideoSchema.parse(body)
+      video = await videoService.registerVideo(matchId, validatedData, session.user.id)
+    }
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.VIDEOS,
+      recordId: matchId,
+      actionType: 'CREATE',
+      newValues: video
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: video
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error saving video:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to save video'
+      }
+    }, { status: 500 })
+  }
+}
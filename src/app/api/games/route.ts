@@ -2,11 +2,18 @@ import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { WhereClause } from '@/types/common'
 import { z } from 'zod'
+import { seasonService } from '@/lib/services/seasonService'
+import { opponentService } from '@/lib/services/opponentService'
+import { notificationService } from '@/lib/services/notificationService'
 import { globalSettingsService } from '@/lib/services/globalSettingsService'
+import { feePolicyService } from '@/lib/services/feePolicyService'
+import { MatchFormatSchema } from '@/lib/validationSchemas'
+import { toMatchFormat } from '@/lib/utils/matchFormat'
 import { ApiResponse } from '@/lib/apiResponse'
 import { buildCacheKey, CACHE_TAGS, deleteCacheByPrefixes, deleteCacheKeys, getCachedJson, invalidateCacheTags, setCachedJson } from '@/lib/cache'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 
 const roundFee = (value: number) => Math.round(value)
 
@@ -21,6 +28,10 @@ const createMatchSchema = z.object({
   fieldFeeTotal: z.number().min(0).default(0),
   waterFeeTotal: z.number().min(0).default(0),
   notes: z.string().nullable().optional(),
+  // Optional match format; omitted fields fall back to the global default
+  sectionCount: MatchFormatSchema.shape.sectionCount.optional(),
+  partsPerSection: MatchFormatSchema.shape.partsPerSection.optional(),
+  partMinutes: MatchFormatSchema.shape.partMinutes.optional(),
   // Backward-compatible: client may send it, but server will use authenticated user id.
   createdBy: z.string().min(1).optional()
 })
@@ -245,13 +256,19 @@ export async function POST(request: Request) {
     const { participations, events, ...matchData } = body
 
     const validatedMatchData = createMatchSchema.parse(matchData)
-    const roundedFieldFeeTotal = validatedMatchData.fieldFeeTotal
-    const roundedWaterFeeTotal = validatedMatchData.waterFeeTotal
 
-    // Read global base fee rates before creating match (outside transaction)
-    const { baseVideoFeeRate, baseLateFeeRate } = await globalSettingsService.getBaseFeeRates()
-    const roundedLateFeeRate = baseLateFeeRate
-    const roundedVideoFeeRate = baseVideoFeeRate
+    // Read season defaults (falling back to global base fee rates) before creating match (outside transaction)
+    const seasonDefaults = await seasonService.getMatchDefaults(new Date(validatedMatchData.matchDate))
+    const roundedFieldFeeTotal = matchData.fieldFeeTotal === undefined && seasonDefaults.fieldFeeTotal !== null
+      ? seasonDefaults.fieldFeeTotal
+      : validatedMatchData.fieldFeeTotal
+    const roundedWaterFeeTotal = matchData.waterFeeTotal === undefined && seasonDefaults.waterFeeTotal !== null
+      ? seasonDefaults.waterFeeTotal
+      : validatedMatchData.waterFeeTotal
+    const roundedLateFeeRate = seasonDefaults.lateFeeRate
+    const roundedVideoFeeRate = seasonDefaults.videoFeePerUnit
+    const format = toMatchFormat(validatedMatchData, await globalSettingsService.getDefaultMatchFormat())
+    const feePolicyId = await feePolicyService.findPolicyIdForDate(new Date(validatedMatchData.matchDate))
 
     // Create match with participations in a transaction with timeout
     const match = await prisma.$transaction(async (tx) => {
@@ -261,6 +278,7 @@ export async function POST(request: Request) {
           matchDate: new Date(validatedMatchData.matchDate),
           matchTime: validatedMatchData.matchTime ? new Date(validatedMatchData.matchTime) : null,
           opponentTeam: validatedMatchData.opponentTeam,
+          opponentId: await opponentService.resolveOpponentId(validatedMatchData.opponentTeam, tx),
           ourScore: validatedMatchData.ourScore,
           opponentScore: validatedMatchData.opponentScore,
           matchResult: validatedMatchData.matchResult,
@@ -268,6 +286,9 @@ export async function POST(request: Request) {
           waterFeeTotal: roundedWaterFeeTotal,
           lateFeeRate: roundedLateFeeRate,
           videoFeePerUnit: roundedVideoFeeRate,
+          seasonId: seasonDefaults.seasonId,
+          feePolicyId,
+          ...format,
           notes: validatedMatchData.notes,
           createdBy: creatorId
         }
@@ -343,6 +364,15 @@ export async function POST(request: Request) {
       timeout: 10000 // 10 seconds max transaction time
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCHES,
+      recordId: match.id,
+      actionType: 'CREATE',
+      newValues: match
+    })
+
+    void notificationService.notifyMatchCreated(match.id)
+
     // Fetch complete match data
     const completeMatch = await prisma.match.findUnique({
       where: { id: match.id },
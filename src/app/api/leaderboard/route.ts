@@ -1,15 +1,28 @@
 import { NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { WhereClause, LeaderboardPlayerStats, LeaderboardPlayer } from '@/types/common'
 import { ApiResponse } from '@/lib/apiResponse'
 import { buildCacheKey, CACHE_TAGS, getCachedJson, setCachedJson } from '@/lib/cache'
+import { playerMetricsService } from '@/lib/services/playerMetricsService'
+
+const leaderboardPlayerSelect = {
+  id: true,
+  name: true,
+  email: true,
+  avatarUrl: true,
+  position: true,
+  jerseyNumber: true,
+  playerStatus: true
+} as const
 
 // Validation schema
 const leaderboardQuerySchema = z.object({
-  type: z.enum(['goals', 'assists', 'yellow_cards', 'red_cards', 'penalty_goals', 'penalty_misses', 'own_goals', 'saves']).default('goals'),
+  type: z.enum(['goals', 'assists', 'yellow_cards', 'red_cards', 'penalty_goals', 'penalty_misses', 'own_goals', 'saves', 'goalkeepers']).default('goals'),
   year: z.string().optional(),
   month: z.string().optional(),
+  season: z.string().optional(),
   limit: z.string().optional()
 })
 
@@ -21,6 +34,7 @@ export async function GET(request: Request) {
       type: searchParams.get('type') || 'goals',
       year: searchParams.get('year') || undefined,
       month: searchParams.get('month') || undefined,
+      season: searchParams.get('season') || undefined,
       limit: searchParams.get('limit') || undefined
     })
 
@@ -42,7 +56,28 @@ export async function GET(request: Request) {
       }
     }
 
-    if (query.month) {
+    // Season archives replace the calendar range entirely
+    const season = query.season
+      ? await prisma.season.findUnique({
+          where: { id: query.season },
+          select: { id: true, name: true }
+        })
+      : null
+
+    if (query.season && !season) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Season not found'
+        }
+      }, { status: 404 })
+    }
+
+    if (season) {
+      delete dateFilter.matchDate
+      dateFilter.seasonId = season.id
+    } else if (query.month) {
       const month = parseInt(query.month)
       dateFilter.matchDate = {
         gte: new Date(`${targetYear}-${month.toString().padStart(2, '0')}-01`),
@@ -50,6 +85,10 @@ export async function GET(request: Request) {
       }
     }
 
+    const period = season
+      ? season.name
+      : query.month ? `${targetYear}-${query.month.padStart(2, '0')}` : targetYear.toString()
+
     const eventTypes = ['GOAL', 'PENALTY_GOAL', 'ASSIST', 'YELLOW_CARD', 'RED_CARD', 'PENALTY_MISS', 'OWN_GOAL', 'SAVE'] as const
 
     // Get all events for the period with player info (exclude deleted users)
@@ -64,15 +103,7 @@ export async function GET(request: Request) {
       },
       include: {
         player: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatarUrl: true,
-            position: true,
-            jerseyNumber: true,
-            playerStatus: true
-          }
+          select: leaderboardPlayerSelect
         },
         match: {
           select: {
@@ -98,25 +129,7 @@ export async function GET(request: Request) {
       if (!player) return;
 
       if (!playerStats[playerId]) {
-        playerStats[playerId] = {
-          id: playerId,
-          name: player.name,
-          email: player.email,
-          avatarUrl: player.avatarUrl,
-          position: player.position,
-          jerseyNumber: player.jerseyNumber,
-          playerStatus: player.playerStatus,
-          goals: 0,
-          assists: 0,
-          yellowCards: 0,
-          redCards: 0,
-          penaltyGoals: 0,
-          penaltyMisses: 0,
-          ownGoals: 0,
-          saves: 0,
-          matches: new Set(),
-          lastMatchDate: null
-        }
+        playerStats[playerId] = createPlayerStats(player)
       }
 
       // Update stats based on event type
@@ -156,13 +169,44 @@ export async function GET(request: Request) {
       }
     })
 
+    // Time in goal comes from attendance, so keepers rank even without any events
+    if (query.type === 'goalkeepers') {
+      const metrics = await playerMetricsService.getMetricsByPlayer(dateFilter as Prisma.MatchWhereInput)
+      const keeperIds = Array.from(metrics.keys()).filter(id => metrics.get(id)!.partsInGoal > 0)
+
+      const keepers = await prisma.user.findMany({
+        where: {
+          id: { in: keeperIds.filter(id => !playerStats[id]) },
+          deletedAt: null,
+          playerStatus: { not: 'TRIAL' }
+        },
+        select: leaderboardPlayerSelect
+      })
+      keepers.forEach(player => {
+        playerStats[player.id] = createPlayerStats(player)
+      })
+
+      keeperIds.forEach(id => {
+        const stats = playerStats[id]
+        const keeper = metrics.get(id)!
+        if (!stats) return
+
+        stats.partsInGoal = keeper.partsInGoal
+        stats.goalsConceded = keeper.goalsConcededInGoal
+        stats.savePercentage = keeper.savePercentage
+        stats.cleanSheets = keeper.cleanSheets
+        stats.cleanSheetSections = keeper.cleanSheetSections
+      })
+    }
+
     const playerIds = Object.keys(playerStats)
     if (playerIds.length === 0) {
       const payload: ApiResponse = {
         success: true,
         data: {
           type: query.type,
-          period: query.month ? `${targetYear}-${query.month.padStart(2, '0')}` : targetYear.toString(),
+          period,
+          season,
           players: [],
           totalPlayers: 0
         }
@@ -222,6 +266,7 @@ export async function GET(request: Request) {
         if (query.type === 'penalty_misses') return player.penaltyMisses > 0
         if (query.type === 'own_goals') return player.ownGoals > 0
         if (query.type === 'saves') return player.saves > 0
+        if (query.type === 'goalkeepers') return (player.partsInGoal ?? 0) > 0
         return false
       })
       .map((player: LeaderboardPlayerStats) => ({
@@ -249,6 +294,15 @@ export async function GET(request: Request) {
             aValue = a.ownGoals; bValue = b.ownGoals; break
           case 'saves':
             aValue = a.saves; bValue = b.saves; break
+          case 'goalkeepers':
+            aValue = a.cleanSheetSections ?? 0; bValue = b.cleanSheetSections ?? 0; break
+        }
+
+        // Keepers level on clean-sheet sections split by save percentage, then time in goal
+        if (query.type === 'goalkeepers' && bValue === aValue) {
+          const bySavePercentage = (b.savePercentage ?? -1) - (a.savePercentage ?? -1)
+          if (bySavePercentage !== 0) return bySavePercentage
+          return (b.partsInGoal ?? 0) - (a.partsInGoal ?? 0)
         }
 
         if (bValue === aValue) {
@@ -278,6 +332,13 @@ export async function GET(request: Request) {
       penaltyMisses: player.penaltyMisses,
       ownGoals: player.ownGoals,
       saves: player.saves,
+      ...(query.type === 'goalkeepers' && {
+        partsInGoal: player.partsInGoal,
+        goalsConceded: player.goalsConceded,
+        savePercentage: player.savePercentage,
+        cleanSheets: player.cleanSheets,
+        cleanSheetSections: player.cleanSheetSections
+      }),
       matchesPlayed: player.matchesPlayed,
       lastMatchDate: player.lastMatchDate
     }))
@@ -286,7 +347,8 @@ export async function GET(request: Request) {
       success: true,
       data: {
         type: query.type,
-        period: query.month ? `${targetYear}-${query.month.padStart(2, '0')}` : targetYear.toString(),
+        period,
+        season,
         players: rankedPlayers,
         totalPlayers: rankedPlayers.length
       }
@@ -323,6 +385,31 @@ export async function GET(request: Request) {
   }
 }
 
+// Helper function to start a player's stats at zero
+function createPlayerStats(
+  player: Prisma.UserGetPayload<{ select: typeof leaderboardPlayerSelect }>
+): LeaderboardPlayerStats {
+  return {
+    id: player.id,
+    name: player.name,
+    email: player.email,
+    avatarUrl: player.avatarUrl,
+    position: player.position,
+    jerseyNumber: player.jerseyNumber,
+    playerStatus: player.playerStatus,
+    goals: 0,
+    assists: 0,
+    yellowCards: 0,
+    redCards: 0,
+    penaltyGoals: 0,
+    penaltyMisses: 0,
+    ownGoals: 0,
+    saves: 0,
+    matches: new Set(),
+    lastMatchDate: null
+  }
+}
+
 // Helper function to generate player abbreviations
 function generateAbbreviation(name: string): string {
   if (!name) return 'UK'
@@ -2,6 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
 import { ApiResponse, successResponse, errorResponse, validationError, notFoundError } from '@/lib/apiResponse'
 import { IdParamSchema, UpdateMatchSchema, validateRequest } from '@/lib/validationSchemas'
+import { commentService } from '@/lib/services/commentService'
+import { videoService } from '@/lib/services/videoService'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { seasonService } from '@/lib/services/seasonService'
+import { opponentService } from '@/lib/services/opponentService'
+import { notificationService } from '@/lib/services/notificationService'
+import { treasuryService } from '@/lib/services/treasuryService'
 import { buildCacheKey, CACHE_TAGS, getCachedJson, invalidateCacheTags, setCachedJson } from '@/lib/cache'
 
 const prisma = new PrismaClient()
@@ -134,6 +141,12 @@ export async function PUT(
       where: { id },
       data: {
         ...roundedUpdateData,
+        ...(roundedUpdateData.matchDate && {
+          seasonId: await seasonService.findSeasonIdForDate(new Date(roundedUpdateData.matchDate))
+        }),
+        ...(roundedUpdateData.opponentTeam && {
+          opponentId: await opponentService.resolveOpponentId(roundedUpdateData.opponentTeam)
+        }),
         matchResult
       },
       select: {
@@ -157,6 +170,16 @@ export async function PUT(
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCHES,
+      recordId: id,
+      actionType: 'UPDATE',
+      oldValues: existingMatch,
+      newValues: updatedMatch
+    })
+
+    void notificationService.notifyMatchChanged(existingMatch, updatedMatch)
+
     void invalidateCacheTags([
       CACHE_TAGS.MATCHES,
       CACHE_TAGS.GAMES,
@@ -197,7 +220,14 @@ export async function DELETE(
       return notFoundError('Match not found')
     }
 
+    // Collect comment images and video files before the rows go away so storage can be cleaned up
+    const commentImages = await commentService.getMatchCommentImages(id)
+    const videoFiles = await videoService.getMatchVideoFiles(id)
+
     await prisma.$transaction(async (tx) => {
+      // Payments are kept for the players' ledgers; the treasury keeps the match's money as entries
+      await treasuryService.bookDeletedMatch(id, tx)
+
       await tx.comment.deleteMany({
         where: { matchId: id, parentCommentId: { not: null } }
       })
@@ -231,6 +261,16 @@ export async function DELETE(
       })
     })
 
+    await commentService.removeImages(commentImages)
+    await videoService.removeFiles(videoFiles)
+
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCHES,
+      recordId: id,
+      actionType: 'DELETE',
+      oldValues: existingMatch
+    })
+
     await invalidateCacheTags([
       CACHE_TAGS.MATCHES,
       CACHE_TAGS.GAMES,
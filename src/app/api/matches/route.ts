@@ -3,6 +3,13 @@ import { PrismaClient, MatchResult } from '@prisma/client'
 import { ApiResponse, successResponse, errorResponse, validationError } from '@/lib/apiResponse'
 import { CreateMatchSchema, PaginationSchema, validateRequest } from '@/lib/validationSchemas'
 import { buildCacheKey, CACHE_TAGS, deleteCacheByPrefixes, deleteCacheKeys, getCachedJson, invalidateCacheTags, setCachedJson } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
+import { seasonService } from '@/lib/services/seasonService'
+import { opponentService } from '@/lib/services/opponentService'
+import { notificationService } from '@/lib/services/notificationService'
+import { globalSettingsService } from '@/lib/services/globalSettingsService'
+import { feePolicyService } from '@/lib/services/feePolicyService'
+import { toMatchFormat } from '@/lib/utils/matchFormat'
 
 const prisma = new PrismaClient()
 const roundFee = (value: number) => Math.round(value)
@@ -100,11 +107,20 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Create match
+    // Create match in the season covering its date, using the default format for any omitted format fields
+    // and the fee policy in force on that date
+    const { seasonId } = await seasonService.getMatchDefaults(new Date(matchData.matchDate))
+    const feePolicyId = await feePolicyService.findPolicyIdForDate(new Date(matchData.matchDate))
+    const format = toMatchFormat(matchData, await globalSettingsService.getDefaultMatchFormat())
+    const opponentId = await opponentService.resolveOpponentId(matchData.opponentTeam)
     const match = await prisma.match.create({
       data: {
         ...matchData,
-        matchResult
+        ...format,
+        matchResult,
+        seasonId,
+        feePolicyId,
+        opponentId
       },
       select: {
         id: true,
@@ -116,12 +132,24 @@ export async function POST(request: NextRequest) {
         matchResult: true,
         fieldFeeTotal: true,
         waterFeeTotal: true,
+        sectionCount: true,
+        partsPerSection: true,
+        partMinutes: true,
         notes: true,
         createdAt: true,
         updatedAt: true
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.MATCHES,
+      recordId: match.id,
+      actionType: 'CREATE',
+      newValues: match
+    })
+
+    void notificationService.notifyMatchCreated(match.id)
+
     const cacheTasks = [
       invalidateCacheTags([
         CACHE_TAGS.MATCHES,
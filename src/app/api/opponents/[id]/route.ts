@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse } from '@/lib/apiResponse'
+import { ApplicationError } from '@/lib/errors'
+import { opponentService } from '@/lib/services/opponentService'
+
+// GET /api/opponents/[id] - Head-to-head record, goals and top scorers against an opponent
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const headToHead = await opponentService.getHeadToHead(id)
+
+    return successResponse(headToHead)
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return errorResponse(error.message, error.code, error.statusCode)
+    }
+
+    console.error('Error fetching head-to-head:', error)
+    return errorResponse('Failed to fetch head-to-head record')
+  }
+}
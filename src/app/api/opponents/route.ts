@@ -0,0 +1,15 @@
+import { successResponse, errorResponse } from '@/lib/apiResponse'
+import { opponentService } from '@/lib/services/opponentService'
+
+// GET /api/opponents - Registered opponents (most played first) with their aliases
+export async function GET() {
+  try {
+    const opponents = await opponentService.getOpponents()
+
+    return successResponse(opponents)
+
+  } catch (error) {
+    console.error('Error fetching opponents:', error)
+    return errorResponse('Failed to fetch opponents')
+  }
+}
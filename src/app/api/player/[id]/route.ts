@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { Prisma } from '@prisma/client'
 import { z } from 'zod'
+import { countPartnerships } from '@/lib/utils/assistLinks'
+import { playerMetricsService } from '@/lib/services/playerMetricsService'
 
 // Validation schema
 const playerQuerySchema = z.object({
-  year: z.string().optional()
+  year: z.string().optional(),
+  season: z.string().optional()
 })
 
 // GET /api/player/[id] - Get individual player data and statistics
@@ -15,7 +19,8 @@ export async function GET(
   try {
     const { searchParams } = new URL(request.url)
     const query = playerQuerySchema.parse({
-      year: searchParams.get('year') || undefined
+      year: searchParams.get('year') || undefined,
+      season: searchParams.get('season') || undefined
     })
 
     const { id: playerId } = await params
@@ -47,14 +52,33 @@ export async function GET(
       }, { status: 404 })
     }
 
-    // Build date filter for matches
-    const dateFilter = {
-      matchDate: {
-        gte: new Date(`${targetYear}-01-01`),
-        lte: new Date(`${targetYear}-12-31`)
-      }
+    const season = query.season
+      ? await prisma.season.findUnique({
+          where: { id: query.season },
+          select: { id: true, name: true }
+        })
+      : null
+
+    if (query.season && !season) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Season not found'
+        }
+      }, { status: 404 })
     }
 
+    // Build date filter for matches; a season replaces the calendar year
+    const dateFilter: Prisma.MatchWhereInput = season
+      ? { seasonId: season.id }
+      : {
+          matchDate: {
+            gte: new Date(`${targetYear}-01-01`),
+            lte: new Date(`${targetYear}-12-31`)
+          }
+        }
+
     // Get player statistics for the year
     const playerEvents = await prisma.matchEvent.findMany({
       where: {
@@ -105,6 +129,26 @@ export async function GET(
       }
     })
 
+    // Paired goals this player scored or set up, for the goal-partnership table
+    const pairedAssists = await prisma.matchEvent.findMany({
+      where: {
+        eventType: 'ASSIST',
+        goalEventId: { not: null },
+        match: dateFilter,
+        OR: [
+          { playerId },
+          { goal: { is: { playerId } } }
+        ]
+      },
+      select: {
+        player: { select: { id: true, name: true } },
+        goal: { select: { player: { select: { id: true, name: true } } } }
+      }
+    })
+    const partnerships = countPartnerships(
+      pairedAssists.flatMap(assist => assist.goal ? [{ scorer: assist.goal.player, assister: assist.player }] : [])
+    )
+
     // Calculate statistics
     let goals = 0
     let assists = 0
@@ -128,6 +172,9 @@ export async function GET(
 
     const appearances = participations.length
 
+    // Per-90 rates, plus/minus, clean sheets and the form trend for the period
+    const metrics = await playerMetricsService.getPlayerMetrics(playerId, dateFilter)
+
     // Get latest match details
     const latestMatch = participations.length > 0 ? participations[0] : null
     let latestMatchInfo = null
@@ -163,10 +210,13 @@ export async function GET(
           goals,
           assists,
           appearances,
-          year: targetYear
+          year: targetYear,
+          season
         },
         latestMatch: latestMatchInfo,
         recentEvents: matchEvents.slice(0, 5), // Last 5 events
+        partnerships,
+        metrics,
         attendanceHistory: participations.map(p => ({
           matchId: p.match.id,
           matchDate: p.match.matchDate,
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 
 // Validation schema for updating user
 const updateUserSchema = z.object({
@@ -75,6 +76,14 @@ export async function PUT(
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.USERS,
+      recordId: id,
+      actionType: 'UPDATE',
+      oldValues: existingUser,
+      newValues: updatedUser
+    })
+
     await invalidateCacheTags([
       CACHE_TAGS.PLAYERS,
       CACHE_TAGS.USERS,
@@ -138,6 +147,13 @@ export async function DELETE(
       where: { id }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.USERS,
+      recordId: id,
+      actionType: 'DELETE',
+      oldValues: existingUser
+    })
+
     await invalidateCacheTags([
       CACHE_TAGS.PLAYERS,
       CACHE_TAGS.USERS,
@@ -4,6 +4,7 @@ import { Prisma } from '@prisma/client'
 import { z } from 'zod'
 import { ApiResponse } from '@/lib/apiResponse'
 import { buildCacheKey, CACHE_TAGS, getCachedJson, invalidateCacheTags, setCachedJson } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 
 // Validation schemas
 const createUserSchema = z.object({
@@ -253,6 +254,13 @@ export async function POST(request: Request) {
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.USERS,
+      recordId: user.id,
+      actionType: 'CREATE',
+      newValues: user
+    })
+
     await invalidateCacheTags([
       CACHE_TAGS.PLAYERS,
       CACHE_TAGS.USERS,
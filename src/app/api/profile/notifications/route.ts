@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ZodError } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { ApplicationError } from '@/lib/errors'
+import { NotificationPreferencesSchema } from '@/lib/validationSchemas'
+import { notificationService } from '@/lib/services/notificationService'
+
+const unauthorized = () => NextResponse.json({
+  success: false,
+  error: {
+    code: 'UNAUTHORIZED',
+    message: 'Unauthorized'
+  }
+}, { status: 401 })
+
+// GET /api/profile/notifications - Email categories the signed-in user opted out of
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return unauthorized()
+    }
+
+    const preferences = await notificationService.getPreferences(session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: preferences
+    })
+
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      }, { status: error.statusCode })
+    }
+
+    console.error('Error fetching notification preferences:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to fetch notification preferences'
+      }
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/profile/notifications - Replace the signed-in user's opted-out categories
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return unauthorized()
+    }
+
+    const body = await request.json()
+    const { optOuts } = NotificationPreferencesSchema.parse(body)
+
+    const preferences = await notificationService.updatePreferences(session.user.id, optOuts)
+
+    return NextResponse.json({
+      success: true,
+      data: preferences
+    })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.issues
+        }
+      }, { status: 400 })
+    }
+
+    console.error('Error updating notification preferences:', error)
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to update notification preferences'
+      }
+    }, { status: 500 })
+  }
+}
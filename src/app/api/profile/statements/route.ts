@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { errorResponse, unauthorizedError, validationError } from '@/lib/apiResponse'
+import { StatementQuerySchema, validateRequest } from '@/lib/validationSchemas'
+import { statementService } from '@/lib/services/statementService'
+import { toStatementResponse } from '@/lib/statementExport'
+
+// GET /api/profile/statements - The signed-in user's monthly fee statement, as JSON, printable HTML or XLSX
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return unauthorizedError()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const queryValidation = validateRequest(StatementQuerySchema, {
+      month: searchParams.get('month') || undefined,
+      format: searchParams.get('format') || undefined
+    })
+
+    if (!queryValidation.success) {
+      return validationError(queryValidation.error, queryValidation.details)
+    }
+
+    const { month, format } = queryValidation.data
+    const statement = await statementService.getMonthlyStatement(month, session.user.id)
+
+    return toStatementResponse(statement, format, '我的费用账单')
+
+  } catch (error) {
+    console.error('Error fetching statement:', error)
+    return errorResponse('Failed to fetch statement')
+  }
+}
@@ -0,0 +1,15 @@
+import { successResponse, errorResponse } from '@/lib/apiResponse'
+import { seasonService } from '@/lib/services/seasonService'
+
+// GET /api/seasons - All seasons (newest first) for stats filters and archives
+export async function GET() {
+  try {
+    const seasons = await seasonService.getSeasons()
+
+    return successResponse(seasons)
+
+  } catch (error) {
+    console.error('Error fetching seasons:', error)
+    return errorResponse('Failed to fetch seasons')
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Prisma, PrismaClient } from '@prisma/client'
-import { ApiResponse, errorResponse, validationError } from '@/lib/apiResponse'
+import { ApiResponse, errorResponse, notFoundError, validationError } from '@/lib/apiResponse'
 import { StatsQuerySchema, validateRequest } from '@/lib/validationSchemas'
 import { buildCacheKey, CACHE_TAGS, getCachedJson, setCachedJson } from '@/lib/cache'
 
@@ -13,27 +13,40 @@ export async function GET(request: NextRequest) {
     const validation = validateRequest(StatsQuerySchema, {
       type: searchParams.get('type'),
       year: searchParams.get('year'),
-      month: searchParams.get('month')
+      month: searchParams.get('month'),
+      season: searchParams.get('season')
     })
 
     if (!validation.success) {
       return validationError(validation.error, validation.details)
     }
 
-    const { type, year, month } = validation.data
+    const { type, year, month, season: seasonId } = validation.data
     const cacheKey = buildCacheKey(new URL(request.url))
     const cached = await getCachedJson<ApiResponse>(cacheKey)
     if (cached) {
       return NextResponse.json(cached)
     }
 
+    const season = seasonId
+      ? await prisma.season.findUnique({ where: { id: seasonId }, select: { id: true, name: true } })
+      : null
+    if (seasonId && !season) {
+      return notFoundError('Season not found')
+    }
+
+    const period = season
+      ? season.name
+      : `${year || 'All'}${month ? `-${month.toString().padStart(2, '0')}` : ''}`
+
     if (type === 'player') {
-      const playerStats = await getPlayerStatistics(year, month)
+      const playerStats = await getPlayerStatistics(year, month, seasonId)
       const payload: ApiResponse = {
         success: true,
         data: {
           type: 'player',
-          period: `${year || 'All'}${month ? `-${month.toString().padStart(2, '0')}` : ''}`,
+          period,
+          season,
           players: playerStats
         }
       }
@@ -46,12 +59,13 @@ export async function GET(request: NextRequest) {
 
       return NextResponse.json(payload)
     } else {
-      const teamStats = await getTeamStatistics(year, month)
+      const teamStats = await getTeamStatistics(year, month, seasonId)
       const payload: ApiResponse = {
         success: true,
         data: {
           type: 'team',
-          period: `${year || 'All'}${month ? `-${month.toString().padStart(2, '0')}` : ''}`,
+          period,
+          season,
           ...teamStats
         }
       }
@@ -70,10 +84,12 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function getPlayerStatistics(year?: number, month?: number) {
-  // Build date filter
+async function getPlayerStatistics(year?: number, month?: number, seasonId?: string) {
+  // Build date filter; a season replaces the calendar range
   const dateFilter: Prisma.MatchWhereInput = {}
-  if (year) {
+  if (seasonId) {
+    dateFilter.seasonId = seasonId
+  } else if (year) {
     const startDate = new Date(year, month ? month - 1 : 0, 1)
     const endDate = month 
       ? new Date(year, month, 0, 23, 59, 59) 
@@ -135,10 +151,12 @@ async function getPlayerStatistics(year?: number, month?: number) {
   }))
 }
 
-async function getTeamStatistics(year?: number, month?: number) {
-  // Build date filter
+async function getTeamStatistics(year?: number, month?: number, seasonId?: string) {
+  // Build date filter; a season replaces the calendar range
   const dateFilter: Prisma.MatchWhereInput = {}
-  if (year) {
+  if (seasonId) {
+    dateFilter.seasonId = seasonId
+  } else if (year) {
     const startDate = new Date(year, month ? month - 1 : 0, 1)
     const endDate = month 
       ? new Date(year, month, 0, 23, 59, 59) 
@@ -1,14 +1,18 @@
 import { NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 import { APIResponse, WhereClause, PlayerStats } from '@/types/common'
 import { handleApiError } from '@/lib/errors'
 import { buildCacheKey, CACHE_TAGS, getCachedJson, setCachedJson } from '@/lib/cache'
+import { seasonService, type SeasonSummary } from '@/lib/services/seasonService'
+import { playerMetricsService } from '@/lib/services/playerMetricsService'
 
 // Validation schema
 const statsQuerySchema = z.object({
   year: z.string().optional(),
   month: z.string().optional(),
+  season: z.string().optional(),
   type: z.enum(['team', 'player', 'monthly', 'yearly']).default('team')
 })
 
@@ -19,6 +23,7 @@ export async function GET(request: Request) {
     const query = statsQuerySchema.parse({
       year: searchParams.get('year') || undefined,
       month: searchParams.get('month') || undefined,
+      season: searchParams.get('season') || undefined,
       type: searchParams.get('type') || undefined
     })
 
@@ -30,20 +35,22 @@ export async function GET(request: Request) {
 
     const currentYear = new Date().getFullYear()
     const targetYear = query.year ? parseInt(query.year) : currentYear
+    // A season replaces the calendar year/month range
+    const season = query.season ? await seasonService.getSeason(query.season) : undefined
 
     let data: APIResponse['data']
 
     switch (query.type) {
       case 'team':
-        data = await getTeamStatistics(targetYear, query.month ? parseInt(query.month) : undefined)
+        data = await getTeamStatistics(targetYear, query.month ? parseInt(query.month) : undefined, season)
         break
       
       case 'player':
-        data = await getPlayerStatistics(targetYear, query.month ? parseInt(query.month) : undefined)
+        data = await getPlayerStatistics(targetYear, query.month ? parseInt(query.month) : undefined, season)
         break
       
       case 'monthly':
-        data = await getMonthlyBreakdown(targetYear)
+        data = season ? await getSeasonMonthlyBreakdown(season) : await getMonthlyBreakdown(targetYear)
         break
       
       case 'yearly':
@@ -51,7 +58,7 @@ export async function GET(request: Request) {
         break
       
       default:
-        data = await getTeamStatistics(targetYear)
+        data = await getTeamStatistics(targetYear, undefined, season)
         break
     }
 
@@ -72,7 +79,12 @@ export async function GET(request: Request) {
   }
 }
 
-async function getTeamStatistics(year: number, month?: number) {
+function periodLabel(year: number, month?: number, season?: SeasonSummary) {
+  if (season) return season.name
+  return month ? `${year}-${month.toString().padStart(2, '0')}` : year.toString()
+}
+
+async function getTeamStatistics(year: number, month?: number, season?: SeasonSummary) {
   const dateFilter: WhereClause = {
     matchDate: {
       gte: new Date(`${year}-01-01`),
@@ -80,7 +92,10 @@ async function getTeamStatistics(year: number, month?: number) {
     }
   }
 
-  if (month) {
+  if (season) {
+    delete dateFilter.matchDate
+    dateFilter.seasonId = season.id
+  } else if (month) {
     dateFilter.matchDate = {
       gte: new Date(`${year}-${month.toString().padStart(2, '0')}-01`),
       lte: new Date(year, month, 0) // Last day of month (month is 1-indexed, constructor expects 0-indexed)
@@ -157,7 +172,7 @@ async function getTeamStatistics(year: number, month?: number) {
   const totalRedCards = allEvents.filter(e => e.eventType === 'RED_CARD').length
 
   return {
-    period: month ? `${year}-${month.toString().padStart(2, '0')}` : year.toString(),
+    period: periodLabel(year, month, season),
     totalMatches,
     wins,
     draws,
@@ -175,7 +190,7 @@ async function getTeamStatistics(year: number, month?: number) {
   }
 }
 
-async function getPlayerStatistics(year: number, month?: number) {
+async function getPlayerStatistics(year: number, month?: number, season?: SeasonSummary) {
   const dateFilter: WhereClause = {
     match: {
       matchDate: {
@@ -194,7 +209,20 @@ async function getPlayerStatistics(year: number, month?: number) {
     }
   }
 
-  if (month) {
+  if (season) {
+    dateFilter.match = {
+      seasonId: season.id,
+      OR: [
+        { matchResult: { not: null } },
+        { 
+          AND: [
+            { ourScore: { not: null } },
+            { opponentScore: { not: null } }
+          ]
+        }
+      ]
+    }
+  } else if (month) {
     dateFilter.match = {
       matchDate: {
         gte: new Date(`${year}-${month.toString().padStart(2, '0')}-01`),
@@ -349,81 +377,116 @@ async function getPlayerStatistics(year: number, month?: number) {
     }
   })
 
+  // Per-90 rates, plus/minus, clean sheets and form from attendance parts and timed goals
+  const metrics = await playerMetricsService.getMetricsByPlayer(
+    dateFilter.match as Prisma.MatchWhereInput,
+    Object.keys(playerStats)
+  )
+  Object.values(playerStats).forEach(player => {
+    const playerMetrics = metrics.get(player.id)
+    player.goalsPer90 = playerMetrics?.goalsPer90 ?? 0
+    player.assistsPer90 = playerMetrics?.assistsPer90 ?? 0
+    player.plusMinus = playerMetrics?.plusMinus ?? 0
+    player.cleanSheets = playerMetrics?.cleanSheets ?? 0
+    player.form = playerMetrics?.form ?? null
+  })
+
   const sortedPlayers = Object.values(playerStats).sort((a: PlayerStats, b: PlayerStats) => b.goals - a.goals)
 
   return {
-    period: month ? `${year}-${month.toString().padStart(2, '0')}` : year.toString(),
+    period: periodLabel(year, month, season),
     players: sortedPlayers
   }
 }
 
+async function getMonthStatistics(year: number, month: number, seasonId?: string) {
+  const startDate = new Date(`${year}-${month.toString().padStart(2, '0')}-01`)
+  const endDate = new Date(year, month, 0)
+
+  const matches = await prisma.match.findMany({
+    where: {
+      ...(seasonId && { seasonId }),
+      matchDate: {
+        gte: startDate,
+        lte: endDate
+      },
+      OR: [
+        { matchResult: { not: null } },
+        {
+          AND: [
+            { ourScore: { not: null } },
+            { opponentScore: { not: null } }
+          ]
+        }
+      ]
+    }
+  })
+
+  const totalMatches = matches.length
+  const wins = matches.filter(m => {
+    if (m.matchResult === 'WIN') return true
+    if (m.matchResult === null && m.ourScore !== null && m.opponentScore !== null) {
+      return m.ourScore > m.opponentScore
+    }
+    return false
+  }).length
+
+  const draws = matches.filter(m => {
+    if (m.matchResult === 'DRAW') return true
+    if (m.matchResult === null && m.ourScore !== null && m.opponentScore !== null) {
+      return m.ourScore === m.opponentScore
+    }
+    return false
+  }).length
+
+  const losses = matches.filter(m => {
+    if (m.matchResult === 'LOSE') return true
+    if (m.matchResult === null && m.ourScore !== null && m.opponentScore !== null) {
+      return m.ourScore < m.opponentScore
+    }
+    return false
+  }).length
+  const goalsFor = matches.reduce((sum, m) => sum + (m.ourScore || 0), 0)
+  const goalsAgainst = matches.reduce((sum, m) => sum + (m.opponentScore || 0), 0)
+
+  return {
+    year,
+    month,
+    totalMatches,
+    wins,
+    draws,
+    losses,
+    goalsFor,
+    goalsAgainst,
+    winRate: totalMatches > 0 ? (wins / totalMatches * 100).toFixed(1) : '0.0'
+  }
+}
+
 async function getMonthlyBreakdown(year: number) {
   const monthlyStats = []
 
   for (let month = 1; month <= 12; month++) {
-    const startDate = new Date(`${year}-${month.toString().padStart(2, '0')}-01`)
-    const endDate = new Date(year, month, 0)
+    monthlyStats.push(await getMonthStatistics(year, month))
+  }
 
-    const matches = await prisma.match.findMany({
-      where: {
-        matchDate: {
-          gte: startDate,
-          lte: endDate
-        },
-        OR: [
-          { matchResult: { not: null } },
-          { 
-            AND: [
-              { ourScore: { not: null } },
-              { opponentScore: { not: null } }
-            ]
-          }
-        ]
-      }
-    })
+  return {
+    year,
+    months: monthlyStats
+  }
+}
 
-    const totalMatches = matches.length
-    const wins = matches.filter(m => {
-      if (m.matchResult === 'WIN') return true
-      if (m.matchResult === null && m.ourScore !== null && m.opponentScore !== null) {
-        return m.ourScore > m.opponentScore
-      }
-      return false
-    }).length
-    
-    const draws = matches.filter(m => {
-      if (m.matchResult === 'DRAW') return true
-      if (m.matchResult === null && m.ourScore !== null && m.opponentScore !== null) {
-        return m.ourScore === m.opponentScore
-      }
-      return false
-    }).length
-    
-    const losses = matches.filter(m => {
-      if (m.matchResult === 'LOSE') return true
-      if (m.matchResult === null && m.ourScore !== null && m.opponentScore !== null) {
-        return m.ourScore < m.opponentScore
-      }
-      return false
-    }).length
-    const goalsFor = matches.reduce((sum, m) => sum + (m.ourScore || 0), 0)
-    const goalsAgainst = matches.reduce((sum, m) => sum + (m.opponentScore || 0), 0)
+// Seasons can span calendar years, so walk every month between start and end
+async function getSeasonMonthlyBreakdown(season: SeasonSummary) {
+  const monthlyStats = []
+  const cursor = new Date(season.startDate.getFullYear(), season.startDate.getMonth(), 1)
 
-    monthlyStats.push({
-      year,
-      month,
-      totalMatches,
-      wins,
-      draws,
-      losses,
-      goalsFor,
-      goalsAgainst,
-      winRate: totalMatches > 0 ? (wins / totalMatches * 100).toFixed(1) : '0.0'
-    })
+  while (cursor <= season.endDate) {
+    monthlyStats.push(await getMonthStatistics(cursor.getFullYear(), cursor.getMonth() + 1, season.id))
+    cursor.setMonth(cursor.getMonth() + 1)
   }
 
   return {
-    year,
+    season: { id: season.id, name: season.name },
     months: monthlyStats
   }
 }
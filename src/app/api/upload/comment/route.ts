@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ZodError } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { uploadFile } from '@/lib/aws'
+import { ApplicationError } from '@/lib/errors'
+import { DeleteCommentImageSchema } from '@/lib/validationSchemas'
+import { commentService } from '@/lib/services/commentService'
+
+// POST /api/upload/comment - Upload one image to attach to a comment
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'No file provided' },
+        { status: 400 }
+      )
+    }
+
+    // Type and size are validated against UPLOAD_CONFIG.comment
+    const { url, fileKey } = await uploadFile(file, session.user.id, 'comment')
+
+    return NextResponse.json({
+      success: true,
+      data: { url, fileKey }
+    })
+
+  } catch (error) {
+    console.error('Comment image upload error:', error)
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message.includes('文件大小') || error.message.includes('只支持')
+            ? error.message
+            : '图片上传失败，请稍后重试'
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: '服务器错误，请稍后重试' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/upload/comment - Discard an uploaded image before it is posted
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { url } = DeleteCommentImageSchema.parse(body)
+
+    await commentService.discardUpload(session.user.id, url)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid image URL' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ApplicationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Comment image deletion error:', error)
+    return NextResponse.json(
+      { success: false, error: '删除图片失败，请稍后重试' },
+      { status: 500 }
+    )
+  }
+}
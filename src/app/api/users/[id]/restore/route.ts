@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client'
 import { successResponse, errorResponse, validationError, notFoundError } from '@/lib/apiResponse'
 import { IdParamSchema, RestoreUserSchema, validateRequest } from '@/lib/validationSchemas'
 import { CACHE_TAGS, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 
 const prisma = new PrismaClient()
 
@@ -76,6 +77,14 @@ export async function POST(
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.USERS,
+      recordId: id,
+      actionType: 'UPDATE',
+      oldValues: existingUser,
+      newValues: restoredUser
+    })
+
     await invalidateCacheTags([
       CACHE_TAGS.USERS,
       CACHE_TAGS.PLAYERS,
@@ -3,6 +3,7 @@ import { Prisma, PrismaClient } from '@prisma/client'
 import { ApiResponse, successResponse, errorResponse, validationError, notFoundError } from '@/lib/apiResponse'
 import { IdParamSchema, UpdateUserSchema, DeleteUserSchema, RestoreUserSchema, validateRequest } from '@/lib/validationSchemas'
 import { buildCacheKey, CACHE_TAGS, getCachedJson, invalidateCacheTags, setCachedJson } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 
 const prisma = new PrismaClient()
 
@@ -155,6 +156,14 @@ export async function PUT(
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.USERS,
+      recordId: id,
+      actionType: 'UPDATE',
+      oldValues: existingUser,
+      newValues: updatedUser
+    })
+
     await invalidateCacheTags([
       CACHE_TAGS.USERS,
       CACHE_TAGS.PLAYERS,
@@ -216,12 +225,14 @@ export async function DELETE(
       return errorResponse('User is already deleted')
     }
 
+    const auditContext = await getAuditContext(request)
+
     // Soft delete user
     const deletedUser = await prisma.user.update({
       where: { id },
       data: {
         deletedAt: new Date(),
-        deletedBy: 'SYSTEM', // TODO: Replace with actual admin user ID when auth is implemented
+        deletedBy: auditContext?.userId ?? 'SYSTEM',
         deletionReason: deletionReason || null
       },
       select: {
@@ -233,6 +244,14 @@ export async function DELETE(
       }
     })
 
+    await auditService.log(auditContext, {
+      tableName: AUDIT_TABLES.USERS,
+      recordId: id,
+      actionType: 'DELETE',
+      oldValues: existingUser,
+      newValues: deletedUser
+    })
+
     await invalidateCacheTags([
       CACHE_TAGS.USERS,
       CACHE_TAGS.PLAYERS,
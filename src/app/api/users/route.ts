@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client'
 import { ApiResponse, successResponse, errorResponse, validationError } from '@/lib/apiResponse'
 import { CreateUserSchema, PaginationSchema, validateRequest } from '@/lib/validationSchemas'
 import { buildCacheKey, CACHE_TAGS, getCachedJson, setCachedJson, invalidateCacheTags } from '@/lib/cache'
+import { AUDIT_TABLES, auditService, getAuditContext } from '@/lib/services/auditService'
 
 const prisma = new PrismaClient()
 
@@ -135,6 +136,13 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await auditService.log(await getAuditContext(request), {
+      tableName: AUDIT_TABLES.USERS,
+      recordId: user.id,
+      actionType: 'CREATE',
+      newValues: user
+    })
+
     await invalidateCacheTags([
       CACHE_TAGS.USERS,
       CACHE_TAGS.PLAYERS,
@@ -9,6 +9,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import GuestSignupBanner from "@/components/custom/GuestSignupBanner";
+import MatchComments from "@/components/custom/MatchComments";
+import MatchVideos from "@/components/custom/MatchVideos";
+import MatchRsvp from "@/components/custom/MatchRsvp";
+import OpponentHeadToHead from "@/components/custom/OpponentHeadToHead";
+import MatchLineup from "@/components/custom/MatchLineup";
+import MatchTeams from "@/components/custom/MatchTeams";
 import { 
   ArrowLeft, 
   Calendar,
@@ -24,15 +30,20 @@ import {
   AlertCircle
 } from "lucide-react";
 import { toast } from "sonner";
+import { getSectionLabel, toMatchFormat, type MatchFormat } from "@/lib/utils/matchFormat";
 
 interface MatchData {
   id: string;
   matchDate: string;
   opponentTeam: string;
+  opponentId?: string | null;
   ourScore?: number | null;
   opponentScore?: number | null;
   fieldFeeTotal: number;
   waterFeeTotal: number;
+  sectionCount?: number;
+  partsPerSection?: number;
+  partMinutes?: number;
   notes?: string;
   participations: MatchParticipation[];
   events: MatchEvent[];
@@ -71,9 +82,7 @@ interface MatchEvent {
 interface Player {
   id: string;
   name: string;
-  section1: (number | string)[];
-  section2: (number | string)[];
-  section3: (number | string)[];
+  sections: (number | string)[][];
   total: number;
   fieldFee: number;
   isLate: boolean;
@@ -140,10 +149,10 @@ export default function GameDetailsPage() {
         // Transform participation data
         if (matchInfo.participations?.length > 0) {
           const players: Player[] = matchInfo.participations.map((participation: MatchParticipation) => {
-            const { section1, section2, section3 } = parseAttendanceData(participation.attendanceData);
+            const sections = parseAttendanceData(participation.attendanceData, toMatchFormat(matchInfo));
             
             // Check if player is goalkeeper in any section
-            const isGoalkeeper = section1.includes('守门') || section2.includes('守门') || section3.includes('守门');
+            const isGoalkeeper = sections.some(section => section.includes('守门'));
             
             // Find fee override for this player
             const playerFeeOverride = feeOverrides.find((override: FeeOverride) => override.playerId === participation.userId);
@@ -172,9 +181,7 @@ export default function GameDetailsPage() {
             return {
               id: participation.userId,
               name: participation.user.name,
-              section1,
-              section2,
-              section3,
+              sections,
               total: Number(participation.totalTime),
               fieldFee: finalFieldFee,
               isLate: participation.isLateArrival,
@@ -231,38 +238,18 @@ export default function GameDetailsPage() {
     }
   };
 
-  const parseAttendanceData = (attendanceData: AttendanceData) => {
+  const parseAttendanceData = (attendanceData: AttendanceData, format: MatchFormat) => {
     const attendance = attendanceData?.attendance || {};
     const goalkeeper = attendanceData?.goalkeeper || {};
     
-    const section1 = [];
-    const section2 = [];
-    const section3 = [];
-    
-    for (let part = 1; part <= 3; part++) {
-      // Section 1
-      if (goalkeeper['1']?.[part.toString()]) {
-        section1.push('守门');
-      } else {
-        section1.push(attendance['1']?.[part.toString()] || 0);
-      }
-      
-      // Section 2
-      if (goalkeeper['2']?.[part.toString()]) {
-        section2.push('守门');
-      } else {
-        section2.push(attendance['2']?.[part.toString()] || 0);
-      }
-      
-      // Section 3
-      if (goalkeeper['3']?.[part.toString()]) {
-        section3.push('守门');
-      } else {
-        section3.push(attendance['3']?.[part.toString()] || 0);
-      }
-    }
-    
-    return { section1, section2, section3 };
+    // One row of part values per section, "守门" where the player kept goal
+    return Array.from({ length: format.sectionCount }, (_, sectionIndex) => {
+      const section = (sectionIndex + 1).toString();
+      return Array.from({ length: format.partsPerSection }, (_, partIndex) => {
+        const part = (partIndex + 1).toString();
+        return goalkeeper[section]?.[part] ? '守门' : attendance[section]?.[part] || 0;
+      });
+    });
   };
 
   const parseVideoData = (notes: string | null): VideoRecord | null => {
@@ -384,6 +371,9 @@ export default function GameDetailsPage() {
   const matchResult = getMatchResult();
   const totalFieldCost = roundFee(Number(match.fieldFeeTotal || 0)) + roundFee(Number(match.waterFeeTotal || 0));
   const totalActualCost = gameData.reduce((sum, player) => sum + player.totalCost, 0);
+  const sectionNumbers = Array.from({ length: toMatchFormat(match).sectionCount }, (_, i) => i + 1);
+  // #, name, one column per section, status, fee, expand toggle
+  const columnCount = sectionNumbers.length + 5;
 
   return (
     <div className="container mx-auto py-8 max-w-6xl space-y-8">
@@ -435,6 +425,12 @@ export default function GameDetailsPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Attendance Table */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Line-up on a pitch, with substitutions */}
+          <MatchLineup matchId={match.id} format={toMatchFormat(match)} />
+
+          {/* Both sides of an intra-squad game */}
+          <MatchTeams matchId={match.id} />
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -452,9 +448,9 @@ export default function GameDetailsPage() {
                     <TableRow>
                       <TableHead className="w-12 min-w-12 text-center">#</TableHead>
                       <TableHead className="min-w-20">姓名</TableHead>
-                      <TableHead className="min-w-24 text-center">第一节</TableHead>
-                      <TableHead className="min-w-24 text-center">第二节</TableHead>
-                      <TableHead className="min-w-24 text-center">第三节</TableHead>
+                      {sectionNumbers.map(section => (
+                        <TableHead key={section} className="min-w-24 text-center">{getSectionLabel(section)}</TableHead>
+                      ))}
                       <TableHead className="min-w-16 text-center">状态</TableHead>
                       <TableHead className="min-w-20 text-center">费用</TableHead>
                       <TableHead className="w-8 min-w-8"></TableHead>
@@ -463,7 +459,7 @@ export default function GameDetailsPage() {
                   <TableBody>
                     {gameData.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                        <TableCell colSpan={columnCount} className="text-center text-muted-foreground py-8">
                           暂无出勤数据
                         </TableCell>
                       </TableRow>
@@ -480,15 +476,11 @@ export default function GameDetailsPage() {
                             >
                               <TableCell className="font-medium text-center">{index + 1}</TableCell>
                               <TableCell className="font-medium">{player.name}</TableCell>
-                              <TableCell className="text-center">
-                                {renderSection(player.section1)}
-                              </TableCell>
-                              <TableCell className="text-center">
-                                {renderSection(player.section2)}
-                              </TableCell>
-                              <TableCell className="text-center">
-                                {renderSection(player.section3)}
-                              </TableCell>
+                              {player.sections.map((sectionData, sectionIndex) => (
+                                <TableCell key={sectionIndex} className="text-center">
+                                  {renderSection(sectionData)}
+                                </TableCell>
+                              ))}
                               <TableCell className="text-center">
                                 <Badge className={status.color}>
                                   {status.label}
@@ -503,7 +495,7 @@ export default function GameDetailsPage() {
                             </TableRow>
                             {isExpanded && (
                               <TableRow key={`${player.id}-details`} className="bg-muted/25">
-                                <TableCell colSpan={8}>
+                                <TableCell colSpan={columnCount}>
                                   <div className="py-4 space-y-3">
                                     <h4 className="font-medium text-sm">详细费用明细</h4>
                                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -577,6 +569,17 @@ export default function GameDetailsPage() {
               </CardContent>
             </Card>
           )}
+
+          {/* Availability poll, open until the score is recorded */}
+          {(match.ourScore === null || match.opponentScore === null) && (
+            <MatchRsvp matchId={match.id} />
+          )}
+
+          {/* Video Library */}
+          <MatchVideos matchId={match.id} />
+
+          {/* Discussion */}
+          <MatchComments matchId={match.id} />
         </div>
 
         {/* Sidebar */}
@@ -617,6 +620,11 @@ export default function GameDetailsPage() {
             </CardContent>
           </Card>
 
+          {/* Record against this opponent */}
+          {match.opponentId && (
+            <OpponentHeadToHead opponentId={match.opponentId} currentMatchId={match.id} />
+          )}
+
           {/* Video Section */}
           {videoRecord && (
             <Card>
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { signIn } from "next-auth/react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -105,7 +106,9 @@ export default function LoginPage() {
           </form>
           
           <div className="mt-6 text-center text-sm text-gray-600">
-            <p>没有账号？请联系管理员创建</p>
+            <p>
+              已在球队名单中？<Link href="/register" className="text-primary hover:underline">认领您的账户</Link>
+            </p>
             <p className="mt-1">忘记密码？请联系管理员重置</p>
           </div>
         </CardContent>
@@ -11,6 +11,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { getPositionColor, getPositionLabel } from "@/lib/utils/position";
 import { Position } from "@prisma/client";
+import { type GoalPartnership } from "@/lib/utils/assistLinks";
+import { FORM_WINDOW, type PlayerMetrics } from "@/lib/utils/playerMetrics";
+import Sparkline from "@/components/custom/Sparkline";
 import {
   ArrowLeft,
   Trophy,
@@ -20,7 +23,8 @@ import {
   Phone,
   Clock,
   ChevronUp,
-  Eye
+  Eye,
+  Activity
 } from "lucide-react";
 
 interface PlayerData {
@@ -55,6 +59,8 @@ interface PlayerData {
     score: string;
     result: string;
   }>;
+  partnerships: GoalPartnership[];
+  metrics: PlayerMetrics;
   attendanceHistory: Array<{
     matchId: string;
     matchDate: string;
@@ -334,6 +340,64 @@ export default function PlayerPage() {
             </CardContent>
           </Card>
 
+          {/* Advanced Metrics */}
+          {playerData.metrics.trend.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="h-5 w-5" />
+                  进阶数据
+                </CardTitle>
+                <CardDescription>
+                  按出场时间折算，正负值为在场时的球队净胜球（仅统计有时间的进球），状态为近{FORM_WINDOW}场的表现均值
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-green-600">{playerData.metrics.goalsPer90.toFixed(2)}</div>
+                    <div className="text-sm text-muted-foreground">每90分钟进球</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-blue-600">{playerData.metrics.assistsPer90.toFixed(2)}</div>
+                    <div className="text-sm text-muted-foreground">每90分钟助攻</div>
+                  </div>
+                  <div className="text-center">
+                    <div className={`text-2xl font-bold ${playerData.metrics.plusMinus < 0 ? "text-red-600" : "text-emerald-600"}`}>
+                      {playerData.metrics.plusMinus > 0 ? "+" : ""}{playerData.metrics.plusMinus}
+                    </div>
+                    <div className="text-sm text-muted-foreground">正负值</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-purple-600">{playerData.metrics.form?.toFixed(2) ?? "-"}</div>
+                    <div className="text-sm text-muted-foreground">状态指数</div>
+                  </div>
+                </div>
+
+                {playerData.metrics.cleanSheets > 0 && (
+                  <div className="text-sm text-muted-foreground">
+                    门将零封 <span className="font-semibold text-foreground">{playerData.metrics.cleanSheets}</span> 场
+                  </div>
+                )}
+
+                {playerData.metrics.trend.length > 1 && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 border-t pt-4">
+                    {[
+                      { label: "进球+助攻", values: playerData.metrics.trend.map(point => point.contributions), color: "text-green-600" },
+                      { label: "正负值", values: playerData.metrics.trend.map(point => point.plusMinus), color: "text-emerald-600" },
+                      { label: "状态指数", values: playerData.metrics.trend.map(point => point.form), color: "text-purple-600" }
+                    ].map(({ label, values, color }) => (
+                      <div key={label} className="space-y-1">
+                        <div className="text-sm text-muted-foreground">{label}</div>
+                        <Sparkline values={values} className={color} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* All-Time Statistics */}
           {allTimeStats && (
             <Card>
@@ -365,6 +429,48 @@ export default function PlayerPage() {
             </Card>
           )}
 
+          {/* Goal Partnerships */}
+          {playerData.partnerships.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>进球搭档</CardTitle>
+                <CardDescription>
+                  {selectedYear}年谁为TA助攻、TA为谁助攻
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>进球</TableHead>
+                        <TableHead>助攻</TableHead>
+                        <TableHead className="text-right">次数</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {playerData.partnerships.map(({ scorer, assister, goals }) => (
+                        <TableRow key={`${assister.id}-${scorer.id}`}>
+                          <TableCell className={scorer.id === playerData.id ? "font-medium" : undefined}>
+                            {scorer.id === playerData.id ? scorer.name : (
+                              <Link href={`/player/${scorer.id}`} className="hover:underline">{scorer.name}</Link>
+                            )}
+                          </TableCell>
+                          <TableCell className={assister.id === playerData.id ? "font-medium" : undefined}>
+                            {assister.id === playerData.id ? assister.name : (
+                              <Link href={`/player/${assister.id}`} className="hover:underline">{assister.name}</Link>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-bold text-green-600">{goals}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Recent Events */}
           {playerData.recentEvents.length > 0 && (
             <Card>
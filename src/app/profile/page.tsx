@@ -8,11 +8,12 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { PositionSelector } from "@/components/custom/PositionSelector";
 import AvatarUpload from "@/components/custom/AvatarUpload";
 import { getPositionColor, getPositionLabel } from "@/lib/utils/position";
 import { Position } from "@prisma/client";
-import { User, Mail, Phone, Trophy, Calendar, Save, Key } from "lucide-react";
+import { User, Mail, Phone, Trophy, Calendar, Save, Key, Bell, FileText, Printer, Download } from "lucide-react";
 import { toast } from "sonner";
 
 interface UserProfile {
@@ -41,6 +42,14 @@ interface FormData {
   introduction: string;
 }
 
+type NotificationCategory = 'MATCH_UPDATES' | 'FEE_BREAKDOWNS' | 'BALANCE_REMINDERS';
+
+const NOTIFICATION_OPTIONS: { category: NotificationCategory; label: string; description: string }[] = [
+  { category: 'MATCH_UPDATES', label: '比赛通知', description: '新比赛安排，以及比赛时间、对手变更' },
+  { category: 'FEE_BREAKDOWNS', label: '费用明细', description: '每场比赛确认后的个人费用' },
+  { category: 'BALANCE_REMINDERS', label: '欠费提醒', description: '尚未缴清的球费' }
+];
+
 interface PasswordFormData {
   currentPassword: string;
   newPassword: string;
@@ -70,10 +79,14 @@ export default function ProfilePage() {
   });
 
   const [showPasswordSection, setShowPasswordSection] = useState(false);
+  const [emailOptOuts, setEmailOptOuts] = useState<NotificationCategory[]>([]);
+  const [savingNotifications, setSavingNotifications] = useState(false);
+  const [statementMonth, setStatementMonth] = useState(() => new Date().toISOString().slice(0, 7));
 
   useEffect(() => {
     if (status === 'authenticated' && session?.user?.name) {
       fetchProfile();
+      fetchNotificationPreferences();
     } else if (status === 'unauthenticated') {
       window.location.href = '/login';
     }
@@ -106,6 +119,48 @@ export default function ProfilePage() {
     }
   };
 
+  const fetchNotificationPreferences = async () => {
+    try {
+      const response = await fetch('/api/profile/notifications');
+      const data = await response.json();
+
+      if (data.success) {
+        setEmailOptOuts(data.data.optOuts);
+      }
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+    }
+  };
+
+  const handleToggleNotification = async (category: NotificationCategory, enabled: boolean) => {
+    const optOuts = enabled
+      ? emailOptOuts.filter(c => c !== category)
+      : [...emailOptOuts, category];
+
+    setSavingNotifications(true);
+
+    try {
+      const response = await fetch('/api/profile/notifications', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ optOuts })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setEmailOptOuts(data.data.optOuts);
+        toast.success('邮件通知设置已保存');
+      } else {
+        toast.error('保存失败: ' + data.error.message);
+      }
+    } catch {
+      toast.error('保存邮件通知设置时发生错误');
+    } finally {
+      setSavingNotifications(false);
+    }
+  };
+
   const handleSaveProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profile) return;
@@ -476,6 +531,79 @@ export default function ProfilePage() {
               )}
             </CardContent>
           </Card>
+
+          {/* Email Notification Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Bell className="h-5 w-5" />
+                邮件通知
+              </CardTitle>
+              <CardDescription>
+                {profile.email
+                  ? `通知将发送到 ${profile.email}，账号相关邮件始终发送`
+                  : '尚未设置邮箱，请联系管理员添加后才能收到邮件'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {NOTIFICATION_OPTIONS.map(option => (
+                <div key={option.category} className="flex items-start space-x-3">
+                  <Checkbox
+                    id={`notify-${option.category}`}
+                    checked={!emailOptOuts.includes(option.category)}
+                    onCheckedChange={(checked) => handleToggleNotification(option.category, checked === true)}
+                    disabled={savingNotifications}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor={`notify-${option.category}`}>{option.label}</Label>
+                    <p className="text-sm text-muted-foreground">{option.description}</p>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Monthly Statement Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                月度账单
+              </CardTitle>
+              <CardDescription>
+                查看某月所有比赛的最终费用明细（场地费、视频费、迟到费）及缴费情况
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="statementMonth">月份</Label>
+                <Input
+                  id="statementMonth"
+                  type="month"
+                  value={statementMonth}
+                  onChange={(e) => setStatementMonth(e.target.value)}
+                />
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  disabled={!statementMonth}
+                  onClick={() => window.open(`/api/profile/statements?month=${statementMonth}&format=html`, '_blank')}
+                >
+                  <Printer className="h-4 w-4 mr-2" />
+                  打印账单
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={!statementMonth}
+                  onClick={() => { window.location.href = `/api/profile/statements?month=${statementMonth}&format=xlsx`; }}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  导出Excel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { claimRegistrationSchema } from "@/lib/validations/auth";
+import { CheckCircle2, Search, UserCheck } from "lucide-react";
+import { ZodError } from "zod";
+
+interface GhostAccount {
+  id: string;
+  name: string;
+  shortId: string | null;
+  jerseyNumber: number | null;
+  position: string | null;
+}
+
+export default function RegisterPage() {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<GhostAccount[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [selected, setSelected] = useState<GhostAccount | null>(null);
+  const [formData, setFormData] = useState({
+    claimantName: "",
+    email: "",
+    phone: "",
+    password: "",
+    confirmPassword: "",
+    message: ""
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    const term = query.trim();
+    if (!term) {
+      setResults([]);
+      return;
+    }
+
+    // Debounce typing before hitting the search endpoint
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const response = await fetch(`/api/claims/search?q=${encodeURIComponent(term)}`);
+        const data = await response.json();
+        setResults(data.success ? data.data : []);
+      } catch {
+        setResults([]);
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const handleSelect = (account: GhostAccount) => {
+    setSelected(account);
+    setFormData(prev => ({ ...prev, claimantName: prev.claimantName || account.name }));
+    setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    setError("");
+    if (formData.password !== formData.confirmPassword) {
+      setError("两次输入的密码不一致");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const payload = claimRegistrationSchema.parse({
+        ghostUserId: selected.id,
+        claimantName: formData.claimantName,
+        email: formData.email,
+        phone: formData.phone || undefined,
+        password: formData.password,
+        message: formData.message || undefined
+      });
+
+      const response = await fetch("/api/claims", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload)
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSubmitted(true);
+      } else {
+        setError(data.error?.message || "提交失败，请重试");
+      }
+    } catch (validationError: unknown) {
+      if (validationError instanceof ZodError) {
+        setError(validationError.issues[0]?.message || "请填写完整信息");
+      } else {
+        setError("提交过程中发生错误，请重试");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CheckCircle2 className="mx-auto h-12 w-12 text-green-600" />
+            <CardTitle className="text-2xl font-bold">申请已提交</CardTitle>
+            <CardDescription>
+              管理员审核通过后，即可使用 {formData.email} 和您设置的密码登录，
+              历史比赛、进球和出勤记录都会保留在您的账户中。
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild className="w-full">
+              <Link href="/login">返回登录</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">认领球员账户</CardTitle>
+          <CardDescription>
+            管理员已为球队名单中的球员创建了账户，找到您的名字并提交认领申请
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!selected ? (
+            <div className="space-y-3">
+              <Label htmlFor="search">搜索姓名或短ID</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="search"
+                  className="pl-9"
+                  placeholder="例如: 李东辉 或 dh"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  autoFocus
+                />
+              </div>
+
+              {searching && <p className="text-sm text-muted-foreground">搜索中...</p>}
+
+              {!searching && query.trim() && results.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  没有找到可认领的账户，请联系管理员
+                </p>
+              )}
+
+              <div className="space-y-2">
+                {results.map(account => (
+                  <button
+                    key={account.id}
+                    type="button"
+                    onClick={() => handleSelect(account)}
+                    className="w-full flex items-center justify-between rounded-lg border px-3 py-2 text-left hover:bg-muted"
+                  >
+                    <span className="font-medium">{account.name}</span>
+                    <span className="flex gap-1">
+                      {account.shortId && <Badge variant="secondary">{account.shortId}</Badge>}
+                      {account.jerseyNumber && <Badge variant="outline">#{account.jerseyNumber}</Badge>}
+                      {account.position && <Badge variant="outline">{account.position}</Badge>}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="flex items-center justify-between rounded-lg border bg-muted/40 px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <UserCheck className="h-4 w-4 text-primary" />
+                  <span className="font-medium">{selected.name}</span>
+                  {selected.jerseyNumber && <Badge variant="outline">#{selected.jerseyNumber}</Badge>}
+                </div>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setSelected(null)} disabled={isLoading}>
+                  重新选择
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="claimantName">真实姓名</Label>
+                <Input
+                  id="claimantName"
+                  value={formData.claimantName}
+                  onChange={(e) => setFormData(prev => ({ ...prev, claimantName: e.target.value }))}
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">邮箱地址（用于登录）</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="phone">手机号（可选）</Label>
+                <Input
+                  id="phone"
+                  value={formData.phone}
+                  onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password">密码</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="至少8位，含字母和数字"
+                    value={formData.password}
+                    onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                    disabled={isLoading}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">确认密码</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    value={formData.confirmPassword}
+                    onChange={(e) => setFormData(prev => ({ ...prev, confirmPassword: e.target.value }))}
+                    disabled={isLoading}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="message">给管理员的留言（可选）</Label>
+                <Textarea
+                  id="message"
+                  placeholder="例如: 我是周六场的7号"
+                  value={formData.message}
+                  onChange={(e) => setFormData(prev => ({ ...prev, message: e.target.value }))}
+                  disabled={isLoading}
+                  maxLength={500}
+                />
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "提交中..." : "提交认领申请"}
+              </Button>
+            </form>
+          )}
+
+          <div className="text-center text-sm text-gray-600">
+            已有账号？<Link href="/login" className="text-primary hover:underline">直接登录</Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
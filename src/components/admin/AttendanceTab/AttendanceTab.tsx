@@ -1,6 +1,6 @@
 'use client'
 
-import { useCallback, useEffect } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { Save } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import EnhancedAttendanceGrid from '@/components/custom/EnhancedAttendanceGrid'
@@ -23,6 +23,8 @@ import {
   useIsLoading
 } from '@/stores/useMatchStore'
 import { type MatchInfo, type Player, type AttendanceGrid as AttendanceGridType } from '@/lib/validations/match'
+import { toMatchFormat } from '@/lib/utils/matchFormat'
+import ConcededGoalsCard from './ConcededGoalsCard'
 import styles from './AttendanceTab.module.css'
 
 interface AttendanceTabProps {
@@ -44,6 +46,7 @@ export default function AttendanceTab({
   const availablePlayers = useAvailablePlayers()
   const isDirty = useIsDirty()
   const isLoading = useIsLoading()
+  const matchFormat = toMatchFormat(match)
 
   // Store actions
   const updateAttendance = useUpdateAttendance()
@@ -55,6 +58,31 @@ export default function AttendanceTab({
   const loadPlayers = useLoadPlayers()
   const getAttendanceStats = useGetAttendanceStats()
 
+  // Players who answered "yes" to the pre-match RSVP
+  const [confirmedPlayerIds, setConfirmedPlayerIds] = useState<string[]>([])
+
+  useEffect(() => {
+    if (!match?.id) return
+
+    const loadRsvps = async () => {
+      try {
+        const response = await fetch(`/api/games/${match.id}/rsvps`)
+        const data = await response.json()
+        if (data.success) {
+          setConfirmedPlayerIds(
+            data.data.responses
+              .filter((entry: { response: string }) => entry.response === 'YES')
+              .map((entry: { playerId: string }) => entry.playerId)
+          )
+        }
+      } catch (error) {
+        console.error('Error fetching RSVPs:', error)
+      }
+    }
+
+    loadRsvps()
+  }, [match?.id])
+
   // Load players when component mounts
   useEffect(() => {
     if (match?.id && availablePlayers.length === 0 && !isLoading.players) {
@@ -130,6 +158,7 @@ export default function AttendanceTab({
           onSave={handleSaveSelectedPlayers}
           isDirty={isDirty.players}
           isSaving={isLoading.saving}
+          confirmedPlayerIds={confirmedPlayerIds}
           className="mb-6"
         />
 
@@ -139,6 +168,7 @@ export default function AttendanceTab({
           attendanceData={attendanceData}
           onChange={handleAttendanceChange}
           isDirty={isDirty.attendance}
+          format={matchFormat}
           className="mb-6"
         />
 
@@ -150,7 +180,11 @@ export default function AttendanceTab({
           onRemoveEvent={removeEvent}
           attendanceData={attendanceData}
           isDirty={isDirty.attendance}
+          format={matchFormat}
         />
+
+        {/* Opponent goal timing, for plus/minus and clean sheets */}
+        <ConcededGoalsCard matchId={match.id} format={matchFormat} />
       </div>
 
       {/* Instructions */}
@@ -0,0 +1,162 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Clock, Plus, Save, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { getSectionLabel, type MatchFormat } from '@/lib/utils/matchFormat'
+import { getSectionMinutes } from '@/lib/utils/lineup'
+import { getMinuteSlot } from '@/lib/utils/playerMetrics'
+
+interface ConcededGoalsCardProps {
+  matchId: string
+  format: MatchFormat
+}
+
+interface ConcededGoalsData {
+  minutes: number[]
+  ownGoals: number
+  opponentScore: number | null
+  matchMinutes: number
+}
+
+export default function ConcededGoalsCard({ matchId, format }: ConcededGoalsCardProps) {
+  const sectionMinutes = getSectionMinutes(format)
+  const [data, setData] = useState<ConcededGoalsData | null>(null)
+  const [minutes, setMinutes] = useState<number[]>([])
+  const [section, setSection] = useState(1)
+  const [minute, setMinute] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadConcededGoals = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/matches/${matchId}/conceded-goals`)
+      const result = await response.json()
+      if (result.success) {
+        setData(result.data)
+        setMinutes(result.data.minutes)
+      }
+    } catch (error) {
+      console.error('Error fetching conceded goals:', error)
+    }
+  }, [matchId])
+
+  useEffect(() => {
+    loadConcededGoals()
+  }, [loadConcededGoals])
+
+  // Same absolute minute as the event logger: the section offset plus the minute within it
+  const handleAdd = () => {
+    const value = parseInt(minute)
+    if (isNaN(value) || value < 0 || value > sectionMinutes) return
+    setMinutes([...minutes, (section - 1) * sectionMinutes + value].sort((a, b) => a - b))
+    setMinute('')
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/admin/matches/${matchId}/conceded-goals`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minutes })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        toast.error(result.error?.message || '保存失球时间失败')
+        return
+      }
+
+      setData(result.data)
+      setMinutes(result.data.minutes)
+      toast.success('失球时间已保存')
+    } catch (error) {
+      console.error('Error saving conceded goals:', error)
+      toast.error('保存失球时间失败')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const formatMinute = (value: number) => {
+    const { section: goalSection } = getMinuteSlot(value, format)
+    return `${getSectionLabel(goalSection)} ${value - (goalSection - 1) * sectionMinutes}'`
+  }
+
+  const isDirty = data !== null && minutes.join(',') !== data.minutes.join(',')
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>失球时间</CardTitle>
+            <CardDescription>
+              记录对手每个进球的时间，用于计算球员正负值和门将零封（乌龙球已在事件中记录，无需重复）
+              {data && data.opponentScore !== null && (
+                <> · 对手得分 {data.opponentScore}，乌龙 {data.ownGoals}，已记录 {minutes.length}</>
+              )}
+            </CardDescription>
+          </div>
+          <Button onClick={handleSave} disabled={isSaving || !isDirty} className="gap-2">
+            <Save size={16} />
+            {isSaving ? '保存中...' : '保存失球'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <Select value={String(section)} onValueChange={(value) => setSection(Number(value))}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: format.sectionCount }, (_, i) => i + 1).map(value => (
+                <SelectItem key={value} value={String(value)}>{getSectionLabel(value)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="relative w-32">
+            <Clock className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="number"
+              min={0}
+              max={sectionMinutes}
+              placeholder="分"
+              className="pl-8"
+              value={minute}
+              onChange={(e) => setMinute(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handleAdd} disabled={minute === ''} className="gap-2">
+            <Plus size={16} />
+            添加
+          </Button>
+        </div>
+
+        {minutes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">暂无失球记录</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {minutes.map((value, index) => (
+              <div key={`${value}-${index}`} className="flex items-center gap-1 rounded-md border px-2 py-1 text-sm">
+                {formatMinute(value)}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => setMinutes(minutes.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,6 +5,8 @@ import { X, Upload, FileSpreadsheet, CheckCircle, AlertCircle } from 'lucide-rea
 import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import SeasonImportPanel from './SeasonImportPanel'
+import UnknownPlayerResolver, { type UnknownPlayerReport } from './UnknownPlayerResolver'
 
 interface ExcelImportSectionProps {
   isOpen: boolean
@@ -16,6 +18,7 @@ export default function ExcelImportSection({ isOpen, onClose, onImportSuccess }:
   const [uploading, setUploading] = useState(false)
   const [uploadResult, setUploadResult] = useState<any>(null)
   const [isDragging, setIsDragging] = useState(false)
+  const [pendingImport, setPendingImport] = useState<{ file: File; report: UnknownPlayerReport } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -101,9 +104,37 @@ export default function ExcelImportSection({ isOpen, onClose, onImportSuccess }:
     }
   }
 
+  // Unknown players are resolved (mapped, created or skipped) before the sheet is imported
   const handleFileUploadDirect = async (file: File) => {
     setUploading(true)
     setUploadResult(null)
+    setPendingImport(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch('/api/admin/excel/import/resolve', {
+        method: 'POST',
+        body: formData
+      })
+      const result = await response.json()
+
+      if (result.success && result.data.unresolved.length > 0) {
+        setPendingImport({ file, report: result.data })
+        setUploading(false)
+        return
+      }
+    } catch (error) {
+      console.error('Unknown player lookup error:', error)
+    }
+
+    await importFile(file)
+  }
+
+  const importFile = async (file: File) => {
+    setUploading(true)
+    setPendingImport(null)
 
     try {
       const formData = new FormData()
@@ -220,6 +251,14 @@ export default function ExcelImportSection({ isOpen, onClose, onImportSuccess }:
             </div>
           </div>
 
+          {pendingImport && (
+            <UnknownPlayerResolver
+              report={pendingImport.report}
+              onResolved={() => importFile(pendingImport.file)}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+
           {/* Upload Result Section */}
           {uploadResult && (
             <div className="space-y-4">
@@ -278,14 +317,26 @@ export default function ExcelImportSection({ isOpen, onClose, onImportSuccess }:
             </div>
           )}
 
+          {/* Season Workbook Section */}
+          <div className="border-t pt-6">
+            <h3 className="text-lg font-semibold mb-3">整季导入</h3>
+            <p className="text-muted-foreground mb-4">
+              上传包含多个工作表的工作簿，每个工作表为一场比赛。先预检每个工作表的球员匹配和日期冲突，确认后一次性全部导入。
+            </p>
+            <SeasonImportPanel onImportSuccess={onImportSuccess} />
+          </div>
+
           {/* Instructions */}
           <div className="bg-muted/50 p-4 rounded-lg">
             <h4 className="font-medium mb-2">使用说明</h4>
             <ul className="text-sm text-muted-foreground space-y-1">
               <li>• Excel文件必须包含标准的比赛数据格式</li>
               <li>• 球员必须预先在系统中创建并设置shortId</li>
-              <li>• 系统会根据shortId自动匹配球员</li>
-              <li>• 未匹配的球员数据将被跳过但会在结果中显示</li>
+              <li>• 系统会根据shortId自动匹配球员，其次按已记住的别名匹配</li>
+              <li>• 未匹配的球员会按编号、姓名和拼音首字母推荐已有球员，可选择对应球员、创建新球员或跳过</li>
+              <li>• 跳过的球员数据不会导入但会在结果中显示</li>
+              <li>• 整季导入时工作表名称需包含日期和对手，如“12月27号VS新新联”，年份在上方填写</li>
+              <li>• 整季导入要么全部成功，要么一场都不导入；当天已有比赛的工作表需先处理</li>
               <li>• 导入成功后可在下方比赛列表中查看新导入的比赛</li>
             </ul>
           </div>
@@ -0,0 +1,240 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { AlertCircle, CheckCircle, FileSpreadsheet, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import UnknownPlayerResolver, { type UnknownPlayerReport } from './UnknownPlayerResolver'
+
+interface SheetImportPlan {
+  sheetName: string
+  matchDate: string | null
+  opponentTeam: string
+  ourScore: number | null
+  opponentScore: number | null
+  fieldFeeTotal: number
+  waterFeeTotal: number
+  totalPlayers: number
+  matchedPlayers: { userId: string; name: string; shortId: string }[]
+  unknownPlayers: string[]
+  conflicts: { matchId: string; matchDate: string; opponentTeam: string }[]
+  errors: string[]
+}
+
+interface WorkbookImportPlan {
+  year: number
+  sheets: SheetImportPlan[]
+  canCommit: boolean
+  matchedPlayers: number
+  unknownPlayers: number
+}
+
+interface SeasonImportPanelProps {
+  onImportSuccess?: () => void
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('zh-CN', { timeZone: 'UTC' })
+
+export default function SeasonImportPanel({ onImportSuccess }: SeasonImportPanelProps) {
+  const [year, setYear] = useState(new Date().getFullYear().toString())
+  const [file, setFile] = useState<File | null>(null)
+  const [plan, setPlan] = useState<WorkbookImportPlan | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [committed, setCommitted] = useState(false)
+  const [unknownReport, setUnknownReport] = useState<UnknownPlayerReport | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const submit = async (selectedFile: File, commit: boolean) => {
+    setLoading(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', selectedFile)
+      formData.append('year', year)
+      formData.append('commit', commit ? 'true' : 'false')
+
+      const response = await fetch('/api/admin/excel/import/season', {
+        method: 'POST',
+        body: formData
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setPlan(result.data.plan)
+        setCommitted(result.data.committed)
+        if (result.data.committed) {
+          toast.success(`已导入 ${result.data.matches.length} 场比赛`)
+          onImportSuccess?.()
+        }
+      } else {
+        toast.error(`${commit ? '导入' : '预检'}失败: ${result.error?.message}`)
+      }
+    } catch (error) {
+      console.error('Season import error:', error)
+      toast.error('上传失败，请稍后重试')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadUnknownPlayers = async () => {
+    if (!file) return
+
+    setLoading(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch('/api/admin/excel/import/resolve', {
+        method: 'POST',
+        body: formData
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        setUnknownReport(result.data)
+      } else {
+        toast.error(`查询未匹配球员失败: ${result.error?.message}`)
+      }
+    } catch (error) {
+      console.error('Unknown player lookup error:', error)
+      toast.error('查询失败，请稍后重试')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleResolved = () => {
+    setUnknownReport(null)
+    if (file) submit(file, false)
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0]
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+    if (!selectedFile) return
+
+    setFile(selectedFile)
+    setPlan(null)
+    setCommitted(false)
+    setUnknownReport(null)
+    submit(selectedFile, false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xlsx,.xls,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+        aria-hidden="true"
+      />
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="season-import-year">比赛年份</Label>
+          <Input
+            id="season-import-year"
+            type="number"
+            className="w-32"
+            value={year}
+            onChange={(e) => setYear(e.target.value)}
+          />
+        </div>
+        <Button type="button" onClick={() => fileInputRef.current?.click()} disabled={loading}>
+          <Upload className="h-4 w-4 mr-2" />
+          {loading && !plan ? '预检中...' : '选择整季工作簿'}
+        </Button>
+        {file && (
+          <span className="flex items-center gap-1 text-sm text-muted-foreground">
+            <FileSpreadsheet className="h-4 w-4" />
+            {file.name}
+          </span>
+        )}
+      </div>
+
+      {plan && (
+        <div className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>工作表</TableHead>
+                <TableHead>日期</TableHead>
+                <TableHead>对手</TableHead>
+                <TableHead>比分</TableHead>
+                <TableHead>匹配球员</TableHead>
+                <TableHead>问题</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.sheets.map(sheet => (
+                <TableRow key={sheet.sheetName}>
+                  <TableCell className="font-medium">{sheet.sheetName}</TableCell>
+                  <TableCell className="whitespace-nowrap">{sheet.matchDate ? formatDate(sheet.matchDate) : '-'}</TableCell>
+                  <TableCell>{sheet.opponentTeam}</TableCell>
+                  <TableCell>
+                    {sheet.ourScore !== null && sheet.opponentScore !== null ? `${sheet.ourScore} : ${sheet.opponentScore}` : '-'}
+                  </TableCell>
+                  <TableCell>{sheet.matchedPlayers.length} / {sheet.totalPlayers}</TableCell>
+                  <TableCell className="space-y-1 text-sm">
+                    {sheet.errors.map(error => (
+                      <p key={error} className="text-destructive">{error}</p>
+                    ))}
+                    {sheet.conflicts.map(conflict => (
+                      <p key={conflict.matchId} className="text-destructive">
+                        当天已有比赛: {formatDate(conflict.matchDate)} vs {conflict.opponentTeam}
+                      </p>
+                    ))}
+                    {sheet.unknownPlayers.length > 0 && (
+                      <p className="text-yellow-700">未匹配(将跳过): {sheet.unknownPlayers.join(', ')}</p>
+                    )}
+                    {sheet.errors.length === 0 && sheet.conflicts.length === 0 && sheet.unknownPlayers.length === 0 && (
+                      <Badge variant="outline">可导入</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {!committed && plan.unknownPlayers > 0 && !unknownReport && (
+            <Button variant="outline" className="w-full" onClick={loadUnknownPlayers} disabled={loading}>
+              处理 {plan.unknownPlayers} 个未匹配球员
+            </Button>
+          )}
+
+          {unknownReport && (
+            <UnknownPlayerResolver
+              report={unknownReport}
+              onResolved={handleResolved}
+              onCancel={() => setUnknownReport(null)}
+            />
+          )}
+
+          {committed ? (
+            <div className="flex items-center gap-2 p-4 border border-green-200 bg-green-50 rounded-lg text-green-800">
+              <CheckCircle className="h-5 w-5" />
+              已导入全部 {plan.sheets.length} 场比赛
+            </div>
+          ) : plan.canCommit ? (
+            <Button className="w-full" onClick={() => file && submit(file, true)} disabled={loading}>
+              {loading ? '导入中...' : `确认导入全部 ${plan.sheets.length} 场比赛`}
+            </Button>
+          ) : (
+            <div className="flex items-start gap-2 p-4 border border-destructive/20 bg-destructive/5 rounded-lg text-destructive">
+              <AlertCircle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+              <p className="text-sm">存在错误或日期冲突的工作表，整个工作簿不会导入。请修正后重新选择文件。</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { useState } from 'react'
+import { UserPlus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+type MatchReason = 'SHORT_ID' | 'NAME' | 'ALIAS' | 'PINYIN'
+
+interface PlayerSuggestion {
+  userId: string
+  name: string
+  shortId: string | null
+  score: number
+  reasons: MatchReason[]
+}
+
+interface UnresolvedPlayer {
+  excelName: string
+  shortId: string
+  sheets: string[]
+  suggestions: PlayerSuggestion[]
+}
+
+export interface UnknownPlayerReport {
+  unresolved: UnresolvedPlayer[]
+  players: { id: string; name: string; shortId: string | null }[]
+}
+
+interface UnknownPlayerResolverProps {
+  report: UnknownPlayerReport
+  onResolved: () => void
+  onCancel: () => void
+}
+
+const REASON_LABELS: Record<MatchReason, string> = {
+  SHORT_ID: '编号',
+  NAME: '姓名',
+  ALIAS: '别名',
+  PINYIN: '拼音'
+}
+
+// Select values besides player ids
+const SKIP = 'none'
+const CREATE_GHOST = 'create'
+
+export default function UnknownPlayerResolver({ report, onResolved, onCancel }: UnknownPlayerResolverProps) {
+  const [choices, setChoices] = useState<Record<string, string>>(() =>
+    Object.fromEntries(report.unresolved.map(player => [player.excelName, player.suggestions[0]?.userId ?? SKIP]))
+  )
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    const resolutions = report.unresolved
+      .filter(player => choices[player.excelName] !== SKIP)
+      .map(player => choices[player.excelName] === CREATE_GHOST
+        ? { excelName: player.excelName, action: 'CREATE_GHOST' }
+        : { excelName: player.excelName, action: 'MAP', userId: choices[player.excelName] })
+
+    if (resolutions.length === 0) {
+      onResolved()
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/player-aliases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolutions })
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        toast.success(`已保存 ${result.data.aliases.length} 个球员别名`)
+        onResolved()
+      } else {
+        toast.error(`保存失败: ${result.error?.message}`)
+      }
+    } catch (error) {
+      console.error('Alias resolution error:', error)
+      toast.error('保存失败，请稍后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 p-4 border border-yellow-200 bg-yellow-50/50 rounded-lg">
+      <div>
+        <h4 className="font-medium">未匹配的球员</h4>
+        <p className="text-sm text-muted-foreground mt-1">
+          为每个名字选择对应的已有球员，或创建新球员。选择会被记住，以后的导入会自动匹配。
+        </p>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Excel 名字</TableHead>
+            <TableHead>出现的工作表</TableHead>
+            <TableHead>对应球员</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.unresolved.map(player => (
+            <TableRow key={player.excelName}>
+              <TableCell className="font-medium">
+                {player.excelName}
+                {player.shortId && <span className="ml-1 text-xs text-muted-foreground">({player.shortId})</span>}
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">{player.sheets.join(', ')}</TableCell>
+              <TableCell className="space-y-1">
+                <Select
+                  value={choices[player.excelName]}
+                  onValueChange={(value) => setChoices(prev => ({ ...prev, [player.excelName]: value }))}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SKIP}>跳过</SelectItem>
+                    <SelectItem value={CREATE_GHOST}>创建新球员</SelectItem>
+                    {player.suggestions.map(suggestion => (
+                      <SelectItem key={`suggested-${suggestion.userId}`} value={suggestion.userId}>
+                        {suggestion.name}{suggestion.shortId ? ` (${suggestion.shortId})` : ''} · 推荐
+                      </SelectItem>
+                    ))}
+                    {report.players
+                      .filter(candidate => !player.suggestions.some(s => s.userId === candidate.id))
+                      .map(candidate => (
+                        <SelectItem key={candidate.id} value={candidate.id}>
+                          {candidate.name}{candidate.shortId ? ` (${candidate.shortId})` : ''}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                {player.suggestions[0] && (
+                  <div className="flex flex-wrap gap-1">
+                    {player.suggestions[0].reasons.map(reason => (
+                      <Badge key={reason} variant="outline" className="text-xs">{REASON_LABELS[reason]}</Badge>
+                    ))}
+                    <span className="text-xs text-muted-foreground">
+                      匹配度 {Math.round(player.suggestions[0].score * 100)}%
+                    </span>
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>取消</Button>
+        <Button onClick={handleSave} disabled={saving}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          {saving ? '保存中...' : '保存并继续导入'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ArrowRight, Eye } from 'lucide-react'
+import { type FeePreview } from '@/lib/validations/match'
+
+interface FeePreviewCardProps {
+  preview: FeePreview
+}
+
+const STATUS_LABELS = {
+  ADDED: '新增',
+  REMOVED: '移除'
+} as const
+
+const formatDifference = (value: number) => `${value > 0 ? '+' : ''}¥${value}`
+
+export function FeePreviewCard({ preview }: FeePreviewCardProps) {
+  const changedPlayers = preview.players.filter(p => p.status !== 'UNCHANGED')
+  const totalDifference = preview.totalAfter - preview.totalBefore
+
+  return (
+    <Card className="border-amber-300 bg-amber-50/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="h-5 w-5" />
+          未保存修改的费用预览
+          <Badge variant={totalDifference >= 0 ? 'default' : 'destructive'}>
+            {formatDifference(totalDifference)}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          保存后收费总计将从 ¥{preview.totalBefore} 变为 ¥{preview.totalAfter}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {changedPlayers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">当前修改不会改变任何球员的费用</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {changedPlayers.map(player => (
+              <li key={player.playerId} className="flex items-center justify-between gap-4">
+                <span className="font-medium">
+                  {player.playerName}
+                  {(player.status === 'ADDED' || player.status === 'REMOVED') && (
+                    <Badge variant="outline" className="ml-2">{STATUS_LABELS[player.status]}</Badge>
+                  )}
+                </span>
+                <span className="flex items-center gap-2 tabular-nums">
+                  ¥{player.before?.totalFee ?? 0}
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  ¥{player.after?.totalFee ?? 0}
+                  <span className={player.difference > 0 ? 'text-red-600' : 'text-green-600'}>
+                    ({formatDifference(player.difference)})
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
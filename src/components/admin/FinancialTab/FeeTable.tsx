@@ -11,15 +11,42 @@ import {
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
-import { Edit2, Clock, AlertTriangle } from 'lucide-react'
-import { type PlayerFeeDisplay } from './types'
+import { Edit2, Clock, AlertTriangle, Wallet } from 'lucide-react'
+import { type PlayerFeeDisplay, type PlayerPaymentInfo } from './types'
+
+const PAYMENT_STATUS_BADGES: Record<PlayerPaymentInfo['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  PAID: { label: '已付清', variant: 'default' },
+  PARTIAL: { label: '部分付款', variant: 'secondary' },
+  UNPAID: { label: '未付款', variant: 'destructive' }
+}
+
+function PaymentStatusCell({ payment }: { payment?: PlayerPaymentInfo }) {
+  if (!payment) return null
+
+  const badge = PAYMENT_STATUS_BADGES[payment.status]
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <Badge variant={badge.variant} className="text-xs">
+        {badge.label}
+      </Badge>
+      {payment.outstanding > 0 && (
+        <span className="text-xs text-muted-foreground">欠 ¥{payment.outstanding}</span>
+      )}
+      {payment.totalOutstanding > payment.outstanding && (
+        <span className="text-xs text-red-600">累计欠 ¥{payment.totalOutstanding}</span>
+      )}
+    </div>
+  )
+}
 
 interface FeeTableProps {
   playerFees: PlayerFeeDisplay[]
   onEditPlayer: (player: PlayerFeeDisplay) => void
+  onRecordPayment: (player: PlayerFeeDisplay) => void
 }
 
-export function FeeTable({ playerFees, onEditPlayer }: FeeTableProps) {
+export function FeeTable({ playerFees, onEditPlayer, onRecordPayment }: FeeTableProps) {
   if (playerFees.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -41,6 +68,7 @@ export function FeeTable({ playerFees, onEditPlayer }: FeeTableProps) {
               <TableHead className="text-center">计算费用</TableHead>
               <TableHead className="text-center">实际费用</TableHead>
               <TableHead className="text-center">状态</TableHead>
+              <TableHead className="text-center">付款</TableHead>
               <TableHead className="text-center">备注</TableHead>
               <TableHead className="text-center">操作</TableHead>
             </TableRow>
@@ -104,6 +132,10 @@ export function FeeTable({ playerFees, onEditPlayer }: FeeTableProps) {
                   )}
                 </TableCell>
 
+                <TableCell className="text-center">
+                  <PaymentStatusCell payment={player.payment} />
+                </TableCell>
+
                 <TableCell className="text-center">
                   {player.paymentNote && (
                     <span className="text-xs text-muted-foreground truncate max-w-[100px] block">
@@ -113,16 +145,29 @@ export function FeeTable({ playerFees, onEditPlayer }: FeeTableProps) {
                 </TableCell>
 
                 <TableCell className="text-center">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      onEditPlayer(player)
-                    }}
-                  >
-                    <Edit2 className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center justify-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="收款"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onRecordPayment(player)
+                      }}
+                    >
+                      <Wallet className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onEditPlayer(player)
+                      }}
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </TableCell>
               </TableRow>
             ))}
@@ -149,16 +194,29 @@ export function FeeTable({ playerFees, onEditPlayer }: FeeTableProps) {
                     </Badge>
                   )}
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    onEditPlayer(player)
-                  }}
-                >
-                  <Edit2 className="h-4 w-4" />
-                </Button>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="收款"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onRecordPayment(player)
+                    }}
+                  >
+                    <Wallet className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onEditPlayer(player)
+                    }}
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
 
               <div className="space-y-2 text-sm">
@@ -187,6 +245,27 @@ export function FeeTable({ playerFees, onEditPlayer }: FeeTableProps) {
                   </div>
                 </div>
 
+                {player.payment && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">付款:</span>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={PAYMENT_STATUS_BADGES[player.payment.status].variant} className="text-xs">
+                        {PAYMENT_STATUS_BADGES[player.payment.status].label}
+                      </Badge>
+                      {player.payment.outstanding > 0 && (
+                        <span className="text-xs">欠 ¥{player.payment.outstanding}</span>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {player.payment && player.payment.totalOutstanding > player.payment.outstanding && (
+                  <div className="flex justify-between text-red-600">
+                    <span>累计欠款:</span>
+                    <span className="text-xs">¥{player.payment.totalOutstanding}</span>
+                  </div>
+                )}
+
                 {player.paymentNote && (
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">备注:</span>
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Separator } from '@/components/ui/separator'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Wallet, Trash2, CheckCircle2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { type PlayerFeeDisplay, type PaymentMethod, type RecordPaymentRequest } from './types'
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  WECHAT: '微信',
+  ALIPAY: '支付宝',
+  CASH: '现金',
+  BANK_TRANSFER: '银行转账',
+  OTHER: '其他'
+}
+
+interface PaymentDialogProps {
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+  player: PlayerFeeDisplay | null
+  matchId: string
+  onChange: () => Promise<void>
+}
+
+export function PaymentDialog({
+  isOpen,
+  onOpenChange,
+  player,
+  matchId,
+  onChange
+}: PaymentDialogProps) {
+  const [amount, setAmount] = useState(0)
+  const [method, setMethod] = useState<PaymentMethod>('WECHAT')
+  const [paidBy, setPaidBy] = useState('')
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  // Default the amount to whatever is still outstanding
+  useEffect(() => {
+    if (player) {
+      setAmount(player.payment?.outstanding ?? Math.round(player.displayFee))
+      setMethod('WECHAT')
+      setPaidBy('')
+      setNotes('')
+    }
+  }, [player])
+
+  const handleRecordPayment = async () => {
+    if (!player) return
+    if (amount <= 0) {
+      toast.error('付款金额必须大于0')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+
+      const body: RecordPaymentRequest = {
+        playerId: player.playerId,
+        amount,
+        method,
+        paidBy: paidBy.trim() || null,
+        notes: notes.trim() || null
+      }
+
+      const response = await fetch(`/api/admin/matches/${matchId}/payments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to record payment')
+      }
+
+      await onChange()
+      toast.success('付款已记录')
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error recording payment:', error)
+      toast.error('记录付款时发生错误')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeletePayment = async (paymentId: string) => {
+    try {
+      setDeletingId(paymentId)
+
+      const response = await fetch(`/api/admin/matches/${matchId}/payments/${paymentId}`, {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete payment')
+      }
+
+      await onChange()
+      toast.success('付款记录已删除')
+    } catch (error) {
+      console.error('Error deleting payment:', error)
+      toast.error('删除付款记录时发生错误')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  if (!player) return null
+
+  const payment = player.payment
+  const amountDue = payment?.amountDue ?? Math.round(player.displayFee)
+  const amountPaid = payment?.amountPaid ?? 0
+  const outstanding = payment?.outstanding ?? amountDue
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            收款记录 - {player.playerName}
+          </DialogTitle>
+          <DialogDescription>
+            记录本场比赛的实际付款，支持分多次付清
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">应付费用:</span>
+            <span className="font-mono">¥{amountDue}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">已付金额:</span>
+            <span className="font-mono">¥{amountPaid}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="font-medium">本场欠款:</span>
+            <span className="font-mono font-bold">¥{outstanding}</span>
+          </div>
+          {payment && payment.totalOutstanding > outstanding && (
+            <div className="flex justify-between text-red-600">
+              <span>累计欠款 ({payment.unpaidMatchCount} 场):</span>
+              <span className="font-mono">¥{payment.totalOutstanding}</span>
+            </div>
+          )}
+        </div>
+
+        {payment && payment.payments.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <Label>付款历史</Label>
+              {payment.payments.map(record => (
+                <div key={record.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-medium">¥{record.amount}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {PAYMENT_METHOD_LABELS[record.method]}
+                      </Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(record.paidAt).toLocaleDateString('zh-CN')}
+                      {record.paidBy && ` · ${record.paidBy}代付`}
+                      {record.notes && ` · ${record.notes}`}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deletingId === record.id}
+                    onClick={() => handleDeletePayment(record.id)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="paymentAmount">付款金额 (元)</Label>
+              <Input
+                id="paymentAmount"
+                type="number"
+                step="1"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(Math.round(Number(e.target.value) || 0))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>付款方式</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="paidBy">代付人</Label>
+            <Input
+              id="paidBy"
+              placeholder="由他人代付时填写姓名"
+              value={paidBy}
+              onChange={(e) => setPaidBy(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="paymentNotes">备注</Label>
+            <Textarea
+              id="paymentNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            取消
+          </Button>
+          <Button
+            onClick={handleRecordPayment}
+            disabled={isSaving || amount <= 0}
+          >
+            <CheckCircle2 className="h-4 w-4 mr-2" />
+            {isSaving ? '保存中...' : '记录付款'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,13 +5,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Separator } from '@/components/ui/separator'
 import { Badge } from '@/components/ui/badge'
-import { AlertCircle, Calculator, DollarSign } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, Calculator, DollarSign, Mail } from 'lucide-react'
+import { toast } from 'sonner'
 import { FeeSummaryCards } from './FeeSummaryCards'
 import { FeeRatesCard } from './FeeRatesCard'
 import { FeeTable } from './FeeTable'
 import { FeeEditDialog } from './FeeEditDialog'
-import { type MatchWithFeeRates, type PlayerFeeDisplay, type FeeSummaryData } from './types'
-import { type Player, type AttendanceGrid } from '@/lib/validations/match'
+import { PaymentDialog } from './PaymentDialog'
+import { FeePreviewCard } from './FeePreviewCard'
+import { type MatchWithFeeRates, type PlayerFeeDisplay, type FeeSummaryData, type PlayerPaymentInfo } from './types'
+import { type Player, type AttendanceGrid, type FeePreview } from '@/lib/validations/match'
+import { useIsDirty, usePreviewFees } from '@/stores/useMatchStore'
 
 const roundFee = (value: number) => Math.round(value)
 
@@ -26,33 +31,72 @@ export default function FinancialTab({ match, users, attendance }: FinancialTabP
   const [summaryData, setSummaryData] = useState<FeeSummaryData | null>(null)
   const [selectedPlayer, setSelectedPlayer] = useState<PlayerFeeDisplay | null>(null)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [paymentPlayerId, setPaymentPlayerId] = useState<string | null>(null)
+  const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [sendingEmail, setSendingEmail] = useState<'fees' | 'reminders' | null>(null)
+  const [preview, setPreview] = useState<FeePreview | null>(null)
+  const isDirty = useIsDirty()
+  const previewFees = usePreviewFees()
 
   // Load fee data on mount and when attendance changes
   useEffect(() => {
     loadFeeData()
   }, [match.id, attendance])
 
+  // Show what unsaved attendance/override edits would do to each player's fee
+  useEffect(() => {
+    if (!isDirty.attendance && !isDirty.fees) {
+      setPreview(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const result = await previewFees()
+      if (!cancelled) setPreview(result)
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [attendance, isDirty.attendance, isDirty.fees, previewFees])
+
   const loadFeeData = async () => {
     try {
       setIsLoading(true)
       setError(null)
 
-      // Get comprehensive fee data with overrides
-      const response = await fetch(`/api/admin/matches/${match.id}/fees`)
+      // Get comprehensive fee data with overrides and the payment ledger
+      const [response, paymentsResponse] = await Promise.all([
+        fetch(`/api/admin/matches/${match.id}/fees`),
+        fetch(`/api/admin/matches/${match.id}/payments`)
+      ])
       const data = await response.json()
 
       if (!data.success) {
         throw new Error(data.error?.message || 'Failed to load fee data')
       }
 
+      // Payments are supplementary - fees still render if the ledger fails to load
+      const paymentsData = await paymentsResponse.json().catch(() => null)
+      const paymentMap = new Map<string, PlayerPaymentInfo>(
+        paymentsData?.success
+          ? paymentsData.data.players.map((p: PlayerPaymentInfo & { playerId: string }) => [p.playerId, p])
+          : []
+      )
+
       // Process the better structured fee data
       const processedFees = processNewFeeData(
         data.data.feeBreakdown || [],
         users,
         match
-      )
+      ).map(fee => ({
+        ...fee,
+        payment: paymentMap.get(fee.playerId)
+      }))
 
       setPlayerFees(processedFees)
       setSummaryData(calculateSummaryData(processedFees, match))
@@ -140,13 +184,17 @@ export default function FinancialTab({ match, users, attendance }: FinancialTabP
     const totalCollectedFees = fees.reduce((sum, fee) => sum + fee.displayFee, 0)
     const averageFeePerPlayer = totalParticipants > 0 ? roundFee(totalCollectedFees / totalParticipants) : 0
     const profitLoss = totalCollectedFees - totalFieldCosts
+    const totalPaid = fees.reduce((sum, fee) => sum + (fee.payment?.amountPaid ?? 0), 0)
+    const totalOutstanding = fees.reduce((sum, fee) => sum + (fee.payment?.outstanding ?? 0), 0)
 
     return {
       totalParticipants,
       totalFieldCosts,
       totalCollectedFees,
       averageFeePerPlayer,
-      profitLoss
+      profitLoss,
+      totalPaid,
+      totalOutstanding
     }
   }
 
@@ -155,6 +203,11 @@ export default function FinancialTab({ match, users, attendance }: FinancialTabP
     setIsEditDialogOpen(true)
   }
 
+  const handleRecordPayment = (player: PlayerFeeDisplay) => {
+    setPaymentPlayerId(player.playerId)
+    setIsPaymentDialogOpen(true)
+  }
+
   const handleSaveOverride = async (playerId: string, overrideData: any) => {
     try {
       // Optimistically update the UI
@@ -231,6 +284,33 @@ export default function FinancialTab({ match, users, attendance }: FinancialTabP
     }
   }
 
+  // Email each participant their fees, or remind this match's players who still owe
+  const handleSendEmails = async (kind: 'fees' | 'reminders') => {
+    setSendingEmail(kind)
+    try {
+      const response = kind === 'fees'
+        ? await fetch(`/api/admin/matches/${match.id}/fees/notify`, { method: 'POST' })
+        : await fetch('/api/admin/payments/reminders', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ playerIds: playerFees.map(p => p.playerId) })
+        })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to send emails')
+      }
+
+      const { sent, skipped, failed } = data.data
+      toast.success(`已发送 ${sent} 封邮件` + (skipped ? `，${skipped} 人无邮箱或已退订` : '') + (failed ? `，${failed} 封发送失败` : ''))
+    } catch (error) {
+      console.error('Error sending emails:', error)
+      toast.error('邮件发送失败')
+    } finally {
+      setSendingEmail(null)
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="container mx-auto py-6 space-y-6">
@@ -284,6 +364,9 @@ export default function FinancialTab({ match, users, attendance }: FinancialTabP
         </CardHeader>
       </Card>
 
+      {/* Unsaved changes preview */}
+      {preview && <FeePreviewCard preview={preview} />}
+
       {/* Fee Rates Display */}
       <FeeRatesCard match={match} />
 
@@ -303,12 +386,38 @@ export default function FinancialTab({ match, users, attendance }: FinancialTabP
           </CardTitle>
           <CardDescription>
             点击行项目编辑个人费用
+            {summaryData && (
+              <span className="ml-2">
+                · 已收 ¥{summaryData.totalPaid} · 待收 ¥{summaryData.totalOutstanding}
+              </span>
+            )}
           </CardDescription>
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleSendEmails('fees')}
+              disabled={sendingEmail !== null || playerFees.length === 0}
+            >
+              <Mail className="h-4 w-4 mr-1" />
+              {sendingEmail === 'fees' ? '发送中...' : '发送费用明细'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleSendEmails('reminders')}
+              disabled={sendingEmail !== null || !summaryData || summaryData.totalOutstanding <= 0}
+            >
+              <Mail className="h-4 w-4 mr-1" />
+              {sendingEmail === 'reminders' ? '发送中...' : '提醒未缴清球员'}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <FeeTable
             playerFees={playerFees}
             onEditPlayer={handleEditPlayer}
+            onRecordPayment={handleRecordPayment}
           />
         </CardContent>
       </Card>
@@ -322,6 +431,15 @@ export default function FinancialTab({ match, users, attendance }: FinancialTabP
         onSave={handleSaveOverride}
         onReset={handleResetOverride}
       />
+
+      {/* Payment Dialog */}
+      <PaymentDialog
+        isOpen={isPaymentDialogOpen}
+        onOpenChange={setIsPaymentDialogOpen}
+        player={playerFees.find(p => p.playerId === paymentPlayerId) ?? null}
+        matchId={match.id}
+        onChange={loadFeeData}
+      />
     </div>
   )
 }
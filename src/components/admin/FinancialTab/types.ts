@@ -25,6 +25,29 @@ export interface FeeOverrideData {
   notes?: string
 }
 
+export type PaymentStatus = 'PAID' | 'PARTIAL' | 'UNPAID'
+
+export type PaymentMethod = 'WECHAT' | 'ALIPAY' | 'CASH' | 'BANK_TRANSFER' | 'OTHER'
+
+export interface PaymentRecord {
+  id: string
+  amount: number
+  method: PaymentMethod
+  paidBy: string | null
+  paidAt: string
+  notes: string | null
+}
+
+export interface PlayerPaymentInfo {
+  amountDue: number
+  amountPaid: number
+  outstanding: number
+  status: PaymentStatus
+  payments: PaymentRecord[]
+  totalOutstanding: number // Running debt across all matches
+  unpaidMatchCount: number
+}
+
 export interface PlayerFeeDisplay {
   playerId: string
   playerName: string
@@ -35,6 +58,7 @@ export interface PlayerFeeDisplay {
   hasOverride: boolean
   paymentNote?: string
   isLate: boolean
+  payment?: PlayerPaymentInfo
 }
 
 export interface FeeSummaryData {
@@ -43,6 +67,8 @@ export interface FeeSummaryData {
   totalCollectedFees: number
   averageFeePerPlayer: number
   profitLoss: number
+  totalPaid: number
+  totalOutstanding: number
 }
 
 export interface FeeEditFormData {
@@ -62,6 +88,15 @@ export interface SaveFeeOverrideRequest {
   notes?: string
 }
 
+export interface RecordPaymentRequest {
+  playerId: string
+  amount: number
+  method?: PaymentMethod
+  paidBy?: string | null
+  paidAt?: string
+  notes?: string | null
+}
+
 export interface DeleteFeeOverrideRequest {
   matchId: string
   playerId: string
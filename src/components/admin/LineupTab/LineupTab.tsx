@@ -0,0 +1,331 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Position } from '@prisma/client'
+import { Plus, Save, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PositionSelector } from '@/components/custom/PositionSelector'
+import LineupPitch from '@/components/custom/LineupPitch'
+import { useIsDirty, useLoadAttendance } from '@/stores/useMatchStore'
+import { type MatchInfo, type Player } from '@/lib/validations/match'
+import { toMatchFormat, getSectionLabel } from '@/lib/utils/matchFormat'
+import { getSectionMinutes, MAX_STARTERS, type LineupStarter } from '@/lib/utils/lineup'
+import { type LineupData } from '@/components/custom/MatchLineup'
+
+interface LineupTabProps {
+  match: MatchInfo
+  users: Player[]
+}
+
+interface SubstitutionRow {
+  section: number
+  minute: number
+  playerOutId: string
+  playerInId: string
+  position: Position | null
+}
+
+const KEEP_POSITION = 'keep'
+
+// Starters are placed at their usual position when they have one
+const defaultPosition = (player?: Player): Position =>
+  player?.position && player.position in Position ? player.position as Position : Position.CMF
+
+export default function LineupTab({ match, users }: LineupTabProps) {
+  const isDirty = useIsDirty()
+  const loadAttendance = useLoadAttendance()
+  const format = toMatchFormat(match)
+  const sectionMinutes = getSectionMinutes(format)
+
+  const [formation, setFormation] = useState('')
+  const [starters, setStarters] = useState<LineupStarter[]>([])
+  const [substitutions, setSubstitutions] = useState<SubstitutionRow[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadLineup = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${match.id}/lineup`)
+      const data = await response.json()
+      if (data.success) {
+        const lineup = data.data as LineupData
+        setFormation(lineup.formation ?? '')
+        setStarters(lineup.starters.map(({ playerId, position }) => ({ playerId, position })))
+        setSubstitutions(lineup.substitutions.map(({ section, minute, playerOutId, playerInId, position }) => ({
+          section, minute, playerOutId, playerInId, position
+        })))
+      }
+    } catch (error) {
+      console.error('Error fetching lineup:', error)
+    }
+  }, [match.id])
+
+  useEffect(() => {
+    loadLineup()
+  }, [loadLineup])
+
+  const playerName = (playerId: string) => users.find(u => u.id === playerId)?.name || '未知球员'
+  const benchPlayers = users.filter(u => !starters.some(s => s.playerId === u.id))
+
+  const addStarter = () => {
+    const player = benchPlayers[0]
+    if (!player) return
+    setStarters([...starters, { playerId: player.id, position: defaultPosition(player) }])
+  }
+
+  const updateStarter = (index: number, update: Partial<LineupStarter>) => {
+    setStarters(starters.map((starter, i) => i === index ? { ...starter, ...update } : starter))
+  }
+
+  const addSubstitution = () => {
+    const last = substitutions[substitutions.length - 1]
+    setSubstitutions([...substitutions, {
+      section: last?.section ?? 1,
+      minute: last?.minute ?? 0,
+      playerOutId: '',
+      playerInId: '',
+      position: null
+    }])
+  }
+
+  const updateSubstitution = (index: number, update: Partial<SubstitutionRow>) => {
+    setSubstitutions(substitutions.map((sub, i) => i === index ? { ...sub, ...update } : sub))
+  }
+
+  const handleSave = async () => {
+    if (substitutions.some(sub => !sub.playerOutId || !sub.playerInId)) {
+      toast.error('请为每次换人选择上场和下场球员')
+      return
+    }
+    if (isDirty.attendance && !confirm('出勤表有未保存的修改，保存阵容会按阵容重新生成出勤，是否继续？')) {
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/admin/matches/${match.id}/lineup`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          formation: formation.trim() || null,
+          starters,
+          substitutions
+        })
+      })
+      const data = await response.json()
+      if (!data.success) {
+        toast.error(data.error?.message || '保存阵容失败')
+        return
+      }
+
+      toast.success(data.data.attendanceUpdated ? '阵容已保存，出勤已按阵容更新' : '阵容已清空')
+      await loadAttendance(match.id)
+    } catch (error) {
+      console.error('Error saving lineup:', error)
+      toast.error('保存阵容失败')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const pitchPlayers = starters.map(starter => ({
+    ...starter,
+    name: playerName(starter.playerId),
+    jerseyNumber: users.find(u => u.id === starter.playerId)?.jerseyNumber
+  }))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">阵容</h3>
+          <p className="text-sm text-muted-foreground">
+            保存后会按首发和换人时间自动生成出勤表（保留迟到标记和比赛事件）
+          </p>
+        </div>
+        <Button onClick={handleSave} disabled={isSaving} className="gap-2">
+          <Save size={16} />
+          {isSaving ? '保存中...' : '保存阵容'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>首发</CardTitle>
+              <CardDescription>
+                {starters.length}/{MAX_STARTERS} 人，只能从已选球员中挑选
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="max-w-xs space-y-2">
+                <Label htmlFor="formation">阵型</Label>
+                <Input
+                  id="formation"
+                  value={formation}
+                  onChange={(e) => setFormation(e.target.value)}
+                  placeholder="如 4-3-3"
+                />
+              </div>
+
+              {starters.map((starter, index) => (
+                <div key={index} className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Select
+                      value={starter.playerId}
+                      onValueChange={(playerId) => updateStarter(index, { playerId })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="选择球员" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {users
+                          .filter(u => u.id === starter.playerId || benchPlayers.includes(u))
+                          .map(u => (
+                            <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex-1">
+                    <PositionSelector
+                      label=""
+                      value={starter.position}
+                      onValueChange={(position) => updateStarter(index, { position })}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setStarters(starters.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                onClick={addStarter}
+                disabled={starters.length >= MAX_STARTERS || benchPlayers.length === 0}
+                className="gap-2"
+              >
+                <Plus size={16} />
+                添加首发
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>换人</CardTitle>
+              <CardDescription>
+                分钟从每节开始计时（0-{sectionMinutes - 1}），节间换人记为下一节第 0 分钟
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {substitutions.map((sub, index) => (
+                <div key={index} className="grid grid-cols-2 items-end gap-2 md:grid-cols-[7rem_5rem_1fr_1fr_1fr_auto]">
+                  <Select
+                    value={String(sub.section)}
+                    onValueChange={(value) => updateSubstitution(index, { section: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: format.sectionCount }, (_, i) => i + 1).map(section => (
+                        <SelectItem key={section} value={String(section)}>{getSectionLabel(section)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={sectionMinutes - 1}
+                    value={sub.minute}
+                    onChange={(e) => updateSubstitution(index, { minute: Number(e.target.value) })}
+                  />
+                  <Select
+                    value={sub.playerOutId}
+                    onValueChange={(playerOutId) => updateSubstitution(index, { playerOutId })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="下场" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {users.map(u => (
+                        <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={sub.playerInId}
+                    onValueChange={(playerInId) => updateSubstitution(index, { playerInId })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="上场" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {users.filter(u => u.id !== sub.playerOutId).map(u => (
+                        <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={sub.position ?? KEEP_POSITION}
+                    onValueChange={(value) => updateSubstitution(index, {
+                      position: value === KEEP_POSITION ? null : value as Position
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={KEEP_POSITION}>沿用下场球员位置</SelectItem>
+                      {Object.values(Position).map(position => (
+                        <SelectItem key={position} value={position}>{position}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setSubstitutions(substitutions.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                onClick={addSubstitution}
+                disabled={starters.length === 0}
+                className="gap-2"
+              >
+                <Plus size={16} />
+                添加换人
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>首发预览</CardTitle>
+            {formation.trim() && <CardDescription>{formation.trim()}</CardDescription>}
+          </CardHeader>
+          <CardContent>
+            <LineupPitch players={pitchPlayers} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
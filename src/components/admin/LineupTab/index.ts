@@ -0,0 +1 @@
+export { default } from './LineupTab'
\ No newline at end of file
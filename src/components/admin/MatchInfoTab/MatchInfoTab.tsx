@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { MATCH_FORMAT_LIMITS, toMatchFormat } from '@/lib/utils/matchFormat'
 import styles from './MatchInfoTab.module.css'
 
 interface MatchInfoTabProps {
@@ -34,6 +35,7 @@ export default function MatchInfoTab({
     opponentScore: source.opponentScore ?? '',
     fieldFeeTotal: Math.round(Number(source.fieldFeeTotal)),
     waterFeeTotal: Math.round(Number(source.waterFeeTotal)),
+    ...toMatchFormat(source),
     notes: source.notes || '',
   }), [])
 
@@ -59,6 +61,17 @@ export default function MatchInfoTab({
       displayValue = roundedValue
     }
 
+    // Format fields are whole numbers within the supported limits
+    if (field in MATCH_FORMAT_LIMITS) {
+      const numValue = Number(value)
+      const limits = MATCH_FORMAT_LIMITS[field as keyof typeof MATCH_FORMAT_LIMITS]
+      if (!Number.isInteger(numValue) || numValue < limits.min || numValue > limits.max) {
+        return
+      }
+      processedValue = numValue
+      displayValue = numValue
+    }
+
     // Handle score fields - convert to number or null
     if (field === 'ourScore' || field === 'opponentScore') {
       if (value === '' || value === null || value === undefined) {
@@ -266,6 +279,45 @@ export default function MatchInfoTab({
           </div>
         </div>
 
+        <div className={styles.section}>
+          <h4>比赛赛制</h4>
+          <div className={styles.row}>
+            <div className={styles.field}>
+              <Label>节数</Label>
+              <Input
+                type="number"
+                min={MATCH_FORMAT_LIMITS.sectionCount.min}
+                max={MATCH_FORMAT_LIMITS.sectionCount.max}
+                step="1"
+                value={formData.sectionCount}
+                onChange={(e) => handleInputChange('sectionCount', e.target.value)}
+              />
+            </div>
+            <div className={styles.field}>
+              <Label>每节段数</Label>
+              <Input
+                type="number"
+                min={MATCH_FORMAT_LIMITS.partsPerSection.min}
+                max={MATCH_FORMAT_LIMITS.partsPerSection.max}
+                step="1"
+                value={formData.partsPerSection}
+                onChange={(e) => handleInputChange('partsPerSection', e.target.value)}
+              />
+            </div>
+            <div className={styles.field}>
+              <Label>每段时长 (分钟)</Label>
+              <Input
+                type="number"
+                min={MATCH_FORMAT_LIMITS.partMinutes.min}
+                max={MATCH_FORMAT_LIMITS.partMinutes.max}
+                step="1"
+                value={formData.partMinutes}
+                onChange={(e) => handleInputChange('partMinutes', e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
         <div className={styles.section}>
           <h4>备注</h4>
           <div className={styles.field}>
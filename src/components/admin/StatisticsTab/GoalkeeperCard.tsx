@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Shield } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+interface GoalkeeperCardProps {
+  matchId: string
+}
+
+interface MatchGoalkeeper {
+  player: { id: string; name: string }
+  partsInGoal: number
+  goalsConceded: number
+  saves: number
+  savePercentage: number | null
+  cleanSheet: boolean
+  cleanSheetSections: number
+}
+
+export default function GoalkeeperCard({ matchId }: GoalkeeperCardProps) {
+  const [goalkeepers, setGoalkeepers] = useState<MatchGoalkeeper[] | null>(null)
+
+  useEffect(() => {
+    const loadGoalkeepers = async () => {
+      try {
+        const response = await fetch(`/api/games/${matchId}/goalkeepers`)
+        const result = await response.json()
+        if (result.success) {
+          setGoalkeepers(result.data)
+        }
+      } catch (error) {
+        console.error('Error fetching goalkeepers:', error)
+      }
+    }
+
+    loadGoalkeepers()
+  }, [matchId])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          门将统计
+        </CardTitle>
+        <CardDescription>
+          基于已保存的门将出勤、扑救事件和失球时间；未记录时间的失球只计入全场守门的门将
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {goalkeepers === null ? (
+          <p className="text-sm text-muted-foreground">加载中...</p>
+        ) : goalkeepers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">暂无门将出勤记录</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>门将</TableHead>
+                <TableHead className="text-center">门将节数</TableHead>
+                <TableHead className="text-center">失球</TableHead>
+                <TableHead className="text-center">扑救</TableHead>
+                <TableHead className="text-center">扑救率</TableHead>
+                <TableHead className="text-center">零封节数</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {goalkeepers.map(keeper => (
+                <TableRow key={keeper.player.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{keeper.player.name}</span>
+                      {keeper.cleanSheet && <Badge variant="secondary">零封</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-center">{keeper.partsInGoal}</TableCell>
+                  <TableCell className="text-center">{keeper.goalsConceded}</TableCell>
+                  <TableCell className="text-center">{keeper.saves}</TableCell>
+                  <TableCell className="text-center">
+                    {keeper.savePercentage === null ? '-' : `${keeper.savePercentage}%`}
+                  </TableCell>
+                  <TableCell className="text-center">{keeper.cleanSheetSections}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
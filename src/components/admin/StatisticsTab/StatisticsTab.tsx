@@ -5,9 +5,11 @@ import { Users, Target, Award, Shield, Timer, TrendingUp } from 'lucide-react'
 import { Match, User, AttendanceData } from '@/types'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { generatePositionStatistics, PlayerPositionStats } from '@/lib/utils/position-statistics'
 import { getPositionCategory } from '@/lib/utils/position-mapping'
 import PositionCard from './PositionCard'
+import GoalkeeperCard from './GoalkeeperCard'
 
 interface StatisticsTabProps {
   match: Match
@@ -117,124 +119,136 @@ export default function StatisticsTab({ match, users, attendance }: StatisticsTa
         <p className="text-muted-foreground">基于实际出勤数据自动计算</p>
       </div>
 
-      {/* Position-based Statistics - MOVED TO TOP */}
-      {positionStats.length > 0 && (
-        <div className="space-y-4">
-          <h4 className="text-xl font-semibold">位置统计</h4>
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {positionStats.map(categoryStats => (
-              <PositionCard 
-                key={categoryStats.category}
-                categoryStats={categoryStats}
-              />
-            ))}
-          </div>
-        </div>
-      )}
-
-      {result && (
-        <Card className="text-center">
-          <CardContent className="pt-6">
-            <div className="flex items-center justify-center gap-4 mb-4">
-              <span className="text-4xl font-bold">{match.ourScore}</span>
-              <span className="text-2xl text-muted-foreground">:</span>
-              <span className="text-4xl font-bold">{match.opponentScore}</span>
+      <Tabs defaultValue="overview">
+        <TabsList>
+          <TabsTrigger value="overview">概览</TabsTrigger>
+          <TabsTrigger value="goalkeepers">门将</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="overview" className="space-y-6">
+          {/* Position-based Statistics - MOVED TO TOP */}
+          {positionStats.length > 0 && (
+            <div className="space-y-4">
+              <h4 className="text-xl font-semibold">位置统计</h4>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {positionStats.map(categoryStats => (
+                  <PositionCard 
+                    key={categoryStats.category}
+                    categoryStats={categoryStats}
+                  />
+                ))}
+              </div>
             </div>
-            <Badge 
-              variant={result.type === 'win' ? 'default' : result.type === 'lose' ? 'destructive' : 'secondary'}
-              className="text-lg px-4 py-1"
-            >
-              {result.text}
-            </Badge>
-          </CardContent>
-        </Card>
-      )}
-
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-        <Card className="text-center">
-          <CardContent className="pt-4">
-            <Users className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
-            <div className="text-2xl font-bold">{stats.totalParticipants}</div>
-            <div className="text-sm text-muted-foreground">参与人数</div>
-          </CardContent>
-        </Card>
-
-        <Card className="text-center">
-          <CardContent className="pt-4">
-            <Target className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
-            <div className="text-2xl font-bold">{stats.totalGoals}</div>
-            <div className="text-sm text-muted-foreground">总进球</div>
-          </CardContent>
-        </Card>
-
-        <Card className="text-center">
-          <CardContent className="pt-4">
-            <Award className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
-            <div className="text-2xl font-bold">{stats.totalAssists}</div>
-            <div className="text-sm text-muted-foreground">总助攻</div>
-          </CardContent>
-        </Card>
-
-        <Card className="text-center">
-          <CardContent className="pt-4">
-            <Shield className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
-            <div className="text-2xl font-bold">{stats.totalGoalkeepers}</div>
-            <div className="text-sm text-muted-foreground">门将人数</div>
-          </CardContent>
-        </Card>
-
-        <Card className="text-center">
-          <CardContent className="pt-4">
-            <Timer className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
-            <div className="text-2xl font-bold">{stats.totalLateArrivals}</div>
-            <div className="text-sm text-muted-foreground">迟到人数</div>
-          </CardContent>
-        </Card>
-
-        <Card className="text-center">
-          <CardContent className="pt-4">
-            <TrendingUp className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
-            <div className="text-2xl font-bold">{stats.averagePlayingTime}</div>
-            <div className="text-sm text-muted-foreground">平均出勤时长</div>
-          </CardContent>
-        </Card>
-      </div>
+          )}
+
+          {result && (
+            <Card className="text-center">
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-center gap-4 mb-4">
+                  <span className="text-4xl font-bold">{match.ourScore}</span>
+                  <span className="text-2xl text-muted-foreground">:</span>
+                  <span className="text-4xl font-bold">{match.opponentScore}</span>
+                </div>
+                <Badge 
+                  variant={result.type === 'win' ? 'default' : result.type === 'lose' ? 'destructive' : 'secondary'}
+                  className="text-lg px-4 py-1"
+                >
+                  {result.text}
+                </Badge>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <Card className="text-center">
+              <CardContent className="pt-4">
+                <Users className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+                <div className="text-2xl font-bold">{stats.totalParticipants}</div>
+                <div className="text-sm text-muted-foreground">参与人数</div>
+              </CardContent>
+            </Card>
+
+            <Card className="text-center">
+              <CardContent className="pt-4">
+                <Target className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+                <div className="text-2xl font-bold">{stats.totalGoals}</div>
+                <div className="text-sm text-muted-foreground">总进球</div>
+              </CardContent>
+            </Card>
+
+            <Card className="text-center">
+              <CardContent className="pt-4">
+                <Award className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+                <div className="text-2xl font-bold">{stats.totalAssists}</div>
+                <div className="text-sm text-muted-foreground">总助攻</div>
+              </CardContent>
+            </Card>
+
+            <Card className="text-center">
+              <CardContent className="pt-4">
+                <Shield className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+                <div className="text-2xl font-bold">{stats.totalGoalkeepers}</div>
+                <div className="text-sm text-muted-foreground">门将人数</div>
+              </CardContent>
+            </Card>
+
+            <Card className="text-center">
+              <CardContent className="pt-4">
+                <Timer className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+                <div className="text-2xl font-bold">{stats.totalLateArrivals}</div>
+                <div className="text-sm text-muted-foreground">迟到人数</div>
+              </CardContent>
+            </Card>
+
+            <Card className="text-center">
+              <CardContent className="pt-4">
+                <TrendingUp className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+                <div className="text-2xl font-bold">{stats.averagePlayingTime}</div>
+                <div className="text-sm text-muted-foreground">平均出勤时长</div>
+              </CardContent>
+            </Card>
+          </div>
 
-      {stats.topScorer && stats.topScorer.goals > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle>本场最佳</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {stats.topScorer.goals > 0 && (
-                <div className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg">
-                  <Target className="h-5 w-5 text-primary" />
-                  <div>
-                    <div className="text-sm text-muted-foreground">最佳射手</div>
-                    <div className="font-medium">
-                      {stats.topScorer.name} ({stats.topScorer.goals} 球)
+          {stats.topScorer && stats.topScorer.goals > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>本场最佳</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {stats.topScorer.goals > 0 && (
+                    <div className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg">
+                      <Target className="h-5 w-5 text-primary" />
+                      <div>
+                        <div className="text-sm text-muted-foreground">最佳射手</div>
+                        <div className="font-medium">
+                          {stats.topScorer.name} ({stats.topScorer.goals} 球)
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
-              )}
-              
-              {stats.topAssist && stats.topAssist.assists > 0 && (
-                <div className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg">
-                  <Award className="h-5 w-5 text-primary" />
-                  <div>
-                    <div className="text-sm text-muted-foreground">助攻王</div>
-                    <div className="font-medium">
-                      {stats.topAssist.name} ({stats.topAssist.assists} 次)
+                  )}
+
+                  {stats.topAssist && stats.topAssist.assists > 0 && (
+                    <div className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg">
+                      <Award className="h-5 w-5 text-primary" />
+                      <div>
+                        <div className="text-sm text-muted-foreground">助攻王</div>
+                        <div className="font-medium">
+                          {stats.topAssist.name} ({stats.topAssist.assists} 次)
+                        </div>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="goalkeepers">
+          <GoalkeeperCard matchId={match.id} />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
\ No newline at end of file
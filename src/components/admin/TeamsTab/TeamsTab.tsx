@@ -0,0 +1,262 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { ArrowLeftRight, Lock, LockOpen, Save, Shuffle, Wand2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { type MatchInfo, type Player } from '@/lib/validations/match'
+import { getPositionCategory } from '@/lib/utils/position-mapping'
+import { type TeamSplitData } from '@/components/custom/MatchTeams'
+
+interface TeamsTabProps {
+  match: MatchInfo
+  users: Player[]
+}
+
+type Side = 'A' | 'B'
+
+interface SuggestedPlayer {
+  playerId: string
+  rating: number
+  recentMinutes: number
+  goalRate: number
+  assistRate: number
+}
+
+const SIDE_LABELS: Record<Side, string> = { A: 'A队', B: 'B队' }
+
+const otherSide = (side: Side): Side => (side === 'A' ? 'B' : 'A')
+
+export default function TeamsTab({ match, users }: TeamsTabProps) {
+  const [sides, setSides] = useState<Record<string, Side>>({})
+  const [locked, setLocked] = useState<Set<string>>(new Set())
+  const [ratings, setRatings] = useState<Record<string, SuggestedPlayer>>({})
+  const [saved, setSaved] = useState<TeamSplitData | null>(null)
+  const [isBalancing, setIsBalancing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadTeams = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${match.id}/teams`)
+      const data = await response.json()
+      if (data.success) {
+        const split = data.data as TeamSplitData
+        setSaved(split)
+        const savedSides: Record<string, Side> = {}
+        split.sides.A.players.forEach(player => { savedSides[player.id] = 'A' })
+        split.sides.B.players.forEach(player => { savedSides[player.id] = 'B' })
+        setSides(savedSides)
+      }
+    } catch (error) {
+      console.error('Error fetching teams:', error)
+    }
+  }, [match.id])
+
+  useEffect(() => {
+    loadTeams()
+  }, [loadTeams])
+
+  const balance = async (reshuffle: boolean) => {
+    setIsBalancing(true)
+    try {
+      const locks = Object.fromEntries(
+        Array.from(locked).filter(playerId => sides[playerId]).map(playerId => [playerId, sides[playerId]])
+      )
+      const response = await fetch(`/api/admin/matches/${match.id}/teams/balance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locks,
+          ...(reshuffle && { seed: Math.floor(Math.random() * 1_000_000) })
+        })
+      })
+      const data = await response.json()
+      if (!data.success) {
+        toast.error(data.error?.message || '自动分队失败')
+        return
+      }
+
+      const suggested = [...data.data.sides.A, ...data.data.sides.B] as (SuggestedPlayer & { side: Side })[]
+      setSides(Object.fromEntries(suggested.map(player => [player.playerId, player.side])))
+      setRatings(Object.fromEntries(suggested.map(player => [player.playerId, player])))
+    } catch (error) {
+      console.error('Error balancing teams:', error)
+      toast.error('自动分队失败')
+    } finally {
+      setIsBalancing(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/admin/matches/${match.id}/teams`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sides })
+      })
+      const data = await response.json()
+      if (!data.success) {
+        toast.error(data.error?.message || '保存分队失败')
+        return
+      }
+
+      setSaved(data.data)
+      toast.success(Object.keys(sides).length > 0 ? '分队已保存' : '分队已清除')
+    } catch (error) {
+      console.error('Error saving teams:', error)
+      toast.error('保存分队失败')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleLock = (playerId: string) => {
+    const next = new Set(locked)
+    if (next.has(playerId)) {
+      next.delete(playerId)
+    } else {
+      next.add(playerId)
+    }
+    setLocked(next)
+  }
+
+  const moveTo = (playerId: string, side: Side | null) => {
+    const next = { ...sides }
+    if (side) {
+      next[playerId] = side
+    } else {
+      delete next[playerId]
+    }
+    setSides(next)
+  }
+
+  // Strength and fairness follow manual moves once ratings are known
+  const strength = useMemo(() => {
+    const total = (side: Side) => users
+      .filter(u => sides[u.id] === side)
+      .reduce((sum, u) => sum + (ratings[u.id]?.rating ?? 0), 0)
+    return { A: total('A'), B: total('B') }
+  }, [users, sides, ratings])
+  const hasRatings = Object.keys(ratings).length > 0
+  const stronger = Math.max(strength.A, strength.B)
+  const fairness = stronger === 0 ? 100 : Math.round((Math.min(strength.A, strength.B) / stronger) * 100)
+  const unassigned = users.filter(u => !sides[u.id])
+
+  const renderPlayer = (player: Player, side: Side | null) => {
+    const rating = ratings[player.id]
+    const category = getPositionCategory(player.position)
+    return (
+      <div key={player.id} className="flex items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="truncate font-medium">{player.name}</span>
+          {category && <Badge variant="outline">{category}</Badge>}
+          {rating && (
+            <span
+              className="text-xs text-muted-foreground"
+              title={`近期 ${rating.recentMinutes} 分钟 · 场均进球 ${rating.goalRate} · 场均助攻 ${rating.assistRate}`}
+            >
+              评分 {rating.rating}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {side && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => toggleLock(player.id)}
+              title={locked.has(player.id) ? '解除锁定' : '锁定在本队'}
+            >
+              {locked.has(player.id) ? <Lock className="h-4 w-4 text-amber-600" /> : <LockOpen className="h-4 w-4" />}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => moveTo(player.id, side ? otherSide(side) : 'A')}
+            title={side ? `换到${SIDE_LABELS[otherSide(side)]}` : `加入${SIDE_LABELS.A}`}
+          >
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold">队内分队</h3>
+          <p className="text-sm text-muted-foreground">
+            按位置、近期出场时间和进球助攻自动分成实力接近的两队，锁定的球员重新分配时保持不动
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => balance(false)} disabled={isBalancing || users.length < 2} className="gap-2">
+            <Wand2 size={16} />
+            自动分队
+          </Button>
+          <Button variant="outline" onClick={() => balance(true)} disabled={isBalancing || users.length < 2} className="gap-2">
+            <Shuffle size={16} />
+            重新分配
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} className="gap-2">
+            <Save size={16} />
+            {isSaving ? '保存中...' : '保存分队'}
+          </Button>
+        </div>
+      </div>
+
+      {hasRatings && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">公平度</span>
+          <Badge variant={fairness >= 90 ? 'default' : 'secondary'}>{fairness}</Badge>
+          <span className="text-muted-foreground">
+            实力 {strength.A.toFixed(2)} : {strength.B.toFixed(2)}
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        {(['A', 'B'] as Side[]).map(side => {
+          const players = users.filter(u => sides[u.id] === side)
+          const savedSide = saved?.isSplit ? saved.sides[side] : null
+          return (
+            <Card key={side}>
+              <CardHeader>
+                <CardTitle>{SIDE_LABELS[side]} ({players.length}人)</CardTitle>
+                {savedSide && (
+                  <CardDescription>
+                    已保存 · 进球 {savedSide.goals} · 助攻 {savedSide.assists}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {players.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">暂无球员</p>
+                ) : (
+                  players.map(player => renderPlayer(player, side))
+                )}
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+
+      {unassigned.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>未分队</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 gap-2 md:grid-cols-2">
+            {unassigned.map(player => renderPlayer(player, null))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
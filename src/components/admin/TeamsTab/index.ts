@@ -0,0 +1 @@
+export { default } from './TeamsTab'
\ No newline at end of file
@@ -255,7 +255,8 @@ export default function AssistantWidget({ context, onApplyPatch, onAfterApplyAll
               timeInfo = ` (${update.minute}')`;
             }
             
-            details.push(`${eventLabel}${timeInfo}`);
+            const assistInfo = update.assistPlayerId ? ` (助攻 ${formatName(update.assistPlayerId)})` : "";
+            details.push(`${eventLabel}${timeInfo}${assistInfo}`);
           }
           if (update.goals !== undefined) details.push(`进球 ${update.goals}`); // Legacy support
           if (update.assists !== undefined) details.push(`助攻 ${update.assists}`); // Legacy support
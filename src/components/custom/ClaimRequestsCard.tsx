@@ -0,0 +1,200 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Check, Mail, Phone, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface ClaimRequest {
+  id: string;
+  claimantName: string;
+  email: string;
+  phone: string | null;
+  message: string | null;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  createdAt: string;
+  ghostUser: {
+    id: string;
+    name: string;
+    shortId: string | null;
+    jerseyNumber: number | null;
+  };
+}
+
+interface ClaimRequestsCardProps {
+  onReviewed?: () => void;
+}
+
+export function ClaimRequestsCard({ onReviewed }: ClaimRequestsCardProps) {
+  const [claims, setClaims] = useState<ClaimRequest[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<ClaimRequest | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/claims?status=PENDING');
+      const data = await response.json();
+      if (data.success) {
+        setClaims(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching claims:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const reviewClaim = async (claim: ClaimRequest, action: 'approve' | 'reject', reason?: string) => {
+    setReviewingId(claim.id);
+    try {
+      const response = await fetch(`/api/admin/claims/${claim.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason: reason || null })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(action === 'approve'
+          ? `${claim.ghostUser.name} 已由 ${claim.claimantName} 认领`
+          : '已拒绝认领申请');
+        setRejecting(null);
+        setRejectReason("");
+        await fetchClaims();
+        onReviewed?.();
+      } else {
+        toast.error('处理申请失败: ' + data.error?.message);
+      }
+    } catch {
+      toast.error('处理申请时发生错误');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (claims.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>待审核认领申请 ({claims.length})</CardTitle>
+        <CardDescription>
+          批准后，申请人的邮箱和密码将绑定到该幽灵账户，历史出勤和比赛数据全部保留
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>认领账户</TableHead>
+                <TableHead>申请人</TableHead>
+                <TableHead>联系方式</TableHead>
+                <TableHead>留言</TableHead>
+                <TableHead>申请时间</TableHead>
+                <TableHead>操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {claims.map((claim) => (
+                <TableRow key={claim.id}>
+                  <TableCell className="font-medium">
+                    {claim.ghostUser.name}
+                    {claim.ghostUser.shortId && (
+                      <Badge variant="secondary" className="ml-2">{claim.ghostUser.shortId}</Badge>
+                    )}
+                    {claim.ghostUser.jerseyNumber && (
+                      <Badge variant="outline" className="ml-1">#{claim.ghostUser.jerseyNumber}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{claim.claimantName}</TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <div className="flex items-center text-sm">
+                        <Mail className="mr-1 h-3 w-3" />
+                        {claim.email}
+                      </div>
+                      {claim.phone && (
+                        <div className="flex items-center text-sm">
+                          <Phone className="mr-1 h-3 w-3" />
+                          {claim.phone}
+                        </div>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-xs text-sm text-muted-foreground">
+                    {claim.message || '-'}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {new Date(claim.createdAt).toLocaleString('zh-CN')}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Button
+                        size="sm"
+                        onClick={() => reviewClaim(claim, 'approve')}
+                        disabled={reviewingId === claim.id}
+                      >
+                        <Check className="h-3 w-3 mr-1" />
+                        批准
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRejecting(claim)}
+                        disabled={reviewingId === claim.id}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <X className="h-3 w-3 mr-1" />
+                        拒绝
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>拒绝认领申请</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${rejecting.claimantName} 申请认领 ${rejecting.ghostUser.name}`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="拒绝原因（可选）"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            maxLength={500}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              取消
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && reviewClaim(rejecting, 'reject', rejectReason)}
+              disabled={!rejecting || reviewingId === rejecting.id}
+            >
+              确认拒绝
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { ImagePlus, X } from "lucide-react";
+import { toast } from "sonner";
+
+// Keep in sync with UPLOAD_CONFIG.comment in lib/aws and MAX_COMMENT_IMAGES in validationSchemas
+const MAX_IMAGES = 4;
+const MAX_SIZE = 5 * 1024 * 1024;
+const ALLOWED_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+interface CommentImageUploadProps {
+  images: string[];
+  onChange: (images: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Discard images that were uploaded but never posted with a comment
+ */
+export const discardCommentImages = async (images: string[]) => {
+  await Promise.allSettled(
+    images.map((url) =>
+      fetch("/api/upload/comment", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url })
+      })
+    )
+  );
+};
+
+export default function CommentImageUpload({ images, onChange, disabled }: CommentImageUploadProps) {
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const uploadImage = async (file: File): Promise<string> => {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    const response = await fetch("/api/upload/comment", {
+      method: "POST",
+      body: formData
+    });
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || "上传失败");
+    }
+    return result.data.url;
+  };
+
+  const handleFiles = async (files: File[]) => {
+    const remaining = MAX_IMAGES - images.length;
+    if (files.length > remaining) {
+      toast.error(`每条评论最多 ${MAX_IMAGES} 张图片`);
+    }
+
+    const accepted = files.slice(0, Math.max(remaining, 0)).filter((file) => {
+      if (!ALLOWED_TYPES.includes(file.type)) {
+        toast.error("只支持 JPG、PNG、WebP 格式的图片");
+        return false;
+      }
+      if (file.size > MAX_SIZE) {
+        toast.error("图片大小不能超过 5MB");
+        return false;
+      }
+      return true;
+    });
+    if (accepted.length === 0) return;
+
+    setUploading(true);
+    const uploaded: string[] = [];
+    try {
+      for (const file of accepted) {
+        uploaded.push(await uploadImage(file));
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "上传失败，请稍后重试");
+    } finally {
+      setUploading(false);
+      if (uploaded.length > 0) {
+        onChange([...images, ...uploaded]);
+      }
+    }
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      handleFiles(files);
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleRemove = (url: string) => {
+    onChange(images.filter((image) => image !== url));
+    void discardCommentImages([url]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ALLOWED_TYPES.join(",")}
+        multiple
+        onChange={handleInputChange}
+        className="hidden"
+        disabled={disabled || uploading}
+      />
+
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((url) => (
+            <div key={url} className="relative h-16 w-16 overflow-hidden rounded-md border">
+              <Image src={url} alt="评论图片" fill sizes="64px" className="object-cover" />
+              <button
+                type="button"
+                onClick={() => handleRemove(url)}
+                disabled={disabled}
+                className="absolute right-0.5 top-0.5 rounded-full bg-black/60 p-0.5 text-white"
+                aria-label="移除图片"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {images.length < MAX_IMAGES && (
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || uploading}
+        >
+          <ImagePlus className="h-3 w-3 mr-1" />
+          {uploading ? "上传中..." : `图片 (${images.length}/${MAX_IMAGES})`}
+        </Button>
+      )}
+    </div>
+  );
+}
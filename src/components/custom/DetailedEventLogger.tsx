@@ -34,6 +34,11 @@ import {
 } from "@/components/ui/table"
 import { type Player, type MatchEvent } from '@/lib/validations/match'
 import { cn } from '@/lib/utils'
+import { DEFAULT_MATCH_FORMAT, getSectionLabel, type MatchFormat } from '@/lib/utils/matchFormat'
+import { isGoalEvent } from '@/lib/utils/assistLinks'
+
+// Select value for a goal without an assist
+const NO_ASSIST = 'none'
 
 interface DetailedEventLoggerProps {
   players: Player[]
@@ -42,6 +47,7 @@ interface DetailedEventLoggerProps {
   onRemoveEvent: (eventId: string) => void
   attendanceData: any[] // Used to filter participating players
   isDirty?: boolean
+  format?: MatchFormat
   className?: string
 }
 
@@ -52,12 +58,16 @@ export default function DetailedEventLogger({
   onRemoveEvent,
   attendanceData,
   isDirty = false,
+  format = DEFAULT_MATCH_FORMAT,
   className
 }: DetailedEventLoggerProps) {
   const [selectedPlayerId, setSelectedPlayerId] = useState<string>('')
   const [eventType, setEventType] = useState<string>('GOAL')
   const [section, setSection] = useState<number>(1)
   const [minute, setMinute] = useState<string>('')
+  const [assistPlayerId, setAssistPlayerId] = useState<string>(NO_ASSIST)
+  const [assistGoalId, setAssistGoalId] = useState<string>('')
+  const sectionMinutes = format.partsPerSection * format.partMinutes
 
   // Filter players who have marked attendance > 0
   const participatingPlayers = players.filter(player => 
@@ -66,24 +76,39 @@ export default function DetailedEventLogger({
 
   const handleAddEvent = () => {
     if (!selectedPlayerId || !eventType || !section || !minute) return
+    if (eventType === 'ASSIST' && !assistGoalId) return
 
-    // Calculate absolute match minute based on section (30 mins per section)
+    // Calculate absolute match minute based on section (sectionMinutes per section, 30 by default)
     // Section 1: 1-30+ (starts at 0 offset)
     // Section 2: 31-60+ (starts at 30 offset)
     // Section 3: 61-90+ (starts at 60 offset)
-    const absoluteMinute = (section - 1) * 30 + parseInt(minute)
+    const absoluteMinute = (section - 1) * sectionMinutes + parseInt(minute)
 
     const newEvent: MatchEvent = {
       id: crypto.randomUUID(),
       playerId: selectedPlayerId,
       eventType: eventType as any,
       minute: absoluteMinute,
+      ...(eventType === 'ASSIST' && { goalEventId: assistGoalId }),
     }
 
     onAddEvent(newEvent)
+
+    // The assist is recorded with the goal and points at it
+    if (isGoalEvent(eventType) && assistPlayerId !== NO_ASSIST) {
+      onAddEvent({
+        id: crypto.randomUUID(),
+        playerId: assistPlayerId,
+        eventType: 'ASSIST',
+        minute: absoluteMinute,
+        goalEventId: newEvent.id,
+      })
+    }
     
     // Reset form but keep player/section selected for rapid entry
     setEventType('GOAL')
+    setAssistPlayerId(NO_ASSIST)
+    setAssistGoalId('')
     setMinute('')
   }
 
@@ -115,13 +140,26 @@ export default function DetailedEventLogger({
     }
   }
 
+  // Assists paired with a goal show on the goal's row instead of their own
+  const assistsByGoalId = new Map(
+    events
+      .filter(e => e.goalEventId && events.some(goal => goal.id === e.goalEventId))
+      .map(e => [e.goalEventId as string, e])
+  )
+
+  // Goals an assist entered on its own can still be paired with
+  const unassistedGoals = events.filter(e => e.id && isGoalEvent(e.eventType) && !assistsByGoalId.has(e.id))
+  const getPlayerName = (playerId: string) => players.find(p => p.id === playerId)?.name || '未知球员'
+
   // Sort events by minute (if available) or creation order
-  const sortedEvents = [...events].sort((a, b) => {
-    if (a.minute !== undefined && b.minute !== undefined) {
-      return a.minute - b.minute
-    }
-    return 0
-  })
+  const sortedEvents = events
+    .filter(e => !(e.goalEventId && assistsByGoalId.get(e.goalEventId) === e))
+    .sort((a, b) => {
+      if (a.minute !== undefined && b.minute !== undefined) {
+        return a.minute - b.minute
+      }
+      return 0
+    })
 
   return (
     <Card className={cn("w-full", className)}>
@@ -177,6 +215,47 @@ export default function DetailedEventLogger({
             </Select>
           </div>
 
+          {isGoalEvent(eventType) && (
+            <div className="w-full md:w-40 space-y-2">
+              <Label>助攻</Label>
+              <Select value={assistPlayerId} onValueChange={setAssistPlayerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ASSIST}>无助攻</SelectItem>
+                  {participatingPlayers
+                    .filter(player => player.id !== selectedPlayerId)
+                    .map(player => (
+                      <SelectItem key={player.id} value={player.id}>
+                        {player.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {eventType === 'ASSIST' && (
+            <div className="w-full md:w-48 space-y-2">
+              <Label>助攻的进球</Label>
+              <Select value={assistGoalId} onValueChange={setAssistGoalId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={unassistedGoals.length > 0 ? '选择进球' : '暂无可关联的进球'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {unassistedGoals
+                    .filter(goal => goal.playerId !== selectedPlayerId)
+                    .map(goal => (
+                      <SelectItem key={goal.id} value={goal.id as string}>
+                        {getPlayerName(goal.playerId)}{goal.minute !== undefined ? ` ${goal.minute}'` : ''}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="w-full md:w-48 space-y-2">
             <Label>时间</Label>
             <div className="flex gap-2">
@@ -189,9 +268,9 @@ export default function DetailedEventLogger({
                     <SelectValue placeholder="节数" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="1">第一节</SelectItem>
-                    <SelectItem value="2">第二节</SelectItem>
-                    <SelectItem value="3">第三节</SelectItem>
+                    {Array.from({ length: format.sectionCount }, (_, i) => i + 1).map((value) => (
+                      <SelectItem key={value} value={value.toString()}>{getSectionLabel(value)}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -217,7 +296,10 @@ export default function DetailedEventLogger({
             </div>
           </div>
 
-          <Button onClick={handleAddEvent} disabled={!selectedPlayerId || !section || !minute}>
+          <Button
+            onClick={handleAddEvent}
+            disabled={!selectedPlayerId || !section || !minute || (eventType === 'ASSIST' && !assistGoalId)}
+          >
             <Plus className="h-4 w-4 mr-2" />
             添加
           </Button>
@@ -244,6 +326,8 @@ export default function DetailedEventLogger({
               ) : (
                 sortedEvents.map((event) => {
                   const player = players.find(p => p.id === event.playerId)
+                  const assist = event.id ? assistsByGoalId.get(event.id) : undefined
+                  const assister = assist ? players.find(p => p.id === assist.playerId) : undefined
                   
                   // Calculate display time (Section + Minute)
                   let displayTime = '-'
@@ -261,8 +345,8 @@ export default function DetailedEventLogger({
                     // Section = Math.floor((45-1)/30) + 1 = 2
                     // Minute = 45 - (2-1)*30 = 15
                     
-                    const calculatedSection = Math.floor((event.minute - 1) / 30) + 1
-                    const calculatedMinute = event.minute - (calculatedSection - 1) * 30
+                    const calculatedSection = Math.floor((event.minute - 1) / sectionMinutes) + 1
+                    const calculatedMinute = event.minute - (calculatedSection - 1) * sectionMinutes
                     
                     displayTime = `第${calculatedSection}节 ${calculatedMinute}'`
                   }
@@ -274,6 +358,11 @@ export default function DetailedEventLogger({
                       </TableCell>
                       <TableCell className="font-medium">
                         {player?.name || '未知球员'}
+                        {assist && (
+                          <span className="ml-1 text-sm font-normal text-muted-foreground">
+                            (助攻 {assister?.name || '未知球员'})
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
@@ -14,6 +14,7 @@ import { useMediaQuery } from '@/hooks/useMediaQuery'
 import { cn } from '@/lib/utils'
 import { type Player, type AttendanceGrid, type AttendanceDataItem } from '@/lib/validations/match'
 import { getPositionGroup } from '@/lib/utils/position'
+import { DEFAULT_MATCH_FORMAT, getFormatSlots, getSectionLabel, type MatchFormat } from '@/lib/utils/matchFormat'
 import { Position } from '@prisma/client'
 
 interface EnhancedAttendanceGridProps {
@@ -21,9 +22,20 @@ interface EnhancedAttendanceGridProps {
   attendanceData: AttendanceGrid
   onChange: (data: AttendanceGrid) => void
   isDirty?: boolean
+  format?: MatchFormat
   className?: string
 }
 
+// Static class names so Tailwind keeps them (parts per section is at most 6)
+const PART_GRID_COLS: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+  5: 'md:grid-cols-5',
+  6: 'md:grid-cols-6'
+}
+
 interface SelectedCell {
   section: number
   part: number
@@ -34,40 +46,40 @@ export default function EnhancedAttendanceGrid({
   attendanceData,
   onChange,
   isDirty = false,
+  format = DEFAULT_MATCH_FORMAT,
   className
 }: EnhancedAttendanceGridProps) {
   const [selectedCell, setSelectedCell] = useState<SelectedCell | null>(null)
   const [isAssignmentOpen, setIsAssignmentOpen] = useState(false)
   const isMobile = useMediaQuery('(max-width: 768px)')
+  const sections = Array.from({ length: format.sectionCount }, (_, i) => i + 1)
+  const parts = Array.from({ length: format.partsPerSection }, (_, i) => i + 1)
 
   // Ensure all selected players have complete attendance records
   const ensureCompleteAttendanceData = useCallback(() => {
-    const existingPlayerIds = new Set(attendanceData.map(item => item.userId))
+    const existingCells = new Set(attendanceData.map(item => `${item.userId}-${item.section}-${item.part}`))
     const newAttendanceData = [...attendanceData]
     
-    // Add blank records for players without any attendance data
+    // Add blank records for every part a player has no data for (new players, or parts added by a format change)
     players.forEach(player => {
-      if (!existingPlayerIds.has(player.id)) {
-        // Create complete blank attendance structure for each section/part
-        for (let section = 1; section <= 3; section++) {
-          for (let part = 1; part <= 3; part++) {
-            newAttendanceData.push({
-              userId: player.id,
-              section,
-              part,
-              value: 0,
-              isGoalkeeper: false,
-              isLateArrival: true, // Default to true (late) for new matches
-              goals: 0,
-              assists: 0,
-            })
-          }
-        }
-      }
+      const lateArrival = attendanceData.find(item => item.userId === player.id)?.isLateArrival
+      getFormatSlots(format).forEach(({ section, part }) => {
+        if (existingCells.has(`${player.id}-${section}-${part}`)) return
+        newAttendanceData.push({
+          userId: player.id,
+          section,
+          part,
+          value: 0,
+          isGoalkeeper: false,
+          isLateArrival: lateArrival ?? true, // Default to true (late) for new matches
+          goals: 0,
+          assists: 0,
+        })
+      })
     })
     
     return newAttendanceData
-  }, [players, attendanceData])
+  }, [players, attendanceData, format])
 
   // Initialize complete attendance data on component mount or when players change
   const completeAttendanceData = ensureCompleteAttendanceData()
@@ -233,7 +245,7 @@ export default function EnhancedAttendanceGrid({
     return (
       <div className="space-y-4">
         <div className="text-sm text-gray-600">
-          为第{section}节第{part}部分分配球员
+          为{getSectionLabel(section)}第{part}部分分配球员
         </div>
 
         <Separator />
@@ -313,13 +325,13 @@ export default function EnhancedAttendanceGrid({
         </div>
       </div>
 
-      {/* 3x3 Grid */}
+      {/* Sections × parts grid, following the match format */}
       <div className="space-y-6">
-        {[1, 2, 3].map((section) => (
+        {sections.map((section) => (
           <div key={section} className="space-y-3">
-            <h4 className="font-medium text-base">第{section}节</h4>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {[1, 2, 3].map((part) => renderGridCell(section, part))}
+            <h4 className="font-medium text-base">{getSectionLabel(section)}</h4>
+            <div className={cn("grid grid-cols-1 gap-4", PART_GRID_COLS[format.partsPerSection] ?? 'md:grid-cols-3')}>
+              {parts.map((part) => renderGridCell(section, part))}
             </div>
           </div>
         ))}
@@ -11,12 +11,14 @@ import { Separator } from '@/components/ui/separator'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
 import { ChevronDown } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { type Player, type AttendanceGrid } from '@/lib/validations/match'
+import { type Player, type AttendanceGrid, type MatchEvent } from '@/lib/validations/match'
+import { countPartnerships } from '@/lib/utils/assistLinks'
 
 interface EventSummaryProps {
   players: Player[]
   attendanceData: AttendanceGrid
   onChange: (data: AttendanceGrid) => void
+  events?: MatchEvent[]   // Detailed events; goals recorded with their assist are listed as partnerships
   isDirty?: boolean
   className?: string
 }
@@ -30,6 +32,7 @@ export default function EventSummary({
   players,
   attendanceData,
   onChange,
+  events = [],
   isDirty = false,
   className
 }: EventSummaryProps) {
@@ -99,6 +102,17 @@ export default function EventSummary({
     setTempValues({ goals: 0, assists: 0 })
   }
 
+  // Scorer and assister of every goal recorded together with its assist
+  const toPartnershipPlayer = (id: string) => ({ id, name: players.find(p => p.id === id)?.name || '未知球员' })
+  const partnerships = countPartnerships(
+    events.flatMap(assist => {
+      const goal = assist.goalEventId ? events.find(e => e.id === assist.goalEventId) : undefined
+      return goal
+        ? [{ scorer: toPartnershipPlayer(goal.playerId), assister: toPartnershipPlayer(assist.playerId) }]
+        : []
+    })
+  )
+
   // Calculate total events
   const totalEvents = participatingPlayers.reduce((totals, player) => {
     const events = getPlayerEvents(player.id)
@@ -248,6 +262,28 @@ export default function EventSummary({
                     </div>
                   )
                 })}
+
+                {partnerships.length > 0 && (
+                  <>
+                    <Separator className="my-4" />
+                    <div className="text-sm text-gray-600">进球搭档</div>
+                    {partnerships.map(({ scorer, assister, goals }) => (
+                      <div
+                        key={`${assister.id}-${scorer.id}`}
+                        className="flex items-center justify-between p-3 rounded-lg border bg-gray-50 text-sm"
+                      >
+                        <span>
+                          {scorer.name}
+                          <span className="text-gray-500"> (助攻 {assister.name})</span>
+                        </span>
+                        <div className="flex items-center gap-1">
+                          <Target className="h-3 w-3 text-green-600" />
+                          <span>{goals}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </>
+                )}
               </div>
             )}
           </CardContent>
@@ -0,0 +1,84 @@
+"use client";
+
+import { Position } from "@prisma/client";
+import { getPositionLabel } from "@/lib/utils/position";
+
+export interface PitchPlayer {
+  playerId: string;
+  name: string;
+  jerseyNumber?: number | null;
+  position: Position;
+}
+
+interface LineupPitchProps {
+  players: PitchPlayer[];
+  className?: string;
+}
+
+// Spot of each position in percent of the pitch, our goal at the bottom
+const POSITION_SPOTS: Record<Position, { x: number; y: number }> = {
+  GK: { x: 50, y: 90 },
+  CB: { x: 50, y: 74 },
+  LB: { x: 14, y: 70 },
+  RB: { x: 86, y: 70 },
+  LWB: { x: 10, y: 58 },
+  RWB: { x: 90, y: 58 },
+  DMF: { x: 50, y: 60 },
+  CMF: { x: 50, y: 48 },
+  LMF: { x: 14, y: 46 },
+  RMF: { x: 86, y: 46 },
+  AMF: { x: 50, y: 35 },
+  SS: { x: 50, y: 25 },
+  LWF: { x: 16, y: 20 },
+  RWF: { x: 84, y: 20 },
+  CF: { x: 50, y: 13 },
+  ST: { x: 50, y: 13 }
+};
+
+// Horizontal gap between players sharing a position
+const SHARED_SPOT_GAP = 22;
+
+const spotKey = (position: Position) => `${POSITION_SPOTS[position].x},${POSITION_SPOTS[position].y}`;
+
+const placePlayers = (players: PitchPlayer[]) =>
+  players.map(player => {
+    const sharing = players.filter(p => spotKey(p.position) === spotKey(player.position));
+    const spot = POSITION_SPOTS[player.position];
+    const offset = (sharing.indexOf(player) - (sharing.length - 1) / 2) * SHARED_SPOT_GAP;
+    return { player, x: Math.min(95, Math.max(5, spot.x + offset)), y: spot.y };
+  });
+
+export default function LineupPitch({ players, className }: LineupPitchProps) {
+  return (
+    <div
+      className={`relative w-full overflow-hidden rounded-lg border-2 border-green-700 bg-green-600 ${className ?? ""}`}
+      style={{ aspectRatio: "3 / 4" }}
+    >
+      {/* Markings */}
+      <div className="absolute inset-x-0 top-1/2 border-t-2 border-white/60" />
+      <div className="absolute left-1/2 top-1/2 h-1/5 w-[28%] -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white/60" />
+      <div className="absolute bottom-0 left-1/2 h-[16%] w-1/2 -translate-x-1/2 border-2 border-b-0 border-white/60" />
+      <div className="absolute top-0 left-1/2 h-[16%] w-1/2 -translate-x-1/2 border-2 border-t-0 border-white/60" />
+
+      {placePlayers(players).map(({ player, x, y }) => (
+        <div
+          key={player.playerId}
+          className="absolute flex w-20 -translate-x-1/2 -translate-y-1/2 flex-col items-center text-center"
+          style={{ left: `${x}%`, top: `${y}%` }}
+          title={getPositionLabel(player.position)}
+        >
+          <div
+            className={`flex h-8 w-8 items-center justify-center rounded-full border-2 border-white text-xs font-bold shadow ${
+              player.position === Position.GK ? "bg-yellow-400 text-yellow-950" : "bg-white text-green-800"
+            }`}
+          >
+            {player.jerseyNumber ?? player.position}
+          </div>
+          <span className="mt-1 max-w-full truncate rounded bg-black/40 px-1 text-xs text-white">
+            {player.name}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
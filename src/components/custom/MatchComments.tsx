@@ -0,0 +1,402 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { MessageSquare, Reply, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import CommentImageUpload, { discardCommentImages } from "@/components/custom/CommentImageUpload";
+
+// Keep in sync with MAX_COMMENT_DEPTH in commentService
+const MAX_DEPTH = 3;
+
+export interface MatchComment {
+  id: string;
+  parentCommentId: string | null;
+  content: string;
+  images: string[];
+  isEdited: boolean;
+  isDeleted: boolean;
+  createdAt: string;
+  author: {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+  };
+  replies: MatchComment[];
+}
+
+interface MatchCommentsProps {
+  matchId: string;
+}
+
+const formatCommentTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString("zh-CN", {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+};
+
+const countComments = (comments: MatchComment[]): number => {
+  return comments.reduce(
+    (sum, comment) => sum + (comment.isDeleted ? 0 : 1) + countComments(comment.replies),
+    0
+  );
+};
+
+export default function MatchComments({ matchId }: MatchCommentsProps) {
+  const { data: session, status } = useSession();
+  const [comments, setComments] = useState<MatchComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newComment, setNewComment] = useState("");
+  const [newImages, setNewImages] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${matchId}/comments`);
+      const data = await response.json();
+      if (data.success) {
+        setComments(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [matchId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const submitComment = async (content: string, parentCommentId?: string, images: string[] = []) => {
+    const response = await fetch(`/api/games/${matchId}/comments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content, parentCommentId, images })
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error?.message || "Failed to post comment");
+    }
+    await fetchComments();
+  };
+
+  const handleSubmit = async () => {
+    if (!newComment.trim()) return;
+
+    try {
+      setSubmitting(true);
+      await submitComment(newComment.trim(), undefined, newImages);
+      setNewComment("");
+      setNewImages([]);
+    } catch (error) {
+      console.error("Error posting comment:", error);
+      toast.error("发表评论失败");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEdit = async (commentId: string, content: string) => {
+    const response = await fetch(`/api/games/${matchId}/comments/${commentId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content })
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error?.message || "Failed to update comment");
+    }
+    await fetchComments();
+  };
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      const response = await fetch(`/api/games/${matchId}/comments/${commentId}`, {
+        method: "DELETE"
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || "Failed to delete comment");
+      }
+      await fetchComments();
+      toast.success("评论已删除");
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      toast.error("删除评论失败");
+    }
+  };
+
+  const currentUserId = session?.user?.id;
+  const isAdmin = session?.user?.userType === "ADMIN";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          比赛讨论
+        </CardTitle>
+        <CardDescription>
+          {countComments(comments)} 条评论
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {status === "authenticated" ? (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="聊聊这场比赛..."
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              rows={3}
+              maxLength={1000}
+            />
+            <div className="flex items-start justify-between gap-2">
+              <CommentImageUpload images={newImages} onChange={setNewImages} disabled={submitting} />
+              <Button onClick={handleSubmit} disabled={submitting || !newComment.trim()}>
+                {submitting ? "发表中..." : "发表评论"}
+              </Button>
+            </div>
+          </div>
+        ) : status === "unauthenticated" ? (
+          <div className="text-sm text-muted-foreground">
+            <Link href="/login" className="underline">登录</Link> 后参与讨论
+          </div>
+        ) : null}
+
+        {loading ? (
+          <div className="text-center text-sm text-muted-foreground">加载评论中...</div>
+        ) : comments.length === 0 ? (
+          <div className="text-center text-sm text-muted-foreground py-4">暂无评论</div>
+        ) : (
+          <div className="space-y-4">
+            {comments.map((comment) => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                depth={1}
+                currentUserId={currentUserId}
+                isAdmin={isAdmin}
+                onReply={submitComment}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface CommentItemProps {
+  comment: MatchComment;
+  depth: number;
+  currentUserId?: string;
+  isAdmin: boolean;
+  onReply: (content: string, parentCommentId: string, images: string[]) => Promise<void>;
+  onEdit: (commentId: string, content: string) => Promise<void>;
+  onDelete: (commentId: string) => Promise<void>;
+}
+
+function CommentItem({
+  comment,
+  depth,
+  currentUserId,
+  isAdmin,
+  onReply,
+  onEdit,
+  onDelete
+}: CommentItemProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyContent, setReplyContent] = useState("");
+  const [replyImages, setReplyImages] = useState<string[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(comment.content);
+  const [busy, setBusy] = useState(false);
+
+  const isAuthor = !!currentUserId && currentUserId === comment.author.id;
+  const canReply = !!currentUserId && !comment.isDeleted && depth < MAX_DEPTH;
+
+  const handleReply = async () => {
+    if (!replyContent.trim()) return;
+    try {
+      setBusy(true);
+      await onReply(replyContent.trim(), comment.id, replyImages);
+      setReplyContent("");
+      setReplyImages([]);
+      setIsReplying(false);
+    } catch (error) {
+      console.error("Error posting reply:", error);
+      toast.error("回复失败");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editContent.trim()) return;
+    try {
+      setBusy(true);
+      await onEdit(comment.id, editContent.trim());
+      setIsEditing(false);
+    } catch (error) {
+      console.error("Error editing comment:", error);
+      toast.error("编辑评论失败");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-3">
+      <Avatar className="h-8 w-8">
+        {comment.author.avatarUrl && !comment.isDeleted && (
+          <AvatarImage src={comment.author.avatarUrl} alt={comment.author.name} />
+        )}
+        <AvatarFallback className="text-xs">
+          {comment.isDeleted ? "?" : comment.author.name.charAt(0)}
+        </AvatarFallback>
+      </Avatar>
+
+      <div className="flex-1 space-y-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">{comment.isDeleted ? "已删除" : comment.author.name}</span>
+          <span className="text-xs text-muted-foreground">{formatCommentTime(comment.createdAt)}</span>
+          {comment.isEdited && !comment.isDeleted && (
+            <span className="text-xs text-muted-foreground">(已编辑)</span>
+          )}
+        </div>
+
+        {comment.isDeleted ? (
+          <p className="text-sm italic text-muted-foreground">该评论已删除</p>
+        ) : isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={editContent}
+              onChange={(e) => setEditContent(e.target.value)}
+              rows={2}
+              maxLength={1000}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSaveEdit} disabled={busy || !editContent.trim()}>
+                保存
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setIsEditing(false);
+                  setEditContent(comment.content);
+                }}
+              >
+                取消
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+        )}
+
+        {!comment.isDeleted && comment.images.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {comment.images.map((url) => (
+              <a
+                key={url}
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="relative block h-24 w-24 overflow-hidden rounded-md border"
+              >
+                <Image src={url} alt="评论图片" fill sizes="96px" className="object-cover" />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {!comment.isDeleted && !isEditing && (
+          <div className="flex items-center gap-1">
+            {canReply && (
+              <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => setIsReplying(!isReplying)}>
+                <Reply className="h-3 w-3 mr-1" />
+                回复
+              </Button>
+            )}
+            {isAuthor && (
+              <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => setIsEditing(true)}>
+                <Pencil className="h-3 w-3 mr-1" />
+                编辑
+              </Button>
+            )}
+            {(isAuthor || isAdmin) && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-red-600 hover:text-red-700"
+                onClick={() => onDelete(comment.id)}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                删除
+              </Button>
+            )}
+          </div>
+        )}
+
+        {isReplying && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder={`回复 ${comment.author.name}...`}
+              value={replyContent}
+              onChange={(e) => setReplyContent(e.target.value)}
+              rows={2}
+              maxLength={1000}
+            />
+            <CommentImageUpload images={replyImages} onChange={setReplyImages} disabled={busy} />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleReply} disabled={busy || !replyContent.trim()}>
+                回复
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setIsReplying(false);
+                  void discardCommentImages(replyImages);
+                  setReplyImages([]);
+                }}
+              >
+                取消
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {comment.replies.length > 0 && (
+          <div className="space-y-4 border-l pl-4">
+            {comment.replies.map((reply) => (
+              <CommentItem
+                key={reply.id}
+                comment={reply}
+                depth={depth + 1}
+                currentUserId={currentUserId}
+                isAdmin={isAdmin}
+                onReply={onReply}
+                onEdit={onEdit}
+                onDelete={onDelete}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
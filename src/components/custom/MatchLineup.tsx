@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Position } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDown, ArrowUp, LayoutGrid } from "lucide-react";
+import LineupPitch from "@/components/custom/LineupPitch";
+import { getLineupAtSection } from "@/lib/utils/lineup";
+import { getSectionLabel, type MatchFormat } from "@/lib/utils/matchFormat";
+import { getPositionLabel } from "@/lib/utils/position";
+
+interface LineupPlayer {
+  id: string;
+  name: string;
+  jerseyNumber: number | null;
+}
+
+export interface LineupData {
+  formation: string | null;
+  starters: {
+    playerId: string;
+    position: Position;
+    player: LineupPlayer;
+  }[];
+  substitutions: {
+    id: string;
+    section: number;
+    minute: number;
+    playerOutId: string;
+    playerInId: string;
+    position: Position | null;
+    playerOut: LineupPlayer;
+    playerIn: LineupPlayer;
+  }[];
+}
+
+interface MatchLineupProps {
+  matchId: string;
+  format: MatchFormat;
+}
+
+export default function MatchLineup({ matchId, format }: MatchLineupProps) {
+  const [lineup, setLineup] = useState<LineupData | null>(null);
+  const [section, setSection] = useState(1);
+
+  const fetchLineup = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${matchId}/lineup`);
+      const data = await response.json();
+      if (data.success) {
+        setLineup(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching lineup:", error);
+    }
+  }, [matchId]);
+
+  useEffect(() => {
+    fetchLineup();
+  }, [fetchLineup]);
+
+  if (!lineup || lineup.starters.length === 0) {
+    return null;
+  }
+
+  // Everyone who appears in the line-up, for names on the pitch
+  const players = new Map<string, LineupPlayer>();
+  lineup.starters.forEach(starter => players.set(starter.playerId, starter.player));
+  lineup.substitutions.forEach(sub => {
+    players.set(sub.playerOutId, sub.playerOut);
+    players.set(sub.playerInId, sub.playerIn);
+  });
+
+  const onPitch = getLineupAtSection(lineup.starters, lineup.substitutions, section).map(entry => ({
+    ...entry,
+    name: players.get(entry.playerId)?.name ?? "未知球员",
+    jerseyNumber: players.get(entry.playerId)?.jerseyNumber
+  }));
+  const sections = Array.from({ length: format.sectionCount }, (_, i) => i + 1);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LayoutGrid className="h-5 w-5" />
+          阵容
+          {lineup.formation && <Badge variant="secondary">{lineup.formation}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {section === 1 ? "首发阵容" : `${getSectionLabel(section)}开始时的阵容`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sections.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {sections.map(value => (
+              <Button
+                key={value}
+                size="sm"
+                variant={value === section ? "default" : "outline"}
+                onClick={() => setSection(value)}
+              >
+                {value === 1 ? "首发" : getSectionLabel(value)}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="mx-auto max-w-sm">
+          <LineupPitch players={onPitch} />
+        </div>
+
+        {lineup.substitutions.length > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            <h4 className="text-sm font-medium">换人记录</h4>
+            {lineup.substitutions.map(sub => (
+              <div key={sub.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                <span className="w-24 text-muted-foreground">
+                  {getSectionLabel(sub.section)} {sub.minute}&apos;
+                </span>
+                <span className="flex items-center gap-1 text-green-600">
+                  <ArrowUp className="h-4 w-4" />
+                  {sub.playerIn.name}
+                </span>
+                <span className="flex items-center gap-1 text-red-600">
+                  <ArrowDown className="h-4 w-4" />
+                  {sub.playerOut.name}
+                </span>
+                {sub.position && (
+                  <span className="text-muted-foreground">({getPositionLabel(sub.position)})</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
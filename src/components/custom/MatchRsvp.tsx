@@ -0,0 +1,144 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CalendarCheck } from "lucide-react";
+import { toast } from "sonner";
+
+export type RsvpResponse = "YES" | "NO" | "MAYBE";
+
+export interface MatchRsvpEntry {
+  playerId: string;
+  response: RsvpResponse;
+  note: string | null;
+  updatedAt: string;
+  player: {
+    id: string;
+    name: string;
+    jerseyNumber: number | null;
+  };
+}
+
+export interface MatchRsvpSummary {
+  matchId: string;
+  counts: {
+    yes: number;
+    no: number;
+    maybe: number;
+    total: number;
+  };
+  responses: MatchRsvpEntry[];
+}
+
+export const RSVP_LABELS: Record<RsvpResponse, string> = {
+  YES: "来",
+  MAYBE: "待定",
+  NO: "不来"
+};
+
+const RSVP_BADGE_VARIANTS: Record<RsvpResponse, "default" | "secondary" | "outline"> = {
+  YES: "default",
+  MAYBE: "secondary",
+  NO: "outline"
+};
+
+interface MatchRsvpProps {
+  matchId: string;
+}
+
+export default function MatchRsvp({ matchId }: MatchRsvpProps) {
+  const { data: session, status } = useSession();
+  const [summary, setSummary] = useState<MatchRsvpSummary | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRsvps = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${matchId}/rsvps`);
+      const data = await response.json();
+      if (data.success) {
+        setSummary(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching RSVPs:", error);
+    }
+  }, [matchId]);
+
+  useEffect(() => {
+    fetchRsvps();
+  }, [fetchRsvps]);
+
+  const handleRespond = async (answer: RsvpResponse) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/games/${matchId}/rsvps`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response: answer })
+      });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(`已报名：${RSVP_LABELS[answer]}`);
+        fetchRsvps();
+      } else {
+        toast.error(data.error?.message || "报名失败");
+      }
+    } catch {
+      toast.error("网络错误，请稍后重试");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const myResponse = summary?.responses.find(r => r.playerId === session?.user?.id)?.response;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCheck className="h-5 w-5" />
+          比赛报名
+        </CardTitle>
+        <CardDescription>
+          {summary
+            ? `来 ${summary.counts.yes} · 待定 ${summary.counts.maybe} · 不来 ${summary.counts.no}`
+            : "加载中..."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status === "authenticated" ? (
+          <div className="flex gap-2">
+            {(Object.keys(RSVP_LABELS) as RsvpResponse[]).map(answer => (
+              <Button
+                key={answer}
+                variant={myResponse === answer ? "default" : "outline"}
+                onClick={() => handleRespond(answer)}
+                disabled={saving}
+                className="flex-1"
+              >
+                {RSVP_LABELS[answer]}
+              </Button>
+            ))}
+          </div>
+        ) : status === "unauthenticated" ? (
+          <p className="text-sm text-muted-foreground">
+            <Link href="/login" className="underline">登录</Link> 后报名
+          </p>
+        ) : null}
+
+        {summary && summary.responses.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {summary.responses.map(entry => (
+              <Badge key={entry.playerId} variant={RSVP_BADGE_VARIANTS[entry.response]}>
+                {entry.player.name} · {RSVP_LABELS[entry.response]}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Shirt } from "lucide-react";
+
+interface TeamPlayer {
+  id: string;
+  name: string;
+}
+
+interface TeamSide {
+  players: TeamPlayer[];
+  goals: number;
+  assists: number;
+}
+
+export interface TeamSplitData {
+  isSplit: boolean;
+  sides: Record<"A" | "B", TeamSide>;
+  unassigned: TeamPlayer[];
+}
+
+interface MatchTeamsProps {
+  matchId: string;
+}
+
+const SIDE_STYLES = {
+  A: { label: "A队", color: "text-blue-600" },
+  B: { label: "B队", color: "text-orange-600" }
+} as const;
+
+export default function MatchTeams({ matchId }: MatchTeamsProps) {
+  const [split, setSplit] = useState<TeamSplitData | null>(null);
+
+  const fetchTeams = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${matchId}/teams`);
+      const data = await response.json();
+      if (data.success) {
+        setSplit(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+    }
+  }, [matchId]);
+
+  useEffect(() => {
+    fetchTeams();
+  }, [fetchTeams]);
+
+  if (!split || !split.isSplit) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shirt className="h-5 w-5" />
+          队内分队
+        </CardTitle>
+        <CardDescription>
+          <span className={SIDE_STYLES.A.color}>{SIDE_STYLES.A.label}</span>
+          {" "}{split.sides.A.goals} : {split.sides.B.goals}{" "}
+          <span className={SIDE_STYLES.B.color}>{SIDE_STYLES.B.label}</span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-4">
+          {(["A", "B"] as const).map(side => (
+            <div key={side} className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <h4 className={`font-medium ${SIDE_STYLES[side].color}`}>{SIDE_STYLES[side].label}</h4>
+                <span className="text-xs text-muted-foreground">
+                  进球 {split.sides[side].goals} · 助攻 {split.sides[side].assists}
+                </span>
+              </div>
+              <ul className="space-y-1 text-sm">
+                {split.sides[side].players.map(player => (
+                  <li key={player.id}>{player.name}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
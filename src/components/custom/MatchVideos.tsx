@@ -0,0 +1,266 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Film, Upload, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+export interface MatchVideo {
+  id: string;
+  matchId: string;
+  title: string;
+  description: string | null;
+  storageType: "LOCAL" | "S3";
+  url: string;
+  fileSize: number | null;
+  durationSeconds: number | null;
+  thumbnailUrl: string | null;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+}
+
+interface MatchVideosProps {
+  matchId: string;
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  }
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+};
+
+export default function MatchVideos({ matchId }: MatchVideosProps) {
+  const { data: session } = useSession();
+  const [videos, setVideos] = useState<MatchVideo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeVideoId, setActiveVideoId] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [storageType, setStorageType] = useState<"LOCAL" | "S3">("LOCAL");
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isAdmin = session?.user?.userType === "ADMIN";
+
+  const fetchVideos = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/games/${matchId}/videos`);
+      const data = await response.json();
+      if (data.success) {
+        setVideos(data.data);
+        setActiveVideoId((current) => current ?? data.data[0]?.id ?? null);
+      }
+    } catch (error) {
+      console.error("Error fetching videos:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [matchId]);
+
+  useEffect(() => {
+    fetchVideos();
+  }, [fetchVideos]);
+
+  const handleUpload = async () => {
+    if (!file || !title.trim()) return;
+
+    // Read the duration in the browser so the server doesn't need ffprobe
+    const durationSeconds = await new Promise<number | null>((resolve) => {
+      const probe = document.createElement("video");
+      probe.preload = "metadata";
+      probe.onloadedmetadata = () => {
+        URL.revokeObjectURL(probe.src);
+        resolve(Number.isFinite(probe.duration) ? Math.round(probe.duration) : null);
+      };
+      probe.onerror = () => {
+        URL.revokeObjectURL(probe.src);
+        resolve(null);
+      };
+      probe.src = URL.createObjectURL(file);
+    });
+
+    try {
+      setUploading(true);
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("title", title.trim());
+      formData.append("storageType", storageType);
+      if (durationSeconds !== null) {
+        formData.append("durationSeconds", String(durationSeconds));
+      }
+
+      const response = await fetch(`/api/games/${matchId}/videos`, {
+        method: "POST",
+        body: formData
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || "上传失败");
+      }
+
+      setTitle("");
+      setFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      setActiveVideoId(data.data.id);
+      await fetchVideos();
+      toast.success("录像已上传");
+    } catch (error) {
+      console.error("Error uploading video:", error);
+      toast.error(error instanceof Error ? error.message : "上传录像失败");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (videoId: string) => {
+    if (!confirm("确定删除该录像吗？文件将一并删除。")) return;
+
+    try {
+      const response = await fetch(`/api/games/${matchId}/videos/${videoId}`, {
+        method: "DELETE"
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || "Failed to delete video");
+      }
+      if (activeVideoId === videoId) {
+        setActiveVideoId(null);
+      }
+      await fetchVideos();
+      toast.success("录像已删除");
+    } catch (error) {
+      console.error("Error deleting video:", error);
+      toast.error("删除录像失败");
+    }
+  };
+
+  // Hide the section for visitors when there is nothing to watch
+  if (!loading && videos.length === 0 && !isAdmin) {
+    return null;
+  }
+
+  const activeVideo = videos.find((video) => video.id === activeVideoId) ?? videos[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Film className="h-5 w-5" />
+          录像库
+        </CardTitle>
+        <CardDescription>{videos.length} 段录像</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="text-center text-sm text-muted-foreground">加载录像中...</div>
+        ) : activeVideo ? (
+          <div className="space-y-2">
+            <video
+              key={activeVideo.id}
+              src={activeVideo.url}
+              poster={activeVideo.thumbnailUrl ?? undefined}
+              controls
+              preload="metadata"
+              className="w-full rounded-md bg-black"
+            />
+            {activeVideo.description && (
+              <p className="text-sm text-muted-foreground">{activeVideo.description}</p>
+            )}
+          </div>
+        ) : (
+          <div className="text-center text-sm text-muted-foreground py-4">暂无录像</div>
+        )}
+
+        {videos.length > 0 && (
+          <div className="space-y-2">
+            {videos.map((video) => (
+              <div
+                key={video.id}
+                className={`flex items-center justify-between rounded-md border p-2 text-sm ${
+                  video.id === activeVideo?.id ? "border-primary bg-muted" : ""
+                }`}
+              >
+                <button
+                  type="button"
+                  className="flex-1 text-left space-y-1"
+                  onClick={() => setActiveVideoId(video.id)}
+                >
+                  <div className="font-medium">{video.title}</div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {video.durationSeconds !== null && <span>{formatDuration(video.durationSeconds)}</span>}
+                    {video.fileSize !== null && <span>{formatFileSize(video.fileSize)}</span>}
+                    <Badge variant="outline" className="text-xs">
+                      {video.storageType === "S3" ? "云存储" : "本地"}
+                    </Badge>
+                  </div>
+                </button>
+                {isAdmin && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(video.id)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isAdmin && (
+          <div className="space-y-2 border-t pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2">
+              <Input
+                placeholder="录像标题，例如：上半场"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={200}
+              />
+              <Select value={storageType} onValueChange={(value) => setStorageType(value as "LOCAL" | "S3")}>
+                <SelectTrigger className="md:w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="LOCAL">本地存储</SelectItem>
+                  <SelectItem value="S3">云存储 (S3)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                ref={fileInputRef}
+                type="file"
+                accept="video/mp4,video/webm,video/quicktime"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                disabled={uploading}
+              />
+              <Button onClick={handleUpload} disabled={uploading || !file || !title.trim()}>
+                <Upload className="h-4 w-4 mr-2" />
+                {uploading ? "上传中..." : "上传"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { GitMerge } from "lucide-react";
+import { toast } from "sonner";
+
+interface MergeCandidate {
+  id: string;
+  name: string;
+  shortId: string | null;
+  jerseyNumber: number | null;
+  deletedAt: string | null;
+}
+
+type MergeResolution = 'KEEP_TARGET' | 'KEEP_SOURCE';
+
+interface ParticipationSummary {
+  totalTime: number;
+  totalFee: number;
+  eventCount: number;
+  hasFeeOverride: boolean;
+}
+
+interface MergePreview {
+  moves: {
+    participations: number;
+    events: number;
+    matchPlayers: number;
+    feeOverrides: number;
+    payments: number;
+    comments: number;
+  };
+  conflicts: {
+    matchId: string;
+    matchDate: string;
+    opponentTeam: string;
+    source: ParticipationSummary | null;
+    target: ParticipationSummary | null;
+  }[];
+  transfersCredentials: boolean;
+}
+
+interface MergeUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  source: MergeCandidate | null;
+  users: MergeCandidate[];
+  onSuccess: () => void;
+}
+
+const MOVE_LABELS: Record<keyof MergePreview['moves'], string> = {
+  participations: '出勤记录',
+  events: '比赛事件',
+  matchPlayers: '比赛名单',
+  feeOverrides: '费用调整',
+  payments: '缴费记录',
+  comments: '评论'
+};
+
+const describe = (summary: ParticipationSummary | null) =>
+  summary
+    ? `${summary.totalTime}节 · ¥${summary.totalFee} · ${summary.eventCount}个事件${summary.hasFeeOverride ? ' · 有费用调整' : ''}`
+    : '-';
+
+export function MergeUserDialog({ open, onOpenChange, source, users, onSuccess }: MergeUserDialogProps) {
+  const [targetId, setTargetId] = useState("");
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setTargetId("");
+      setPreview(null);
+      setResolutions({});
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!source || !targetId) {
+      setPreview(null);
+      return;
+    }
+
+    const loadPreview = async () => {
+      setLoadingPreview(true);
+      try {
+        const params = new URLSearchParams({ sourceId: source.id, targetId });
+        const response = await fetch(`/api/admin/users/merge?${params}`);
+        const data = await response.json();
+        if (data.success) {
+          setPreview(data.data);
+          setResolutions({});
+        } else {
+          setPreview(null);
+          toast.error('获取合并预览失败: ' + data.error?.message);
+        }
+      } catch {
+        toast.error('获取合并预览时发生错误');
+      } finally {
+        setLoadingPreview(false);
+      }
+    };
+
+    loadPreview();
+  }, [source, targetId]);
+
+  const handleMerge = async () => {
+    if (!source || !targetId) return;
+
+    setIsMerging(true);
+    try {
+      const response = await fetch('/api/admin/users/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId: source.id, targetId, resolutions })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success('用户合并成功');
+        onOpenChange(false);
+        onSuccess();
+      } else {
+        toast.error('合并失败: ' + data.error?.message);
+      }
+    } catch {
+      toast.error('合并用户时发生错误');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (!source) return null;
+
+  const target = users.find(user => user.id === targetId);
+  const candidates = users.filter(user => user.id !== source.id && !user.deletedAt);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            合并重复用户
+          </DialogTitle>
+          <DialogDescription>
+            将 <strong>{source.name}</strong> 的所有比赛记录转移到目标用户，然后删除 {source.name}。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>合并到</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="选择保留的用户" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map(user => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name}
+                    {user.shortId ? ` (${user.shortId})` : ''}
+                    {user.jerseyNumber ? ` #${user.jerseyNumber}` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loadingPreview && <div className="text-sm text-muted-foreground">加载预览中...</div>}
+
+          {preview && target && (
+            <>
+              <div className="rounded-lg bg-muted p-4 space-y-2">
+                <h4 className="font-medium">将转移到 {target.name}</h4>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(MOVE_LABELS) as (keyof MergePreview['moves'])[]).map(key => (
+                    <Badge key={key} variant="secondary">
+                      {MOVE_LABELS[key]}: {preview.moves[key]}
+                    </Badge>
+                  ))}
+                </div>
+                {preview.transfersCredentials && (
+                  <p className="text-sm text-muted-foreground">
+                    {source.name} 的登录邮箱和密码将转移到 {target.name}。
+                  </p>
+                )}
+              </div>
+
+              {preview.conflicts.length > 0 && (
+                <div className="rounded-lg bg-yellow-50 border border-yellow-200 p-4 space-y-2">
+                  <h4 className="font-medium text-yellow-800">
+                    冲突比赛 ({preview.conflicts.length})：两个账户都有出勤记录
+                  </h4>
+                  <p className="text-sm text-yellow-700">
+                    每场比赛只能保留一方的出勤、事件和费用调整，另一方的记录将被删除，随后重新计算该场费用。
+                  </p>
+                  <div className="rounded-md border bg-background max-h-64 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>比赛</TableHead>
+                          <TableHead>{source.name}</TableHead>
+                          <TableHead>{target.name}</TableHead>
+                          <TableHead>保留</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.conflicts.map(conflict => (
+                          <TableRow key={conflict.matchId}>
+                            <TableCell className="text-sm">
+                              {new Date(conflict.matchDate).toLocaleDateString('zh-CN')}
+                              <div className="text-muted-foreground">vs {conflict.opponentTeam}</div>
+                            </TableCell>
+                            <TableCell className="text-sm">{describe(conflict.source)}</TableCell>
+                            <TableCell className="text-sm">{describe(conflict.target)}</TableCell>
+                            <TableCell>
+                              <Select
+                                value={resolutions[conflict.matchId] ?? 'KEEP_TARGET'}
+                                onValueChange={(value: MergeResolution) =>
+                                  setResolutions(prev => ({ ...prev, [conflict.matchId]: value }))
+                                }
+                              >
+                                <SelectTrigger className="w-28">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="KEEP_TARGET">{target.name}</SelectItem>
+                                  <SelectItem value="KEEP_SOURCE">{source.name}</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isMerging}>
+              取消
+            </Button>
+            <Button onClick={handleMerge} disabled={!preview || loadingPreview || isMerging}>
+              {isMerging ? '合并中...' : '确认合并'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
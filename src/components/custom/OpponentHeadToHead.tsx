@@ -0,0 +1,152 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Swords, Target } from "lucide-react";
+
+export interface HeadToHeadData {
+  opponent: {
+    id: string;
+    name: string;
+    aliases: string[];
+    matchCount: number;
+  };
+  record: {
+    played: number;
+    wins: number;
+    draws: number;
+    losses: number;
+    goalsFor: number;
+    goalsAgainst: number;
+  };
+  topScorers: {
+    playerId: string;
+    name: string;
+    goals: number;
+  }[];
+  matches: {
+    id: string;
+    matchDate: string;
+    opponentTeam: string;
+    ourScore: number | null;
+    opponentScore: number | null;
+  }[];
+}
+
+// Earlier meetings listed under the record
+const RECENT_MATCH_LIMIT = 5;
+
+interface OpponentHeadToHeadProps {
+  opponentId: string;
+  currentMatchId: string;
+}
+
+const getScoreColor = (ourScore: number, opponentScore: number) =>
+  ourScore > opponentScore ? "text-green-600" :
+  ourScore < opponentScore ? "text-red-600" : "text-yellow-600";
+
+export default function OpponentHeadToHead({ opponentId, currentMatchId }: OpponentHeadToHeadProps) {
+  const [headToHead, setHeadToHead] = useState<HeadToHeadData | null>(null);
+
+  const fetchHeadToHead = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/opponents/${opponentId}`);
+      const data = await response.json();
+      if (data.success) {
+        setHeadToHead(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching head-to-head:", error);
+    }
+  }, [opponentId]);
+
+  useEffect(() => {
+    fetchHeadToHead();
+  }, [fetchHeadToHead]);
+
+  if (!headToHead) {
+    return null;
+  }
+
+  const { record, topScorers } = headToHead;
+  const otherMatches = headToHead.matches
+    .filter(match => match.id !== currentMatchId)
+    .slice(0, RECENT_MATCH_LIMIT);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Swords className="h-5 w-5" />
+          历史交锋
+        </CardTitle>
+        <CardDescription>
+          对阵 {headToHead.opponent.name} 共 {headToHead.opponent.matchCount} 场
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="rounded-lg border p-2">
+            <div className="text-xl font-bold text-green-600">{record.wins}</div>
+            <div className="text-xs text-muted-foreground">胜</div>
+          </div>
+          <div className="rounded-lg border p-2">
+            <div className="text-xl font-bold text-yellow-600">{record.draws}</div>
+            <div className="text-xs text-muted-foreground">平</div>
+          </div>
+          <div className="rounded-lg border p-2">
+            <div className="text-xl font-bold text-red-600">{record.losses}</div>
+            <div className="text-xs text-muted-foreground">负</div>
+          </div>
+        </div>
+
+        <div className="flex justify-between">
+          <span className="text-sm text-muted-foreground">进球 / 失球:</span>
+          <span className="font-medium">
+            {record.goalsFor} / {record.goalsAgainst}
+          </span>
+        </div>
+
+        {topScorers.length > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            <h4 className="text-sm font-medium">对阵射手榜</h4>
+            {topScorers.map(scorer => (
+              <div key={scorer.playerId} className="flex items-center justify-between text-sm">
+                <span>{scorer.name}</span>
+                <span className="flex items-center gap-1 font-bold text-green-600">
+                  <Target className="h-4 w-4" />
+                  {scorer.goals}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {otherMatches.length > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            <h4 className="text-sm font-medium">往期比赛</h4>
+            {otherMatches.map(match => (
+              <Link
+                key={match.id}
+                href={`/games/${match.id}`}
+                className="flex items-center justify-between text-sm hover:underline"
+              >
+                <span className="text-muted-foreground">
+                  {new Date(match.matchDate).toLocaleDateString("zh-CN")}
+                </span>
+                {match.ourScore !== null && match.opponentScore !== null ? (
+                  <span className={`font-medium ${getScoreColor(match.ourScore, match.opponentScore)}`}>
+                    {match.ourScore} : {match.opponentScore}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">未开始</span>
+                )}
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
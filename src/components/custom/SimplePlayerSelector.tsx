@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { ChevronDown, ChevronRight, Users, Save } from 'lucide-react'
+import { ChevronDown, ChevronRight, Users, Save, CalendarCheck } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
@@ -16,6 +16,8 @@ interface SimplePlayerSelectorProps {
   isDirty?: boolean
   isSaving?: boolean
   className?: string
+  // Players who answered "yes" to the match RSVP
+  confirmedPlayerIds?: string[]
 }
 
 export default function SimplePlayerSelector({
@@ -25,7 +27,8 @@ export default function SimplePlayerSelector({
   onSave,
   isDirty = false,
   isSaving = false,
-  className = ''
+  className = '',
+  confirmedPlayerIds = []
 }: SimplePlayerSelectorProps) {
   const [isExpanded, setIsExpanded] = useState(false)
 
@@ -49,6 +52,14 @@ export default function SimplePlayerSelector({
     onSelectionChange(newSelection)
   }
 
+  const confirmedPlayers = filteredAvailablePlayers.filter(p => confirmedPlayerIds.includes(p.id))
+  const unselectedConfirmedPlayers = confirmedPlayers.filter(p => !selectedPlayerIds.has(p.id))
+
+  // Add everyone who answered yes, keeping the current selection
+  const handleSelectConfirmed = () => {
+    onSelectionChange([...selectedPlayers, ...unselectedConfirmedPlayers])
+  }
+
   return (
     <Card className={`w-full ${className}`}>
       <CardHeader className="pb-3">
@@ -69,17 +80,32 @@ export default function SimplePlayerSelector({
             </Badge>
           </button>
 
-          {onSave && (
-            <Button
-              onClick={onSave}
-              disabled={!isDirty || isSaving}
-              size="sm"
-              className="gap-1"
-            >
-              <Save className="h-4 w-4" />
-              {isSaving ? '保存中...' : '保存选择'}
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {confirmedPlayers.length > 0 && (
+              <Button
+                onClick={handleSelectConfirmed}
+                disabled={unselectedConfirmedPlayers.length === 0}
+                size="sm"
+                variant="outline"
+                className="gap-1"
+              >
+                <CalendarCheck className="h-4 w-4" />
+                选择已报名 ({confirmedPlayers.length})
+              </Button>
+            )}
+
+            {onSave && (
+              <Button
+                onClick={onSave}
+                disabled={!isDirty || isSaving}
+                size="sm"
+                className="gap-1"
+              >
+                <Save className="h-4 w-4" />
+                {isSaving ? '保存中...' : '保存选择'}
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
 
@@ -0,0 +1,39 @@
+"use client";
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+// Small trend line; a dashed baseline marks zero when the values cross it
+export default function Sparkline({ values, width = 120, height = 32, className }: SparklineProps) {
+  if (values.length < 2) {
+    return null;
+  }
+
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+  const x = (index: number) => (index / (values.length - 1)) * width;
+  const y = (value: number) => height - ((value - min) / range) * (height - 4) - 2;
+  const points = values.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`).join(" ");
+  const last = values[values.length - 1];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className ?? "text-primary"}
+      aria-hidden="true"
+    >
+      {min < 0 && (
+        <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke="currentColor" strokeOpacity={0.25} strokeDasharray="2 2" />
+      )}
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+      <circle cx={x(values.length - 1)} cy={y(last)} r={2} fill="currentColor" />
+    </svg>
+  );
+}
@@ -3,12 +3,21 @@
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 import styles from './YearSelector.module.css'
 
+export interface SeasonOption {
+  id: string
+  name: string
+}
+
 interface YearSelectorProps {
   value: number
   onChange: (year: number) => void
   minYear?: number
   maxYear?: number
   className?: string
+  // Optional season filter; a selected season replaces the calendar year
+  seasons?: SeasonOption[]
+  seasonId?: string | null
+  onSeasonChange?: (seasonId: string | null) => void
 }
 
 export default function YearSelector({ 
@@ -16,7 +25,10 @@ export default function YearSelector({
   onChange, 
   minYear,
   maxYear,
-  className = ''
+  className = '',
+  seasons = [],
+  seasonId = null,
+  onSeasonChange
 }: YearSelectorProps) {
   const currentYear = new Date().getFullYear()
   
@@ -24,15 +36,25 @@ export default function YearSelector({
   const min = minYear || currentYear - 5  // Default: 5 years back
   const max = maxYear || currentYear       // Default: current year
   
+  const selectedSeason = seasons.find(season => season.id === seasonId)
+  
+  // Stepping through years leaves season mode
+  const changeYear = (year: number) => {
+    if (selectedSeason) {
+      onSeasonChange?.(null)
+    }
+    onChange(year)
+  }
+  
   const handleDecrease = () => {
     if (value > min) {
-      onChange(value - 1)
+      changeYear(value - 1)
     }
   }
   
   const handleIncrease = () => {
     if (value < max) {
-      onChange(value + 1)
+      changeYear(value + 1)
     }
   }
   
@@ -49,7 +71,7 @@ export default function YearSelector({
       </button>
       
       <span className={styles.yearLabel}>
-        {value}年
+        {selectedSeason ? selectedSeason.name : `${value}年`}
       </span>
       
       <button 
@@ -61,6 +83,22 @@ export default function YearSelector({
       >
         <ChevronRight size={20} />
       </button>
+      
+      {onSeasonChange && seasons.length > 0 && (
+        <select
+          className={styles.seasonSelect}
+          value={seasonId ?? ''}
+          onChange={(e) => onSeasonChange(e.target.value || null)}
+          aria-label="Season"
+        >
+          <option value="">按年份</option>
+          {seasons.map(season => (
+            <option key={season.id} value={season.id}>
+              {season.name}
+            </option>
+          ))}
+        </select>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1 +1,2 @@
-export { default } from './YearSelector'
\ No newline at end of file
+export { default } from './YearSelector'
+export type { SeasonOption } from './YearSelector'
\ No newline at end of file
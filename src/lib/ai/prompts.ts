@@ -19,6 +19,7 @@ const attendanceRules = [
   "比赛事件（进球/红黄牌等）规则：",
   "支持的事件类型：GOAL(进球), ASSIST(助攻), YELLOW_CARD(黄牌), RED_CARD(红牌), PENALTY_GOAL(点球进), PENALTY_MISS(点球失), OWN_GOAL(乌龙), SAVE(扑救)。",
   "时间(minute)使用绝对分钟数（0-90+）。",
+  "进球有助攻时（如'李四助攻张三进球'），在进球事件上填写 assistPlayerId，不要再单独生成 ASSIST 事件；只有无法对应到某个进球的助攻才单独生成 ASSIST。",
   "如果用户使用'第X节第Y分钟'描述，请按以下规则转换为绝对分钟数：",
   "- 第一节(Section 1): 0 + Y",
   "- 第二节(Section 2): 30 + Y (例如第二节5分钟 = 35分钟)",
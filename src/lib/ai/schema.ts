@@ -209,6 +209,8 @@ export const eventsPatchSchema = z.object({
           "SAVE",
         ]),
         minute: z.number().int().min(0).max(120).optional(),
+        // GOAL/PENALTY_GOAL only: the assisting player, recorded as an ASSIST paired with this goal
+        assistPlayerId: z.string().optional(),
       })
     )
     .min(1),
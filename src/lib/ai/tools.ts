@@ -295,9 +295,9 @@ export const createReadOnlyTools = (baseUrl: string, headers?: HeadersInit) => {
     },
     {
       name: "get_leaderboard",
-      description: "获取排行榜数据（进球/助攻/红黄牌/点球/乌龙/扑救）。",
+      description: "获取排行榜数据（进球/助攻/红黄牌/点球/乌龙/扑救/门将）。",
       schema: z.object({
-        type: z.enum(["goals", "assists", "yellow_cards", "red_cards", "penalty_goals", "penalty_misses", "own_goals", "saves"]).optional(),
+        type: z.enum(["goals", "assists", "yellow_cards", "red_cards", "penalty_goals", "penalty_misses", "own_goals", "saves", "goalkeepers"]).optional(),
         year: z.number().optional(),
         month: z.number().optional(),
         limit: z.number().optional(),
@@ -0,0 +1,191 @@
+/**
+ * Backup Archive
+ *
+ * The file format of a club data backup: a zip with one CSV per table and a
+ * manifest.json listing the tables in restore order. Cells are typed by the
+ * Prisma schema, so a backup restores into the same column types:
+ * - DateTime as ISO timestamps, Decimal as exact decimal text, Json and lists as JSON text
+ * - An empty cell is null for optional columns and an empty string otherwise
+ */
+
+import * as XLSX from 'xlsx'
+import { Prisma } from '@prisma/client'
+
+export const BACKUP_FORMAT_VERSION = 1
+
+export const BACKUP_MANIFEST_FILE = 'manifest.json'
+
+export interface BackupTableEntry {
+  name: string          // Database table, e.g. match_events
+  file: string          // CSV file inside the zip
+  rows: number
+  columns: string[]
+}
+
+export interface BackupManifest {
+  formatVersion: number
+  createdAt: string
+  tables: BackupTableEntry[]
+  excludedColumns: string[]   // table.column pairs deliberately left out, e.g. password hashes
+}
+
+export type BackupRow = Record<string, unknown>
+
+type ModelField = Prisma.DMMF.Field
+
+// UTF-8 byte order mark so spreadsheet apps show Chinese names correctly
+const BOM = '\uFEFF'
+
+/**
+ * Scalar and enum columns of a Prisma model, in schema order
+ */
+export function getModelColumns(modelName: Prisma.ModelName): ModelField[] {
+  const model = Prisma.dmmf.datamodel.models.find(m => m.name === modelName)
+  if (!model) {
+    throw new Error(`Unknown model ${modelName}`)
+  }
+  return model.fields.filter(field => field.kind === 'scalar' || field.kind === 'enum')
+}
+
+const toCell = (value: unknown, field: ModelField): string => {
+  if (value === null || value === undefined) return ''
+  if (field.isList || field.type === 'Json') return JSON.stringify(value)
+  if (value instanceof Date) return value.toISOString()
+  return String(value)
+}
+
+const fromCell = (cell: string, field: ModelField): unknown => {
+  if (cell === '') {
+    if (!field.isRequired) return null
+    if (field.type === 'String') return ''
+  }
+  if (field.isList || field.type === 'Json') return JSON.parse(cell)
+
+  switch (field.type) {
+    case 'Int':
+      return parseInt(cell, 10)
+    case 'Float':
+      return Number(cell)
+    case 'Boolean':
+      return cell === 'true'
+    case 'DateTime':
+      return new Date(cell)
+    default:
+      return cell
+  }
+}
+
+const quoteCsv = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)
+
+/**
+ * Rows of a table as CSV with a header line
+ */
+export function toCsv(rows: BackupRow[], columns: ModelField[]): string {
+  const lines = [
+    columns.map(column => quoteCsv(column.name)).join(','),
+    ...rows.map(row => columns.map(column => quoteCsv(toCell(row[column.name], column))).join(','))
+  ]
+  return BOM + lines.join('\r\n') + '\r\n'
+}
+
+/**
+ * Split CSV text into records of cells (RFC 4180 quoting)
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let quoted = false
+  const input = text.startsWith(BOM) ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      record.push(cell)
+      records.push(record)
+      record = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell)
+    records.push(record)
+  }
+
+  return records
+}
+
+/**
+ * Typed rows from a table's CSV; columns the current schema no longer has are returned separately
+ */
+export function fromCsv(text: string, columns: ModelField[]): { rows: BackupRow[]; unknownColumns: string[] } {
+  const [header = [], ...records] = parseCsv(text)
+  const fields = header.map(name => columns.find(column => column.name === name))
+
+  const rows = records.map(record => {
+    const row: BackupRow = {}
+    fields.forEach((field, index) => {
+      if (field) row[field.name] = fromCell(record[index] ?? '', field)
+    })
+    return row
+  })
+
+  return { rows, unknownColumns: header.filter((_, index) => !fields[index]) }
+}
+
+/**
+ * Zip the manifest and table files
+ */
+export function writeBackupZip(manifest: BackupManifest, files: Record<string, string>): Buffer {
+  const container = XLSX.CFB.utils.cfb_new()
+  XLSX.CFB.utils.cfb_add(container, `/${BACKUP_MANIFEST_FILE}`, Buffer.from(JSON.stringify(manifest, null, 2)))
+  for (const [name, content] of Object.entries(files)) {
+    XLSX.CFB.utils.cfb_add(container, `/${name}`, Buffer.from(content))
+  }
+  return XLSX.CFB.write(container, { fileType: 'zip', type: 'buffer', compression: true }) as Buffer
+}
+
+/**
+ * Manifest and file reader of a backup zip; throws when the manifest is missing or from a newer format
+ */
+export function readBackupZip(buffer: Buffer): { manifest: BackupManifest; readFile: (name: string) => string } {
+  let container: ReturnType<typeof XLSX.CFB.read>
+  try {
+    container = XLSX.CFB.read(buffer, { type: 'buffer' })
+  } catch {
+    throw new Error('Backup file is not a valid zip archive')
+  }
+
+  const readFile = (name: string): string => {
+    const entry = XLSX.CFB.find(container, name)
+    if (!entry?.content) {
+      throw new Error(`Backup is missing ${name}`)
+    }
+    return Buffer.from(entry.content).toString('utf8')
+  }
+
+  const manifest = JSON.parse(readFile(BACKUP_MANIFEST_FILE)) as BackupManifest
+  if (manifest.formatVersion !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup format version ${manifest.formatVersion} (expected ${BACKUP_FORMAT_VERSION})`)
+  }
+
+  return { manifest, readFile }
+}
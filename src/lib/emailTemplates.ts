@@ -0,0 +1,187 @@
+/**
+ * Email Templates
+ *
+ * Builds the subject, HTML and plain-text bodies for every notification
+ * the club sends. Each template returns a complete message minus the
+ * recipient, which the notification service fills in.
+ */
+
+import type { EmailMessage } from '@/lib/mailer'
+import type { PlayerFeeBreakdown } from '@/lib/services/feeCalculationService'
+import type { PlayerBalance } from '@/lib/services/paymentService'
+
+export type EmailContent = Omit<EmailMessage, 'to'>
+
+export interface MatchSummary {
+  id: string
+  matchDate: Date
+  matchTime: Date | null
+  opponentTeam: string
+}
+
+const APP_URL = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const formatDate = (date: Date) => date.toLocaleDateString('zh-CN', { timeZone: 'Asia/Shanghai' })
+
+const formatTime = (time: Date | null) =>
+  time ? time.toLocaleTimeString('zh-CN', { timeZone: 'Asia/Shanghai', hour: '2-digit', minute: '2-digit' }) : '待定'
+
+const formatAmount = (amount: number) => `¥${amount.toFixed(2)}`
+
+const matchLink = (matchId: string) => `${APP_URL}/games/${matchId}`
+
+const OPT_OUT_FOOTER = '如不想再收到此类邮件，可在个人资料页关闭对应的邮件通知。'
+
+interface EmailBody {
+  greeting: string
+  intro: string[]
+  rows?: [string, string][]
+  outro?: string[]
+  // Account emails (password, claims) cannot be opted out of
+  optOut?: boolean
+}
+
+// Renders plain-text body parts into the shared HTML layout and a text fallback
+const render = (subject: string, body: EmailBody): EmailContent => {
+  const rows = body.rows ?? []
+  const outro = body.outro ?? []
+  const footer = body.optOut === false ? [] : [OPT_OUT_FOOTER]
+
+  const paragraph = (value: string) => `<p>${escapeHtml(value)}</p>`
+  const table = rows.length > 0
+    ? `<table style="border-collapse:collapse;margin:12px 0">${rows
+      .map(([label, value]) => `<tr><td style="padding:4px 12px 4px 0;color:#666">${escapeHtml(label)}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`)
+      .join('')}</table>`
+    : ''
+
+  const html = [
+    '<div style="font-family:sans-serif;font-size:14px;line-height:1.6;color:#222">',
+    paragraph(body.greeting),
+    ...body.intro.map(paragraph),
+    table,
+    ...outro.map(paragraph),
+    ...footer.map(value => `<p style="color:#999;font-size:12px">${escapeHtml(value)}</p>`),
+    '</div>'
+  ].join('')
+
+  const text = [
+    body.greeting,
+    '',
+    ...body.intro,
+    ...rows.map(([label, value]) => `${label}：${value}`),
+    ...outro,
+    ...(footer.length > 0 ? ['', ...footer] : [])
+  ].join('\n')
+
+  return { subject, html, text }
+}
+
+export function matchCreatedEmail(name: string, match: MatchSummary): EmailContent {
+  return render(`新比赛：对阵 ${match.opponentTeam}`, {
+    greeting: `${name}，你好：`,
+    intro: ['球队新安排了一场比赛：'],
+    rows: [
+      ['对手', match.opponentTeam],
+      ['日期', formatDate(match.matchDate)],
+      ['时间', formatTime(match.matchTime)]
+    ],
+    outro: [`可以在这里报名：${matchLink(match.id)}`]
+  })
+}
+
+export function matchChangedEmail(name: string, before: MatchSummary, after: MatchSummary): EmailContent {
+  const rows: [string, string][] = []
+  if (before.opponentTeam !== after.opponentTeam) {
+    rows.push(['对手', `${before.opponentTeam} → ${after.opponentTeam}`])
+  }
+  if (formatDate(before.matchDate) !== formatDate(after.matchDate)) {
+    rows.push(['日期', `${formatDate(before.matchDate)} → ${formatDate(after.matchDate)}`])
+  }
+  if (formatTime(before.matchTime) !== formatTime(after.matchTime)) {
+    rows.push(['时间', `${formatTime(before.matchTime)} → ${formatTime(after.matchTime)}`])
+  }
+
+  return render(`比赛信息变更：对阵 ${after.opponentTeam}`, {
+    greeting: `${name}，你好：`,
+    intro: ['你报名或参加的比赛信息有变更：'],
+    rows,
+    outro: [`比赛详情：${matchLink(after.id)}`]
+  })
+}
+
+export function feeBreakdownEmail(match: MatchSummary, fees: PlayerFeeBreakdown): EmailContent {
+  const rows: [string, string][] = [
+    ['出场时间', `${fees.totalTime} 节`],
+    ['场地费', formatAmount(fees.finalFees.fieldFee)],
+    ['视频费', formatAmount(fees.finalFees.videoFee)],
+    ['迟到费', formatAmount(fees.finalFees.lateFee)],
+    ['合计', formatAmount(fees.finalFees.totalFee)]
+  ]
+  if (fees.overrides?.notes) {
+    rows.push(['备注', fees.overrides.notes])
+  }
+
+  return render(`费用明细：${formatDate(match.matchDate)} 对阵 ${match.opponentTeam}`, {
+    greeting: `${fees.playerName}，你好：`,
+    intro: ['本场比赛的费用已确认：'],
+    rows,
+    outro: [`比赛详情：${matchLink(match.id)}`]
+  })
+}
+
+export function balanceReminderEmail(balance: PlayerBalance): EmailContent {
+  const rows: [string, string][] = balance.unpaidMatches.map(match => [
+    `${formatDate(match.matchDate)} ${match.opponentTeam}`,
+    formatAmount(match.outstanding)
+  ])
+  rows.push(['待缴合计', formatAmount(balance.outstanding)])
+
+  return render(`球费提醒：待缴 ${formatAmount(balance.outstanding)}`, {
+    greeting: `${balance.playerName}，你好：`,
+    intro: ['以下比赛的费用尚未缴清：'],
+    rows,
+    outro: ['请尽快联系管理员缴费，谢谢！']
+  })
+}
+
+export function passwordSetEmail(name: string): EmailContent {
+  return render('你的账号密码已设置', {
+    greeting: `${name}，你好：`,
+    intro: [
+      '管理员已为你的账号设置了登录密码，现在可以登录并修改为自己的密码。',
+      `登录地址：${APP_URL}/login`,
+      '如果你没有申请设置密码，请联系管理员。'
+    ],
+    optOut: false
+  })
+}
+
+export function claimDecisionEmail(name: string, approved: boolean, reason?: string | null): EmailContent {
+  if (approved) {
+    return render('账号认领申请已通过', {
+      greeting: `${name}，你好：`,
+      intro: [
+        '你的账号认领申请已通过，历史比赛记录已归入你的账号。',
+        `现在可以使用申请时填写的邮箱和密码登录：${APP_URL}/login`
+      ],
+      optOut: false
+    })
+  }
+
+  return render('账号认领申请未通过', {
+    greeting: `${name}，你好：`,
+    intro: [
+      '很抱歉，你的账号认领申请未通过。',
+      ...(reason ? [`原因：${reason}`] : []),
+      '如有疑问请联系管理员。'
+    ],
+    optOut: false
+  })
+}
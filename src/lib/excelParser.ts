@@ -1,12 +1,11 @@
 import * as XLSX from 'xlsx'
+import { DEFAULT_MATCH_FORMAT, isValidMatchFormat, type MatchFormat } from '@/lib/utils/matchFormat'
 
 export interface ExcelPlayerData {
   序号: number
   姓名: string
   shortId: string
-  section1: [number | string, number | string, number | string]
-  section2: [number | string, number | string, number | string]
-  section3: [number | string, number | string, number | string]
+  sections: (number | string)[][]  // One array of part values per section
   totalTime: number
   fieldFee: number
   onTime: boolean
@@ -29,6 +28,13 @@ export interface ExcelMatchData {
   players: ExcelPlayerData[]
   unknownPlayers: string[]
   totalParticipants: number
+  format: Pick<MatchFormat, 'sectionCount' | 'partsPerSection'>
+}
+
+export interface ExcelSheetResult {
+  sheetName: string
+  data: ExcelMatchData | null
+  error: string | null
 }
 
 /**
@@ -54,6 +60,54 @@ export function parseExcelFile(buffer: Buffer): ExcelMatchData {
   }
 }
 
+/**
+ * Parse every sheet of a season workbook; each sheet is one match.
+ * A sheet that fails to parse is reported instead of failing the whole workbook.
+ */
+export function parseExcelWorkbook(buffer: Buffer): ExcelSheetResult[] {
+  let workbook: XLSX.WorkBook
+  try {
+    workbook = XLSX.read(buffer, { type: 'buffer' })
+  } catch (error) {
+    throw new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+
+  return workbook.SheetNames.map(sheetName => {
+    try {
+      const rawData = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+        header: 1,
+        defval: null
+      }) as (string | number | null)[][]
+
+      return { sheetName, data: parseExcelData(rawData, sheetName), error: null }
+    } catch (error) {
+      return { sheetName, data: null, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+}
+
+/**
+ * Read match date and opponent from a sheet name like "12月27号VS新新联".
+ * Sheet names carry no year, so the caller supplies it; dates are UTC days like other match dates.
+ */
+export function parseSheetTitle(sheetName: string, year: number): { matchDate: Date | null; opponentTeam: string } {
+  const normalized = sheetName.replace(/\s+/g, '').replace(/vs/gi, 'VS')
+
+  const dateMatch = normalized.match(/(\d{1,2})月(\d{1,2})[号日]/)
+  const month = dateMatch ? parseInt(dateMatch[1], 10) : 0
+  const day = dateMatch ? parseInt(dateMatch[2], 10) : 0
+  const matchDate = month >= 1 && month <= 12 && day >= 1 && day <= 31
+    ? new Date(Date.UTC(year, month - 1, day))
+    : null
+
+  const vsIndex = normalized.indexOf('VS')
+  const opponentTeam = vsIndex !== -1
+    ? normalized.substring(vsIndex + 2)
+    : normalized.replace(/^\d{1,2}月\d{1,2}[号日]/, '')
+
+  return { matchDate, opponentTeam: opponentTeam || 'Unknown Team' }
+}
+
 /**
  * Parse raw Excel data array into structured match data
  */
@@ -97,6 +151,11 @@ export function parseExcelData(rawData: (string | number | null)[][], sheetName:
     }
   }
   
+  const format = detectSheetFormat(rawData, dataStartRow, hasShortIdColumn ? 3 : 2)
+  const attendanceCols = format.sectionCount * format.partsPerSection
+  // Columns after the attendance block shift when the format has more or fewer than 9 parts
+  const colShift = attendanceCols - 9
+  
   const players: ExcelPlayerData[] = []
   const unknownPlayers: string[] = []
   
@@ -123,38 +182,25 @@ export function parseExcelData(rawData: (string | number | null)[][], sheetName:
     }
     
     try {
-      // Parse attendance data (sections 1-3, parts 1-3)
-      const section1: [number | string, number | string, number | string] = [
-        parseAttendanceValue(row[attendanceStartCol]), 
-        parseAttendanceValue(row[attendanceStartCol + 1]),
-        parseAttendanceValue(row[attendanceStartCol + 2])
-      ]
-      
-      const section2: [number | string, number | string, number | string] = [
-        parseAttendanceValue(row[attendanceStartCol + 3]),
-        parseAttendanceValue(row[attendanceStartCol + 4]),
-        parseAttendanceValue(row[attendanceStartCol + 5])
-      ]
-      
-      const section3: [number | string, number | string, number | string] = [
-        parseAttendanceValue(row[attendanceStartCol + 6]),
-        parseAttendanceValue(row[attendanceStartCol + 7]),
-        parseAttendanceValue(row[attendanceStartCol + 8])
-      ]
+      // Parse attendance data, section by section
+      const sections = Array.from({ length: format.sectionCount }, (_, section) =>
+        Array.from({ length: format.partsPerSection }, (_, part) =>
+          parseAttendanceValue(row[attendanceStartCol + section * format.partsPerSection + part])
+        )
+      )
       
       // Parse goals and assists from the last column
       const { goals, assists } = parseGoalsAssists(row[row.length - 1])
       
       // Column indices for other fields depend on whether shortId column exists
       // When shortId exists, all columns shift right by 1
-      const totalTimeCol = hasShortIdColumn ? 12 : 11
-      const feeCoefCol = hasShortIdColumn ? 13 : 12
-      const fieldFeeCol = hasShortIdColumn ? 14 : 13
-      const onTimeCol = hasShortIdColumn ? 15 : 14
-      const lateFeeCol = hasShortIdColumn ? 17 : 16
-      const videoFeeCol = hasShortIdColumn ? 18 : 17
-      const actualFeeCol = hasShortIdColumn ? 19 : 18  // 实收费用 column (actual fee collected)
-      const notesCol = hasShortIdColumn ? 20 : 19
+      const totalTimeCol = (hasShortIdColumn ? 12 : 11) + colShift
+      const fieldFeeCol = (hasShortIdColumn ? 14 : 13) + colShift
+      const onTimeCol = (hasShortIdColumn ? 15 : 14) + colShift
+      const lateFeeCol = (hasShortIdColumn ? 17 : 16) + colShift
+      const videoFeeCol = (hasShortIdColumn ? 18 : 17) + colShift
+      const actualFeeCol = (hasShortIdColumn ? 19 : 18) + colShift  // 实收费用 column (actual fee collected)
+      const notesCol = (hasShortIdColumn ? 20 : 19) + colShift
       
       // Parse late arrival status - onTimeCol is "准时到场" (1 = on time)
       const onTime = row[onTimeCol] === 1
@@ -163,9 +209,7 @@ export function parseExcelData(rawData: (string | number | null)[][], sheetName:
         序号: parseFloat(row[0]?.toString() || '0') || 0,
         姓名: playerName,
         shortId: shortId,
-        section1,
-        section2,
-        section3,
+        sections,
         totalTime: parseFloat(row[totalTimeCol]?.toString() || '0') || 0,
         fieldFee: parseFloat(row[fieldFeeCol]?.toString() || '0') || 0,
         onTime,
@@ -224,7 +268,7 @@ export function parseExcelData(rawData: (string | number | null)[][], sheetName:
       waterFeeTotal = typeof lastCol === 'number' ? lastCol : parseFloat(lastCol?.toString() || '0')
     } else {
       // Fall back to old format: parse from column 19/20 (备注) "场地1100+水费50"
-      const notesCol = hasShortIdColumn ? 20 : 19
+      const notesCol = (hasShortIdColumn ? 20 : 19) + colShift
       const notesCell = totalsRow[notesCol]
       if (notesCell && typeof notesCell === 'string') {
         const match = notesCell.match(/场地(\d+)\+?.*?水费(\d+)/)
@@ -239,7 +283,7 @@ export function parseExcelData(rawData: (string | number | null)[][], sheetName:
   // Fee coefficient from any player row
   if (dataStartRow >= 0) {
     const firstPlayerRow = rawData[dataStartRow]
-    const feeCoefCol = hasShortIdColumn ? 13 : 12
+    const feeCoefCol = (hasShortIdColumn ? 13 : 12) + colShift
     if (firstPlayerRow[feeCoefCol] && typeof firstPlayerRow[feeCoefCol] === 'number') {
       feeCoefficient = firstPlayerRow[feeCoefCol]
     }
@@ -254,10 +298,41 @@ export function parseExcelData(rawData: (string | number | null)[][], sheetName:
     opponentScore,
     players,
     unknownPlayers,
-    totalParticipants: players.length
+    totalParticipants: players.length,
+    format
   }
 }
 
+/**
+ * Read sections × parts from the part-number header row (1, 2, 3, 1, 2, 3, ...)
+ * just above the data rows; falls back to the default 3 × 3 layout
+ */
+function detectSheetFormat(
+  rawData: (string | number | null)[][],
+  dataStartRow: number,
+  attendanceStartCol: number
+): Pick<MatchFormat, 'sectionCount' | 'partsPerSection'> {
+  const fallback = {
+    sectionCount: DEFAULT_MATCH_FORMAT.sectionCount,
+    partsPerSection: DEFAULT_MATCH_FORMAT.partsPerSection
+  }
+  const headerRow = rawData[dataStartRow - 1]
+  if (!headerRow) return fallback
+  
+  const partNumbers: number[] = []
+  for (let col = attendanceStartCol; col < headerRow.length; col++) {
+    const value = Number(headerRow[col])
+    if (headerRow[col] === null || headerRow[col] === '' || !Number.isInteger(value) || value < 1) break
+    partNumbers.push(value)
+  }
+  
+  const partsPerSection = Math.max(0, ...partNumbers)
+  const sectionCount = partsPerSection > 0 ? partNumbers.length / partsPerSection : 0
+  const format = { ...DEFAULT_MATCH_FORMAT, sectionCount, partsPerSection }
+  
+  return isValidMatchFormat(format) ? { sectionCount, partsPerSection } : fallback
+}
+
 /**
  * Parse attendance value (1, 0.5, '守门', null/undefined -> 0)
  */
@@ -7,13 +7,18 @@
  * - Player view pages
  * 
  * Key principles:
- * - Goalkeepers are charged 0 yuan for time played as goalkeeper
+ * - Goalkeeper time is discounted by the fee policy (100% by default, i.e. free)
  * - Goalkeepers are charged normal rates for time played as regular player
- * - Field fee is based on normal player time only
- * - Video fee follows Excel formula: ROUND(totalTime/3*videoFeeRate, 0)
+ * - Field fee is based on chargeable time (normal time plus discounted goalkeeper time)
+ * - Video fee follows Excel formula: ROUND(chargeableTime/partsPerSection*videoFeeRate, 0)
  * - Late fee uses configurable rate (default 10 yuan) if any late arrival
+ * - Sections and parts follow the match format (default 3 sections × 3 parts)
+ * - Trial discount, minimum charge, cap and rounding come from the match's fee policy
  */
 
+import { DEFAULT_MATCH_FORMAT, getFormatSlots, type MatchFormat } from '@/lib/utils/matchFormat';
+import { LEGACY_FEE_POLICY, roundFeeAmount, type FeePolicyRules } from '@/lib/utils/feePolicy';
+
 export interface AttendanceData {
   attendance: {
     [section: string]: {
@@ -29,6 +34,7 @@ export interface AttendanceData {
 
 export interface FeeCalculationResult {
   normalPlayerParts: number;
+  goalkeeperParts: number;
   sectionsWithNormalPlay: number;
   fieldFee: number;
   lateFee: number;
@@ -42,6 +48,9 @@ export interface FeeCalculationInput {
   feeCoefficient: number;
   lateFeeRate?: number;      // Optional, defaults to 10
   videoFeeRate?: number;     // Optional, defaults to 2
+  format?: MatchFormat;      // Optional, defaults to 3 sections × 3 parts
+  policy?: FeePolicyRules;   // Optional, defaults to the legacy rules
+  isTrialPlayer?: boolean;   // Optional, TRIAL players get the policy's trial discount
 }
 
 /**
@@ -56,18 +65,22 @@ export function calculatePlayerFees(input: FeeCalculationInput): FeeCalculationR
     isLateArrival,
     feeCoefficient,
     lateFeeRate = 10,      // Default fallback value
-    videoFeeRate = 2       // Default fallback value
+    videoFeeRate = 2,      // Default fallback value
+    format = DEFAULT_MATCH_FORMAT,
+    policy = LEGACY_FEE_POLICY,
+    isTrialPlayer = false
   } = input;
 
   // Count total parts played as normal player (not as goalkeeper)
   let normalPlayerParts = 0;
+  let goalkeeperParts = 0;
   const sectionsWithNormalPlay = new Set<number>();
 
-  // Process each section (1-3) and part (1-3)
-  for (let section = 1; section <= 3; section++) {
+  // Process each section and part of the match format
+  for (let section = 1; section <= format.sectionCount; section++) {
     let playedAsNormalInSection = false;
 
-    for (let part = 1; part <= 3; part++) {
+    for (let part = 1; part <= format.partsPerSection; part++) {
       const sectionStr = section.toString();
       const partStr = part.toString();
 
@@ -78,6 +91,8 @@ export function calculatePlayerFees(input: FeeCalculationInput): FeeCalculationR
       if (attendance > 0 && !isGoalkeeper) {
         normalPlayerParts += attendance;
         playedAsNormalInSection = true;
+      } else if (attendance > 0) {
+        goalkeeperParts += attendance;
       }
     }
 
@@ -87,15 +102,37 @@ export function calculatePlayerFees(input: FeeCalculationInput): FeeCalculationR
     }
   }
 
-  // Calculate individual fees with integer rounding (round)
-  const fieldFee = Math.round(normalPlayerParts * feeCoefficient);
-  const lateFee = isLateArrival ? Math.round(Number(lateFeeRate)) : 0;
-  // Video fee follows Excel formula: ROUND(totalTime/3*videoFeeRate, 0)
-  const videoFee = Math.round(normalPlayerParts / 3 * Number(videoFeeRate));
+  const round = (value: number) => roundFeeAmount(value, policy.roundingMode);
+
+  // Goalkeeper time is charged at the part of the rate the policy doesn't discount
+  const chargeableParts = normalPlayerParts + goalkeeperParts * (1 - policy.goalkeeperDiscountPercent / 100);
+  const playerRate = isTrialPlayer ? 1 - policy.trialDiscountPercent / 100 : 1;
+
+  // Calculate individual fees with the policy's integer rounding (round by default)
+  let fieldFee = round(chargeableParts * feeCoefficient * playerRate);
+  // Video fee follows Excel formula: ROUND(chargeableTime/partsPerSection*videoFeeRate, 0)
+  let videoFee = round(chargeableParts / format.partsPerSection * Number(videoFeeRate) * playerRate);
+  const lateFee = isLateArrival ? round(Number(lateFeeRate)) : 0;
+
+  // Minimum charge and cap bound the playing charge (field + video); the late fee stays on top
+  if (chargeableParts > 0) {
+    const playingCharge = fieldFee + videoFee;
+    const bounded = Math.min(
+      Math.max(playingCharge, policy.minimumCharge ?? 0),
+      policy.maximumCharge ?? Infinity
+    );
+
+    if (bounded !== playingCharge) {
+      fieldFee = Math.max(0, fieldFee + bounded - playingCharge);
+      videoFee = bounded - fieldFee;
+    }
+  }
+
   const totalFee = fieldFee + lateFee + videoFee;
 
   return {
     normalPlayerParts,
+    goalkeeperParts,
     sectionsWithNormalPlay: sectionsWithNormalPlay.size,
     fieldFee,
     lateFee,
@@ -145,9 +182,12 @@ export function convertLegacyParticipationToAttendanceData(participation: Record
 }
 
 /**
- * Validate attendance data structure
+ * Validate attendance data structure against the match format
  */
-export function validateAttendanceData(attendanceData: unknown): attendanceData is AttendanceData {
+export function validateAttendanceData(
+  attendanceData: unknown,
+  format: MatchFormat = DEFAULT_MATCH_FORMAT
+): attendanceData is AttendanceData {
   if (!attendanceData || typeof attendanceData !== 'object') {
     return false;
   }
@@ -156,23 +196,12 @@ export function validateAttendanceData(attendanceData: unknown): attendanceData
     return false;
   }
 
-  // Check structure for sections 1-3 and parts 1-3
-  for (let section = 1; section <= 3; section++) {
+  // Check structure for every section and part of the format
+  return getFormatSlots(format).every(({ section, part }) => {
     const sectionStr = section.toString();
+    const partStr = part.toString();
 
-    if (!attendanceData.attendance[sectionStr] || !attendanceData.goalkeeper[sectionStr]) {
-      return false;
-    }
-
-    for (let part = 1; part <= 3; part++) {
-      const partStr = part.toString();
-
-      if (typeof attendanceData.attendance[sectionStr][partStr] !== 'number' ||
-        typeof attendanceData.goalkeeper[sectionStr][partStr] !== 'boolean') {
-        return false;
-      }
-    }
-  }
-
-  return true;
+    return typeof attendanceData.attendance[sectionStr]?.[partStr] === 'number' &&
+      typeof attendanceData.goalkeeper[sectionStr]?.[partStr] === 'boolean';
+  });
 }
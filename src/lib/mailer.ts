@@ -0,0 +1,82 @@
+/**
+ * Outgoing Email Transports
+ *
+ * Sends mail through Resend in production. Tests and local development use
+ * the file or console transport instead, selected with EMAIL_TRANSPORT
+ * (resend | file | console). Without EMAIL_TRANSPORT, Resend is used only
+ * when RESEND_API_KEY is set.
+ */
+
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+
+export const EMAIL_FROM = process.env.EMAIL_FROM || 'Football Club <noreply@example.com>'
+
+export const EMAIL_OUTBOX_DIR = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'storage', 'outbox')
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+const resendTransport: MailTransport = {
+  name: 'resend',
+
+  async send(message) {
+    // Imported lazily so deployments without an API key never load the SDK
+    const { Resend } = await import('resend')
+    const client = new Resend(process.env.RESEND_API_KEY)
+
+    const { error } = await client.emails.send({
+      from: EMAIL_FROM,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text
+    })
+
+    if (error) {
+      throw new Error(`Resend rejected email to ${message.to}: ${error.message}`)
+    }
+  }
+}
+
+// Writes each message to <outbox>/<timestamp>-<recipient>.json for inspection
+const fileTransport: MailTransport = {
+  name: 'file',
+
+  async send(message) {
+    await mkdir(EMAIL_OUTBOX_DIR, { recursive: true })
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+    const target = path.join(EMAIL_OUTBOX_DIR, `${Date.now()}-${safeRecipient}.json`)
+    await writeFile(target, JSON.stringify({ from: EMAIL_FROM, ...message }, null, 2), 'utf8')
+  }
+}
+
+const consoleTransport: MailTransport = {
+  name: 'console',
+
+  async send(message) {
+    console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`)
+  }
+}
+
+export function getMailTransport(): MailTransport {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case 'resend':
+      return resendTransport
+    case 'file':
+      return fileTransport
+    case 'console':
+      return consoleTransport
+    default:
+      return process.env.RESEND_API_KEY ? resendTransport : consoleTransport
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * Match Workbook
+ *
+ * Versioned XLSX layout for a single match that the export writes and the
+ * import reads back without loss:
+ * - 比赛: format version and match fields as label/value rows
+ * - 出勤: one row per participant with every part, goalkeeper and late flags,
+ *   the stored fees and the admin fee override
+ * - 事件: every match event with its type, minute and description; an assist
+ *   names the row number of the goal it set up
+ *
+ * Values are written exactly as stored (no rounding), so exporting an
+ * imported workbook yields the same workbook.
+ */
+
+import * as XLSX from 'xlsx'
+import type { EventType } from '@prisma/client'
+import { getFormatSlots, getSectionLabel, isValidMatchFormat, type MatchFormat } from '@/lib/utils/matchFormat'
+
+export const MATCH_WORKBOOK_VERSION = 1
+
+export const MATCH_WORKBOOK_SHEETS = {
+  MATCH: '比赛',
+  ATTENDANCE: '出勤',
+  EVENTS: '事件'
+} as const
+
+export const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  GOAL: '进球',
+  ASSIST: '助攻',
+  YELLOW_CARD: '黄牌',
+  RED_CARD: '红牌',
+  PENALTY_GOAL: '点球(进)',
+  PENALTY_MISS: '点球(失)',
+  OWN_GOAL: '乌龙球',
+  SAVE: '扑救'
+}
+
+export interface MatchWorkbookOverride {
+  fieldFee: number | null
+  videoFee: number | null
+  lateFee: number | null
+  notes: string
+  collectedTotal: boolean  // The field fee is the whole amount collected (Excel imports)
+}
+
+export interface MatchWorkbookPlayer {
+  shortId: string
+  name: string
+  parts: number[]          // Attendance per part in play order (0, 0.5 or 1)
+  goalkeeper: boolean[]    // Goalkeeper flag per part in play order
+  isLateArrival: boolean
+  totalTime: number
+  fieldFee: number
+  lateFee: number
+  videoFee: number
+  totalFee: number
+  override: MatchWorkbookOverride | null
+}
+
+export interface MatchWorkbookEvent {
+  shortId: string
+  name: string
+  eventType: EventType
+  minute: number | null
+  description: string
+  goalEvent: number | null  // ASSIST only: 1-based position in events of the goal it set up
+}
+
+export interface MatchWorkbook {
+  version: number
+  matchDate: string        // UTC day, YYYY-MM-DD
+  matchTime: string        // ISO timestamp, empty when unset
+  opponentTeam: string
+  ourScore: number | null
+  opponentScore: number | null
+  fieldFeeTotal: number
+  waterFeeTotal: number
+  lateFeeRate: number
+  videoFeePerUnit: number
+  format: MatchFormat
+  notes: string
+  players: MatchWorkbookPlayer[]
+  events: MatchWorkbookEvent[]
+}
+
+type Cell = string | number | null
+
+const MATCH_FIELD_LABELS = {
+  version: '格式版本',
+  matchDate: '比赛日期',
+  matchTime: '开球时间',
+  opponentTeam: '对手',
+  ourScore: '我方进球',
+  opponentScore: '对方进球',
+  fieldFeeTotal: '场地费',
+  waterFeeTotal: '水费',
+  lateFeeRate: '迟到费率',
+  videoFeePerUnit: '录像费率',
+  sectionCount: '节数',
+  partsPerSection: '每节段数',
+  partMinutes: '每段分钟',
+  notes: '备注'
+} as const
+
+const ATTENDANCE_TRAILING_HEADERS = [
+  '迟到', '合计时间单位', '场地费用', '迟到罚款', '录像费用', '应收合计',
+  '有调整', '调整场地费', '调整录像费', '调整迟到费', '调整备注', '实收合计'
+]
+
+const EVENT_HEADERS = ['短编号', '姓名', '事件', '分钟', '说明', '助攻的进球']
+
+// A goalkeeper part is written as 守门, followed by the attendance when it is not a full part
+const GOALKEEPER_CELL = '守门'
+const YES = '是'
+
+const toCellText = (value: Cell | undefined) => (value === null || value === undefined ? '' : String(value).trim())
+
+const toNumberOrNull = (value: Cell | undefined): number | null => {
+  const text = toCellText(value)
+  if (text === '') return null
+  const parsed = Number(text)
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Expected a number but found "${text}"`)
+  }
+  return parsed
+}
+
+const toNumber = (value: Cell | undefined) => toNumberOrNull(value) ?? 0
+
+const toPartCell = (attendance: number, goalkeeper: boolean): Cell =>
+  goalkeeper ? (attendance === 1 ? GOALKEEPER_CELL : `${GOALKEEPER_CELL}${attendance}`) : attendance
+
+const parsePartCell = (value: Cell | undefined): { attendance: number; goalkeeper: boolean } => {
+  const text = toCellText(value)
+  if (text.startsWith(GOALKEEPER_CELL)) {
+    const rest = text.slice(GOALKEEPER_CELL.length)
+    return { attendance: rest === '' ? 1 : toNumber(rest), goalkeeper: true }
+  }
+  return { attendance: toNumber(value), goalkeeper: false }
+}
+
+const readRows = (workbook: XLSX.WorkBook, sheetName: string): Cell[][] => {
+  const worksheet = workbook.Sheets[sheetName]
+  if (!worksheet) {
+    throw new Error(`Sheet "${sheetName}" is missing`)
+  }
+  return XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null, raw: true }) as Cell[][]
+}
+
+/**
+ * Whether a workbook uses the versioned match layout rather than a hand-kept score sheet
+ */
+export function isMatchWorkbook(workbook: XLSX.WorkBook): boolean {
+  const worksheet = workbook.Sheets[MATCH_WORKBOOK_SHEETS.MATCH]
+  return !!worksheet && worksheet.A1?.v === MATCH_FIELD_LABELS.version
+}
+
+/**
+ * Read an uploaded file as a versioned match workbook; null when it is a hand-kept score sheet
+ */
+export function parseMatchWorkbook(buffer: Buffer): MatchWorkbook | null {
+  const workbook = XLSX.read(buffer, { type: 'buffer' })
+  return isMatchWorkbook(workbook) ? readMatchWorkbook(workbook) : null
+}
+
+/**
+ * Write a match as a versioned workbook
+ */
+export function buildMatchWorkbook(data: MatchWorkbook): Buffer {
+  const matchRows: Cell[][] = [
+    [MATCH_FIELD_LABELS.version, data.version],
+    [MATCH_FIELD_LABELS.matchDate, data.matchDate],
+    [MATCH_FIELD_LABELS.matchTime, data.matchTime],
+    [MATCH_FIELD_LABELS.opponentTeam, data.opponentTeam],
+    [MATCH_FIELD_LABELS.ourScore, data.ourScore],
+    [MATCH_FIELD_LABELS.opponentScore, data.opponentScore],
+    [MATCH_FIELD_LABELS.fieldFeeTotal, data.fieldFeeTotal],
+    [MATCH_FIELD_LABELS.waterFeeTotal, data.waterFeeTotal],
+    [MATCH_FIELD_LABELS.lateFeeRate, data.lateFeeRate],
+    [MATCH_FIELD_LABELS.videoFeePerUnit, data.videoFeePerUnit],
+    [MATCH_FIELD_LABELS.sectionCount, data.format.sectionCount],
+    [MATCH_FIELD_LABELS.partsPerSection, data.format.partsPerSection],
+    [MATCH_FIELD_LABELS.partMinutes, data.format.partMinutes],
+    [MATCH_FIELD_LABELS.notes, data.notes]
+  ]
+
+  const slots = getFormatSlots(data.format)
+  const attendanceRows: Cell[][] = [
+    [
+      '短编号', '姓名',
+      ...slots.map(({ section, part }) => `${getSectionLabel(section)}-${part}`),
+      ...ATTENDANCE_TRAILING_HEADERS
+    ],
+    ...data.players.map(player => [
+      player.shortId,
+      player.name,
+      ...slots.map((_, index) => toPartCell(player.parts[index] ?? 0, player.goalkeeper[index] ?? false)),
+      player.isLateArrival ? YES : '',
+      player.totalTime,
+      player.fieldFee,
+      player.lateFee,
+      player.videoFee,
+      player.totalFee,
+      player.override ? YES : '',
+      player.override?.fieldFee ?? null,
+      player.override?.videoFee ?? null,
+      player.override?.lateFee ?? null,
+      player.override?.notes ?? '',
+      player.override?.collectedTotal ? YES : ''
+    ])
+  ]
+
+  const eventRows: Cell[][] = [
+    EVENT_HEADERS,
+    ...data.events.map(event => [
+      event.shortId,
+      event.name,
+      EVENT_TYPE_LABELS[event.eventType],
+      event.minute,
+      event.description,
+      event.goalEvent
+    ])
+  ]
+
+  const wb = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(matchRows), MATCH_WORKBOOK_SHEETS.MATCH)
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(attendanceRows), MATCH_WORKBOOK_SHEETS.ATTENDANCE)
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(eventRows), MATCH_WORKBOOK_SHEETS.EVENTS)
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' })
+}
+
+/**
+ * Read a versioned match workbook; throws on an unknown version or malformed sheet
+ */
+export function readMatchWorkbook(workbook: XLSX.WorkBook): MatchWorkbook {
+  const fields = new Map<string, Cell>()
+  for (const [label, value] of readRows(workbook, MATCH_WORKBOOK_SHEETS.MATCH)) {
+    if (label !== null) fields.set(String(label), value ?? null)
+  }
+  const field = (key: keyof typeof MATCH_FIELD_LABELS) => fields.get(MATCH_FIELD_LABELS[key]) ?? null
+
+  const version = toNumber(field('version'))
+  if (version !== MATCH_WORKBOOK_VERSION) {
+    throw new Error(`Unsupported match workbook version ${version} (expected ${MATCH_WORKBOOK_VERSION})`)
+  }
+
+  const matchDate = toCellText(field('matchDate'))
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(matchDate)) {
+    throw new Error(`Invalid match date "${matchDate}" (expected YYYY-MM-DD)`)
+  }
+
+  const format: MatchFormat = {
+    sectionCount: toNumber(field('sectionCount')),
+    partsPerSection: toNumber(field('partsPerSection')),
+    partMinutes: toNumber(field('partMinutes'))
+  }
+  if (!isValidMatchFormat(format)) {
+    throw new Error('Invalid match format in match workbook')
+  }
+
+  const slotCount = getFormatSlots(format).length
+  const players = readRows(workbook, MATCH_WORKBOOK_SHEETS.ATTENDANCE)
+    .slice(1)
+    .filter(row => toCellText(row[0]) !== '' || toCellText(row[1]) !== '')
+    .map((row): MatchWorkbookPlayer => {
+      const parts = row.slice(2, 2 + slotCount).map(parsePartCell)
+      const trailing = (index: number) => row[2 + slotCount + index]
+      while (parts.length < slotCount) parts.push({ attendance: 0, goalkeeper: false })
+
+      return {
+        shortId: toCellText(row[0]),
+        name: toCellText(row[1]),
+        parts: parts.map(p => p.attendance),
+        goalkeeper: parts.map(p => p.goalkeeper),
+        isLateArrival: toCellText(trailing(0)) === YES,
+        totalTime: toNumber(trailing(1)),
+        fieldFee: toNumber(trailing(2)),
+        lateFee: toNumber(trailing(3)),
+        videoFee: toNumber(trailing(4)),
+        totalFee: toNumber(trailing(5)),
+        override: toCellText(trailing(6)) === YES
+          ? {
+            fieldFee: toNumberOrNull(trailing(7)),
+            videoFee: toNumberOrNull(trailing(8)),
+            lateFee: toNumberOrNull(trailing(9)),
+            notes: toCellText(trailing(10)),
+            collectedTotal: toCellText(trailing(11)) === YES
+          }
+          : null
+      }
+    })
+
+  const eventTypesByLabel = new Map(
+    (Object.entries(EVENT_TYPE_LABELS) as [EventType, string][]).flatMap(([type, label]) => [[label, type], [type, type]])
+  )
+  const events = readRows(workbook, MATCH_WORKBOOK_SHEETS.EVENTS)
+    .slice(1)
+    .filter(row => toCellText(row[2]) !== '')
+    .map((row): MatchWorkbookEvent => {
+      const eventType = eventTypesByLabel.get(toCellText(row[2]))
+      if (!eventType) {
+        throw new Error(`Unknown event type "${toCellText(row[2])}"`)
+      }
+      return {
+        shortId: toCellText(row[0]),
+        name: toCellText(row[1]),
+        eventType,
+        minute: toNumberOrNull(row[3]),
+        description: toCellText(row[4]),
+        goalEvent: toNumberOrNull(row[5])
+      }
+    })
+
+  return {
+    version,
+    matchDate,
+    matchTime: toCellText(field('matchTime')),
+    opponentTeam: toCellText(field('opponentTeam')) || 'Unknown Team',
+    ourScore: toNumberOrNull(field('ourScore')),
+    opponentScore: toNumberOrNull(field('opponentScore')),
+    fieldFeeTotal: toNumber(field('fieldFeeTotal')),
+    waterFeeTotal: toNumber(field('waterFeeTotal')),
+    lateFeeRate: toNumber(field('lateFeeRate')),
+    videoFeePerUnit: toNumber(field('videoFeePerUnit')),
+    format,
+    notes: toCellText(field('notes')),
+    players,
+    events
+  }
+}
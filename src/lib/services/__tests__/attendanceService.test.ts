@@ -5,6 +5,7 @@
 import { AttendanceService } from '../attendanceService'
 import { feeCalculationService } from '../feeCalculationService'
 import { prisma } from '@/lib/prisma'
+import { createEmptyAttendance } from '@/lib/utils/matchFormat'
 
 // Mock dependencies
 jest.mock('@/lib/prisma')
@@ -128,6 +129,34 @@ describe('AttendanceService', () => {
       expect(result.isValid).toBe(false)
       expect(result.errors).toContain('Invalid attendance data structure for player player-1')
     })
+
+    it('should reject parts outside the match format', async () => {
+      const format = { sectionCount: 2, partsPerSection: 4, partMinutes: 10 }
+      const { goalkeeper } = createEmptyAttendance(format)
+      const twoByFour = {
+        'player-1': {
+          attendance: {
+            "1": { "1": 1, "2": 1, "3": 1, "4": 1 },
+            "2": { "1": 0, "2": 0, "3": 0, "4": 0.5 }
+          },
+          goalkeeper,
+          isLateArrival: false
+        }
+      }
+      const withThirdSection = {
+        'player-1': {
+          ...twoByFour['player-1'],
+          attendance: { ...twoByFour['player-1'].attendance, "3": { "1": 1 } }
+        }
+      }
+
+      const valid = await service.validateAttendanceData('match-1', twoByFour, ['player-1'], format)
+      const invalid = await service.validateAttendanceData('match-1', withThirdSection, ['player-1'], format)
+
+      expect(valid.isValid).toBe(true)
+      expect(invalid.isValid).toBe(false)
+      expect(invalid.errors).toContain('Invalid attendance data structure for player player-1')
+    })
   })
 
   describe('autoResolveGoalkeeperConflicts', () => {
@@ -260,6 +289,37 @@ describe('AttendanceService', () => {
       expect(mockFeeCalculationService.recalculateAllFees).toHaveBeenCalledWith('match-1')
     })
 
+    it('should charge a part the same whatever its length', async () => {
+      const matchInfo = { fieldFeeTotal: 180, waterFeeTotal: 0 }
+
+      for (const partMinutes of [10, 20]) {
+        await service.updateAttendance('match-1', mockUpdateRequest, {
+          ...matchInfo,
+          format: { sectionCount: 3, partsPerSection: 3, partMinutes }
+        })
+      }
+
+      // 180 over 90 coefficient units is 2 per unit for 2.5 parts played, both times
+      const fieldFees = mockPrisma.matchParticipation.createMany.mock.calls
+        .map(([args]: any) => args.data[0].fieldFeeCalculated)
+      expect(fieldFees).toEqual([5, 5])
+    })
+
+    it('should store events under new ids and link assists to them', async () => {
+      await service.updateAttendance('match-1', {
+        ...mockUpdateRequest,
+        events: [
+          { id: 'existing-event', playerId: 'player-1', eventType: 'GOAL' as const },
+          { id: 'client-assist', playerId: 'player-2', eventType: 'ASSIST' as const, goalEventId: 'existing-event' }
+        ]
+      }, { fieldFeeTotal: 180, waterFeeTotal: 0 })
+
+      const [{ data: rows }] = mockPrisma.matchEvent.createMany.mock.calls[0] as any
+      expect(rows[0].id).not.toBe('existing-event')
+      expect(rows[1].id).not.toBe('client-assist')
+      expect(rows[1].goalEventId).toBe(rows[0].id)
+    })
+
     it('should handle validation errors', async () => {
       jest.spyOn(service, 'validateAttendanceData').mockResolvedValue({
         isValid: false,
@@ -0,0 +1,127 @@
+/**
+ * Tests for AuditService
+ */
+
+import { Prisma } from '@prisma/client'
+import { AuditService, toAuditJson, getAuditContext } from '../auditService'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('@/lib/auth', () => ({ authOptions: {} }))
+jest.mock('next-auth', () => ({ getServerSession: jest.fn() }))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+const mockGetServerSession = getServerSession as jest.Mock
+
+const context = { userId: 'admin-1', ipAddress: '10.0.0.1', userAgent: 'jest' }
+
+describe('AuditService', () => {
+  let service: AuditService
+
+  beforeEach(() => {
+    service = new AuditService()
+    jest.clearAllMocks()
+  })
+
+  describe('toAuditJson', () => {
+    it('should store missing snapshots as database null', () => {
+      expect(toAuditJson(undefined)).toBe(Prisma.DbNull)
+      expect(toAuditJson(null)).toBe(Prisma.DbNull)
+    })
+
+    it('should redact password hashes and convert BigInt values', () => {
+      const result = toAuditJson({
+        name: '张三',
+        passwordHash: 'secret',
+        fileSize: BigInt(2048),
+        createdAt: new Date('2025-10-01T10:00:00Z')
+      })
+
+      expect(result).toEqual({ name: '张三', fileSize: 2048, createdAt: '2025-10-01T10:00:00.000Z' })
+    })
+  })
+
+  describe('getAuditContext', () => {
+    it('should return null without a signed-in user', async () => {
+      mockGetServerSession.mockResolvedValue(null)
+
+      expect(await getAuditContext(new Request('http://localhost/api/users'))).toBeNull()
+    })
+
+    it('should use the first forwarded address', async () => {
+      mockGetServerSession.mockResolvedValue({ user: { id: 'admin-1' } })
+
+      const request = new Request('http://localhost/api/users', {
+        headers: { 'x-forwarded-for': '1.2.3.4, 10.0.0.1', 'user-agent': 'jest' }
+      })
+
+      expect(await getAuditContext(request)).toEqual({ userId: 'admin-1', ipAddress: '1.2.3.4', userAgent: 'jest' })
+    })
+  })
+
+  describe('log', () => {
+    it('should write one row per entry', async () => {
+      mockPrisma.auditLog.createMany.mockResolvedValue({ count: 2 } as any)
+
+      await service.log(context, [
+        { tableName: 'users', recordId: 'user-1', actionType: 'UPDATE', oldValues: { name: 'A' }, newValues: { name: 'B' } },
+        { tableName: 'matches', recordId: 'match-1', actionType: 'DELETE', oldValues: { id: 'match-1' } }
+      ])
+
+      expect(mockPrisma.auditLog.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ userId: 'admin-1', tableName: 'users', oldValues: { name: 'A' }, newValues: { name: 'B' }, ipAddress: '10.0.0.1' }),
+          expect.objectContaining({ tableName: 'matches', actionType: 'DELETE', newValues: Prisma.DbNull })
+        ]
+      })
+    })
+
+    it('should skip logging without a context', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+      await service.log(null, { tableName: 'users', recordId: 'user-1', actionType: 'CREATE' })
+
+      expect(mockPrisma.auditLog.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should not throw when the write fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockPrisma.auditLog.createMany.mockRejectedValue(new Error('db down'))
+
+      await expect(
+        service.log(context, { tableName: 'users', recordId: 'user-1', actionType: 'CREATE' })
+      ).resolves.toBeUndefined()
+    })
+  })
+
+  describe('getLogs', () => {
+    it('should filter by table, record, user and date range', async () => {
+      mockPrisma.auditLog.findMany.mockResolvedValue([])
+      mockPrisma.auditLog.count.mockResolvedValue(41)
+
+      const from = new Date('2025-10-01T00:00:00Z')
+      const to = new Date('2025-10-31T23:59:59Z')
+      const result = await service.getLogs({
+        tableName: 'fee_overrides', recordId: 'match-1', userId: 'admin-1', from, to, page: 3, limit: 20
+      })
+
+      expect(mockPrisma.auditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tableName: 'fee_overrides', recordId: 'match-1', userId: 'admin-1', createdAt: { gte: from, lte: to } },
+        skip: 40,
+        take: 20
+      }))
+      expect(result.pagination).toEqual({ page: 3, limit: 20, total: 41, totalPages: 3 })
+    })
+
+    it('should not filter when no filters are given', async () => {
+      mockPrisma.auditLog.findMany.mockResolvedValue([])
+      mockPrisma.auditLog.count.mockResolvedValue(0)
+
+      await service.getLogs({ page: 1, limit: 20 })
+
+      expect(mockPrisma.auditLog.count).toHaveBeenCalledWith({ where: {} })
+    })
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * Tests for BackupService
+ */
+
+import { Prisma } from '@prisma/client'
+import { BackupService } from '../backupService'
+import { readBackupZip, writeBackupZip } from '@/lib/backupArchive'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const createdAt = new Date('2024-10-01T08:00:00.000Z')
+
+const admin = {
+  id: 'admin-1', name: 'Admin', shortId: 'ADMIN', email: 'admin@example.com', phone: null,
+  userType: 'ADMIN', accountStatus: 'ACTIVE', jerseyNumber: 99, position: 'GK', dominantFoot: null,
+  avatarUrl: null, avatarFileKey: null, introduction: '队长, "老将"\n第二行', playerStatus: 'REGULAR',
+  joinDate: null, createdAt, updatedAt: createdAt, createdBy: null, deletedAt: null, deletedBy: null,
+  deletionReason: null, emailOptOuts: ['MATCH_REMINDER']
+}
+const player = { ...admin, id: 'user-1', name: '张三', shortId: 'zs01', email: null, userType: 'PLAYER',
+  accountStatus: 'GHOST', jerseyNumber: null, position: null, introduction: null, emailOptOuts: [], createdBy: 'admin-1' }
+
+const participation = {
+  id: 'part-1', userId: 'user-1', matchId: 'match-1',
+  attendanceData: { attendance: { 1: { 1: 1 } }, goalkeeper: { 1: { 1: false } }, isLateArrival: false },
+  isLateArrival: false, totalTime: new Prisma.Decimal(3), fieldFeeCalculated: new Prisma.Decimal('29.17'),
+  lateFee: new Prisma.Decimal(0), videoFee: new Prisma.Decimal(2), totalFeeCalculated: new Prisma.Decimal('31.17'),
+  isTrialPlayer: false, paymentProxy: null, createdAt, updatedAt: createdAt
+}
+
+describe('BackupService', () => {
+  let service: BackupService
+
+  beforeEach(() => {
+    service = new BackupService()
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+    const delegates = [
+      mockPrisma.user, mockPrisma.globalSetting, mockPrisma.systemConfig, mockPrisma.season, mockPrisma.feePolicy,
+      mockPrisma.opponent, mockPrisma.opponentAlias, mockPrisma.match, mockPrisma.matchPlayer,
+      mockPrisma.matchParticipation, mockPrisma.matchEvent, mockPrisma.lineupPlayer, mockPrisma.substitution,
+      mockPrisma.concededGoal, mockPrisma.feeOverride, mockPrisma.payment, mockPrisma.treasuryEntry, mockPrisma.playerAlias
+    ]
+    delegates.forEach(delegate => (delegate.findMany as jest.Mock).mockResolvedValue([]))
+  })
+
+  describe('createBackup', () => {
+    it('should write one CSV per table and a manifest without password hashes', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([player, admin] as any)
+
+      const { buffer } = await service.createBackup()
+      const { manifest, readFile } = readBackupZip(buffer)
+
+      expect(manifest.tables.map(t => t.name)).toEqual([
+        'users', 'global_settings', 'system_config', 'seasons', 'fee_policies', 'opponents', 'opponent_aliases',
+        'matches', 'match_players',
+        'match_participations', 'match_events', 'lineup_players', 'substitutions', 'conceded_goals', 'fee_overrides',
+        'payments', 'treasury_entries', 'player_aliases'
+      ])
+      expect(manifest.tables[0]).toMatchObject({ file: 'users.csv', rows: 2 })
+      expect(manifest.tables[0].columns).not.toContain('passwordHash')
+      expect(manifest.excludedColumns).toEqual(['users.passwordHash'])
+      expect(readFile('users.csv')).toContain('"队长, ""老将""\n第二行"')
+    })
+  })
+
+  describe('restoreBackup', () => {
+    it('should restore typed rows with creators inserted first', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([player, admin] as any)
+      mockPrisma.matchParticipation.findMany.mockResolvedValue([participation] as any)
+      const { buffer } = await service.createBackup()
+      mockPrisma.user.count.mockResolvedValue(0)
+
+      const summary = await service.restoreBackup(buffer)
+
+      expect(summary.tables).toContainEqual({ name: 'users', rows: 2 })
+      expect(summary.skippedColumns).toEqual([])
+      expect(mockPrisma.user.createMany).toHaveBeenCalledWith({ data: [admin, player] })
+      expect(mockPrisma.matchParticipation.createMany).toHaveBeenCalledWith({
+        data: [{
+          ...participation,
+          totalTime: '3',
+          fieldFeeCalculated: '29.17',
+          lateFee: '0',
+          videoFee: '2',
+          totalFeeCalculated: '31.17'
+        }]
+      })
+      expect(mockPrisma.match.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to restore over existing data', async () => {
+      const { buffer } = await service.createBackup()
+      mockPrisma.user.count.mockResolvedValue(3)
+
+      await expect(service.restoreBackup(buffer)).rejects.toThrow(
+        'Restore needs an empty database; this one already has 3 users'
+      )
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should reject files that are not backups', async () => {
+      await expect(service.restoreBackup(Buffer.from('not a zip'))).rejects.toThrow(
+        'Backup file is not a valid zip archive'
+      )
+    })
+
+    it('should reject backups missing a table file before writing anything', async () => {
+      const { manifest } = await service.createBackup()
+      const buffer = writeBackupZip(manifest, {})
+      mockPrisma.user.count.mockResolvedValue(0)
+
+      await expect(service.restoreBackup(buffer)).rejects.toMatchObject({
+        statusCode: 409,
+        message: `Backup is missing ${manifest.tables[0].file}`
+      })
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,178 @@
+/**
+ * Tests for ClaimService
+ */
+
+import { ClaimService } from '../claimService'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('bcryptjs', () => ({
+  hash: jest.fn(async (password: string) => `hashed:${password}`)
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const makeClaim = (overrides: Record<string, unknown> = {}) => ({
+  id: 'claim-1',
+  ghostUserId: 'ghost-1',
+  claimantName: '李东辉',
+  email: 'dh@example.com',
+  phone: null,
+  passwordHash: 'hashed:secret123',
+  message: null,
+  status: 'PENDING',
+  reviewedBy: null,
+  reviewedAt: null,
+  rejectionReason: null,
+  createdAt: new Date('2025-10-01T10:00:00Z'),
+  updatedAt: new Date('2025-10-01T10:00:00Z'),
+  ...overrides
+})
+
+const ghostUser = {
+  id: 'ghost-1',
+  name: '李东辉',
+  email: null,
+  phone: '13800000000',
+  passwordHash: null,
+  accountStatus: 'GHOST',
+  deletedAt: null
+}
+
+const submission = {
+  ghostUserId: 'ghost-1',
+  claimantName: '李东辉',
+  email: 'dh@example.com',
+  password: 'secret123'
+}
+
+describe('ClaimService', () => {
+  let service: ClaimService
+
+  beforeEach(() => {
+    service = new ClaimService()
+    jest.clearAllMocks()
+  })
+
+  describe('searchGhostAccounts', () => {
+    it('should not query for a blank search', async () => {
+      expect(await service.searchGhostAccounts('  ')).toEqual([])
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should only match unclaimed player accounts', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([])
+
+      await service.searchGhostAccounts('DH')
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          accountStatus: 'GHOST',
+          userType: 'PLAYER',
+          deletedAt: null,
+          OR: [
+            { name: { contains: 'DH', mode: 'insensitive' } },
+            { shortId: 'dh' }
+          ]
+        })
+      }))
+    })
+  })
+
+  describe('submitClaim', () => {
+    it('should reject accounts that are already claimed', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null)
+
+      await expect(service.submitClaim(submission)).rejects.toMatchObject({ code: 'NOT_FOUND' })
+      expect(mockPrisma.claimRequest.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject an email that already belongs to a user', async () => {
+      mockPrisma.user.findFirst
+        .mockResolvedValueOnce({ id: 'ghost-1' } as any)
+        .mockResolvedValueOnce({ email: 'dh@example.com' } as any)
+
+      await expect(service.submitClaim(submission)).rejects.toMatchObject({ code: 'CONFLICT' })
+    })
+
+    it('should store a hashed password with the pending claim', async () => {
+      mockPrisma.user.findFirst
+        .mockResolvedValueOnce({ id: 'ghost-1' } as any)
+        .mockResolvedValueOnce(null)
+      mockPrisma.claimRequest.findFirst.mockResolvedValue(null)
+      mockPrisma.claimRequest.create.mockResolvedValue(makeClaim() as any)
+
+      await service.submitClaim(submission)
+
+      expect(mockPrisma.claimRequest.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          ghostUserId: 'ghost-1',
+          email: 'dh@example.com',
+          phone: null,
+          passwordHash: 'hashed:secret123'
+        })
+      }))
+    })
+  })
+
+  describe('approveClaim', () => {
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+    })
+
+    it('should attach the credentials to the ghost user', async () => {
+      mockPrisma.claimRequest.findUnique.mockResolvedValue(makeClaim() as any)
+      mockPrisma.user.findUnique.mockResolvedValue(ghostUser as any)
+      mockPrisma.user.findFirst.mockResolvedValue(null)
+      mockPrisma.user.update.mockResolvedValue({ ...ghostUser, accountStatus: 'CLAIMED' } as any)
+      mockPrisma.claimRequest.update.mockResolvedValue(makeClaim({ status: 'APPROVED' }) as any)
+
+      const result = await service.approveClaim('claim-1', 'admin-1')
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'ghost-1' },
+        data: {
+          email: 'dh@example.com',
+          phone: '13800000000',
+          passwordHash: 'hashed:secret123',
+          accountStatus: 'CLAIMED'
+        }
+      })
+      expect(mockPrisma.claimRequest.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { ghostUserId: 'ghost-1', status: 'PENDING', id: { not: 'claim-1' } },
+        data: expect.objectContaining({ status: 'REJECTED' })
+      }))
+      expect(result.userBefore).toBe(ghostUser)
+    })
+
+    it('should refuse when the ghost account was claimed in the meantime', async () => {
+      mockPrisma.claimRequest.findUnique.mockResolvedValue(makeClaim() as any)
+      mockPrisma.user.findUnique.mockResolvedValue({ ...ghostUser, accountStatus: 'CLAIMED' } as any)
+
+      await expect(service.approveClaim('claim-1', 'admin-1')).rejects.toMatchObject({ code: 'CONFLICT' })
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should refuse claims that were already reviewed', async () => {
+      mockPrisma.claimRequest.findUnique.mockResolvedValue(makeClaim({ status: 'REJECTED' }) as any)
+
+      await expect(service.approveClaim('claim-1', 'admin-1')).rejects.toMatchObject({ code: 'CONFLICT' })
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('rejectClaim', () => {
+    it('should record the reviewer and reason', async () => {
+      mockPrisma.claimRequest.findUnique.mockResolvedValue(makeClaim() as any)
+      mockPrisma.claimRequest.update.mockResolvedValue(makeClaim({ status: 'REJECTED' }) as any)
+
+      await service.rejectClaim('claim-1', 'admin-1', '不是本人')
+
+      expect(mockPrisma.claimRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'claim-1' },
+        data: expect.objectContaining({ status: 'REJECTED', reviewedBy: 'admin-1', rejectionReason: '不是本人' })
+      }))
+    })
+  })
+})
@@ -0,0 +1,178 @@
+/**
+ * Tests for CommentService
+ */
+
+import { CommentService, buildCommentThread } from '../commentService'
+import { prisma } from '@/lib/prisma'
+import { ApplicationError } from '@/lib/errors'
+import { deleteFromS3 } from '@/lib/aws'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('@/lib/aws', () => ({
+  deleteFromS3: jest.fn(),
+  extractFileKeyFromUrl: (url: string) => url.replace('https://cdn/', '')
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const author = { id: 'user-1', name: '张三', avatarUrl: null }
+
+const makeRow = (overrides: Record<string, unknown>) => ({
+  id: 'comment-1',
+  matchId: 'match-1',
+  parentCommentId: null,
+  content: '好球',
+  images: null,
+  isEdited: false,
+  createdAt: new Date('2025-10-01T10:00:00Z'),
+  updatedAt: new Date('2025-10-01T10:00:00Z'),
+  deletedAt: null,
+  user: author,
+  ...overrides
+})
+
+describe('CommentService', () => {
+  let service: CommentService
+
+  beforeEach(() => {
+    service = new CommentService()
+    jest.clearAllMocks()
+  })
+
+  describe('buildCommentThread', () => {
+    it('should nest replies under their parents in chronological order', () => {
+      const thread = buildCommentThread([
+        makeRow({ id: 'c1' }),
+        makeRow({ id: 'c2', createdAt: new Date('2025-10-01T09:00:00Z') }),
+        makeRow({ id: 'r1', parentCommentId: 'c1', createdAt: new Date('2025-10-01T11:00:00Z') })
+      ])
+
+      expect(thread.map(c => c.id)).toEqual(['c2', 'c1'])
+      expect(thread[1].replies.map(r => r.id)).toEqual(['r1'])
+    })
+
+    it('should keep deleted comments with replies as blanked placeholders', () => {
+      const thread = buildCommentThread([
+        makeRow({ id: 'c1', deletedAt: new Date(), images: ['https://cdn/x.png'] }),
+        makeRow({ id: 'r1', parentCommentId: 'c1' })
+      ])
+
+      expect(thread).toHaveLength(1)
+      expect(thread[0]).toMatchObject({ isDeleted: true, content: '', images: [] })
+      expect(thread[0].replies).toHaveLength(1)
+    })
+
+    it('should drop deleted comments without visible replies', () => {
+      const thread = buildCommentThread([
+        makeRow({ id: 'c1', deletedAt: new Date() }),
+        makeRow({ id: 'r1', parentCommentId: 'c1', deletedAt: new Date() })
+      ])
+
+      expect(thread).toEqual([])
+    })
+  })
+
+  describe('createComment', () => {
+    it('should create a top-level comment', async () => {
+      mockPrisma.comment.create.mockResolvedValue(makeRow({ content: '好球' }) as any)
+
+      const result = await service.createComment('match-1', 'user-1', { content: '  好球  ' })
+
+      expect(mockPrisma.comment.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          matchId: 'match-1',
+          userId: 'user-1',
+          parentCommentId: null,
+          content: '好球'
+        }
+      }))
+      expect(result.author).toEqual(author)
+    })
+
+    it('should reject images that were not uploaded by the author', async () => {
+      await expect(
+        service.createComment('match-1', 'user-1', {
+          content: '看图',
+          images: ['https://cdn/comment/user-2/2025-10-01/1-comment.png']
+        })
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' })
+      expect(mockPrisma.comment.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject replies to comments from another match', async () => {
+      mockPrisma.comment.findUnique.mockResolvedValue(makeRow({ id: 'c1', matchId: 'match-2' }) as any)
+
+      await expect(
+        service.createComment('match-1', 'user-1', { content: '回复', parentCommentId: 'c1' })
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+
+    it('should reject replies nested deeper than the maximum depth', async () => {
+      mockPrisma.comment.findUnique
+        .mockResolvedValueOnce(makeRow({ id: 'c3', parentCommentId: 'c2' }) as any)
+        .mockResolvedValueOnce({ parentCommentId: 'c2' } as any)
+        .mockResolvedValueOnce({ parentCommentId: 'c1' } as any)
+        .mockResolvedValueOnce({ parentCommentId: null } as any)
+
+      await expect(
+        service.createComment('match-1', 'user-1', { content: '回复', parentCommentId: 'c3' })
+      ).rejects.toMatchObject({ code: 'CONFLICT' })
+    })
+  })
+
+  describe('updateComment', () => {
+    it('should only allow the author to edit', async () => {
+      mockPrisma.comment.findUnique.mockResolvedValue({ ...makeRow({}), userId: 'user-2' } as any)
+
+      await expect(
+        service.updateComment('match-1', 'comment-1', { id: 'user-1', isAdmin: true }, '改一下')
+      ).rejects.toBeInstanceOf(ApplicationError)
+      expect(mockPrisma.comment.update).not.toHaveBeenCalled()
+    })
+
+    it('should mark the comment as edited', async () => {
+      mockPrisma.comment.findUnique.mockResolvedValue({ ...makeRow({}), userId: 'user-1' } as any)
+      mockPrisma.comment.update.mockResolvedValue(makeRow({ content: '改一下', isEdited: true }) as any)
+
+      const result = await service.updateComment('match-1', 'comment-1', { id: 'user-1', isAdmin: false }, '改一下')
+
+      expect(mockPrisma.comment.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { content: '改一下', isEdited: true }
+      }))
+      expect(result.isEdited).toBe(true)
+    })
+  })
+
+  describe('deleteComment', () => {
+    it('should let admins soft-delete any comment', async () => {
+      mockPrisma.comment.findUnique.mockResolvedValue({ ...makeRow({}), userId: 'user-2' } as any)
+
+      await service.deleteComment('match-1', 'comment-1', { id: 'admin-1', isAdmin: true })
+
+      expect(mockPrisma.comment.update).toHaveBeenCalledWith({
+        where: { id: 'comment-1' },
+        data: { deletedAt: expect.any(Date) }
+      })
+    })
+
+    it('should remove attached images from S3', async () => {
+      mockPrisma.comment.findUnique.mockResolvedValue({
+        ...makeRow({ images: ['https://cdn/comment/user-1/2025-10-01/1-comment.png'] }),
+        userId: 'user-1'
+      } as any)
+
+      await service.deleteComment('match-1', 'comment-1', { id: 'user-1', isAdmin: false })
+
+      expect(deleteFromS3).toHaveBeenCalledWith('comment/user-1/2025-10-01/1-comment.png')
+    })
+
+    it('should forbid other players from deleting', async () => {
+      mockPrisma.comment.findUnique.mockResolvedValue({ ...makeRow({}), userId: 'user-2' } as any)
+
+      await expect(
+        service.deleteComment('match-1', 'comment-1', { id: 'user-1', isAdmin: false })
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    })
+  })
+})
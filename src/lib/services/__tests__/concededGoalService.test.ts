@@ -0,0 +1,75 @@
+/**
+ * Tests for ConcededGoalService
+ */
+
+import { ConcededGoalService } from '../concededGoalService'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const storedMatch = {
+  opponentScore: 3,
+  sectionCount: 3,
+  partsPerSection: 3,
+  partMinutes: 10,
+  concededGoals: [{ minute: 12 }],
+  events: [{ id: 'own-goal-1' }]
+}
+
+describe('ConcededGoalService', () => {
+  let service: ConcededGoalService
+
+  beforeEach(() => {
+    service = new ConcededGoalService()
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+    mockPrisma.match.findUnique.mockResolvedValue(storedMatch as any)
+  })
+
+  describe('getConcededGoals', () => {
+    it('should return the minutes with the own goals and match length', async () => {
+      const result = await service.getConcededGoals('match-1')
+
+      expect(result).toEqual({ minutes: [12], ownGoals: 1, opponentScore: 3, matchMinutes: 90 })
+    })
+
+    it('should throw when the match does not exist', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue(null)
+
+      await expect(service.getConcededGoals('missing')).rejects.toThrow('Match not found')
+    })
+  })
+
+  describe('saveConcededGoals', () => {
+    it('should replace the minutes in order', async () => {
+      await service.saveConcededGoals('match-1', [70, 12])
+
+      expect(mockPrisma.concededGoal.deleteMany).toHaveBeenCalledWith({ where: { matchId: 'match-1' } })
+      expect(mockPrisma.concededGoal.createMany).toHaveBeenCalledWith({
+        data: [{ matchId: 'match-1', minute: 12 }, { matchId: 'match-1', minute: 70 }]
+      })
+    })
+
+    it('should reject minutes outside the match', async () => {
+      await expect(service.saveConcededGoals('match-1', [95]))
+        .rejects.toThrow('Minute 95 is outside the match (0-90)')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should reject more goals than the opponent scored, counting own goals', async () => {
+      await expect(service.saveConcededGoals('match-1', [10, 20, 30]))
+        .rejects.toThrow("3 conceded goals and 1 own goals exceed the opponent's score of 3")
+    })
+
+    it('should allow any number of goals before the score is entered', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue({ ...storedMatch, opponentScore: null } as any)
+
+      await service.saveConcededGoals('match-1', [10, 20, 30, 40])
+
+      expect(mockPrisma.concededGoal.createMany).toHaveBeenCalled()
+    })
+  })
+})
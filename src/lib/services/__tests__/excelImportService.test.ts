@@ -0,0 +1,177 @@
+/**
+ * Tests for ExcelImportService
+ */
+
+import { ExcelImportService } from '../excelImportService'
+import { parseSheetTitle, type ExcelMatchData, type ExcelSheetResult } from '@/lib/excelParser'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('../seasonService', () => ({
+  seasonService: {
+    getMatchDefaults: jest.fn().mockResolvedValue({ seasonId: null, lateFeeRate: 10, videoFeePerUnit: 2 })
+  }
+}))
+jest.mock('../globalSettingsService', () => ({
+  globalSettingsService: {
+    getDefaultMatchFormat: jest.fn().mockResolvedValue({ sectionCount: 3, partsPerSection: 3, partMinutes: 10 })
+  }
+}))
+jest.mock('../feePolicyService', () => ({
+  feePolicyService: {
+    findPolicyIdForDate: jest.fn().mockResolvedValue(null),
+    findTrialPlayerIds: jest.fn().mockResolvedValue([])
+  }
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const sheetData = (players: { shortId: string; name: string }[]): ExcelMatchData => ({
+  matchTitle: '',
+  fieldFeeTotal: 900,
+  waterFeeTotal: 0,
+  feeCoefficient: 10,
+  ourScore: 3,
+  opponentScore: 1,
+  players: players.map((player, index) => ({
+    序号: index + 1,
+    姓名: player.name,
+    shortId: player.shortId,
+    sections: [[1, 1, 1], [1, 1, 1], [1, 1, 1]],
+    totalTime: 9,
+    fieldFee: 90,
+    onTime: true,
+    lateFee: 0,
+    videoFee: 6,
+    totalFeeCalculated: 96,
+    实收费用: 96,
+    notes: '',
+    goals: 1,
+    assists: 0
+  })),
+  unknownPlayers: [],
+  totalParticipants: players.length,
+  format: { sectionCount: 3, partsPerSection: 3 }
+})
+
+const sheet = (sheetName: string, data: ExcelMatchData | null = sheetData([{ shortId: 'zs', name: '张三' }])): ExcelSheetResult =>
+  ({ sheetName, data, error: data ? null : 'Could not find data rows in Excel file' })
+
+describe('ExcelImportService', () => {
+  let service: ExcelImportService
+
+  beforeEach(() => {
+    service = new ExcelImportService()
+    jest.clearAllMocks()
+    mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-1', name: '张三', shortId: 'zs' }] as any)
+    mockPrisma.match.findMany.mockResolvedValue([])
+    mockPrisma.playerAlias.findMany.mockResolvedValue([])
+    mockPrisma.opponentAlias.findUnique.mockResolvedValue({ opponentId: 'opp-1' } as any)
+  })
+
+  describe('parseSheetTitle', () => {
+    it('should read the date and opponent from the sheet name', () => {
+      expect(parseSheetTitle('12月27号 vs 新新联', 2025)).toEqual({
+        matchDate: new Date('2025-12-27T00:00:00Z'),
+        opponentTeam: '新新联'
+      })
+    })
+
+    it('should leave the date empty when the sheet name has none', () => {
+      expect(parseSheetTitle('Sheet1', 2025)).toEqual({ matchDate: null, opponentTeam: 'Sheet1' })
+    })
+  })
+
+  describe('planWorkbook', () => {
+    it('should report matched and unknown players per sheet', async () => {
+      const plan = await service.planWorkbook([
+        sheet('10月5日VS猛龙队', sheetData([{ shortId: 'zs', name: '张三' }, { shortId: 'ls', name: '李四' }]))
+      ], 2024)
+
+      expect(plan.canCommit).toBe(true)
+      expect(plan.sheets[0]).toMatchObject({
+        matchDate: new Date('2024-10-05T00:00:00Z'),
+        opponentTeam: '猛龙队',
+        matchedPlayers: [{ userId: 'user-1', name: '张三', shortId: 'zs' }],
+        unknownPlayers: ['ls'],
+        errors: []
+      })
+      expect(mockPrisma.match.create).not.toHaveBeenCalled()
+    })
+
+    it('should match players by a remembered alias when the shortId is unknown', async () => {
+      mockPrisma.playerAlias.findMany.mockResolvedValue([
+        { alias: '李四', user: { id: 'user-2', name: '李小四' } }
+      ] as any)
+
+      const plan = await service.planWorkbook([
+        sheet('10月5日VS猛龙队', sheetData([{ shortId: 'zs', name: '张三' }, { shortId: 'ls', name: '李四(试训)' }]))
+      ], 2024)
+
+      expect(plan.sheets[0].matchedPlayers).toEqual([
+        { userId: 'user-1', name: '张三', shortId: 'zs' },
+        { userId: 'user-2', name: '李小四', shortId: 'ls' }
+      ])
+      expect(plan.sheets[0].unknownPlayers).toEqual([])
+    })
+
+    it('should flag existing matches on the same date, duplicate dates and unparseable sheets', async () => {
+      mockPrisma.match.findMany.mockResolvedValue([
+        { id: 'match-1', matchDate: new Date('2024-10-05T00:00:00Z'), opponentTeam: '猛龙队' }
+      ] as any)
+
+      const plan = await service.planWorkbook([
+        sheet('10月5日VS猛龙队'),
+        sheet('10月12日VS飞鹰队'),
+        sheet('10月12日VS雄狮队'),
+        sheet('说明', null)
+      ], 2024)
+
+      expect(plan.canCommit).toBe(false)
+      expect(plan.sheets[0].conflicts).toEqual([
+        { matchId: 'match-1', matchDate: new Date('2024-10-05T00:00:00Z'), opponentTeam: '猛龙队' }
+      ])
+      expect(plan.sheets[1].errors).toEqual(['Another sheet in this workbook has the same match date'])
+      expect(plan.sheets[3].errors).toEqual([
+        'Could not find data rows in Excel file',
+        'Match date not found in sheet name (expected e.g. "12月27号VS对手")'
+      ])
+    })
+  })
+
+  describe('commitWorkbook', () => {
+    it('should refuse to import anything when a sheet has problems', async () => {
+      await expect(
+        service.commitWorkbook([sheet('10月5日VS猛龙队'), sheet('说明', null)], 2024, 'season.xlsx', 'admin')
+      ).rejects.toThrow('Workbook has sheets with errors or date conflicts; nothing was imported')
+
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should import every sheet inside one transaction', async () => {
+      mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+      mockPrisma.match.create.mockImplementation(((args: any) => Promise.resolve({
+        id: `match-${args.data.opponentTeam}`,
+        ...args.data,
+        feePolicy: null
+      })) as any)
+
+      const { imported } = await service.commitWorkbook(
+        [sheet('10月5日VS猛龙队'), sheet('10月12日VS飞鹰队')],
+        2024,
+        'season.xlsx',
+        'admin'
+      )
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(imported.map(i => i.match.opponentTeam)).toEqual(['猛龙队', '飞鹰队'])
+      expect(mockPrisma.match.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ matchDate: new Date('2024-10-12T00:00:00Z'), createdBy: 'admin' })
+      }))
+      expect(mockPrisma.matchParticipation.create).toHaveBeenCalledTimes(2)
+      expect(mockPrisma.matchEvent.createMany).toHaveBeenCalledTimes(2)
+      expect(imported[0]).toMatchObject({ selectedPlayerIds: ['user-1'], participations: 1, goals: 1, assists: 0 })
+    })
+  })
+})
@@ -363,7 +363,8 @@ describe('FeeCalculationService', () => {
           fieldFeeCalculated: 5.0,
           videoFee: 2,
           lateFee: 0,
-          totalFeeCalculated: 7.0
+          totalFeeCalculated: 7.0,
+          isTrialPlayer: false
         }
       })
     })
@@ -450,4 +451,94 @@ describe('FeeCalculationService', () => {
       })
     })
   })
+
+  describe('previewFees', () => {
+    const emptyGrid = {
+      attendance: { "1": { "1": 0, "2": 0, "3": 0 } },
+      goalkeeper: { "1": { "1": false, "2": false, "3": false } }
+    }
+
+    beforeEach(() => {
+      mockPrisma.match.findUnique.mockResolvedValue({
+        id: 'match-1',
+        fieldFeeTotal: 200,
+        waterFeeTotal: 50,
+        lateFeeRate: 10,
+        videoFeePerUnit: 2,
+        feePolicy: null
+      } as any)
+      mockPrisma.matchParticipation.findMany.mockResolvedValue([
+        {
+          userId: 'player-1',
+          attendanceData: emptyGrid,
+          isLateArrival: false,
+          fieldFeeCalculated: 40,
+          videoFee: 5,
+          lateFee: 0,
+          user: { id: 'player-1', name: '张三', playerStatus: 'REGULAR' }
+        }
+      ] as any)
+      mockPrisma.feeOverride.findMany.mockResolvedValue([])
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'player-2', name: '李四', playerStatus: 'TRIAL' }
+      ] as any)
+      mockCalculateCoefficient.mockReturnValue(2.78)
+    })
+
+    it('should diff candidate attendance against stored fees without writing', async () => {
+      mockCalculatePlayerFees
+        .mockReturnValueOnce({ normalPlayerParts: 9, goalkeeperParts: 0, sectionsWithNormalPlay: 3, fieldFee: 50, videoFee: 6, lateFee: 4, totalFee: 60 })
+        .mockReturnValueOnce({ normalPlayerParts: 3, goalkeeperParts: 0, sectionsWithNormalPlay: 1, fieldFee: 8, videoFee: 2, lateFee: 0, totalFee: 10 })
+
+      const preview = await service.previewFees('match-1', {
+        attendanceData: {
+          'player-1': { ...emptyGrid, isLateArrival: true },
+          'player-2': { ...emptyGrid, isLateArrival: false }
+        }
+      })
+
+      expect(mockCalculatePlayerFees).toHaveBeenLastCalledWith(expect.objectContaining({ isTrialPlayer: true }))
+      expect(preview.players).toEqual([
+        expect.objectContaining({ playerId: 'player-1', playerName: '张三', status: 'CHANGED', difference: 15 }),
+        expect.objectContaining({ playerId: 'player-2', playerName: '李四', status: 'ADDED', before: null, difference: 10 })
+      ])
+      expect(preview.totalBefore).toBe(45)
+      expect(preview.totalAfter).toBe(70)
+      expect(mockPrisma.matchParticipation.deleteMany).not.toHaveBeenCalled()
+      expect(mockPrisma.matchParticipation.update).not.toHaveBeenCalled()
+      expect(mockPrisma.feeOverride.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should merge candidate overrides over the stored ones', async () => {
+      mockPrisma.feeOverride.findMany.mockResolvedValue([
+        { playerId: 'player-1', fieldFeeOverride: 30, videoFeeOverride: 0, lateFeeOverride: null, notes: null }
+      ] as any)
+      mockCalculatePlayerFees.mockReturnValue({ normalPlayerParts: 9, goalkeeperParts: 0, sectionsWithNormalPlay: 3, fieldFee: 40, videoFee: 5, lateFee: 0, totalFee: 45 })
+
+      // Clearing the field override keeps the stored video override
+      const preview = await service.previewFees('match-1', {
+        manualOverrides: { 'player-1': { fieldFeeOverride: null } }
+      })
+
+      expect(preview.players[0]).toMatchObject({
+        before: { fieldFee: 30, videoFee: 0, totalFee: 30 },
+        after: { fieldFee: 40, videoFee: 0, totalFee: 40 },
+        difference: 10
+      })
+    })
+
+    it('should start from the same totals the stored breakdown shows', async () => {
+      mockPrisma.feeOverride.findMany.mockResolvedValue([
+        { playerId: 'player-1', fieldFeeOverride: 38, videoFeeOverride: null, lateFeeOverride: null, notes: '实收', isCollectedTotal: true }
+      ] as any)
+      mockCalculatePlayerFees.mockReturnValue({ normalPlayerParts: 9, goalkeeperParts: 0, sectionsWithNormalPlay: 3, fieldFee: 40, videoFee: 5, lateFee: 0, totalFee: 45 })
+
+      const preview = await service.previewFees('match-1', {})
+      const breakdown = await service.getFeeBreakdown('match-1')
+
+      expect(preview.players[0].before).toEqual(breakdown.players[0].finalFees)
+      expect(preview.totalBefore).toBe(breakdown.totalFinalFees)
+      expect(breakdown.totalFinalFees).toBe(38)
+    })
+  })
 })
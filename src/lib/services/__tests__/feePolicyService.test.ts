@@ -0,0 +1,189 @@
+/**
+ * Tests for FeePolicyService and the fee policy rules
+ */
+
+import { FeePolicyService } from '../feePolicyService'
+import { prisma } from '@/lib/prisma'
+import { calculatePlayerFees, type AttendanceData } from '@/lib/feeCalculation'
+import { LEGACY_FEE_POLICY, roundFeeAmount, type FeePolicyRules } from '@/lib/utils/feePolicy'
+import { createEmptyAttendance, DEFAULT_MATCH_FORMAT } from '@/lib/utils/matchFormat'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const makePolicy = (overrides: Record<string, unknown> = {}) => ({
+  id: 'policy-1',
+  version: 1,
+  name: '默认规则',
+  effectiveFrom: new Date('2025-09-01T00:00:00Z'),
+  goalkeeperDiscountPercent: 100,
+  trialDiscountPercent: 0,
+  minimumCharge: null,
+  maximumCharge: null,
+  roundingMode: 'ROUND',
+  notes: null,
+  createdAt: new Date(),
+  createdBy: 'admin-1',
+  _count: { matches: 0 },
+  ...overrides
+})
+
+const policyInput = {
+  name: '2026 规则',
+  effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+  goalkeeperDiscountPercent: 50,
+  trialDiscountPercent: 0,
+  roundingMode: 'ROUND' as const
+}
+
+// One full section as a field player, one part in goal
+const makeAttendance = (): AttendanceData => {
+  const { attendance, goalkeeper } = createEmptyAttendance(DEFAULT_MATCH_FORMAT)
+  attendance['1'] = { '1': 1, '2': 1, '3': 1 }
+  attendance['2']['1'] = 1
+  goalkeeper['2']['1'] = true
+  return { attendance, goalkeeper }
+}
+
+const feesUnder = (policy: Partial<FeePolicyRules>, isTrialPlayer = false) => calculatePlayerFees({
+  attendanceData: makeAttendance(),
+  isLateArrival: false,
+  feeCoefficient: 5,
+  videoFeeRate: 3,
+  policy: { ...LEGACY_FEE_POLICY, ...policy },
+  isTrialPlayer
+})
+
+describe('FeePolicyService', () => {
+  let service: FeePolicyService
+
+  beforeEach(() => {
+    service = new FeePolicyService()
+    jest.clearAllMocks()
+  })
+
+  describe('createPolicy', () => {
+    it('should publish the next version number', async () => {
+      mockPrisma.feePolicy.findFirst.mockResolvedValue({ version: 3 } as any)
+      mockPrisma.feePolicy.create.mockResolvedValue(makePolicy({ id: 'policy-4', version: 4 }) as any)
+      mockPrisma.feePolicy.findUnique.mockResolvedValue(makePolicy({ id: 'policy-4', version: 4 }) as any)
+
+      const policy = await service.createPolicy(policyInput, 'admin-1')
+
+      expect(mockPrisma.feePolicy.create).toHaveBeenCalledWith({
+        data: { ...policyInput, version: 4, createdBy: 'admin-1' }
+      })
+      expect(policy.version).toBe(4)
+    })
+
+    it('should reject a minimum charge above the maximum charge', async () => {
+      await expect(service.createPolicy({
+        ...policyInput,
+        minimumCharge: 50,
+        maximumCharge: 30
+      }, 'admin-1')).rejects.toMatchObject({ code: 'CONFLICT' })
+      expect(mockPrisma.feePolicy.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deletePolicy', () => {
+    it('should refuse to delete a version matches were charged under', async () => {
+      mockPrisma.feePolicy.findUnique.mockResolvedValue(makePolicy({ _count: { matches: 2 } }) as any)
+
+      await expect(service.deletePolicy('policy-1')).rejects.toMatchObject({ code: 'CONFLICT' })
+      expect(mockPrisma.feePolicy.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('findPolicyIdForDate', () => {
+    it('should pick the latest version already in force', async () => {
+      mockPrisma.feePolicy.findFirst.mockResolvedValue({ id: 'policy-2' } as any)
+      const matchDate = new Date('2026-03-01T00:00:00Z')
+
+      const policyId = await service.findPolicyIdForDate(matchDate)
+
+      expect(mockPrisma.feePolicy.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { effectiveFrom: { lte: matchDate } },
+        orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }]
+      }))
+      expect(policyId).toBe('policy-2')
+    })
+
+    it('should return null when no policy is in force yet', async () => {
+      mockPrisma.feePolicy.findFirst.mockResolvedValue(null)
+
+      expect(await service.findPolicyIdForDate(new Date('2020-01-01T00:00:00Z'))).toBeNull()
+    })
+  })
+
+  describe('findTrialPlayerIds', () => {
+    it('should prefer the trial status recorded on the participation', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'player-1', playerStatus: 'REGULAR' },
+        { id: 'player-2', playerStatus: 'TRIAL' },
+        { id: 'player-3', playerStatus: 'TRIAL' }
+      ] as any)
+      mockPrisma.matchParticipation.findMany.mockResolvedValue([
+        { userId: 'player-1', isTrialPlayer: true },
+        { userId: 'player-2', isTrialPlayer: false },
+        { userId: 'player-3', isTrialPlayer: null }
+      ] as any)
+
+      const trialIds = await service.findTrialPlayerIds('match-1', ['player-1', 'player-2', 'player-3'])
+
+      expect(trialIds).toEqual(['player-1', 'player-3'])
+    })
+
+    it('should use the current status without a match', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'player-1', playerStatus: 'REGULAR' },
+        { id: 'player-2', playerStatus: 'TRIAL' }
+      ] as any)
+
+      expect(await service.findTrialPlayerIds(null, ['player-1', 'player-2'])).toEqual(['player-2'])
+      expect(mockPrisma.matchParticipation.findMany).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('fee policy rules', () => {
+  it('should keep the original fees under the legacy policy', () => {
+    const fees = feesUnder({})
+
+    expect(fees.goalkeeperParts).toBe(1)
+    expect(fees.fieldFee).toBe(15)
+    expect(fees.videoFee).toBe(3)
+  })
+
+  it('should charge the undiscounted share of goalkeeper time', () => {
+    const fees = feesUnder({ goalkeeperDiscountPercent: 50 })
+
+    // 3 field parts + half of 1 goalkeeper part
+    expect(fees.fieldFee).toBe(18)
+    expect(fees.videoFee).toBe(4)
+  })
+
+  it('should discount trial players only', () => {
+    expect(feesUnder({ trialDiscountPercent: 50 }, true).fieldFee).toBe(8)
+    expect(feesUnder({ trialDiscountPercent: 50 }, false).fieldFee).toBe(15)
+  })
+
+  it('should apply the minimum charge and cap to field and video fees', () => {
+    const raised = feesUnder({ minimumCharge: 30 })
+    expect(raised.fieldFee + raised.videoFee).toBe(30)
+    expect(raised.videoFee).toBe(3)
+
+    const capped = feesUnder({ maximumCharge: 10 })
+    expect(capped.fieldFee + capped.videoFee).toBe(10)
+  })
+
+  it('should round with the policy rounding mode', () => {
+    expect(roundFeeAmount(7.5, 'ROUND')).toBe(8)
+    expect(roundFeeAmount(7.2, 'CEIL')).toBe(8)
+    expect(roundFeeAmount(7.8, 'FLOOR')).toBe(7)
+    // Float noise must not push an exact amount up a yuan
+    expect(roundFeeAmount(0.1 * 3 * 100, 'CEIL')).toBe(30)
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Tests for LineupService
+ */
+
+import { LineupService } from '../lineupService'
+import { attendanceService } from '../attendanceService'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('../feePolicyService', () => ({
+  feePolicyService: {
+    findTrialPlayerIds: jest.fn().mockResolvedValue([])
+  }
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const storedMatch = {
+  id: 'match-1',
+  fieldFeeTotal: 900,
+  waterFeeTotal: 0,
+  lateFeeRate: 10,
+  videoFeePerUnit: 2,
+  sectionCount: 3,
+  partsPerSection: 3,
+  partMinutes: 10,
+  formation: null,
+  feePolicy: null,
+  matchPlayers: [{ playerId: 'user-1' }, { playerId: 'user-2' }, { playerId: 'user-3' }, { playerId: 'user-4' }],
+  participations: [{ userId: 'user-2', isLateArrival: true }]
+}
+
+const starters = [
+  { playerId: 'user-1', position: 'GK' as const },
+  { playerId: 'user-2', position: 'CB' as const }
+]
+
+const savedParticipations = () =>
+  (mockPrisma.matchParticipation.createMany as jest.Mock).mock.calls[0][0].data as {
+    userId: string
+    isLateArrival: boolean
+    attendanceData: { attendance: Record<string, Record<string, number>>; goalkeeper: Record<string, Record<string, boolean>> }
+  }[]
+
+describe('LineupService', () => {
+  let service: LineupService
+
+  beforeEach(() => {
+    service = new LineupService()
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+    mockPrisma.match.findUnique.mockResolvedValue(storedMatch as any)
+    mockPrisma.lineupPlayer.findMany.mockResolvedValue([])
+    mockPrisma.substitution.findMany.mockResolvedValue([])
+    mockPrisma.matchEvent.findMany.mockResolvedValue([])
+  })
+
+  describe('saveLineup', () => {
+    it('should derive attendance from the starters and substitution times', async () => {
+      const result = await service.saveLineup('match-1', {
+        formation: '1-1',
+        starters,
+        substitutions: [{ section: 1, minute: 15, playerOutId: 'user-2', playerInId: 'user-3' }]
+      })
+
+      expect(result.attendanceUpdated).toBe(true)
+      expect(mockPrisma.match.update).toHaveBeenCalledWith({ where: { id: 'match-1' }, data: { formation: '1-1' } })
+      expect(mockPrisma.substitution.createMany).toHaveBeenCalledWith({
+        data: [{ matchId: 'match-1', section: 1, minute: 15, playerOutId: 'user-2', playerInId: 'user-3', position: null }]
+      })
+
+      const byPlayer = Object.fromEntries(savedParticipations().map(p => [p.userId, p]))
+      expect(byPlayer['user-1'].attendanceData.goalkeeper['2']).toEqual({ 1: true, 2: true, 3: true })
+      expect(byPlayer['user-2'].attendanceData.attendance['1']).toEqual({ 1: 1, 2: 0.5, 3: 0 })
+      expect(byPlayer['user-2'].attendanceData.attendance['2']).toEqual({ 1: 0, 2: 0, 3: 0 })
+      expect(byPlayer['user-3'].attendanceData.attendance['1']).toEqual({ 1: 0, 2: 0.5, 3: 1 })
+      expect(byPlayer['user-3'].attendanceData.attendance['3']).toEqual({ 1: 1, 2: 1, 3: 1 })
+      // Selected but never on the pitch, and late flags kept
+      expect(byPlayer['user-4'].attendanceData.attendance['1']).toEqual({ 1: 0, 2: 0, 3: 0 })
+      expect(byPlayer['user-2'].isLateArrival).toBe(true)
+      expect(byPlayer['user-3'].isLateArrival).toBe(false)
+    })
+
+    it('should keep recorded events and their assist links', async () => {
+      mockPrisma.matchEvent.findMany.mockResolvedValue([
+        { id: 'event-1', playerId: 'user-3', eventType: 'GOAL', minute: 20, goalEventId: null },
+        { id: 'event-2', playerId: 'user-2', eventType: 'ASSIST', minute: 20, goalEventId: 'event-1' }
+      ] as any)
+
+      await service.saveLineup('match-1', { starters, substitutions: [] })
+
+      const [{ data }] = (mockPrisma.matchEvent.createMany as jest.Mock).mock.calls[0]
+      expect(data.map((e: any) => e.eventType)).toEqual(['GOAL', 'ASSIST'])
+      expect(data[0].goalEventId).toBeNull()
+      expect(data[1].goalEventId).toBe(data[0].id)
+    })
+
+    it('should reject substitutions of players who are not on the pitch or not selected', async () => {
+      await expect(service.saveLineup('match-1', {
+        starters,
+        substitutions: [
+          { section: 2, minute: 5, playerOutId: 'user-3', playerInId: 'user-4' },
+          { section: 2, minute: 8, playerOutId: 'user-2', playerInId: 'user-9' }
+        ]
+      })).rejects.toThrow(
+        '第二节 5\': player user-3 is not on the pitch; Player user-9 is not selected for this match'
+      )
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should reject a second goalkeeper coming on', async () => {
+      await expect(service.saveLineup('match-1', {
+        starters,
+        substitutions: [{ section: 1, minute: 0, playerOutId: 'user-2', playerInId: 'user-3', position: 'GK' }]
+      })).rejects.toThrow('two players would be in goal')
+    })
+
+    it('should not save the line-up when its attendance fails validation', async () => {
+      jest.spyOn(attendanceService, 'validateAttendanceData').mockResolvedValueOnce({
+        isValid: false,
+        errors: ['Invalid attendance structure for player user-1'],
+        warnings: [],
+        conflicts: []
+      })
+
+      await expect(service.saveLineup('match-1', { starters, substitutions: [] })).rejects.toThrow(
+        'Invalid attendance structure for player user-1'
+      )
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+      expect(mockPrisma.lineupPlayer.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should leave attendance alone when the line-up is cleared', async () => {
+      const result = await service.saveLineup('match-1', { starters: [], substitutions: [] })
+
+      expect(result.attendanceUpdated).toBe(false)
+      expect(mockPrisma.lineupPlayer.deleteMany).toHaveBeenCalledWith({ where: { matchId: 'match-1' } })
+      expect(mockPrisma.matchParticipation.deleteMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getLineup', () => {
+    it('should throw when the match does not exist', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue(null)
+
+      await expect(service.getLineup('missing')).rejects.toThrow('Match not found')
+    })
+  })
+})
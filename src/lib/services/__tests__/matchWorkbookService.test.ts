@@ -0,0 +1,222 @@
+/**
+ * Tests for MatchWorkbookService
+ */
+
+import * as XLSX from 'xlsx'
+import { MatchWorkbookService } from '../matchWorkbookService'
+import { buildMatchWorkbook, parseMatchWorkbook } from '@/lib/matchWorkbook'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('../seasonService', () => ({
+  seasonService: {
+    getMatchDefaults: jest.fn().mockResolvedValue({ seasonId: 'season-1', lateFeeRate: 10, videoFeePerUnit: 2 })
+  }
+}))
+jest.mock('../feePolicyService', () => ({
+  feePolicyService: {
+    findPolicyIdForDate: jest.fn().mockResolvedValue(null),
+    findTrialPlayerIds: jest.fn().mockResolvedValue([])
+  }
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const users = [
+  { id: 'user-1', name: '张三', shortId: 'zs01' },
+  { id: 'user-2', name: '李四', shortId: 'ls01' },
+  { id: 'user-3', name: '王五', shortId: null }
+]
+const userSummary = (id: string) => {
+  const { name, shortId } = users.find(u => u.id === id)!
+  return { name, shortId }
+}
+
+const fullParts = (value: number) => ({ 1: { 1: value, 2: value, 3: value }, 2: { 1: value, 2: value, 3: value } })
+const noGoalkeeper = { 1: { 1: false, 2: false, 3: false }, 2: { 1: false, 2: false, 3: false } }
+
+const storedMatch = {
+  id: 'match-1',
+  matchDate: new Date('2024-10-05T00:00:00Z'),
+  matchTime: new Date('2024-10-05T10:30:00.000Z'),
+  opponentTeam: '猛龙队',
+  ourScore: 3,
+  opponentScore: 2,
+  fieldFeeTotal: 660.5,
+  waterFeeTotal: 40,
+  lateFeeRate: 10,
+  videoFeePerUnit: 2,
+  sectionCount: 2,
+  partsPerSection: 3,
+  partMinutes: 12,
+  notes: '雨天',
+  participations: [
+    {
+      userId: 'user-1',
+      attendanceData: { attendance: fullParts(1), goalkeeper: noGoalkeeper, isLateArrival: true },
+      isLateArrival: true,
+      totalTime: 6,
+      fieldFeeCalculated: 58.37,
+      lateFee: 10,
+      videoFee: 4,
+      totalFeeCalculated: 72.37,
+      user: userSummary('user-1')
+    },
+    {
+      userId: 'user-2',
+      attendanceData: {
+        attendance: { 1: { 1: 1, 2: 0.5, 3: 0 }, 2: { 1: 1, 2: 1, 3: 0 } },
+        goalkeeper: { 1: { 1: true, 2: true, 3: false }, 2: { 1: false, 2: false, 3: false } },
+        isLateArrival: false
+      },
+      isLateArrival: false,
+      totalTime: 2,
+      fieldFeeCalculated: 19.46,
+      lateFee: 0,
+      videoFee: 2,
+      totalFeeCalculated: 21.46,
+      user: userSummary('user-2')
+    }
+  ],
+  events: [
+    { id: 'event-1', playerId: 'user-1', eventType: 'GOAL', minute: 12, description: null, goalEventId: null, player: userSummary('user-1') },
+    { id: 'event-2', playerId: 'user-1', eventType: 'PENALTY_GOAL', minute: null, description: null, goalEventId: null, player: userSummary('user-1') },
+    { id: 'event-3', playerId: 'user-2', eventType: 'SAVE', minute: 30, description: '扑出单刀', goalEventId: null, player: userSummary('user-2') },
+    { id: 'event-4', playerId: 'user-2', eventType: 'YELLOW_CARD', minute: null, description: null, goalEventId: null, player: userSummary('user-2') },
+    { id: 'event-5', playerId: 'user-1', eventType: 'OWN_GOAL', minute: 55, description: null, goalEventId: null, player: userSummary('user-1') },
+    { id: 'event-6', playerId: 'user-2', eventType: 'ASSIST', minute: 12, description: null, goalEventId: 'event-1', player: userSummary('user-2') }
+  ],
+  feeOverrides: [
+    { playerId: 'user-1', fieldFeeOverride: 50, videoFeeOverride: null, lateFeeOverride: 0, notes: '老队员', isCollectedTotal: true },
+    { playerId: 'user-2', fieldFeeOverride: null, videoFeeOverride: null, lateFeeOverride: null, notes: null, isCollectedTotal: false }
+  ]
+}
+
+const sheetContents = (buffer: Buffer) => {
+  const workbook = XLSX.read(buffer, { type: 'buffer' })
+  return workbook.SheetNames.map(name =>
+    XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, defval: null }) as unknown[][]
+  )
+}
+
+describe('MatchWorkbookService', () => {
+  let service: MatchWorkbookService
+
+  beforeEach(() => {
+    service = new MatchWorkbookService()
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+    mockPrisma.user.findMany.mockResolvedValue(users.filter(u => u.shortId) as any)
+    mockPrisma.playerAlias.findMany.mockResolvedValue([{ alias: '王五', user: { id: 'user-3', name: '王五' } }] as any)
+    mockPrisma.opponentAlias.findUnique.mockResolvedValue({ opponentId: 'opp-1' } as any)
+  })
+
+  it('should export, import and export again to the same workbook', async () => {
+    mockPrisma.match.findUnique.mockResolvedValueOnce(storedMatch as any)
+    const exported = await service.exportMatch('match-1')
+    const firstFile = buildMatchWorkbook(exported)
+
+    const workbook = parseMatchWorkbook(firstFile)
+    expect(workbook).toEqual(exported)
+
+    mockPrisma.match.create.mockImplementation(((args: any) => Promise.resolve({ id: 'match-2', ...args.data, feePolicy: null })) as any)
+    const { imported, unknownPlayers } = await service.importWorkbook(workbook!, 'admin')
+    expect(unknownPlayers).toEqual([])
+    expect(imported).toMatchObject({ selectedPlayerIds: ['user-1', 'user-2'], participations: 2, goals: 2, assists: 1 })
+
+    // Read the new match back the way the database would return it
+    const created = (mock: jest.Mock): any[] => mock.mock.calls.map(([args]: any[]) => args.data)
+    mockPrisma.match.findUnique.mockResolvedValueOnce({
+      ...created(mockPrisma.match.create as jest.Mock)[0],
+      participations: created(mockPrisma.matchParticipation.create as jest.Mock)
+        .map((p: any) => ({ ...p, user: userSummary(p.userId) })),
+      events: created(mockPrisma.matchEvent.createMany as jest.Mock)[0]
+        .map((e: any) => ({ ...e, player: userSummary(e.playerId) })),
+      feeOverrides: created(mockPrisma.feeOverride.create as jest.Mock)
+    } as any)
+    const reexported = await service.exportMatch('match-2')
+
+    expect(reexported).toEqual(exported)
+    expect(sheetContents(buildMatchWorkbook(reexported))).toEqual(sheetContents(firstFile))
+  })
+
+  it('should carry goalkeeper parts, late flags, overrides and every event type into the workbook', async () => {
+    mockPrisma.match.findUnique.mockResolvedValue(storedMatch as any)
+
+    const [matchSheet, attendanceSheet, eventSheet] = sheetContents(buildMatchWorkbook(await service.exportMatch('match-1')))
+
+    expect(matchSheet[0]).toEqual(['格式版本', 1])
+    expect(attendanceSheet[2]).toEqual([
+      'ls01', '李四', '守门', '守门0.5', 0, 1, 1, 0,
+      '', 2, 19.46, 0, 2, 21.46, '是', null, null, null, '', ''
+    ])
+    expect(attendanceSheet[1].slice(8, 20)).toEqual(['是', 6, 58.37, 10, 4, 72.37, '是', 50, null, 0, '老队员', '是'])
+    expect(eventSheet.slice(1).map(row => row[2])).toEqual(['进球', '点球(进)', '扑救', '黄牌', '乌龙球', '助攻'])
+    expect(eventSheet[6]).toEqual(['ls01', '李四', '助攻', 12, '', 1])
+  })
+
+  it('should link an imported assist to its goal and drop links to skipped goals', async () => {
+    mockPrisma.match.create.mockResolvedValue({ id: 'match-2', feePolicy: null } as any)
+    const exported = await (async () => {
+      mockPrisma.match.findUnique.mockResolvedValueOnce(storedMatch as any)
+      return service.exportMatch('match-1')
+    })()
+    const workbook = {
+      ...exported,
+      events: [
+        ...exported.events,
+        { shortId: 'zs01', name: '张三', eventType: 'ASSIST' as const, minute: 40, description: '', goalEvent: 6 }
+      ]
+    }
+
+    await service.importWorkbook(workbook, 'admin')
+
+    const [{ data }] = (mockPrisma.matchEvent.createMany as jest.Mock).mock.calls[0]
+    expect(data[5].goalEventId).toBe(data[0].id)
+    // Pointing at another assist is not a goal link
+    expect(data[6].goalEventId).toBeNull()
+  })
+
+  it('should keep the workbook order of events through creation times', async () => {
+    mockPrisma.match.create.mockResolvedValue({ id: 'match-2', feePolicy: null } as any)
+    mockPrisma.match.findUnique.mockResolvedValueOnce(storedMatch as any)
+
+    await service.importWorkbook(await service.exportMatch('match-1'), 'admin')
+
+    const [{ data }] = (mockPrisma.matchEvent.createMany as jest.Mock).mock.calls[0]
+    const times = data.map((event: any) => event.createdAt.getTime())
+    expect(times.slice(1).every((time: number, index: number) => time > times[index])).toBe(true)
+    expect(mockPrisma.match.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      include: expect.objectContaining({
+        events: expect.objectContaining({ orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] })
+      })
+    }))
+  })
+
+  it('should skip players it cannot match and report them', async () => {
+    mockPrisma.match.findUnique.mockResolvedValue(storedMatch as any)
+    mockPrisma.user.findMany.mockResolvedValue([users[0]] as any)
+    mockPrisma.playerAlias.findMany.mockResolvedValue([])
+    mockPrisma.match.create.mockResolvedValue({ id: 'match-2', feePolicy: null } as any)
+
+    const { imported, unknownPlayers } = await service.importWorkbook(await service.exportMatch('match-1'), 'admin')
+
+    expect(unknownPlayers).toEqual(['ls01'])
+    expect(imported.participations).toBe(1)
+    expect(mockPrisma.matchEvent.createMany).toHaveBeenCalledWith({
+      data: expect.not.arrayContaining([expect.objectContaining({ playerId: 'user-2' })])
+    })
+  })
+
+  it('should leave hand-kept score sheets to the legacy parser and reject unknown versions', () => {
+    const legacy = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(legacy, XLSX.utils.aoa_to_sheet([['序号', 'shortId', '姓名']]), '10月5日VS猛龙队')
+    expect(parseMatchWorkbook(XLSX.write(legacy, { type: 'buffer', bookType: 'xlsx' }))).toBeNull()
+
+    const future = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(future, XLSX.utils.aoa_to_sheet([['格式版本', 2]]), '比赛')
+    expect(() => parseMatchWorkbook(XLSX.write(future, { type: 'buffer', bookType: 'xlsx' })))
+      .toThrow('Unsupported match workbook version 2 (expected 1)')
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * Tests for NotificationService
+ */
+
+import { NotificationService } from '../notificationService'
+import { prisma } from '@/lib/prisma'
+import { paymentService } from '../paymentService'
+import type { EmailMessage, MailTransport } from '@/lib/mailer'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('../feeCalculationService', () => ({
+  feeCalculationService: { getFeeBreakdown: jest.fn() }
+}))
+jest.mock('../paymentService', () => ({
+  paymentService: { getPlayerBalances: jest.fn() }
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+const mockGetPlayerBalances = paymentService.getPlayerBalances as jest.Mock
+
+const match = {
+  id: 'match-1',
+  matchDate: new Date('2025-10-12T00:00:00Z'),
+  matchTime: new Date('2025-10-12T10:00:00Z'),
+  opponentTeam: '老男孩'
+}
+
+const makeBalance = (playerId: string, outstanding: number) => ({
+  playerId,
+  playerName: playerId,
+  matchCount: 1,
+  totalDue: outstanding,
+  totalPaid: 0,
+  outstanding,
+  unpaidMatches: outstanding > 0
+    ? [{ matchId: 'match-1', matchDate: match.matchDate, opponentTeam: match.opponentTeam, amountDue: outstanding, amountPaid: 0, outstanding }]
+    : []
+})
+
+describe('NotificationService', () => {
+  let service: NotificationService
+  let outbox: EmailMessage[]
+  let transport: MailTransport
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    outbox = []
+    transport = {
+      name: 'test',
+      send: jest.fn(async (message: EmailMessage) => { outbox.push(message) })
+    }
+    service = new NotificationService(transport)
+  })
+
+  describe('notifyMatchChanged', () => {
+    it('should not email anyone when only other fields changed', async () => {
+      const result = await service.notifyMatchChanged(match, { ...match })
+
+      expect(result).toEqual({ sent: 0, skipped: 0, failed: 0 })
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should email subscribed players involved in the match', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'player-1', name: '张三', email: 'zhang@example.com' }
+      ] as any)
+
+      const result = await service.notifyMatchChanged(match, { ...match, opponentTeam: '新对手' })
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          NOT: { emailOptOuts: { has: 'MATCH_UPDATES' } }
+        })
+      }))
+      expect(result.sent).toBe(1)
+      expect(outbox[0].to).toBe('zhang@example.com')
+      expect(outbox[0].text).toContain('老男孩 → 新对手')
+    })
+
+    it('should start every email without waiting for the previous one', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'player-1', name: '张三', email: 'zhang@example.com' },
+        { id: 'player-2', name: '李四', email: 'li@example.com' }
+      ] as any)
+      const pending: (() => void)[] = []
+      ;(transport.send as jest.Mock).mockImplementation(() => new Promise<void>(resolve => pending.push(resolve)))
+
+      const delivery = service.notifyMatchChanged(match, { ...match, opponentTeam: '新对手' })
+      await new Promise(resolve => setImmediate(resolve))
+
+      expect(transport.send).toHaveBeenCalledTimes(2)
+      pending.forEach(resolve => resolve())
+      expect(await delivery).toEqual({ sent: 2, skipped: 0, failed: 0 })
+    })
+  })
+
+  describe('sendBalanceReminders', () => {
+    it('should only remind subscribed players who still owe', async () => {
+      mockGetPlayerBalances.mockResolvedValue([
+        makeBalance('player-1', 60),
+        makeBalance('player-2', 0),
+        makeBalance('player-3', 40)
+      ])
+      // player-3 opted out, so only player-1 comes back from the subscription query
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'player-1', name: 'player-1', email: 'p1@example.com' }
+      ] as any)
+
+      const result = await service.sendBalanceReminders()
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: { in: ['player-1', 'player-3'] } })
+      }))
+      expect(result).toEqual({ sent: 1, skipped: 1, failed: 0 })
+      expect(outbox[0].subject).toContain('¥60.00')
+    })
+  })
+
+  describe('notifyClaimDecision', () => {
+    it('should count transport errors as failed instead of throwing', async () => {
+      (transport.send as jest.Mock).mockRejectedValue(new Error('smtp down'))
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await service.notifyClaimDecision(
+        { id: 'claim-1', claimantName: '李四', email: 'li@example.com' },
+        false,
+        '信息不符'
+      )
+
+      expect(result).toEqual({ sent: 0, skipped: 0, failed: 1 })
+      consoleSpy.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Tests for OpponentService
+ */
+
+import { OpponentService, normalizeOpponentName } from '../opponentService'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const thunder = { id: 'opp-1', name: '雷霆FC', aliases: [{ alias: '雷霆fc' }], _count: { matches: 4 } }
+
+describe('OpponentService', () => {
+  let service: OpponentService
+
+  beforeEach(() => {
+    service = new OpponentService()
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+  })
+
+  describe('normalizeOpponentName', () => {
+    it('should treat spacing, case and full-width variants as one name', () => {
+      expect(normalizeOpponentName('雷霆 FC')).toBe('雷霆fc')
+      expect(normalizeOpponentName('雷霆ＦＣ ')).toBe('雷霆fc')
+      expect(normalizeOpponentName('雷霆fc')).toBe('雷霆fc')
+    })
+  })
+
+  describe('resolveOpponentId', () => {
+    it('should reuse the opponent a name variant already belongs to', async () => {
+      mockPrisma.opponentAlias.findUnique.mockResolvedValue({ opponentId: 'opp-1' } as any)
+
+      await expect(service.resolveOpponentId('雷霆 FC')).resolves.toBe('opp-1')
+      expect(mockPrisma.opponentAlias.findUnique).toHaveBeenCalledWith({
+        where: { alias: '雷霆fc' },
+        select: { opponentId: true }
+      })
+      expect(mockPrisma.opponent.create).not.toHaveBeenCalled()
+    })
+
+    it('should register an unknown name as a new opponent', async () => {
+      mockPrisma.opponentAlias.findUnique.mockResolvedValue(null)
+      mockPrisma.opponent.create.mockResolvedValue({ id: 'opp-2' } as any)
+
+      await expect(service.resolveOpponentId(' 猛龙队 ')).resolves.toBe('opp-2')
+      expect(mockPrisma.opponent.create).toHaveBeenCalledWith({
+        data: { name: '猛龙队', aliases: { create: { alias: '猛龙队' } } },
+        select: { id: true }
+      })
+    })
+  })
+
+  describe('linkUnassignedMatches', () => {
+    it('should group existing matches by alias under the earliest spelling', async () => {
+      mockPrisma.match.findMany.mockResolvedValue([
+        { id: 'match-1', opponentTeam: '雷霆FC' },
+        { id: 'match-2', opponentTeam: '雷霆 FC' },
+        { id: 'match-3', opponentTeam: '猛龙队' }
+      ] as any)
+      mockPrisma.opponent.count.mockResolvedValueOnce(0).mockResolvedValueOnce(2)
+      mockPrisma.opponentAlias.findUnique.mockResolvedValue(null)
+      mockPrisma.opponent.create
+        .mockResolvedValueOnce({ id: 'opp-1' } as any)
+        .mockResolvedValueOnce({ id: 'opp-2' } as any)
+      mockPrisma.match.updateMany
+        .mockResolvedValueOnce({ count: 2 })
+        .mockResolvedValueOnce({ count: 1 })
+
+      const result = await service.linkUnassignedMatches()
+
+      expect(result).toEqual({ linkedMatches: 3, createdOpponents: 2 })
+      expect(mockPrisma.opponent.create).toHaveBeenCalledTimes(2)
+      expect(mockPrisma.match.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['match-1', 'match-2'] } },
+        data: { opponentId: 'opp-1' }
+      })
+    })
+  })
+
+  describe('mergeOpponents', () => {
+    it('should move matches and aliases to the target', async () => {
+      const thunderSpaced = { id: 'opp-2', name: 'Thunder', aliases: [{ alias: 'thunder' }], _count: { matches: 1 } }
+      mockPrisma.opponent.findUnique.mockResolvedValue(thunderSpaced as any)
+      mockPrisma.opponent.count.mockResolvedValue(1)
+      mockPrisma.opponent.findUniqueOrThrow.mockResolvedValue({
+        ...thunder,
+        aliases: [{ alias: 'thunder' }, { alias: '雷霆fc' }],
+        _count: { matches: 5 }
+      } as any)
+
+      const result = await service.mergeOpponents('opp-2', 'opp-1')
+
+      expect(mockPrisma.match.updateMany).toHaveBeenCalledWith({ where: { opponentId: 'opp-2' }, data: { opponentId: 'opp-1' } })
+      expect(mockPrisma.opponentAlias.updateMany).toHaveBeenCalledWith({ where: { opponentId: 'opp-2' }, data: { opponentId: 'opp-1' } })
+      expect(mockPrisma.opponent.delete).toHaveBeenCalledWith({ where: { id: 'opp-2' } })
+      expect(result.source).toEqual({ id: 'opp-2', name: 'Thunder', aliases: ['thunder'], matchCount: 1 })
+      expect(result.target).toEqual({ id: 'opp-1', name: '雷霆FC', aliases: ['thunder', '雷霆fc'], matchCount: 5 })
+    })
+
+    it('should refuse to merge an opponent into itself', async () => {
+      await expect(service.mergeOpponents('opp-1', 'opp-1')).rejects.toThrow('Cannot merge an opponent into itself')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getHeadToHead', () => {
+    it('should count results, goals and top scorers across meetings', async () => {
+      mockPrisma.opponent.findUnique.mockResolvedValue(thunder as any)
+      mockPrisma.match.findMany.mockResolvedValue([
+        { id: 'match-4', matchDate: new Date('2024-11-02'), opponentTeam: '雷霆FC', ourScore: null, opponentScore: null },
+        { id: 'match-3', matchDate: new Date('2024-10-05'), opponentTeam: '雷霆 FC', ourScore: 2, opponentScore: 2 },
+        { id: 'match-2', matchDate: new Date('2024-09-07'), opponentTeam: '雷霆FC', ourScore: 1, opponentScore: 3 },
+        { id: 'match-1', matchDate: new Date('2024-08-03'), opponentTeam: '雷霆FC', ourScore: 4, opponentScore: 0 }
+      ] as any)
+      mockPrisma.matchEvent.findMany.mockResolvedValue([
+        { playerId: 'user-2', player: { name: '李四' } },
+        { playerId: 'user-1', player: { name: '张三' } },
+        { playerId: 'user-1', player: { name: '张三' } },
+        { playerId: 'user-3', player: { name: '王五' } }
+      ] as any)
+
+      const headToHead = await service.getHeadToHead('opp-1')
+
+      expect(headToHead.record).toEqual({ played: 3, wins: 1, draws: 1, losses: 1, goalsFor: 7, goalsAgainst: 5 })
+      expect(headToHead.topScorers[0]).toEqual({ playerId: 'user-1', name: '张三', goals: 2 })
+      expect(headToHead.topScorers).toHaveLength(3)
+      expect(headToHead.matches).toHaveLength(4)
+      expect(mockPrisma.matchEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { match: { opponentId: 'opp-1' }, eventType: { in: ['GOAL', 'PENALTY_GOAL'] } }
+      }))
+    })
+
+    it('should throw when the opponent does not exist', async () => {
+      mockPrisma.opponent.findUnique.mockResolvedValue(null)
+
+      await expect(service.getHeadToHead('missing')).rejects.toThrow('Opponent not found')
+    })
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * Tests for PaymentService
+ */
+
+import { PaymentService, resolveAmountDue, getPaymentStatus } from '../paymentService'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+describe('PaymentService', () => {
+  let service: PaymentService
+
+  beforeEach(() => {
+    service = new PaymentService()
+    jest.clearAllMocks()
+  })
+
+  describe('resolveAmountDue', () => {
+    const participation = {
+      fieldFeeCalculated: 40.4,
+      videoFee: 6,
+      lateFee: 10
+    }
+
+    it('should sum rounded calculated fees when there is no override', () => {
+      expect(resolveAmountDue(participation, null)).toBe(56)
+    })
+
+    it('should apply component overrides with fallback to calculated values', () => {
+      expect(resolveAmountDue(participation, {
+        fieldFeeOverride: 30,
+        videoFeeOverride: null,
+        lateFeeOverride: 0
+      })).toBe(36)
+    })
+
+    it('should treat a field fee override marked as the collected total as the whole fee (Excel import)', () => {
+      expect(resolveAmountDue(participation, {
+        fieldFeeOverride: 50,
+        videoFeeOverride: null,
+        lateFeeOverride: null,
+        isCollectedTotal: true
+      })).toBe(50)
+    })
+
+    it('should keep video and late fees for an ordinary field fee override', () => {
+      expect(resolveAmountDue(participation, {
+        fieldFeeOverride: 50,
+        videoFeeOverride: null,
+        lateFeeOverride: null,
+        isCollectedTotal: false
+      })).toBe(66)
+    })
+  })
+
+  describe('getPaymentStatus', () => {
+    it('should derive status from due and paid amounts', () => {
+      expect(getPaymentStatus(50, 0)).toBe('UNPAID')
+      expect(getPaymentStatus(50, 20)).toBe('PARTIAL')
+      expect(getPaymentStatus(50, 50)).toBe('PAID')
+      expect(getPaymentStatus(50, 60)).toBe('PAID')
+      expect(getPaymentStatus(0, 0)).toBe('PAID')
+    })
+  })
+
+  describe('getMatchPayments', () => {
+    it('should throw error if match not found', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue(null)
+
+      await expect(service.getMatchPayments('missing')).rejects.toThrow('Match missing not found')
+    })
+
+    it('should combine final fees and payments per player', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue({ id: 'match-1' } as any)
+      mockPrisma.matchParticipation.findMany.mockResolvedValue([
+        { userId: 'player-1', fieldFeeCalculated: 40, videoFee: 6, lateFee: 0, user: { id: 'player-1', name: '张三' } },
+        { userId: 'player-2', fieldFeeCalculated: 40, videoFee: 6, lateFee: 10, user: { id: 'player-2', name: '李四' } }
+      ] as any)
+      mockPrisma.feeOverride.findMany.mockResolvedValue([])
+      mockPrisma.payment.findMany.mockResolvedValue([
+        { id: 'pay-1', matchId: 'match-1', playerId: 'player-1', amount: 46, method: 'WECHAT', paidBy: null, paidAt: new Date(), notes: null, createdAt: new Date(), createdBy: 'admin' },
+        { id: 'pay-2', matchId: 'match-1', playerId: 'player-2', amount: 20, method: 'CASH', paidBy: null, paidAt: new Date(), notes: null, createdAt: new Date(), createdBy: 'admin' }
+      ] as any)
+
+      const result = await service.getMatchPayments('match-1')
+
+      expect(result.players).toHaveLength(2)
+      expect(result.players[0]).toMatchObject({ amountDue: 46, amountPaid: 46, outstanding: 0, status: 'PAID' })
+      expect(result.players[1]).toMatchObject({ amountDue: 56, amountPaid: 20, outstanding: 36, status: 'PARTIAL' })
+      expect(result.totalDue).toBe(102)
+      expect(result.totalPaid).toBe(66)
+      expect(result.totalOutstanding).toBe(36)
+      expect(result.paidCount).toBe(1)
+      expect(result.partialCount).toBe(1)
+      expect(result.unpaidCount).toBe(0)
+    })
+  })
+
+  describe('recordPayment', () => {
+    it('should reject non-positive amounts', async () => {
+      await expect(
+        service.recordPayment('match-1', { playerId: 'player-1', amount: 0 }, 'admin')
+      ).rejects.toThrow('Payment amount must be greater than zero')
+    })
+
+    it('should reject players without participation', async () => {
+      mockPrisma.matchParticipation.findUnique.mockResolvedValue(null)
+
+      await expect(
+        service.recordPayment('match-1', { playerId: 'player-1', amount: 20 }, 'admin')
+      ).rejects.toThrow('Player player-1 has no participation record for match match-1')
+    })
+
+    it('should create a rounded payment record', async () => {
+      mockPrisma.matchParticipation.findUnique.mockResolvedValue({ id: 'participation-1' } as any)
+      mockPrisma.payment.create.mockResolvedValue({
+        id: 'pay-1', matchId: 'match-1', playerId: 'player-1', amount: 21, method: 'ALIPAY',
+        paidBy: '王五', paidAt: new Date(), notes: null, createdAt: new Date(), createdBy: 'admin'
+      } as any)
+
+      const result = await service.recordPayment('match-1', {
+        playerId: 'player-1',
+        amount: 20.6,
+        method: 'ALIPAY',
+        paidBy: '王五'
+      }, 'admin')
+
+      expect(mockPrisma.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          matchId: 'match-1',
+          playerId: 'player-1',
+          amount: 21,
+          method: 'ALIPAY',
+          paidBy: '王五',
+          createdBy: 'admin'
+        })
+      })
+      expect(result.amount).toBe(21)
+    })
+  })
+
+  describe('getPlayerBalances', () => {
+    it('should roll up outstanding fees across matches', async () => {
+      mockPrisma.matchParticipation.findMany.mockResolvedValue([
+        {
+          userId: 'player-1', matchId: 'match-1', fieldFeeCalculated: 40, videoFee: 6, lateFee: 0,
+          user: { id: 'player-1', name: '张三' },
+          match: { id: 'match-1', matchDate: new Date('2025-10-01'), opponentTeam: '雷霆FC' }
+        },
+        {
+          userId: 'player-1', matchId: 'match-2', fieldFeeCalculated: 50, videoFee: 6, lateFee: 10,
+          user: { id: 'player-1', name: '张三' },
+          match: { id: 'match-2', matchDate: new Date('2025-10-08'), opponentTeam: '闪电队' }
+        }
+      ] as any)
+      mockPrisma.feeOverride.findMany.mockResolvedValue([])
+      ;(mockPrisma.payment.groupBy as jest.Mock).mockResolvedValue([
+        { playerId: 'player-1', matchId: 'match-1', _sum: { amount: 46 } },
+        { playerId: 'player-1', matchId: 'match-2', _sum: { amount: 30 } }
+      ])
+
+      const result = await service.getPlayerBalances(['player-1'])
+
+      expect(result).toHaveLength(1)
+      expect(result[0]).toMatchObject({
+        playerId: 'player-1',
+        matchCount: 2,
+        totalDue: 112,
+        totalPaid: 76,
+        outstanding: 36
+      })
+      expect(result[0].unpaidMatches).toEqual([
+        expect.objectContaining({ matchId: 'match-2', outstanding: 36 })
+      ])
+    })
+
+    it('should keep payments of a deleted match in what the player paid', async () => {
+      mockPrisma.matchParticipation.findMany.mockResolvedValue([
+        {
+          userId: 'player-1', matchId: 'match-2', fieldFeeCalculated: 50, videoFee: 6, lateFee: 10,
+          user: { id: 'player-1', name: '张三' },
+          match: { id: 'match-2', matchDate: new Date('2025-10-08'), opponentTeam: '闪电队' }
+        }
+      ] as any)
+      mockPrisma.feeOverride.findMany.mockResolvedValue([])
+      ;(mockPrisma.payment.groupBy as jest.Mock).mockResolvedValue([
+        { playerId: 'player-1', matchId: null, _sum: { amount: 46 } },
+        { playerId: 'player-2', matchId: null, _sum: { amount: 20 } }
+      ])
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'player-1', name: '张三' },
+        { id: 'player-2', name: '李四' }
+      ] as any)
+
+      const result = await service.getPlayerBalances()
+
+      expect(result).toEqual([
+        expect.objectContaining({ playerId: 'player-1', matchCount: 1, totalDue: 66, totalPaid: 46, outstanding: 20 }),
+        expect.objectContaining({ playerId: 'player-2', playerName: '李四', matchCount: 0, totalPaid: 20, outstanding: 0 })
+      ])
+    })
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Tests for PlayerAliasService
+ */
+
+import { PlayerAliasService } from '../playerAliasService'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+describe('PlayerAliasService', () => {
+  let service: PlayerAliasService
+
+  beforeEach(() => {
+    service = new PlayerAliasService()
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+  })
+
+  describe('suggest', () => {
+    beforeEach(() => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'user-1', name: '东辉', shortId: 'dh01', aliases: [] },
+        { id: 'user-2', name: '王正信', shortId: 'wzx01', aliases: [] },
+        { id: 'user-3', name: '李强', shortId: 'lq01', aliases: [{ alias: '强哥' }] },
+        { id: 'user-4', name: '赵六', shortId: 'zl01', aliases: [] }
+      ] as any)
+    })
+
+    it('should rank players by shortId, name, alias and pinyin initials', async () => {
+      const { unresolved: [byShortId, byName, byAlias, byPinyin] } = await service.suggest([
+        { name: '小明', shortId: 'dh01', sheetName: '10月5日' },
+        { name: '正信', shortId: '', sheetName: '10月5日' },
+        { name: '强哥', shortId: '', sheetName: '10月5日' },
+        { name: '大黄', shortId: '', sheetName: '10月5日' }
+      ])
+
+      expect(byShortId.suggestions[0]).toMatchObject({ userId: 'user-1', reasons: ['SHORT_ID'] })
+      expect(byName.suggestions[0]).toMatchObject({ userId: 'user-2', score: 0.85, reasons: ['NAME'] })
+      expect(byAlias.suggestions[0]).toMatchObject({ userId: 'user-3', score: 1, reasons: ['ALIAS'] })
+      expect(byPinyin.suggestions[0]).toMatchObject({ userId: 'user-1', reasons: ['PINYIN'] })
+      expect(byPinyin.suggestions.map(s => s.userId)).not.toContain('user-4')
+    })
+
+    it('should list each unknown name once with every sheet it appears on', async () => {
+      const { unresolved, players } = await service.suggest([
+        { name: '阿辉', shortId: '', sheetName: '10月5日' },
+        { name: '阿辉 (试训)', shortId: '', sheetName: '10月12日' }
+      ])
+
+      expect(unresolved).toHaveLength(1)
+      expect(unresolved[0]).toMatchObject({ excelName: '阿辉', sheets: ['10月5日', '10月12日'] })
+      expect(players).toHaveLength(4)
+    })
+  })
+
+  describe('resolve', () => {
+    beforeEach(() => {
+      mockPrisma.user.findMany.mockResolvedValue([{ shortId: 'dh01' }] as any)
+      mockPrisma.playerAlias.upsert.mockImplementation(((args: any) => Promise.resolve({
+        id: `alias-${args.create.alias}`,
+        ...args.create,
+        createdAt: new Date(),
+        user: { name: 'Player' }
+      })) as any)
+    })
+
+    it('should remember the normalized sheet name for an existing player', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue({ id: 'user-1' } as any)
+
+      const result = await service.resolve([{ excelName: '阿辉 (试训)', action: 'MAP', userId: 'user-1' }], 'admin')
+
+      expect(mockPrisma.playerAlias.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { alias: '阿辉' },
+        update: { userId: 'user-1', createdBy: 'admin' }
+      }))
+      expect(result.createdUsers).toEqual([])
+    })
+
+    it('should reject a mapping to a missing player', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null)
+
+      await expect(
+        service.resolve([{ excelName: '阿辉', action: 'MAP', userId: 'user-9' }], 'admin')
+      ).rejects.toThrow('User user-9 not found')
+      expect(mockPrisma.playerAlias.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should create ghost players with the next free numbered shortId', async () => {
+      mockPrisma.user.create.mockImplementation(((args: any) => Promise.resolve({
+        id: `ghost-${args.data.shortId}`,
+        name: args.data.name,
+        shortId: args.data.shortId
+      })) as any)
+
+      const result = await service.resolve([
+        { excelName: '东辉(试训)', action: 'CREATE_GHOST' },
+        { excelName: '大华', action: 'CREATE_GHOST' }
+      ], 'admin')
+
+      expect(mockPrisma.user.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          name: '东辉',
+          shortId: 'dh02',
+          accountStatus: 'GHOST',
+          playerStatus: 'TRIAL',
+          createdBy: 'admin'
+        })
+      }))
+      expect(result.createdUsers).toEqual([
+        { id: 'ghost-dh02', name: '东辉', shortId: 'dh02' },
+        { id: 'ghost-dh03', name: '大华', shortId: 'dh03' }
+      ])
+    })
+  })
+})
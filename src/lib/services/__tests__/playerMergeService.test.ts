@@ -0,0 +1,159 @@
+/**
+ * Tests for PlayerMergeService
+ */
+
+import { PlayerMergeService } from '../playerMergeService'
+import { prisma } from '@/lib/prisma'
+import { feeCalculationService } from '../feeCalculationService'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('../feeCalculationService', () => ({
+  feeCalculationService: { recalculateAllFees: jest.fn() }
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const makeUser = (overrides: Record<string, unknown> = {}) => ({
+  id: 'target-1',
+  name: '李东辉',
+  shortId: 'dh',
+  jerseyNumber: 7,
+  accountStatus: 'GHOST',
+  email: null,
+  phone: null,
+  passwordHash: null,
+  userType: 'PLAYER',
+  deletedAt: null,
+  ...overrides
+})
+
+const source = makeUser({ id: 'source-1', name: '李东晖', shortId: 'dh2', jerseyNumber: null })
+const target = makeUser()
+
+const mockUsers = (sourceUser: Record<string, unknown>, targetUser: Record<string, unknown>) => {
+  mockPrisma.user.findUnique.mockImplementation(((args: any) =>
+    Promise.resolve(args.where.id === sourceUser.id ? sourceUser : targetUser)) as any)
+}
+
+describe('PlayerMergeService', () => {
+  let service: PlayerMergeService
+
+  beforeEach(() => {
+    service = new PlayerMergeService()
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+    mockPrisma.matchParticipation.deleteMany.mockResolvedValue({ count: 1 })
+    mockPrisma.matchEvent.deleteMany.mockResolvedValue({ count: 0 })
+    mockPrisma.feeOverride.deleteMany.mockResolvedValue({ count: 0 })
+    mockPrisma.matchPlayer.deleteMany.mockResolvedValue({ count: 0 })
+    mockPrisma.matchPlayer.findMany.mockResolvedValue([])
+    mockPrisma.feeOverride.findMany.mockResolvedValue([])
+    mockPrisma.lineupPlayer.findMany.mockResolvedValue([])
+    mockPrisma.matchRsvp.findMany.mockResolvedValue([])
+    mockPrisma.matchParticipation.updateMany.mockResolvedValue({ count: 2 })
+    mockPrisma.matchEvent.updateMany.mockResolvedValue({ count: 3 })
+    mockPrisma.matchPlayer.updateMany.mockResolvedValue({ count: 2 })
+    mockPrisma.feeOverride.updateMany.mockResolvedValue({ count: 0 })
+    mockPrisma.payment.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.comment.updateMany.mockResolvedValue({ count: 0 })
+    mockPrisma.claimRequest.updateMany.mockResolvedValue({ count: 0 })
+  })
+
+  describe('validation', () => {
+    it('should refuse to merge a player into itself', async () => {
+      await expect(service.previewMerge('target-1', 'target-1')).rejects.toMatchObject({ code: 'CONFLICT' })
+    })
+
+    it('should refuse deleted players', async () => {
+      mockUsers(source, makeUser({ deletedAt: new Date() }))
+
+      await expect(service.previewMerge('source-1', 'target-1')).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+
+    it('should refuse to merge away an admin account', async () => {
+      mockUsers({ ...source, userType: 'ADMIN' }, target)
+
+      await expect(service.previewMerge('source-1', 'target-1')).rejects.toMatchObject({ code: 'FORBIDDEN' })
+    })
+  })
+
+  describe('mergePlayers', () => {
+    beforeEach(() => {
+      mockUsers(source, target)
+      mockPrisma.matchParticipation.findMany.mockImplementation(((args: any) =>
+        Promise.resolve(args.where.userId === 'source-1'
+          ? [{ matchId: 'match-1' }, { matchId: 'match-2' }]
+          : [{ matchId: 'match-2' }])) as any)
+    })
+
+    it('should drop the source records for conflicting matches by default', async () => {
+      const result = await service.mergePlayers('source-1', 'target-1', {}, 'admin-1')
+
+      expect(mockPrisma.matchParticipation.deleteMany).toHaveBeenCalledTimes(1)
+      expect(mockPrisma.matchParticipation.deleteMany).toHaveBeenCalledWith({
+        where: { matchId: 'match-2', userId: 'source-1' }
+      })
+      expect(mockPrisma.matchParticipation.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'source-1' },
+        data: { userId: 'target-1' }
+      })
+      expect(result.recalculatedMatches).toEqual(['match-2'])
+      expect(feeCalculationService.recalculateAllFees).toHaveBeenCalledWith('match-2')
+    })
+
+    it('should drop the target records when the source is kept', async () => {
+      await service.mergePlayers('source-1', 'target-1', { 'match-2': 'KEEP_SOURCE' }, 'admin-1')
+
+      expect(mockPrisma.matchParticipation.deleteMany).toHaveBeenCalledWith({
+        where: { matchId: 'match-2', userId: 'target-1' }
+      })
+      expect(mockPrisma.matchEvent.deleteMany).toHaveBeenCalledWith({
+        where: { matchId: 'match-2', playerId: 'target-1' }
+      })
+    })
+
+    it('should soft-delete the source and move payments', async () => {
+      const result = await service.mergePlayers('source-1', 'target-1', {}, 'admin-1')
+
+      expect(mockPrisma.payment.updateMany).toHaveBeenCalledWith({
+        where: { playerId: 'source-1' },
+        data: { playerId: 'target-1' }
+      })
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'source-1' },
+        data: expect.objectContaining({ deletedBy: 'admin-1', deletedAt: expect.any(Date) })
+      })
+      expect(result.moved).toMatchObject({ participations: 2, events: 3, payments: 1 })
+    })
+
+    it('should move RSVPs, keeping the target\'s answer where both answered', async () => {
+      mockPrisma.matchRsvp.findMany.mockResolvedValue([{ matchId: 'match-3' }] as any)
+
+      await service.mergePlayers('source-1', 'target-1', {}, 'admin-1')
+
+      expect(mockPrisma.matchRsvp.deleteMany).toHaveBeenCalledWith({
+        where: { playerId: 'source-1', matchId: { in: ['match-3'] } }
+      })
+      expect(mockPrisma.matchRsvp.updateMany).toHaveBeenCalledWith({
+        where: { playerId: 'source-1' },
+        data: { playerId: 'target-1' }
+      })
+    })
+
+    it('should carry a registered duplicate\'s login over to the ghost account', async () => {
+      mockUsers({ ...source, accountStatus: 'CLAIMED', email: 'dh@example.com', passwordHash: 'hash' }, target)
+
+      await service.mergePlayers('source-1', 'target-1', {}, 'admin-1')
+
+      expect(mockPrisma.user.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 'source-1' },
+        data: expect.objectContaining({ email: null, passwordHash: null })
+      })
+      expect(mockPrisma.user.update).toHaveBeenNthCalledWith(2, {
+        where: { id: 'target-1' },
+        data: { email: 'dh@example.com', phone: null, passwordHash: 'hash', accountStatus: 'CLAIMED' }
+      })
+    })
+  })
+})
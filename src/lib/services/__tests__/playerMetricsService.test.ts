@@ -0,0 +1,214 @@
+/**
+ * Tests for PlayerMetricsService
+ */
+
+import { PlayerMetricsService } from '../playerMetricsService'
+import { prisma } from '@/lib/prisma'
+import { createEmptyAttendance, DEFAULT_MATCH_FORMAT } from '@/lib/utils/matchFormat'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+// Attendance for the default 3 × 3 × 10 format from "section-part" shares and goalkeeper parts
+const attendanceOf = (shares: Record<string, number>, inGoal: string[] = []) => {
+  const data = createEmptyAttendance(DEFAULT_MATCH_FORMAT)
+  Object.entries(shares).forEach(([slot, value]) => {
+    const [section, part] = slot.split('-')
+    data.attendance[section][part] = value
+  })
+  inGoal.forEach(slot => {
+    const [section, part] = slot.split('-')
+    data.goalkeeper[section][part] = true
+  })
+  return data
+}
+
+const storedMatch = (overrides: Record<string, unknown> = {}) => ({
+  id: 'match-1',
+  matchDate: new Date('2025-05-01'),
+  matchResult: null,
+  ourScore: 2,
+  opponentScore: 2,
+  ...DEFAULT_MATCH_FORMAT,
+  participations: [
+    // Plays the first section and half of the first part of the second
+    { userId: 'user-1', attendanceData: attendanceOf({ '1-1': 1, '1-2': 1, '1-3': 1, '2-1': 0.5 }) },
+    // Keeps goal for the whole third section
+    { userId: 'keeper', attendanceData: attendanceOf({ '3-1': 1, '3-2': 1, '3-3': 1 }, ['3-1', '3-2', '3-3']) }
+  ],
+  events: [
+    { playerId: 'user-1', eventType: 'GOAL', minute: 5 },
+    { playerId: 'user-2', eventType: 'OWN_GOAL', minute: 12 },
+    { playerId: 'user-2', eventType: 'GOAL', minute: 45 },
+    { playerId: 'user-2', eventType: 'ASSIST', minute: 45 }
+  ],
+  concededGoals: [{ minute: 35 }],
+  ...overrides
+})
+
+describe('PlayerMetricsService', () => {
+  let service: PlayerMetricsService
+
+  beforeEach(() => {
+    service = new PlayerMetricsService()
+    jest.clearAllMocks()
+    mockPrisma.match.findMany.mockResolvedValue([storedMatch()] as any)
+  })
+
+  describe('getMetricsByPlayer', () => {
+    it('should rate goals per 90 minutes played and count plus/minus over the parts on the pitch', async () => {
+      const metrics = await service.getMetricsByPlayer({ seasonId: 'season-1' })
+      const player = metrics.get('user-1')!
+
+      // 3.5 parts of 10 minutes; on the pitch for the goal at 5', the own goal at 12' and the goal conceded at 35'
+      expect(player.minutesPlayed).toBe(35)
+      expect(player.goalsPer90).toBe(2.57)
+      expect(player.assistsPer90).toBe(0)
+      expect(player.plusMinus).toBe(-1)
+      expect(player.cleanSheets).toBe(0)
+      // Only players with attendance get metrics
+      expect(metrics.has('user-2')).toBe(false)
+    })
+
+    it('should give a keeper a clean sheet when nothing went in while they were in goal', async () => {
+      const metrics = await service.getMetricsByPlayer({})
+
+      expect(metrics.get('keeper')).toMatchObject({ cleanSheets: 1, plusMinus: 0 })
+    })
+
+    it('should not give a clean sheet when the score has goals without a minute', async () => {
+      mockPrisma.match.findMany.mockResolvedValue([storedMatch({ opponentScore: 3 })] as any)
+
+      const metrics = await service.getMetricsByPlayer({})
+
+      expect(metrics.get('keeper')!.cleanSheets).toBe(0)
+    })
+
+    it('should count goals conceded and saves while in goal and the sections kept clean', async () => {
+      mockPrisma.match.findMany.mockResolvedValue([storedMatch({
+        opponentScore: 3,
+        events: [{ playerId: 'keeper', eventType: 'SAVE', minute: 65 }, { playerId: 'user-2', eventType: 'OWN_GOAL', minute: 12 }],
+        concededGoals: [{ minute: 35 }, { minute: 75 }]
+      })] as any)
+
+      const keeper = (await service.getMetricsByPlayer({})).get('keeper')!
+
+      // Only the goal at 75' fell in the third section
+      expect(keeper).toMatchObject({
+        matchesInGoal: 1,
+        partsInGoal: 3,
+        goalsConcededInGoal: 1,
+        saves: 1,
+        savePercentage: 50,
+        cleanSheets: 0,
+        cleanSheetSections: 0
+      })
+    })
+
+    it('should put goals without a minute on a keeper who was in goal throughout', async () => {
+      const allParts = ['1-1', '1-2', '1-3', '2-1', '2-2', '2-3', '3-1', '3-2', '3-3']
+      mockPrisma.match.findMany.mockResolvedValue([storedMatch({
+        opponentScore: 3,
+        participations: [{
+          userId: 'keeper',
+          attendanceData: attendanceOf(Object.fromEntries(allParts.map(slot => [slot, 1])), allParts)
+        }]
+      })] as any)
+
+      const keeper = (await service.getMetricsByPlayer({})).get('keeper')!
+
+      // The own goal and the goal at 35' plus the one without a minute
+      expect(keeper.goalsConcededInGoal).toBe(3)
+      expect(keeper.savePercentage).toBe(0)
+      expect(keeper.cleanSheetSections).toBe(0)
+    })
+
+    it('should average the form index over the last five matches, oldest first', async () => {
+      const results = ['LOSE', 'WIN', 'WIN', 'WIN', 'WIN', 'WIN']
+      mockPrisma.match.findMany.mockResolvedValue(results.map((matchResult, index) => storedMatch({
+        id: `match-${index + 1}`,
+        matchDate: new Date(2025, 0, 6 - index),
+        matchResult,
+        ourScore: null,
+        opponentScore: null,
+        participations: [{ userId: 'user-1', attendanceData: attendanceOf({ '1-1': 1 }) }],
+        events: [],
+        concededGoals: []
+      })).reverse() as any)
+
+      const player = (await service.getMetricsByPlayer({})).get('user-1')!
+
+      // Match dates run backwards, so the loss is the most recent match
+      expect(player.trend.map(point => point.matchId)).toEqual([
+        'match-6', 'match-5', 'match-4', 'match-3', 'match-2', 'match-1'
+      ])
+      expect(player.trend.map(point => point.form)).toEqual([1, 1, 1, 1, 1, 0.8])
+      expect(player.form).toBe(0.8)
+    })
+
+    it('should only load matches the requested players appeared in', async () => {
+      await service.getMetricsByPlayer({ seasonId: 'season-1' }, ['user-1'])
+
+      expect(mockPrisma.match.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { seasonId: 'season-1', participations: { some: { userId: { in: ['user-1'] } } } }
+      }))
+    })
+  })
+
+  describe('getPlayerMetrics', () => {
+    it('should return empty metrics for a player without appearances', async () => {
+      mockPrisma.match.findMany.mockResolvedValue([])
+
+      const metrics = await service.getPlayerMetrics('user-9', {})
+
+      expect(metrics).toEqual({
+        minutesPlayed: 0,
+        goalsPer90: 0,
+        assistsPer90: 0,
+        plusMinus: 0,
+        cleanSheets: 0,
+        matchesInGoal: 0,
+        partsInGoal: 0,
+        goalsConcededInGoal: 0,
+        saves: 0,
+        savePercentage: null,
+        cleanSheetSections: 0,
+        form: null,
+        trend: []
+      })
+    })
+  })
+
+  describe('getMatchGoalkeepers', () => {
+    it('should list only the players who kept goal', async () => {
+      const match = storedMatch({ events: [...storedMatch().events, { playerId: 'keeper', eventType: 'SAVE', minute: 70 }] })
+      mockPrisma.match.findUnique.mockResolvedValue({
+        ...match,
+        participations: match.participations.map(participation => ({
+          ...participation,
+          user: { id: participation.userId, name: participation.userId }
+        }))
+      } as any)
+
+      const goalkeepers = await service.getMatchGoalkeepers('match-1')
+
+      expect(goalkeepers).toEqual([{
+        player: { id: 'keeper', name: 'keeper' },
+        partsInGoal: 3,
+        goalsConceded: 0,
+        saves: 1,
+        savePercentage: 100,
+        cleanSheet: true,
+        cleanSheetSections: 1
+      }])
+    })
+
+    it('should throw when the match does not exist', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue(null)
+
+      await expect(service.getMatchGoalkeepers('missing')).rejects.toThrow('Match not found')
+    })
+  })
+})
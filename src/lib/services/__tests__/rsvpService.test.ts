@@ -0,0 +1,72 @@
+/**
+ * Tests for RsvpService
+ */
+
+import { RsvpService } from '../rsvpService'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const makeRsvp = (playerId: string, response: 'YES' | 'NO' | 'MAYBE') => ({
+  playerId,
+  response,
+  note: null,
+  updatedAt: new Date(),
+  player: { id: playerId, name: playerId, jerseyNumber: null }
+})
+
+describe('RsvpService', () => {
+  let service: RsvpService
+
+  beforeEach(() => {
+    service = new RsvpService()
+    jest.clearAllMocks()
+  })
+
+  describe('respond', () => {
+    it('should upsert the player answer for an upcoming match', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue({ id: 'match-1', ourScore: null, opponentScore: null } as any)
+      mockPrisma.matchRsvp.upsert.mockResolvedValue(makeRsvp('player-1', 'YES') as any)
+
+      await service.respond('match-1', 'player-1', 'YES', '晚到10分钟')
+
+      expect(mockPrisma.matchRsvp.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { matchId_playerId: { matchId: 'match-1', playerId: 'player-1' } },
+        create: { matchId: 'match-1', playerId: 'player-1', response: 'YES', note: '晚到10分钟' },
+        update: { response: 'YES', note: '晚到10分钟' }
+      }))
+    })
+
+    it('should refuse answers once the score is recorded', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue({ id: 'match-1', ourScore: 3, opponentScore: 1 } as any)
+
+      await expect(service.respond('match-1', 'player-1', 'NO')).rejects.toMatchObject({ code: 'CONFLICT' })
+      expect(mockPrisma.matchRsvp.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should throw NOT_FOUND for an unknown match', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue(null)
+
+      await expect(service.respond('missing', 'player-1', 'YES')).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+  })
+
+  describe('getMatchRsvps', () => {
+    it('should count answers by response', async () => {
+      mockPrisma.matchRsvp.findMany.mockResolvedValue([
+        makeRsvp('player-1', 'YES'),
+        makeRsvp('player-2', 'YES'),
+        makeRsvp('player-3', 'NO'),
+        makeRsvp('player-4', 'MAYBE')
+      ] as any)
+
+      const summary = await service.getMatchRsvps('match-1')
+
+      expect(summary.counts).toEqual({ yes: 2, no: 1, maybe: 1, total: 4 })
+      expect(summary.responses).toHaveLength(4)
+    })
+  })
+})
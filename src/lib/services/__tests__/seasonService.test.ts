@@ -0,0 +1,141 @@
+/**
+ * Tests for SeasonService
+ */
+
+import { SeasonService } from '../seasonService'
+import { prisma } from '@/lib/prisma'
+import { globalSettingsService } from '../globalSettingsService'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('../globalSettingsService', () => ({
+  globalSettingsService: { getBaseFeeRates: jest.fn() }
+}))
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+const mockGetBaseFeeRates = globalSettingsService.getBaseFeeRates as jest.Mock
+
+const makeSeason = (overrides: Record<string, unknown> = {}) => ({
+  id: 'season-1',
+  name: '2025-26 赛季',
+  startDate: new Date('2025-09-01T00:00:00Z'),
+  endDate: new Date('2026-06-30T23:59:59Z'),
+  fieldFeeTotal: null,
+  waterFeeTotal: null,
+  lateFeeRate: null,
+  videoFeePerUnit: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: 'admin-1',
+  _count: { matches: 0 },
+  ...overrides
+})
+
+const seasonInput = {
+  name: '2025-26 赛季',
+  startDate: new Date('2025-09-01T00:00:00Z'),
+  endDate: new Date('2026-06-30T23:59:59Z')
+}
+
+describe('SeasonService', () => {
+  let service: SeasonService
+
+  beforeEach(() => {
+    service = new SeasonService()
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+    mockPrisma.match.updateMany.mockResolvedValue({ count: 0 })
+    mockGetBaseFeeRates.mockResolvedValue({ baseLateFeeRate: 10, baseVideoFeeRate: 2 })
+  })
+
+  describe('createSeason', () => {
+    it('should reject a season that overlaps an existing one', async () => {
+      mockPrisma.season.findFirst.mockResolvedValue({ name: '2024-25 赛季' } as any)
+
+      await expect(service.createSeason(seasonInput, 'admin-1')).rejects.toMatchObject({ code: 'CONFLICT' })
+      expect(mockPrisma.season.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject an end date before the start date', async () => {
+      await expect(service.createSeason({
+        ...seasonInput,
+        endDate: new Date('2025-08-01T00:00:00Z')
+      }, 'admin-1')).rejects.toMatchObject({ code: 'CONFLICT' })
+    })
+
+    it('should attach the matches inside the date range', async () => {
+      mockPrisma.season.findFirst.mockResolvedValue(null)
+      mockPrisma.season.create.mockResolvedValue(makeSeason() as any)
+      mockPrisma.season.findUnique.mockResolvedValue(makeSeason({ _count: { matches: 4 } }) as any)
+
+      const season = await service.createSeason(seasonInput, 'admin-1')
+
+      expect(mockPrisma.match.updateMany).toHaveBeenCalledWith({
+        where: { matchDate: { gte: seasonInput.startDate, lte: seasonInput.endDate } },
+        data: { seasonId: 'season-1' }
+      })
+      expect(season.matchCount).toBe(4)
+    })
+  })
+
+  describe('updateSeason', () => {
+    it('should ignore the season itself when checking overlaps', async () => {
+      mockPrisma.season.findUnique.mockResolvedValue(makeSeason() as any)
+      mockPrisma.season.findFirst.mockResolvedValue(null)
+      mockPrisma.season.update.mockResolvedValue(makeSeason() as any)
+
+      await service.updateSeason('season-1', seasonInput)
+
+      expect(mockPrisma.season.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: { not: 'season-1' } })
+      }))
+      // Matches that no longer fall in the range are detached first
+      expect(mockPrisma.match.updateMany).toHaveBeenNthCalledWith(1, {
+        where: {
+          seasonId: 'season-1',
+          NOT: { matchDate: { gte: seasonInput.startDate, lte: seasonInput.endDate } }
+        },
+        data: { seasonId: null }
+      })
+    })
+
+    it('should throw NOT_FOUND for an unknown season', async () => {
+      mockPrisma.season.findUnique.mockResolvedValue(null)
+
+      await expect(service.updateSeason('missing', seasonInput)).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+  })
+
+  describe('getMatchDefaults', () => {
+    it('should use season rates when the match date falls in a season', async () => {
+      mockPrisma.season.findFirst.mockResolvedValue(makeSeason({
+        fieldFeeTotal: 800,
+        lateFeeRate: 15
+      }) as any)
+
+      const defaults = await service.getMatchDefaults(new Date('2025-10-12T00:00:00Z'))
+
+      expect(defaults).toEqual({
+        seasonId: 'season-1',
+        fieldFeeTotal: 800,
+        waterFeeTotal: null,
+        lateFeeRate: 15,
+        videoFeePerUnit: 2
+      })
+    })
+
+    it('should fall back to system settings outside any season', async () => {
+      mockPrisma.season.findFirst.mockResolvedValue(null)
+
+      const defaults = await service.getMatchDefaults(new Date('2025-07-12T00:00:00Z'))
+
+      expect(defaults).toEqual({
+        seasonId: null,
+        fieldFeeTotal: null,
+        waterFeeTotal: null,
+        lateFeeRate: 10,
+        videoFeePerUnit: 2
+      })
+    })
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Tests for StatementService
+ */
+
+import { StatementService, getMonthRange } from '../statementService'
+import { renderStatementHtml, buildStatementWorkbook } from '@/lib/statementExport'
+import { prisma } from '@/lib/prisma'
+import * as XLSX from 'xlsx'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const match1 = { id: 'match-1', matchDate: new Date('2024-10-05T00:00:00Z'), opponentTeam: '猛龙队' }
+const match2 = { id: 'match-2', matchDate: new Date('2024-10-19T00:00:00Z'), opponentTeam: '<飞鹰>' }
+
+describe('StatementService', () => {
+  let service: StatementService
+
+  beforeEach(() => {
+    service = new StatementService()
+    jest.clearAllMocks()
+  })
+
+  describe('getMonthRange', () => {
+    it('should span the calendar month in UTC', () => {
+      expect(getMonthRange('2024-12')).toEqual({
+        start: new Date('2024-12-01T00:00:00Z'),
+        end: new Date('2025-01-01T00:00:00Z')
+      })
+    })
+  })
+
+  describe('getMonthlyStatement', () => {
+    beforeEach(() => {
+      mockPrisma.matchParticipation.findMany.mockResolvedValue([
+        { userId: 'player-1', matchId: 'match-1', fieldFeeCalculated: 40, videoFee: 6, lateFee: 0, user: { id: 'player-1', name: '张三' }, match: match1 },
+        { userId: 'player-2', matchId: 'match-1', fieldFeeCalculated: 40, videoFee: 6, lateFee: 10, user: { id: 'player-2', name: '李四' }, match: match1 },
+        { userId: 'player-1', matchId: 'match-2', fieldFeeCalculated: 30.4, videoFee: 5, lateFee: 0, user: { id: 'player-1', name: '张三' }, match: match2 }
+      ] as any)
+      mockPrisma.feeOverride.findMany.mockResolvedValue([
+        { playerId: 'player-2', matchId: 'match-1', fieldFeeOverride: 20, videoFeeOverride: null, lateFeeOverride: 0, notes: null }
+      ] as any)
+      ;(mockPrisma.payment.groupBy as jest.Mock).mockResolvedValue([
+        { playerId: 'player-1', matchId: 'match-1', _sum: { amount: 46 } },
+        { playerId: 'player-2', matchId: 'match-1', _sum: { amount: 10 } }
+      ])
+    })
+
+    it('should aggregate final fees and payments per player', async () => {
+      const result = await service.getMonthlyStatement('2024-10')
+
+      expect(mockPrisma.matchParticipation.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          match: {
+            matchDate: { gte: new Date('2024-10-01T00:00:00Z'), lt: new Date('2024-11-01T00:00:00Z') }
+          }
+        }
+      }))
+
+      // Sorted by name: 李四 before 张三 in zh-CN collation
+      expect(result.players.map(p => p.playerName)).toEqual(['李四', '张三'])
+
+      const [lisi, zhangsan] = result.players
+      expect(lisi.lines[0]).toMatchObject({ fieldFee: 20, videoFee: 6, lateFee: 0, totalFee: 26, amountPaid: 10, outstanding: 16 })
+      expect(zhangsan.lines).toHaveLength(2)
+      expect(zhangsan.lines[1]).toMatchObject({ fieldFee: 30, videoFee: 5, totalFee: 35, amountPaid: 0, outstanding: 35 })
+      expect(zhangsan).toMatchObject({ totalDue: 81, totalPaid: 46, outstanding: 35 })
+
+      expect(result.totalDue).toBe(107)
+      expect(result.totalPaid).toBe(56)
+      expect(result.outstanding).toBe(51)
+    })
+
+    it('should scope every query to the requested player', async () => {
+      await service.getMonthlyStatement('2024-10', 'player-1')
+
+      expect(mockPrisma.matchParticipation.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ userId: 'player-1' })
+      }))
+      expect(mockPrisma.feeOverride.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ playerId: 'player-1' })
+      })
+      expect(mockPrisma.payment.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ playerId: 'player-1' })
+      }))
+    })
+
+    it('should export escaped HTML and a two-sheet workbook', async () => {
+      const result = await service.getMonthlyStatement('2024-10')
+
+      const html = renderStatementHtml(result)
+      expect(html).toContain('2024年10月费用账单')
+      expect(html).toContain('&lt;飞鹰&gt;')
+      expect(html).not.toContain('<飞鹰>')
+
+      const workbook = XLSX.read(buildStatementWorkbook(result), { type: 'buffer' })
+      expect(workbook.SheetNames).toEqual(['汇总', '明细'])
+      const detailRows = XLSX.utils.sheet_to_json(workbook.Sheets['明细'], { header: 1 })
+      expect(detailRows).toHaveLength(4)
+    })
+  })
+})
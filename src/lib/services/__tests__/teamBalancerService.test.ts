@@ -0,0 +1,175 @@
+/**
+ * Tests for TeamBalancerService
+ */
+
+import { TeamBalancerService } from '../teamBalancerService'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+const squad = [
+  { id: 'gk-1', name: 'GK One', position: 'GK' },
+  { id: 'gk-2', name: 'GK Two', position: 'GK' },
+  { id: 'cb-1', name: 'CB One', position: 'CB' },
+  { id: 'cb-2', name: 'CB Two', position: 'CB' },
+  { id: 'cm-1', name: 'CM One', position: 'CMF' },
+  { id: 'cm-2', name: 'CM Two', position: 'CMF' },
+  { id: 'st-1', name: 'ST One', position: 'CF' },
+  { id: 'st-2', name: 'ST Two', position: 'CF' }
+]
+
+const recentMatches = [
+  { id: 'old-1', partMinutes: 10 },
+  { id: 'old-2', partMinutes: 10 }
+]
+
+// Everyone played both matches; the strikers score, one of them far more
+const participations = squad.flatMap(player =>
+  recentMatches.map(match => ({ userId: player.id, matchId: match.id, totalTime: player.id === 'cb-2' ? 3 : 6 }))
+)
+const recentEvents = [
+  ...Array.from({ length: 4 }, () => ({ playerId: 'st-1', eventType: 'GOAL' })),
+  { playerId: 'st-2', eventType: 'GOAL' },
+  { playerId: 'cm-1', eventType: 'ASSIST' },
+  { playerId: 'cm-1', eventType: 'ASSIST' }
+]
+
+const sidesOf = (result: Awaited<ReturnType<TeamBalancerService['suggestTeams']>>) => ({
+  A: result.sides.A.map(p => p.playerId).sort(),
+  B: result.sides.B.map(p => p.playerId).sort()
+})
+
+describe('TeamBalancerService', () => {
+  let service: TeamBalancerService
+
+  beforeEach(() => {
+    service = new TeamBalancerService()
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma as any))
+    mockPrisma.match.findUnique.mockResolvedValue({
+      matchDate: new Date('2025-06-01'),
+      matchPlayers: squad.map(player => ({ player }))
+    } as any)
+    mockPrisma.match.findMany.mockResolvedValue(recentMatches as any)
+    mockPrisma.matchParticipation.findMany.mockResolvedValue(participations as any)
+    mockPrisma.matchEvent.findMany.mockResolvedValue(recentEvents as any)
+  })
+
+  describe('suggestTeams', () => {
+    it('should spread each position category across both sides', async () => {
+      const result = await service.suggestTeams('match-1')
+
+      expect(result.sides.A).toHaveLength(4)
+      expect(result.sides.B).toHaveLength(4)
+      for (const category of ['GK', '后卫', '中场', '前锋']) {
+        expect(result.sides.A.filter(p => p.category === category)).toHaveLength(1)
+        expect(result.sides.B.filter(p => p.category === category)).toHaveLength(1)
+      }
+      // The top scorer and the top assister end up on different sides
+      const sideOf = (id: string) => [...result.sides.A, ...result.sides.B].find(p => p.playerId === id)!.side
+      expect(sideOf('st-1')).not.toBe(sideOf('cm-1'))
+      expect(result.fairness).toBeGreaterThanOrEqual(90)
+    })
+
+    it('should rate players from recent goals, assists and minutes', async () => {
+      const result = await service.suggestTeams('match-1')
+      const players = Object.fromEntries([...result.sides.A, ...result.sides.B].map(p => [p.playerId, p]))
+
+      expect(players['st-1']).toMatchObject({ recentMinutes: 120, goalRate: 2, rating: 3.5 })
+      expect(players['cm-1']).toMatchObject({ assistRate: 1, rating: 2.25 })
+      expect(players['cb-2']).toMatchObject({ recentMinutes: 60, rating: 1.25 })
+      expect(mockPrisma.match.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { matchDate: { lt: new Date('2025-06-01') } },
+        take: 10
+      }))
+    })
+
+    it('should keep locked players on their side', async () => {
+      const result = await service.suggestTeams('match-1', { locks: { 'st-1': 'A', 'cm-1': 'A' } })
+
+      const locked = result.sides.A.filter(p => p.locked).map(p => p.playerId).sort()
+      expect(locked).toEqual(['cm-1', 'st-1'])
+      expect(result.sides.B.some(p => p.locked)).toBe(false)
+    })
+
+    it('should give the same split for the same seed', async () => {
+      const first = await service.suggestTeams('match-1', { seed: 42 })
+      const second = await service.suggestTeams('match-1', { seed: 42 })
+
+      expect(sidesOf(second)).toEqual(sidesOf(first))
+    })
+
+    it('should reject locks on players who are not selected', async () => {
+      await expect(service.suggestTeams('match-1', { locks: { 'user-9': 'B' } }))
+        .rejects.toThrow('Player user-9 is not selected for this match')
+    })
+
+    it('should throw when the match does not exist', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue(null)
+
+      await expect(service.suggestTeams('missing')).rejects.toThrow('Match not found')
+    })
+  })
+
+  describe('getTeams', () => {
+    it('should add up goals per side, counting own goals for the other side', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue({
+        matchPlayers: [
+          { side: 'A', player: { id: 'user-1', name: 'One' } },
+          { side: 'A', player: { id: 'user-2', name: 'Two' } },
+          { side: 'B', player: { id: 'user-3', name: 'Three' } },
+          { side: null, player: { id: 'user-4', name: 'Four' } }
+        ],
+        events: [
+          { playerId: 'user-1', eventType: 'GOAL' },
+          { playerId: 'user-2', eventType: 'ASSIST' },
+          { playerId: 'user-3', eventType: 'PENALTY_GOAL' },
+          { playerId: 'user-2', eventType: 'OWN_GOAL' }
+        ]
+      } as any)
+
+      const result = await service.getTeams('match-1')
+
+      expect(result.isSplit).toBe(true)
+      expect(result.sides.A).toMatchObject({ goals: 1, assists: 1 })
+      expect(result.sides.B).toMatchObject({ goals: 2, assists: 0 })
+      expect(result.unassigned).toEqual([{ id: 'user-4', name: 'Four' }])
+    })
+  })
+
+  describe('saveTeams', () => {
+    beforeEach(() => {
+      mockPrisma.match.findUnique.mockResolvedValue({
+        matchPlayers: [
+          { playerId: 'user-1', side: null, player: { id: 'user-1', name: 'One' } },
+          { playerId: 'user-2', side: null, player: { id: 'user-2', name: 'Two' } }
+        ],
+        events: []
+      } as any)
+    })
+
+    it('should store each side on the selections', async () => {
+      await service.saveTeams('match-1', { 'user-1': 'A', 'user-2': 'B' })
+
+      expect(mockPrisma.matchPlayer.updateMany).toHaveBeenCalledWith({ where: { matchId: 'match-1' }, data: { side: null } })
+      expect(mockPrisma.matchPlayer.updateMany).toHaveBeenCalledWith({
+        where: { matchId: 'match-1', playerId: { in: ['user-2'] } },
+        data: { side: 'B' }
+      })
+    })
+
+    it('should reject players who are not selected', async () => {
+      await expect(service.saveTeams('match-1', { 'user-1': 'A', 'user-9': 'B' }))
+        .rejects.toThrow('Player user-9 is not selected for this match')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should reject a split with an empty side', async () => {
+      await expect(service.saveTeams('match-1', { 'user-1': 'A', 'user-2': 'A' }))
+        .rejects.toThrow('Both sides need at least one player')
+    })
+  })
+})
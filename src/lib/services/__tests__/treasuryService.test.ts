@@ -0,0 +1,173 @@
+/**
+ * Tests for TreasuryService
+ */
+
+import { TreasuryService } from '../treasuryService'
+import { prisma } from '@/lib/prisma'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+
+describe('TreasuryService', () => {
+  let service: TreasuryService
+
+  beforeEach(() => {
+    service = new TreasuryService()
+    jest.clearAllMocks()
+  })
+
+  describe('createEntry', () => {
+    const input = {
+      direction: 'EXPENSE' as const,
+      category: 'FIELD' as const,
+      amount: 300,
+      occurredAt: new Date('2024-10-05T00:00:00Z'),
+      matchId: 'match-1'
+    }
+
+    it('should reject field and water costs booked against a match', async () => {
+      await expect(service.createEntry(input, 'admin')).rejects.toThrow(
+        'Field and water costs of a match are recorded on the match itself'
+      )
+      expect(mockPrisma.treasuryEntry.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject entries for a missing match', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue(null)
+
+      await expect(
+        service.createEntry({ ...input, category: 'VIDEO_EDITING' }, 'admin')
+      ).rejects.toThrow('Match match-1 not found')
+    })
+
+    it('should book a rounded entry with its match label', async () => {
+      mockPrisma.match.findUnique.mockResolvedValue({ id: 'match-1' } as any)
+      mockPrisma.treasuryEntry.create.mockResolvedValue({
+        id: 'entry-1', direction: 'EXPENSE', category: 'VIDEO_EDITING', amount: 80.13,
+        occurredAt: input.occurredAt, matchId: 'match-1', description: null, createdAt: new Date(),
+        match: { matchDate: new Date('2024-10-05T00:00:00Z'), opponentTeam: '猛龙队' }
+      } as any)
+
+      const result = await service.createEntry({ ...input, category: 'VIDEO_EDITING', amount: 80.126 }, 'admin')
+
+      expect(mockPrisma.treasuryEntry.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ amount: 80.13, matchId: 'match-1', createdBy: 'admin' })
+      }))
+      expect(result).toMatchObject({ amount: 80.13, matchLabel: '2024-10-05 vs 猛龙队' })
+    })
+  })
+
+  describe('getReport', () => {
+    beforeEach(() => {
+      mockPrisma.match.findMany.mockResolvedValue([
+        { id: 'match-1', matchDate: new Date('2024-10-05T00:00:00Z'), opponentTeam: '猛龙队', fieldFeeTotal: 300, waterFeeTotal: 20 },
+        { id: 'match-2', matchDate: new Date('2024-11-02T00:00:00Z'), opponentTeam: '飞鹰队', fieldFeeTotal: 300, waterFeeTotal: 0 }
+      ] as any)
+      mockPrisma.treasuryEntry.findMany.mockResolvedValue([
+        { direction: 'EXPENSE', category: 'VIDEO_EDITING', amount: 50, occurredAt: new Date('2024-10-06T00:00:00Z'), matchId: 'match-1' },
+        { direction: 'INCOME', category: 'SPONSORSHIP', amount: 500, occurredAt: new Date('2024-11-10T00:00:00Z'), matchId: null }
+      ] as any)
+      mockPrisma.matchParticipation.findMany.mockResolvedValue([
+        { userId: 'player-1', matchId: 'match-1', fieldFeeCalculated: 160, videoFee: 10, lateFee: 0 },
+        { userId: 'player-2', matchId: 'match-1', fieldFeeCalculated: 160, videoFee: 10, lateFee: 10 },
+        { userId: 'player-1', matchId: 'match-2', fieldFeeCalculated: 300, videoFee: 0, lateFee: 0 }
+      ] as any)
+      mockPrisma.feeOverride.findMany.mockResolvedValue([
+        { playerId: 'player-2', matchId: 'match-1', fieldFeeOverride: 100, videoFeeOverride: null, lateFeeOverride: null, notes: null }
+      ] as any)
+      ;(mockPrisma.payment.groupBy as jest.Mock).mockResolvedValue([
+        { matchId: 'match-1', _sum: { amount: 290 } },
+        { matchId: 'match-2', _sum: { amount: 300 } }
+      ])
+    })
+
+    it('should reconcile each match and carry a running monthly balance', async () => {
+      const report = await service.getReport()
+
+      expect(report.matches[0]).toMatchObject({
+        fieldFee: 300,
+        waterFee: 20,
+        otherExpenses: 50,
+        feesDue: 290,
+        feesCollected: 290,
+        net: -80
+      })
+      expect(report.matches[1]).toMatchObject({ feesDue: 300, feesCollected: 300, net: 0 })
+
+      expect(report.periods).toEqual([
+        { month: '2024-10', expenses: 370, income: 0, feesCollected: 290, net: -80, balance: -80 },
+        { month: '2024-11', expenses: 300, income: 500, feesCollected: 300, net: 500, balance: 420 }
+      ])
+      expect(report.expensesByCategory).toMatchObject({ FIELD: 600, WATER: 20, VIDEO_EDITING: 50 })
+      expect(report.incomeByCategory.SPONSORSHIP).toBe(500)
+      expect(report).toMatchObject({
+        openingBalance: 0,
+        closingBalance: 420,
+        totalExpenses: 670,
+        totalIncome: 500,
+        feesOutstanding: 0
+      })
+    })
+
+    it('should leave past balances unchanged when a match is deleted', async () => {
+      const before = await service.getReport()
+
+      mockPrisma.match.findUnique.mockResolvedValue({
+        matchDate: new Date('2024-10-05T00:00:00Z'), opponentTeam: '猛龙队', fieldFeeTotal: 300, waterFeeTotal: 20,
+        createdBy: 'admin'
+      } as any)
+      mockPrisma.payment.aggregate.mockResolvedValue({ _sum: { amount: 290 } } as any)
+      await service.bookDeletedMatch('match-1')
+
+      const [{ data: booked }] = (mockPrisma.treasuryEntry.createMany as jest.Mock).mock.calls[0]
+      expect(booked).toEqual([
+        expect.objectContaining({ direction: 'EXPENSE', category: 'FIELD', amount: 300, matchId: null, createdBy: 'admin' }),
+        expect.objectContaining({ direction: 'EXPENSE', category: 'WATER', amount: 20 }),
+        expect.objectContaining({ direction: 'INCOME', category: 'OTHER', amount: 290 })
+      ])
+
+      // What the database returns once match-1 and its participations are gone
+      mockPrisma.match.findMany.mockResolvedValue([
+        { id: 'match-2', matchDate: new Date('2024-11-02T00:00:00Z'), opponentTeam: '飞鹰队', fieldFeeTotal: 300, waterFeeTotal: 0 }
+      ] as any)
+      mockPrisma.treasuryEntry.findMany.mockResolvedValue([
+        { direction: 'EXPENSE', category: 'VIDEO_EDITING', amount: 50, occurredAt: new Date('2024-10-06T00:00:00Z'), matchId: null },
+        { direction: 'INCOME', category: 'SPONSORSHIP', amount: 500, occurredAt: new Date('2024-11-10T00:00:00Z'), matchId: null },
+        ...booked
+      ] as any)
+      mockPrisma.matchParticipation.findMany.mockResolvedValue([
+        { userId: 'player-1', matchId: 'match-2', fieldFeeCalculated: 300, videoFee: 0, lateFee: 0 }
+      ] as any)
+      mockPrisma.feeOverride.findMany.mockResolvedValue([])
+      ;(mockPrisma.payment.groupBy as jest.Mock).mockResolvedValue([
+        { matchId: null, _sum: { amount: 290 } },
+        { matchId: 'match-2', _sum: { amount: 300 } }
+      ])
+
+      const after = await service.getReport()
+
+      expect(after.periods.map(p => [p.month, p.expenses, p.net, p.balance])).toEqual(
+        before.periods.map(p => [p.month, p.expenses, p.net, p.balance])
+      )
+      expect(after.closingBalance).toBe(before.closingBalance)
+    })
+
+    it('should start from the balance carried in before the range', async () => {
+      mockPrisma.match.aggregate.mockResolvedValue({ _sum: { fieldFeeTotal: 600, waterFeeTotal: 40 } } as any)
+      mockPrisma.payment.aggregate.mockResolvedValue({ _sum: { amount: 700 } } as any)
+      ;(mockPrisma.treasuryEntry.groupBy as jest.Mock).mockResolvedValue([
+        { direction: 'EXPENSE', _sum: { amount: 100 } }
+      ])
+
+      const report = await service.getReport({ from: new Date('2024-10-01T00:00:00Z') })
+
+      expect(report.openingBalance).toBe(-40)
+      expect(report.closingBalance).toBe(380)
+      expect(mockPrisma.match.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { matchDate: { gte: new Date('2024-10-01T00:00:00Z') } }
+      }))
+    })
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Tests for VideoService
+ */
+
+import { VideoService, getVideoUrl } from '../videoService'
+import { prisma } from '@/lib/prisma'
+import { getVideoStorage } from '@/lib/videoStorage'
+
+// Mock dependencies
+jest.mock('@/lib/prisma')
+jest.mock('@/lib/videoStorage', () => {
+  const storage = { save: jest.fn(), remove: jest.fn() }
+  return {
+    getVideoStorage: jest.fn(() => storage),
+    generateVideoKey: jest.fn(() => 'video/match-1/1.mp4'),
+    validateVideoFile: jest.fn(() => ({ valid: true }))
+  }
+})
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>
+const mockStorage = getVideoStorage('LOCAL') as jest.Mocked<ReturnType<typeof getVideoStorage>>
+
+const makeVideo = (overrides: Record<string, unknown> = {}) => ({
+  id: 'video-1',
+  matchId: 'match-1',
+  title: '上半场',
+  description: null,
+  storageType: 'LOCAL',
+  filePath: 'video/match-1/1.mp4',
+  s3Bucket: null,
+  s3Region: null,
+  cdnUrl: null,
+  fileSize: BigInt(1024),
+  durationSeconds: 1800,
+  thumbnailUrl: null,
+  createdAt: new Date('2025-10-01T10:00:00Z'),
+  createdBy: 'admin-1',
+  createdByUser: { id: 'admin-1', name: '管理员' },
+  ...overrides
+})
+
+describe('VideoService', () => {
+  let service: VideoService
+
+  beforeEach(() => {
+    service = new VideoService()
+    jest.clearAllMocks()
+  })
+
+  describe('getVideoUrl', () => {
+    it('should stream local videos through the file route', () => {
+      expect(getVideoUrl({ id: 'video-1', matchId: 'match-1', storageType: 'LOCAL', cdnUrl: null }))
+        .toBe('/api/games/match-1/videos/video-1/file')
+    })
+
+    it('should serve S3 videos from the CDN', () => {
+      expect(getVideoUrl({ id: 'video-1', matchId: 'match-1', storageType: 'S3', cdnUrl: 'https://cdn/video/1.mp4' }))
+        .toBe('https://cdn/video/1.mp4')
+    })
+  })
+
+  describe('getMatchVideos', () => {
+    it('should convert file sizes to numbers', async () => {
+      mockPrisma.video.findMany.mockResolvedValue([makeVideo()] as any)
+
+      const result = await service.getMatchVideos('match-1')
+
+      expect(result[0]).toMatchObject({ fileSize: 1024, createdBy: { id: 'admin-1', name: '管理员' } })
+    })
+  })
+
+  describe('uploadVideo', () => {
+    const file = { name: 'half.mp4', size: 1024, type: 'video/mp4' } as File
+
+    it('should store the file and create the record', async () => {
+      mockStorage.save.mockResolvedValue({ filePath: 'video/match-1/1.mp4', fileSize: 1024 })
+      mockPrisma.video.create.mockResolvedValue(makeVideo() as any)
+
+      const result = await service.uploadVideo('match-1', file, { title: '上半场', storageType: 'LOCAL' }, 'admin-1')
+
+      expect(mockStorage.save).toHaveBeenCalledWith(file, 'video/match-1/1.mp4')
+      expect(mockPrisma.video.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ filePath: 'video/match-1/1.mp4', fileSize: BigInt(1024), createdBy: 'admin-1' })
+      }))
+      expect(result.id).toBe('video-1')
+    })
+
+    it('should remove the stored file when the record cannot be created', async () => {
+      mockStorage.save.mockResolvedValue({ filePath: 'video/match-1/1.mp4', fileSize: 1024 })
+      mockStorage.remove.mockResolvedValue()
+      mockPrisma.video.create.mockRejectedValue(new Error('db down'))
+
+      await expect(
+        service.uploadVideo('match-1', file, { title: '上半场', storageType: 'LOCAL' }, 'admin-1')
+      ).rejects.toThrow('db down')
+      expect(mockStorage.remove).toHaveBeenCalledWith('video/match-1/1.mp4')
+    })
+  })
+
+  describe('deleteVideo', () => {
+    it('should reject videos from another match', async () => {
+      mockPrisma.video.findUnique.mockResolvedValue(makeVideo({ matchId: 'match-2' }) as any)
+
+      await expect(service.deleteVideo('match-1', 'video-1')).rejects.toMatchObject({ code: 'NOT_FOUND' })
+      expect(mockPrisma.video.delete).not.toHaveBeenCalled()
+    })
+
+    it('should delete the record and the stored file', async () => {
+      mockPrisma.video.findUnique.mockResolvedValue(makeVideo() as any)
+      mockStorage.remove.mockResolvedValue()
+
+      await service.deleteVideo('match-1', 'video-1')
+
+      expect(mockPrisma.video.delete).toHaveBeenCalledWith({ where: { id: 'video-1' } })
+      expect(mockStorage.remove).toHaveBeenCalledWith('video/match-1/1.mp4')
+    })
+  })
+})
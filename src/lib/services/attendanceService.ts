@@ -4,13 +4,17 @@
  * Handles attendance validation and goalkeeper constraints including:
  * - Goalkeeper conflict detection and resolution
  * - Auto-unset logic for conflicting goalkeepers
- * - Attendance data validation
+ * - Attendance data validation against the match format
  * - Integration with fee recalculation
  */
 
+import { randomUUID } from 'crypto'
 import { prisma } from '@/lib/prisma'
 import { type AttendanceData, calculatePlayerFees } from '@/lib/feeCalculation'
 import { calculateCoefficient } from '@/lib/utils/coefficient'
+import { DEFAULT_MATCH_FORMAT, getFormatSlots, type MatchFormat } from '@/lib/utils/matchFormat'
+import type { FeePolicyRules } from '@/lib/utils/feePolicy'
+import { sanitizeAssistLinks } from '@/lib/utils/assistLinks'
 import { EventType } from '@prisma/client'
 
 export interface AttendanceUpdate {
@@ -49,9 +53,11 @@ export interface ValidationResult {
 }
 
 export interface AttendanceEvent {
+  id?: string             // client reference; stored events get a new id
   playerId: string
   eventType: EventType
   minute?: number
+  goalEventId?: string    // ASSIST only: client id of the goal in the same request it set up
 }
 
 export interface AttendanceUpdateRequest {
@@ -66,7 +72,8 @@ export class AttendanceService {
   async validateAttendanceData(
     matchId: string,
     attendanceData: AttendancePlayerData,
-    selectedPlayerIds: string[] = []
+    selectedPlayerIds: string[] = [],
+    format: MatchFormat = DEFAULT_MATCH_FORMAT
   ): Promise<ValidationResult> {
     const errors: string[] = []
     const warnings: string[] = []
@@ -92,7 +99,7 @@ export class AttendanceService {
 
     // 2. Validate attendance data structure
     for (const [playerId, data] of Object.entries(filteredAttendanceData)) {
-      if (!this.validateAttendanceStructure(data)) {
+      if (!this.validateAttendanceStructure(data, format)) {
         errors.push(`Invalid attendance data structure for player ${playerId}`)
       }
     }
@@ -101,32 +108,30 @@ export class AttendanceService {
     const goalkeeperMap = new Map<string, string>() // key: "section-part", value: playerId
 
     for (const [playerId, data] of Object.entries(filteredAttendanceData)) {
-      for (let section = 1; section <= 3; section++) {
-        for (let part = 1; part <= 3; part++) {
-          const sectionStr = section.toString()
-          const partStr = part.toString()
-          
-          const isGoalkeeper = data.goalkeeper[sectionStr]?.[partStr] || false
+      for (const { section, part } of getFormatSlots(format)) {
+        const sectionStr = section.toString()
+        const partStr = part.toString()
+        
+        const isGoalkeeper = data.goalkeeper[sectionStr]?.[partStr] || false
+        
+        if (isGoalkeeper) {
+          const key = `${section}-${part}`
+          const existingPlayerId = goalkeeperMap.get(key)
           
-          if (isGoalkeeper) {
-            const key = `${section}-${part}`
-            const existingPlayerId = goalkeeperMap.get(key)
+          if (existingPlayerId && existingPlayerId !== playerId) {
+            const existingPlayer = selectedPlayerMap.get(existingPlayerId)
+            const currentPlayer = selectedPlayerMap.get(playerId)
             
-            if (existingPlayerId && existingPlayerId !== playerId) {
-              const existingPlayer = selectedPlayerMap.get(existingPlayerId)
-              const currentPlayer = selectedPlayerMap.get(playerId)
-              
-              conflicts.push({
-                section,
-                part,
-                existingGoalkeeperId: existingPlayerId,
-                existingGoalkeeperName: existingPlayer?.name || 'Unknown',
-                newGoalkeeperId: playerId,
-                newGoalkeeperName: currentPlayer?.name || 'Unknown'
-              })
-            } else {
-              goalkeeperMap.set(key, playerId)
-            }
+            conflicts.push({
+              section,
+              part,
+              existingGoalkeeperId: existingPlayerId,
+              existingGoalkeeperName: existingPlayer?.name || 'Unknown',
+              newGoalkeeperId: playerId,
+              newGoalkeeperName: currentPlayer?.name || 'Unknown'
+            })
+          } else {
+            goalkeeperMap.set(key, playerId)
           }
         }
       }
@@ -181,7 +186,15 @@ export class AttendanceService {
   async updateAttendance(
     matchId: string,
     updateRequest: AttendanceUpdateRequest,
-    matchInfo: { fieldFeeTotal: number; waterFeeTotal: number; lateFeeRate?: number; videoFeePerUnit?: number },
+    matchInfo: {
+      fieldFeeTotal: number
+      waterFeeTotal: number
+      lateFeeRate?: number
+      videoFeePerUnit?: number
+      format?: MatchFormat
+      feePolicy?: FeePolicyRules
+      trialPlayerIds?: string[]
+    },
     selectedPlayerIds: string[] = []
   ): Promise<{
     success: boolean
@@ -194,7 +207,8 @@ export class AttendanceService {
     }
   }> {
     // 1. Validate attendance data OUTSIDE the transaction (using provided selected player IDs to avoid DB query)
-    const validation = await this.validateAttendanceData(matchId, updateRequest.attendanceData, selectedPlayerIds)
+    const format = matchInfo?.format ?? DEFAULT_MATCH_FORMAT
+    const validation = await this.validateAttendanceData(matchId, updateRequest.attendanceData, selectedPlayerIds, format)
     
     if (!validation.isValid) {
       throw new Error(`Attendance validation failed: ${validation.errors.join(', ')}`)
@@ -232,11 +246,12 @@ export class AttendanceService {
       })
     }
 
-    // 3. Calculate fee coefficient using the correct fixed denominator of 90
+    // 3. Calculate fee coefficient using the match format's coefficient units
     const feeCoefficient = calculateCoefficient(
       matchInfo.fieldFeeTotal,
       matchInfo.waterFeeTotal,
-      totalPlayTime // This parameter is not used in the calculation, but kept for compatibility
+      totalPlayTime, // This parameter is not used in the calculation, but kept for compatibility
+      format
     )
 
     // 4. Prepare participation data structures OUTSIDE transaction
@@ -250,6 +265,7 @@ export class AttendanceService {
       lateFee: number
       videoFee: number
       totalFeeCalculated: number
+      isTrialPlayer: boolean | null
     }[] = []
     
     for (const player of playerData) {
@@ -262,7 +278,10 @@ export class AttendanceService {
         isLateArrival: player.attendanceData.isLateArrival,
         feeCoefficient,
         lateFeeRate: matchInfo.lateFeeRate || 10,
-        videoFeeRate: matchInfo.videoFeePerUnit || 2
+        videoFeeRate: matchInfo.videoFeePerUnit || 2,
+        format,
+        policy: matchInfo.feePolicy,
+        isTrialPlayer: matchInfo.trialPlayerIds?.includes(player.playerId)
       })
       
       participations.push({
@@ -274,30 +293,14 @@ export class AttendanceService {
         fieldFeeCalculated: calculatedFees.fieldFee,
         lateFee: calculatedFees.lateFee,
         videoFee: calculatedFees.videoFee,
-        totalFeeCalculated: calculatedFees.totalFee
+        totalFeeCalculated: calculatedFees.totalFee,
+        // Unknown when the caller did not resolve trial status; the fee recalculation records it
+        isTrialPlayer: matchInfo.trialPlayerIds ? matchInfo.trialPlayerIds.includes(player.playerId) : null
       })
     }
 
-    const events: {
-      matchId: string
-      playerId: string
-      eventType: EventType
-      minute: number | null
-      description: string
-      createdBy: string
-    }[] = []
+    const events = sanitizeAssistLinks(updateRequest.events)
     const defaultCreatorId = Object.keys(finalAttendanceData)[0] || 'system'
-    
-    for (const event of updateRequest.events) {
-      events.push({
-        matchId,
-        playerId: event.playerId,
-        eventType: event.eventType,
-        minute: event.minute || null,
-        description: `${event.eventType.toLowerCase()} by player`,
-        createdBy: defaultCreatorId
-      })
-    }
 
     // 5. Execute ONLY data persistence in transaction (should be fast)
     return await prisma.$transaction(async (tx) => {
@@ -317,10 +320,28 @@ export class AttendanceService {
         })
       }
 
-      // Create events
+      // Create events under new ids; client ids only pair an assist with its goal in this batch
       if (events.length > 0) {
+        const eventIds = new Map<string, string>()
+        const rows = events.map(event => {
+          const id = randomUUID()
+          if (event.id && !eventIds.has(event.id)) {
+            eventIds.set(event.id, id)
+          }
+          return { id, event }
+        })
+
         await tx.matchEvent.createMany({
-          data: events
+          data: rows.map(({ id, event }) => ({
+            id,
+            matchId,
+            playerId: event.playerId,
+            eventType: event.eventType,
+            minute: event.minute || null,
+            description: `${event.eventType.toLowerCase()} by player`,
+            goalEventId: event.goalEventId ? eventIds.get(event.goalEventId) ?? null : null,
+            createdBy: defaultCreatorId
+          }))
         })
       }
 
@@ -428,7 +449,7 @@ export class AttendanceService {
   /**
    * Validate attendance data structure
    */
-  private validateAttendanceStructure(data: AttendanceUpdate): boolean {
+  private validateAttendanceStructure(data: AttendanceUpdate, format: MatchFormat): boolean {
     if (!data.attendance || !data.goalkeeper) {
       return false
     }
@@ -437,15 +458,15 @@ export class AttendanceService {
       return false
     }
 
-    // Check structure for sections 1-3 and parts 1-3
-    for (let section = 1; section <= 3; section++) {
+    // Check structure for every section and part of the match format
+    for (let section = 1; section <= format.sectionCount; section++) {
       const sectionStr = section.toString()
       
       if (!data.attendance[sectionStr] || !data.goalkeeper[sectionStr]) {
         return false
       }
       
-      for (let part = 1; part <= 3; part++) {
+      for (let part = 1; part <= format.partsPerSection; part++) {
         const partStr = part.toString()
         
         const attendance = data.attendance[sectionStr][partStr]
@@ -466,7 +487,13 @@ export class AttendanceService {
       }
     }
 
-    return true
+    // Sections or parts outside the format would be silently ignored by the fee math
+    const extraSections = Object.keys(data.attendance).some(section =>
+      Number(section) > format.sectionCount ||
+      Object.keys(data.attendance[section]).some(part => Number(part) > format.partsPerSection)
+    )
+
+    return !extraSections
   }
 
   /**
@@ -0,0 +1,248 @@
+/**
+ * Audit Log Service
+ *
+ * Records who changed what in the admin area:
+ * - Before/after snapshots for every admin mutation
+ * - Request origin (IP address and user agent)
+ * - Filtered, paginated history for the /admin/audit page
+ */
+
+import { Prisma, type ActionType } from '@prisma/client'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+// Table names recorded in AuditLog.tableName (mirrors the @@map names in schema.prisma).
+// Per-match tables are recorded against the match id so a match's full history is one filter away.
+export const AUDIT_TABLES = {
+  USERS: 'users',
+  MATCHES: 'matches',
+  MATCH_PLAYERS: 'match_players',
+  MATCH_PARTICIPATIONS: 'match_participations',
+  FEE_OVERRIDES: 'fee_overrides',
+  PAYMENTS: 'payments',
+  VIDEOS: 'videos',
+  SYSTEM_CONFIG: 'system_config',
+  CLAIM_REQUESTS: 'claim_requests',
+  SEASONS: 'seasons',
+  FEE_POLICIES: 'fee_policies',
+  TREASURY_ENTRIES: 'treasury_entries',
+  PLAYER_ALIASES: 'player_aliases',
+  OPPONENTS: 'opponents',
+  LINEUP_PLAYERS: 'lineup_players',
+  CONCEDED_GOALS: 'conceded_goals'
+} as const
+
+export type AuditTable = typeof AUDIT_TABLES[keyof typeof AUDIT_TABLES]
+
+export interface AuditContext {
+  userId: string
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+export interface AuditEntry {
+  tableName: AuditTable
+  recordId: string
+  actionType: ActionType
+  oldValues?: unknown
+  newValues?: unknown
+}
+
+export interface AuditLogFilters {
+  tableName?: string
+  recordId?: string
+  userId?: string
+  from?: Date
+  to?: Date
+  page: number
+  limit: number
+}
+
+// Never copied into audit snapshots
+const REDACTED_FIELDS = new Set(['passwordHash'])
+
+/**
+ * Convert a snapshot into plain JSON (Decimal -> string, BigInt -> number, Date -> ISO)
+ */
+export function toAuditJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  if (value === undefined || value === null) {
+    return Prisma.DbNull
+  }
+
+  return JSON.parse(JSON.stringify(value, (key, item) => {
+    if (REDACTED_FIELDS.has(key)) return undefined
+    return typeof item === 'bigint' ? Number(item) : item
+  }))
+}
+
+/**
+ * Resolve the acting user and request origin; null when there is no signed-in user
+ */
+export async function getAuditContext(request: Request): Promise<AuditContext | null> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return null
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for')
+
+  return {
+    userId: session.user.id,
+    ipAddress: forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip') || null,
+    userAgent: request.headers.get('user-agent')
+  }
+}
+
+export class AuditService {
+  /**
+   * Record one or more changes. Failures are logged and never break the mutation itself.
+   */
+  async log(context: AuditContext | null, entries: AuditEntry | AuditEntry[]): Promise<void> {
+    const list = Array.isArray(entries) ? entries : [entries]
+    if (!context || list.length === 0) {
+      if (!context) {
+        console.warn('Audit log skipped: no signed-in user for', list.map(entry => entry.tableName).join(', '))
+      }
+      return
+    }
+
+    try {
+      await prisma.auditLog.createMany({
+        data: list.map(entry => ({
+          userId: context.userId,
+          tableName: entry.tableName,
+          recordId: entry.recordId,
+          actionType: entry.actionType,
+          oldValues: toAuditJson(entry.oldValues),
+          newValues: toAuditJson(entry.newValues),
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent
+        }))
+      })
+    } catch (error) {
+      console.error('Failed to write audit log:', error)
+    }
+  }
+
+  /**
+   * Attendance and events for a match, as stored
+   */
+  async snapshotAttendance(matchId: string) {
+    const [participations, events] = await Promise.all([
+      prisma.matchParticipation.findMany({
+        where: { matchId },
+        select: {
+          userId: true,
+          attendanceData: true,
+          isLateArrival: true,
+          totalTime: true,
+          fieldFeeCalculated: true,
+          lateFee: true,
+          videoFee: true,
+          totalFeeCalculated: true
+        },
+        orderBy: { userId: 'asc' }
+      }),
+      prisma.matchEvent.findMany({
+        where: { matchId },
+        select: { playerId: true, eventType: true, minute: true },
+        orderBy: [{ playerId: 'asc' }, { eventType: 'asc' }]
+      })
+    ])
+
+    return { participations, events }
+  }
+
+  /**
+   * Fee overrides for a match, keyed by player
+   */
+  async snapshotFeeOverrides(matchId: string) {
+    return prisma.feeOverride.findMany({
+      where: { matchId },
+      select: {
+        playerId: true,
+        fieldFeeOverride: true,
+        videoFeeOverride: true,
+        lateFeeOverride: true,
+        notes: true
+      },
+      orderBy: { playerId: 'asc' }
+    })
+  }
+
+  /**
+   * Selected player ids for a match
+   */
+  async snapshotMatchPlayers(matchId: string): Promise<string[]> {
+    const players = await prisma.matchPlayer.findMany({
+      where: { matchId },
+      select: { playerId: true },
+      orderBy: { playerId: 'asc' }
+    })
+
+    return players.map(player => player.playerId)
+  }
+
+  /**
+   * Paginated audit history, newest first
+   */
+  async getLogs(filters: AuditLogFilters) {
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filters.tableName && { tableName: filters.tableName }),
+      ...(filters.recordId && { recordId: filters.recordId }),
+      ...(filters.userId && { userId: filters.userId }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to })
+        }
+      })
+    }
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          user: {
+            select: { id: true, name: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit
+      }),
+      prisma.auditLog.count({ where })
+    ])
+
+    return {
+      logs,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit)
+      }
+    }
+  }
+
+  /**
+   * Users who have made audited changes (for the filter dropdown)
+   */
+  async getActors(): Promise<{ id: string; name: string }[]> {
+    const actors = await prisma.auditLog.groupBy({
+      by: ['userId']
+    })
+
+    if (actors.length === 0) return []
+
+    return prisma.user.findMany({
+      where: { id: { in: actors.map(actor => actor.userId) } },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    })
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService()
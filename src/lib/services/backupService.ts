@@ -0,0 +1,264 @@
+/**
+ * Backup Service
+ *
+ * Dumps club data into a backup archive (see backupArchive.ts) and rebuilds an
+ * empty database from one:
+ * - Users (without password hashes), settings, seasons, fee policies, opponents, matches with
+ *   selections, participations, events, line-ups and fee overrides, payments, treasury entries
+ *   and import aliases
+ * - Audit logs, comments, videos, claims and RSVPs are not part of a backup
+ * - A restore runs in one transaction and refuses to touch a database that already has users
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import {
+  BACKUP_FORMAT_VERSION,
+  fromCsv,
+  getModelColumns,
+  readBackupZip,
+  toCsv,
+  writeBackupZip,
+  type BackupManifest,
+  type BackupRow
+} from '@/lib/backupArchive'
+
+export interface RestoreSummary {
+  tables: { name: string; rows: number }[]
+  skippedTables: string[]     // In the backup but unknown to this version
+  skippedColumns: string[]    // table.column pairs the current schema no longer has
+}
+
+interface BackupTable {
+  name: string
+  model: Prisma.ModelName
+  excludedColumns?: string[]
+  read: () => Promise<BackupRow[]>
+  write: (tx: Prisma.TransactionClient, rows: BackupRow[]) => Promise<unknown>
+}
+
+// Restore order: every table comes after the tables it references
+const BACKUP_TABLES: BackupTable[] = [
+  {
+    name: 'users',
+    model: 'User',
+    excludedColumns: ['passwordHash'],
+    read: () => prisma.user.findMany({ omit: { passwordHash: true }, orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.user.createMany({ data: sortCreatorsFirst(rows) as Prisma.UserCreateManyInput[] })
+  },
+  {
+    name: 'global_settings',
+    model: 'GlobalSetting',
+    read: () => prisma.globalSetting.findMany({ orderBy: { key: 'asc' } }),
+    write: (tx, rows) => tx.globalSetting.createMany({ data: rows as Prisma.GlobalSettingCreateManyInput[] })
+  },
+  {
+    name: 'system_config',
+    model: 'SystemConfig',
+    read: () => prisma.systemConfig.findMany({ orderBy: { key: 'asc' } }),
+    write: (tx, rows) => tx.systemConfig.createMany({ data: rows as Prisma.SystemConfigCreateManyInput[] })
+  },
+  {
+    name: 'seasons',
+    model: 'Season',
+    read: () => prisma.season.findMany({ orderBy: { startDate: 'asc' } }),
+    write: (tx, rows) => tx.season.createMany({ data: rows as Prisma.SeasonCreateManyInput[] })
+  },
+  {
+    name: 'fee_policies',
+    model: 'FeePolicy',
+    read: () => prisma.feePolicy.findMany({ orderBy: { version: 'asc' } }),
+    write: (tx, rows) => tx.feePolicy.createMany({ data: rows as Prisma.FeePolicyCreateManyInput[] })
+  },
+  {
+    name: 'opponents',
+    model: 'Opponent',
+    read: () => prisma.opponent.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.opponent.createMany({ data: rows as Prisma.OpponentCreateManyInput[] })
+  },
+  {
+    name: 'opponent_aliases',
+    model: 'OpponentAlias',
+    read: () => prisma.opponentAlias.findMany({ orderBy: { alias: 'asc' } }),
+    write: (tx, rows) => tx.opponentAlias.createMany({ data: rows as Prisma.OpponentAliasCreateManyInput[] })
+  },
+  {
+    name: 'matches',
+    model: 'Match',
+    read: () => prisma.match.findMany({ orderBy: { matchDate: 'asc' } }),
+    write: (tx, rows) => tx.match.createMany({ data: rows as Prisma.MatchCreateManyInput[] })
+  },
+  {
+    name: 'match_players',
+    model: 'MatchPlayer',
+    read: () => prisma.matchPlayer.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.matchPlayer.createMany({ data: rows as Prisma.MatchPlayerCreateManyInput[] })
+  },
+  {
+    name: 'match_participations',
+    model: 'MatchParticipation',
+    read: () => prisma.matchParticipation.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.matchParticipation.createMany({ data: rows as Prisma.MatchParticipationCreateManyInput[] })
+  },
+  {
+    name: 'match_events',
+    model: 'MatchEvent',
+    read: () => prisma.matchEvent.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.matchEvent.createMany({ data: rows as Prisma.MatchEventCreateManyInput[] })
+  },
+  {
+    name: 'lineup_players',
+    model: 'LineupPlayer',
+    read: () => prisma.lineupPlayer.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.lineupPlayer.createMany({ data: rows as Prisma.LineupPlayerCreateManyInput[] })
+  },
+  {
+    name: 'substitutions',
+    model: 'Substitution',
+    read: () => prisma.substitution.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.substitution.createMany({ data: rows as Prisma.SubstitutionCreateManyInput[] })
+  },
+  {
+    name: 'conceded_goals',
+    model: 'ConcededGoal',
+    read: () => prisma.concededGoal.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.concededGoal.createMany({ data: rows as Prisma.ConcededGoalCreateManyInput[] })
+  },
+  {
+    name: 'fee_overrides',
+    model: 'FeeOverride',
+    read: () => prisma.feeOverride.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.feeOverride.createMany({ data: rows as Prisma.FeeOverrideCreateManyInput[] })
+  },
+  {
+    name: 'payments',
+    model: 'Payment',
+    read: () => prisma.payment.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows) => tx.payment.createMany({ data: rows as Prisma.PaymentCreateManyInput[] })
+  },
+  {
+    name: 'treasury_entries',
+    model: 'TreasuryEntry',
+    read: () => prisma.treasuryEntry.findMany({ orderBy: { occurredAt: 'asc' } }),
+    write: (tx, rows) => tx.treasuryEntry.createMany({ data: rows as Prisma.TreasuryEntryCreateManyInput[] })
+  },
+  {
+    name: 'player_aliases',
+    model: 'PlayerAlias',
+    read: () => prisma.playerAlias.findMany({ orderBy: { alias: 'asc' } }),
+    write: (tx, rows) => tx.playerAlias.createMany({ data: rows as Prisma.PlayerAliasCreateManyInput[] })
+  }
+]
+
+// A season's worth of rows restores well within this; the default 5s does not
+const RESTORE_TRANSACTION_TIMEOUT_MS = 300_000
+
+/**
+ * Users ordered so whoever created a user is inserted before them
+ */
+function sortCreatorsFirst(users: BackupRow[]): BackupRow[] {
+  const byId = new Map(users.map(user => [user.id as string, user]))
+  const sorted: BackupRow[] = []
+  const placed = new Set<string>()
+
+  const place = (user: BackupRow, path: Set<string>) => {
+    const id = user.id as string
+    if (placed.has(id) || path.has(id)) return
+    path.add(id)
+    const creator = user.createdBy ? byId.get(user.createdBy as string) : undefined
+    if (creator) place(creator, path)
+    placed.add(id)
+    sorted.push(user)
+  }
+
+  users.forEach(user => place(user, new Set()))
+  return sorted
+}
+
+const tableColumns = (table: BackupTable) =>
+  getModelColumns(table.model).filter(column => !table.excludedColumns?.includes(column.name))
+
+export class BackupService {
+  /**
+   * Zip of one CSV per table plus a manifest
+   */
+  async createBackup(): Promise<{ buffer: Buffer; manifest: BackupManifest }> {
+    const files: Record<string, string> = {}
+    const manifest: BackupManifest = {
+      formatVersion: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      tables: [],
+      excludedColumns: BACKUP_TABLES.flatMap(table =>
+        (table.excludedColumns ?? []).map(column => `${table.name}.${column}`)
+      )
+    }
+
+    for (const table of BACKUP_TABLES) {
+      const columns = tableColumns(table)
+      const rows = await table.read()
+      const file = `${table.name}.csv`
+
+      files[file] = toCsv(rows, columns)
+      manifest.tables.push({ name: table.name, file, rows: rows.length, columns: columns.map(c => c.name) })
+    }
+
+    return { buffer: writeBackupZip(manifest, files), manifest }
+  }
+
+  /**
+   * Rebuild an empty database from a backup zip
+   */
+  async restoreBackup(buffer: Buffer): Promise<RestoreSummary> {
+    let archive: ReturnType<typeof readBackupZip>
+    try {
+      archive = readBackupZip(buffer)
+    } catch (error) {
+      throw AppErrors.CONFLICT(error instanceof Error ? error.message : 'Invalid backup file')
+    }
+    const { manifest, readFile } = archive
+
+    const existingUsers = await prisma.user.count()
+    if (existingUsers > 0) {
+      throw AppErrors.CONFLICT(`Restore needs an empty database; this one already has ${existingUsers} users`)
+    }
+
+    const summary: RestoreSummary = {
+      tables: [],
+      skippedTables: manifest.tables
+        .filter(entry => !BACKUP_TABLES.some(table => table.name === entry.name))
+        .map(entry => entry.name),
+      skippedColumns: []
+    }
+
+    const pending: { table: BackupTable; rows: BackupRow[] }[] = []
+    for (const table of BACKUP_TABLES) {
+      const entry = manifest.tables.find(t => t.name === table.name)
+      if (!entry) continue
+
+      let parsed: ReturnType<typeof fromCsv>
+      try {
+        parsed = fromCsv(readFile(entry.file), tableColumns(table))
+      } catch (error) {
+        throw AppErrors.CONFLICT(error instanceof Error ? error.message : `Invalid backup file ${entry.file}`)
+      }
+      const { rows, unknownColumns } = parsed
+      pending.push({ table, rows })
+      summary.tables.push({ name: table.name, rows: rows.length })
+      summary.skippedColumns.push(...unknownColumns.map(column => `${table.name}.${column}`))
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const { table, rows } of pending) {
+        if (rows.length > 0) {
+          await table.write(tx, rows)
+        }
+      }
+    }, { timeout: RESTORE_TRANSACTION_TIMEOUT_MS })
+
+    return summary
+  }
+}
+
+// Export singleton instance
+export const backupService = new BackupService()
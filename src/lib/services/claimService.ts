@@ -0,0 +1,241 @@
+/**
+ * Ghost Account Claim Service
+ *
+ * Lets real players take over the GHOST accounts admins created for them:
+ * - Search unclaimed accounts by name or short ID
+ * - Submit a claim with the credentials the player wants to use
+ * - Admin approval attaches those credentials to the ghost user, so every
+ *   historical participation, event and payment stays with the same record
+ */
+
+import bcrypt from 'bcryptjs'
+import type { ClaimStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+
+const SALT_ROUNDS = 10
+const SEARCH_LIMIT = 10
+
+export interface ClaimSubmissionInput {
+  ghostUserId: string
+  claimantName: string
+  email: string
+  phone?: string
+  password: string
+  message?: string
+}
+
+export interface GhostAccountMatch {
+  id: string
+  name: string
+  shortId: string | null
+  jerseyNumber: number | null
+  position: string | null
+}
+
+// Everything except the stored password hash
+const claimSelect = {
+  id: true,
+  ghostUserId: true,
+  claimantName: true,
+  email: true,
+  phone: true,
+  message: true,
+  status: true,
+  reviewedAt: true,
+  rejectionReason: true,
+  createdAt: true,
+  ghostUser: {
+    select: { id: true, name: true, shortId: true, jerseyNumber: true, accountStatus: true }
+  },
+  reviewedByUser: {
+    select: { id: true, name: true }
+  }
+} as const
+
+const ghostUserWhere = {
+  accountStatus: 'GHOST',
+  userType: 'PLAYER',
+  deletedAt: null
+} as const
+
+export class ClaimService {
+  /**
+   * Find unclaimed accounts by name (partial) or short ID (exact)
+   */
+  async searchGhostAccounts(query: string): Promise<GhostAccountMatch[]> {
+    const term = query.trim()
+    if (!term) return []
+
+    return prisma.user.findMany({
+      where: {
+        ...ghostUserWhere,
+        OR: [
+          { name: { contains: term, mode: 'insensitive' } },
+          { shortId: term.toLowerCase() }
+        ]
+      },
+      select: { id: true, name: true, shortId: true, jerseyNumber: true, position: true },
+      orderBy: { name: 'asc' },
+      take: SEARCH_LIMIT
+    })
+  }
+
+  /**
+   * Submit a claim for a ghost account; the password is hashed and held until review
+   */
+  async submitClaim(input: ClaimSubmissionInput) {
+    const ghostUser = await prisma.user.findFirst({
+      where: { id: input.ghostUserId, ...ghostUserWhere },
+      select: { id: true }
+    })
+
+    if (!ghostUser) {
+      throw AppErrors.NOT_FOUND('该账户不存在或已被认领')
+    }
+
+    const phone = input.phone || null
+    await this.assertCredentialsAvailable(input.email, phone)
+
+    const pendingClaim = await prisma.claimRequest.findFirst({
+      where: { email: input.email, status: 'PENDING' },
+      select: { id: true }
+    })
+
+    if (pendingClaim) {
+      throw AppErrors.CONFLICT('该邮箱已有待审核的认领申请')
+    }
+
+    const passwordHash = await bcrypt.hash(input.password, SALT_ROUNDS)
+
+    return prisma.claimRequest.create({
+      data: {
+        ghostUserId: input.ghostUserId,
+        claimantName: input.claimantName,
+        email: input.email,
+        phone,
+        passwordHash,
+        message: input.message || null
+      },
+      select: claimSelect
+    })
+  }
+
+  /**
+   * Claims for the admin review list, newest first
+   */
+  async getClaims(status?: ClaimStatus) {
+    return prisma.claimRequest.findMany({
+      where: status ? { status } : undefined,
+      select: claimSelect,
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  /**
+   * Approve a claim: move the credentials onto the ghost user and close competing claims
+   */
+  async approveClaim(claimId: string, reviewerId: string) {
+    const claim = await this.getPendingClaim(claimId)
+
+    return prisma.$transaction(async (tx) => {
+      const ghostBefore = await tx.user.findUnique({
+        where: { id: claim.ghostUserId }
+      })
+
+      if (!ghostBefore || ghostBefore.accountStatus !== 'GHOST' || ghostBefore.deletedAt) {
+        throw AppErrors.CONFLICT('该账户已被认领或已删除')
+      }
+
+      await this.assertCredentialsAvailable(claim.email, claim.phone, tx)
+
+      const ghostAfter = await tx.user.update({
+        where: { id: claim.ghostUserId },
+        data: {
+          email: claim.email,
+          phone: claim.phone ?? ghostBefore.phone,
+          passwordHash: claim.passwordHash,
+          accountStatus: 'CLAIMED'
+        }
+      })
+
+      const reviewedAt = new Date()
+
+      const approved = await tx.claimRequest.update({
+        where: { id: claimId },
+        data: { status: 'APPROVED', reviewedBy: reviewerId, reviewedAt },
+        select: claimSelect
+      })
+
+      // Anyone else who asked for the same account is turned away
+      await tx.claimRequest.updateMany({
+        where: { ghostUserId: claim.ghostUserId, status: 'PENDING', id: { not: claimId } },
+        data: {
+          status: 'REJECTED',
+          reviewedBy: reviewerId,
+          reviewedAt,
+          rejectionReason: '该账户已被其他申请认领'
+        }
+      })
+
+      return { claim: approved, userBefore: ghostBefore, userAfter: ghostAfter }
+    })
+  }
+
+  /**
+   * Reject a pending claim
+   */
+  async rejectClaim(claimId: string, reviewerId: string, reason?: string | null) {
+    await this.getPendingClaim(claimId)
+
+    return prisma.claimRequest.update({
+      where: { id: claimId },
+      data: {
+        status: 'REJECTED',
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        rejectionReason: reason || null
+      },
+      select: claimSelect
+    })
+  }
+
+  private async getPendingClaim(claimId: string) {
+    const claim = await prisma.claimRequest.findUnique({
+      where: { id: claimId }
+    })
+
+    if (!claim) {
+      throw AppErrors.NOT_FOUND(`Claim ${claimId} not found`)
+    }
+
+    if (claim.status !== 'PENDING') {
+      throw AppErrors.CONFLICT('该申请已处理')
+    }
+
+    return claim
+  }
+
+  private async assertCredentialsAvailable(
+    email: string,
+    phone: string | null,
+    client: Pick<typeof prisma, 'user'> = prisma
+  ) {
+    const existing = await client.user.findFirst({
+      where: {
+        OR: [
+          { email },
+          ...(phone ? [{ phone }] : [])
+        ]
+      },
+      select: { email: true }
+    })
+
+    if (existing) {
+      throw AppErrors.CONFLICT(existing.email === email ? '该邮箱已被使用' : '该手机号已被使用')
+    }
+  }
+}
+
+// Export singleton instance
+export const claimService = new ClaimService()
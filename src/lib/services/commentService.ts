@@ -0,0 +1,327 @@
+/**
+ * Match Comment Service
+ *
+ * Threaded discussion on a match:
+ * - Create top-level comments and replies
+ * - Edit / soft-delete with ownership checks
+ * - Build a nested thread for display
+ * - Attach uploaded images and clean them up from S3
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+
+export const MAX_COMMENT_DEPTH = 3
+
+export interface CommentAuthor {
+  id: string
+  name: string
+  avatarUrl: string | null
+}
+
+export interface CommentNode {
+  id: string
+  matchId: string
+  parentCommentId: string | null
+  content: string
+  images: string[]
+  isEdited: boolean
+  isDeleted: boolean
+  createdAt: Date
+  updatedAt: Date
+  author: CommentAuthor
+  replies: CommentNode[]
+}
+
+export interface CommentActor {
+  id: string
+  isAdmin: boolean
+}
+
+interface CommentRow {
+  id: string
+  matchId: string
+  parentCommentId: string | null
+  content: string
+  images: unknown
+  isEdited: boolean
+  createdAt: Date
+  updatedAt: Date
+  deletedAt: Date | null
+  user: CommentAuthor
+}
+
+const authorSelect = {
+  id: true,
+  name: true,
+  avatarUrl: true
+} as const
+
+const parseImages = (images: unknown): string[] => {
+  if (!Array.isArray(images)) return []
+  return images.filter((image): image is string => typeof image === 'string')
+}
+
+// Matches the key layout produced by generateFileKey for the "comment" upload type
+const commentImageKeyPrefix = (userId: string) => `comment/${userId}/`
+
+/**
+ * Turn flat comment rows into a nested thread.
+ *
+ * Deleted comments keep their place when they still have visible replies
+ * (content blanked) and are dropped otherwise.
+ */
+export function buildCommentThread(rows: CommentRow[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>()
+
+  for (const row of rows) {
+    const isDeleted = row.deletedAt !== null
+    nodes.set(row.id, {
+      id: row.id,
+      matchId: row.matchId,
+      parentCommentId: row.parentCommentId,
+      content: isDeleted ? '' : row.content,
+      images: isDeleted ? [] : parseImages(row.images),
+      isEdited: row.isEdited,
+      isDeleted,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      author: row.user,
+      replies: []
+    })
+  }
+
+  const roots: CommentNode[] = []
+  for (const node of nodes.values()) {
+    const parent = node.parentCommentId ? nodes.get(node.parentCommentId) : undefined
+    if (parent) {
+      parent.replies.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const prune = (list: CommentNode[]): CommentNode[] => {
+    return list
+      .map(node => ({ ...node, replies: prune(node.replies) }))
+      .filter(node => !node.isDeleted || node.replies.length > 0)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  }
+
+  return prune(roots)
+}
+
+export class CommentService {
+  /**
+   * Get the full comment thread for a match
+   */
+  async getMatchComments(matchId: string): Promise<CommentNode[]> {
+    const rows = await prisma.comment.findMany({
+      where: { matchId },
+      include: {
+        user: { select: authorSelect }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return buildCommentThread(rows)
+  }
+
+  /**
+   * Create a comment or a reply to an existing comment
+   */
+  async createComment(
+    matchId: string,
+    userId: string,
+    input: { content: string; parentCommentId?: string | null; images?: string[] }
+  ): Promise<CommentNode> {
+    if (input.parentCommentId) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: input.parentCommentId }
+      })
+
+      if (!parent || parent.matchId !== matchId || parent.deletedAt) {
+        throw AppErrors.NOT_FOUND(`Parent comment ${input.parentCommentId} not found`)
+      }
+
+      const depth = await this.getDepth(parent.id)
+      if (depth >= MAX_COMMENT_DEPTH) {
+        throw AppErrors.CONFLICT(`Replies cannot be nested more than ${MAX_COMMENT_DEPTH} levels`)
+      }
+    }
+
+    if (input.images && input.images.length > 0) {
+      await this.assertUploadedBy(userId, input.images)
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        matchId,
+        userId,
+        parentCommentId: input.parentCommentId || null,
+        content: input.content.trim(),
+        ...(input.images && input.images.length > 0 && { images: input.images })
+      },
+      include: {
+        user: { select: authorSelect }
+      }
+    })
+
+    return buildCommentThread([comment])[0]
+  }
+
+  /**
+   * Edit the content of a comment (author only)
+   */
+  async updateComment(
+    matchId: string,
+    commentId: string,
+    actor: CommentActor,
+    content: string
+  ): Promise<CommentNode> {
+    const existing = await this.getActiveComment(matchId, commentId)
+
+    if (existing.userId !== actor.id) {
+      throw AppErrors.FORBIDDEN('Only the author can edit this comment')
+    }
+
+    const comment = await prisma.comment.update({
+      where: { id: commentId },
+      data: {
+        content: content.trim(),
+        isEdited: true
+      },
+      include: {
+        user: { select: authorSelect }
+      }
+    })
+
+    return buildCommentThread([comment])[0]
+  }
+
+  /**
+   * Soft-delete a comment (author or admin)
+   */
+  async deleteComment(matchId: string, commentId: string, actor: CommentActor): Promise<void> {
+    const existing = await this.getActiveComment(matchId, commentId)
+
+    if (existing.userId !== actor.id && !actor.isAdmin) {
+      throw AppErrors.FORBIDDEN('Only the author or an admin can delete this comment')
+    }
+
+    const images = parseImages(existing.images)
+
+    await prisma.comment.update({
+      where: { id: commentId },
+      data: {
+        deletedAt: new Date(),
+        ...(images.length > 0 && { images: Prisma.DbNull })
+      }
+    })
+
+    await this.removeImages(images)
+  }
+
+  /**
+   * Discard an uploaded image that was never attached to a comment
+   */
+  async discardUpload(userId: string, url: string): Promise<void> {
+    await this.assertUploadedBy(userId, [url])
+
+    const attached = await prisma.comment.findFirst({
+      where: { images: { array_contains: [url] } },
+      select: { id: true }
+    })
+
+    if (attached) {
+      throw AppErrors.CONFLICT('Image is attached to a comment')
+    }
+
+    await this.removeImages([url])
+  }
+
+  /**
+   * Collect every image attached to a match's comments (used before match removal)
+   */
+  async getMatchCommentImages(matchId: string): Promise<string[]> {
+    const comments = await prisma.comment.findMany({
+      where: { matchId },
+      select: { images: true }
+    })
+
+    return comments.flatMap(comment => parseImages(comment.images))
+  }
+
+  /**
+   * Delete comment images from S3; failures are logged and never thrown
+   */
+  async removeImages(urls: string[]): Promise<void> {
+    if (urls.length === 0) return
+
+    try {
+      const { deleteFromS3, extractFileKeyFromUrl } = await import('@/lib/aws')
+      const fileKeys = urls
+        .map(url => extractFileKeyFromUrl(url))
+        .filter((fileKey): fileKey is string => !!fileKey)
+
+      const results = await Promise.allSettled(fileKeys.map(fileKey => deleteFromS3(fileKey)))
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          console.warn(`Failed to delete comment image ${fileKeys[index]}:`, result.reason)
+        }
+      })
+    } catch (error) {
+      console.warn('Failed to delete comment images:', error)
+    }
+  }
+
+  /**
+   * Only images the user uploaded through the comment upload route may be attached
+   */
+  private async assertUploadedBy(userId: string, urls: string[]): Promise<void> {
+    const { extractFileKeyFromUrl } = await import('@/lib/aws')
+    const prefix = commentImageKeyPrefix(userId)
+
+    for (const url of urls) {
+      const fileKey = extractFileKeyFromUrl(url)
+      if (!fileKey || !fileKey.startsWith(prefix)) {
+        throw AppErrors.FORBIDDEN('Comment images must be uploaded by the author')
+      }
+    }
+  }
+
+  private async getActiveComment(matchId: string, commentId: string) {
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId }
+    })
+
+    if (!comment || comment.matchId !== matchId || comment.deletedAt) {
+      throw AppErrors.NOT_FOUND(`Comment ${commentId} not found`)
+    }
+
+    return comment
+  }
+
+  /**
+   * Number of ancestors above (and including) the given comment
+   */
+  private async getDepth(commentId: string): Promise<number> {
+    let depth = 0
+    let currentId: string | null = commentId
+
+    while (currentId && depth <= MAX_COMMENT_DEPTH) {
+      const current: { parentCommentId: string | null } | null = await prisma.comment.findUnique({
+        where: { id: currentId },
+        select: { parentCommentId: true }
+      })
+      depth += 1
+      currentId = current?.parentCommentId ?? null
+    }
+
+    return depth
+  }
+}
+
+// Export singleton instance
+export const commentService = new CommentService()
@@ -0,0 +1,79 @@
+/**
+ * Conceded Goal Service
+ *
+ * Timing of the opponent's goals, so goals against can be placed in a section-part:
+ * - Minutes are absolute match minutes, the same as match events
+ * - Own goals are already events with a minute and are not entered again
+ * - Together with own goals they can't exceed the opponent's score once it is known
+ */
+
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { getMatchMinutes, toMatchFormat } from '@/lib/utils/matchFormat'
+
+export interface ConcededGoals {
+  minutes: number[]
+  ownGoals: number                // Own goal events, already part of the goals against
+  opponentScore: number | null
+  matchMinutes: number
+}
+
+export class ConcededGoalService {
+  /**
+   * Recorded conceded goals of a match, with its own goals for context
+   */
+  async getConcededGoals(matchId: string): Promise<ConcededGoals> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: {
+        opponentScore: true,
+        sectionCount: true,
+        partsPerSection: true,
+        partMinutes: true,
+        concededGoals: { select: { minute: true }, orderBy: { minute: 'asc' } },
+        events: { where: { eventType: 'OWN_GOAL' }, select: { id: true } }
+      }
+    })
+    if (!match) {
+      throw AppErrors.NOT_FOUND('Match not found')
+    }
+
+    return {
+      minutes: match.concededGoals.map(goal => goal.minute),
+      ownGoals: match.events.length,
+      opponentScore: match.opponentScore,
+      matchMinutes: getMatchMinutes(toMatchFormat(match))
+    }
+  }
+
+  /**
+   * Replace the conceded goals of a match
+   */
+  async saveConcededGoals(matchId: string, minutes: number[]): Promise<ConcededGoals> {
+    const current = await this.getConcededGoals(matchId)
+
+    const outside = minutes.find(minute => minute < 0 || minute > current.matchMinutes)
+    if (outside !== undefined) {
+      throw AppErrors.CONFLICT(`Minute ${outside} is outside the match (0-${current.matchMinutes})`)
+    }
+    if (current.opponentScore !== null && minutes.length + current.ownGoals > current.opponentScore) {
+      throw AppErrors.CONFLICT(
+        `${minutes.length} conceded goals and ${current.ownGoals} own goals exceed the opponent's score of ${current.opponentScore}`
+      )
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.concededGoal.deleteMany({ where: { matchId } })
+      if (minutes.length > 0) {
+        await tx.concededGoal.createMany({
+          data: [...minutes].sort((a, b) => a - b).map(minute => ({ matchId, minute }))
+        })
+      }
+    })
+
+    return this.getConcededGoals(matchId)
+  }
+}
+
+// Export singleton instance
+export const concededGoalService = new ConcededGoalService()
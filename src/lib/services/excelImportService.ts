@@ -0,0 +1,444 @@
+/**
+ * Excel Import Service
+ *
+ * Turns parsed match sheets into matches, selections, participations and events:
+ * - Players are matched to users by the shortId column, then by remembered name aliases;
+ *   unknown players are skipped
+ * - Each match takes the season rates, fee policy and default part length in force on its date
+ * - A season workbook (one sheet per match) is dry-run first: every sheet is checked for
+ *   parse errors, unknown players and existing matches on the same date, and the commit
+ *   imports all sheets in one transaction or none at all
+ */
+
+import type { FeePolicy, Match, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { parseSheetTitle, type ExcelMatchData, type ExcelPlayerData, type ExcelSheetResult } from '@/lib/excelParser'
+import { calculateCoefficient } from '@/lib/utils/coefficient'
+import { calculatePlayerFees, type AttendanceData } from '@/lib/feeCalculation'
+import { createEmptyAttendance, getFormatSlots, getCoefficientUnits, type MatchFormat } from '@/lib/utils/matchFormat'
+import { toFeePolicyRules } from '@/lib/utils/feePolicy'
+import { seasonService } from './seasonService'
+import { globalSettingsService } from './globalSettingsService'
+import { feePolicyService } from './feePolicyService'
+import { playerAliasService } from './playerAliasService'
+import { opponentService } from './opponentService'
+import { normalizePlayerName } from '@/lib/utils/playerMatching'
+
+export interface ImportPlayerMatch {
+  excelPlayer: ExcelPlayerData
+  userId: string
+  userName: string
+}
+
+export interface SheetImportOptions {
+  matchDate: Date
+  opponentTeam: string
+  notes: string
+  createdBy: string
+}
+
+export interface ImportedMatch {
+  match: Match & { feePolicy: FeePolicy | null }
+  selectedPlayerIds: string[]
+  participations: number
+  goals: number
+  assists: number
+  coefficient: number
+}
+
+export interface SheetImportPlan {
+  sheetName: string
+  matchDate: Date | null
+  opponentTeam: string
+  ourScore: number | null
+  opponentScore: number | null
+  fieldFeeTotal: number
+  waterFeeTotal: number
+  totalPlayers: number
+  matchedPlayers: { userId: string; name: string; shortId: string }[]
+  unknownPlayers: string[]
+  conflicts: { matchId: string; matchDate: Date; opponentTeam: string }[]  // Existing matches on the same date
+  errors: string[]
+}
+
+export interface WorkbookImportPlan {
+  year: number
+  sheets: SheetImportPlan[]
+  canCommit: boolean
+  matchedPlayers: number
+  unknownPlayers: number
+}
+
+interface SheetDefaults {
+  seasonId: string | null
+  feePolicyId: string | null
+  lateFeeRate: number
+  videoFeePerUnit: number
+  format: MatchFormat
+  trialPlayerIds: string[]
+}
+
+type ImportClient = Prisma.TransactionClient | typeof prisma
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Interactive transactions default to 5s, too short for a full season
+const WORKBOOK_TRANSACTION_TIMEOUT_MS = 120_000
+
+const toDayKey = (date: Date) => date.toISOString().slice(0, 10)
+
+export class ExcelImportService {
+  /**
+   * Match sheet players to users by shortId, falling back to remembered name aliases
+   */
+  async matchPlayers(players: ExcelPlayerData[]): Promise<{ matched: ImportPlayerMatch[]; unknown: string[] }> {
+    const users = await this.findUsers(players.map(p => ({ shortId: p.shortId, name: p.姓名 })))
+
+    const matched: ImportPlayerMatch[] = []
+    const unknown: string[] = []
+
+    players.forEach((excelPlayer, index) => {
+      const user = users[index]
+      if (user) {
+        matched.push({ excelPlayer, userId: user.id, userName: user.name })
+      } else {
+        unknown.push(excelPlayer.shortId || excelPlayer.姓名)
+      }
+    })
+
+    return { matched, unknown }
+  }
+
+  /**
+   * User for each sheet player by shortId, then by remembered alias; null when unknown
+   */
+  async findUsers(players: { shortId: string; name: string }[]): Promise<({ id: string; name: string } | null)[]> {
+    const users = await prisma.user.findMany({
+      where: { shortId: { in: players.map(p => p.shortId).filter(Boolean) } },
+      select: { id: true, name: true, shortId: true }
+    })
+
+    const unmatchedNames = players
+      .filter(p => !users.some(u => u.shortId === p.shortId))
+      .map(p => p.name)
+    const aliasUsers = unmatchedNames.length > 0
+      ? await playerAliasService.findUsersByAlias(unmatchedNames)
+      : new Map<string, { id: string; name: string }>()
+
+    return players.map(player =>
+      users.find(u => u.shortId === player.shortId)
+        ?? aliasUsers.get(normalizePlayerName(player.name))
+        ?? null
+    )
+  }
+
+  /**
+   * Sheet players matched neither by shortId nor by alias, with the sheet they appear on
+   */
+  async findUnknownPlayers(sheets: ExcelSheetResult[]): Promise<{ name: string; shortId: string; sheetName: string }[]> {
+    const unknown: { name: string; shortId: string; sheetName: string }[] = []
+
+    for (const sheet of sheets) {
+      if (!sheet.data) continue
+
+      const { matched } = await this.matchPlayers(sheet.data.players)
+      for (const player of sheet.data.players) {
+        if (!matched.some(m => m.excelPlayer === player)) {
+          unknown.push({ name: player.姓名, shortId: player.shortId, sheetName: sheet.sheetName })
+        }
+      }
+    }
+
+    return unknown
+  }
+
+  /**
+   * Import one sheet as a new match
+   */
+  async importSheet(
+    data: ExcelMatchData,
+    matched: ImportPlayerMatch[],
+    options: SheetImportOptions
+  ): Promise<ImportedMatch> {
+    const defaults = await this.resolveSheetDefaults(data, options.matchDate, matched)
+    return this.createSheetMatch(prisma, data, matched, options, defaults)
+  }
+
+  /**
+   * Dry-run a season workbook: per-sheet players, conflicts and errors, nothing is written
+   */
+  async planWorkbook(sheets: ExcelSheetResult[], year: number): Promise<WorkbookImportPlan> {
+    const plans = await this.buildSheetPlans(sheets, year)
+    return this.summarizePlans(plans.map(p => p.plan), year)
+  }
+
+  /**
+   * Import every sheet of a season workbook in one transaction; refuses if any sheet has problems
+   */
+  async commitWorkbook(
+    sheets: ExcelSheetResult[],
+    year: number,
+    fileName: string,
+    createdBy: string
+  ): Promise<{ plan: WorkbookImportPlan; imported: ImportedMatch[] }> {
+    const plans = await this.buildSheetPlans(sheets, year)
+    const plan = this.summarizePlans(plans.map(p => p.plan), year)
+
+    if (!plan.canCommit) {
+      throw AppErrors.CONFLICT('Workbook has sheets with errors or date conflicts; nothing was imported')
+    }
+
+    const importedAt = new Date().toISOString()
+
+    // Rates and policies are read up front so the transaction only writes
+    const prepared = await Promise.all(plans.map(async ({ plan: sheetPlan, data, matched }) => {
+      const matchDate = sheetPlan.matchDate!
+      return {
+        data: data!,
+        matched,
+        options: {
+          matchDate,
+          opponentTeam: sheetPlan.opponentTeam,
+          notes: JSON.stringify({ importedFrom: fileName, importedAt, originalSheetName: sheetPlan.sheetName }),
+          createdBy
+        },
+        defaults: await this.resolveSheetDefaults(data!, matchDate, matched)
+      }
+    }))
+
+    const imported = await prisma.$transaction(async (tx) => {
+      const results: ImportedMatch[] = []
+      for (const sheet of prepared) {
+        results.push(await this.createSheetMatch(tx, sheet.data, sheet.matched, sheet.options, sheet.defaults))
+      }
+      return results
+    }, { timeout: WORKBOOK_TRANSACTION_TIMEOUT_MS })
+
+    return { plan, imported }
+  }
+
+  private async buildSheetPlans(sheets: ExcelSheetResult[], year: number) {
+    const titles = sheets.map(sheet => parseSheetTitle(sheet.sheetName, year))
+    const dates = titles.map(t => t.matchDate).filter((d): d is Date => d !== null)
+
+    // Match dates are UTC days, so any match within the same day is a conflict
+    const existingMatches = dates.length === 0 ? [] : await prisma.match.findMany({
+      where: {
+        OR: dates.map(date => ({ matchDate: { gte: date, lt: new Date(date.getTime() + DAY_MS) } }))
+      },
+      select: { id: true, matchDate: true, opponentTeam: true }
+    })
+
+    const sheetsPerDay = new Map<string, number>()
+    for (const date of dates) {
+      sheetsPerDay.set(toDayKey(date), (sheetsPerDay.get(toDayKey(date)) ?? 0) + 1)
+    }
+
+    return Promise.all(sheets.map(async (sheet, index) => {
+      const { matchDate, opponentTeam } = titles[index]
+      const errors: string[] = []
+
+      if (sheet.error || !sheet.data) {
+        errors.push(sheet.error ?? 'Sheet could not be parsed')
+      }
+      if (!matchDate) {
+        errors.push('Match date not found in sheet name (expected e.g. "12月27号VS对手")')
+      } else if ((sheetsPerDay.get(toDayKey(matchDate)) ?? 0) > 1) {
+        errors.push('Another sheet in this workbook has the same match date')
+      }
+
+      const { matched, unknown } = sheet.data
+        ? await this.matchPlayers(sheet.data.players)
+        : { matched: [], unknown: [] }
+
+      if (sheet.data && matched.length === 0) {
+        errors.push('No players matched. Please ensure at least some players have correct shortIds.')
+      }
+
+      const conflicts = matchDate
+        ? existingMatches
+          .filter(m => toDayKey(m.matchDate) === toDayKey(matchDate))
+          .map(m => ({ matchId: m.id, matchDate: m.matchDate, opponentTeam: m.opponentTeam }))
+        : []
+
+      const plan: SheetImportPlan = {
+        sheetName: sheet.sheetName,
+        matchDate,
+        opponentTeam,
+        ourScore: sheet.data?.ourScore ?? null,
+        opponentScore: sheet.data?.opponentScore ?? null,
+        fieldFeeTotal: Math.round(sheet.data?.fieldFeeTotal ?? 0),
+        waterFeeTotal: Math.round(sheet.data?.waterFeeTotal ?? 0),
+        totalPlayers: sheet.data?.players.length ?? 0,
+        matchedPlayers: matched.map(m => ({ userId: m.userId, name: m.userName, shortId: m.excelPlayer.shortId })),
+        unknownPlayers: unknown,
+        conflicts,
+        errors
+      }
+
+      return { plan, data: sheet.data, matched }
+    }))
+  }
+
+  private summarizePlans(sheets: SheetImportPlan[], year: number): WorkbookImportPlan {
+    return {
+      year,
+      sheets,
+      canCommit: sheets.length > 0 && sheets.every(s => s.errors.length === 0 && s.conflicts.length === 0),
+      matchedPlayers: sheets.reduce((sum, s) => sum + s.matchedPlayers.length, 0),
+      unknownPlayers: sheets.reduce((sum, s) => sum + s.unknownPlayers.length, 0)
+    }
+  }
+
+  private async resolveSheetDefaults(
+    data: ExcelMatchData,
+    matchDate: Date,
+    matched: ImportPlayerMatch[]
+  ): Promise<SheetDefaults> {
+    const [{ seasonId, lateFeeRate, videoFeePerUnit }, defaultFormat, feePolicyId, trialPlayerIds] = await Promise.all([
+      seasonService.getMatchDefaults(matchDate),
+      globalSettingsService.getDefaultMatchFormat(),
+      feePolicyService.findPolicyIdForDate(matchDate),
+      feePolicyService.findTrialPlayerIds(null, matched.map(m => m.userId))
+    ])
+
+    return {
+      seasonId,
+      feePolicyId,
+      lateFeeRate,
+      videoFeePerUnit,
+      // Sections and parts come from the sheet's header; the sheet has no part length, so use the default
+      format: { ...data.format, partMinutes: defaultFormat.partMinutes },
+      trialPlayerIds
+    }
+  }
+
+  private async createSheetMatch(
+    client: ImportClient,
+    data: ExcelMatchData,
+    matched: ImportPlayerMatch[],
+    options: SheetImportOptions,
+    defaults: SheetDefaults
+  ): Promise<ImportedMatch> {
+    const { format, lateFeeRate, videoFeePerUnit } = defaults
+
+    const match = await client.match.create({
+      data: {
+        matchDate: options.matchDate,
+        seasonId: defaults.seasonId,
+        feePolicyId: defaults.feePolicyId,
+        opponentTeam: options.opponentTeam,
+        opponentId: await opponentService.resolveOpponentId(options.opponentTeam, client),
+        ourScore: data.ourScore,
+        opponentScore: data.opponentScore,
+        fieldFeeTotal: Math.round(data.fieldFeeTotal),
+        waterFeeTotal: Math.round(data.waterFeeTotal),
+        lateFeeRate: Math.round(lateFeeRate),
+        videoFeePerUnit: Math.round(videoFeePerUnit),
+        ...format,
+        notes: options.notes,
+        createdBy: options.createdBy
+      },
+      include: { feePolicy: true }
+    })
+
+    // Auto-select all imported players
+    const selectedPlayerIds = matched.map(m => m.userId)
+    if (selectedPlayerIds.length > 0) {
+      await client.matchPlayer.createMany({
+        data: selectedPlayerIds.map(playerId => ({ matchId: match.id, playerId }))
+      })
+    }
+
+    const coefficient = calculateCoefficient(
+      Math.round(Number(data.fieldFeeTotal)),
+      Math.round(Number(data.waterFeeTotal)),
+      getCoefficientUnits(format), // Full-match time units, as before
+      format
+    )
+
+    // Charge under the policy version the match was created with
+    const feePolicy = toFeePolicyRules(match.feePolicy)
+
+    const events: Prisma.MatchEventCreateManyInput[] = []
+
+    for (const { excelPlayer, userId } of matched) {
+      // A goalkeeper part counts as attended and is flagged in the goalkeeper map
+      const { attendance, goalkeeper } = createEmptyAttendance(format)
+      for (const { section, part } of getFormatSlots(format)) {
+        const value = excelPlayer.sections[section - 1]?.[part - 1]
+        attendance[section][part] = value === '守门' ? 1 : (Number(value) || 0)
+        goalkeeper[section][part] = value === '守门'
+      }
+
+      const attendanceData = {
+        attendance,
+        goalkeeper,
+        isLateArrival: !excelPlayer.onTime
+      }
+
+      const calculatedFees = calculatePlayerFees({
+        attendanceData: attendanceData as AttendanceData,
+        isLateArrival: !excelPlayer.onTime,
+        feeCoefficient: coefficient,
+        lateFeeRate,
+        videoFeeRate: videoFeePerUnit,
+        format,
+        policy: feePolicy,
+        isTrialPlayer: defaults.trialPlayerIds.includes(userId)
+      })
+
+      await client.matchParticipation.create({
+        data: {
+          userId,
+          matchId: match.id,
+          attendanceData,
+          isLateArrival: !excelPlayer.onTime,
+          totalTime: calculatedFees.normalPlayerParts,
+          fieldFeeCalculated: calculatedFees.fieldFee,
+          lateFee: calculatedFees.lateFee,
+          videoFee: calculatedFees.videoFee,
+          totalFeeCalculated: calculatedFees.totalFee,
+          isTrialPlayer: defaults.trialPlayerIds.includes(userId)
+        }
+      })
+
+      // The actual fee collected becomes an override only when the sheet has notes for the player
+      if (excelPlayer.notes.trim()) {
+        await client.feeOverride.create({
+          data: {
+            matchId: match.id,
+            playerId: userId,
+            fieldFeeOverride: Math.round(Number(excelPlayer.实收费用 || 0)),
+            notes: excelPlayer.notes.trim(),
+            isCollectedTotal: true
+          }
+        })
+      }
+
+      for (let i = 0; i < excelPlayer.goals; i++) {
+        events.push({ matchId: match.id, playerId: userId, eventType: 'GOAL', createdBy: options.createdBy })
+      }
+      for (let i = 0; i < excelPlayer.assists; i++) {
+        events.push({ matchId: match.id, playerId: userId, eventType: 'ASSIST', createdBy: options.createdBy })
+      }
+    }
+
+    if (events.length > 0) {
+      await client.matchEvent.createMany({ data: events })
+    }
+
+    return {
+      match,
+      selectedPlayerIds,
+      participations: matched.length,
+      goals: events.filter(e => e.eventType === 'GOAL').length,
+      assists: events.filter(e => e.eventType === 'ASSIST').length,
+      coefficient
+    }
+  }
+}
+
+// Export singleton instance
+export const excelImportService = new ExcelImportService()
@@ -6,11 +6,20 @@
  * - Manual override management
  * - Auto-recalculation triggers
  * - Fee breakdown generation
+ * - Dry-run previews of unsaved attendance and override changes
+ *
+ * Every calculation uses the fee policy version the match references and the
+ * trial status recorded with each participation, so recalculating an old match
+ * reproduces the fees it was charged under.
  */
 
+import type { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { calculatePlayerFees, type AttendanceData, type FeeCalculationResult } from '@/lib/feeCalculation'
 import { calculateCoefficient } from '@/lib/utils/coefficient'
+import { toMatchFormat } from '@/lib/utils/matchFormat'
+import { isTrialParticipant, toFeePolicyRules } from '@/lib/utils/feePolicy'
+import { resolveFinalFees } from './paymentService'
 
 const roundFee = (value: number) => Math.round(value)
 
@@ -55,6 +64,60 @@ export interface MatchFeeBreakdown {
   players: PlayerFeeBreakdown[]
 }
 
+export interface FeePreviewInput {
+  // Full candidate attendance keyed by player; omitted keeps the stored attendance
+  attendanceData?: Record<string, AttendanceData & { isLateArrival: boolean }>
+  matchInfo?: {
+    fieldFeeTotal: number
+    waterFeeTotal: number
+    lateFeeRate?: number
+    videoFeePerUnit?: number
+  }
+  // Merged over stored overrides: undefined keeps a stored value, null clears it
+  manualOverrides?: Record<string, {
+    fieldFeeOverride?: number | null
+    videoFeeOverride?: number | null
+    lateFeeOverride?: number | null
+    notes?: string | null
+  }>
+}
+
+export interface PlayerFeePreview {
+  playerId: string
+  playerName: string
+  status: 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED'
+  before: PlayerFeeBreakdown['finalFees'] | null
+  after: PlayerFeeBreakdown['finalFees'] | null
+  difference: number
+}
+
+export interface MatchFeePreview {
+  matchId: string
+  feeCoefficient: number
+  totalBefore: number
+  totalAfter: number
+  players: PlayerFeePreview[]
+}
+
+type StoredOverride = {
+  fieldFeeOverride: Prisma.Decimal | number | null
+  videoFeeOverride: Prisma.Decimal | number | null
+  lateFeeOverride: Prisma.Decimal | number | null
+  isCollectedTotal?: boolean
+}
+
+// Fees after overrides, by the same rule payments use for the amount due
+const toFinalFees = (
+  fees: { fieldFeeCalculated: Prisma.Decimal | number; videoFee: Prisma.Decimal | number; lateFee: Prisma.Decimal | number },
+  override?: StoredOverride | null
+): PlayerFeeBreakdown['finalFees'] => resolveFinalFees(fees, override)
+
+const fromCalculated = (fees: { fieldFee: number; videoFee: number; lateFee: number }) => ({
+  fieldFeeCalculated: fees.fieldFee,
+  videoFee: fees.videoFee,
+  lateFee: fees.lateFee
+})
+
 export class FeeCalculationService {
   /**
    * Calculate fees for a specific player in a match
@@ -67,7 +130,8 @@ export class FeeCalculationService {
   ): Promise<PlayerFeeBreakdown> {
     // Get match info for coefficient calculation
     const match = await prisma.match.findUnique({
-      where: { id: matchId }
+      where: { id: matchId },
+      include: { feePolicy: true }
     })
 
     if (!match) {
@@ -77,13 +141,18 @@ export class FeeCalculationService {
     // Get player info
     const player = await prisma.user.findUnique({
       where: { id: playerId },
-      select: { id: true, name: true }
+      select: { id: true, name: true, playerStatus: true }
     })
 
     if (!player) {
       throw new Error(`Player ${playerId} not found`)
     }
 
+    const participation = await prisma.matchParticipation.findUnique({
+      where: { userId_matchId: { userId: playerId, matchId } },
+      select: { isTrialPlayer: true }
+    })
+
     // Calculate total play time for coefficient
     const totalPlayTime = await this.calculateTotalPlayTime(matchId)
 
@@ -91,7 +160,8 @@ export class FeeCalculationService {
     const feeCoefficient = calculateCoefficient(
       Number(match.fieldFeeTotal),
       Number(match.waterFeeTotal),
-      totalPlayTime
+      totalPlayTime,
+      toMatchFormat(match)
     )
 
     // Calculate base fees using match-specific rates
@@ -100,7 +170,10 @@ export class FeeCalculationService {
       isLateArrival,
       feeCoefficient,
       lateFeeRate: normalizeRateValue(match.lateFeeRate),
-      videoFeeRate: normalizeRateValue(match.videoFeePerUnit)
+      videoFeeRate: normalizeRateValue(match.videoFeePerUnit),
+      format: toMatchFormat(match),
+      policy: toFeePolicyRules(match.feePolicy),
+      isTrialPlayer: isTrialParticipant(participation?.isTrialPlayer, player.playerStatus)
     })
 
     // Get any existing overrides
@@ -120,12 +193,6 @@ export class FeeCalculationService {
       notes: override.notes || undefined
     } : null
 
-    // Apply overrides to get final fees
-    const finalFieldFee = normalizedOverride?.fieldFeeOverride ?? calculatedFees.fieldFee
-    const finalVideoFee = normalizedOverride?.videoFeeOverride ?? calculatedFees.videoFee
-    const finalLateFee = normalizedOverride?.lateFeeOverride ?? calculatedFees.lateFee
-    const finalTotalFee = finalFieldFee + finalVideoFee + finalLateFee
-
     return {
       playerId,
       playerName: player.name,
@@ -133,12 +200,7 @@ export class FeeCalculationService {
       isLateArrival,
       calculatedFees,
       overrides: normalizedOverride,
-      finalFees: {
-        fieldFee: finalFieldFee,
-        videoFee: finalVideoFee,
-        lateFee: finalLateFee,
-        totalFee: finalTotalFee
-      }
+      finalFees: toFinalFees(fromCalculated(calculatedFees), override)
     }
   }
 
@@ -149,7 +211,8 @@ export class FeeCalculationService {
     return await prisma.$transaction(async (tx) => {
       // Get match info
       const match = await tx.match.findUnique({
-        where: { id: matchId }
+        where: { id: matchId },
+        include: { feePolicy: true }
       })
 
       if (!match) {
@@ -161,7 +224,7 @@ export class FeeCalculationService {
         where: { matchId },
         include: {
           user: {
-            select: { id: true, name: true }
+            select: { id: true, name: true, playerStatus: true }
           }
         }
       })
@@ -173,7 +236,8 @@ export class FeeCalculationService {
       const feeCoefficient = calculateCoefficient(
         Number(match.fieldFeeTotal),
         Number(match.waterFeeTotal),
-        totalPlayTime
+        totalPlayTime,
+        toMatchFormat(match)
       )
 
       // Get all existing overrides
@@ -192,6 +256,7 @@ export class FeeCalculationService {
 
       for (const participation of participations) {
         const attendanceData = participation.attendanceData as unknown as AttendanceData
+        const isTrialPlayer = isTrialParticipant(participation.isTrialPlayer, participation.user.playerStatus)
 
         // Calculate base fees using match-specific rates
         const calculatedFees = calculatePlayerFees({
@@ -199,7 +264,10 @@ export class FeeCalculationService {
           isLateArrival: participation.isLateArrival,
           feeCoefficient,
           lateFeeRate: normalizeRateValue(match.lateFeeRate),
-          videoFeeRate: normalizeRateValue(match.videoFeePerUnit)
+          videoFeeRate: normalizeRateValue(match.videoFeePerUnit),
+          format: toMatchFormat(match),
+          policy: toFeePolicyRules(match.feePolicy),
+          isTrialPlayer
         })
 
         const override = overrideMap.get(participation.userId)
@@ -211,10 +279,7 @@ export class FeeCalculationService {
         } : null
 
         // Apply overrides to get final fees
-        const finalFieldFee = normalizedOverride?.fieldFeeOverride ?? calculatedFees.fieldFee
-        const finalVideoFee = normalizedOverride?.videoFeeOverride ?? calculatedFees.videoFee
-        const finalLateFee = normalizedOverride?.lateFeeOverride ?? calculatedFees.lateFee
-        const finalTotalFee = finalFieldFee + finalVideoFee + finalLateFee
+        const finalFees = toFinalFees(fromCalculated(calculatedFees), override)
 
         // Update participation with new calculated fees
         await tx.matchParticipation.update({
@@ -225,11 +290,12 @@ export class FeeCalculationService {
             }
           },
           data: {
-            fieldFeeCalculated: finalFieldFee,
-            videoFee: finalVideoFee,
-            lateFee: finalLateFee,
-            totalFeeCalculated: finalTotalFee,
-            totalTime: calculatedFees.normalPlayerParts
+            fieldFeeCalculated: finalFees.fieldFee,
+            videoFee: finalFees.videoFee,
+            lateFee: finalFees.lateFee,
+            totalFeeCalculated: finalFees.totalFee,
+            totalTime: calculatedFees.normalPlayerParts,
+            isTrialPlayer
           }
         })
 
@@ -240,16 +306,11 @@ export class FeeCalculationService {
           isLateArrival: participation.isLateArrival,
           calculatedFees,
           overrides: normalizedOverride,
-          finalFees: {
-            fieldFee: finalFieldFee,
-            videoFee: finalVideoFee,
-            lateFee: finalLateFee,
-            totalFee: finalTotalFee
-          }
+          finalFees
         })
 
         totalCalculatedFees += calculatedFees.totalFee
-        totalFinalFees += finalTotalFee
+        totalFinalFees += finalFees.totalFee
       }
 
       return {
@@ -282,7 +343,7 @@ export class FeeCalculationService {
         },
         include: {
           user: {
-            select: { id: true, name: true }
+            select: { id: true, name: true, playerStatus: true }
           }
         }
       })
@@ -293,7 +354,8 @@ export class FeeCalculationService {
 
       // Get match info
       const match = await tx.match.findUnique({
-        where: { id: matchId }
+        where: { id: matchId },
+        include: { feePolicy: true }
       })
 
       if (!match) {
@@ -306,7 +368,8 @@ export class FeeCalculationService {
       const feeCoefficient = calculateCoefficient(
         Number(match.fieldFeeTotal),
         Number(match.waterFeeTotal),
-        totalPlayTime
+        totalPlayTime,
+        toMatchFormat(match)
       )
 
       const calculatedFees = calculatePlayerFees({
@@ -314,7 +377,10 @@ export class FeeCalculationService {
         isLateArrival: participation.isLateArrival,
         feeCoefficient,
         lateFeeRate: normalizeRateValue(match.lateFeeRate),
-        videoFeeRate: normalizeRateValue(match.videoFeePerUnit)
+        videoFeeRate: normalizeRateValue(match.videoFeePerUnit),
+        format: toMatchFormat(match),
+        policy: toFeePolicyRules(match.feePolicy),
+        isTrialPlayer: isTrialParticipant(participation.isTrialPlayer, participation.user.playerStatus)
       })
 
       const normalizedOverride = {
@@ -325,7 +391,7 @@ export class FeeCalculationService {
       }
 
       // Create or update fee override
-      const feeOverride = await tx.feeOverride.upsert({
+      await tx.feeOverride.upsert({
         where: {
           matchId_playerId: {
             matchId,
@@ -337,6 +403,8 @@ export class FeeCalculationService {
           videoFeeOverride: normalizedOverride.videoFeeOverride,
           lateFeeOverride: normalizedOverride.lateFeeOverride,
           notes: normalizedOverride.notes,
+          // An admin's override is per component, even where an Excel import set the collected total
+          isCollectedTotal: false,
           updatedAt: new Date()
         },
         create: {
@@ -350,10 +418,7 @@ export class FeeCalculationService {
       })
 
       // Apply overrides to get final fees for return value only
-      const finalFieldFee = normalizedOverride.fieldFeeOverride ?? calculatedFees.fieldFee
-      const finalVideoFee = normalizedOverride.videoFeeOverride ?? calculatedFees.videoFee
-      const finalLateFee = normalizedOverride.lateFeeOverride ?? calculatedFees.lateFee
-      const finalTotalFee = finalFieldFee + finalVideoFee + finalLateFee
+      const finalFees = toFinalFees(fromCalculated(calculatedFees), normalizedOverride)
 
       // DO NOT UPDATE match_participation table - it should only contain calculated fees!
       // The fee_override table (created above) contains the manual overrides
@@ -371,12 +436,7 @@ export class FeeCalculationService {
           lateFeeOverride: normalizedOverride.lateFeeOverride,
           notes: normalizedOverride.notes
         },
-        finalFees: {
-          fieldFee: finalFieldFee,
-          videoFee: finalVideoFee,
-          lateFee: finalLateFee,
-          totalFee: finalTotalFee
-        }
+        finalFees
       }
     })
   }
@@ -404,7 +464,7 @@ export class FeeCalculationService {
         },
         include: {
           user: {
-            select: { id: true, name: true }
+            select: { id: true, name: true, playerStatus: true }
           }
         }
       })
@@ -415,7 +475,8 @@ export class FeeCalculationService {
 
       // Get match info and recalculate
       const match = await tx.match.findUnique({
-        where: { id: matchId }
+        where: { id: matchId },
+        include: { feePolicy: true }
       })
 
       if (!match) {
@@ -427,7 +488,8 @@ export class FeeCalculationService {
       const feeCoefficient = calculateCoefficient(
         Number(match.fieldFeeTotal),
         Number(match.waterFeeTotal),
-        totalPlayTime
+        totalPlayTime,
+        toMatchFormat(match)
       )
 
       const calculatedFees = calculatePlayerFees({
@@ -435,7 +497,10 @@ export class FeeCalculationService {
         isLateArrival: participation.isLateArrival,
         feeCoefficient,
         lateFeeRate: normalizeRateValue(match.lateFeeRate),
-        videoFeeRate: normalizeRateValue(match.videoFeePerUnit)
+        videoFeeRate: normalizeRateValue(match.videoFeePerUnit),
+        format: toMatchFormat(match),
+        policy: toFeePolicyRules(match.feePolicy),
+        isTrialPlayer: isTrialParticipant(participation.isTrialPlayer, participation.user.playerStatus)
       })
 
       // Update participation with calculated fees
@@ -450,7 +515,8 @@ export class FeeCalculationService {
           fieldFeeCalculated: calculatedFees.fieldFee,
           videoFee: calculatedFees.videoFee,
           lateFee: calculatedFees.lateFee,
-          totalFeeCalculated: calculatedFees.totalFee
+          totalFeeCalculated: calculatedFees.totalFee,
+          isTrialPlayer: isTrialParticipant(participation.isTrialPlayer, participation.user.playerStatus)
         }
       })
 
@@ -477,7 +543,8 @@ export class FeeCalculationService {
   async getFeeBreakdown(matchId: string): Promise<MatchFeeBreakdown> {
     // Get match info
     const match = await prisma.match.findUnique({
-      where: { id: matchId }
+      where: { id: matchId },
+      include: { feePolicy: true }
     })
 
     if (!match) {
@@ -489,7 +556,7 @@ export class FeeCalculationService {
       where: { matchId },
       include: {
         user: {
-          select: { id: true, name: true }
+          select: { id: true, name: true, playerStatus: true }
         }
       }
     })
@@ -508,7 +575,8 @@ export class FeeCalculationService {
     const feeCoefficient = calculateCoefficient(
       Number(match.fieldFeeTotal),
       Number(match.waterFeeTotal),
-      totalPlayTime
+      totalPlayTime,
+      toMatchFormat(match)
     )
 
     // Build fee breakdown
@@ -524,15 +592,15 @@ export class FeeCalculationService {
         isLateArrival: participation.isLateArrival,
         feeCoefficient,
         lateFeeRate: normalizeRateValue(match.lateFeeRate),
-        videoFeeRate: normalizeRateValue(match.videoFeePerUnit)
+        videoFeeRate: normalizeRateValue(match.videoFeePerUnit),
+        format: toMatchFormat(match),
+        policy: toFeePolicyRules(match.feePolicy),
+        isTrialPlayer: isTrialParticipant(participation.isTrialPlayer, participation.user.playerStatus)
       })
 
       const override = overrideMap.get(participation.userId)
 
-      const finalFieldFee = roundFee(Number(participation.fieldFeeCalculated))
-      const finalVideoFee = roundFee(Number(participation.videoFee))
-      const finalLateFee = roundFee(Number(participation.lateFee))
-      const finalTotalFee = finalFieldFee + finalVideoFee + finalLateFee
+      const finalFees = toFinalFees(participation, override)
 
       players.push({
         playerId: participation.userId,
@@ -546,16 +614,11 @@ export class FeeCalculationService {
           lateFeeOverride: normalizeOverrideValue(override.lateFeeOverride),
           notes: override.notes || undefined
         } : null,
-        finalFees: {
-          fieldFee: finalFieldFee,
-          videoFee: finalVideoFee,
-          lateFee: finalLateFee,
-          totalFee: finalTotalFee
-        }
+        finalFees
       })
 
       totalCalculatedFees += calculatedFees.totalFee
-      totalFinalFees += finalTotalFee
+      totalFinalFees += finalFees.totalFee
     }
 
     return {
@@ -568,6 +631,135 @@ export class FeeCalculationService {
     }
   }
 
+  /**
+   * Calculate fees for candidate attendance, rates and overrides without writing,
+   * diffed per player against the stored fees
+   */
+  async previewFees(matchId: string, input: FeePreviewInput): Promise<MatchFeePreview> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      include: { feePolicy: true }
+    })
+
+    if (!match) {
+      throw new Error(`Match ${matchId} not found`)
+    }
+
+    const [participations, storedOverrides] = await Promise.all([
+      prisma.matchParticipation.findMany({
+        where: { matchId },
+        include: {
+          user: {
+            select: { id: true, name: true, playerStatus: true }
+          }
+        }
+      }),
+      prisma.feeOverride.findMany({
+        where: { matchId }
+      })
+    ])
+
+    const storedOverrideMap = new Map<string, StoredOverride>(storedOverrides.map(o => [o.playerId, o]))
+
+    const candidateAttendance = input.attendanceData ?? Object.fromEntries(
+      participations.map(p => [p.userId, {
+        ...(p.attendanceData as unknown as AttendanceData),
+        isLateArrival: p.isLateArrival
+      }])
+    )
+
+    // Names and trial status; players only present in the candidate attendance use their current status
+    const knownPlayers = new Map(participations.map(p => [p.userId, {
+      name: p.user.name,
+      isTrialPlayer: isTrialParticipant(p.isTrialPlayer, p.user.playerStatus)
+    }]))
+    const newPlayerIds = Object.keys(candidateAttendance).filter(id => !knownPlayers.has(id))
+    if (newPlayerIds.length > 0) {
+      const users = await prisma.user.findMany({
+        where: { id: { in: newPlayerIds } },
+        select: { id: true, name: true, playerStatus: true }
+      })
+      users.forEach(user => knownPlayers.set(user.id, {
+        name: user.name,
+        isTrialPlayer: isTrialParticipant(null, user.playerStatus)
+      }))
+    }
+
+    // Same rate handling as saving attendance: whole-yuan totals, match rates as fallback
+    const format = toMatchFormat(match)
+    const policy = toFeePolicyRules(match.feePolicy)
+    const fieldFeeTotal = Math.ceil(input.matchInfo?.fieldFeeTotal ?? Number(match.fieldFeeTotal ?? 0))
+    const waterFeeTotal = Math.ceil(input.matchInfo?.waterFeeTotal ?? Number(match.waterFeeTotal ?? 0))
+    const lateFeeRate = Math.ceil(input.matchInfo?.lateFeeRate ?? normalizeRateValue(match.lateFeeRate) ?? 10)
+    const videoFeeRate = Math.ceil(input.matchInfo?.videoFeePerUnit ?? normalizeRateValue(match.videoFeePerUnit) ?? 2)
+
+    // Coefficient time counts field-player parts only, as when saving attendance
+    let totalPlayTime = 0
+    for (const data of Object.values(candidateAttendance)) {
+      for (const section in data.attendance) {
+        for (const part in data.attendance[section]) {
+          if (!data.goalkeeper[section]?.[part]) totalPlayTime += data.attendance[section][part]
+        }
+      }
+    }
+    const feeCoefficient = calculateCoefficient(fieldFeeTotal, waterFeeTotal, totalPlayTime, format)
+
+    const afterMap = new Map<string, PlayerFeeBreakdown['finalFees']>()
+    for (const [playerId, data] of Object.entries(candidateAttendance)) {
+      const fees = calculatePlayerFees({
+        attendanceData: data,
+        isLateArrival: data.isLateArrival,
+        feeCoefficient,
+        lateFeeRate,
+        videoFeeRate,
+        format,
+        policy,
+        isTrialPlayer: knownPlayers.get(playerId)?.isTrialPlayer ?? false
+      })
+
+      const stored = storedOverrideMap.get(playerId)
+      const candidate = input.manualOverrides?.[playerId]
+      const override = stored || candidate ? {
+        fieldFeeOverride: candidate?.fieldFeeOverride !== undefined ? candidate.fieldFeeOverride : stored?.fieldFeeOverride ?? null,
+        videoFeeOverride: candidate?.videoFeeOverride !== undefined ? candidate.videoFeeOverride : stored?.videoFeeOverride ?? null,
+        lateFeeOverride: candidate?.lateFeeOverride !== undefined ? candidate.lateFeeOverride : stored?.lateFeeOverride ?? null,
+        // Saving an admin's override makes it per component, as applyManualOverride does
+        isCollectedTotal: candidate ? false : stored?.isCollectedTotal ?? false
+      } : null
+
+      afterMap.set(playerId, toFinalFees(fromCalculated(fees), override))
+    }
+
+    const beforeMap = new Map(participations.map(p => [p.userId, toFinalFees(p, storedOverrideMap.get(p.userId))]))
+
+    const playerIds = Array.from(new Set([...beforeMap.keys(), ...afterMap.keys()]))
+    const players: PlayerFeePreview[] = playerIds.map(playerId => {
+      const before = beforeMap.get(playerId) ?? null
+      const after = afterMap.get(playerId) ?? null
+      const difference = (after?.totalFee ?? 0) - (before?.totalFee ?? 0)
+
+      return {
+        playerId,
+        playerName: knownPlayers.get(playerId)?.name ?? 'Unknown Player',
+        status: !before ? 'ADDED' : !after ? 'REMOVED' : difference !== 0 ? 'CHANGED' : 'UNCHANGED',
+        before,
+        after,
+        difference
+      }
+    })
+
+    // Biggest movements first
+    players.sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference))
+
+    return {
+      matchId,
+      feeCoefficient,
+      totalBefore: players.reduce((sum, p) => sum + (p.before?.totalFee ?? 0), 0),
+      totalAfter: players.reduce((sum, p) => sum + (p.after?.totalFee ?? 0), 0),
+      players
+    }
+  }
+
   /**
    * Helper method to calculate total play time for a match
    */
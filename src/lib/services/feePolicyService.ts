@@ -0,0 +1,196 @@
+/**
+ * Fee Policy Service
+ *
+ * Fee policies are versioned rule sets (goalkeeper discount, trial discount,
+ * minimum charge, cap, rounding):
+ * - Policies are never edited; a rule change is a new version with its own effective date
+ * - New matches reference the latest version in force on their match date
+ * - Recalculating a match always uses the version it references, so old fees stay put
+ * - Trial status is recorded per participation, so a trial player's later promotion does too
+ */
+
+import type { FeeRoundingMode, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { isTrialParticipant } from '@/lib/utils/feePolicy'
+
+export interface FeePolicyInput {
+  name: string
+  effectiveFrom: Date
+  goalkeeperDiscountPercent: number
+  trialDiscountPercent: number
+  minimumCharge?: number | null
+  maximumCharge?: number | null
+  roundingMode: FeeRoundingMode
+  notes?: string | null
+}
+
+export interface FeePolicySummary {
+  id: string
+  version: number
+  name: string
+  effectiveFrom: Date
+  goalkeeperDiscountPercent: number
+  trialDiscountPercent: number
+  minimumCharge: number | null
+  maximumCharge: number | null
+  roundingMode: FeeRoundingMode
+  notes: string | null
+  createdAt: Date
+  matchCount: number
+}
+
+type DecimalLike = { toString(): string } | null
+
+const toNumber = (value: DecimalLike) => value === null ? null : Number(value)
+
+const toFeePolicySummary = (policy: {
+  id: string
+  version: number
+  name: string
+  effectiveFrom: Date
+  goalkeeperDiscountPercent: DecimalLike
+  trialDiscountPercent: DecimalLike
+  minimumCharge: DecimalLike
+  maximumCharge: DecimalLike
+  roundingMode: FeeRoundingMode
+  notes: string | null
+  createdAt: Date
+  _count: { matches: number }
+}): FeePolicySummary => ({
+  id: policy.id,
+  version: policy.version,
+  name: policy.name,
+  effectiveFrom: policy.effectiveFrom,
+  goalkeeperDiscountPercent: toNumber(policy.goalkeeperDiscountPercent) ?? 0,
+  trialDiscountPercent: toNumber(policy.trialDiscountPercent) ?? 0,
+  minimumCharge: toNumber(policy.minimumCharge),
+  maximumCharge: toNumber(policy.maximumCharge),
+  roundingMode: policy.roundingMode,
+  notes: policy.notes,
+  createdAt: policy.createdAt,
+  matchCount: policy._count.matches
+})
+
+const matchCountInclude = {
+  _count: { select: { matches: true } }
+} as const
+
+export class FeePolicyService {
+  /**
+   * All policy versions, newest first
+   */
+  async getPolicies(): Promise<FeePolicySummary[]> {
+    const policies = await prisma.feePolicy.findMany({
+      include: matchCountInclude,
+      orderBy: { version: 'desc' }
+    })
+
+    return policies.map(toFeePolicySummary)
+  }
+
+  /**
+   * Get a single policy version
+   */
+  async getPolicy(policyId: string): Promise<FeePolicySummary> {
+    const policy = await prisma.feePolicy.findUnique({
+      where: { id: policyId },
+      include: matchCountInclude
+    })
+
+    if (!policy) {
+      throw AppErrors.NOT_FOUND(`Fee policy ${policyId} not found`)
+    }
+
+    return toFeePolicySummary(policy)
+  }
+
+  /**
+   * Publish a new policy version; existing matches keep the version they reference
+   */
+  async createPolicy(input: FeePolicyInput, createdBy: string): Promise<FeePolicySummary> {
+    if (
+      input.minimumCharge != null &&
+      input.maximumCharge != null &&
+      input.minimumCharge > input.maximumCharge
+    ) {
+      throw AppErrors.CONFLICT('Minimum charge must not exceed the maximum charge')
+    }
+
+    const policy = await prisma.$transaction(async (tx) => {
+      const latest = await tx.feePolicy.findFirst({
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      })
+
+      return tx.feePolicy.create({
+        data: { ...input, version: (latest?.version ?? 0) + 1, createdBy }
+      })
+    })
+
+    return this.getPolicy(policy.id)
+  }
+
+  /**
+   * Delete a policy version that no match has been charged under
+   */
+  async deletePolicy(policyId: string): Promise<FeePolicySummary> {
+    const policy = await this.getPolicy(policyId)
+
+    if (policy.matchCount > 0) {
+      throw AppErrors.CONFLICT(`Fee policy v${policy.version} is used by ${policy.matchCount} matches`)
+    }
+
+    await prisma.feePolicy.delete({
+      where: { id: policyId }
+    })
+
+    return policy
+  }
+
+  /**
+   * The policy in force on the given date (latest effective version), if any
+   */
+  async findPolicyIdForDate(date: Date): Promise<string | null> {
+    const policy = await prisma.feePolicy.findFirst({
+      where: { effectiveFrom: { lte: date } },
+      orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+      select: { id: true }
+    })
+
+    return policy?.id ?? null
+  }
+
+  /**
+   * Which of the given players are charged as on trial in a match (they get the policy's trial
+   * discount): the status recorded with an existing participation, else the current status
+   */
+  async findTrialPlayerIds(
+    matchId: string | null,
+    playerIds: string[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<string[]> {
+    if (playerIds.length === 0) return []
+
+    const [players, participations] = await Promise.all([
+      client.user.findMany({
+        where: { id: { in: playerIds } },
+        select: { id: true, playerStatus: true }
+      }),
+      matchId
+        ? client.matchParticipation.findMany({
+            where: { matchId, userId: { in: playerIds } },
+            select: { userId: true, isTrialPlayer: true }
+          })
+        : Promise.resolve([])
+    ])
+
+    const recorded = new Map(participations.map(p => [p.userId, p.isTrialPlayer]))
+    return players
+      .filter(player => isTrialParticipant(recorded.get(player.id), player.playerStatus))
+      .map(player => player.id)
+  }
+}
+
+// Export singleton instance
+export const feePolicyService = new FeePolicyService()
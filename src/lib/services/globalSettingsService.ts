@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/prisma'
+import { DEFAULT_MATCH_FORMAT, isValidMatchFormat, type MatchFormat } from '@/lib/utils/matchFormat'
 
 export interface SystemConfigRecord {
   key: string
@@ -11,7 +12,10 @@ export interface SystemConfigRecord {
 // Default values for critical settings
 const DEFAULT_VALUES = {
   VIDEO_FEE_RATE: "2",
-  LATE_FEE_RATE: "10"
+  LATE_FEE_RATE: "10",
+  MATCH_SECTION_COUNT: String(DEFAULT_MATCH_FORMAT.sectionCount),
+  MATCH_PARTS_PER_SECTION: String(DEFAULT_MATCH_FORMAT.partsPerSection),
+  MATCH_PART_MINUTES: String(DEFAULT_MATCH_FORMAT.partMinutes)
 } as const
 
 export class GlobalSettingsService {
@@ -41,6 +45,7 @@ export class GlobalSettingsService {
     // Fallback to default values for critical settings
     if (key === 'VIDEO_FEE_RATE' || key === 'base_video_fee_rate') return DEFAULT_VALUES.VIDEO_FEE_RATE
     if (key === 'LATE_FEE_RATE' || key === 'base_late_fee_rate') return DEFAULT_VALUES.LATE_FEE_RATE
+    if (key in DEFAULT_VALUES) return DEFAULT_VALUES[key as keyof typeof DEFAULT_VALUES]
 
     throw new Error(`Global setting '${key}' not found and no default value available`)
   }
@@ -96,6 +101,21 @@ export class GlobalSettingsService {
     }
   }
 
+  /**
+   * Get the default match format for new matches
+   * Falls back to 3 sections × 3 parts × 10 minutes if the stored values are out of range
+   */
+  async getDefaultMatchFormat(): Promise<MatchFormat> {
+    const [sectionCount, partsPerSection, partMinutes] = await Promise.all([
+      this.getSettingAsNumber('MATCH_SECTION_COUNT'),
+      this.getSettingAsNumber('MATCH_PARTS_PER_SECTION'),
+      this.getSettingAsNumber('MATCH_PART_MINUTES')
+    ])
+
+    const format = { sectionCount, partsPerSection, partMinutes }
+    return isValidMatchFormat(format) ? format : DEFAULT_MATCH_FORMAT
+  }
+
   /**
    * Refresh cache from database if needed
    */
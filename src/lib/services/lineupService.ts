@@ -0,0 +1,242 @@
+/**
+ * Lineup Service
+ *
+ * Starting line-ups and substitutions per match (see utils/lineup.ts):
+ * - A line-up is saved as a whole: formation, starters with positions and timed substitutions
+ * - Everyone in it must be selected for the match
+ * - Saving a line-up regenerates the match's attendance grid from it, keeping late
+ *   arrivals and recorded events, so attendance is not entered twice; matches
+ *   without a line-up keep their hand-entered attendance
+ */
+
+import type { Position, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { createEmptyAttendance, toMatchFormat } from '@/lib/utils/matchFormat'
+import { toFeePolicyRules } from '@/lib/utils/feePolicy'
+import {
+  deriveAttendanceFromLineup,
+  validateLineup,
+  type LineupStarter,
+  type LineupSubstitution
+} from '@/lib/utils/lineup'
+import { attendanceService, type AttendancePlayerData } from './attendanceService'
+import { feePolicyService } from './feePolicyService'
+
+export interface LineupPlayerSummary {
+  id: string
+  name: string
+  jerseyNumber: number | null
+}
+
+export interface MatchLineup {
+  formation: string | null
+  starters: {
+    playerId: string
+    position: Position
+    player: LineupPlayerSummary
+  }[]
+  substitutions: {
+    id: string
+    section: number
+    minute: number
+    playerOutId: string
+    playerInId: string
+    position: Position | null
+    playerOut: LineupPlayerSummary
+    playerIn: LineupPlayerSummary
+  }[]
+}
+
+export interface LineupInput {
+  formation?: string | null
+  starters: LineupStarter[]
+  substitutions: LineupSubstitution[]
+}
+
+export interface LineupSaveResult {
+  lineup: MatchLineup
+  attendanceUpdated: boolean    // False when the line-up is empty and attendance was left alone
+}
+
+const playerSelect = { id: true, name: true, jerseyNumber: true } as const
+
+const lineupMatchInclude = {
+  feePolicy: true,
+  matchPlayers: { select: { playerId: true } },
+  participations: { select: { userId: true, isLateArrival: true } }
+} as const
+
+type LineupMatch = Prisma.MatchGetPayload<{ include: typeof lineupMatchInclude }>
+
+export class LineupService {
+  /**
+   * Formation, starters and substitutions of a match in play order
+   */
+  async getLineup(matchId: string): Promise<MatchLineup> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { formation: true }
+    })
+    if (!match) {
+      throw AppErrors.NOT_FOUND('Match not found')
+    }
+
+    const [starters, substitutions] = await Promise.all([
+      prisma.lineupPlayer.findMany({
+        where: { matchId },
+        select: { playerId: true, position: true, player: { select: playerSelect } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.substitution.findMany({
+        where: { matchId },
+        select: {
+          id: true,
+          section: true,
+          minute: true,
+          playerOutId: true,
+          playerInId: true,
+          position: true,
+          playerOut: { select: playerSelect },
+          playerIn: { select: playerSelect }
+        },
+        orderBy: [{ section: 'asc' }, { minute: 'asc' }, { createdAt: 'asc' }]
+      })
+    ])
+
+    return { formation: match.formation, starters, substitutions }
+  }
+
+  /**
+   * Replace a match's line-up and rebuild its attendance grid from it
+   */
+  async saveLineup(matchId: string, input: LineupInput): Promise<LineupSaveResult> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      include: lineupMatchInclude
+    })
+    if (!match) {
+      throw AppErrors.NOT_FOUND('Match not found')
+    }
+
+    const format = toMatchFormat(match)
+    const selected = new Set(match.matchPlayers.map(mp => mp.playerId))
+    const lineupPlayerIds = new Set([
+      ...input.starters.map(s => s.playerId),
+      ...input.substitutions.flatMap(s => [s.playerOutId, s.playerInId])
+    ])
+
+    const errors = validateLineup(input.starters, input.substitutions, format)
+    for (const playerId of lineupPlayerIds) {
+      if (!selected.has(playerId)) {
+        errors.push(`Player ${playerId} is not selected for this match`)
+      }
+    }
+    if (errors.length > 0) {
+      throw AppErrors.CONFLICT(errors.join('; '))
+    }
+
+    // The attendance it derives is checked before the line-up is written, so the two cannot disagree
+    const attendanceData = input.starters.length > 0 ? this.buildLineupAttendance(match, input) : null
+    if (attendanceData) {
+      const validation = await attendanceService.validateAttendanceData(
+        matchId,
+        attendanceData,
+        Array.from(selected),
+        format
+      )
+      if (!validation.isValid) {
+        throw AppErrors.CONFLICT(validation.errors.join('; '))
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.match.update({
+        where: { id: matchId },
+        data: { formation: input.formation || null }
+      })
+      await tx.lineupPlayer.deleteMany({ where: { matchId } })
+      await tx.substitution.deleteMany({ where: { matchId } })
+
+      if (input.starters.length > 0) {
+        await tx.lineupPlayer.createMany({
+          data: input.starters.map(starter => ({ matchId, ...starter }))
+        })
+      }
+      if (input.substitutions.length > 0) {
+        await tx.substitution.createMany({
+          data: input.substitutions.map(substitution => ({
+            matchId,
+            ...substitution,
+            position: substitution.position ?? null
+          }))
+        })
+      }
+    })
+
+    if (attendanceData) {
+      await this.applyLineupToAttendance(match, attendanceData)
+    }
+
+    return { lineup: await this.getLineup(matchId), attendanceUpdated: attendanceData !== null }
+  }
+
+  /**
+   * Attendance from the line-up for every selected player; late flags stay as recorded
+   */
+  private buildLineupAttendance(match: LineupMatch, input: LineupInput): AttendancePlayerData {
+    const format = toMatchFormat(match)
+    const derived = deriveAttendanceFromLineup(input.starters, input.substitutions, format)
+
+    const attendanceData: AttendancePlayerData = {}
+    for (const { playerId } of match.matchPlayers) {
+      attendanceData[playerId] = {
+        ...(derived[playerId] ?? createEmptyAttendance(format)),
+        isLateArrival: match.participations.find(p => p.userId === playerId)?.isLateArrival ?? false
+      }
+    }
+    return attendanceData
+  }
+
+  /**
+   * Replace the match's attendance with the line-up's, keeping recorded events
+   */
+  private async applyLineupToAttendance(match: LineupMatch, attendanceData: AttendancePlayerData) {
+    const matchId = match.id
+    const format = toMatchFormat(match)
+    const selectedPlayerIds = match.matchPlayers.map(mp => mp.playerId)
+
+    const events = await prisma.matchEvent.findMany({
+      where: { matchId },
+      select: { id: true, playerId: true, eventType: true, minute: true, goalEventId: true },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    await attendanceService.updateAttendance(
+      matchId,
+      {
+        attendanceData,
+        events: events.map(event => ({
+          id: event.id,
+          playerId: event.playerId,
+          eventType: event.eventType,
+          minute: event.minute ?? undefined,
+          goalEventId: event.goalEventId ?? undefined
+        }))
+      },
+      {
+        fieldFeeTotal: Math.ceil(Number(match.fieldFeeTotal)),
+        waterFeeTotal: Math.ceil(Number(match.waterFeeTotal)),
+        lateFeeRate: Math.ceil(Number(match.lateFeeRate)),
+        videoFeePerUnit: Math.ceil(Number(match.videoFeePerUnit)),
+        format,
+        feePolicy: toFeePolicyRules(match.feePolicy),
+        trialPlayerIds: await feePolicyService.findTrialPlayerIds(matchId, selectedPlayerIds)
+      },
+      selectedPlayerIds
+    )
+  }
+}
+
+// Export singleton instance
+export const lineupService = new LineupService()
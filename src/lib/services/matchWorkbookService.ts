@@ -0,0 +1,264 @@
+/**
+ * Match Workbook Service
+ *
+ * Exports a match as a versioned workbook (see matchWorkbook.ts) and imports
+ * such a workbook back as a new match:
+ * - Attendance, goalkeeper and late flags, stored fees, fee overrides and all
+ *   event types are carried over as-is; fees are not recalculated
+ * - Rates and format come from the workbook; season and fee policy follow the match date
+ * - Players are matched by shortId, then by remembered alias; unknown players are skipped
+ */
+
+import { randomUUID } from 'crypto'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { MATCH_WORKBOOK_VERSION, type MatchWorkbook } from '@/lib/matchWorkbook'
+import { calculateCoefficient } from '@/lib/utils/coefficient'
+import { createEmptyAttendance, getFormatSlots, getCoefficientUnits, toMatchFormat } from '@/lib/utils/matchFormat'
+import { sanitizeAssistLinks } from '@/lib/utils/assistLinks'
+import { seasonService } from './seasonService'
+import { feePolicyService } from './feePolicyService'
+import { opponentService } from './opponentService'
+import { excelImportService, type ImportedMatch } from './excelImportService'
+
+export interface WorkbookImportResult {
+  imported: ImportedMatch
+  unknownPlayers: string[]
+}
+
+type DecimalLike = { toString(): string } | null
+
+const toNumber = (value: DecimalLike) => (value === null ? 0 : Number(value.toString()))
+const toNullableNumber = (value: DecimalLike) => (value === null ? null : Number(value.toString()))
+
+interface StoredAttendance {
+  attendance?: Record<string, Record<string, number>>
+  goalkeeper?: Record<string, Record<string, boolean>>
+}
+
+const playerSelect = { select: { name: true, shortId: true } } as const
+
+export class MatchWorkbookService {
+  /**
+   * A match as a versioned workbook, values exactly as stored
+   */
+  async exportMatch(matchId: string): Promise<MatchWorkbook> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        participations: { include: { user: playerSelect }, orderBy: { createdAt: 'asc' } },
+        events: { include: { player: playerSelect }, orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] },
+        feeOverrides: true
+      }
+    })
+
+    if (!match) {
+      throw AppErrors.NOT_FOUND(`Match ${matchId} not found`)
+    }
+
+    const format = toMatchFormat(match)
+    const slots = getFormatSlots(format)
+
+    return {
+      version: MATCH_WORKBOOK_VERSION,
+      matchDate: match.matchDate.toISOString().slice(0, 10),
+      matchTime: match.matchTime ? match.matchTime.toISOString() : '',
+      opponentTeam: match.opponentTeam,
+      ourScore: match.ourScore,
+      opponentScore: match.opponentScore,
+      fieldFeeTotal: toNumber(match.fieldFeeTotal),
+      waterFeeTotal: toNumber(match.waterFeeTotal),
+      lateFeeRate: toNumber(match.lateFeeRate),
+      videoFeePerUnit: toNumber(match.videoFeePerUnit),
+      format,
+      notes: match.notes ?? '',
+      players: match.participations.map(participation => {
+        const { attendance = {}, goalkeeper = {} } = (participation.attendanceData ?? {}) as StoredAttendance
+        const override = match.feeOverrides.find(o => o.playerId === participation.userId)
+
+        return {
+          shortId: participation.user.shortId ?? '',
+          name: participation.user.name,
+          parts: slots.map(({ section, part }) => Number(attendance[section]?.[part]) || 0),
+          goalkeeper: slots.map(({ section, part }) => !!goalkeeper[section]?.[part]),
+          isLateArrival: participation.isLateArrival,
+          totalTime: toNumber(participation.totalTime),
+          fieldFee: toNumber(participation.fieldFeeCalculated),
+          lateFee: toNumber(participation.lateFee),
+          videoFee: toNumber(participation.videoFee),
+          totalFee: toNumber(participation.totalFeeCalculated),
+          override: override
+            ? {
+              fieldFee: toNullableNumber(override.fieldFeeOverride),
+              videoFee: toNullableNumber(override.videoFeeOverride),
+              lateFee: toNullableNumber(override.lateFeeOverride),
+              notes: override.notes ?? '',
+              collectedTotal: override.isCollectedTotal
+            }
+            : null
+        }
+      }),
+      events: match.events.map(event => {
+        const goalIndex = event.goalEventId ? match.events.findIndex(e => e.id === event.goalEventId) : -1
+        return {
+          shortId: event.player.shortId ?? '',
+          name: event.player.name,
+          eventType: event.eventType,
+          minute: event.minute,
+          description: event.description ?? '',
+          goalEvent: goalIndex >= 0 ? goalIndex + 1 : null
+        }
+      })
+    }
+  }
+
+  /**
+   * Create a match from a versioned workbook in one transaction
+   */
+  async importWorkbook(workbook: MatchWorkbook, createdBy: string): Promise<WorkbookImportResult> {
+    const players = [
+      ...workbook.players.map(p => ({ shortId: p.shortId, name: p.name })),
+      ...workbook.events.map(e => ({ shortId: e.shortId, name: e.name }))
+    ]
+    const users = await excelImportService.findUsers(players)
+    const playerUsers = users.slice(0, workbook.players.length)
+    const eventUsers = users.slice(workbook.players.length)
+
+    if (!playerUsers.some(Boolean)) {
+      throw AppErrors.CONFLICT('No players matched. Please ensure at least some players have correct shortIds.')
+    }
+
+    const unknownPlayers = Array.from(new Set(
+      players.filter((_, index) => !users[index]).map(p => p.shortId || p.name)
+    ))
+
+    const matchDate = new Date(`${workbook.matchDate}T00:00:00Z`)
+    const [{ seasonId }, feePolicyId] = await Promise.all([
+      seasonService.getMatchDefaults(matchDate),
+      feePolicyService.findPolicyIdForDate(matchDate)
+    ])
+    const { format } = workbook
+    const slots = getFormatSlots(format)
+
+    const imported = await prisma.$transaction(async (tx) => {
+      const match = await tx.match.create({
+        data: {
+          matchDate,
+          matchTime: workbook.matchTime ? new Date(workbook.matchTime) : null,
+          seasonId,
+          feePolicyId,
+          opponentTeam: workbook.opponentTeam,
+          opponentId: await opponentService.resolveOpponentId(workbook.opponentTeam, tx),
+          ourScore: workbook.ourScore,
+          opponentScore: workbook.opponentScore,
+          fieldFeeTotal: workbook.fieldFeeTotal,
+          waterFeeTotal: workbook.waterFeeTotal,
+          lateFeeRate: workbook.lateFeeRate,
+          videoFeePerUnit: workbook.videoFeePerUnit,
+          ...format,
+          notes: workbook.notes || null,
+          createdBy
+        },
+        include: { feePolicy: true }
+      })
+
+      const participants = workbook.players.flatMap((player, index) => {
+        const user = playerUsers[index]
+        return user ? [{ player, userId: user.id }] : []
+      })
+      const selectedPlayerIds = Array.from(new Set(participants.map(p => p.userId)))
+      // The workbook's fees are taken as they are; trial status is recorded as it stands now
+      const trialPlayerIds = await feePolicyService.findTrialPlayerIds(null, selectedPlayerIds, tx)
+
+      if (selectedPlayerIds.length > 0) {
+        await tx.matchPlayer.createMany({
+          data: selectedPlayerIds.map(playerId => ({ matchId: match.id, playerId }))
+        })
+      }
+
+      for (const { player, userId } of participants) {
+        const { attendance, goalkeeper } = createEmptyAttendance(format)
+        slots.forEach(({ section, part }, index) => {
+          attendance[section][part] = player.parts[index] ?? 0
+          goalkeeper[section][part] = player.goalkeeper[index] ?? false
+        })
+
+        await tx.matchParticipation.create({
+          data: {
+            userId,
+            matchId: match.id,
+            attendanceData: { attendance, goalkeeper, isLateArrival: player.isLateArrival },
+            isLateArrival: player.isLateArrival,
+            totalTime: player.totalTime,
+            fieldFeeCalculated: player.fieldFee,
+            lateFee: player.lateFee,
+            videoFee: player.videoFee,
+            totalFeeCalculated: player.totalFee,
+            isTrialPlayer: trialPlayerIds.includes(userId)
+          }
+        })
+
+        if (player.override) {
+          await tx.feeOverride.create({
+            data: {
+              matchId: match.id,
+              playerId: userId,
+              fieldFeeOverride: player.override.fieldFee,
+              videoFeeOverride: player.override.videoFee,
+              lateFeeOverride: player.override.lateFee,
+              notes: player.override.notes || null,
+              isCollectedTotal: player.override.collectedTotal
+            }
+          })
+        }
+      }
+
+      // Ids are assigned up front so an assist can reference its goal in the same insert,
+      // and creation times a millisecond apart keep the workbook order for the export
+      const eventIds = workbook.events.map(() => randomUUID())
+      const insertedAt = Date.now()
+      const events: Prisma.MatchEventCreateManyInput[] = sanitizeAssistLinks(
+        workbook.events.flatMap((event, index) => {
+          const user = eventUsers[index]
+          return user
+            ? [{
+              id: eventIds[index],
+              matchId: match.id,
+              playerId: user.id,
+              eventType: event.eventType,
+              minute: event.minute,
+              description: event.description || null,
+              goalEventId: event.goalEvent ? eventIds[event.goalEvent - 1] ?? null : null,
+              createdAt: new Date(insertedAt + index),
+              createdBy
+            }]
+            : []
+        })
+      )
+
+      if (events.length > 0) {
+        await tx.matchEvent.createMany({ data: events })
+      }
+
+      return {
+        match,
+        selectedPlayerIds,
+        participations: participants.length,
+        goals: events.filter(e => e.eventType === 'GOAL' || e.eventType === 'PENALTY_GOAL').length,
+        assists: events.filter(e => e.eventType === 'ASSIST').length,
+        coefficient: calculateCoefficient(
+          workbook.fieldFeeTotal,
+          workbook.waterFeeTotal,
+          getCoefficientUnits(format),
+          format
+        )
+      }
+    })
+
+    return { imported, unknownPlayers }
+  }
+}
+
+// Export singleton instance
+export const matchWorkbookService = new MatchWorkbookService()
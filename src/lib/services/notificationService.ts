@@ -0,0 +1,274 @@
+/**
+ * Notification Service
+ *
+ * Emails players about club activity through the configured mail transport:
+ * - Match created / date, time or opponent changed
+ * - Finalized fee breakdown for a match
+ * - Outstanding balance reminders
+ * - Account emails (password set, claim decisions), which cannot be opted out of
+ *
+ * Players opt out per category from their profile. Each call reports how
+ * many emails were sent, skipped and failed; the hooks called from match,
+ * password and claim routes never throw, so a mail outage can't fail them.
+ * Match routes don't wait for the hooks before responding.
+ */
+
+import type { NotificationCategory } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { getMailTransport, type MailTransport } from '@/lib/mailer'
+import {
+  balanceReminderEmail,
+  claimDecisionEmail,
+  feeBreakdownEmail,
+  matchChangedEmail,
+  matchCreatedEmail,
+  passwordSetEmail,
+  type EmailContent,
+  type MatchSummary
+} from '@/lib/emailTemplates'
+import { feeCalculationService } from './feeCalculationService'
+import { paymentService } from './paymentService'
+
+export interface NotificationResult {
+  sent: number
+  skipped: number
+  failed: number
+}
+
+export interface NotificationPreferences {
+  email: string | null
+  optOuts: NotificationCategory[]
+}
+
+interface Recipient {
+  id: string
+  name: string
+  email: string | null
+}
+
+const matchSummarySelect = {
+  id: true,
+  matchDate: true,
+  matchTime: true,
+  opponentTeam: true
+} as const
+
+// Players who should hear about a category: has an email, not deleted, not opted out
+const subscribedWhere = (category: NotificationCategory) => ({
+  deletedAt: null,
+  email: { not: null },
+  NOT: { emailOptOuts: { has: category } }
+})
+
+const emptyResult = (): NotificationResult => ({ sent: 0, skipped: 0, failed: 0 })
+
+export class NotificationService {
+  constructor(private readonly transport?: MailTransport) {}
+
+  /**
+   * Email every active player about a newly scheduled match (not results entered after the fact)
+   */
+  async notifyMatchCreated(matchId: string): Promise<NotificationResult> {
+    try {
+      const match = await prisma.match.findUnique({
+        where: { id: matchId },
+        select: { ...matchSummarySelect, ourScore: true, opponentScore: true }
+      })
+      if (!match || (match.ourScore !== null && match.opponentScore !== null)) return emptyResult()
+
+      const recipients = await prisma.user.findMany({
+        where: {
+          ...subscribedWhere('MATCH_UPDATES'),
+          userType: 'PLAYER',
+          playerStatus: { not: 'VACATION' }
+        },
+        select: { id: true, name: true, email: true }
+      })
+
+      return this.deliver(recipients.map(user => ({
+        recipient: user,
+        content: matchCreatedEmail(user.name, match)
+      })))
+    } catch (error) {
+      console.error('Error sending match created notifications:', error)
+      return emptyResult()
+    }
+  }
+
+  /**
+   * Email players involved in a match when its date, time or opponent changes
+   */
+  async notifyMatchChanged(before: MatchSummary, after: MatchSummary): Promise<NotificationResult> {
+    const changed =
+      before.opponentTeam !== after.opponentTeam ||
+      before.matchDate.getTime() !== after.matchDate.getTime() ||
+      (before.matchTime?.getTime() ?? null) !== (after.matchTime?.getTime() ?? null)
+
+    if (!changed) return emptyResult()
+
+    try {
+      const recipients = await prisma.user.findMany({
+        where: {
+          ...subscribedWhere('MATCH_UPDATES'),
+          OR: [
+            { matchPlayers: { some: { matchId: after.id } } },
+            { participations: { some: { matchId: after.id } } },
+            { rsvps: { some: { matchId: after.id, response: { not: 'NO' } } } }
+          ]
+        },
+        select: { id: true, name: true, email: true }
+      })
+
+      return this.deliver(recipients.map(user => ({
+        recipient: user,
+        content: matchChangedEmail(user.name, before, after)
+      })))
+    } catch (error) {
+      console.error('Error sending match changed notifications:', error)
+      return emptyResult()
+    }
+  }
+
+  /**
+   * Email each participant their final fees for a match
+   */
+  async sendFeeBreakdowns(matchId: string): Promise<NotificationResult> {
+    const match = await prisma.match.findUnique({ where: { id: matchId }, select: matchSummarySelect })
+    if (!match) {
+      throw AppErrors.NOT_FOUND(`Match ${matchId} not found`)
+    }
+
+    const breakdown = await feeCalculationService.getFeeBreakdown(matchId)
+    const users = await this.findSubscribed('FEE_BREAKDOWNS', breakdown.players.map(p => p.playerId))
+
+    return this.deliver(breakdown.players.map(fees => ({
+      recipient: users.get(fees.playerId) ?? null,
+      content: feeBreakdownEmail(match, fees)
+    })))
+  }
+
+  /**
+   * Remind players with an outstanding balance (optionally only the given players)
+   */
+  async sendBalanceReminders(playerIds?: string[]): Promise<NotificationResult> {
+    const balances = (await paymentService.getPlayerBalances(playerIds))
+      .filter(balance => balance.outstanding > 0)
+    const users = await this.findSubscribed('BALANCE_REMINDERS', balances.map(b => b.playerId))
+
+    return this.deliver(balances.map(balance => ({
+      recipient: users.get(balance.playerId) ?? null,
+      content: balanceReminderEmail(balance)
+    })))
+  }
+
+  /**
+   * Tell a player an admin has set their password
+   */
+  async notifyPasswordSet(userId: string): Promise<NotificationResult> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, name: true, email: true }
+      })
+      if (!user) return emptyResult()
+
+      return this.deliver([{ recipient: user, content: passwordSetEmail(user.name) }])
+    } catch (error) {
+      console.error('Error sending password set notification:', error)
+      return emptyResult()
+    }
+  }
+
+  /**
+   * Tell a claimant whether their ghost account claim was approved
+   */
+  async notifyClaimDecision(
+    claim: { id: string; claimantName: string; email: string },
+    approved: boolean,
+    reason?: string | null
+  ): Promise<NotificationResult> {
+    try {
+      return await this.deliver([{
+        recipient: { id: claim.id, name: claim.claimantName, email: claim.email },
+        content: claimDecisionEmail(claim.claimantName, approved, reason)
+      }])
+    } catch (error) {
+      console.error('Error sending claim decision notification:', error)
+      return emptyResult()
+    }
+  }
+
+  /**
+   * Email address and opted-out categories for a user
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, emailOptOuts: true }
+    })
+
+    if (!user) {
+      throw AppErrors.NOT_FOUND(`User ${userId} not found`)
+    }
+
+    return { email: user.email, optOuts: user.emailOptOuts }
+  }
+
+  /**
+   * Replace a user's opted-out categories
+   */
+  async updatePreferences(userId: string, optOuts: NotificationCategory[]): Promise<NotificationPreferences> {
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { emailOptOuts: { set: Array.from(new Set(optOuts)) } },
+      select: { email: true, emailOptOuts: true }
+    })
+
+    return { email: user.email, optOuts: user.emailOptOuts }
+  }
+
+  /**
+   * Subscribed users among the given ids, keyed by id
+   */
+  private async findSubscribed(category: NotificationCategory, userIds: string[]): Promise<Map<string, Recipient>> {
+    if (userIds.length === 0) return new Map()
+
+    const users = await prisma.user.findMany({
+      where: { ...subscribedWhere(category), id: { in: userIds } },
+      select: { id: true, name: true, email: true }
+    })
+
+    return new Map(users.map(user => [user.id, user]))
+  }
+
+  /**
+   * Send all messages at once, counting recipients without an email as skipped
+   */
+  private async deliver(
+    messages: { recipient: Recipient | null; content: EmailContent }[]
+  ): Promise<NotificationResult> {
+    const transport = this.transport ?? getMailTransport()
+    const result = emptyResult()
+
+    await Promise.all(messages.map(async ({ recipient, content }) => {
+      if (!recipient?.email) {
+        result.skipped++
+        return
+      }
+
+      try {
+        await transport.send({ to: recipient.email, ...content })
+        result.sent++
+      } catch (error) {
+        console.error(`Error sending email to ${recipient.email}:`, error)
+        result.failed++
+      }
+    }))
+
+    return result
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService()
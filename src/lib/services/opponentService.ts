@@ -0,0 +1,241 @@
+/**
+ * Opponent Service
+ *
+ * Registry of the teams we play, so spellings of one club count as one opponent:
+ * - Every match links to an opponent resolved from its opponent name; names that only
+ *   differ in spacing, case or full-width characters ("雷霆FC", "雷霆 fc") share an alias
+ * - Admins merge opponents entered under different names; the aliases move along,
+ *   so later matches with either name link to the merged opponent
+ * - Head-to-head: W/D/L record, goals for/against and our top scorers against an opponent
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+
+export interface OpponentSummary {
+  id: string
+  name: string
+  aliases: string[]
+  matchCount: number
+}
+
+export interface HeadToHeadRecord {
+  played: number        // Matches with both scores recorded
+  wins: number
+  draws: number
+  losses: number
+  goalsFor: number
+  goalsAgainst: number
+}
+
+export interface HeadToHeadScorer {
+  playerId: string
+  name: string
+  goals: number
+}
+
+export interface HeadToHeadMatch {
+  id: string
+  matchDate: Date
+  opponentTeam: string
+  ourScore: number | null
+  opponentScore: number | null
+}
+
+export interface HeadToHead {
+  opponent: OpponentSummary
+  record: HeadToHeadRecord
+  topScorers: HeadToHeadScorer[]
+  matches: HeadToHeadMatch[]    // Newest first
+}
+
+export interface OpponentMergeResult {
+  source: OpponentSummary     // As it was before being merged away
+  target: OpponentSummary
+}
+
+export interface OpponentLinkResult {
+  linkedMatches: number
+  createdOpponents: number
+}
+
+type OpponentClient = Prisma.TransactionClient | typeof prisma
+
+const GOAL_EVENT_TYPES = ['GOAL', 'PENALTY_GOAL'] as const
+
+const TOP_SCORER_LIMIT = 5
+
+/**
+ * Name as used for alias lookups: full-width characters folded (NFKC), whitespace dropped, lowercase
+ */
+export const normalizeOpponentName = (name: string) =>
+  name.normalize('NFKC').replace(/\s+/g, '').toLowerCase()
+
+const opponentInclude = {
+  aliases: { select: { alias: true }, orderBy: { alias: 'asc' } },
+  _count: { select: { matches: true } }
+} as const
+
+const toOpponentSummary = (opponent: {
+  id: string
+  name: string
+  aliases: { alias: string }[]
+  _count: { matches: number }
+}): OpponentSummary => ({
+  id: opponent.id,
+  name: opponent.name,
+  aliases: opponent.aliases.map(a => a.alias),
+  matchCount: opponent._count.matches
+})
+
+export class OpponentService {
+  /**
+   * All opponents, most played first
+   */
+  async getOpponents(): Promise<OpponentSummary[]> {
+    const opponents = await prisma.opponent.findMany({
+      include: opponentInclude,
+      orderBy: [{ matches: { _count: 'desc' } }, { name: 'asc' }]
+    })
+    return opponents.map(toOpponentSummary)
+  }
+
+  /**
+   * Opponent id for a match's opponent name, registering a new opponent for an unknown name
+   */
+  async resolveOpponentId(name: string, client: OpponentClient = prisma): Promise<string> {
+    const alias = normalizeOpponentName(name)
+    const existing = await client.opponentAlias.findUnique({
+      where: { alias },
+      select: { opponentId: true }
+    })
+    if (existing) {
+      return existing.opponentId
+    }
+
+    const opponent = await client.opponent.create({
+      data: {
+        name: name.trim(),
+        aliases: { create: { alias } }
+      },
+      select: { id: true }
+    })
+    return opponent.id
+  }
+
+  /**
+   * Link every match without an opponent, grouping names by alias
+   */
+  async linkUnassignedMatches(): Promise<OpponentLinkResult> {
+    const matches = await prisma.match.findMany({
+      where: { opponentId: null },
+      select: { id: true, opponentTeam: true },
+      orderBy: { matchDate: 'asc' }
+    })
+
+    // The earliest spelling of a name becomes the opponent's display name
+    const groups = new Map<string, { name: string; matchIds: string[] }>()
+    for (const match of matches) {
+      const alias = normalizeOpponentName(match.opponentTeam)
+      if (!alias) continue
+      const group = groups.get(alias) ?? { name: match.opponentTeam, matchIds: [] }
+      group.matchIds.push(match.id)
+      groups.set(alias, group)
+    }
+
+    const before = await prisma.opponent.count()
+    let linkedMatches = 0
+    for (const { name, matchIds } of groups.values()) {
+      const opponentId = await this.resolveOpponentId(name)
+      const { count } = await prisma.match.updateMany({
+        where: { id: { in: matchIds } },
+        data: { opponentId }
+      })
+      linkedMatches += count
+    }
+
+    return { linkedMatches, createdOpponents: (await prisma.opponent.count()) - before }
+  }
+
+  /**
+   * Move the source opponent's matches and aliases to the target and remove the source
+   */
+  async mergeOpponents(sourceId: string, targetId: string): Promise<OpponentMergeResult> {
+    if (sourceId === targetId) {
+      throw AppErrors.CONFLICT('Cannot merge an opponent into itself')
+    }
+
+    const source = await prisma.opponent.findUnique({ where: { id: sourceId }, include: opponentInclude })
+    const targetExists = await prisma.opponent.count({ where: { id: targetId } })
+    if (!source || targetExists === 0) {
+      throw AppErrors.NOT_FOUND('Opponent not found')
+    }
+
+    const target = await prisma.$transaction(async (tx) => {
+      await tx.match.updateMany({ where: { opponentId: sourceId }, data: { opponentId: targetId } })
+      await tx.opponentAlias.updateMany({ where: { opponentId: sourceId }, data: { opponentId: targetId } })
+      await tx.opponent.delete({ where: { id: sourceId } })
+
+      return tx.opponent.findUniqueOrThrow({ where: { id: targetId }, include: opponentInclude })
+    })
+
+    return { source: toOpponentSummary(source), target: toOpponentSummary(target) }
+  }
+
+  /**
+   * Record, goals and top scorers across every match against an opponent
+   */
+  async getHeadToHead(opponentId: string): Promise<HeadToHead> {
+    const opponent = await prisma.opponent.findUnique({
+      where: { id: opponentId },
+      include: opponentInclude
+    })
+    if (!opponent) {
+      throw AppErrors.NOT_FOUND('Opponent not found')
+    }
+
+    const [matches, goals] = await Promise.all([
+      prisma.match.findMany({
+        where: { opponentId },
+        select: { id: true, matchDate: true, opponentTeam: true, ourScore: true, opponentScore: true },
+        orderBy: { matchDate: 'desc' }
+      }),
+      prisma.matchEvent.findMany({
+        where: { match: { opponentId }, eventType: { in: [...GOAL_EVENT_TYPES] } },
+        select: { playerId: true, player: { select: { name: true } } }
+      })
+    ])
+
+    const record: HeadToHeadRecord = { played: 0, wins: 0, draws: 0, losses: 0, goalsFor: 0, goalsAgainst: 0 }
+    for (const match of matches) {
+      if (match.ourScore === null || match.opponentScore === null) continue
+      record.played++
+      record.goalsFor += match.ourScore
+      record.goalsAgainst += match.opponentScore
+      if (match.ourScore > match.opponentScore) record.wins++
+      else if (match.ourScore < match.opponentScore) record.losses++
+      else record.draws++
+    }
+
+    const scorers = new Map<string, HeadToHeadScorer>()
+    for (const goal of goals) {
+      const scorer = scorers.get(goal.playerId) ?? { playerId: goal.playerId, name: goal.player.name, goals: 0 }
+      scorer.goals++
+      scorers.set(goal.playerId, scorer)
+    }
+    const topScorers = Array.from(scorers.values())
+      .sort((a, b) => b.goals - a.goals || a.name.localeCompare(b.name, 'zh-CN'))
+      .slice(0, TOP_SCORER_LIMIT)
+
+    return {
+      opponent: toOpponentSummary(opponent),
+      record,
+      topScorers,
+      matches
+    }
+  }
+}
+
+// Export singleton instance
+export const opponentService = new OpponentService()
@@ -0,0 +1,383 @@
+/**
+ * Payment Ledger Service
+ *
+ * Tracks what players have actually paid against their final match fees:
+ * - Record partial and full payments per match
+ * - Derive paid / partial / unpaid status from final fees
+ * - Roll up each player's outstanding balance across matches; payments for a
+ *   deleted match stay paid and count against what the player still owes
+ */
+
+import { Prisma, type PaymentMethod } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+const roundFee = (value: number) => Math.round(value)
+
+export type PaymentStatus = 'PAID' | 'PARTIAL' | 'UNPAID'
+
+export interface RecordPaymentInput {
+  playerId: string
+  amount: number
+  method?: PaymentMethod
+  paidBy?: string | null
+  paidAt?: Date
+  notes?: string | null
+}
+
+export interface PaymentRecord {
+  id: string
+  matchId: string | null
+  playerId: string
+  amount: number
+  method: PaymentMethod
+  paidBy: string | null
+  paidAt: Date
+  notes: string | null
+  createdAt: Date
+  createdBy: string
+}
+
+export interface PlayerPaymentStatus {
+  playerId: string
+  playerName: string
+  amountDue: number
+  amountPaid: number
+  outstanding: number
+  status: PaymentStatus
+  payments: PaymentRecord[]
+}
+
+export interface MatchPaymentSummary {
+  matchId: string
+  totalDue: number
+  totalPaid: number
+  totalOutstanding: number
+  paidCount: number
+  partialCount: number
+  unpaidCount: number
+  players: PlayerPaymentStatus[]
+}
+
+export interface PlayerBalance {
+  playerId: string
+  playerName: string
+  matchCount: number
+  totalDue: number
+  totalPaid: number
+  outstanding: number
+  unpaidMatches: {
+    matchId: string
+    matchDate: Date
+    opponentTeam: string
+    amountDue: number
+    amountPaid: number
+    outstanding: number
+  }[]
+}
+
+type DecimalLike = Prisma.Decimal | number | null | undefined
+
+interface FeeSource {
+  fieldFeeCalculated: DecimalLike
+  videoFee: DecimalLike
+  lateFee: DecimalLike
+}
+
+interface OverrideSource {
+  fieldFeeOverride: DecimalLike
+  videoFeeOverride: DecimalLike
+  lateFeeOverride: DecimalLike
+  isCollectedTotal?: boolean
+}
+
+const toOptionalNumber = (value: DecimalLike) => {
+  if (value === null || value === undefined) return null
+  return Number(value)
+}
+
+export interface FinalFees {
+  fieldFee: number
+  videoFee: number
+  lateFee: number
+  totalFee: number
+}
+
+/**
+ * Resolve the final fee components a player owes for a match.
+ *
+ * Overrides take precedence per component. Excel imports store the actual
+ * collected fee as a fieldFeeOverride marked isCollectedTotal, which is the
+ * whole amount rather than just the field fee.
+ */
+export function resolveFinalFees(participation: FeeSource, override?: OverrideSource | null): FinalFees {
+  const calculatedField = roundFee(Number(participation.fieldFeeCalculated ?? 0))
+  const calculatedVideo = roundFee(Number(participation.videoFee ?? 0))
+  const calculatedLate = roundFee(Number(participation.lateFee ?? 0))
+
+  const fieldOverride = toOptionalNumber(override?.fieldFeeOverride)
+  const videoOverride = toOptionalNumber(override?.videoFeeOverride)
+  const lateOverride = toOptionalNumber(override?.lateFeeOverride)
+
+  if (override?.isCollectedTotal && fieldOverride !== null) {
+    const total = roundFee(fieldOverride)
+    return { fieldFee: total, videoFee: 0, lateFee: 0, totalFee: total }
+  }
+
+  const fieldFee = fieldOverride !== null ? roundFee(fieldOverride) : calculatedField
+  const videoFee = videoOverride !== null ? roundFee(videoOverride) : calculatedVideo
+  const lateFee = lateOverride !== null ? roundFee(lateOverride) : calculatedLate
+
+  return { fieldFee, videoFee, lateFee, totalFee: fieldFee + videoFee + lateFee }
+}
+
+/**
+ * Resolve the final fee a player owes for a match
+ */
+export function resolveAmountDue(participation: FeeSource, override?: OverrideSource | null): number {
+  return resolveFinalFees(participation, override).totalFee
+}
+
+export function getPaymentStatus(amountDue: number, amountPaid: number): PaymentStatus {
+  if (amountPaid >= amountDue) return 'PAID'
+  if (amountPaid > 0) return 'PARTIAL'
+  return 'UNPAID'
+}
+
+const toPaymentRecord = (payment: {
+  id: string
+  matchId: string | null
+  playerId: string
+  amount: Prisma.Decimal
+  method: PaymentMethod
+  paidBy: string | null
+  paidAt: Date
+  notes: string | null
+  createdAt: Date
+  createdBy: string
+}): PaymentRecord => ({
+  ...payment,
+  amount: Number(payment.amount)
+})
+
+export class PaymentService {
+  /**
+   * Get every participant's payment status for a match
+   */
+  async getMatchPayments(matchId: string): Promise<MatchPaymentSummary> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId }
+    })
+
+    if (!match) {
+      throw new Error(`Match ${matchId} not found`)
+    }
+
+    const [participations, overrides, payments] = await Promise.all([
+      prisma.matchParticipation.findMany({
+        where: { matchId },
+        include: {
+          user: {
+            select: { id: true, name: true }
+          }
+        }
+      }),
+      prisma.feeOverride.findMany({
+        where: { matchId }
+      }),
+      prisma.payment.findMany({
+        where: { matchId },
+        orderBy: { paidAt: 'asc' }
+      })
+    ])
+
+    const overrideMap = new Map(overrides.map(o => [o.playerId, o]))
+    const paymentMap = new Map<string, PaymentRecord[]>()
+    for (const payment of payments) {
+      const list = paymentMap.get(payment.playerId) ?? []
+      list.push(toPaymentRecord(payment))
+      paymentMap.set(payment.playerId, list)
+    }
+
+    const players: PlayerPaymentStatus[] = participations.map(participation => {
+      const playerPayments = paymentMap.get(participation.userId) ?? []
+      const amountDue = resolveAmountDue(participation, overrideMap.get(participation.userId))
+      const amountPaid = playerPayments.reduce((sum, p) => sum + p.amount, 0)
+
+      return {
+        playerId: participation.userId,
+        playerName: participation.user.name,
+        amountDue,
+        amountPaid,
+        outstanding: Math.max(amountDue - amountPaid, 0),
+        status: getPaymentStatus(amountDue, amountPaid),
+        payments: playerPayments
+      }
+    })
+
+    return {
+      matchId,
+      totalDue: players.reduce((sum, p) => sum + p.amountDue, 0),
+      totalPaid: players.reduce((sum, p) => sum + p.amountPaid, 0),
+      totalOutstanding: players.reduce((sum, p) => sum + p.outstanding, 0),
+      paidCount: players.filter(p => p.status === 'PAID').length,
+      partialCount: players.filter(p => p.status === 'PARTIAL').length,
+      unpaidCount: players.filter(p => p.status === 'UNPAID').length,
+      players
+    }
+  }
+
+  /**
+   * Record a payment from a player against a match
+   */
+  async recordPayment(
+    matchId: string,
+    input: RecordPaymentInput,
+    createdBy: string
+  ): Promise<PaymentRecord> {
+    if (!(input.amount > 0)) {
+      throw new Error('Payment amount must be greater than zero')
+    }
+
+    const participation = await prisma.matchParticipation.findUnique({
+      where: {
+        userId_matchId: {
+          userId: input.playerId,
+          matchId
+        }
+      }
+    })
+
+    if (!participation) {
+      throw new Error(`Player ${input.playerId} has no participation record for match ${matchId}`)
+    }
+
+    const payment = await prisma.payment.create({
+      data: {
+        matchId,
+        playerId: input.playerId,
+        amount: roundFee(input.amount),
+        method: input.method,
+        paidBy: input.paidBy || null,
+        paidAt: input.paidAt ?? new Date(),
+        notes: input.notes || null,
+        createdBy
+      }
+    })
+
+    return toPaymentRecord(payment)
+  }
+
+  /**
+   * Delete a payment that was recorded by mistake
+   */
+  async deletePayment(matchId: string, paymentId: string): Promise<PaymentRecord> {
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, matchId }
+    })
+
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found for match ${matchId}`)
+    }
+
+    await prisma.payment.delete({
+      where: { id: paymentId }
+    })
+
+    return toPaymentRecord(payment)
+  }
+
+  /**
+   * Roll up outstanding balances across all matches for the given players
+   * (or every player with a participation when no ids are given)
+   */
+  async getPlayerBalances(playerIds?: string[]): Promise<PlayerBalance[]> {
+    const playerFilter = playerIds && playerIds.length > 0 ? { in: playerIds } : undefined
+
+    const [participations, overrides, payments] = await Promise.all([
+      prisma.matchParticipation.findMany({
+        where: playerFilter ? { userId: playerFilter } : {},
+        include: {
+          user: {
+            select: { id: true, name: true }
+          },
+          match: {
+            select: { id: true, matchDate: true, opponentTeam: true }
+          }
+        },
+        orderBy: { match: { matchDate: 'asc' } }
+      }),
+      prisma.feeOverride.findMany({
+        where: playerFilter ? { playerId: playerFilter } : {}
+      }),
+      prisma.payment.groupBy({
+        by: ['playerId', 'matchId'],
+        where: playerFilter ? { playerId: playerFilter } : {},
+        _sum: { amount: true }
+      })
+    ])
+
+    const overrideMap = new Map(overrides.map(o => [`${o.playerId}:${o.matchId}`, o]))
+    const paidMap = new Map(
+      payments.map(p => [`${p.playerId}:${p.matchId}`, Number(p._sum.amount ?? 0)])
+    )
+
+    const balances = new Map<string, PlayerBalance>()
+    const getBalance = (playerId: string, playerName: string): PlayerBalance => balances.get(playerId) ?? {
+      playerId,
+      playerName,
+      matchCount: 0,
+      totalDue: 0,
+      totalPaid: 0,
+      outstanding: 0,
+      unpaidMatches: []
+    }
+
+    for (const participation of participations) {
+      const key = `${participation.userId}:${participation.matchId}`
+      const amountDue = resolveAmountDue(participation, overrideMap.get(key))
+      const amountPaid = paidMap.get(key) ?? 0
+
+      const balance = getBalance(participation.userId, participation.user.name)
+
+      balance.matchCount += 1
+      balance.totalDue += amountDue
+      balance.totalPaid += amountPaid
+
+      if (amountPaid < amountDue) {
+        balance.outstanding += amountDue - amountPaid
+        balance.unpaidMatches.push({
+          matchId: participation.matchId,
+          matchDate: participation.match.matchDate,
+          opponentTeam: participation.match.opponentTeam,
+          amountDue,
+          amountPaid,
+          outstanding: amountDue - amountPaid
+        })
+      }
+
+      balances.set(participation.userId, balance)
+    }
+
+    // Payments whose match was deleted have nothing left to settle
+    const detached = payments.filter(p => p.matchId === null)
+    if (detached.length > 0) {
+      const names = await prisma.user.findMany({
+        where: { id: { in: detached.map(p => p.playerId) } },
+        select: { id: true, name: true }
+      })
+
+      for (const payment of detached) {
+        const amountPaid = Number(payment._sum.amount ?? 0)
+        const balance = getBalance(payment.playerId, names.find(u => u.id === payment.playerId)?.name ?? 'Unknown Player')
+        balance.totalPaid += amountPaid
+        balance.outstanding = Math.max(balance.outstanding - amountPaid, 0)
+        balances.set(payment.playerId, balance)
+      }
+    }
+
+    return Array.from(balances.values()).sort((a, b) => b.outstanding - a.outstanding)
+  }
+}
+
+// Export singleton instance
+export const paymentService = new PaymentService()
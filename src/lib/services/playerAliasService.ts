@@ -0,0 +1,214 @@
+/**
+ * Player Alias Service
+ *
+ * Resolves sheet players the Excel import could not match by shortId:
+ * - Suggests existing players by shortId, name similarity, known aliases and pinyin initials
+ * - Admins map each unknown name to an existing player or create a GHOST player for it
+ * - Every resolution is remembered as an alias, so later imports match the name directly
+ */
+
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { generateNumberedShortId } from '@/lib/shortIdUtils'
+import { normalizePlayerName, suggestPlayers, type PlayerSuggestion } from '@/lib/utils/playerMatching'
+
+export interface PlayerAliasRecord {
+  id: string
+  alias: string
+  userId: string
+  userName: string
+  createdAt: Date
+}
+
+export interface UnresolvedPlayer {
+  excelName: string
+  shortId: string
+  sheets: string[]
+  suggestions: PlayerSuggestion[]
+}
+
+export interface UnknownPlayerReport {
+  unresolved: UnresolvedPlayer[]
+  players: { id: string; name: string; shortId: string | null }[]   // every active player, for manual mapping
+}
+
+export interface AliasResolution {
+  excelName: string
+  action: 'MAP' | 'CREATE_GHOST'
+  userId?: string
+}
+
+export interface ResolutionResult {
+  aliases: PlayerAliasRecord[]
+  createdUsers: { id: string; name: string; shortId: string }[]
+}
+
+const aliasInclude = {
+  user: { select: { name: true } }
+} as const
+
+const toPlayerAliasRecord = (alias: {
+  id: string
+  alias: string
+  userId: string
+  createdAt: Date
+  user: { name: string }
+}): PlayerAliasRecord => ({
+  id: alias.id,
+  alias: alias.alias,
+  userId: alias.userId,
+  userName: alias.user.name,
+  createdAt: alias.createdAt
+})
+
+// Sheet names carry notes like (试训); the ghost player gets the plain name
+const toGhostName = (excelName: string) =>
+  excelName.replace(/[（(][^）)]*[）)]/g, '').trim()
+
+const isTrialName = (excelName: string) => /[（(]试训[）)]/.test(excelName)
+
+export class PlayerAliasService {
+  /**
+   * All remembered aliases, alphabetically
+   */
+  async getAliases(): Promise<PlayerAliasRecord[]> {
+    const aliases = await prisma.playerAlias.findMany({
+      include: aliasInclude,
+      orderBy: { alias: 'asc' }
+    })
+
+    return aliases.map(toPlayerAliasRecord)
+  }
+
+  /**
+   * Players known under the given sheet names, keyed by normalized name
+   */
+  async findUsersByAlias(names: string[]): Promise<Map<string, { id: string; name: string }>> {
+    const aliases = await prisma.playerAlias.findMany({
+      where: { alias: { in: names.map(normalizePlayerName).filter(Boolean) } },
+      include: { user: { select: { id: true, name: true } } }
+    })
+
+    return new Map(aliases.map(a => [a.alias, a.user]))
+  }
+
+  /**
+   * Suggestions for each distinct unmatched sheet player
+   */
+  async suggest(players: { name: string; shortId: string; sheetName: string }[]): Promise<UnknownPlayerReport> {
+    const users = await prisma.user.findMany({
+      where: { deletedAt: null },
+      select: { id: true, name: true, shortId: true, aliases: { select: { alias: true } } },
+      orderBy: { name: 'asc' }
+    })
+    const candidates = users.map(user => ({
+      id: user.id,
+      name: user.name,
+      shortId: user.shortId,
+      aliases: user.aliases.map(a => a.alias)
+    }))
+
+    const unresolved = new Map<string, UnresolvedPlayer>()
+    for (const player of players) {
+      const key = normalizePlayerName(player.name)
+      const existing = unresolved.get(key)
+      if (existing) {
+        if (!existing.sheets.includes(player.sheetName)) existing.sheets.push(player.sheetName)
+        continue
+      }
+
+      unresolved.set(key, {
+        excelName: player.name,
+        shortId: player.shortId,
+        sheets: [player.sheetName],
+        suggestions: suggestPlayers({ name: player.name, shortId: player.shortId }, candidates)
+      })
+    }
+
+    return {
+      unresolved: Array.from(unresolved.values()),
+      players: users.map(({ id, name, shortId }) => ({ id, name, shortId }))
+    }
+  }
+
+  /**
+   * Map unknown names to existing players or new GHOST players, remembering each as an alias
+   */
+  async resolve(resolutions: AliasResolution[], createdBy: string): Promise<ResolutionResult> {
+    return prisma.$transaction(async (tx) => {
+      const existingShortIds = (await tx.user.findMany({
+        where: { shortId: { not: null } },
+        select: { shortId: true }
+      })).map(u => u.shortId!)
+
+      const aliases: PlayerAliasRecord[] = []
+      const createdUsers: ResolutionResult['createdUsers'] = []
+
+      for (const resolution of resolutions) {
+        const alias = normalizePlayerName(resolution.excelName)
+        if (!alias) {
+          throw AppErrors.CONFLICT(`"${resolution.excelName}" is not a usable player name`)
+        }
+
+        let userId = resolution.userId
+        if (resolution.action === 'CREATE_GHOST') {
+          const name = toGhostName(resolution.excelName)
+          const shortId = generateNumberedShortId(name, existingShortIds)
+          existingShortIds.push(shortId)
+
+          const user = await tx.user.create({
+            data: {
+              name,
+              shortId,
+              userType: 'PLAYER',
+              accountStatus: 'GHOST',
+              playerStatus: isTrialName(resolution.excelName) ? 'TRIAL' : 'REGULAR',
+              createdBy
+            },
+            select: { id: true, name: true, shortId: true }
+          })
+          createdUsers.push({ id: user.id, name: user.name, shortId })
+          userId = user.id
+        } else {
+          const user = userId
+            ? await tx.user.findFirst({ where: { id: userId, deletedAt: null }, select: { id: true } })
+            : null
+          if (!user) {
+            throw AppErrors.NOT_FOUND(`User ${userId} not found`)
+          }
+        }
+
+        const record = await tx.playerAlias.upsert({
+          where: { alias },
+          create: { alias, userId: userId!, createdBy },
+          update: { userId: userId!, createdBy },
+          include: aliasInclude
+        })
+        aliases.push(toPlayerAliasRecord(record))
+      }
+
+      return { aliases, createdUsers }
+    })
+  }
+
+  /**
+   * Forget an alias; later imports no longer match the name
+   */
+  async deleteAlias(aliasId: string): Promise<PlayerAliasRecord> {
+    const alias = await prisma.playerAlias.findUnique({
+      where: { id: aliasId },
+      include: aliasInclude
+    })
+
+    if (!alias) {
+      throw AppErrors.NOT_FOUND(`Player alias ${aliasId} not found`)
+    }
+
+    await prisma.playerAlias.delete({ where: { id: aliasId } })
+
+    return toPlayerAliasRecord(alias)
+  }
+}
+
+// Export singleton instance
+export const playerAliasService = new PlayerAliasService()
@@ -0,0 +1,399 @@
+/**
+ * Player Merge Service
+ *
+ * Consolidates duplicate player accounts (e.g. from Excel imports or ghost creation):
+ * - Preview what would move and which matches both accounts appear in
+ * - Move participations, events, selections, line-up places, RSVPs, fee overrides, payments and comments
+ * - Resolve per-match collisions by keeping one side's records
+ * - Soft-delete the source account afterwards
+ */
+
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { feeCalculationService } from './feeCalculationService'
+
+// Which account's records win for a match both accounts appear in
+export type MergeResolution = 'KEEP_TARGET' | 'KEEP_SOURCE'
+
+export interface MergeParticipationSummary {
+  totalTime: number
+  totalFee: number
+  eventCount: number
+  hasFeeOverride: boolean
+}
+
+export interface MergeConflict {
+  matchId: string
+  matchDate: Date
+  opponentTeam: string
+  source: MergeParticipationSummary | null
+  target: MergeParticipationSummary | null
+}
+
+export interface MergeCounts {
+  participations: number
+  events: number
+  matchPlayers: number
+  feeOverrides: number
+  payments: number
+  comments: number
+}
+
+export interface MergePreview {
+  source: MergeUserSummary
+  target: MergeUserSummary
+  moves: MergeCounts
+  conflicts: MergeConflict[]
+  transfersCredentials: boolean
+}
+
+export interface MergeUserSummary {
+  id: string
+  name: string
+  shortId: string | null
+  jerseyNumber: number | null
+  accountStatus: string
+}
+
+export interface MergeResult {
+  sourceId: string
+  targetId: string
+  moved: MergeCounts
+  discarded: MergeCounts
+  recalculatedMatches: string[]
+}
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  shortId: true,
+  jerseyNumber: true,
+  accountStatus: true,
+  email: true,
+  phone: true,
+  passwordHash: true,
+  userType: true,
+  deletedAt: true
+} as const
+
+const emptyCounts = (): MergeCounts => ({
+  participations: 0,
+  events: 0,
+  matchPlayers: 0,
+  feeOverrides: 0,
+  payments: 0,
+  comments: 0
+})
+
+const toUserSummary = (user: MergeUserSummary): MergeUserSummary => ({
+  id: user.id,
+  name: user.name,
+  shortId: user.shortId,
+  jerseyNumber: user.jerseyNumber,
+  accountStatus: user.accountStatus
+})
+
+export class PlayerMergeService {
+  /**
+   * Show what a merge would move and which matches collide, without changing anything
+   */
+  async previewMerge(sourceId: string, targetId: string): Promise<MergePreview> {
+    const { source, target } = await this.getMergePair(sourceId, targetId)
+
+    const [
+      sourceParticipations,
+      targetParticipations,
+      events,
+      matchPlayers,
+      feeOverrides,
+      payments,
+      comments
+    ] = await Promise.all([
+      prisma.matchParticipation.findMany({
+        where: { userId: sourceId },
+        select: { matchId: true }
+      }),
+      prisma.matchParticipation.findMany({
+        where: { userId: targetId },
+        select: { matchId: true }
+      }),
+      prisma.matchEvent.count({ where: { playerId: sourceId } }),
+      prisma.matchPlayer.count({ where: { playerId: sourceId } }),
+      prisma.feeOverride.count({ where: { playerId: sourceId } }),
+      prisma.payment.count({ where: { playerId: sourceId } }),
+      prisma.comment.count({ where: { userId: sourceId } })
+    ])
+
+    const targetMatchIds = new Set(targetParticipations.map(p => p.matchId))
+    const conflictMatchIds = sourceParticipations
+      .map(p => p.matchId)
+      .filter(matchId => targetMatchIds.has(matchId))
+
+    return {
+      source: toUserSummary(source),
+      target: toUserSummary(target),
+      moves: {
+        participations: sourceParticipations.length,
+        events,
+        matchPlayers,
+        feeOverrides,
+        payments,
+        comments
+      },
+      conflicts: await this.getConflicts(sourceId, targetId, conflictMatchIds),
+      transfersCredentials: this.shouldTransferCredentials(source, target)
+    }
+  }
+
+  /**
+   * Merge source into target. Conflicting matches default to keeping the target's records.
+   */
+  async mergePlayers(
+    sourceId: string,
+    targetId: string,
+    resolutions: Record<string, MergeResolution>,
+    mergedBy: string
+  ): Promise<MergeResult> {
+    const { source, target } = await this.getMergePair(sourceId, targetId)
+    const transfersCredentials = this.shouldTransferCredentials(source, target)
+
+    const result = await prisma.$transaction(async (tx) => {
+      const moved = emptyCounts()
+      const discarded = emptyCounts()
+
+      const [sourceParticipations, targetParticipations] = await Promise.all([
+        tx.matchParticipation.findMany({ where: { userId: sourceId }, select: { matchId: true } }),
+        tx.matchParticipation.findMany({ where: { userId: targetId }, select: { matchId: true } })
+      ])
+
+      const targetMatchIds = new Set(targetParticipations.map(p => p.matchId))
+      const conflictMatchIds = sourceParticipations
+        .map(p => p.matchId)
+        .filter(matchId => targetMatchIds.has(matchId))
+
+      // Drop the losing side's per-match records so the unique constraints hold
+      for (const matchId of conflictMatchIds) {
+        const loserId = resolutions[matchId] === 'KEEP_SOURCE' ? targetId : sourceId
+
+        discarded.participations += (await tx.matchParticipation.deleteMany({
+          where: { matchId, userId: loserId }
+        })).count
+        discarded.events += (await tx.matchEvent.deleteMany({
+          where: { matchId, playerId: loserId }
+        })).count
+        discarded.feeOverrides += (await tx.feeOverride.deleteMany({
+          where: { matchId, playerId: loserId }
+        })).count
+      }
+
+      // Both accounts selected for the same match: the target's selection already covers it
+      const targetSelections = await tx.matchPlayer.findMany({
+        where: { playerId: targetId },
+        select: { matchId: true }
+      })
+      discarded.matchPlayers += (await tx.matchPlayer.deleteMany({
+        where: { playerId: sourceId, matchId: { in: targetSelections.map(s => s.matchId) } }
+      })).count
+
+      // Fee overrides can exist without attendance; the target's override wins unless the source was kept
+      const targetOverrides = await tx.feeOverride.findMany({
+        where: { playerId: targetId },
+        select: { matchId: true }
+      })
+      discarded.feeOverrides += (await tx.feeOverride.deleteMany({
+        where: { playerId: sourceId, matchId: { in: targetOverrides.map(o => o.matchId) } }
+      })).count
+
+      moved.participations = (await tx.matchParticipation.updateMany({
+        where: { userId: sourceId },
+        data: { userId: targetId }
+      })).count
+      moved.events = (await tx.matchEvent.updateMany({
+        where: { playerId: sourceId },
+        data: { playerId: targetId }
+      })).count
+      moved.matchPlayers = (await tx.matchPlayer.updateMany({
+        where: { playerId: sourceId },
+        data: { playerId: targetId }
+      })).count
+      moved.feeOverrides = (await tx.feeOverride.updateMany({
+        where: { playerId: sourceId },
+        data: { playerId: targetId }
+      })).count
+      moved.payments = (await tx.payment.updateMany({
+        where: { playerId: sourceId },
+        data: { playerId: targetId }
+      })).count
+      moved.comments = (await tx.comment.updateMany({
+        where: { userId: sourceId },
+        data: { userId: targetId }
+      })).count
+
+      // Nobody can claim an account that no longer exists
+      await tx.claimRequest.updateMany({
+        where: { ghostUserId: sourceId, status: 'PENDING' },
+        data: {
+          status: 'REJECTED',
+          reviewedBy: mergedBy,
+          reviewedAt: new Date(),
+          rejectionReason: `账户已合并到 ${target.name}`
+        }
+      })
+
+      // Line-ups list a player once; where both accounts are in one, the target's place stays
+      const targetLineups = await tx.lineupPlayer.findMany({
+        where: { playerId: targetId },
+        select: { matchId: true }
+      })
+      await tx.lineupPlayer.deleteMany({
+        where: { playerId: sourceId, matchId: { in: targetLineups.map(l => l.matchId) } }
+      })
+      await tx.lineupPlayer.updateMany({
+        where: { playerId: sourceId },
+        data: { playerId: targetId }
+      })
+      await tx.substitution.updateMany({
+        where: { playerOutId: sourceId },
+        data: { playerOutId: targetId }
+      })
+      await tx.substitution.updateMany({
+        where: { playerInId: sourceId },
+        data: { playerInId: targetId }
+      })
+
+      // One answer per player and match; where both accounts answered, the target's answer stays
+      const targetRsvps = await tx.matchRsvp.findMany({
+        where: { playerId: targetId },
+        select: { matchId: true }
+      })
+      await tx.matchRsvp.deleteMany({
+        where: { playerId: sourceId, matchId: { in: targetRsvps.map(r => r.matchId) } }
+      })
+      await tx.matchRsvp.updateMany({
+        where: { playerId: sourceId },
+        data: { playerId: targetId }
+      })
+
+      // Import aliases keep resolving to the surviving player
+      await tx.playerAlias.updateMany({
+        where: { userId: sourceId },
+        data: { userId: targetId }
+      })
+
+      // Unique email/phone must leave the source before the target can take them
+      await tx.user.update({
+        where: { id: sourceId },
+        data: {
+          deletedAt: new Date(),
+          deletedBy: mergedBy,
+          deletionReason: `合并到 ${target.name} (${targetId})`,
+          ...(transfersCredentials && { email: null, phone: null, passwordHash: null })
+        }
+      })
+
+      if (transfersCredentials) {
+        await tx.user.update({
+          where: { id: targetId },
+          data: {
+            email: source.email,
+            phone: target.phone ?? source.phone,
+            passwordHash: source.passwordHash,
+            accountStatus: 'CLAIMED'
+          }
+        })
+      }
+
+      return { sourceId, targetId, moved, discarded, recalculatedMatches: conflictMatchIds }
+    })
+
+    // Dropping a duplicate participation changes everyone's share of the field fee
+    for (const matchId of result.recalculatedMatches) {
+      await feeCalculationService.recalculateAllFees(matchId)
+    }
+
+    return result
+  }
+
+  private async getMergePair(sourceId: string, targetId: string) {
+    if (sourceId === targetId) {
+      throw AppErrors.CONFLICT('Cannot merge a player into itself')
+    }
+
+    const [source, target] = await Promise.all([
+      prisma.user.findUnique({ where: { id: sourceId }, select: userSummarySelect }),
+      prisma.user.findUnique({ where: { id: targetId }, select: userSummarySelect })
+    ])
+
+    if (!source || source.deletedAt) {
+      throw AppErrors.NOT_FOUND(`Source player ${sourceId} not found`)
+    }
+
+    if (!target || target.deletedAt) {
+      throw AppErrors.NOT_FOUND(`Target player ${targetId} not found`)
+    }
+
+    if (source.userType === 'ADMIN') {
+      throw AppErrors.FORBIDDEN('Admin accounts cannot be merged away')
+    }
+
+    return { source, target }
+  }
+
+  // A registered duplicate merged into the ghost that holds the history keeps its login
+  private shouldTransferCredentials(
+    source: { accountStatus: string; passwordHash: string | null; email: string | null },
+    target: { accountStatus: string; passwordHash: string | null; email: string | null }
+  ): boolean {
+    return source.accountStatus === 'CLAIMED' &&
+      !!source.passwordHash &&
+      !target.passwordHash &&
+      !target.email
+  }
+
+  private async getConflicts(sourceId: string, targetId: string, matchIds: string[]): Promise<MergeConflict[]> {
+    if (matchIds.length === 0) return []
+
+    const [matches, participations, events, overrides] = await Promise.all([
+      prisma.match.findMany({
+        where: { id: { in: matchIds } },
+        select: { id: true, matchDate: true, opponentTeam: true },
+        orderBy: { matchDate: 'desc' }
+      }),
+      prisma.matchParticipation.findMany({
+        where: { matchId: { in: matchIds }, userId: { in: [sourceId, targetId] } },
+        select: { matchId: true, userId: true, totalTime: true, totalFeeCalculated: true }
+      }),
+      prisma.matchEvent.findMany({
+        where: { matchId: { in: matchIds }, playerId: { in: [sourceId, targetId] } },
+        select: { matchId: true, playerId: true }
+      }),
+      prisma.feeOverride.findMany({
+        where: { matchId: { in: matchIds }, playerId: { in: [sourceId, targetId] } },
+        select: { matchId: true, playerId: true }
+      })
+    ])
+
+    const summarize = (matchId: string, userId: string): MergeParticipationSummary | null => {
+      const participation = participations.find(p => p.matchId === matchId && p.userId === userId)
+      if (!participation) return null
+
+      return {
+        totalTime: Number(participation.totalTime),
+        totalFee: Number(participation.totalFeeCalculated),
+        eventCount: events.filter(e => e.matchId === matchId && e.playerId === userId).length,
+        hasFeeOverride: overrides.some(o => o.matchId === matchId && o.playerId === userId)
+      }
+    }
+
+    return matches.map(match => ({
+      matchId: match.id,
+      matchDate: match.matchDate,
+      opponentTeam: match.opponentTeam,
+      source: summarize(match.id, sourceId),
+      target: summarize(match.id, targetId)
+    }))
+  }
+}
+
+// Export singleton instance
+export const playerMergeService = new PlayerMergeService()
@@ -0,0 +1,171 @@
+/**
+ * Player Metrics Service
+ *
+ * Loads matches with their attendance, events and conceded goals and derives the
+ * per-player metrics in utils/playerMetrics: per-90 rates, plus/minus, clean sheets,
+ * goalkeeping figures and the rolling form index. Used by the player page, the player
+ * stats endpoint, the goalkeeper leaderboard and the match goalkeeper view.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { isGoalEvent } from '@/lib/utils/assistLinks'
+import { toMatchFormat } from '@/lib/utils/matchFormat'
+import {
+  getPlayerMatchMetrics,
+  getPlayerMetrics,
+  getSavePercentage,
+  type MatchGoalTimeline,
+  type PlayerMatchInput,
+  type PlayerMetrics
+} from '@/lib/utils/playerMetrics'
+
+export interface MatchGoalkeeper {
+  player: { id: string; name: string }
+  partsInGoal: number
+  goalsConceded: number
+  saves: number
+  savePercentage: number | null
+  cleanSheet: boolean
+  cleanSheetSections: number
+}
+
+const metricsMatchSelect = {
+  id: true,
+  matchDate: true,
+  matchResult: true,
+  ourScore: true,
+  opponentScore: true,
+  sectionCount: true,
+  partsPerSection: true,
+  partMinutes: true,
+  participations: { select: { userId: true, attendanceData: true } },
+  events: { select: { playerId: true, eventType: true, minute: true } },
+  concededGoals: { select: { minute: true } }
+} as const
+
+type MetricsMatch = Prisma.MatchGetPayload<{ select: typeof metricsMatchSelect }>
+
+const goalkeeperMatchSelect = {
+  ...metricsMatchSelect,
+  participations: {
+    select: { userId: true, attendanceData: true, user: { select: { id: true, name: true } } }
+  }
+} as const
+
+/**
+ * Minutes of the goals scored and conceded in a match, where known
+ */
+const getGoalTimeline = (match: MetricsMatch): MatchGoalTimeline => {
+  const timed = (events: MetricsMatch['events']) =>
+    events.flatMap(event => event.minute === null ? [] : [event.minute])
+
+  return {
+    goalsFor: timed(match.events.filter(event => isGoalEvent(event.eventType))),
+    goalsAgainst: [
+      ...match.concededGoals.map(goal => goal.minute),
+      ...timed(match.events.filter(event => event.eventType === 'OWN_GOAL'))
+    ]
+  }
+}
+
+/**
+ * One participant's input to the metrics of a match
+ */
+const getMatchInput = (
+  match: MetricsMatch,
+  participation: MetricsMatch['participations'][number],
+  timeline: MatchGoalTimeline
+): PlayerMatchInput => {
+  const own = match.events.filter(event => event.playerId === participation.userId)
+
+  return {
+    matchId: match.id,
+    matchDate: match.matchDate,
+    format: toMatchFormat(match),
+    matchResult: match.matchResult,
+    ourScore: match.ourScore,
+    opponentScore: match.opponentScore,
+    attendanceData: participation.attendanceData,
+    goals: own.filter(event => isGoalEvent(event.eventType)).length,
+    assists: own.filter(event => event.eventType === 'ASSIST').length,
+    saves: own.filter(event => event.eventType === 'SAVE').length,
+    timeline
+  }
+}
+
+export class PlayerMetricsService {
+  /**
+   * Metrics of everyone who appeared in the matching matches, keyed by player id
+   */
+  async getMetricsByPlayer(
+    matchWhere: Prisma.MatchWhereInput,
+    playerIds?: string[]
+  ): Promise<Map<string, PlayerMetrics>> {
+    const matches = await prisma.match.findMany({
+      where: {
+        ...matchWhere,
+        ...(playerIds && { participations: { some: { userId: { in: playerIds } } } })
+      },
+      select: metricsMatchSelect
+    })
+
+    const inputs = new Map<string, PlayerMatchInput[]>()
+    for (const match of matches) {
+      const timeline = getGoalTimeline(match)
+
+      for (const participation of match.participations) {
+        if (playerIds && !playerIds.includes(participation.userId)) continue
+
+        const list = inputs.get(participation.userId) ?? []
+        list.push(getMatchInput(match, participation, timeline))
+        inputs.set(participation.userId, list)
+      }
+    }
+
+    return new Map(Array.from(inputs, ([playerId, list]) => [playerId, getPlayerMetrics(list)]))
+  }
+
+  /**
+   * Metrics of one player over the matching matches
+   */
+  async getPlayerMetrics(playerId: string, matchWhere: Prisma.MatchWhereInput): Promise<PlayerMetrics> {
+    const metrics = await this.getMetricsByPlayer(matchWhere, [playerId])
+    return metrics.get(playerId) ?? getPlayerMetrics([])
+  }
+
+  /**
+   * Goalkeeping figures of everyone who kept goal in a match, in order of parts in goal
+   */
+  async getMatchGoalkeepers(matchId: string): Promise<MatchGoalkeeper[]> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: goalkeeperMatchSelect
+    })
+
+    if (!match) {
+      throw AppErrors.NOT_FOUND('Match not found')
+    }
+
+    const timeline = getGoalTimeline(match)
+    return match.participations
+      .map(participation => {
+        const metrics = getPlayerMatchMetrics(getMatchInput(match, participation, timeline))
+        return {
+          player: participation.user,
+          partsInGoal: metrics.partsInGoal,
+          goalsConceded: metrics.goalsConcededInGoal,
+          saves: metrics.saves,
+          savePercentage: getSavePercentage(metrics.saves, metrics.goalsConcededInGoal),
+          cleanSheet: metrics.cleanSheet,
+          cleanSheetSections: metrics.cleanSheetSections
+        }
+      })
+      .filter(keeper => keeper.partsInGoal > 0)
+      .sort((a, b) => b.partsInGoal - a.partsInGoal)
+  }
+}
+
+// Export singleton instance
+export const playerMetricsService = new PlayerMetricsService()
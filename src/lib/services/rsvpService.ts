@@ -0,0 +1,136 @@
+/**
+ * RSVP Service
+ *
+ * Pre-match availability polling for upcoming matches:
+ * - Players answer yes/no/maybe (one answer per player per match)
+ * - Summaries and response lists for admins
+ * - "Yes" answers can pre-select the match roster
+ */
+
+import type { RsvpResponse } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+
+export interface RsvpCounts {
+  yes: number
+  no: number
+  maybe: number
+  total: number
+}
+
+export interface MatchRsvpEntry {
+  playerId: string
+  response: RsvpResponse
+  note: string | null
+  updatedAt: Date
+  player: {
+    id: string
+    name: string
+    jerseyNumber: number | null
+  }
+}
+
+export interface MatchRsvpSummary {
+  matchId: string
+  counts: RsvpCounts
+  responses: MatchRsvpEntry[]
+}
+
+const rsvpSelect = {
+  playerId: true,
+  response: true,
+  note: true,
+  updatedAt: true,
+  player: {
+    select: { id: true, name: true, jerseyNumber: true }
+  }
+} as const
+
+const countResponses = (responses: { response: RsvpResponse }[]): RsvpCounts => ({
+  yes: responses.filter(r => r.response === 'YES').length,
+  no: responses.filter(r => r.response === 'NO').length,
+  maybe: responses.filter(r => r.response === 'MAYBE').length,
+  total: responses.length
+})
+
+// Same rule as the /api/games status: a match is over once both scores are in
+const isUpcoming = (match: { ourScore: number | null; opponentScore: number | null }) =>
+  match.ourScore === null || match.opponentScore === null
+
+export class RsvpService {
+  /**
+   * Counts and answers for one match, "yes" first
+   */
+  async getMatchRsvps(matchId: string): Promise<MatchRsvpSummary> {
+    const responses = await prisma.matchRsvp.findMany({
+      where: { matchId, player: { deletedAt: null } },
+      select: rsvpSelect,
+      orderBy: [{ response: 'asc' }, { updatedAt: 'asc' }]
+    })
+
+    return {
+      matchId,
+      counts: countResponses(responses),
+      responses
+    }
+  }
+
+  /**
+   * Summaries for every upcoming match (admin overview)
+   */
+  async getUpcomingRsvps(): Promise<MatchRsvpSummary[]> {
+    const matches = await prisma.match.findMany({
+      where: {
+        OR: [{ ourScore: null }, { opponentScore: null }]
+      },
+      select: {
+        id: true,
+        rsvps: {
+          where: { player: { deletedAt: null } },
+          select: rsvpSelect,
+          orderBy: [{ response: 'asc' }, { updatedAt: 'asc' }]
+        }
+      },
+      orderBy: { matchDate: 'asc' }
+    })
+
+    return matches.map(match => ({
+      matchId: match.id,
+      counts: countResponses(match.rsvps),
+      responses: match.rsvps
+    }))
+  }
+
+  /**
+   * Record or change a player's answer; only open while the match is upcoming
+   */
+  async respond(
+    matchId: string,
+    playerId: string,
+    response: RsvpResponse,
+    note?: string | null
+  ): Promise<MatchRsvpEntry> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { id: true, ourScore: true, opponentScore: true }
+    })
+
+    if (!match) {
+      throw AppErrors.NOT_FOUND(`Match ${matchId} not found`)
+    }
+
+    if (!isUpcoming(match)) {
+      throw AppErrors.CONFLICT('RSVP is closed for finished matches')
+    }
+
+    return prisma.matchRsvp.upsert({
+      where: { matchId_playerId: { matchId, playerId } },
+      create: { matchId, playerId, response, note: note ?? null },
+      update: { response, note: note ?? null },
+      select: rsvpSelect
+    })
+  }
+}
+
+// Export singleton instance
+export const rsvpService = new RsvpService()
@@ -0,0 +1,234 @@
+/**
+ * Season Service
+ *
+ * Seasons group matches into club years that may cross calendar boundaries:
+ * - Create/update/delete seasons with non-overlapping date ranges
+ * - Keep Match.seasonId in sync with each season's date range
+ * - Provide season default fee rates for newly created matches
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { globalSettingsService } from './globalSettingsService'
+
+export interface SeasonInput {
+  name: string
+  startDate: Date
+  endDate: Date
+  fieldFeeTotal?: number | null
+  waterFeeTotal?: number | null
+  lateFeeRate?: number | null
+  videoFeePerUnit?: number | null
+}
+
+export interface SeasonSummary {
+  id: string
+  name: string
+  startDate: Date
+  endDate: Date
+  fieldFeeTotal: number | null
+  waterFeeTotal: number | null
+  lateFeeRate: number | null
+  videoFeePerUnit: number | null
+  matchCount: number
+  isCurrent: boolean
+}
+
+export interface MatchDefaults {
+  seasonId: string | null
+  fieldFeeTotal: number | null
+  waterFeeTotal: number | null
+  lateFeeRate: number
+  videoFeePerUnit: number
+}
+
+type DecimalLike = { toString(): string } | null
+
+const toNumber = (value: DecimalLike) => value === null ? null : Number(value)
+
+const toSeasonSummary = (season: {
+  id: string
+  name: string
+  startDate: Date
+  endDate: Date
+  fieldFeeTotal: DecimalLike
+  waterFeeTotal: DecimalLike
+  lateFeeRate: DecimalLike
+  videoFeePerUnit: DecimalLike
+  _count: { matches: number }
+}, now = new Date()): SeasonSummary => ({
+  id: season.id,
+  name: season.name,
+  startDate: season.startDate,
+  endDate: season.endDate,
+  fieldFeeTotal: toNumber(season.fieldFeeTotal),
+  waterFeeTotal: toNumber(season.waterFeeTotal),
+  lateFeeRate: toNumber(season.lateFeeRate),
+  videoFeePerUnit: toNumber(season.videoFeePerUnit),
+  matchCount: season._count.matches,
+  isCurrent: season.startDate <= now && now <= season.endDate
+})
+
+const matchCountInclude = {
+  _count: { select: { matches: true } }
+} as const
+
+export class SeasonService {
+  /**
+   * All seasons, newest first
+   */
+  async getSeasons(): Promise<SeasonSummary[]> {
+    const seasons = await prisma.season.findMany({
+      include: matchCountInclude,
+      orderBy: { startDate: 'desc' }
+    })
+
+    const now = new Date()
+    return seasons.map(season => toSeasonSummary(season, now))
+  }
+
+  /**
+   * Get a single season
+   */
+  async getSeason(seasonId: string): Promise<SeasonSummary> {
+    const season = await prisma.season.findUnique({
+      where: { id: seasonId },
+      include: matchCountInclude
+    })
+
+    if (!season) {
+      throw AppErrors.NOT_FOUND(`Season ${seasonId} not found`)
+    }
+
+    return toSeasonSummary(season)
+  }
+
+  /**
+   * Create a season and attach the matches inside its date range
+   */
+  async createSeason(input: SeasonInput, createdBy: string): Promise<SeasonSummary> {
+    await this.assertValidRange(input)
+
+    const season = await prisma.$transaction(async (tx) => {
+      const created = await tx.season.create({
+        data: { ...input, createdBy }
+      })
+
+      await this.syncMatches(tx, created)
+      return created
+    })
+
+    return this.getSeason(season.id)
+  }
+
+  /**
+   * Update a season and re-sync which matches belong to it
+   */
+  async updateSeason(seasonId: string, input: SeasonInput): Promise<SeasonSummary> {
+    await this.getSeason(seasonId)
+    await this.assertValidRange(input, seasonId)
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.season.update({
+        where: { id: seasonId },
+        data: input
+      })
+
+      await this.syncMatches(tx, updated)
+    })
+
+    return this.getSeason(seasonId)
+  }
+
+  /**
+   * Delete a season; its matches simply become season-less
+   */
+  async deleteSeason(seasonId: string): Promise<SeasonSummary> {
+    const season = await this.getSeason(seasonId)
+
+    await prisma.season.delete({
+      where: { id: seasonId }
+    })
+
+    return season
+  }
+
+  /**
+   * The season whose date range contains the given date
+   */
+  async findSeasonIdForDate(date: Date): Promise<string | null> {
+    const season = await prisma.season.findFirst({
+      where: {
+        startDate: { lte: date },
+        endDate: { gte: date }
+      },
+      select: { id: true }
+    })
+
+    return season?.id ?? null
+  }
+
+  /**
+   * Season and fee rates for a new match: season defaults first, then system settings
+   */
+  async getMatchDefaults(matchDate: Date): Promise<MatchDefaults> {
+    const [season, baseRates] = await Promise.all([
+      prisma.season.findFirst({
+        where: {
+          startDate: { lte: matchDate },
+          endDate: { gte: matchDate }
+        }
+      }),
+      globalSettingsService.getBaseFeeRates()
+    ])
+
+    return {
+      seasonId: season?.id ?? null,
+      fieldFeeTotal: toNumber(season?.fieldFeeTotal ?? null),
+      waterFeeTotal: toNumber(season?.waterFeeTotal ?? null),
+      lateFeeRate: toNumber(season?.lateFeeRate ?? null) ?? baseRates.baseLateFeeRate,
+      videoFeePerUnit: toNumber(season?.videoFeePerUnit ?? null) ?? baseRates.baseVideoFeeRate
+    }
+  }
+
+  private async assertValidRange(input: SeasonInput, excludeId?: string) {
+    if (input.startDate > input.endDate) {
+      throw AppErrors.CONFLICT('Season start date must be before its end date')
+    }
+
+    const overlapping = await prisma.season.findFirst({
+      where: {
+        ...(excludeId && { id: { not: excludeId } }),
+        startDate: { lte: input.endDate },
+        endDate: { gte: input.startDate }
+      },
+      select: { name: true }
+    })
+
+    if (overlapping) {
+      throw AppErrors.CONFLICT(`Season overlaps with ${overlapping.name}`)
+    }
+  }
+
+  private async syncMatches(
+    tx: Prisma.TransactionClient,
+    season: { id: string; startDate: Date; endDate: Date }
+  ) {
+    const inRange = { gte: season.startDate, lte: season.endDate }
+
+    // Matches that fell out of a shrunk range no longer belong to it
+    await tx.match.updateMany({
+      where: { seasonId: season.id, NOT: { matchDate: inRange } },
+      data: { seasonId: null }
+    })
+
+    await tx.match.updateMany({
+      where: { matchDate: inRange },
+      data: { seasonId: season.id }
+    })
+  }
+}
+
+// Export singleton instance
+export const seasonService = new SeasonService()
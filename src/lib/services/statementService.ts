@@ -0,0 +1,149 @@
+/**
+ * Statement Service
+ *
+ * Monthly fee statements answer "how much do I owe for October":
+ * - Final fees (after FeeOverride) for every match a player took part in that month
+ * - Field / video / late breakdown per match, with payments recorded against it
+ * - One player's statement or everyone's, for the printable page and XLSX export
+ */
+
+import { prisma } from '@/lib/prisma'
+import { resolveFinalFees } from './paymentService'
+
+export interface StatementLine {
+  matchId: string
+  matchDate: Date
+  opponentTeam: string
+  fieldFee: number
+  videoFee: number
+  lateFee: number
+  totalFee: number
+  amountPaid: number
+  outstanding: number
+}
+
+export interface PlayerStatement {
+  playerId: string
+  playerName: string
+  lines: StatementLine[]
+  totalDue: number
+  totalPaid: number
+  outstanding: number
+}
+
+export interface MonthlyStatement {
+  month: string          // YYYY-MM
+  periodStart: Date      // Inclusive
+  periodEnd: Date        // Exclusive
+  generatedAt: Date
+  players: PlayerStatement[]
+  totalDue: number
+  totalPaid: number
+  outstanding: number
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of a YYYY-MM month; match dates are stored as UTC days
+ */
+export const getMonthRange = (month: string): { start: Date; end: Date } => {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return {
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)),
+    end: new Date(Date.UTC(year, monthIndex, 1))
+  }
+}
+
+export class StatementService {
+  /**
+   * Statements for a month, for one player or every player who played that month
+   */
+  async getMonthlyStatement(month: string, playerId?: string): Promise<MonthlyStatement> {
+    const { start, end } = getMonthRange(month)
+    const matchFilter = { matchDate: { gte: start, lt: end } }
+
+    const [participations, overrides, payments] = await Promise.all([
+      prisma.matchParticipation.findMany({
+        where: {
+          ...(playerId && { userId: playerId }),
+          match: matchFilter
+        },
+        include: {
+          user: {
+            select: { id: true, name: true }
+          },
+          match: {
+            select: { id: true, matchDate: true, opponentTeam: true }
+          }
+        },
+        orderBy: { match: { matchDate: 'asc' } }
+      }),
+      prisma.feeOverride.findMany({
+        where: {
+          ...(playerId && { playerId }),
+          match: matchFilter
+        }
+      }),
+      prisma.payment.groupBy({
+        by: ['playerId', 'matchId'],
+        where: {
+          ...(playerId && { playerId }),
+          match: matchFilter
+        },
+        _sum: { amount: true }
+      })
+    ])
+
+    const overrideMap = new Map(overrides.map(o => [`${o.playerId}:${o.matchId}`, o]))
+    const paidMap = new Map(
+      payments.map(p => [`${p.playerId}:${p.matchId}`, Number(p._sum.amount ?? 0)])
+    )
+
+    const statements = new Map<string, PlayerStatement>()
+
+    for (const participation of participations) {
+      const key = `${participation.userId}:${participation.matchId}`
+      const fees = resolveFinalFees(participation, overrideMap.get(key))
+      const amountPaid = paidMap.get(key) ?? 0
+
+      const statement = statements.get(participation.userId) ?? {
+        playerId: participation.userId,
+        playerName: participation.user.name,
+        lines: [],
+        totalDue: 0,
+        totalPaid: 0,
+        outstanding: 0
+      }
+
+      statement.lines.push({
+        matchId: participation.matchId,
+        matchDate: participation.match.matchDate,
+        opponentTeam: participation.match.opponentTeam,
+        ...fees,
+        amountPaid,
+        outstanding: Math.max(fees.totalFee - amountPaid, 0)
+      })
+      statement.totalDue += fees.totalFee
+      statement.totalPaid += amountPaid
+      statement.outstanding += Math.max(fees.totalFee - amountPaid, 0)
+
+      statements.set(participation.userId, statement)
+    }
+
+    const players = Array.from(statements.values())
+      .sort((a, b) => a.playerName.localeCompare(b.playerName, 'zh-CN'))
+
+    return {
+      month,
+      periodStart: start,
+      periodEnd: end,
+      generatedAt: new Date(),
+      players,
+      totalDue: players.reduce((sum, p) => sum + p.totalDue, 0),
+      totalPaid: players.reduce((sum, p) => sum + p.totalPaid, 0),
+      outstanding: players.reduce((sum, p) => sum + p.outstanding, 0)
+    }
+  }
+}
+
+// Export singleton instance
+export const statementService = new StatementService()
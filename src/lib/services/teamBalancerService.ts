@@ -0,0 +1,339 @@
+/**
+ * Team Balancer Service
+ *
+ * Splits a match's selected players into two sides for intra-squad games:
+ * - Each player gets a rating from recent form: goals and assists per appearance and
+ *   minutes played over the club's last matches
+ * - Positions (via position-mapping categories) are spread evenly, goalkeepers first,
+ *   then the sides are evened out by swapping players of the same category
+ * - Admins can lock players to a side and reshuffle; a seed varies near-equal choices
+ * - The saved split lives on the match's selections, so goals and assists add up per side
+ */
+
+import type { EventType, TeamSide } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { getPositionCategory, POSITION_CATEGORIES, type PositionCategory } from '@/lib/utils/position-mapping'
+
+export interface BalancerPlayer {
+  playerId: string
+  name: string
+  position: string | null
+  category: PositionCategory | null
+  recentMinutes: number
+  goalRate: number        // Goals per appearance
+  assistRate: number      // Assists per appearance
+  rating: number
+  side: TeamSide
+  locked: boolean
+}
+
+export interface TeamSuggestion {
+  sides: Record<TeamSide, BalancerPlayer[]>
+  strength: Record<TeamSide, number>    // Sum of ratings
+  fairness: number                      // 0-100, 100 when both sides are equally strong
+}
+
+export interface SideSummary {
+  players: { id: string; name: string }[]
+  goals: number        // Including own goals scored by the other side
+  assists: number
+}
+
+export interface TeamSplit {
+  isSplit: boolean
+  sides: Record<TeamSide, SideSummary>
+  unassigned: { id: string; name: string }[]
+}
+
+export interface BalanceOptions {
+  locks?: Record<string, TeamSide>
+  seed?: number
+}
+
+// Matches before this one that count as recent form
+const RECENT_MATCH_COUNT = 10
+
+const GOAL_WEIGHT = 1
+const ASSIST_WEIGHT = 0.75
+const MINUTES_WEIGHT = 0.5
+
+// Random spread added to ratings when reshuffling, small enough to keep sides close
+const RESHUFFLE_JITTER = 0.3
+
+const MAX_SWAP_PASSES = 20
+
+const SIDES: TeamSide[] = ['A', 'B']
+
+const GOAL_EVENT_TYPES: EventType[] = ['GOAL', 'PENALTY_GOAL']
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed (mulberry32)
+ */
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const otherSide = (side: TeamSide): TeamSide => (side === 'A' ? 'B' : 'A')
+
+const categoryOrder = (category: PositionCategory | null) =>
+  category ? POSITION_CATEGORIES.indexOf(category) : POSITION_CATEGORIES.length
+
+/**
+ * Fairness of two side strengths: the weaker side's share of the stronger side's, in percent
+ */
+const getFairness = (strength: Record<TeamSide, number>) => {
+  const stronger = Math.max(strength.A, strength.B)
+  return stronger === 0 ? 100 : Math.round((Math.min(strength.A, strength.B) / stronger) * 100)
+}
+
+/**
+ * Assign every player a side: locks first, then category by category, then even out by swaps
+ */
+const balancePlayers = (
+  players: Omit<BalancerPlayer, 'side' | 'locked'>[],
+  locks: Record<string, TeamSide>,
+  seed?: number
+): BalancerPlayer[] => {
+  const random = seed === undefined ? () => 0.5 : seededRandom(seed)
+  const maxSideSize = Math.ceil(players.length / 2)
+  const assigned = new Map<string, TeamSide>()
+  const strength: Record<TeamSide, number> = { A: 0, B: 0 }
+  const size: Record<TeamSide, number> = { A: 0, B: 0 }
+  const categoryCount = new Map<string, number>()   // key: "side|category"
+
+  const place = (player: Omit<BalancerPlayer, 'side' | 'locked'>, side: TeamSide) => {
+    assigned.set(player.playerId, side)
+    strength[side] += player.rating
+    size[side]++
+    const key = `${side}|${player.category}`
+    categoryCount.set(key, (categoryCount.get(key) ?? 0) + 1)
+  }
+
+  players.filter(p => locks[p.playerId]).forEach(p => place(p, locks[p.playerId]))
+
+  const open = players
+    .filter(p => !locks[p.playerId])
+    .map(p => ({ player: p, key: p.rating + (random() - 0.5) * RESHUFFLE_JITTER }))
+    .sort((a, b) => categoryOrder(a.player.category) - categoryOrder(b.player.category) || b.key - a.key)
+
+  for (const { player } of open) {
+    const candidates = SIDES.filter(side => size[side] < maxSideSize)
+    const choices = candidates.length > 0 ? candidates : SIDES
+    const count = (side: TeamSide) => categoryCount.get(`${side}|${player.category}`) ?? 0
+    const side = [...choices].sort((a, b) =>
+      count(a) - count(b) || strength[a] - strength[b] || size[a] - size[b]
+    )[0]
+    place(player, side)
+  }
+
+  // Swap same-category players across sides while that narrows the gap
+  const swappable = players.filter(p => !locks[p.playerId])
+  for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+    const gap = strength.A - strength.B
+    let best: { a: string; b: string; delta: number } | null = null
+
+    for (const a of swappable.filter(p => assigned.get(p.playerId) === 'A')) {
+      for (const b of swappable.filter(p => assigned.get(p.playerId) === 'B' && p.category === a.category)) {
+        const delta = a.rating - b.rating
+        if (Math.abs(gap - 2 * delta) < Math.abs(gap) - 1e-9 &&
+          (!best || Math.abs(gap - 2 * delta) < Math.abs(gap - 2 * best.delta))) {
+          best = { a: a.playerId, b: b.playerId, delta }
+        }
+      }
+    }
+    if (!best) break
+
+    assigned.set(best.a, 'B')
+    assigned.set(best.b, 'A')
+    strength.A -= best.delta
+    strength.B += best.delta
+  }
+
+  return players.map(player => ({
+    ...player,
+    side: assigned.get(player.playerId) ?? 'A',
+    locked: !!locks[player.playerId]
+  }))
+}
+
+export class TeamBalancerService {
+  /**
+   * Two balanced sides for a match's selected players, without saving them
+   */
+  async suggestTeams(matchId: string, options: BalanceOptions = {}): Promise<TeamSuggestion> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: {
+        matchDate: true,
+        matchPlayers: {
+          select: { player: { select: { id: true, name: true, position: true } } }
+        }
+      }
+    })
+    if (!match) {
+      throw AppErrors.NOT_FOUND('Match not found')
+    }
+
+    const locks = options.locks ?? {}
+    const playerIds = match.matchPlayers.map(mp => mp.player.id)
+    const unknownLock = Object.keys(locks).find(playerId => !playerIds.includes(playerId))
+    if (unknownLock) {
+      throw AppErrors.CONFLICT(`Player ${unknownLock} is not selected for this match`)
+    }
+
+    const recentMatches = await prisma.match.findMany({
+      where: { matchDate: { lt: match.matchDate } },
+      select: { id: true, partMinutes: true },
+      orderBy: { matchDate: 'desc' },
+      take: RECENT_MATCH_COUNT
+    })
+    const recentMatchIds = recentMatches.map(m => m.id)
+    const partMinutes = new Map(recentMatches.map(m => [m.id, m.partMinutes]))
+
+    const [participations, events] = await Promise.all([
+      prisma.matchParticipation.findMany({
+        where: { matchId: { in: recentMatchIds }, userId: { in: playerIds } },
+        select: { userId: true, matchId: true, totalTime: true }
+      }),
+      prisma.matchEvent.findMany({
+        where: {
+          matchId: { in: recentMatchIds },
+          playerId: { in: playerIds },
+          eventType: { in: [...GOAL_EVENT_TYPES, 'ASSIST'] }
+        },
+        select: { playerId: true, eventType: true }
+      })
+    ])
+
+    const form = match.matchPlayers.map(({ player }) => {
+      const played = participations.filter(p => p.userId === player.id && Number(p.totalTime) > 0)
+      const recentMinutes = played.reduce(
+        (sum, p) => sum + Number(p.totalTime) * (partMinutes.get(p.matchId) ?? 0), 0
+      )
+      const goals = events.filter(e => e.playerId === player.id && GOAL_EVENT_TYPES.includes(e.eventType)).length
+      const assists = events.filter(e => e.playerId === player.id && e.eventType === 'ASSIST').length
+      return {
+        player,
+        recentMinutes,
+        goalRate: played.length > 0 ? goals / played.length : 0,
+        assistRate: played.length > 0 ? assists / played.length : 0
+      }
+    })
+
+    const mostMinutes = Math.max(0, ...form.map(f => f.recentMinutes))
+    const rated = form.map(({ player, recentMinutes, goalRate, assistRate }) => ({
+      playerId: player.id,
+      name: player.name,
+      position: player.position,
+      category: getPositionCategory(player.position ?? undefined),
+      recentMinutes,
+      goalRate: round2(goalRate),
+      assistRate: round2(assistRate),
+      rating: round2(
+        1 +
+        GOAL_WEIGHT * goalRate +
+        ASSIST_WEIGHT * assistRate +
+        MINUTES_WEIGHT * (mostMinutes > 0 ? recentMinutes / mostMinutes : 0)
+      )
+    }))
+
+    const balanced = balancePlayers(rated, locks, options.seed)
+    const sides: Record<TeamSide, BalancerPlayer[]> = {
+      A: balanced.filter(p => p.side === 'A').sort((a, b) => b.rating - a.rating),
+      B: balanced.filter(p => p.side === 'B').sort((a, b) => b.rating - a.rating)
+    }
+    const strength: Record<TeamSide, number> = {
+      A: round2(sides.A.reduce((sum, p) => sum + p.rating, 0)),
+      B: round2(sides.B.reduce((sum, p) => sum + p.rating, 0))
+    }
+
+    return { sides, strength, fairness: getFairness(strength) }
+  }
+
+  /**
+   * Saved sides of a match with goals and assists per side
+   */
+  async getTeams(matchId: string): Promise<TeamSplit> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: {
+        matchPlayers: {
+          select: { side: true, player: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' }
+        },
+        events: { select: { playerId: true, eventType: true } }
+      }
+    })
+    if (!match) {
+      throw AppErrors.NOT_FOUND('Match not found')
+    }
+
+    const sideOf = new Map(match.matchPlayers.map(mp => [mp.player.id, mp.side]))
+    const summarize = (side: TeamSide): SideSummary => {
+      const eventsBy = (s: TeamSide, types: EventType[]) =>
+        match.events.filter(e => sideOf.get(e.playerId) === s && types.includes(e.eventType)).length
+      return {
+        players: match.matchPlayers.filter(mp => mp.side === side).map(mp => mp.player),
+        goals: eventsBy(side, GOAL_EVENT_TYPES) + eventsBy(otherSide(side), ['OWN_GOAL']),
+        assists: eventsBy(side, ['ASSIST'])
+      }
+    }
+
+    return {
+      isSplit: match.matchPlayers.some(mp => mp.side !== null),
+      sides: { A: summarize('A'), B: summarize('B') },
+      unassigned: match.matchPlayers.filter(mp => mp.side === null).map(mp => mp.player)
+    }
+  }
+
+  /**
+   * Store a split on the match's selections; players left out have no side
+   */
+  async saveTeams(matchId: string, sides: Record<string, TeamSide>): Promise<TeamSplit> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { matchPlayers: { select: { playerId: true } } }
+    })
+    if (!match) {
+      throw AppErrors.NOT_FOUND('Match not found')
+    }
+    const selected = new Set(match.matchPlayers.map(mp => mp.playerId))
+
+    const unknown = Object.keys(sides).find(playerId => !selected.has(playerId))
+    if (unknown) {
+      throw AppErrors.CONFLICT(`Player ${unknown} is not selected for this match`)
+    }
+    const values = Object.values(sides)
+    if (values.length > 0 && SIDES.some(side => !values.includes(side))) {
+      throw AppErrors.CONFLICT('Both sides need at least one player')
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.matchPlayer.updateMany({ where: { matchId }, data: { side: null } })
+      for (const side of SIDES) {
+        const playerIds = Object.keys(sides).filter(playerId => sides[playerId] === side)
+        if (playerIds.length > 0) {
+          await tx.matchPlayer.updateMany({
+            where: { matchId, playerId: { in: playerIds } },
+            data: { side }
+          })
+        }
+      }
+    })
+
+    return this.getTeams(matchId)
+  }
+}
+
+// Export singleton instance
+export const teamBalancerService = new TeamBalancerService()
@@ -0,0 +1,412 @@
+/**
+ * Treasury Service
+ *
+ * The club treasury compares what the club spends with what players pay:
+ * - Field and water expenses come straight from each match (fieldFeeTotal / waterFeeTotal)
+ * - Treasury entries book everything else: video editing, equipment, sponsorship, other income/expenses
+ * - Collected player fees are the payments recorded against matches
+ * - Deleting a match books its costs and collected fees as entries on its date,
+ *   so earlier balances stay as they were
+ * Reports bucket everything by month and carry a running club balance.
+ */
+
+import type { Prisma, TreasuryCategory, TreasuryDirection } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { resolveAmountDue } from './paymentService'
+
+export interface TreasuryEntryInput {
+  direction: TreasuryDirection
+  category: TreasuryCategory
+  amount: number
+  occurredAt: Date
+  matchId?: string | null
+  description?: string | null
+}
+
+export interface TreasuryEntryRecord {
+  id: string
+  direction: TreasuryDirection
+  category: TreasuryCategory
+  amount: number
+  occurredAt: Date
+  matchId: string | null
+  matchLabel: string | null
+  description: string | null
+  createdAt: Date
+}
+
+export interface TreasuryRange {
+  from?: Date   // Inclusive
+  to?: Date     // Inclusive
+}
+
+export interface TreasuryMatchLine {
+  matchId: string
+  matchDate: Date
+  opponentTeam: string
+  fieldFee: number
+  waterFee: number
+  otherExpenses: number
+  otherIncome: number
+  feesDue: number
+  feesCollected: number
+  net: number           // Collected fees + income - expenses
+}
+
+export interface TreasuryPeriod {
+  month: string         // YYYY-MM
+  expenses: number
+  income: number
+  feesCollected: number
+  net: number
+  balance: number       // Running balance at the end of the month
+}
+
+export interface TreasuryReport {
+  from: Date | null
+  to: Date | null
+  openingBalance: number
+  closingBalance: number
+  totalExpenses: number
+  totalIncome: number
+  feesDue: number
+  feesCollected: number
+  feesOutstanding: number
+  expensesByCategory: Record<TreasuryCategory, number>
+  incomeByCategory: Record<TreasuryCategory, number>
+  periods: TreasuryPeriod[]
+  matches: TreasuryMatchLine[]
+}
+
+type DecimalLike = { toString(): string } | null
+
+const toNumber = (value: DecimalLike) => value === null ? 0 : Number(value)
+
+// Amounts are stored with cents; sums are rounded to avoid float noise
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+// Field and water costs of a match live on the match itself
+const MATCH_BOOKED_CATEGORIES: TreasuryCategory[] = ['FIELD', 'WATER']
+
+const emptyCategoryTotals = (): Record<TreasuryCategory, number> => ({
+  FIELD: 0,
+  WATER: 0,
+  VIDEO_EDITING: 0,
+  EQUIPMENT: 0,
+  SPONSORSHIP: 0,
+  OTHER: 0
+})
+
+const roundCategoryTotals = (totals: Record<TreasuryCategory, number>) =>
+  Object.fromEntries(
+    Object.entries(totals).map(([category, amount]) => [category, roundAmount(amount)])
+  ) as Record<TreasuryCategory, number>
+
+const toMonth = (date: Date) => date.toISOString().slice(0, 7)
+
+const dateFilter = ({ from, to }: TreasuryRange) =>
+  from || to ? { ...(from && { gte: from }), ...(to && { lte: to }) } : undefined
+
+const toTreasuryEntryRecord = (entry: {
+  id: string
+  direction: TreasuryDirection
+  category: TreasuryCategory
+  amount: DecimalLike
+  occurredAt: Date
+  matchId: string | null
+  description: string | null
+  createdAt: Date
+  match: { matchDate: Date; opponentTeam: string } | null
+}): TreasuryEntryRecord => ({
+  id: entry.id,
+  direction: entry.direction,
+  category: entry.category,
+  amount: toNumber(entry.amount),
+  occurredAt: entry.occurredAt,
+  matchId: entry.matchId,
+  matchLabel: entry.match
+    ? `${entry.match.matchDate.toISOString().slice(0, 10)} vs ${entry.match.opponentTeam}`
+    : null,
+  description: entry.description,
+  createdAt: entry.createdAt
+})
+
+const matchLabelInclude = {
+  match: { select: { matchDate: true, opponentTeam: true } }
+} as const
+
+export class TreasuryService {
+  /**
+   * Booked entries in a date range, newest first
+   */
+  async getEntries(range: TreasuryRange = {}): Promise<TreasuryEntryRecord[]> {
+    const entries = await prisma.treasuryEntry.findMany({
+      where: { occurredAt: dateFilter(range) },
+      include: matchLabelInclude,
+      orderBy: [{ occurredAt: 'desc' }, { createdAt: 'desc' }]
+    })
+
+    return entries.map(toTreasuryEntryRecord)
+  }
+
+  /**
+   * Book an income or expense; match-linked field/water costs belong on the match instead
+   */
+  async createEntry(input: TreasuryEntryInput, createdBy: string): Promise<TreasuryEntryRecord> {
+    if (input.matchId) {
+      if (MATCH_BOOKED_CATEGORIES.includes(input.category)) {
+        throw AppErrors.CONFLICT('Field and water costs of a match are recorded on the match itself')
+      }
+
+      const match = await prisma.match.findUnique({
+        where: { id: input.matchId },
+        select: { id: true }
+      })
+
+      if (!match) {
+        throw AppErrors.NOT_FOUND(`Match ${input.matchId} not found`)
+      }
+    }
+
+    const entry = await prisma.treasuryEntry.create({
+      data: {
+        direction: input.direction,
+        category: input.category,
+        amount: roundAmount(input.amount),
+        occurredAt: input.occurredAt,
+        matchId: input.matchId ?? null,
+        description: input.description ?? null,
+        createdBy
+      },
+      include: matchLabelInclude
+    })
+
+    return toTreasuryEntryRecord(entry)
+  }
+
+  /**
+   * Delete a booked entry
+   */
+  async deleteEntry(entryId: string): Promise<TreasuryEntryRecord> {
+    const entry = await prisma.treasuryEntry.findUnique({
+      where: { id: entryId },
+      include: matchLabelInclude
+    })
+
+    if (!entry) {
+      throw AppErrors.NOT_FOUND(`Treasury entry ${entryId} not found`)
+    }
+
+    await prisma.treasuryEntry.delete({ where: { id: entryId } })
+
+    return toTreasuryEntryRecord(entry)
+  }
+
+  /**
+   * Book the costs and collected fees of a match that is about to be deleted as entries on
+   * its date; its payments stay on the players' ledgers but no longer count here
+   */
+  async bookDeletedMatch(matchId: string, client: Prisma.TransactionClient = prisma): Promise<void> {
+    const match = await client.match.findUnique({
+      where: { id: matchId },
+      select: { matchDate: true, opponentTeam: true, fieldFeeTotal: true, waterFeeTotal: true, createdBy: true }
+    })
+
+    if (!match) {
+      throw AppErrors.NOT_FOUND(`Match ${matchId} not found`)
+    }
+
+    const collected = await client.payment.aggregate({
+      where: { matchId },
+      _sum: { amount: true }
+    })
+
+    const label = `${match.matchDate.toISOString().slice(0, 10)} vs ${match.opponentTeam}（已删除）`
+    const entries: { direction: TreasuryDirection; category: TreasuryCategory; amount: number; description: string }[] = [
+      { direction: 'EXPENSE', category: 'FIELD', amount: toNumber(match.fieldFeeTotal), description: `${label} 场地费` },
+      { direction: 'EXPENSE', category: 'WATER', amount: toNumber(match.waterFeeTotal), description: `${label} 水费` },
+      { direction: 'INCOME', category: 'OTHER', amount: toNumber(collected._sum.amount), description: `${label} 已收球员费用` }
+    ]
+
+    const data = entries
+      .filter(entry => entry.amount > 0)
+      .map(entry => ({ ...entry, occurredAt: match.matchDate, matchId: null, createdBy: match.createdBy }))
+
+    if (data.length > 0) {
+      await client.treasuryEntry.createMany({ data })
+    }
+  }
+
+  /**
+   * Club balance report: monthly cash flow with a running balance and a per-match reconciliation
+   */
+  async getReport(range: TreasuryRange = {}): Promise<TreasuryReport> {
+    const matchDate = dateFilter(range)
+
+    const [matches, entries, participations, overrides, payments, openingBalance] = await Promise.all([
+      prisma.match.findMany({
+        where: { matchDate },
+        select: { id: true, matchDate: true, opponentTeam: true, fieldFeeTotal: true, waterFeeTotal: true },
+        orderBy: { matchDate: 'asc' }
+      }),
+      prisma.treasuryEntry.findMany({
+        where: { occurredAt: matchDate },
+        select: { direction: true, category: true, amount: true, occurredAt: true, matchId: true }
+      }),
+      prisma.matchParticipation.findMany({
+        where: { match: { matchDate } },
+        select: { userId: true, matchId: true, fieldFeeCalculated: true, videoFee: true, lateFee: true }
+      }),
+      prisma.feeOverride.findMany({
+        where: { match: { matchDate } }
+      }),
+      prisma.payment.groupBy({
+        by: ['matchId'],
+        where: { match: { matchDate } },
+        _sum: { amount: true }
+      }),
+      range.from ? this.getBalanceBefore(range.from) : Promise.resolve(0)
+    ])
+
+    const overrideMap = new Map(overrides.map(o => [`${o.playerId}:${o.matchId}`, o]))
+    const collectedByMatch = new Map(payments.map(p => [p.matchId, toNumber(p._sum.amount)]))
+
+    const dueByMatch = new Map<string, number>()
+    for (const participation of participations) {
+      const due = resolveAmountDue(participation, overrideMap.get(`${participation.userId}:${participation.matchId}`))
+      dueByMatch.set(participation.matchId, (dueByMatch.get(participation.matchId) ?? 0) + due)
+    }
+
+    const expensesByCategory = emptyCategoryTotals()
+    const incomeByCategory = emptyCategoryTotals()
+    const periods = new Map<string, Omit<TreasuryPeriod, 'balance'>>()
+
+    const addToPeriod = (date: Date, change: Partial<Pick<TreasuryPeriod, 'expenses' | 'income' | 'feesCollected'>>) => {
+      const month = toMonth(date)
+      const period = periods.get(month) ?? { month, expenses: 0, income: 0, feesCollected: 0, net: 0 }
+      period.expenses += change.expenses ?? 0
+      period.income += change.income ?? 0
+      period.feesCollected += change.feesCollected ?? 0
+      period.net = period.feesCollected + period.income - period.expenses
+      periods.set(month, period)
+    }
+
+    const matchLines = new Map<string, TreasuryMatchLine>()
+    for (const match of matches) {
+      const fieldFee = toNumber(match.fieldFeeTotal)
+      const waterFee = toNumber(match.waterFeeTotal)
+      const feesCollected = collectedByMatch.get(match.id) ?? 0
+
+      expensesByCategory.FIELD += fieldFee
+      expensesByCategory.WATER += waterFee
+      addToPeriod(match.matchDate, { expenses: fieldFee + waterFee, feesCollected })
+
+      matchLines.set(match.id, {
+        matchId: match.id,
+        matchDate: match.matchDate,
+        opponentTeam: match.opponentTeam,
+        fieldFee,
+        waterFee,
+        otherExpenses: 0,
+        otherIncome: 0,
+        feesDue: dueByMatch.get(match.id) ?? 0,
+        feesCollected,
+        net: 0
+      })
+    }
+
+    for (const entry of entries) {
+      const amount = toNumber(entry.amount)
+      const line = entry.matchId ? matchLines.get(entry.matchId) : undefined
+
+      if (entry.direction === 'EXPENSE') {
+        expensesByCategory[entry.category] += amount
+        addToPeriod(entry.occurredAt, { expenses: amount })
+        if (line) line.otherExpenses += amount
+      } else {
+        incomeByCategory[entry.category] += amount
+        addToPeriod(entry.occurredAt, { income: amount })
+        if (line) line.otherIncome += amount
+      }
+    }
+
+    const matchReport = Array.from(matchLines.values()).map(line => ({
+      ...line,
+      net: roundAmount(line.feesCollected + line.otherIncome - line.fieldFee - line.waterFee - line.otherExpenses)
+    }))
+
+    let balance = openingBalance
+    const periodReport = Array.from(periods.values())
+      .sort((a, b) => a.month.localeCompare(b.month))
+      .map(period => {
+        balance = roundAmount(balance + period.net)
+        return {
+          month: period.month,
+          expenses: roundAmount(period.expenses),
+          income: roundAmount(period.income),
+          feesCollected: roundAmount(period.feesCollected),
+          net: roundAmount(period.net),
+          balance
+        }
+      })
+
+    const totalExpenses = roundAmount(periodReport.reduce((sum, p) => sum + p.expenses, 0))
+    const totalIncome = roundAmount(periodReport.reduce((sum, p) => sum + p.income, 0))
+    const feesDue = roundAmount(matchReport.reduce((sum, m) => sum + m.feesDue, 0))
+    const feesCollected = roundAmount(periodReport.reduce((sum, p) => sum + p.feesCollected, 0))
+
+    return {
+      from: range.from ?? null,
+      to: range.to ?? null,
+      openingBalance,
+      closingBalance: balance,
+      totalExpenses,
+      totalIncome,
+      feesDue,
+      feesCollected,
+      feesOutstanding: roundAmount(Math.max(feesDue - feesCollected, 0)),
+      expensesByCategory: roundCategoryTotals(expensesByCategory),
+      incomeByCategory: roundCategoryTotals(incomeByCategory),
+      periods: periodReport,
+      matches: matchReport
+    }
+  }
+
+  /**
+   * Club balance carried into a report that starts at the given date
+   */
+  private async getBalanceBefore(date: Date): Promise<number> {
+    const before = { lt: date }
+
+    const [matchCosts, collected, entries] = await Promise.all([
+      prisma.match.aggregate({
+        where: { matchDate: before },
+        _sum: { fieldFeeTotal: true, waterFeeTotal: true }
+      }),
+      prisma.payment.aggregate({
+        where: { match: { matchDate: before } },
+        _sum: { amount: true }
+      }),
+      prisma.treasuryEntry.groupBy({
+        by: ['direction'],
+        where: { occurredAt: before },
+        _sum: { amount: true }
+      })
+    ])
+
+    const entryTotal = (direction: TreasuryDirection) =>
+      toNumber(entries.find(e => e.direction === direction)?._sum.amount ?? null)
+
+    return roundAmount(
+      toNumber(collected._sum.amount) +
+      entryTotal('INCOME') -
+      entryTotal('EXPENSE') -
+      toNumber(matchCosts._sum.fieldFeeTotal) -
+      toNumber(matchCosts._sum.waterFeeTotal)
+    )
+  }
+}
+
+// Export singleton instance
+export const treasuryService = new TreasuryService()
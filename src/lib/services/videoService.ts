@@ -0,0 +1,234 @@
+/**
+ * Match Video Service
+ *
+ * Manages the footage library for a match:
+ * - Upload videos to local disk or S3
+ * - Register videos that already live in storage
+ * - Delete videos together with their stored files
+ */
+
+import type { StorageType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AppErrors } from '@/lib/errors'
+import { generateVideoKey, getVideoStorage, validateVideoFile } from '@/lib/videoStorage'
+
+export interface VideoMetadataInput {
+  title: string
+  description?: string | null
+  storageType: StorageType
+  durationSeconds?: number | null
+  thumbnailUrl?: string | null
+}
+
+export interface RegisterVideoInput extends VideoMetadataInput {
+  filePath: string
+  fileSize?: number | null
+  cdnUrl?: string | null
+}
+
+export interface MatchVideo {
+  id: string
+  matchId: string
+  title: string
+  description: string | null
+  storageType: StorageType
+  url: string
+  fileSize: number | null
+  durationSeconds: number | null
+  thumbnailUrl: string | null
+  createdAt: Date
+  createdBy: {
+    id: string
+    name: string
+  }
+}
+
+interface VideoRow {
+  id: string
+  matchId: string
+  title: string
+  description: string | null
+  storageType: StorageType
+  filePath: string
+  cdnUrl: string | null
+  fileSize: bigint | null
+  durationSeconds: number | null
+  thumbnailUrl: string | null
+  createdAt: Date
+  createdByUser: {
+    id: string
+    name: string
+  }
+}
+
+const createdBySelect = {
+  createdByUser: {
+    select: { id: true, name: true }
+  }
+} as const
+
+/**
+ * Playback URL: CDN for S3 objects, the streaming route for local files
+ */
+export function getVideoUrl(video: Pick<VideoRow, 'id' | 'matchId' | 'storageType' | 'cdnUrl'>): string {
+  if (video.storageType === 'S3' && video.cdnUrl) {
+    return video.cdnUrl
+  }
+  return `/api/games/${video.matchId}/videos/${video.id}/file`
+}
+
+const toMatchVideo = (video: VideoRow): MatchVideo => ({
+  id: video.id,
+  matchId: video.matchId,
+  title: video.title,
+  description: video.description,
+  storageType: video.storageType,
+  url: getVideoUrl(video),
+  fileSize: video.fileSize !== null ? Number(video.fileSize) : null,
+  durationSeconds: video.durationSeconds,
+  thumbnailUrl: video.thumbnailUrl,
+  createdAt: video.createdAt,
+  createdBy: video.createdByUser
+})
+
+export class VideoService {
+  /**
+   * List all videos for a match, newest first
+   */
+  async getMatchVideos(matchId: string): Promise<MatchVideo[]> {
+    const videos = await prisma.video.findMany({
+      where: { matchId },
+      include: createdBySelect,
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return videos.map(toMatchVideo)
+  }
+
+  /**
+   * Upload a video file and create its record
+   */
+  async uploadVideo(
+    matchId: string,
+    file: File,
+    input: VideoMetadataInput,
+    createdBy: string
+  ): Promise<MatchVideo> {
+    const validation = validateVideoFile(file)
+    if (!validation.valid) {
+      throw new Error(validation.error)
+    }
+
+    const storage = getVideoStorage(input.storageType)
+    const stored = await storage.save(file, generateVideoKey(matchId, file.name))
+
+    try {
+      const video = await prisma.video.create({
+        data: {
+          matchId,
+          title: input.title,
+          description: input.description ?? null,
+          storageType: input.storageType,
+          filePath: stored.filePath,
+          s3Bucket: stored.s3Bucket ?? null,
+          s3Region: stored.s3Region ?? null,
+          cdnUrl: stored.cdnUrl ?? null,
+          fileSize: BigInt(stored.fileSize),
+          durationSeconds: input.durationSeconds ?? null,
+          thumbnailUrl: input.thumbnailUrl ?? null,
+          createdBy
+        },
+        include: createdBySelect
+      })
+
+      return toMatchVideo(video)
+    } catch (error) {
+      // Don't leave an orphaned file behind when the record can't be created
+      await storage.remove(stored.filePath).catch(removeError => {
+        console.warn(`Failed to remove orphaned video ${stored.filePath}:`, removeError)
+      })
+      throw error
+    }
+  }
+
+  /**
+   * Register a video that is already in storage
+   */
+  async registerVideo(matchId: string, input: RegisterVideoInput, createdBy: string): Promise<MatchVideo> {
+    const video = await prisma.video.create({
+      data: {
+        matchId,
+        title: input.title,
+        description: input.description ?? null,
+        storageType: input.storageType,
+        filePath: input.filePath,
+        cdnUrl: input.cdnUrl ?? null,
+        fileSize: input.fileSize != null ? BigInt(input.fileSize) : null,
+        durationSeconds: input.durationSeconds ?? null,
+        thumbnailUrl: input.thumbnailUrl ?? null,
+        createdBy
+      },
+      include: createdBySelect
+    })
+
+    return toMatchVideo(video)
+  }
+
+  /**
+   * Get a single video belonging to a match
+   */
+  async getVideo(matchId: string, videoId: string) {
+    const video = await prisma.video.findUnique({
+      where: { id: videoId }
+    })
+
+    if (!video || video.matchId !== matchId) {
+      throw AppErrors.NOT_FOUND(`Video ${videoId} not found`)
+    }
+
+    return video
+  }
+
+  /**
+   * Delete a video record and its stored file
+   */
+  async deleteVideo(matchId: string, videoId: string) {
+    const video = await this.getVideo(matchId, videoId)
+
+    await prisma.video.delete({
+      where: { id: videoId }
+    })
+
+    await this.removeFiles([video])
+
+    return video
+  }
+
+  /**
+   * Collect stored files for a match's videos (used before match removal)
+   */
+  async getMatchVideoFiles(matchId: string): Promise<{ storageType: StorageType; filePath: string }[]> {
+    return prisma.video.findMany({
+      where: { matchId },
+      select: { storageType: true, filePath: true }
+    })
+  }
+
+  /**
+   * Delete stored video files; failures are logged and never thrown
+   */
+  async removeFiles(files: { storageType: StorageType; filePath: string }[]): Promise<void> {
+    const results = await Promise.allSettled(
+      files.map(file => getVideoStorage(file.storageType).remove(file.filePath))
+    )
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`Failed to delete video file ${files[index].filePath}:`, result.reason)
+      }
+    })
+  }
+}
+
+// Export singleton instance
+export const videoService = new VideoService()
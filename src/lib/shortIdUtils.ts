@@ -73,6 +73,55 @@ export function generateUniqueShortId(baseName: string, existingShortIds: string
   throw new Error(`Unable to generate unique short ID for name: ${baseName}`)
 }
 
+// First character (in zh-CN collation order) of each pinyin initial; there are no syllables starting with i, u or v
+const PINYIN_INITIAL_BOUNDARIES = '阿八嚓哒妸发旮哈讥咔垃妈拏噢妑七呥仨他穵夕丫帀'
+const PINYIN_INITIALS = 'abcdefghjklmnopqrstwxyz'
+
+const pinyinCollator = new Intl.Collator('zh-Hans-CN')
+
+/**
+ * Pinyin initials of a name (东辉 -> dh); non-Chinese characters are kept as lowercase letters
+ * Uses the zh-CN collation order, so no pinyin dictionary is needed
+ */
+export function getPinyinInitials(text: string): string {
+  return Array.from(text.trim()).map(char => {
+    if (!/[\u4e00-\u9fff]/.test(char)) {
+      return /[a-z0-9]/i.test(char) ? char.toLowerCase() : ''
+    }
+
+    let initial = ''
+    for (let i = 0; i < PINYIN_INITIAL_BOUNDARIES.length; i++) {
+      if (pinyinCollator.compare(PINYIN_INITIAL_BOUNDARIES[i], char) > 0) break
+      initial = PINYIN_INITIALS[i]
+    }
+    return initial
+  }).join('')
+}
+
+/**
+ * Pinyin form of generateShortId: the same characters, as initials (李东辉 -> dh, 马 -> mm)
+ */
+export function generatePinyinShortId(name: string): string {
+  const shortId = generateShortId(name)
+  return /[\u4e00-\u9fff]/.test(shortId) ? getPinyinInitials(shortId) : shortId
+}
+
+/**
+ * Next free numbered pinyin short ID, matching imported players (东辉 -> dh01, dh02, ...)
+ */
+export function generateNumberedShortId(name: string, existingShortIds: string[]): string {
+  const base = generatePinyinShortId(name)
+
+  for (let i = 1; i <= 99; i++) {
+    const candidateId = `${base}${i.toString().padStart(2, '0')}`
+    if (!existingShortIds.includes(candidateId)) {
+      return candidateId
+    }
+  }
+
+  throw new Error(`Unable to generate unique short ID for name: ${name}`)
+}
+
 /**
  * Parse Excel player name and generate short ID
  * Handles special cases like (试训), suffixes, etc.
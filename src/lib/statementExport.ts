@@ -0,0 +1,177 @@
+/**
+ * Statement Export
+ *
+ * Renders a monthly fee statement as a printable HTML page (one page per
+ * player) or an XLSX workbook (a summary sheet plus a per-match detail sheet),
+ * and wraps either in the matching HTTP response.
+ */
+
+import { NextResponse } from 'next/server'
+import * as XLSX from 'xlsx'
+import type { MonthlyStatement } from '@/lib/services/statementService'
+
+export type StatementFormat = 'json' | 'html' | 'xlsx'
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const formatDate = (date: Date) => date.toLocaleDateString('zh-CN', { timeZone: 'Asia/Shanghai' })
+
+const formatAmount = (amount: number) => `¥${amount.toFixed(2)}`
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-')
+  return `${year}年${Number(monthIndex)}月`
+}
+
+/**
+ * Printable HTML statement; each player starts on a new printed page
+ */
+export function renderStatementHtml(statement: MonthlyStatement): string {
+  const title = `${formatMonth(statement.month)}费用账单`
+
+  const playerSections = statement.players.map(player => `
+    <section class="statement">
+      <h2>${escapeHtml(player.playerName)}</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>日期</th><th>对手</th><th>场地费</th><th>视频费</th><th>迟到费</th><th>应缴</th><th>已缴</th><th>未缴</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${player.lines.map(line => `
+          <tr>
+            <td>${formatDate(line.matchDate)}</td>
+            <td>${escapeHtml(line.opponentTeam)}</td>
+            <td>${formatAmount(line.fieldFee)}</td>
+            <td>${formatAmount(line.videoFee)}</td>
+            <td>${formatAmount(line.lateFee)}</td>
+            <td>${formatAmount(line.totalFee)}</td>
+            <td>${formatAmount(line.amountPaid)}</td>
+            <td>${formatAmount(line.outstanding)}</td>
+          </tr>`).join('')}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colspan="5">合计 (${player.lines.length} 场)</td>
+            <td>${formatAmount(player.totalDue)}</td>
+            <td>${formatAmount(player.totalPaid)}</td>
+            <td>${formatAmount(player.outstanding)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </section>`).join('')
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111; margin: 24px; }
+    h1 { margin: 0 0 4px; }
+    .meta { color: #666; margin-bottom: 24px; }
+    .statement { margin-bottom: 32px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: right; }
+    th:nth-child(-n+2), td:nth-child(-n+2) { text-align: left; }
+    thead th { background: #f5f5f5; }
+    tfoot td { font-weight: 600; }
+    .empty { color: #666; }
+    .actions { margin-bottom: 16px; }
+    @media print {
+      .actions { display: none; }
+      .statement { page-break-after: always; }
+      .statement:last-child { page-break-after: auto; }
+    }
+  </style>
+</head>
+<body>
+  <div class="actions"><button onclick="window.print()">打印</button></div>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">
+    应缴 ${formatAmount(statement.totalDue)} · 已缴 ${formatAmount(statement.totalPaid)} · 未缴 ${formatAmount(statement.outstanding)}
+    · 生成于 ${formatDate(statement.generatedAt)}
+  </p>
+  ${statement.players.length > 0 ? playerSections : '<p class="empty">本月没有比赛费用</p>'}
+</body>
+</html>`
+}
+
+/**
+ * XLSX workbook with a per-player summary sheet and a per-match detail sheet
+ */
+export function buildStatementWorkbook(statement: MonthlyStatement): Buffer {
+  const summaryRows = [
+    ['球员', '比赛场数', '应缴', '已缴', '未缴'],
+    ...statement.players.map(player => [
+      player.playerName,
+      player.lines.length,
+      player.totalDue,
+      player.totalPaid,
+      player.outstanding
+    ]),
+    ['合计', '', statement.totalDue, statement.totalPaid, statement.outstanding]
+  ]
+
+  const detailRows = [
+    ['球员', '日期', '对手', '场地费', '视频费', '迟到费', '应缴', '已缴', '未缴'],
+    ...statement.players.flatMap(player => player.lines.map(line => [
+      player.playerName,
+      formatDate(line.matchDate),
+      line.opponentTeam,
+      line.fieldFee,
+      line.videoFee,
+      line.lateFee,
+      line.totalFee,
+      line.amountPaid,
+      line.outstanding
+    ]))
+  ]
+
+  const wb = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summaryRows), '汇总')
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(detailRows), '明细')
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' })
+}
+
+/**
+ * Respond with the statement as JSON, a printable page or an XLSX download
+ */
+export function toStatementResponse(
+  statement: MonthlyStatement,
+  format: StatementFormat,
+  filenamePrefix = '费用账单'
+): NextResponse {
+  if (format === 'html') {
+    return new NextResponse(renderStatementHtml(statement), {
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    })
+  }
+
+  if (format === 'xlsx') {
+    const buffer = buildStatementWorkbook(statement)
+    const filename = `${filenamePrefix}_${statement.month}.xlsx`
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}"`,
+        'Content-Length': buffer.length.toString()
+      }
+    })
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: statement
+  })
+}
@@ -0,0 +1,70 @@
+/**
+ * Goal and assist pairing
+ *
+ * An ASSIST event may point at the GOAL or PENALTY_GOAL it set up (goalEventId).
+ * Shared by the event logger, the attendance save and the player partnership stats.
+ */
+
+export const isGoalEvent = (eventType: string) => eventType === 'GOAL' || eventType === 'PENALTY_GOAL'
+
+interface LinkableEvent {
+  id?: string
+  playerId: string
+  eventType: string
+  goalEventId?: string | null
+}
+
+export interface PartnershipPlayer {
+  id: string
+  name: string
+}
+
+export interface GoalPartnership {
+  scorer: PartnershipPlayer
+  assister: PartnershipPlayer
+  goals: number
+}
+
+/**
+ * Events with goalEventId kept only where it is valid: on an ASSIST, pointing at a goal in the
+ * same list that someone else scored and no earlier assist already claims
+ */
+export function sanitizeAssistLinks<T extends LinkableEvent>(
+  events: T[]
+): (Omit<T, 'goalEventId'> & { goalEventId: string | null })[] {
+  const goals = new Map(
+    events
+      .filter(event => event.id && isGoalEvent(event.eventType))
+      .map(event => [event.id as string, event])
+  )
+  const claimed = new Set<string>()
+
+  return events.map(event => {
+    const goalEventId = event.goalEventId ?? null
+    const goal = goalEventId ? goals.get(goalEventId) : undefined
+    const valid = !!goalEventId &&
+      event.eventType === 'ASSIST' &&
+      !!goal &&
+      goal.playerId !== event.playerId &&
+      !claimed.has(goalEventId)
+
+    if (valid) claimed.add(goalEventId)
+    return { ...event, goalEventId: valid ? goalEventId : null }
+  })
+}
+
+/**
+ * Scorer and assister pairs counted, most goals first
+ */
+export function countPartnerships(pairs: { scorer: PartnershipPlayer; assister: PartnershipPlayer }[]): GoalPartnership[] {
+  const partnerships = new Map<string, GoalPartnership>()
+  for (const { scorer, assister } of pairs) {
+    const key = `${assister.id}>${scorer.id}`
+    const partnership = partnerships.get(key) ?? { scorer, assister, goals: 0 }
+    partnership.goals++
+    partnerships.set(key, partnership)
+  }
+
+  return Array.from(partnerships.values())
+    .sort((a, b) => b.goals - a.goals || a.scorer.name.localeCompare(b.scorer.name, 'zh-CN'))
+}
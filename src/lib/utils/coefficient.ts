@@ -2,29 +2,31 @@
  * Utility functions for calculating match coefficient
  */
 
+import { DEFAULT_MATCH_FORMAT, getCoefficientUnits, type MatchFormat } from './matchFormat'
+
 /**
- * Calculate fee coefficient based on field fee, water fee, and fixed total time units
- * Formula: (fieldFeeTotal + waterFeeTotal) / FIXED_TOTAL_TIME_UNITS
+ * Calculate fee coefficient based on field fee, water fee, and the match format's coefficient units
+ * Formula: (fieldFeeTotal + waterFeeTotal) / coefficientUnits
  * 
- * Fixed total time units = 90 (represents the standard total time units for coefficient calculation)
- * This matches the Excel formula where coefficient is calculated using a fixed denominator
+ * Coefficient units = sections × parts per section × 10, which is 90 for the default
+ * 3×3 format and matches the Excel formula's fixed denominator; part minutes play no part
  * 
  * @param fieldFeeTotal - Total field fee
  * @param waterFeeTotal - Total water fee
  * @param actualPlayTime - Actual total play time in time units (not used in calculation, kept for backward compatibility)
+ * @param format - Match format (defaults to 3 sections × 3 parts × 10 minutes)
  * @returns Calculated coefficient
  */
 export const calculateCoefficient = (
   fieldFeeTotal: number, 
   waterFeeTotal: number, 
-  actualPlayTime: number
+  actualPlayTime: number,
+  format: MatchFormat = DEFAULT_MATCH_FORMAT
 ): number => {
   // Handle edge cases
   if (fieldFeeTotal < 0 || waterFeeTotal < 0) return 0
   
-  // Use fixed 90 time units for coefficient calculation (matches Excel formula)
-  const FIXED_TOTAL_TIME_UNITS = 90
-  return (fieldFeeTotal + waterFeeTotal) / FIXED_TOTAL_TIME_UNITS
+  return (fieldFeeTotal + waterFeeTotal) / getCoefficientUnits(format)
 }
 
 /**
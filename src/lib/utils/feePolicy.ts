@@ -0,0 +1,82 @@
+/**
+ * Fee policy rules applied on top of the per-part fee math
+ *
+ * A match is charged under the FeePolicy version that was in force when it
+ * was created. Matches without a policy use the legacy rules below, which
+ * reproduce the original behaviour (goalkeeper time free, no discounts,
+ * no minimum or cap, Math.round), so their fees never change on recalculation.
+ */
+
+import type { FeeRoundingMode, PlayerStatus } from '@prisma/client'
+
+export interface FeePolicyRules {
+  goalkeeperDiscountPercent: number  // 100 = goalkeeper time is free
+  trialDiscountPercent: number       // Discount on field + video fees for TRIAL players
+  minimumCharge: number | null       // Floor on field + video fees for anyone charged for play
+  maximumCharge: number | null       // Cap on field + video fees
+  roundingMode: FeeRoundingMode
+}
+
+export const LEGACY_FEE_POLICY: FeePolicyRules = {
+  goalkeeperDiscountPercent: 100,
+  trialDiscountPercent: 0,
+  minimumCharge: null,
+  maximumCharge: null,
+  roundingMode: 'ROUND'
+}
+
+export const FEE_ROUNDING_LABELS: Record<FeeRoundingMode, string> = {
+  ROUND: '四舍五入',
+  CEIL: '向上取整',
+  FLOOR: '向下取整'
+}
+
+type DecimalLike = { toString(): string } | number | null
+
+const toOptionalNumber = (value: DecimalLike | undefined) =>
+  value === null || value === undefined ? null : Number(value)
+
+/**
+ * Read the rules of a FeePolicy record, falling back to the legacy rules
+ */
+export const toFeePolicyRules = (
+  record?: {
+    goalkeeperDiscountPercent: DecimalLike
+    trialDiscountPercent: DecimalLike
+    minimumCharge: DecimalLike
+    maximumCharge: DecimalLike
+    roundingMode: FeeRoundingMode
+  } | null
+): FeePolicyRules => {
+  if (!record) return LEGACY_FEE_POLICY
+
+  return {
+    goalkeeperDiscountPercent: Number(record.goalkeeperDiscountPercent),
+    trialDiscountPercent: Number(record.trialDiscountPercent),
+    minimumCharge: toOptionalNumber(record.minimumCharge),
+    maximumCharge: toOptionalNumber(record.maximumCharge),
+    roundingMode: record.roundingMode
+  }
+}
+
+/**
+ * Whether a player is charged as on trial for a match: the status recorded with their
+ * participation wins, so later status changes leave past fees alone
+ */
+export const isTrialParticipant = (recorded: boolean | null | undefined, playerStatus: PlayerStatus): boolean =>
+  recorded ?? playerStatus === 'TRIAL'
+
+/**
+ * Round a fee amount to whole yuan using the policy's rounding mode
+ */
+export const roundFeeAmount = (value: number, mode: FeeRoundingMode = 'ROUND'): number => {
+  switch (mode) {
+    case 'CEIL':
+      // Guard against float noise such as 30.000000000000004 rounding up to 31
+      return Math.ceil(Number(value.toFixed(6)))
+    case 'FLOOR':
+      return Math.floor(Number(value.toFixed(6)))
+    default:
+      return Math.round(value)
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Line-up timeline: the starting players of a match plus timed substitutions
+ *
+ * The attendance grid is derived from the timeline so it is not entered twice:
+ * a player's share of a part is the time they spent on the pitch in it, rounded
+ * to the grid's half parts, and whoever kept goal longest in a part is that
+ * part's goalkeeper. Substitution minutes count from the start of their section;
+ * players on the pitch at the end of a section start the next one.
+ */
+
+import type { Position } from '@prisma/client'
+import { createEmptyAttendance, getFormatSlots, getSectionLabel, type MatchFormat } from './matchFormat'
+
+export const MAX_STARTERS = 11
+
+export interface LineupStarter {
+  playerId: string
+  position: Position
+}
+
+export interface LineupSubstitution {
+  section: number
+  minute: number
+  playerOutId: string
+  playerInId: string
+  position?: Position | null    // Null keeps the outgoing player's position
+}
+
+export interface DerivedAttendance {
+  attendance: Record<string, Record<string, number>>
+  goalkeeper: Record<string, Record<string, boolean>>
+}
+
+interface Stint {
+  playerId: string
+  position: Position
+  section: number
+  from: number
+  to: number
+}
+
+/**
+ * Length of one section in minutes
+ */
+export const getSectionMinutes = (format: MatchFormat): number =>
+  format.partsPerSection * format.partMinutes
+
+/**
+ * Substitutions in play order; ones at the same minute keep their given order
+ */
+export const sortSubstitutions = <T extends LineupSubstitution>(substitutions: T[]): T[] =>
+  [...substitutions].sort((a, b) => a.section - b.section || a.minute - b.minute)
+
+/**
+ * Problems with a line-up, empty when it can be saved
+ */
+export const validateLineup = (
+  starters: LineupStarter[],
+  substitutions: LineupSubstitution[],
+  format: MatchFormat
+): string[] => {
+  const errors: string[] = []
+
+  if (starters.length === 0 && substitutions.length > 0) {
+    errors.push('Substitutions need a starting line-up')
+  }
+  if (starters.length > MAX_STARTERS) {
+    errors.push(`A line-up has at most ${MAX_STARTERS} starters`)
+  }
+
+  const onPitch = new Map<string, Position>()
+  for (const starter of starters) {
+    if (onPitch.has(starter.playerId)) {
+      errors.push(`Player ${starter.playerId} starts twice`)
+    }
+    onPitch.set(starter.playerId, starter.position)
+  }
+  if (starters.filter(starter => starter.position === 'GK').length > 1) {
+    errors.push('Only one starter can play in goal')
+  }
+
+  const sectionMinutes = getSectionMinutes(format)
+  for (const substitution of sortSubstitutions(substitutions)) {
+    const { section, minute, playerOutId, playerInId } = substitution
+    const at = `${getSectionLabel(section)} ${minute}'`
+
+    if (section < 1 || section > format.sectionCount || minute < 0 || minute >= sectionMinutes) {
+      errors.push(`${at}: outside the match format`)
+      continue
+    }
+    if (playerOutId === playerInId) {
+      errors.push(`${at}: a player cannot replace themselves`)
+      continue
+    }
+
+    const position = onPitch.get(playerOutId)
+    if (!position) {
+      errors.push(`${at}: player ${playerOutId} is not on the pitch`)
+      continue
+    }
+    if (onPitch.has(playerInId)) {
+      errors.push(`${at}: player ${playerInId} is already on the pitch`)
+      continue
+    }
+
+    onPitch.delete(playerOutId)
+    onPitch.set(playerInId, substitution.position ?? position)
+    if (Array.from(onPitch.values()).filter(p => p === 'GK').length > 1) {
+      errors.push(`${at}: two players would be in goal`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Players on the pitch, with positions, at the start of a section
+ */
+export const getLineupAtSection = (
+  starters: LineupStarter[],
+  substitutions: LineupSubstitution[],
+  section: number
+): LineupStarter[] => {
+  const onPitch = new Map(starters.map(starter => [starter.playerId, starter.position]))
+
+  for (const substitution of sortSubstitutions(substitutions).filter(s => s.section < section)) {
+    const position = onPitch.get(substitution.playerOutId)
+    if (!position) continue
+    onPitch.delete(substitution.playerOutId)
+    onPitch.set(substitution.playerInId, substitution.position ?? position)
+  }
+
+  return Array.from(onPitch, ([playerId, position]) => ({ playerId, position }))
+}
+
+/**
+ * Continuous spells on the pitch, one per player, position and section
+ */
+const getStints = (
+  starters: LineupStarter[],
+  substitutions: LineupSubstitution[],
+  format: MatchFormat
+): Stint[] => {
+  const sectionMinutes = getSectionMinutes(format)
+  const sorted = sortSubstitutions(substitutions)
+  const stints: Stint[] = []
+  const onPitch = new Map(starters.map(starter => [starter.playerId, starter.position]))
+
+  for (let section = 1; section <= format.sectionCount; section++) {
+    const since = new Map(Array.from(onPitch.keys()).map(playerId => [playerId, 0]))
+
+    for (const substitution of sorted.filter(s => s.section === section)) {
+      const position = onPitch.get(substitution.playerOutId)
+      if (!position) continue
+
+      const { playerOutId, playerInId, minute } = substitution
+      stints.push({ playerId: playerOutId, position, section, from: since.get(playerOutId) ?? 0, to: minute })
+      onPitch.delete(playerOutId)
+      since.delete(playerOutId)
+      onPitch.set(playerInId, substitution.position ?? position)
+      since.set(playerInId, minute)
+    }
+
+    for (const [playerId, position] of onPitch) {
+      stints.push({ playerId, position, section, from: since.get(playerId) ?? 0, to: sectionMinutes })
+    }
+  }
+
+  return stints
+}
+
+/**
+ * Attendance and goalkeeper grids for everyone who played, keyed by player id
+ */
+export const deriveAttendanceFromLineup = (
+  starters: LineupStarter[],
+  substitutions: LineupSubstitution[],
+  format: MatchFormat
+): Record<string, DerivedAttendance> => {
+  const minutesOnPitch = new Map<string, number>()   // key: "player|section|part"
+  const minutesInGoal = new Map<string, number>()
+  const playerIds = new Set<string>()
+
+  for (const stint of getStints(starters, substitutions, format)) {
+    playerIds.add(stint.playerId)
+    for (let part = 1; part <= format.partsPerSection; part++) {
+      const overlap = Math.min(stint.to, part * format.partMinutes) -
+        Math.max(stint.from, (part - 1) * format.partMinutes)
+      if (overlap <= 0) continue
+
+      const key = `${stint.playerId}|${stint.section}|${part}`
+      minutesOnPitch.set(key, (minutesOnPitch.get(key) ?? 0) + overlap)
+      if (stint.position === 'GK') {
+        minutesInGoal.set(key, (minutesInGoal.get(key) ?? 0) + overlap)
+      }
+    }
+  }
+
+  const grids: Record<string, DerivedAttendance> = {}
+  for (const playerId of playerIds) {
+    const grid = createEmptyAttendance(format)
+    for (const section of Object.keys(grid.attendance)) {
+      for (const part of Object.keys(grid.attendance[section])) {
+        const minutes = minutesOnPitch.get(`${playerId}|${section}|${part}`) ?? 0
+        grid.attendance[section][part] = Math.min(1, Math.round((minutes / format.partMinutes) * 2) / 2)
+      }
+    }
+    grids[playerId] = grid
+  }
+
+  // One goalkeeper per part: the longest in goal, counted as playing at least half of it
+  for (const { section, part } of getFormatSlots(format)) {
+    let keeperId: string | null = null
+    let longest = 0
+    for (const playerId of playerIds) {
+      const minutes = minutesInGoal.get(`${playerId}|${section}|${part}`) ?? 0
+      if (minutes > longest) {
+        keeperId = playerId
+        longest = minutes
+      }
+    }
+    if (keeperId) {
+      grids[keeperId].goalkeeper[section][part] = true
+      grids[keeperId].attendance[section][part] = Math.max(0.5, grids[keeperId].attendance[section][part])
+    }
+  }
+
+  return grids
+}
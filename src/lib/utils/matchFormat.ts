@@ -0,0 +1,122 @@
+/**
+ * Match format: how a match is split into sections and parts
+ *
+ * Attendance is recorded per part, fees are charged per part played, and
+ * the fee coefficient divides the match fees by the format's coefficient
+ * units: a fixed 10 per part, so part length never changes what a part costs.
+ * The default (3 sections × 3 parts × 10 minutes = 90 units) is the original
+ * fixed layout, so matches without a stored format behave as before.
+ */
+
+export interface MatchFormat {
+  sectionCount: number
+  partsPerSection: number
+  partMinutes: number
+}
+
+export const DEFAULT_MATCH_FORMAT: MatchFormat = {
+  sectionCount: 3,
+  partsPerSection: 3,
+  partMinutes: 10
+}
+
+export const MATCH_FORMAT_LIMITS = {
+  sectionCount: { min: 1, max: 6 },
+  partsPerSection: { min: 1, max: 6 },
+  partMinutes: { min: 1, max: 60 }
+} as const
+
+const SECTION_NUMERALS = ['一', '二', '三', '四', '五', '六', '七', '八', '九', '十']
+
+/**
+ * Read the format columns of a match record, falling back to the default
+ */
+export const toMatchFormat = (
+  source?: Partial<Record<keyof MatchFormat, number | null>> | null,
+  fallback: MatchFormat = DEFAULT_MATCH_FORMAT
+): MatchFormat => ({
+  sectionCount: source?.sectionCount ?? fallback.sectionCount,
+  partsPerSection: source?.partsPerSection ?? fallback.partsPerSection,
+  partMinutes: source?.partMinutes ?? fallback.partMinutes
+})
+
+// Coefficient units per part, independent of the part's length
+const COEFFICIENT_UNITS_PER_PART = 10
+
+/**
+ * Coefficient denominator of a match: its parts at a fixed 10 units each (90 for the default format)
+ */
+export const getCoefficientUnits = (format: MatchFormat): number =>
+  format.sectionCount * format.partsPerSection * COEFFICIENT_UNITS_PER_PART
+
+/**
+ * Length of a match in minutes
+ */
+export const getMatchMinutes = (format: MatchFormat): number =>
+  format.sectionCount * format.partsPerSection * format.partMinutes
+
+/**
+ * Every (section, part) slot in play order, both 1-based
+ */
+export const getFormatSlots = (format: MatchFormat): { section: number; part: number }[] => {
+  const slots: { section: number; part: number }[] = []
+  for (let section = 1; section <= format.sectionCount; section++) {
+    for (let part = 1; part <= format.partsPerSection; part++) {
+      slots.push({ section, part })
+    }
+  }
+  return slots
+}
+
+/**
+ * Whether any part outside the format has recorded attendance
+ */
+export const hasAttendanceOutsideFormat = (
+  attendance: Record<string, Record<string, number>> | undefined,
+  format: MatchFormat
+): boolean =>
+  Object.entries(attendance ?? {}).some(([section, parts]) =>
+    Object.entries(parts ?? {}).some(([part, value]) =>
+      Number(value) > 0 && (Number(section) > format.sectionCount || Number(part) > format.partsPerSection)
+    )
+  )
+
+/**
+ * Blank attendance/goalkeeper maps keyed by section and part ("1".."n")
+ */
+export const createEmptyAttendance = (format: MatchFormat): {
+  attendance: Record<string, Record<string, number>>
+  goalkeeper: Record<string, Record<string, boolean>>
+} => {
+  const attendance: Record<string, Record<string, number>> = {}
+  const goalkeeper: Record<string, Record<string, boolean>> = {}
+
+  for (const { section, part } of getFormatSlots(format)) {
+    attendance[section] = { ...attendance[section], [part]: 0 }
+    goalkeeper[section] = { ...goalkeeper[section], [part]: false }
+  }
+
+  return { attendance, goalkeeper }
+}
+
+/**
+ * Section heading, e.g. "第一节"
+ */
+export const getSectionLabel = (section: number): string =>
+  `第${SECTION_NUMERALS[section - 1] ?? section}节`
+
+/**
+ * Short description, e.g. "3节 × 3段 · 每段10分钟"
+ */
+export const formatMatchFormat = (format: MatchFormat): string =>
+  `${format.sectionCount}节 × ${format.partsPerSection}段 · 每段${format.partMinutes}分钟`
+
+/**
+ * Whether a format is within the supported limits
+ */
+export const isValidMatchFormat = (format: MatchFormat): boolean =>
+  (Object.keys(MATCH_FORMAT_LIMITS) as (keyof MatchFormat)[]).every(key =>
+    Number.isInteger(format[key]) &&
+    format[key] >= MATCH_FORMAT_LIMITS[key].min &&
+    format[key] <= MATCH_FORMAT_LIMITS[key].max
+  )
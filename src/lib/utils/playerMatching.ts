@@ -0,0 +1,124 @@
+/**
+ * Fuzzy player matching for imported sheets: ranks existing players for a name/shortId
+ * the import could not match, by shortId, name similarity, known aliases and pinyin initials.
+ */
+
+import { generatePinyinShortId, getPinyinInitials } from '@/lib/shortIdUtils'
+
+export type MatchReason = 'SHORT_ID' | 'NAME' | 'ALIAS' | 'PINYIN'
+
+export interface MatchCandidate {
+  id: string
+  name: string
+  shortId: string | null
+  aliases: string[]
+}
+
+export interface PlayerSuggestion {
+  userId: string
+  name: string
+  shortId: string | null
+  score: number          // 0-1, higher is a better match
+  reasons: MatchReason[]
+}
+
+const MIN_SUGGESTION_SCORE = 0.5
+
+/**
+ * Name as used for alias lookups: notes like (试训) removed, whitespace dropped, lowercase
+ */
+export const normalizePlayerName = (name: string) =>
+  name.replace(/[（(][^）)]*[）)]/g, '').replace(/\s+/g, '').toLowerCase()
+
+// Numbered short IDs (dh01) share their base (dh) with every other player of the same initials
+const shortIdBase = (shortId: string) => shortId.toLowerCase().replace(/\d+$/, '')
+
+const levenshtein = (a: string[], b: string[]) => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1))
+      previous = current
+    }
+  }
+  return row[b.length]
+}
+
+/**
+ * Similarity of two player names: 1 for equal, 0.85 when one contains the other (东辉 / 李东辉), else edit distance
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = Array.from(normalizePlayerName(a))
+  const right = Array.from(normalizePlayerName(b))
+  if (left.length === 0 || right.length === 0) return 0
+
+  const leftText = left.join('')
+  const rightText = right.join('')
+  if (leftText === rightText) return 1
+  if (Math.min(left.length, right.length) >= 2 && (leftText.includes(rightText) || rightText.includes(leftText))) {
+    return 0.85
+  }
+
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length)
+}
+
+const scoreCandidate = (
+  unknown: { name: string; shortId: string },
+  candidate: MatchCandidate
+): { score: number; reasons: MatchReason[] } => {
+  const scores: [MatchReason, number][] = []
+
+  if (unknown.shortId && candidate.shortId) {
+    if (unknown.shortId.toLowerCase() === candidate.shortId.toLowerCase()) {
+      scores.push(['SHORT_ID', 0.95])
+    } else if (shortIdBase(unknown.shortId) === shortIdBase(candidate.shortId)) {
+      scores.push(['SHORT_ID', 0.6])
+    }
+  }
+
+  scores.push(['NAME', nameSimilarity(unknown.name, candidate.name)])
+  for (const alias of candidate.aliases) {
+    scores.push(['ALIAS', nameSimilarity(unknown.name, alias)])
+  }
+
+  const cleanName = normalizePlayerName(unknown.name)
+  if (cleanName) {
+    if (candidate.shortId && generatePinyinShortId(cleanName) === shortIdBase(candidate.shortId)) {
+      scores.push(['PINYIN', 0.7])
+    }
+    if (getPinyinInitials(cleanName) === getPinyinInitials(normalizePlayerName(candidate.name))) {
+      scores.push(['PINYIN', 0.65])
+    }
+  }
+
+  const relevant = scores.filter(([, score]) => score >= MIN_SUGGESTION_SCORE)
+  return {
+    score: Math.max(0, ...relevant.map(([, score]) => score)),
+    reasons: Array.from(new Set(relevant.map(([reason]) => reason)))
+  }
+}
+
+/**
+ * Best existing players for an unmatched sheet player, most likely first
+ */
+export function suggestPlayers(
+  unknown: { name: string; shortId: string },
+  candidates: MatchCandidate[],
+  limit = 3
+): PlayerSuggestion[] {
+  return candidates
+    .map(candidate => ({ candidate, ...scoreCandidate(unknown, candidate) }))
+    .filter(({ score }) => score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate, score, reasons }) => ({
+      userId: candidate.id,
+      name: candidate.name,
+      shortId: candidate.shortId,
+      score: Math.round(score * 100) / 100,
+      reasons
+    }))
+}
@@ -0,0 +1,233 @@
+/**
+ * Derived player metrics from attendance parts and timed goals
+ *
+ * - Minutes played are the attendance shares of each part times the part length
+ * - Plus/minus is the team's goal difference over the parts a player was on the pitch;
+ *   only goals with a minute (match events and recorded conceded goals) can be placed
+ * - A goalkeeper keeps a clean sheet in a match when nothing went in while they were in
+ *   goal; a score with goals that have no minute rules that out for every keeper
+ * - Goals conceded in goal are the timed goals in a keeper's parts, plus the untimed ones
+ *   when they kept goal for the whole match; a clean-sheet section is a section kept in
+ *   full without a goal against
+ * - Form is a rolling average of a per-match score over the last few appearances
+ */
+
+import type { MatchResult } from '@prisma/client'
+import type { AttendanceData } from '@/lib/feeCalculation'
+import { getFormatSlots, type MatchFormat } from './matchFormat'
+
+// Appearances averaged into the form index
+export const FORM_WINDOW = 5
+
+const FORM_WEIGHTS = {
+  goal: 1,
+  assist: 0.75,
+  plusMinus: 0.25,
+  cleanSheet: 1,
+  win: 1,
+  draw: 0.5
+}
+
+export interface MatchGoalTimeline {
+  goalsFor: number[]        // Absolute minutes of our goals
+  goalsAgainst: number[]    // Absolute minutes of conceded goals, own goals included
+}
+
+export interface PlayerMatchInput {
+  matchId: string
+  matchDate: Date
+  format: MatchFormat
+  matchResult: MatchResult | null
+  ourScore: number | null
+  opponentScore: number | null
+  attendanceData: unknown
+  goals: number
+  assists: number
+  saves: number
+  timeline: MatchGoalTimeline
+}
+
+export interface PlayerMatchMetrics {
+  matchId: string
+  matchDate: Date
+  minutesPlayed: number
+  goals: number
+  assists: number
+  plusMinus: number
+  partsInGoal: number
+  goalsConcededInGoal: number
+  saves: number
+  cleanSheet: boolean
+  cleanSheetSections: number
+}
+
+export interface PlayerTrendPoint {
+  matchId: string
+  matchDate: Date
+  contributions: number     // Goals plus assists
+  plusMinus: number
+  form: number
+}
+
+export interface PlayerMetrics {
+  minutesPlayed: number
+  goalsPer90: number
+  assistsPer90: number
+  plusMinus: number
+  cleanSheets: number
+  matchesInGoal: number
+  partsInGoal: number
+  goalsConcededInGoal: number
+  saves: number
+  savePercentage: number | null   // Null when no shots on goal were faced
+  cleanSheetSections: number
+  form: number | null       // Null before the first appearance
+  trend: PlayerTrendPoint[] // Oldest first
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Section and part (both 1-based) an absolute match minute falls in, as entered in the event logger
+ */
+export const getMinuteSlot = (minute: number, format: MatchFormat): { section: number; part: number } => {
+  const sectionMinutes = format.partsPerSection * format.partMinutes
+  const section = Math.min(format.sectionCount, Math.max(1, Math.ceil(minute / sectionMinutes)))
+  const inSection = minute - (section - 1) * sectionMinutes
+  const part = Math.min(format.partsPerSection, Math.max(1, Math.ceil(inSection / format.partMinutes)))
+  return { section, part }
+}
+
+/**
+ * Rate per 90 minutes played
+ */
+export const getPer90 = (count: number, minutesPlayed: number): number =>
+  minutesPlayed > 0 ? round2((count * 90) / minutesPlayed) : 0
+
+/**
+ * Share of shots on goal saved, as a percentage of saves plus goals conceded
+ */
+export const getSavePercentage = (saves: number, goalsConceded: number): number | null => {
+  const faced = saves + goalsConceded
+  return faced > 0 ? Math.round((saves / faced) * 1000) / 10 : null
+}
+
+/**
+ * Win, draw or loss, from the stored result or else the score
+ */
+export const resolveMatchResult = (
+  matchResult: MatchResult | null,
+  ourScore: number | null,
+  opponentScore: number | null
+): MatchResult | null => {
+  if (matchResult) return matchResult
+  if (ourScore === null || opponentScore === null) return null
+  return ourScore > opponentScore ? 'WIN' : ourScore < opponentScore ? 'LOSE' : 'DRAW'
+}
+
+/**
+ * One player's numbers for one match
+ */
+export const getPlayerMatchMetrics = (input: PlayerMatchInput): PlayerMatchMetrics => {
+  const { attendance = {}, goalkeeper = {} } = (input.attendanceData ?? {}) as Partial<AttendanceData>
+  const slots = getFormatSlots(input.format)
+  const share = (section: number, part: number) => Number(attendance[section]?.[part]) || 0
+  const inGoal = (section: number, part: number) => !!goalkeeper[section]?.[part]
+
+  const minutesPlayed = slots.reduce((sum, { section, part }) => sum + share(section, part), 0) *
+    input.format.partMinutes
+  const partsInGoal = slots.filter(({ section, part }) => inGoal(section, part)).length
+
+  const onPitchAt = (minute: number) => {
+    const { section, part } = getMinuteSlot(minute, input.format)
+    return share(section, part) > 0
+  }
+  const plusMinus =
+    input.timeline.goalsFor.filter(onPitchAt).length -
+    input.timeline.goalsAgainst.filter(onPitchAt).length
+
+  // Goals the score has but no minute for could have gone in at any time
+  const untimedAgainst = Math.max(0, (input.opponentScore ?? 0) - input.timeline.goalsAgainst.length)
+  const againstSlots = input.timeline.goalsAgainst.map(minute => getMinuteSlot(minute, input.format))
+  const concededInGoal = againstSlots.filter(({ section, part }) => inGoal(section, part)).length
+  const cleanSheet = partsInGoal > 0 && concededInGoal === 0 && untimedAgainst === 0
+
+  // Untimed goals can only be put on a keeper who was in goal throughout
+  const goalsConcededInGoal = concededInGoal + (partsInGoal === slots.length ? untimedAgainst : 0)
+  const cleanSheetSections = untimedAgainst > 0 ? 0 : Array.from(
+    { length: input.format.sectionCount },
+    (_, index) => index + 1
+  ).filter(section =>
+    slots.every(slot => slot.section !== section || inGoal(section, slot.part)) &&
+    againstSlots.every(slot => slot.section !== section)
+  ).length
+
+  return {
+    matchId: input.matchId,
+    matchDate: input.matchDate,
+    minutesPlayed,
+    goals: input.goals,
+    assists: input.assists,
+    plusMinus,
+    partsInGoal,
+    goalsConcededInGoal,
+    saves: input.saves,
+    cleanSheet,
+    cleanSheetSections
+  }
+}
+
+/**
+ * Per-match score averaged into the form index
+ */
+const getFormScore = (metrics: PlayerMatchMetrics, result: MatchResult | null): number =>
+  FORM_WEIGHTS.goal * metrics.goals +
+  FORM_WEIGHTS.assist * metrics.assists +
+  FORM_WEIGHTS.plusMinus * metrics.plusMinus +
+  (metrics.cleanSheet ? FORM_WEIGHTS.cleanSheet : 0) +
+  (result === 'WIN' ? FORM_WEIGHTS.win : result === 'DRAW' ? FORM_WEIGHTS.draw : 0)
+
+/**
+ * Totals, rates and the form trend over a player's matches
+ */
+export const getPlayerMetrics = (matches: PlayerMatchInput[]): PlayerMetrics => {
+  const ordered = [...matches].sort((a, b) => a.matchDate.getTime() - b.matchDate.getTime())
+  const perMatch = ordered.map(input => ({
+    metrics: getPlayerMatchMetrics(input),
+    result: resolveMatchResult(input.matchResult, input.ourScore, input.opponentScore)
+  }))
+
+  const scores = perMatch.map(({ metrics, result }) => getFormScore(metrics, result))
+  const trend = perMatch.map(({ metrics }, index) => {
+    const window = scores.slice(Math.max(0, index - FORM_WINDOW + 1), index + 1)
+    return {
+      matchId: metrics.matchId,
+      matchDate: metrics.matchDate,
+      contributions: metrics.goals + metrics.assists,
+      plusMinus: metrics.plusMinus,
+      form: round2(window.reduce((sum, score) => sum + score, 0) / window.length)
+    }
+  })
+
+  const total = (
+    key: 'minutesPlayed' | 'goals' | 'assists' | 'plusMinus' | 'partsInGoal' | 'goalsConcededInGoal' |
+      'saves' | 'cleanSheetSections'
+  ) => perMatch.reduce((sum, { metrics }) => sum + metrics[key], 0)
+  const minutesPlayed = total('minutesPlayed')
+
+  return {
+    minutesPlayed,
+    goalsPer90: getPer90(total('goals'), minutesPlayed),
+    assistsPer90: getPer90(total('assists'), minutesPlayed),
+    plusMinus: total('plusMinus'),
+    cleanSheets: perMatch.filter(({ metrics }) => metrics.cleanSheet).length,
+    matchesInGoal: perMatch.filter(({ metrics }) => metrics.partsInGoal > 0).length,
+    partsInGoal: total('partsInGoal'),
+    goalsConcededInGoal: total('goalsConcededInGoal'),
+    saves: total('saves'),
+    savePercentage: getSavePercentage(total('saves'), total('goalsConcededInGoal')),
+    cleanSheetSections: total('cleanSheetSections'),
+    form: trend.length > 0 ? trend[trend.length - 1].form : null,
+    trend
+  }
+}
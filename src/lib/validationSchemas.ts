@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { MATCH_FORMAT_LIMITS } from '@/lib/utils/matchFormat'
 
 // Common validation schemas
 export const IdParamSchema = z.object({
@@ -31,6 +32,16 @@ export const RestoreUserSchema = z.object({
   confirmed: z.boolean().default(true)
 })
 
+// Match format schema (sections × parts per section, minutes per part)
+const formatField = (key: keyof typeof MATCH_FORMAT_LIMITS) =>
+  z.number().int().min(MATCH_FORMAT_LIMITS[key].min).max(MATCH_FORMAT_LIMITS[key].max)
+
+export const MatchFormatSchema = z.object({
+  sectionCount: formatField('sectionCount'),
+  partsPerSection: formatField('partsPerSection'),
+  partMinutes: formatField('partMinutes')
+})
+
 // Match schemas
 export const CreateMatchSchema = z.object({
   matchDate: z.string().datetime(),
@@ -41,9 +52,12 @@ export const CreateMatchSchema = z.object({
   fieldFeeTotal: z.number().min(0),
   waterFeeTotal: z.number().min(0),
   notes: z.string().max(1000).nullable().optional()
-})
+}).extend(MatchFormatSchema.partial().shape)
 
-export const UpdateMatchSchema = CreateMatchSchema.partial()
+// The format is changed through the match info endpoint, which guards recorded attendance
+export const UpdateMatchSchema = CreateMatchSchema
+  .omit({ sectionCount: true, partsPerSection: true, partMinutes: true })
+  .partial()
 
 // Stats query schema
 const optionalStatsNumber = (min: number, max: number) =>
@@ -59,7 +73,9 @@ const optionalStatsNumber = (min: number, max: number) =>
 export const StatsQuerySchema = z.object({
   type: z.enum(['team', 'player']).optional(),
   year: optionalStatsNumber(2020, 2030),
-  month: optionalStatsNumber(1, 12)
+  month: optionalStatsNumber(1, 12),
+  // Season id; takes precedence over year/month when present
+  season: z.string().min(1).nullish().transform(value => value || undefined)
 })
 
 // Match event schema
@@ -89,7 +105,7 @@ export const MatchInfoUpdateSchema = z.object({
   fieldFeeTotal: z.number().min(0).optional(),
   waterFeeTotal: z.number().min(0).optional(),
   notes: z.string().max(1000).nullable().optional()
-})
+}).extend(MatchFormatSchema.partial().shape)
 
 export const SelectedPlayersSchema = z.object({
   playerIds: z.array(z.string().min(1)).min(0).max(50)
@@ -102,6 +118,7 @@ export const AttendanceUpdateSchema = z.object({
     isLateArrival: z.boolean()
   })),
   events: z.array(z.object({
+    id: z.string().min(1).optional(),
     playerId: z.string().min(1),
     eventType: z.enum([
       'GOAL', 
@@ -113,7 +130,9 @@ export const AttendanceUpdateSchema = z.object({
       'OWN_GOAL',
       'SAVE'
     ]),
-    minute: z.number().int().min(0).max(120).optional()
+    minute: z.number().int().min(0).max(120).optional(),
+    // On an ASSIST: id of the goal event (in this list) it set up
+    goalEventId: z.string().min(1).optional()
   })).optional().default([]),
   matchInfo: z.object({
     fieldFeeTotal: z.number().min(0),
@@ -135,6 +154,224 @@ export const FeesUpdateSchema = z.object({
   manualOverrides: z.record(z.string(), FeeOverrideSchema)
 })
 
+// Dry-run fee preview: any omitted part of the payload keeps the stored data
+export const FeePreviewSchema = z.object({
+  attendanceData: AttendanceUpdateSchema.shape.attendanceData.optional(),
+  matchInfo: AttendanceUpdateSchema.shape.matchInfo,
+  manualOverrides: z.record(z.string(), FeeOverrideSchema).optional()
+})
+
+export const RecordPaymentSchema = z.object({
+  playerId: z.string().min(1),
+  amount: z.number().positive(),
+  method: z.enum(['WECHAT', 'ALIPAY', 'CASH', 'BANK_TRANSFER', 'OTHER']).optional(),
+  paidBy: z.string().max(100).nullable().optional(),
+  paidAt: z.string().datetime().optional(),
+  notes: z.string().max(500).nullable().optional()
+})
+
+// Match comment schemas
+export const MAX_COMMENT_IMAGES = 4
+
+export const CreateCommentSchema = z.object({
+  content: z.string().trim().min(1, 'Comment cannot be empty').max(1000),
+  parentCommentId: z.string().min(1).nullable().optional(),
+  images: z.array(z.string().url()).max(MAX_COMMENT_IMAGES, `At most ${MAX_COMMENT_IMAGES} images per comment`).optional()
+})
+
+export const DeleteCommentImageSchema = z.object({
+  url: z.string().url()
+})
+
+export const UpdateCommentSchema = z.object({
+  content: z.string().trim().min(1, 'Comment cannot be empty').max(1000)
+})
+
+const videoMetadataFields = {
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().max(1000).nullable().optional(),
+  storageType: z.enum(['LOCAL', 'S3']).default('LOCAL'),
+  durationSeconds: z.coerce.number().int().min(0).nullable().optional(),
+  thumbnailUrl: z.string().url().nullable().optional()
+}
+
+// Multipart upload: metadata fields arrive as strings alongside the file
+export const UploadVideoSchema = z.object(videoMetadataFields)
+
+// Register footage that already lives in storage (e.g. uploaded straight to S3)
+export const RegisterVideoSchema = z.object({
+  ...videoMetadataFields,
+  filePath: z.string().trim().min(1, 'File path is required'),
+  fileSize: z.number().int().min(0).nullable().optional(),
+  cdnUrl: z.string().url().nullable().optional()
+})
+
+// Pre-match availability (RSVP)
+export const RsvpSchema = z.object({
+  response: z.enum(['YES', 'NO', 'MAYBE']),
+  note: z.string().trim().max(200).nullable().optional()
+})
+
+// Season create/replace (default fee rates are optional; unset falls back to system settings)
+const optionalSeasonRate = z.number().min(0).nullable().optional()
+
+export const SeasonSchema = z.object({
+  name: z.string().trim().min(1, 'Season name is required').max(50),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  fieldFeeTotal: optionalSeasonRate,
+  waterFeeTotal: optionalSeasonRate,
+  lateFeeRate: optionalSeasonRate,
+  videoFeePerUnit: optionalSeasonRate
+}).refine(
+  data => data.startDate <= data.endDate,
+  { message: 'Start date must not be after end date', path: ['endDate'] }
+)
+
+// Fee policy version (percentages are 0-100; unset min/max means no floor/cap)
+const optionalCharge = z.number().min(0).nullable().optional()
+
+export const FeePolicySchema = z.object({
+  name: z.string().trim().min(1, 'Policy name is required').max(50),
+  effectiveFrom: z.coerce.date(),
+  goalkeeperDiscountPercent: z.number().min(0).max(100).default(100),
+  trialDiscountPercent: z.number().min(0).max(100).default(0),
+  minimumCharge: optionalCharge,
+  maximumCharge: optionalCharge,
+  roundingMode: z.enum(['ROUND', 'CEIL', 'FLOOR']).default('ROUND'),
+  notes: z.string().trim().max(500).nullable().optional()
+}).refine(
+  data => data.minimumCharge == null || data.maximumCharge == null || data.minimumCharge <= data.maximumCharge,
+  { message: 'Minimum charge must not exceed the maximum charge', path: ['maximumCharge'] }
+)
+
+// Duplicate player merge
+export const MergePlayersQuerySchema = z.object({
+  sourceId: z.string().min(1, 'Source player is required'),
+  targetId: z.string().min(1, 'Target player is required')
+})
+
+export const MergePlayersSchema = MergePlayersQuerySchema.extend({
+  // Per conflicting match id; matches without an entry keep the target's records
+  resolutions: z.record(z.string(), z.enum(['KEEP_TARGET', 'KEEP_SOURCE'])).default({})
+})
+
+// Ghost account claim review
+export const ClaimStatusQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional()
+})
+
+export const ReviewClaimSchema = z.object({
+  action: z.enum(['approve', 'reject']),
+  reason: z.string().trim().max(500).nullable().optional()
+})
+
+// Email notification opt-outs and balance reminders
+export const NotificationPreferencesSchema = z.object({
+  optOuts: z.array(z.enum(['MATCH_UPDATES', 'FEE_BREAKDOWNS', 'BALANCE_REMINDERS']))
+})
+
+export const BalanceReminderSchema = z.object({
+  playerIds: z.array(z.string().min(1)).optional()
+})
+
+// Audit log query (all filters optional; dates are inclusive, YYYY-MM-DD or ISO)
+export const AuditLogQuerySchema = PaginationSchema.extend({
+  limit: z.coerce.number().min(1).max(100).optional().default(20),
+  tableName: z.string().min(1).optional(),
+  recordId: z.string().trim().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+})
+
+// Monthly fee statement query (month is YYYY-MM)
+export const StatementQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format'),
+  playerId: z.string().min(1).optional(),
+  format: z.enum(['json', 'html', 'xlsx']).optional().default('json')
+})
+
+// Club treasury entries and report range (dates are inclusive, YYYY-MM-DD or ISO)
+export const TreasuryEntrySchema = z.object({
+  direction: z.enum(['INCOME', 'EXPENSE']),
+  category: z.enum(['FIELD', 'WATER', 'VIDEO_EDITING', 'EQUIPMENT', 'SPONSORSHIP', 'OTHER']),
+  amount: z.number().positive('Amount must be greater than zero'),
+  occurredAt: z.coerce.date(),
+  matchId: z.string().min(1).nullable().optional(),
+  description: z.string().trim().max(200).nullable().optional()
+})
+
+export const TreasuryRangeQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+})
+
+// Season workbook import (multipart form fields arrive as strings)
+export const SeasonImportSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  commit: z.enum(['true', 'false']).optional().default('false')
+})
+
+// Unknown Excel players: map each sheet name to an existing player or create a GHOST player
+export const PlayerAliasResolutionSchema = z.object({
+  resolutions: z.array(z.object({
+    excelName: z.string().trim().min(1, 'Player name is required'),
+    action: z.enum(['MAP', 'CREATE_GHOST']),
+    userId: z.string().optional()
+  }).refine(
+    data => data.action !== 'MAP' || !!data.userId,
+    { message: 'A player is required when mapping a name', path: ['userId'] }
+  )).min(1, 'At least one resolution is required')
+})
+
+// Merge an opponent entered under another name into the one it duplicates
+export const OpponentMergeSchema = z.object({
+  sourceId: z.string().min(1, 'Source opponent is required'),
+  targetId: z.string().min(1, 'Target opponent is required')
+})
+
+const LineupPositionSchema = z.enum([
+  'GK',
+  'CB', 'LB', 'RB', 'LWB', 'RWB',
+  'DMF', 'CMF', 'AMF', 'LMF', 'RMF',
+  'CF', 'ST', 'SS', 'LWF', 'RWF'
+])
+
+// Starting line-up and substitutions of a match, saved as a whole
+export const LineupSchema = z.object({
+  formation: z.string().regex(/^\d(-\d){1,4}$/, 'Formation must look like 4-3-3').nullable().optional(),
+  starters: z.array(z.object({
+    playerId: z.string().min(1, 'Player is required'),
+    position: LineupPositionSchema
+  })).max(11, 'A line-up has at most 11 starters'),
+  substitutions: z.array(z.object({
+    section: z.number().int().min(1),
+    minute: z.number().int().min(0),
+    playerOutId: z.string().min(1, 'Player going off is required'),
+    playerInId: z.string().min(1, 'Player coming on is required'),
+    position: LineupPositionSchema.nullable().optional()
+  })).default([])
+})
+
+const TeamSideSchema = z.enum(['A', 'B'])
+
+// Suggest two sides; locked players stay on their side, a new seed reshuffles the rest
+export const TeamBalanceSchema = z.object({
+  locks: z.record(z.string(), TeamSideSchema).default({}),
+  seed: z.number().int().optional()
+})
+
+// Side per selected player; an empty map clears the split
+export const TeamSplitSchema = z.object({
+  sides: z.record(z.string(), TeamSideSchema)
+})
+
+// Absolute match minutes of the opponent's goals; an empty list clears them
+export const ConcededGoalsSchema = z.object({
+  minutes: z.array(z.number().int().min(0)).max(50)
+})
+
 // Validation helper function
 export function validateRequest<T>(
   schema: z.ZodSchema<T>,
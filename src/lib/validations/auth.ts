@@ -25,6 +25,20 @@ export const adminSetPasswordSchema = z.object({
     .regex(/[0-9]/, "Password must contain at least one number")
 });
 
+// Self-service registration that claims an admin-created ghost account
+export const claimRegistrationSchema = z.object({
+  ghostUserId: z.string().cuid("请选择要认领的球员"),
+  claimantName: z.string().trim().min(1, "请输入您的姓名").max(50),
+  email: z.string().trim().toLowerCase().email("请输入有效的邮箱地址"),
+  phone: z.string().trim().max(20).optional(),
+  password: z.string()
+    .min(8, "密码至少8位")
+    .regex(/[A-Za-z]/, "密码需包含字母")
+    .regex(/[0-9]/, "密码需包含数字"),
+  message: z.string().trim().max(500).optional()
+});
+
 export type LoginInput = z.infer<typeof loginSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
-export type AdminSetPasswordInput = z.infer<typeof adminSetPasswordSchema>;
\ No newline at end of file
+export type AdminSetPasswordInput = z.infer<typeof adminSetPasswordSchema>;
+export type ClaimRegistrationInput = z.infer<typeof claimRegistrationSchema>;
\ No newline at end of file
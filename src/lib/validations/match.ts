@@ -13,6 +13,9 @@ export const matchInfoSchema = z.object({
   waterFeeTotal: z.union([z.number(), z.string().transform(Number)]),
   lateFeeRate: z.union([z.number(), z.string().transform(Number)]).optional(),
   videoFeePerUnit: z.union([z.number(), z.string().transform(Number)]).optional(),
+  sectionCount: z.number().int().optional(),
+  partsPerSection: z.number().int().optional(),
+  partMinutes: z.number().int().optional(),
   notes: z.string().nullable().optional(),
   status: z.string().optional(),
   createdAt: z.string(),
@@ -73,6 +76,7 @@ export const matchEventSchema = z.object({
   ]),
   minute: z.number().int().min(0).max(120).optional(),
   description: z.string().optional(),
+  goalEventId: z.string().optional(), // ASSIST only: the goal it set up
 })
 
 export type MatchEvent = z.infer<typeof matchEventSchema>
@@ -112,6 +116,31 @@ export const feeOverridesSchema = z.record(z.string(), feeOverrideSchema)
 
 export type FeeOverrides = z.infer<typeof feeOverridesSchema>
 
+// Fee Preview Schema (dry-run of unsaved changes, diffed against stored fees)
+const previewFeesSchema = z.object({
+  fieldFee: z.number(),
+  videoFee: z.number(),
+  lateFee: z.number(),
+  totalFee: z.number(),
+})
+
+export const feePreviewSchema = z.object({
+  matchId: z.string(),
+  feeCoefficient: z.number(),
+  totalBefore: z.number(),
+  totalAfter: z.number(),
+  players: z.array(z.object({
+    playerId: z.string(),
+    playerName: z.string(),
+    status: z.enum(['ADDED', 'REMOVED', 'CHANGED', 'UNCHANGED']),
+    before: previewFeesSchema.nullable(),
+    after: previewFeesSchema.nullable(),
+    difference: z.number(),
+  })),
+})
+
+export type FeePreview = z.infer<typeof feePreviewSchema>
+
 // Attendance Stats Schema
 export const attendanceStatsSchema = z.object({
   totalParticipants: z.number(),
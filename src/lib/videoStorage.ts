@@ -0,0 +1,140 @@
+/**
+ * Match Video Storage
+ *
+ * Stores match footage on local disk or in S3 depending on StorageType.
+ * Local files are streamed through /api/games/[id]/videos/[videoId]/file,
+ * S3 objects are served from CloudFront.
+ */
+
+import { createReadStream, createWriteStream } from 'fs'
+import { mkdir, rm, stat } from 'fs/promises'
+import path from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import type { StorageType } from '@prisma/client'
+
+// Video upload configuration
+export const VIDEO_UPLOAD_CONFIG = {
+  maxSize: 2 * 1024 * 1024 * 1024, // 2GB
+  allowedTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+}
+
+export const LOCAL_VIDEO_DIR = process.env.VIDEO_STORAGE_DIR || path.join(process.cwd(), 'storage', 'videos')
+
+export interface StoredVideo {
+  filePath: string
+  fileSize: number
+  s3Bucket?: string
+  s3Region?: string
+  cdnUrl?: string
+}
+
+export interface VideoStorage {
+  save(file: File, fileKey: string): Promise<StoredVideo>
+  remove(filePath: string): Promise<void>
+}
+
+// Validate video type and size
+export function validateVideoFile(file: File): { valid: boolean; error?: string } {
+  if (file.size > VIDEO_UPLOAD_CONFIG.maxSize) {
+    const maxSizeGB = Math.round(VIDEO_UPLOAD_CONFIG.maxSize / (1024 * 1024 * 1024))
+    return { valid: false, error: `视频大小不能超过 ${maxSizeGB}GB` }
+  }
+
+  if (!VIDEO_UPLOAD_CONFIG.allowedTypes.includes(file.type)) {
+    return { valid: false, error: '只支持 MP4、WebM、MOV 格式的视频' }
+  }
+
+  return { valid: true }
+}
+
+// Generate a storage key grouped by match, e.g. video/<matchId>/<timestamp>.mp4
+export function generateVideoKey(matchId: string, fileName: string): string {
+  const extension = fileName.split('.').pop()?.toLowerCase() || 'mp4'
+  return `video/${matchId}/${Date.now()}.${extension}`
+}
+
+// Resolve a stored local path, refusing anything outside the video directory
+export function resolveLocalVideoPath(filePath: string): string {
+  const root = path.resolve(LOCAL_VIDEO_DIR)
+  const resolved = path.resolve(root, filePath)
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error(`Invalid video path: ${filePath}`)
+  }
+  return resolved
+}
+
+// Open a local video for streaming, optionally limited to a byte range;
+// the stream is null when the range does not fit the file
+export async function openLocalVideo(
+  filePath: string,
+  range?: { start: number; end?: number }
+): Promise<{ stream: Readable | null; size: number; start: number; end: number }> {
+  const resolved = resolveLocalVideoPath(filePath)
+  const { size } = await stat(resolved)
+  const start = range?.start ?? 0
+  const end = Math.min(range?.end ?? size - 1, size - 1)
+
+  if (start >= size || end < start) {
+    return { stream: null, size, start, end }
+  }
+
+  return {
+    stream: createReadStream(resolved, { start, end }),
+    size,
+    start,
+    end
+  }
+}
+
+const localVideoStorage: VideoStorage = {
+  async save(file, fileKey) {
+    const target = resolveLocalVideoPath(fileKey)
+    await mkdir(path.dirname(target), { recursive: true })
+    await pipeline(
+      Readable.fromWeb(file.stream() as unknown as NodeReadableStream),
+      createWriteStream(target)
+    )
+
+    return { filePath: fileKey, fileSize: file.size }
+  },
+
+  async remove(filePath) {
+    await rm(resolveLocalVideoPath(filePath), { force: true })
+  }
+}
+
+const s3VideoStorage: VideoStorage = {
+  async save(file, fileKey) {
+    // Imported lazily so local-only deployments don't need AWS credentials
+    const { s3Client, AWS_CONFIG } = await import('@/lib/aws')
+    const { PutObjectCommand } = await import('@aws-sdk/client-s3')
+
+    await s3Client.send(new PutObjectCommand({
+      Bucket: AWS_CONFIG.bucketName,
+      Key: fileKey,
+      Body: Readable.fromWeb(file.stream() as unknown as NodeReadableStream),
+      ContentLength: file.size,
+      ContentType: file.type,
+      CacheControl: 'max-age=31536000',
+    }))
+
+    return {
+      filePath: fileKey,
+      fileSize: file.size,
+      s3Bucket: AWS_CONFIG.bucketName,
+      s3Region: AWS_CONFIG.region,
+      cdnUrl: `${AWS_CONFIG.cloudFrontDomain}/${fileKey}`
+    }
+  },
+
+  async remove(filePath) {
+    const { deleteFromS3 } = await import('@/lib/aws')
+    await deleteFromS3(filePath)
+  }
+}
+
+export function getVideoStorage(storageType: StorageType): VideoStorage {
+  return storageType === 'S3' ? s3VideoStorage : localVideoStorage
+}
@@ -3,7 +3,7 @@ import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 
 const PUBLIC_PAGE_PREFIXES = ["/leaderboard", "/games"];
-const PUBLIC_API_PREFIXES = ["/api/games", "/api/stats", "/api/leaderboard", "/api/statistics"];
+const PUBLIC_API_PREFIXES = ["/api/games", "/api/stats", "/api/leaderboard", "/api/statistics", "/api/claims", "/api/seasons", "/api/opponents"];
 
 const isPublicPage = (pathname: string) => {
   if (pathname === "/") {
@@ -36,8 +36,8 @@ export default withAuth(
     const token = req.nextauth.token;
     const { pathname } = req.nextUrl;
 
-    // Allow access to login and welcome pages
-    if (pathname === "/login" || pathname === "/welcome") {
+    // Allow access to login, registration and welcome pages
+    if (pathname === "/login" || pathname === "/register" || pathname === "/welcome") {
       return NextResponse.next();
     }
 
@@ -79,8 +79,8 @@ export default withAuth(
       authorized: ({ token, req }) => {
         const { pathname } = req.nextUrl;
         
-        // Always allow login and welcome pages
-        if (pathname === "/login" || pathname === "/welcome") {
+        // Always allow login, registration and welcome pages
+        if (pathname === "/login" || pathname === "/register" || pathname === "/welcome") {
           return true;
         }
 
@@ -10,10 +10,12 @@ import {
   type AttendanceStats,
   type AttendanceDataItem,
   type MatchEvent,
+  type FeePreview,
   matchInfoSchema,
   attendanceGridSchema,
 } from '@/lib/validations/match'
 import { calculateCoefficient } from '@/lib/utils/coefficient'
+import { createEmptyAttendance, getFormatSlots, toMatchFormat } from '@/lib/utils/matchFormat'
 
 // Store State Interface
 interface MatchStoreState {
@@ -73,6 +75,7 @@ interface MatchStoreActions {
   saveAttendance: () => Promise<void>
   saveFees: () => Promise<void>
   saveAll: () => Promise<void>
+  previewFees: () => Promise<FeePreview | null>
 
   // Computed Getters
   getCalculatedFees: () => FeeCalculations
@@ -88,6 +91,71 @@ interface MatchStoreActions {
 
 type MatchStore = MatchStoreState & MatchStoreActions
 
+type OverridePayload = {
+  fieldFeeOverride?: number | null
+  videoFeeOverride?: number | null
+  lateFeeOverride?: number | null
+  notes?: string | null
+}
+
+// Attendance grid -> per-player attendance/goalkeeper maps the attendance API expects
+const toAttendancePayload = (
+  attendanceData: AttendanceGrid,
+  selectedPlayers: Player[],
+  matchInfo: MatchInfo
+) => {
+  const transformedData: Record<string, any> = {}
+  const selectedPlayerIds = new Set(selectedPlayers.map(p => p.id))
+  const userAttendanceMap = new Map<string, any>()
+  const format = toMatchFormat(matchInfo)
+
+  attendanceData.forEach(item => {
+    if (!selectedPlayerIds.has(item.userId)) return
+    
+    if (item.section > format.sectionCount || item.part > format.partsPerSection) return
+    
+    if (!userAttendanceMap.has(item.userId)) {
+      userAttendanceMap.set(item.userId, {
+        ...createEmptyAttendance(format),
+        isLateArrival: false
+      })
+    }
+
+    const userData = userAttendanceMap.get(item.userId)!
+    userData.attendance[item.section.toString()][item.part.toString()] = item.value
+    if (item.isGoalkeeper) userData.goalkeeper[item.section.toString()][item.part.toString()] = true
+    if (item.isLateArrival) userData.isLateArrival = true
+  })
+
+  userAttendanceMap.forEach((userData, userId) => {
+    transformedData[userId] = {
+      attendance: userData.attendance,
+      goalkeeper: userData.goalkeeper,
+      isLateArrival: userData.isLateArrival
+    }
+  })
+
+  return transformedData
+}
+
+// Pending overrides -> fee API payload; unset components are left out so stored values stay
+const toOverridePayload = (feeOverrides: FeeOverrides) => Object.entries(feeOverrides).reduce(
+  (acc, [playerId, override]) => {
+    const payload: OverridePayload = {}
+
+    if (override.fieldFee !== undefined) payload.fieldFeeOverride = override.fieldFee
+    if (override.videoFee !== undefined) payload.videoFeeOverride = override.videoFee
+    if (override.lateFee !== undefined) payload.lateFeeOverride = override.lateFee
+    if (override.notes !== undefined) payload.notes = override.notes
+
+    if (Object.keys(payload).length > 0) {
+      acc[playerId] = payload
+    }
+    return acc
+  },
+  {} as Record<string, OverridePayload>
+)
+
 // Initial State
 const initialState: MatchStoreState = {
   matchInfo: null,
@@ -236,6 +304,7 @@ export const useMatchStore = create<MatchStore>()(
           
           // Get selected players for filtering
           const selectedPlayerIds = new Set(data.data.selectedPlayers || [])
+          const format = toMatchFormat(data.data.format ?? get().matchInfo)
           
           // Check if we have attendance data
           if (data.data.attendanceData && Object.keys(data.data.attendanceData).length > 0) {
@@ -244,24 +313,22 @@ export const useMatchStore = create<MatchStore>()(
               
               const { attendance, goalkeeper, isLateArrival } = userData
               
-              // Convert back to grid format
-              for (let section = 1; section <= 3; section++) {
-                for (let part = 1; part <= 3; part++) {
-                  const sectionStr = section.toString()
-                  const partStr = part.toString()
-                  
-                  attendanceArray.push({
-                    userId,
-                    section,
-                    part,
-                    value: attendance?.[sectionStr]?.[partStr] || 0,
-                    isGoalkeeper: goalkeeper?.[sectionStr]?.[partStr] || false,
-                    isLateArrival: isLateArrival || false,
-                    goals: 0, // Legacy field, kept for compatibility but should be ignored
-                    assists: 0, // Legacy field
-                  })
-                }
-              }
+              // Convert back to grid format, one item per part of the match format
+              getFormatSlots(format).forEach(({ section, part }) => {
+                const sectionStr = section.toString()
+                const partStr = part.toString()
+                
+                attendanceArray.push({
+                  userId,
+                  section,
+                  part,
+                  value: attendance?.[sectionStr]?.[partStr] || 0,
+                  isGoalkeeper: goalkeeper?.[sectionStr]?.[partStr] || false,
+                  isLateArrival: isLateArrival || false,
+                  goals: 0, // Legacy field, kept for compatibility but should be ignored
+                  assists: 0, // Legacy field
+                })
+              })
             })
           }
 
@@ -274,7 +341,8 @@ export const useMatchStore = create<MatchStore>()(
                  playerId: event.playerId,
                  eventType: event.eventType,
                  minute: event.minute,
-                 description: event.description
+                 description: event.description,
+                 goalEventId: event.goalEventId ?? undefined
                })
              })
           } else if (data.data.eventsSummary) {
@@ -449,7 +517,8 @@ export const useMatchStore = create<MatchStore>()(
     removeEvent: (eventId: string) => {
       set(state => ({
         ...state,
-        events: state.events.filter(e => e.id !== eventId),
+        // A goal and the assist that set it up are recorded and removed together
+        events: state.events.filter(e => e.id !== eventId && e.goalEventId !== eventId),
         isDirty: { ...state.isDirty, attendance: true }
       }))
     },
@@ -515,6 +584,7 @@ export const useMatchStore = create<MatchStore>()(
           opponentScore: matchInfo.opponentScore === '' || matchInfo.opponentScore === undefined || matchInfo.opponentScore === null ? null : Number(matchInfo.opponentScore),
           fieldFeeTotal: Number(matchInfo.fieldFeeTotal),
           waterFeeTotal: Number(matchInfo.waterFeeTotal),
+          ...toMatchFormat(matchInfo),
           notes: matchInfo.notes || null
         }
 
@@ -622,43 +692,8 @@ export const useMatchStore = create<MatchStore>()(
       }))
 
       try {
-        // Transform attendance data to the new API format
-        const transformedData: Record<string, any> = {}
+        const transformedData = toAttendancePayload(attendanceData, selectedPlayers, matchInfo)
         const selectedPlayerIds = new Set(selectedPlayers.map(p => p.id))
-        const userAttendanceMap = new Map<string, any>()
-
-        attendanceData.forEach(item => {
-          if (!selectedPlayerIds.has(item.userId)) return
-          
-          if (!userAttendanceMap.has(item.userId)) {
-            userAttendanceMap.set(item.userId, {
-              attendance: {
-                "1": {"1": 0, "2": 0, "3": 0},
-                "2": {"1": 0, "2": 0, "3": 0},
-                "3": {"1": 0, "2": 0, "3": 0}
-              },
-              goalkeeper: {
-                "1": {"1": false, "2": false, "3": false},
-                "2": {"1": false, "2": false, "3": false},
-                "3": {"1": false, "2": false, "3": false}
-              },
-              isLateArrival: false
-            })
-          }
-
-          const userData = userAttendanceMap.get(item.userId)!
-          userData.attendance[item.section.toString()][item.part.toString()] = item.value
-          if (item.isGoalkeeper) userData.goalkeeper[item.section.toString()][item.part.toString()] = true
-          if (item.isLateArrival) userData.isLateArrival = true
-        })
-
-        userAttendanceMap.forEach((userData, userId) => {
-          transformedData[userId] = {
-            attendance: userData.attendance,
-            goalkeeper: userData.goalkeeper,
-            isLateArrival: userData.isLateArrival
-          }
-        })
 
         // Filter events for selected players only
         const filteredEvents = events.filter(e => selectedPlayerIds.has(e.playerId))
@@ -715,32 +750,7 @@ export const useMatchStore = create<MatchStore>()(
       }))
 
       try {
-        const manualOverrides = Object.entries(feeOverrides).reduce(
-          (acc, [playerId, override]) => {
-            const payload: {
-              fieldFeeOverride?: number | null
-              videoFeeOverride?: number | null
-              lateFeeOverride?: number | null
-              notes?: string | null
-            } = {}
-
-            if (override.fieldFee !== undefined) payload.fieldFeeOverride = override.fieldFee
-            if (override.videoFee !== undefined) payload.videoFeeOverride = override.videoFee
-            if (override.lateFee !== undefined) payload.lateFeeOverride = override.lateFee
-            if (override.notes !== undefined) payload.notes = override.notes
-
-            if (Object.keys(payload).length > 0) {
-              acc[playerId] = payload
-            }
-            return acc
-          },
-          {} as Record<string, {
-            fieldFeeOverride?: number | null
-            videoFeeOverride?: number | null
-            lateFeeOverride?: number | null
-            notes?: string | null
-          }>
-        )
+        const manualOverrides = toOverridePayload(feeOverrides)
 
         const response = await fetch(`/api/admin/matches/${matchInfo.id}/fees`, {
           method: 'PUT',
@@ -798,6 +808,35 @@ export const useMatchStore = create<MatchStore>()(
       }
     },
 
+    // Dry-run unsaved attendance and override changes against the stored fees
+    previewFees: async () => {
+      const { matchInfo, attendanceData, selectedPlayers, feeOverrides, isDirty } = get()
+      if (!matchInfo?.id || (!isDirty.attendance && !isDirty.fees)) return null
+
+      try {
+        const response = await fetch(`/api/admin/matches/${matchInfo.id}/fees/preview`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...(isDirty.attendance && {
+              attendanceData: toAttendancePayload(attendanceData, selectedPlayers, matchInfo)
+            }),
+            ...(isDirty.fees && { manualOverrides: toOverridePayload(feeOverrides) })
+          })
+        })
+
+        const data = await response.json()
+        if (!data.success) {
+          throw new Error(data.error?.message || 'Failed to preview fees')
+        }
+
+        return data.data as FeePreview
+      } catch (error) {
+        console.error('Error previewing fees:', error)
+        return null
+      }
+    },
+
     // Computed: Get calculated fees (now API-driven)
     getCalculatedFees: () => {
       // Return cached fee data from state (populated by API calls)
@@ -908,6 +947,7 @@ export const useSaveSelectedPlayers = () => useMatchStore(state => state.saveSel
 export const useSaveAttendance = () => useMatchStore(state => state.saveAttendance)
 export const useSaveFees = () => useMatchStore(state => state.saveFees)
 export const useSaveAll = () => useMatchStore(state => state.saveAll)
+export const usePreviewFees = () => useMatchStore(state => state.previewFees)
 export const useGetCalculatedFees = () => useMatchStore(state => state.getCalculatedFees)
 export const useGetTotalParticipants = () => useMatchStore(state => state.getTotalParticipants)
 export const useGetAttendanceStats = () => useMatchStore(state => state.getAttendanceStats)
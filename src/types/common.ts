@@ -37,6 +37,11 @@ export interface PlayerStats {
   redCards: number;
   penalties: number;
   saves: number;
+  goalsPer90?: number;
+  assistsPer90?: number;
+  plusMinus?: number;
+  cleanSheets?: number;
+  form?: number | null;
   rank?: number;
 }
 
@@ -119,6 +124,12 @@ export interface LeaderboardPlayerStats {
   penaltyMisses: number;
   ownGoals: number;
   saves: number;
+  // Goalkeeping from attendance and conceded goals, only on the goalkeeper leaderboard
+  partsInGoal?: number;
+  goalsConceded?: number;
+  savePercentage?: number | null;
+  cleanSheets?: number;
+  cleanSheetSections?: number;
   matches: Set<string>;
   lastMatchDate: Date | null;
   matchesPlayed?: number;
@@ -142,6 +153,12 @@ export interface LeaderboardPlayer {
   penaltyMisses: number;
   ownGoals: number;
   saves: number;
+  // Goalkeeping from attendance and conceded goals, only on the goalkeeper leaderboard
+  partsInGoal?: number;
+  goalsConceded?: number;
+  savePercentage?: number | null;
+  cleanSheets?: number;
+  cleanSheetSections?: number;
   matchesPlayed: number;
   lastMatchDate: Date | null;
 }
\ No newline at end of file